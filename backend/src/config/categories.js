@@ -2,17 +2,17 @@
 // Once seeded, categories are managed via the database and UI
 // The AI service fetches categories directly from the database
 const DEFAULT_CATEGORIES = [
-    { name: 'Fruits et légumes', icon: '🥬', sort_order: 1 },
-    { name: 'Boulangerie', icon: '🥖', sort_order: 2 },
-    { name: 'Produits laitiers', icon: '🥛', sort_order: 3 },
-    { name: 'Viandes et Poulet', icon: '🥩', sort_order: 4 },
-    { name: 'Épicerie', icon: '🛒', sort_order: 5 },
-    { name: 'Surgelés', icon: '🧊', sort_order: 6 },
-    { name: 'Boissons', icon: '🥤', sort_order: 7 },
-    { name: 'Conserves', icon: '🥫', sort_order: 8 },
-    { name: 'Hygiène', icon: '🧴', sort_order: 9 },
-    { name: 'Vaiselle Jetable', icon: '🍽️', sort_order: 10 },
-    { name: 'Autre', icon: '📦', sort_order: 99 },
+    { name: 'Fruits et légumes', icon: '🥬', sort_order: 1, names: { en: 'Fruits & vegetables', he: 'פירות וירקות' } },
+    { name: 'Boulangerie', icon: '🥖', sort_order: 2, names: { en: 'Bakery', he: 'מאפייה' } },
+    { name: 'Produits laitiers', icon: '🥛', sort_order: 3, names: { en: 'Dairy', he: 'מוצרי חלב' } },
+    { name: 'Viandes et Poulet', icon: '🥩', sort_order: 4, names: { en: 'Meat & poultry', he: 'בשר ועוף' } },
+    { name: 'Épicerie', icon: '🛒', sort_order: 5, names: { en: 'Pantry', he: 'מכולת' } },
+    { name: 'Surgelés', icon: '🧊', sort_order: 6, names: { en: 'Frozen', he: 'קפואים' } },
+    { name: 'Boissons', icon: '🥤', sort_order: 7, names: { en: 'Drinks', he: 'משקאות' } },
+    { name: 'Conserves', icon: '🥫', sort_order: 8, names: { en: 'Canned goods', he: 'שימורים' } },
+    { name: 'Hygiène', icon: '🧴', sort_order: 9, names: { en: 'Hygiene', he: 'היגיינה' } },
+    { name: 'Vaiselle Jetable', icon: '🍽️', sort_order: 10, names: { en: 'Disposable tableware', he: 'כלים חד פעמיים' } },
+    { name: 'Autre', icon: '📦', sort_order: 99, names: { en: 'Other', he: 'אחר' } },
 ];
 
 module.exports = {
@@ -1,4 +1,11 @@
-const { Pool } = require('pg');
+const { Pool, types } = require('pg');
+
+// Return NUMERIC columns (e.g. quantities like 1.5) as numbers instead of strings
+types.setTypeParser(types.builtins.NUMERIC, parseFloat);
+
+// Keep DATE columns (best-before dates, week starts) as 'YYYY-MM-DD' so they
+// don't shift with the server's time zone
+types.setTypeParser(types.builtins.DATE, value => value);
 
 const pool = new Pool({
     connectionString: process.env.DATABASE_URL,
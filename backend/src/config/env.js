@@ -6,11 +6,18 @@ const requiredEnvVars = [
     'JWT_SECRET',
 ];
 
+const AI_PROVIDERS = ['gemini', 'openai', 'rules'];
+
 const optionalEnvVars = {
     'PORT': '3001',
     'JWT_EXPIRES_IN': '7d',
-    'GOOGLE_API_KEY': null, // Optional - AI features disabled if missing
+    'AI_PROVIDER': 'gemini', // gemini | openai | rules
+    'AI_MODEL': null, // Optional - provider default if missing
+    'GOOGLE_API_KEY': null, // Optional - rule-based parsing if missing
+    'OPENAI_BASE_URL': 'https://api.openai.com/v1', // Any OpenAI-compatible server (llama.cpp, Ollama...)
+    'OPENAI_API_KEY': null, // Optional - local servers usually don't need one
     'REDIS_URL': null, // Optional - caching disabled if missing
+    'ADMIN_EMAILS': null, // Optional - comma-separated, instance admins (AI review queue)
     'FRONTEND_URL': 'http://localhost:5173',
     'NODE_ENV': 'development',
 };
@@ -33,9 +40,14 @@ function validateEnv() {
         }
     }
 
+    // Validate AI provider
+    if (!AI_PROVIDERS.includes(process.env.AI_PROVIDER)) {
+        missing.push(`AI_PROVIDER (must be one of: ${AI_PROVIDERS.join(', ')})`);
+    }
+
     // Warnings for missing optional features
-    if (!process.env.GOOGLE_API_KEY) {
-        warnings.push('GOOGLE_API_KEY not set - AI parsing will be disabled');
+    if (process.env.AI_PROVIDER === 'gemini' && !process.env.GOOGLE_API_KEY) {
+        warnings.push('GOOGLE_API_KEY not set - falling back to the rule-based parser');
     }
 
     if (!process.env.REDIS_URL) {
@@ -70,5 +82,16 @@ function validateEnv() {
     console.log('✅ Environment configuration validated');
 }
 
-module.exports = { validateEnv };
+// AI provider settings (call after validateEnv so defaults are applied)
+function getAIConfig() {
+    return {
+        provider: process.env.AI_PROVIDER || 'gemini',
+        model: process.env.AI_MODEL || null,
+        googleApiKey: process.env.GOOGLE_API_KEY || null,
+        openaiBaseUrl: process.env.OPENAI_BASE_URL,
+        openaiApiKey: process.env.OPENAI_API_KEY || null
+    };
+}
+
+module.exports = { validateEnv, getAIConfig };
 
@@ -0,0 +1,10 @@
+// Languages products and categories can be named in, and users can read them in.
+// Catalog names (products.name, categories.name) are written in CATALOG_LANGUAGE;
+// product_names / category_names hold the names in the other languages.
+const LANGUAGES = ['fr', 'en', 'he'];
+const CATALOG_LANGUAGE = 'fr';
+
+module.exports = {
+    LANGUAGES,
+    CATALOG_LANGUAGE,
+};
@@ -1,184 +1,205 @@
+/**
+ * Versioned database migrations.
+ *
+ * Migrations live in src/migrations as <version>_<name>.js and export
+ * `up(client)` and optionally `down(client)`. Each one runs in its own
+ * transaction together with its row in schema_migrations, so a failing
+ * migration leaves nothing behind and the next run starts from it again.
+ *
+ * Usage:
+ *   node src/config/migrate.js              apply pending migrations
+ *   node src/config/migrate.js up [version] apply pending migrations up to a version
+ *   node src/config/migrate.js down [steps] roll back the last migration(s) (default 1)
+ *   node src/config/migrate.js status       list applied and pending migrations
+ */
+
 require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
 const { pool } = require('./database');
 
-const schema = `
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-    id SERIAL PRIMARY KEY,
-    email VARCHAR(255) UNIQUE NOT NULL,
-    password_hash VARCHAR(255) NOT NULL,
-    name VARCHAR(100),
-    created_at TIMESTAMP DEFAULT NOW(),
-    updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Categories table (source of truth for categories)
-CREATE TABLE IF NOT EXISTS categories (
-    id SERIAL PRIMARY KEY,
-    name VARCHAR(100) UNIQUE NOT NULL,
-    icon VARCHAR(10) DEFAULT '📦',
-    sort_order INTEGER DEFAULT 0,
-    created_at TIMESTAMP DEFAULT NOW()
-);
-
--- Products table (known products with their category)
-CREATE TABLE IF NOT EXISTS products (
-    id SERIAL PRIMARY KEY,
-    name VARCHAR(255) NOT NULL,
-    category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
-    created_at TIMESTAMP DEFAULT NOW(),
-    updated_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(name)
-);
-
--- Product aliases (spelling variants, alternative names)
-CREATE TABLE IF NOT EXISTS product_aliases (
-    id SERIAL PRIMARY KEY,
-    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
-    alias VARCHAR(255) NOT NULL,
-    created_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(alias)
-);
-
--- Grocery items (user's active shopping list)
-CREATE TABLE IF NOT EXISTS grocery_items (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
-    quantity INTEGER DEFAULT 1,
-    status VARCHAR(50) DEFAULT 'pending',
-    batch_id VARCHAR(50),
-    note TEXT,
-    created_at TIMESTAMP DEFAULT NOW(),
-    updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Grocery history (completed shopping items)
-CREATE TABLE IF NOT EXISTS grocery_history (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-    product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
-    product_name VARCHAR(255) NOT NULL,
-    category_name VARCHAR(100),
-    quantity INTEGER DEFAULT 1,
-    status VARCHAR(50),
-    completed_at TIMESTAMP DEFAULT NOW(),
-    shopping_session_id VARCHAR(50)
-);
-
--- AI request logs (for debugging and monitoring)
-CREATE TABLE IF NOT EXISTS ai_logs (
-    id SERIAL PRIMARY KEY,
-    request_type VARCHAR(50) NOT NULL,
-    input_text TEXT,
-    success BOOLEAN NOT NULL,
-    error_message TEXT,
-    error_type VARCHAR(100),
-    input_tokens INTEGER DEFAULT 0,
-    output_tokens INTEGER DEFAULT 0,
-    response_time_ms INTEGER,
-    created_at TIMESTAMP DEFAULT NOW()
-);
-
--- Meals table (user-defined recipes)
-CREATE TABLE IF NOT EXISTS meals (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-    name VARCHAR(255) NOT NULL,
-    created_at TIMESTAMP DEFAULT NOW(),
-    updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Meal items (products in a meal)
-CREATE TABLE IF NOT EXISTS meal_items (
-    id SERIAL PRIMARY KEY,
-    meal_id INTEGER REFERENCES meals(id) ON DELETE CASCADE,
-    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
-    created_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(meal_id, product_id)
-);
-
--- Menu plans (weekly meal planning)
-CREATE TABLE IF NOT EXISTS menu_plan_items (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-    week_start DATE NOT NULL,
-    day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
-    meal_type VARCHAR(20) NOT NULL DEFAULT 'dinner',
-    meal_id INTEGER REFERENCES meals(id) ON DELETE CASCADE,
-    created_at TIMESTAMP DEFAULT NOW(),
-    UNIQUE(user_id, week_start, day_of_week, meal_type, meal_id)
-);
-
--- Password reset tokens
-CREATE TABLE IF NOT EXISTS password_reset_tokens (
-    id SERIAL PRIMARY KEY,
-    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-    token VARCHAR(64) UNIQUE NOT NULL,
-    expires_at TIMESTAMP NOT NULL,
-    used BOOLEAN DEFAULT FALSE,
-    created_at TIMESTAMP DEFAULT NOW()
-);
-
--- Migration: Add meal_type column and update constraint
-DO $$ 
-BEGIN
-    -- Add meal_type column if it doesn't exist
-    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
-                   WHERE table_name = 'menu_plan_items' AND column_name = 'meal_type') THEN
-        ALTER TABLE menu_plan_items ADD COLUMN meal_type VARCHAR(20) NOT NULL DEFAULT 'dinner';
-    END IF;
-    
-    -- Drop old constraint if it exists (without meal_type)
-    IF EXISTS (SELECT 1 FROM pg_constraint 
-               WHERE conname = 'menu_plan_items_user_id_week_start_day_of_week_meal_id_key') THEN
-        ALTER TABLE menu_plan_items DROP CONSTRAINT menu_plan_items_user_id_week_start_day_of_week_meal_id_key;
-    END IF;
-    
-    -- Create new constraint with meal_type if it doesn't exist
-    IF NOT EXISTS (SELECT 1 FROM pg_constraint 
-                   WHERE conname = 'menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key') THEN
-        ALTER TABLE menu_plan_items ADD CONSTRAINT menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key 
-            UNIQUE(user_id, week_start, day_of_week, meal_type, meal_id);
-    END IF;
-END $$;
-
--- Indexes for performance
-CREATE INDEX IF NOT EXISTS idx_products_category ON products(category_id);
-CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
-CREATE INDEX IF NOT EXISTS idx_aliases_product ON product_aliases(product_id);
-CREATE INDEX IF NOT EXISTS idx_aliases_alias ON product_aliases(alias);
-CREATE INDEX IF NOT EXISTS idx_grocery_items_user ON grocery_items(user_id);
-CREATE INDEX IF NOT EXISTS idx_grocery_items_product ON grocery_items(product_id);
-CREATE INDEX IF NOT EXISTS idx_grocery_items_status ON grocery_items(status);
-CREATE INDEX IF NOT EXISTS idx_grocery_history_user ON grocery_history(user_id);
-CREATE INDEX IF NOT EXISTS idx_grocery_history_session ON grocery_history(shopping_session_id);
-CREATE INDEX IF NOT EXISTS idx_ai_logs_created ON ai_logs(created_at);
-CREATE INDEX IF NOT EXISTS idx_ai_logs_success ON ai_logs(success);
-CREATE INDEX IF NOT EXISTS idx_meals_user ON meals(user_id);
-CREATE INDEX IF NOT EXISTS idx_meal_items_meal ON meal_items(meal_id);
-CREATE INDEX IF NOT EXISTS idx_meal_items_product ON meal_items(product_id);
-CREATE INDEX IF NOT EXISTS idx_menu_plan_items_user ON menu_plan_items(user_id);
-CREATE INDEX IF NOT EXISTS idx_menu_plan_items_week ON menu_plan_items(week_start);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
-`;
-
-async function runMigrations() {
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.js$/;
+// Held for the whole run so two deployments don't migrate at the same time
+const LOCK_KEY = 4815162342;
+
+// Migration files in version order
+function loadMigrations() {
+    const migrations = fs.readdirSync(MIGRATIONS_DIR)
+        .map(file => file.match(FILE_PATTERN))
+        .filter(Boolean)
+        .map(([file, version, name]) => ({ version: parseInt(version, 10), name, file }))
+        .sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < migrations.length; i++) {
+        if (migrations[i].version === migrations[i - 1].version) {
+            throw new Error(`Two migrations share version ${migrations[i].version}: ${migrations[i - 1].file}, ${migrations[i].file}`);
+        }
+    }
+
+    return migrations.map(migration => {
+        const { up, down } = require(path.join(MIGRATIONS_DIR, migration.file));
+        if (typeof up !== 'function') {
+            throw new Error(`Migration ${migration.file} has no up()`);
+        }
+        return { ...migration, up, down };
+    });
+}
+
+// Run with a dedicated connection holding the migration lock
+async function withLockedClient(callback) {
+    const client = await pool.connect();
     try {
-        console.log('🔄 Creating database schema...');
-        await pool.query(schema);
-        console.log('✅ Database schema created successfully');
+        await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY]);
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name VARCHAR(255) NOT NULL,
+                applied_at TIMESTAMP DEFAULT NOW()
+            )
+        `);
+        return await callback(client);
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [LOCK_KEY]).catch(() => {});
+        client.release();
+    }
+}
+
+// Applied migrations by version
+async function getApplied(client) {
+    const result = await client.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+    return new Map(result.rows.map(row => [row.version, row]));
+}
+
+async function inTransaction(client, callback) {
+    await client.query('BEGIN');
+    try {
+        await callback();
+        await client.query('COMMIT');
     } catch (error) {
-        console.error('❌ Schema creation error:', error);
+        await client.query('ROLLBACK');
         throw error;
-    } finally {
-        await pool.end();
+    }
+}
+
+// Apply pending migrations (up to `target` when given). Returns how many ran.
+async function migrateUp(client, target = null) {
+    const applied = await getApplied(client);
+    const pending = loadMigrations().filter(migration =>
+        !applied.has(migration.version) && (target === null || migration.version <= target)
+    );
+
+    if (pending.length === 0) {
+        console.log('✅ Database schema is up to date');
+        return 0;
+    }
+
+    for (const migration of pending) {
+        console.log(`🔄 Applying ${migration.file}`);
+        await inTransaction(client, async () => {
+            await migration.up(client);
+            await client.query(
+                'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                [migration.version, migration.name]
+            );
+        });
+    }
+    console.log(`✅ Applied ${pending.length} migration(s)`);
+    return pending.length;
+}
+
+// Roll back the latest applied migrations, newest first. Returns how many were rolled back.
+async function migrateDown(client, steps = 1) {
+    const applied = await getApplied(client);
+    const byVersion = new Map(loadMigrations().map(migration => [migration.version, migration]));
+    const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+    if (versions.length === 0) {
+        console.log('ℹ️  Nothing to roll back');
+        return 0;
+    }
+
+    for (const version of versions) {
+        const migration = byVersion.get(version);
+        if (!migration) {
+            throw new Error(`Migration ${version}_${applied.get(version).name} is applied but its file is missing`);
+        }
+        if (typeof migration.down !== 'function') {
+            throw new Error(`Migration ${migration.file} can't be rolled back`);
+        }
+        console.log(`🔄 Rolling back ${migration.file}`);
+        await inTransaction(client, async () => {
+            await migration.down(client);
+            await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+        });
+    }
+    console.log(`✅ Rolled back ${versions.length} migration(s)`);
+    return versions.length;
+}
+
+// Applied and pending migrations, plus applied ones whose file is gone
+async function getStatus(client) {
+    const applied = await getApplied(client);
+    const migrations = loadMigrations();
+    const known = new Set(migrations.map(migration => migration.version));
+
+    const rows = migrations.map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        applied_at: applied.has(migration.version) ? applied.get(migration.version).applied_at : null,
+        reversible: typeof migration.down === 'function',
+        missing: false
+    }));
+    for (const [version, row] of applied) {
+        if (!known.has(version)) {
+            rows.push({ version, name: row.name, applied_at: row.applied_at, reversible: false, missing: true });
+        }
+    }
+    rows.sort((a, b) => a.version - b.version);
+
+    const current = Math.max(0, ...[...applied.keys()]);
+    return { current, pending: rows.filter(row => !row.applied_at).length, migrations: rows };
+}
+
+function printStatus({ current, pending, migrations }) {
+    console.log(`Schema version: ${current || 'none'} (${pending} pending)\n`);
+    for (const migration of migrations) {
+        const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+        if (migration.missing) {
+            console.log(`  ⚠️  ${label}  applied ${migration.applied_at.toISOString()}, file missing`);
+        } else if (migration.applied_at) {
+            console.log(`  ✅ ${label}  applied ${migration.applied_at.toISOString()}${migration.reversible ? '' : ' (irreversible)'}`);
+        } else {
+            console.log(`  ⏳ ${label}  pending`);
+        }
+    }
+}
+
+async function main([command = 'up', arg]) {
+    const number = arg !== undefined ? parseInt(arg, 10) : null;
+    if (arg !== undefined && (isNaN(number) || number < 1)) {
+        throw new Error(`Expected a positive number, got "${arg}"`);
+    }
+
+    switch (command) {
+        case 'up':
+            return withLockedClient(client => migrateUp(client, number));
+        case 'down':
+            return withLockedClient(client => migrateDown(client, number ?? 1));
+        case 'status':
+            return withLockedClient(async client => printStatus(await getStatus(client)));
+        default:
+            throw new Error(`Unknown command "${command}" (expected up, down or status)`);
     }
 }
 
 if (require.main === module) {
-    runMigrations();
+    main(process.argv.slice(2))
+        .catch(error => {
+            console.error('❌ Migration error:', error.message);
+            process.exitCode = 1;
+        })
+        .finally(() => pool.end());
 }
 
-module.exports = { runMigrations };
+module.exports = { migrateUp, migrateDown, getStatus };
@@ -5,206 +5,207 @@ const { CATEGORIES } = require('./categories');
 // Use the single source of truth for categories
 const categories = CATEGORIES;
 
-// Products with their category and aliases (spelling variants)
+// Products with their category, aliases (spelling variants) and names in
+// other languages than French
 const products = [
     // Fruits et légumes
-    { name: 'Pommes', category: 'Fruits et légumes', aliases: ['pomme', 'pome', 'pomes', 'apple', 'apples'] },
-    { name: 'Bananes', category: 'Fruits et légumes', aliases: ['banane', 'banana', 'bananas'] },
-    { name: 'Oranges', category: 'Fruits et légumes', aliases: ['orange'] },
-    { name: 'Citrons', category: 'Fruits et légumes', aliases: ['citron', 'lemon', 'lemons'] },
-    { name: 'Fraises', category: 'Fruits et légumes', aliases: ['fraise', 'strawberry', 'strawberries'] },
-    { name: 'Raisins', category: 'Fruits et légumes', aliases: ['raisin', 'grape', 'grapes'] },
-    { name: 'Poires', category: 'Fruits et légumes', aliases: ['poire', 'pear', 'pears'] },
-    { name: 'Pêches', category: 'Fruits et légumes', aliases: ['pêche', 'peche', 'peach', 'peaches'] },
-    { name: 'Cerises', category: 'Fruits et légumes', aliases: ['cerise', 'cherry', 'cherries'] },
-    { name: 'Mangues', category: 'Fruits et légumes', aliases: ['mangue', 'mango'] },
-    { name: 'Ananas', category: 'Fruits et légumes', aliases: ['pineapple'] },
-    { name: 'Melon', category: 'Fruits et légumes', aliases: ['melons'] },
-    { name: 'Pastèque', category: 'Fruits et légumes', aliases: ['pasteque', 'watermelon'] },
-    { name: 'Kiwi', category: 'Fruits et légumes', aliases: ['kiwis'] },
-    { name: 'Avocat', category: 'Fruits et légumes', aliases: ['avocats', 'avocado', 'avocados'] },
-    { name: 'Tomates', category: 'Fruits et légumes', aliases: ['tomate', 'tomato', 'tomatoes'] },
-    { name: 'Carottes', category: 'Fruits et légumes', aliases: ['carotte', 'carrot', 'carrots'] },
-    { name: 'Pommes de terre', category: 'Fruits et légumes', aliases: ['pomme de terre', 'patates', 'patate', 'potato', 'potatoes'] },
-    { name: 'Oignons', category: 'Fruits et légumes', aliases: ['oignon', 'onion', 'onions'] },
-    { name: 'Ail', category: 'Fruits et légumes', aliases: ['garlic'] },
-    { name: 'Poireaux', category: 'Fruits et légumes', aliases: ['poireau', 'leek', 'leeks'] },
-    { name: 'Courgettes', category: 'Fruits et légumes', aliases: ['courgette', 'zucchini'] },
-    { name: 'Aubergines', category: 'Fruits et légumes', aliases: ['aubergine', 'eggplant'] },
-    { name: 'Poivrons', category: 'Fruits et légumes', aliases: ['poivron', 'pepper', 'peppers', 'bell pepper'] },
-    { name: 'Concombre', category: 'Fruits et légumes', aliases: ['concombres', 'cucumber', 'cucumbers'] },
-    { name: 'Salade', category: 'Fruits et légumes', aliases: ['salades', 'laitue', 'lettuce'] },
-    { name: 'Épinards', category: 'Fruits et légumes', aliases: ['épinard', 'epinard', 'epinards', 'spinach'] },
-    { name: 'Haricots verts', category: 'Fruits et légumes', aliases: ['haricot vert', 'green beans'] },
-    { name: 'Brocoli', category: 'Fruits et légumes', aliases: ['brocolis', 'broccoli'] },
-    { name: 'Chou-fleur', category: 'Fruits et légumes', aliases: ['chou fleur', 'choux-fleur', 'cauliflower'] },
-    { name: 'Champignons', category: 'Fruits et légumes', aliases: ['champignon', 'mushroom', 'mushrooms'] },
-    { name: 'Céleri', category: 'Fruits et légumes', aliases: ['celeri', 'celery'] },
-    { name: 'Persil', category: 'Fruits et légumes', aliases: ['parsley'] },
-    { name: 'Coriandre', category: 'Fruits et légumes', aliases: ['cilantro', 'coriander'] },
-    { name: 'Basilic', category: 'Fruits et légumes', aliases: ['basil'] },
-    { name: 'Menthe', category: 'Fruits et légumes', aliases: ['mint'] },
+    { name: 'Pommes', category: 'Fruits et légumes', aliases: ['pomme', 'pome', 'pomes', 'apple', 'apples'], names: { en: 'Apples', he: 'תפוחים' } },
+    { name: 'Bananes', category: 'Fruits et légumes', aliases: ['banane', 'banana', 'bananas'], names: { en: 'Bananas', he: 'בננות' } },
+    { name: 'Oranges', category: 'Fruits et légumes', aliases: ['orange'], names: { en: 'Oranges', he: 'תפוזים' } },
+    { name: 'Citrons', category: 'Fruits et légumes', aliases: ['citron', 'lemon', 'lemons'], names: { en: 'Lemons', he: 'לימונים' } },
+    { name: 'Fraises', category: 'Fruits et légumes', aliases: ['fraise', 'strawberry', 'strawberries'], names: { en: 'Strawberries', he: 'תותים' } },
+    { name: 'Raisins', category: 'Fruits et légumes', aliases: ['raisin', 'grape', 'grapes'], names: { en: 'Grapes', he: 'ענבים' } },
+    { name: 'Poires', category: 'Fruits et légumes', aliases: ['poire', 'pear', 'pears'], names: { en: 'Pears', he: 'אגסים' } },
+    { name: 'Pêches', category: 'Fruits et légumes', aliases: ['pêche', 'peche', 'peach', 'peaches'], names: { en: 'Peaches', he: 'אפרסקים' } },
+    { name: 'Cerises', category: 'Fruits et légumes', aliases: ['cerise', 'cherry', 'cherries'], names: { en: 'Cherries', he: 'דובדבנים' } },
+    { name: 'Mangues', category: 'Fruits et légumes', aliases: ['mangue', 'mango'], names: { en: 'Mangoes', he: 'מנגו' } },
+    { name: 'Ananas', category: 'Fruits et légumes', aliases: ['pineapple'], names: { en: 'Pineapple', he: 'אננס' } },
+    { name: 'Melon', category: 'Fruits et légumes', aliases: ['melons'], names: { en: 'Melon', he: 'מלון' } },
+    { name: 'Pastèque', category: 'Fruits et légumes', aliases: ['pasteque', 'watermelon'], names: { en: 'Watermelon', he: 'אבטיח' } },
+    { name: 'Kiwi', category: 'Fruits et légumes', aliases: ['kiwis'], names: { en: 'Kiwi', he: 'קיווי' } },
+    { name: 'Avocat', category: 'Fruits et légumes', aliases: ['avocats', 'avocado', 'avocados'], names: { en: 'Avocado', he: 'אבוקדו' } },
+    { name: 'Tomates', category: 'Fruits et légumes', aliases: ['tomate', 'tomato', 'tomatoes'], names: { en: 'Tomatoes', he: 'עגבניות' } },
+    { name: 'Carottes', category: 'Fruits et légumes', aliases: ['carotte', 'carrot', 'carrots'], names: { en: 'Carrots', he: 'גזר' } },
+    { name: 'Pommes de terre', category: 'Fruits et légumes', aliases: ['pomme de terre', 'patates', 'patate', 'potato', 'potatoes'], names: { en: 'Potatoes', he: 'תפוחי אדמה' } },
+    { name: 'Oignons', category: 'Fruits et légumes', aliases: ['oignon', 'onion', 'onions'], names: { en: 'Onions', he: 'בצל' } },
+    { name: 'Ail', category: 'Fruits et légumes', aliases: ['garlic'], names: { en: 'Garlic', he: 'שום' } },
+    { name: 'Poireaux', category: 'Fruits et légumes', aliases: ['poireau', 'leek', 'leeks'], names: { en: 'Leeks', he: 'כרישה' } },
+    { name: 'Courgettes', category: 'Fruits et légumes', aliases: ['courgette', 'zucchini'], names: { en: 'Zucchini', he: 'קישואים' } },
+    { name: 'Aubergines', category: 'Fruits et légumes', aliases: ['aubergine', 'eggplant'], names: { en: 'Eggplants', he: 'חצילים' } },
+    { name: 'Poivrons', category: 'Fruits et légumes', aliases: ['poivron', 'pepper', 'peppers', 'bell pepper'], names: { en: 'Bell peppers', he: 'פלפלים' } },
+    { name: 'Concombre', category: 'Fruits et légumes', aliases: ['concombres', 'cucumber', 'cucumbers'], names: { en: 'Cucumber', he: 'מלפפון' } },
+    { name: 'Salade', category: 'Fruits et légumes', aliases: ['salades', 'laitue', 'lettuce'], names: { en: 'Lettuce', he: 'חסה' } },
+    { name: 'Épinards', category: 'Fruits et légumes', aliases: ['épinard', 'epinard', 'epinards', 'spinach'], names: { en: 'Spinach', he: 'תרד' } },
+    { name: 'Haricots verts', category: 'Fruits et légumes', aliases: ['haricot vert', 'green beans'], names: { en: 'Green beans', he: 'שעועית ירוקה' } },
+    { name: 'Brocoli', category: 'Fruits et légumes', aliases: ['brocolis', 'broccoli'], names: { en: 'Broccoli', he: 'ברוקולי' } },
+    { name: 'Chou-fleur', category: 'Fruits et légumes', aliases: ['chou fleur', 'choux-fleur', 'cauliflower'], names: { en: 'Cauliflower', he: 'כרובית' } },
+    { name: 'Champignons', category: 'Fruits et légumes', aliases: ['champignon', 'mushroom', 'mushrooms'], names: { en: 'Mushrooms', he: 'פטריות' } },
+    { name: 'Céleri', category: 'Fruits et légumes', aliases: ['celeri', 'celery'], names: { en: 'Celery', he: 'סלרי' } },
+    { name: 'Persil', category: 'Fruits et légumes', aliases: ['parsley'], names: { en: 'Parsley', he: 'פטרוזיליה' } },
+    { name: 'Coriandre', category: 'Fruits et légumes', aliases: ['cilantro', 'coriander'], names: { en: 'Cilantro', he: 'כוסברה' } },
+    { name: 'Basilic', category: 'Fruits et légumes', aliases: ['basil'], names: { en: 'Basil', he: 'בזיליקום' } },
+    { name: 'Menthe', category: 'Fruits et légumes', aliases: ['mint'], names: { en: 'Mint', he: 'נענע' } },
 
     // Boulangerie
-    { name: 'Pain', category: 'Boulangerie', aliases: ['pains', 'bread'] },
-    { name: 'Baguette', category: 'Boulangerie', aliases: ['baguettes'] },
-    { name: 'Pain de mie', category: 'Boulangerie', aliases: ['pain de mi', 'toast bread'] },
-    { name: 'Pain complet', category: 'Boulangerie', aliases: ['whole wheat bread'] },
-    { name: 'Croissants', category: 'Boulangerie', aliases: ['croissant'] },
-    { name: 'Pains au chocolat', category: 'Boulangerie', aliases: ['pain au chocolat', 'chocolatine', 'chocolatines'] },
-    { name: 'Brioche', category: 'Boulangerie', aliases: ['brioches'] },
-    { name: 'Pain aux raisins', category: 'Boulangerie', aliases: ['pains aux raisins'] },
-    { name: 'Pain de campagne', category: 'Boulangerie', aliases: ['country bread'] },
-    { name: 'Pain aux céréales', category: 'Boulangerie', aliases: ['pain cereales', 'multigrain bread'] },
+    { name: 'Pain', category: 'Boulangerie', aliases: ['pains', 'bread'], names: { en: 'Bread', he: 'לחם' } },
+    { name: 'Baguette', category: 'Boulangerie', aliases: ['baguettes'], names: { en: 'Baguette', he: 'באגט' } },
+    { name: 'Pain de mie', category: 'Boulangerie', aliases: ['pain de mi', 'toast bread'], names: { en: 'Sandwich bread', he: 'לחם אחיד' } },
+    { name: 'Pain complet', category: 'Boulangerie', aliases: ['whole wheat bread'], names: { en: 'Whole wheat bread', he: 'לחם מחיטה מלאה' } },
+    { name: 'Croissants', category: 'Boulangerie', aliases: ['croissant'], names: { en: 'Croissants', he: 'קרואסונים' } },
+    { name: 'Pains au chocolat', category: 'Boulangerie', aliases: ['pain au chocolat', 'chocolatine', 'chocolatines'], names: { en: 'Chocolate croissants', he: 'מאפה שוקולד' } },
+    { name: 'Brioche', category: 'Boulangerie', aliases: ['brioches'], names: { en: 'Brioche', he: 'בריוש' } },
+    { name: 'Pain aux raisins', category: 'Boulangerie', aliases: ['pains aux raisins'], names: { en: 'Raisin bread', he: 'לחם צימוקים' } },
+    { name: 'Pain de campagne', category: 'Boulangerie', aliases: ['country bread'], names: { en: 'Country bread', he: 'לחם כפרי' } },
+    { name: 'Pain aux céréales', category: 'Boulangerie', aliases: ['pain cereales', 'multigrain bread'], names: { en: 'Multigrain bread', he: 'לחם דגנים' } },
 
     // Produits laitiers
-    { name: 'Lait', category: 'Produits laitiers', aliases: ['milk'] },
-    { name: 'Lait demi-écrémé', category: 'Produits laitiers', aliases: ['lait demi ecreme', 'semi-skimmed milk'] },
-    { name: 'Lait entier', category: 'Produits laitiers', aliases: ['whole milk'] },
-    { name: 'Beurre', category: 'Produits laitiers', aliases: ['butter'] },
-    { name: 'Crème fraîche', category: 'Produits laitiers', aliases: ['creme fraiche', 'cream', 'crème'] },
-    { name: 'Fromage', category: 'Produits laitiers', aliases: ['fromages', 'cheese'] },
-    { name: 'Fromage râpé', category: 'Produits laitiers', aliases: ['fromage rape', 'grated cheese', 'emmental râpé'] },
-    { name: 'Camembert', category: 'Produits laitiers', aliases: [] },
-    { name: 'Brie', category: 'Produits laitiers', aliases: [] },
-    { name: 'Comté', category: 'Produits laitiers', aliases: ['comte'] },
-    { name: 'Gruyère', category: 'Produits laitiers', aliases: ['gruyere'] },
-    { name: 'Mozzarella', category: 'Produits laitiers', aliases: ['mozza', 'mozzarela'] },
-    { name: 'Parmesan', category: 'Produits laitiers', aliases: ['parmigiano'] },
-    { name: 'Feta', category: 'Produits laitiers', aliases: [] },
-    { name: 'Chèvre', category: 'Produits laitiers', aliases: ['chevre', 'goat cheese', 'fromage de chèvre'] },
-    { name: 'Yaourts', category: 'Produits laitiers', aliases: ['yaourt', 'yogurt', 'yoghurt', 'yogourt'] },
-    { name: 'Yaourt nature', category: 'Produits laitiers', aliases: ['yaourts nature', 'plain yogurt'] },
-    { name: 'Œufs', category: 'Produits laitiers', aliases: ['oeufs', 'oeuf', 'œuf', 'egg', 'eggs'] },
-    { name: 'Margarine', category: 'Produits laitiers', aliases: [] },
+    { name: 'Lait', category: 'Produits laitiers', aliases: ['milk'], names: { en: 'Milk', he: 'חלב' } },
+    { name: 'Lait demi-écrémé', category: 'Produits laitiers', aliases: ['lait demi ecreme', 'semi-skimmed milk'], names: { en: 'Semi-skimmed milk', he: 'חלב 1%' } },
+    { name: 'Lait entier', category: 'Produits laitiers', aliases: ['whole milk'], names: { en: 'Whole milk', he: 'חלב 3%' } },
+    { name: 'Beurre', category: 'Produits laitiers', aliases: ['butter'], names: { en: 'Butter', he: 'חמאה' } },
+    { name: 'Crème fraîche', category: 'Produits laitiers', aliases: ['creme fraiche', 'cream', 'crème'], names: { en: 'Sour cream', he: 'שמנת' } },
+    { name: 'Fromage', category: 'Produits laitiers', aliases: ['fromages', 'cheese'], names: { en: 'Cheese', he: 'גבינה' } },
+    { name: 'Fromage râpé', category: 'Produits laitiers', aliases: ['fromage rape', 'grated cheese', 'emmental râpé'], names: { en: 'Grated cheese', he: 'גבינה מגוררת' } },
+    { name: 'Camembert', category: 'Produits laitiers', aliases: [], names: { en: 'Camembert', he: 'קממבר' } },
+    { name: 'Brie', category: 'Produits laitiers', aliases: [], names: { en: 'Brie', he: 'ברי' } },
+    { name: 'Comté', category: 'Produits laitiers', aliases: ['comte'], names: { en: 'Comté', he: 'קונטה' } },
+    { name: 'Gruyère', category: 'Produits laitiers', aliases: ['gruyere'], names: { en: 'Gruyère', he: 'גרוייר' } },
+    { name: 'Mozzarella', category: 'Produits laitiers', aliases: ['mozza', 'mozzarela'], names: { en: 'Mozzarella', he: 'מוצרלה' } },
+    { name: 'Parmesan', category: 'Produits laitiers', aliases: ['parmigiano'], names: { en: 'Parmesan', he: 'פרמזן' } },
+    { name: 'Feta', category: 'Produits laitiers', aliases: [], names: { en: 'Feta', he: 'פטה' } },
+    { name: 'Chèvre', category: 'Produits laitiers', aliases: ['chevre', 'goat cheese', 'fromage de chèvre'], names: { en: 'Goat cheese', he: 'גבינת עיזים' } },
+    { name: 'Yaourts', category: 'Produits laitiers', aliases: ['yaourt', 'yogurt', 'yoghurt', 'yogourt'], names: { en: 'Yogurts', he: 'יוגורטים' } },
+    { name: 'Yaourt nature', category: 'Produits laitiers', aliases: ['yaourts nature', 'plain yogurt'], names: { en: 'Plain yogurt', he: 'יוגורט טבעי' } },
+    { name: 'Œufs', category: 'Produits laitiers', aliases: ['oeufs', 'oeuf', 'œuf', 'egg', 'eggs'], names: { en: 'Eggs', he: 'ביצים' } },
+    { name: 'Margarine', category: 'Produits laitiers', aliases: [], names: { en: 'Margarine', he: 'מרגרינה' } },
 
     // Viandes et Poulet
-    { name: 'Poulet', category: 'Viandes et Poulet', aliases: ['chicken', 'poulets'] },
-    { name: 'Escalopes de poulet', category: 'Viandes et Poulet', aliases: ['escalope de poulet', 'chicken breast'] },
-    { name: 'Cuisses de poulet', category: 'Viandes et Poulet', aliases: ['cuisse de poulet', 'chicken thighs'] },
-    { name: 'Ailes de poulet', category: 'Viandes et Poulet', aliases: ['aile de poulet', 'chicken wings'] },
-    { name: 'Bœuf', category: 'Viandes et Poulet', aliases: ['boeuf', 'beef'] },
-    { name: 'Steak haché', category: 'Viandes et Poulet', aliases: ['steaks hachés', 'ground beef', 'viande hachée'] },
-    { name: 'Entrecôte', category: 'Viandes et Poulet', aliases: ['entrecote', 'ribeye'] },
-    { name: 'Rôti de bœuf', category: 'Viandes et Poulet', aliases: ['roti de boeuf', 'beef roast'] },
-    { name: 'Porc', category: 'Viandes et Poulet', aliases: ['pork'] },
-    { name: 'Côtes de porc', category: 'Viandes et Poulet', aliases: ['cote de porc', 'pork chops'] },
-    { name: 'Jambon', category: 'Viandes et Poulet', aliases: ['jambons', 'ham'] },
-    { name: 'Jambon blanc', category: 'Viandes et Poulet', aliases: ['white ham'] },
-    { name: 'Lardons', category: 'Viandes et Poulet', aliases: ['lardon', 'bacon bits'] },
-    { name: 'Bacon', category: 'Viandes et Poulet', aliases: [] },
-    { name: 'Saucisses', category: 'Viandes et Poulet', aliases: ['saucisse', 'sausage', 'sausages'] },
-    { name: 'Merguez', category: 'Viandes et Poulet', aliases: [] },
-    { name: 'Agneau', category: 'Viandes et Poulet', aliases: ['lamb'] },
-    { name: 'Dinde', category: 'Viandes et Poulet', aliases: ['turkey', 'dindes'] },
-    { name: 'Canard', category: 'Viandes et Poulet', aliases: ['duck'] },
-    { name: 'Veau', category: 'Viandes et Poulet', aliases: ['veal'] },
+    { name: 'Poulet', category: 'Viandes et Poulet', aliases: ['chicken', 'poulets'], names: { en: 'Chicken', he: 'עוף' } },
+    { name: 'Escalopes de poulet', category: 'Viandes et Poulet', aliases: ['escalope de poulet', 'chicken breast'], names: { en: 'Chicken breasts', he: 'חזה עוף' } },
+    { name: 'Cuisses de poulet', category: 'Viandes et Poulet', aliases: ['cuisse de poulet', 'chicken thighs'], names: { en: 'Chicken thighs', he: 'ירכי עוף' } },
+    { name: 'Ailes de poulet', category: 'Viandes et Poulet', aliases: ['aile de poulet', 'chicken wings'], names: { en: 'Chicken wings', he: 'כנפיים' } },
+    { name: 'Bœuf', category: 'Viandes et Poulet', aliases: ['boeuf', 'beef'], names: { en: 'Beef', he: 'בקר' } },
+    { name: 'Steak haché', category: 'Viandes et Poulet', aliases: ['steaks hachés', 'ground beef', 'viande hachée'], names: { en: 'Ground beef', he: 'בשר טחון' } },
+    { name: 'Entrecôte', category: 'Viandes et Poulet', aliases: ['entrecote', 'ribeye'], names: { en: 'Rib steak', he: 'אנטריקוט' } },
+    { name: 'Rôti de bœuf', category: 'Viandes et Poulet', aliases: ['roti de boeuf', 'beef roast'], names: { en: 'Roast beef', he: 'צלי בקר' } },
+    { name: 'Porc', category: 'Viandes et Poulet', aliases: ['pork'], names: { en: 'Pork', he: 'חזיר' } },
+    { name: 'Côtes de porc', category: 'Viandes et Poulet', aliases: ['cote de porc', 'pork chops'], names: { en: 'Pork chops', he: 'צלעות חזיר' } },
+    { name: 'Jambon', category: 'Viandes et Poulet', aliases: ['jambons', 'ham'], names: { en: 'Ham', he: 'נקניק חזיר' } },
+    { name: 'Jambon blanc', category: 'Viandes et Poulet', aliases: ['white ham'], names: { en: 'Cooked ham', he: 'נקניק חזיר מבושל' } },
+    { name: 'Lardons', category: 'Viandes et Poulet', aliases: ['lardon', 'bacon bits'], names: { en: 'Bacon bits', he: 'קוביות בייקון' } },
+    { name: 'Bacon', category: 'Viandes et Poulet', aliases: [], names: { en: 'Bacon', he: 'בייקון' } },
+    { name: 'Saucisses', category: 'Viandes et Poulet', aliases: ['saucisse', 'sausage', 'sausages'], names: { en: 'Sausages', he: 'נקניקיות' } },
+    { name: 'Merguez', category: 'Viandes et Poulet', aliases: [], names: { en: 'Merguez', he: 'מרגז' } },
+    { name: 'Agneau', category: 'Viandes et Poulet', aliases: ['lamb'], names: { en: 'Lamb', he: 'כבש' } },
+    { name: 'Dinde', category: 'Viandes et Poulet', aliases: ['turkey', 'dindes'], names: { en: 'Turkey', he: 'הודו' } },
+    { name: 'Canard', category: 'Viandes et Poulet', aliases: ['duck'], names: { en: 'Duck', he: 'ברווז' } },
+    { name: 'Veau', category: 'Viandes et Poulet', aliases: ['veal'], names: { en: 'Veal', he: 'עגל' } },
 
     // Épicerie
-    { name: 'Pâtes', category: 'Épicerie', aliases: ['pates', 'pasta', 'spaghetti', 'spaghettis'] },
-    { name: 'Riz', category: 'Épicerie', aliases: ['rice'] },
-    { name: 'Riz basmati', category: 'Épicerie', aliases: ['basmati rice', 'basmati'] },
-    { name: 'Quinoa', category: 'Épicerie', aliases: [] },
-    { name: 'Couscous', category: 'Épicerie', aliases: [] },
-    { name: 'Farine', category: 'Épicerie', aliases: ['flour'] },
-    { name: 'Sucre', category: 'Épicerie', aliases: ['sugar'] },
-    { name: 'Sel', category: 'Épicerie', aliases: ['salt'] },
-    { name: 'Poivre', category: 'Épicerie', aliases: ['pepper'] },
-    { name: 'Huile d\'olive', category: 'Épicerie', aliases: ['huile olive', 'olive oil'] },
-    { name: 'Huile de tournesol', category: 'Épicerie', aliases: ['huile tournesol', 'sunflower oil'] },
-    { name: 'Vinaigre', category: 'Épicerie', aliases: ['vinegar', 'vinaigre balsamique'] },
-    { name: 'Moutarde', category: 'Épicerie', aliases: ['mustard'] },
-    { name: 'Mayonnaise', category: 'Épicerie', aliases: ['mayo'] },
-    { name: 'Ketchup', category: 'Épicerie', aliases: [] },
-    { name: 'Sauce tomate', category: 'Épicerie', aliases: ['tomato sauce', 'coulis de tomates'] },
-    { name: 'Sauce soja', category: 'Épicerie', aliases: ['soy sauce'] },
-    { name: 'Miel', category: 'Épicerie', aliases: ['honey'] },
-    { name: 'Confiture', category: 'Épicerie', aliases: ['confitures', 'jam'] },
-    { name: 'Nutella', category: 'Épicerie', aliases: ['pâte à tartiner', 'pate a tartiner'] },
-    { name: 'Céréales', category: 'Épicerie', aliases: ['cereales', 'cereal', 'cereals'] },
-    { name: 'Corn flakes', category: 'Épicerie', aliases: ['cornflakes'] },
-    { name: 'Muesli', category: 'Épicerie', aliases: [] },
-    { name: 'Chocolat', category: 'Épicerie', aliases: ['chocolate'] },
-    { name: 'Chocolat noir', category: 'Épicerie', aliases: ['dark chocolate'] },
-    { name: 'Biscuits', category: 'Épicerie', aliases: ['biscuit', 'cookies', 'cookie'] },
-    { name: 'Chips', category: 'Épicerie', aliases: ['crisps'] },
-    { name: 'Cacahuètes', category: 'Épicerie', aliases: ['cacahuete', 'peanuts', 'arachides'] },
-    { name: 'Amandes', category: 'Épicerie', aliases: ['amande', 'almonds'] },
-    { name: 'Noix', category: 'Épicerie', aliases: ['walnuts'] },
-    { name: 'Noisettes', category: 'Épicerie', aliases: ['noisette', 'hazelnuts'] },
-    { name: 'Olives', category: 'Épicerie', aliases: ['olive'] },
-    { name: 'Câpres', category: 'Épicerie', aliases: ['capres', 'capers'] },
-    { name: 'Cornichons', category: 'Épicerie', aliases: ['cornichon', 'pickles'] },
-    { name: 'Thon', category: 'Épicerie', aliases: ['tuna', 'thon en boîte'] },
-    { name: 'Sardines', category: 'Épicerie', aliases: ['sardine'] },
+    { name: 'Pâtes', category: 'Épicerie', aliases: ['pates', 'pasta', 'spaghetti', 'spaghettis'], names: { en: 'Pasta', he: 'פסטה' } },
+    { name: 'Riz', category: 'Épicerie', aliases: ['rice'], names: { en: 'Rice', he: 'אורז' } },
+    { name: 'Riz basmati', category: 'Épicerie', aliases: ['basmati rice', 'basmati'], names: { en: 'Basmati rice', he: 'אורז בסמטי' } },
+    { name: 'Quinoa', category: 'Épicerie', aliases: [], names: { en: 'Quinoa', he: 'קינואה' } },
+    { name: 'Couscous', category: 'Épicerie', aliases: [], names: { en: 'Couscous', he: 'קוסקוס' } },
+    { name: 'Farine', category: 'Épicerie', aliases: ['flour'], names: { en: 'Flour', he: 'קמח' } },
+    { name: 'Sucre', category: 'Épicerie', aliases: ['sugar'], names: { en: 'Sugar', he: 'סוכר' } },
+    { name: 'Sel', category: 'Épicerie', aliases: ['salt'], names: { en: 'Salt', he: 'מלח' } },
+    { name: 'Poivre', category: 'Épicerie', aliases: ['pepper'], names: { en: 'Pepper', he: 'פלפל שחור' } },
+    { name: 'Huile d\'olive', category: 'Épicerie', aliases: ['huile olive', 'olive oil'], names: { en: 'Olive oil', he: 'שמן זית' } },
+    { name: 'Huile de tournesol', category: 'Épicerie', aliases: ['huile tournesol', 'sunflower oil'], names: { en: 'Sunflower oil', he: 'שמן חמניות' } },
+    { name: 'Vinaigre', category: 'Épicerie', aliases: ['vinegar', 'vinaigre balsamique'], names: { en: 'Vinegar', he: 'חומץ' } },
+    { name: 'Moutarde', category: 'Épicerie', aliases: ['mustard'], names: { en: 'Mustard', he: 'חרדל' } },
+    { name: 'Mayonnaise', category: 'Épicerie', aliases: ['mayo'], names: { en: 'Mayonnaise', he: 'מיונז' } },
+    { name: 'Ketchup', category: 'Épicerie', aliases: [], names: { en: 'Ketchup', he: 'קטשופ' } },
+    { name: 'Sauce tomate', category: 'Épicerie', aliases: ['tomato sauce', 'coulis de tomates'], names: { en: 'Tomato sauce', he: 'רוטב עגבניות' } },
+    { name: 'Sauce soja', category: 'Épicerie', aliases: ['soy sauce'], names: { en: 'Soy sauce', he: 'רוטב סויה' } },
+    { name: 'Miel', category: 'Épicerie', aliases: ['honey'], names: { en: 'Honey', he: 'דבש' } },
+    { name: 'Confiture', category: 'Épicerie', aliases: ['confitures', 'jam'], names: { en: 'Jam', he: 'ריבה' } },
+    { name: 'Nutella', category: 'Épicerie', aliases: ['pâte à tartiner', 'pate a tartiner'], names: { en: 'Nutella', he: 'נוטלה' } },
+    { name: 'Céréales', category: 'Épicerie', aliases: ['cereales', 'cereal', 'cereals'], names: { en: 'Cereal', he: 'דגני בוקר' } },
+    { name: 'Corn flakes', category: 'Épicerie', aliases: ['cornflakes'], names: { en: 'Corn flakes', he: 'קורנפלקס' } },
+    { name: 'Muesli', category: 'Épicerie', aliases: [], names: { en: 'Muesli', he: 'מוזלי' } },
+    { name: 'Chocolat', category: 'Épicerie', aliases: ['chocolate'], names: { en: 'Chocolate', he: 'שוקולד' } },
+    { name: 'Chocolat noir', category: 'Épicerie', aliases: ['dark chocolate'], names: { en: 'Dark chocolate', he: 'שוקולד מריר' } },
+    { name: 'Biscuits', category: 'Épicerie', aliases: ['biscuit', 'cookies', 'cookie'], names: { en: 'Cookies', he: 'עוגיות' } },
+    { name: 'Chips', category: 'Épicerie', aliases: ['crisps'], names: { en: 'Chips', he: 'צ\'יפס' } },
+    { name: 'Cacahuètes', category: 'Épicerie', aliases: ['cacahuete', 'peanuts', 'arachides'], names: { en: 'Peanuts', he: 'בוטנים' } },
+    { name: 'Amandes', category: 'Épicerie', aliases: ['amande', 'almonds'], names: { en: 'Almonds', he: 'שקדים' } },
+    { name: 'Noix', category: 'Épicerie', aliases: ['walnuts'], names: { en: 'Walnuts', he: 'אגוזי מלך' } },
+    { name: 'Noisettes', category: 'Épicerie', aliases: ['noisette', 'hazelnuts'], names: { en: 'Hazelnuts', he: 'אגוזי לוז' } },
+    { name: 'Olives', category: 'Épicerie', aliases: ['olive'], names: { en: 'Olives', he: 'זיתים' } },
+    { name: 'Câpres', category: 'Épicerie', aliases: ['capres', 'capers'], names: { en: 'Capers', he: 'צלפים' } },
+    { name: 'Cornichons', category: 'Épicerie', aliases: ['cornichon', 'pickles'], names: { en: 'Pickles', he: 'מלפפונים חמוצים' } },
+    { name: 'Thon', category: 'Épicerie', aliases: ['tuna', 'thon en boîte'], names: { en: 'Tuna', he: 'טונה' } },
+    { name: 'Sardines', category: 'Épicerie', aliases: ['sardine'], names: { en: 'Sardines', he: 'סרדינים' } },
 
     // Surgelés
-    { name: 'Pizza surgelée', category: 'Surgelés', aliases: ['pizzas surgelées', 'frozen pizza'] },
-    { name: 'Frites surgelées', category: 'Surgelés', aliases: ['frites', 'frozen fries', 'french fries'] },
-    { name: 'Légumes surgelés', category: 'Surgelés', aliases: ['frozen vegetables'] },
-    { name: 'Glace', category: 'Surgelés', aliases: ['glaces', 'ice cream', 'crème glacée'] },
-    { name: 'Poisson surgelé', category: 'Surgelés', aliases: ['frozen fish'] },
-    { name: 'Nuggets', category: 'Surgelés', aliases: ['chicken nuggets'] },
-    { name: 'Cordons bleus', category: 'Surgelés', aliases: ['cordon bleu'] },
+    { name: 'Pizza surgelée', category: 'Surgelés', aliases: ['pizzas surgelées', 'frozen pizza'], names: { en: 'Frozen pizza', he: 'פיצה קפואה' } },
+    { name: 'Frites surgelées', category: 'Surgelés', aliases: ['frites', 'frozen fries', 'french fries'], names: { en: 'Frozen fries', he: 'צ\'יפס קפוא' } },
+    { name: 'Légumes surgelés', category: 'Surgelés', aliases: ['frozen vegetables'], names: { en: 'Frozen vegetables', he: 'ירקות קפואים' } },
+    { name: 'Glace', category: 'Surgelés', aliases: ['glaces', 'ice cream', 'crème glacée'], names: { en: 'Ice cream', he: 'גלידה' } },
+    { name: 'Poisson surgelé', category: 'Surgelés', aliases: ['frozen fish'], names: { en: 'Frozen fish', he: 'דג קפוא' } },
+    { name: 'Nuggets', category: 'Surgelés', aliases: ['chicken nuggets'], names: { en: 'Nuggets', he: 'נאגטס' } },
+    { name: 'Cordons bleus', category: 'Surgelés', aliases: ['cordon bleu'], names: { en: 'Cordon bleu', he: 'שניצל ממולא' } },
 
     // Boissons
-    { name: 'Eau', category: 'Boissons', aliases: ['water', 'eau minérale', 'eau minerale'] },
-    { name: 'Jus d\'orange', category: 'Boissons', aliases: ['jus orange', 'orange juice'] },
-    { name: 'Jus de pomme', category: 'Boissons', aliases: ['jus pomme', 'apple juice'] },
-    { name: 'Coca', category: 'Boissons', aliases: ['coca-cola', 'coca cola', 'coke'] },
-    { name: 'Limonade', category: 'Boissons', aliases: ['lemonade'] },
-    { name: 'Bière', category: 'Boissons', aliases: ['biere', 'bieres', 'bières', 'beer', 'beers'] },
-    { name: 'Vin', category: 'Boissons', aliases: ['vins', 'wine', 'wines'] },
-    { name: 'Vin rouge', category: 'Boissons', aliases: ['red wine'] },
-    { name: 'Vin blanc', category: 'Boissons', aliases: ['white wine'] },
-    { name: 'Café', category: 'Boissons', aliases: ['cafe', 'coffee'] },
-    { name: 'Thé', category: 'Boissons', aliases: ['the', 'tea'] },
-    { name: 'Tisane', category: 'Boissons', aliases: ['tisanes', 'herbal tea'] },
-    { name: 'Sirop', category: 'Boissons', aliases: ['sirops', 'syrup'] },
+    { name: 'Eau', category: 'Boissons', aliases: ['water', 'eau minérale', 'eau minerale'], names: { en: 'Water', he: 'מים' } },
+    { name: 'Jus d\'orange', category: 'Boissons', aliases: ['jus orange', 'orange juice'], names: { en: 'Orange juice', he: 'מיץ תפוזים' } },
+    { name: 'Jus de pomme', category: 'Boissons', aliases: ['jus pomme', 'apple juice'], names: { en: 'Apple juice', he: 'מיץ תפוחים' } },
+    { name: 'Coca', category: 'Boissons', aliases: ['coca-cola', 'coca cola', 'coke'], names: { en: 'Cola', he: 'קולה' } },
+    { name: 'Limonade', category: 'Boissons', aliases: ['lemonade'], names: { en: 'Lemonade', he: 'לימונדה' } },
+    { name: 'Bière', category: 'Boissons', aliases: ['biere', 'bieres', 'bières', 'beer', 'beers'], names: { en: 'Beer', he: 'בירה' } },
+    { name: 'Vin', category: 'Boissons', aliases: ['vins', 'wine', 'wines'], names: { en: 'Wine', he: 'יין' } },
+    { name: 'Vin rouge', category: 'Boissons', aliases: ['red wine'], names: { en: 'Red wine', he: 'יין אדום' } },
+    { name: 'Vin blanc', category: 'Boissons', aliases: ['white wine'], names: { en: 'White wine', he: 'יין לבן' } },
+    { name: 'Café', category: 'Boissons', aliases: ['cafe', 'coffee'], names: { en: 'Coffee', he: 'קפה' } },
+    { name: 'Thé', category: 'Boissons', aliases: ['the', 'tea'], names: { en: 'Tea', he: 'תה' } },
+    { name: 'Tisane', category: 'Boissons', aliases: ['tisanes', 'herbal tea'], names: { en: 'Herbal tea', he: 'תה צמחים' } },
+    { name: 'Sirop', category: 'Boissons', aliases: ['sirops', 'syrup'], names: { en: 'Syrup', he: 'סירופ' } },
 
     // Hygiène
-    { name: 'Savon', category: 'Hygiène', aliases: ['savons', 'soap'] },
-    { name: 'Shampooing', category: 'Hygiène', aliases: ['shampoing', 'shampoo'] },
-    { name: 'Gel douche', category: 'Hygiène', aliases: ['shower gel', 'body wash'] },
-    { name: 'Dentifrice', category: 'Hygiène', aliases: ['toothpaste'] },
-    { name: 'Brosse à dents', category: 'Hygiène', aliases: ['brosse a dents', 'toothbrush'] },
-    { name: 'Déodorant', category: 'Hygiène', aliases: ['deodorant', 'deo'] },
-    { name: 'Papier toilette', category: 'Hygiène', aliases: ['papier wc', 'toilet paper', 'pq'] },
-    { name: 'Mouchoirs', category: 'Hygiène', aliases: ['mouchoir', 'tissues', 'kleenex'] },
-    { name: 'Cotons', category: 'Hygiène', aliases: ['coton', 'cotton pads'] },
-    { name: 'Rasoirs', category: 'Hygiène', aliases: ['rasoir', 'razor', 'razors'] },
-    { name: 'Crème hydratante', category: 'Hygiène', aliases: ['creme hydratante', 'moisturizer'] },
-    { name: 'Lessive', category: 'Hygiène', aliases: ['detergent', 'laundry detergent'] },
-    { name: 'Adoucissant', category: 'Hygiène', aliases: ['fabric softener'] },
-    { name: 'Liquide vaisselle', category: 'Hygiène', aliases: ['dish soap'] },
-    { name: 'Éponges', category: 'Hygiène', aliases: ['eponge', 'eponges', 'sponge', 'sponges'] },
+    { name: 'Savon', category: 'Hygiène', aliases: ['savons', 'soap'], names: { en: 'Soap', he: 'סבון' } },
+    { name: 'Shampooing', category: 'Hygiène', aliases: ['shampoing', 'shampoo'], names: { en: 'Shampoo', he: 'שמפו' } },
+    { name: 'Gel douche', category: 'Hygiène', aliases: ['shower gel', 'body wash'], names: { en: 'Shower gel', he: 'ג\'ל רחצה' } },
+    { name: 'Dentifrice', category: 'Hygiène', aliases: ['toothpaste'], names: { en: 'Toothpaste', he: 'משחת שיניים' } },
+    { name: 'Brosse à dents', category: 'Hygiène', aliases: ['brosse a dents', 'toothbrush'], names: { en: 'Toothbrush', he: 'מברשת שיניים' } },
+    { name: 'Déodorant', category: 'Hygiène', aliases: ['deodorant', 'deo'], names: { en: 'Deodorant', he: 'דאודורנט' } },
+    { name: 'Papier toilette', category: 'Hygiène', aliases: ['papier wc', 'toilet paper', 'pq'], names: { en: 'Toilet paper', he: 'נייר טואלט' } },
+    { name: 'Mouchoirs', category: 'Hygiène', aliases: ['mouchoir', 'tissues', 'kleenex'], names: { en: 'Tissues', he: 'טישו' } },
+    { name: 'Cotons', category: 'Hygiène', aliases: ['coton', 'cotton pads'], names: { en: 'Cotton pads', he: 'פדים' } },
+    { name: 'Rasoirs', category: 'Hygiène', aliases: ['rasoir', 'razor', 'razors'], names: { en: 'Razors', he: 'סכיני גילוח' } },
+    { name: 'Crème hydratante', category: 'Hygiène', aliases: ['creme hydratante', 'moisturizer'], names: { en: 'Moisturizer', he: 'קרם לחות' } },
+    { name: 'Lessive', category: 'Hygiène', aliases: ['detergent', 'laundry detergent'], names: { en: 'Laundry detergent', he: 'אבקת כביסה' } },
+    { name: 'Adoucissant', category: 'Hygiène', aliases: ['fabric softener'], names: { en: 'Fabric softener', he: 'מרכך כביסה' } },
+    { name: 'Liquide vaisselle', category: 'Hygiène', aliases: ['dish soap'], names: { en: 'Dish soap', he: 'סבון כלים' } },
+    { name: 'Éponges', category: 'Hygiène', aliases: ['eponge', 'eponges', 'sponge', 'sponges'], names: { en: 'Sponges', he: 'ספוגים' } },
 
     // Conserves
-    { name: 'Tomates pelées', category: 'Conserves', aliases: ['tomates pelees', 'peeled tomatoes', 'tomates en boîte'] },
-    { name: 'Haricots rouges', category: 'Conserves', aliases: ['haricot rouge', 'red beans', 'kidney beans'] },
-    { name: 'Haricots blancs', category: 'Conserves', aliases: ['haricot blanc', 'white beans'] },
-    { name: 'Pois chiches', category: 'Conserves', aliases: ['pois chiche', 'chickpeas'] },
-    { name: 'Lentilles', category: 'Conserves', aliases: ['lentille', 'lentils'] },
-    { name: 'Maïs', category: 'Conserves', aliases: ['mais', 'corn'] },
-    { name: 'Petits pois', category: 'Conserves', aliases: ['petit pois', 'peas'] },
-    { name: 'Champignons en boîte', category: 'Conserves', aliases: ['canned mushrooms'] },
-    { name: 'Soupe', category: 'Conserves', aliases: ['soupes', 'soup'] },
+    { name: 'Tomates pelées', category: 'Conserves', aliases: ['tomates pelees', 'peeled tomatoes', 'tomates en boîte'], names: { en: 'Peeled tomatoes', he: 'עגבניות מרוסקות' } },
+    { name: 'Haricots rouges', category: 'Conserves', aliases: ['haricot rouge', 'red beans', 'kidney beans'], names: { en: 'Kidney beans', he: 'שעועית אדומה' } },
+    { name: 'Haricots blancs', category: 'Conserves', aliases: ['haricot blanc', 'white beans'], names: { en: 'White beans', he: 'שעועית לבנה' } },
+    { name: 'Pois chiches', category: 'Conserves', aliases: ['pois chiche', 'chickpeas'], names: { en: 'Chickpeas', he: 'חומוס' } },
+    { name: 'Lentilles', category: 'Conserves', aliases: ['lentille', 'lentils'], names: { en: 'Lentils', he: 'עדשים' } },
+    { name: 'Maïs', category: 'Conserves', aliases: ['mais', 'corn'], names: { en: 'Corn', he: 'תירס' } },
+    { name: 'Petits pois', category: 'Conserves', aliases: ['petit pois', 'peas'], names: { en: 'Peas', he: 'אפונה' } },
+    { name: 'Champignons en boîte', category: 'Conserves', aliases: ['canned mushrooms'], names: { en: 'Canned mushrooms', he: 'פטריות בקופסה' } },
+    { name: 'Soupe', category: 'Conserves', aliases: ['soupes', 'soup'], names: { en: 'Soup', he: 'מרק' } },
 
     // Vaiselle Jetable
     // Fourchettes, cuillères, couteaux, etc.
-    { name: 'Fourchettes', category: 'Vaiselle Jetable', aliases: ['fourchette', 'forchette', 'forchet'] },
-    { name: 'Cuillères', category: 'Vaiselle Jetable', aliases: ['cuillère', 'cuillere', 'cuileres'] },
-    { name: 'Couteaux', category: 'Vaiselle Jetable', aliases: ['couteau', 'couteaux'] },
-    { name: 'Pinces', category: 'Vaiselle Jetable', aliases: ['pince', 'pincees'] },
-    { name: 'Serviettes', category: 'Vaiselle Jetable', aliases: ['serviette', 'serviettes', 'servietes', 'serviete'] },
-    { name: 'Couverts', category: 'Vaiselle Jetable', aliases: ['couvert', 'couverts'] },
-    { name: 'Assiettes jetables', category: 'Vaiselle Jetable', aliases: ['assiette jetable', 'disposable plates'] },
-    { name: 'Gobelets', category: 'Vaiselle Jetable', aliases: ['gobelet', 'cups', 'plastic cups'] },
-    { name: 'Serviettes en papier', category: 'Vaiselle Jetable', aliases: ['serviette papier', 'paper napkins', 'napkins'] },
-    { name: 'Couverts jetables', category: 'Vaiselle Jetable', aliases: ['couvert jetable', 'disposable cutlery'] },
-    { name: 'Film alimentaire', category: 'Vaiselle Jetable', aliases: ['cling film', 'plastic wrap'] },
-    { name: 'Papier aluminium', category: 'Vaiselle Jetable', aliases: ['alu', 'aluminum foil', 'foil'] },
-    { name: 'Sacs poubelle', category: 'Vaiselle Jetable', aliases: ['sac poubelle', 'trash bags', 'garbage bags'] },
+    { name: 'Fourchettes', category: 'Vaiselle Jetable', aliases: ['fourchette', 'forchette', 'forchet'], names: { en: 'Forks', he: 'מזלגות' } },
+    { name: 'Cuillères', category: 'Vaiselle Jetable', aliases: ['cuillère', 'cuillere', 'cuileres'], names: { en: 'Spoons', he: 'כפות' } },
+    { name: 'Couteaux', category: 'Vaiselle Jetable', aliases: ['couteau', 'couteaux'], names: { en: 'Knives', he: 'סכינים' } },
+    { name: 'Pinces', category: 'Vaiselle Jetable', aliases: ['pince', 'pincees'], names: { en: 'Tongs', he: 'מלקחיים' } },
+    { name: 'Serviettes', category: 'Vaiselle Jetable', aliases: ['serviette', 'serviettes', 'servietes', 'serviete'], names: { en: 'Napkins', he: 'מפיות' } },
+    { name: 'Couverts', category: 'Vaiselle Jetable', aliases: ['couvert', 'couverts'], names: { en: 'Cutlery', he: 'סכו"ם' } },
+    { name: 'Assiettes jetables', category: 'Vaiselle Jetable', aliases: ['assiette jetable', 'disposable plates'], names: { en: 'Disposable plates', he: 'צלחות חד פעמיות' } },
+    { name: 'Gobelets', category: 'Vaiselle Jetable', aliases: ['gobelet', 'cups', 'plastic cups'], names: { en: 'Cups', he: 'כוסות חד פעמיות' } },
+    { name: 'Serviettes en papier', category: 'Vaiselle Jetable', aliases: ['serviette papier', 'paper napkins', 'napkins'], names: { en: 'Paper napkins', he: 'מפיות נייר' } },
+    { name: 'Couverts jetables', category: 'Vaiselle Jetable', aliases: ['couvert jetable', 'disposable cutlery'], names: { en: 'Disposable cutlery', he: 'סכו"ם חד פעמי' } },
+    { name: 'Film alimentaire', category: 'Vaiselle Jetable', aliases: ['cling film', 'plastic wrap'], names: { en: 'Cling film', he: 'ניילון נצמד' } },
+    { name: 'Papier aluminium', category: 'Vaiselle Jetable', aliases: ['alu', 'aluminum foil', 'foil'], names: { en: 'Aluminum foil', he: 'נייר אלומיניום' } },
+    { name: 'Sacs poubelle', category: 'Vaiselle Jetable', aliases: ['sac poubelle', 'trash bags', 'garbage bags'], names: { en: 'Trash bags', he: 'שקיות אשפה' } },
 ];
 
 async function seed() {
@@ -214,6 +215,7 @@ async function seed() {
     console.log('📁 Inserting default categories...');
     const categoryMap = {};
     let newCategories = 0;
+    let newNames = 0;
     
     for (const cat of categories) {
         try {
@@ -237,6 +239,17 @@ async function seed() {
                 categoryMap[cat.name] = result.rows[0].id;
                 newCategories++;
             }
+
+            // Names in other languages - only the missing ones
+            for (const [language, name] of Object.entries(cat.names || {})) {
+                const nameResult = await pool.query(
+                    `INSERT INTO category_names (category_id, language, name)
+                     VALUES ($1, $2, $3)
+                     ON CONFLICT (category_id, language) DO NOTHING`,
+                    [categoryMap[cat.name], language, name]
+                );
+                newNames += nameResult.rowCount;
+            }
         } catch (error) {
             console.error(`Error with category ${cat.name}:`, error.message);
         }
@@ -296,6 +309,17 @@ async function seed() {
                     // Ignore errors
                 }
             }
+
+            // Names in other languages - only the missing ones
+            for (const [language, name] of Object.entries(product.names || {})) {
+                const nameResult = await pool.query(
+                    `INSERT INTO product_names (product_id, language, name)
+                     VALUES ($1, $2, $3)
+                     ON CONFLICT (product_id, language) DO NOTHING`,
+                    [productId, language, name]
+                );
+                newNames += nameResult.rowCount;
+            }
         } catch (error) {
             console.error(`Error with product ${product.name}:`, error.message);
         }
@@ -303,6 +327,7 @@ async function seed() {
 
     console.log(`✅ Products: ${newProducts} new`);
     console.log(`✅ Aliases: ${newAliases} new`);
+    console.log(`✅ Translated names: ${newNames} new`);
     console.log('🎉 Seed complete!');
 }
 
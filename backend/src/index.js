@@ -9,6 +9,11 @@ const { validateEnv } = require('./config/env');
 const db = require('./config/database');
 const aiService = require('./services/aiService');
 const spellService = require('./services/spellService');
+const schedulerService = require('./services/schedulerService');
+const expiryService = require('./services/expiryService');
+const stapleService = require('./services/stapleService');
+const operationService = require('./services/operationService');
+const localizeResponses = require('./middleware/localize');
 
 // Validate environment before anything else
 validateEnv();
@@ -20,6 +25,13 @@ const historyRoutes = require('./routes/history');
 const productsRoutes = require('./routes/products');
 const mealsRoutes = require('./routes/meals');
 const menuRoutes = require('./routes/menu');
+const householdsRoutes = require('./routes/households');
+const storesRoutes = require('./routes/stores');
+const insightsRoutes = require('./routes/insights');
+const pantryRoutes = require('./routes/pantry');
+const staplesRoutes = require('./routes/staples');
+const transferRoutes = require('./routes/transfer');
+const reviewsRoutes = require('./routes/reviews');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -55,8 +67,13 @@ app.use(cors({
 }));
 
 // Body parsing
+app.use('/api/meals/import', express.json({ limit: '2mb' })); // Whole recipe pages
+app.use('/api/transfer', express.json({ limit: '10mb' })); // Imported exports
 app.use(express.json({ limit: '10kb' })); // Limit body size
 
+// Product and category names in each user's language
+app.use('/api', localizeResponses);
+
 // Request logging in development
 if (process.env.NODE_ENV !== 'production') {
     app.use((req, res, next) => {
@@ -84,16 +101,25 @@ app.get('/health', async (req, res) => {
 });
 
 // Routes with specific rate limits
-// Only apply auth rate limiter to login/register/reset, not to /me
+// Only apply auth rate limiter to login/register/reset/join, not to /me
 app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/register', authLimiter);
 app.use('/api/auth/reset-password', authLimiter);
+app.use('/api/auth/join', authLimiter);
+app.use('/api/auth/invite', authLimiter);
 app.use('/api/auth', authRoutes);
 app.use('/api/groceries', groceriesRoutes);
 app.use('/api/history', historyRoutes);
 app.use('/api/products', productsRoutes);
 app.use('/api/meals', mealsRoutes);
 app.use('/api/menu', menuRoutes);
+app.use('/api/households', householdsRoutes);
+app.use('/api/stores', storesRoutes);
+app.use('/api/insights', insightsRoutes);
+app.use('/api/pantry', pantryRoutes);
+app.use('/api/staples', staplesRoutes);
+app.use('/api/transfer', transferRoutes);
+app.use('/api/reviews', reviewsRoutes);
 
 // Serve frontend static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -101,6 +127,12 @@ if (process.env.NODE_ENV === 'production') {
     app.use(express.static(frontendDist, {
         maxAge: '1y',
         immutable: true,
+        setHeaders: (res, filePath) => {
+            // Service worker must be re-checked on every load to pick up new versions
+            if (path.basename(filePath) === 'sw.js') {
+                res.setHeader('Cache-Control', 'no-cache');
+            }
+        },
     }));
     app.get('*', (req, res) => {
         res.sendFile(path.join(frontendDist, 'index.html'));
@@ -145,6 +177,12 @@ async function start() {
             console.warn('⚠️ Spell service init failed:', err.message)
         );
 
+        // Daily background jobs
+        schedulerService.daily('use-soon', () => expiryService.refreshAll());
+        schedulerService.daily('staples', () => stapleService.addDueStaples());
+        schedulerService.daily('operations', () => operationService.deleteOld());
+        schedulerService.start();
+
         app.listen(PORT, () => {
             console.log(`🚀 Server running on port ${PORT}`);
             console.log(`📍 Environment: ${process.env.NODE_ENV}`);
@@ -68,6 +68,15 @@ const authMiddleware = async (req, res, next) => {
     }
 };
 
+// Instance-wide screens (the shared catalog's review queue). Use after authMiddleware
+const requireAdmin = (req, res, next) => {
+    if (!req.user?.isAdmin()) {
+        return res.status(403).json({ error: 'Admin access required' });
+    }
+    next();
+};
+
 module.exports = authMiddleware;
 module.exports.clearUserCache = clearUserCache;
+module.exports.requireAdmin = requireAdmin;
 
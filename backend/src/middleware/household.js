@@ -0,0 +1,53 @@
+const Household = require('../models/Household');
+
+/**
+ * Middleware that resolves the household a request operates on.
+ * Must run after authMiddleware.
+ *
+ * The client selects a household with the X-Household-Id header; without it
+ * the user's first household is used. Membership is always enforced, and the
+ * member's role is exposed as req.householdRole.
+ */
+const householdMiddleware = async (req, res, next) => {
+    try {
+        const requested = req.headers['x-household-id'];
+
+        if (requested) {
+            const householdId = parseInt(requested);
+            if (isNaN(householdId)) {
+                return res.status(400).json({ error: 'Invalid household' });
+            }
+
+            const role = await Household.getRole(householdId, req.userId);
+            if (!role) {
+                return res.status(403).json({ error: 'Not a member of this household' });
+            }
+
+            req.householdId = householdId;
+            req.householdRole = role;
+            return next();
+        }
+
+        const household = await Household.findDefaultForUser(req.user);
+        req.householdId = household.id;
+        req.householdRole = household.role;
+        next();
+    } catch (error) {
+        console.error('Household middleware error:', error);
+        return res.status(500).json({ error: 'Failed to resolve household' });
+    }
+};
+
+/**
+ * Restrict a route to members with one of the given roles.
+ * Must run after householdMiddleware.
+ */
+const requireRole = (...roles) => (req, res, next) => {
+    if (!roles.includes(req.householdRole)) {
+        return res.status(403).json({ error: 'Your role in this household does not allow this action' });
+    }
+    next();
+};
+
+module.exports = householdMiddleware;
+module.exports.requireRole = requireRole;
@@ -0,0 +1,30 @@
+const localeService = require('../services/localeService');
+
+/**
+ * Middleware that shows product and category names in the user's language
+ * (users.language) in JSON responses. Mounted ahead of the routes: it reads
+ * req.user when the route responds, after authMiddleware set it. Error
+ * responses and users without a language are sent as they are.
+ */
+const localizeResponses = (req, res, next) => {
+    const json = res.json.bind(res);
+
+    res.json = (body) => {
+        const language = req.user && req.user.language;
+        if (!language || res.statusCode >= 400) {
+            return json(body);
+        }
+
+        localeService.localize(body, language)
+            .then(json)
+            .catch((error) => {
+                console.error('Error localizing response:', error);
+                json(body);
+            });
+        return res;
+    };
+
+    next();
+};
+
+module.exports = localizeResponses;
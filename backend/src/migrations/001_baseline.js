@@ -0,0 +1,495 @@
+// Baseline: the schema as it stood before versioned migrations. Every statement
+// is guarded (IF NOT EXISTS, DO blocks), so deployments created by the old
+// migrate.js, including pre-household ones, are brought up to date by it.
+
+const schema = `
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    email VARCHAR(255) UNIQUE NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    name VARCHAR(100),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Households (a shared list, history, meals and menu plan belong to one household)
+CREATE TABLE IF NOT EXISTS households (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Household members (users can belong to several households)
+-- Roles: owner (manages members and invites), editor (edits list, catalog, meals), shopper (shops only)
+CREATE TABLE IF NOT EXISTS household_members (
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'owner' CHECK (role IN ('owner', 'editor', 'shopper')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (household_id, user_id)
+);
+
+-- Household invites (time-limited, single-use join links)
+CREATE TABLE IF NOT EXISTS household_invites (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    token VARCHAR(64) UNIQUE NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'shopper')),
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP NOT NULL,
+    used BOOLEAN DEFAULT FALSE,
+    used_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Categories table (source of truth for categories)
+CREATE TABLE IF NOT EXISTS categories (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) UNIQUE NOT NULL,
+    icon VARCHAR(10) DEFAULT '📦',
+    sort_order INTEGER DEFAULT 0,
+    shelf_life_days INTEGER,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Products table (known products with their category)
+CREATE TABLE IF NOT EXISTS products (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+    shelf_life_days INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(name)
+);
+
+-- Product aliases (spelling variants, alternative names)
+CREATE TABLE IF NOT EXISTS product_aliases (
+    id SERIAL PRIMARY KEY,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    alias VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(alias)
+);
+
+-- Grocery items (household's active shopping list, user_id = who added it)
+CREATE TABLE IF NOT EXISTS grocery_items (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(10, 3) DEFAULT 1,
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    unit_price NUMERIC(10, 2),
+    best_before DATE,
+    status VARCHAR(50) DEFAULT 'pending',
+    batch_id VARCHAR(50),
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Stores of a household, each with its own walking order
+CREATE TABLE IF NOT EXISTS stores (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Category order in a store (position = walking order, aisle = optional label like "A3")
+CREATE TABLE IF NOT EXISTS store_categories (
+    store_id INTEGER REFERENCES stores(id) ON DELETE CASCADE,
+    category_id INTEGER REFERENCES categories(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    aisle VARCHAR(50),
+    PRIMARY KEY (store_id, category_id)
+);
+
+-- Products shelved elsewhere in a store than their category
+-- (walked with category_id and/or shown under their own aisle label)
+CREATE TABLE IF NOT EXISTS store_products (
+    store_id INTEGER REFERENCES stores(id) ON DELETE CASCADE,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+    aisle VARCHAR(50),
+    PRIMARY KEY (store_id, product_id)
+);
+
+-- Grocery history (completed shopping items)
+CREATE TABLE IF NOT EXISTS grocery_history (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
+    product_name VARCHAR(255) NOT NULL,
+    category_name VARCHAR(100),
+    quantity NUMERIC(10, 3) DEFAULT 1,
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    unit_price NUMERIC(10, 2),
+    status VARCHAR(50),
+    completed_at TIMESTAMP DEFAULT NOW(),
+    shopping_session_id VARCHAR(50),
+    store_id INTEGER REFERENCES stores(id) ON DELETE SET NULL,
+    store_name VARCHAR(255)
+);
+
+-- Completed shopping trips (total_spent only counts items that were given a price)
+CREATE TABLE IF NOT EXISTS shopping_sessions (
+    id VARCHAR(50) PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    total_spent NUMERIC(10, 2),
+    completed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Home inventory: what is left of each product. Found items flow in when a
+-- trip is completed. One row per product and unit; an item is running low
+-- once quantity drops to low_quantity (or to nothing). best_before is the
+-- earliest date of the stock merged into the row
+CREATE TABLE IF NOT EXISTS pantry_items (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(10, 3) NOT NULL DEFAULT 0,
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    low_quantity NUMERIC(10, 3),
+    best_before DATE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(household_id, product_id, unit)
+);
+
+-- Pantry changes (signed quantity): bought, added, consumed, discarded, adjusted
+CREATE TABLE IF NOT EXISTS pantry_events (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(10, 3) NOT NULL,
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    reason VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Staples: products put back on the list on a schedule. rule is 'interval'
+-- (every interval_days), 'weekdays' (on the listed days, 0 = Sunday) or
+-- 'since_bought' (once last bought interval_days ago or more)
+CREATE TABLE IF NOT EXISTS staples (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(10, 3) NOT NULL DEFAULT 1,
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    rule VARCHAR(20) NOT NULL CHECK (rule IN ('interval', 'weekdays', 'since_bought')),
+    interval_days INTEGER,
+    weekdays INTEGER[] NOT NULL DEFAULT '{}',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_added_on DATE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(household_id, product_id)
+);
+
+-- "You probably need" suggestions a household dismissed (hidden for one repurchase interval)
+CREATE TABLE IF NOT EXISTS suggestion_dismissals (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    dismissed_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(household_id, product_id)
+);
+
+-- Every change to the list, with the items before and after, for undo / redo.
+-- An undone operation can be redone until the next change discards it.
+CREATE TABLE IF NOT EXISTS grocery_operations (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    type VARCHAR(30) NOT NULL,
+    changes JSONB NOT NULL,
+    state VARCHAR(10) NOT NULL DEFAULT 'done' CHECK (state IN ('done', 'undone', 'discarded')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    undone_at TIMESTAMP
+);
+
+-- AI request logs (for debugging and monitoring)
+CREATE TABLE IF NOT EXISTS ai_logs (
+    id SERIAL PRIMARY KEY,
+    request_type VARCHAR(50) NOT NULL,
+    input_text TEXT,
+    success BOOLEAN NOT NULL,
+    error_message TEXT,
+    error_type VARCHAR(100),
+    input_tokens INTEGER DEFAULT 0,
+    output_tokens INTEGER DEFAULT 0,
+    response_time_ms INTEGER,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Meals table (user-defined recipes)
+CREATE TABLE IF NOT EXISTS meals (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    servings INTEGER NOT NULL DEFAULT 4,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Meal items (products in a meal, with the amount for the meal's servings;
+-- a null quantity means "some", e.g. salt)
+CREATE TABLE IF NOT EXISTS meal_items (
+    id SERIAL PRIMARY KEY,
+    meal_id INTEGER REFERENCES meals(id) ON DELETE CASCADE,
+    product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(10, 3),
+    unit VARCHAR(10) NOT NULL DEFAULT 'piece',
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(meal_id, product_id)
+);
+
+-- Menu plans (weekly meal planning)
+CREATE TABLE IF NOT EXISTS menu_plan_items (
+    id SERIAL PRIMARY KEY,
+    household_id INTEGER REFERENCES households(id) ON DELETE CASCADE,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL,
+    day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
+    meal_type VARCHAR(20) NOT NULL DEFAULT 'dinner',
+    meal_id INTEGER REFERENCES meals(id) ON DELETE CASCADE,
+    servings INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT menu_plan_items_household_week_day_meal_key
+        UNIQUE(household_id, week_start, day_of_week, meal_type, meal_id)
+);
+
+-- Password reset tokens
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    token VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    used BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Migration: Add meal_type column and update constraint
+DO $$ 
+BEGIN
+    -- Add meal_type column if it doesn't exist
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'menu_plan_items' AND column_name = 'meal_type') THEN
+        ALTER TABLE menu_plan_items ADD COLUMN meal_type VARCHAR(20) NOT NULL DEFAULT 'dinner';
+    END IF;
+    
+    -- Drop old constraint if it exists (without meal_type)
+    IF EXISTS (SELECT 1 FROM pg_constraint 
+               WHERE conname = 'menu_plan_items_user_id_week_start_day_of_week_meal_id_key') THEN
+        ALTER TABLE menu_plan_items DROP CONSTRAINT menu_plan_items_user_id_week_start_day_of_week_meal_id_key;
+    END IF;
+    
+    -- Create new constraint with meal_type if it doesn't exist (nor its household version)
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint 
+                   WHERE conname IN ('menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key',
+                                     'menu_plan_items_household_week_day_meal_key')) THEN
+        ALTER TABLE menu_plan_items ADD CONSTRAINT menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key 
+            UNIQUE(user_id, week_start, day_of_week, meal_type, meal_id);
+    END IF;
+END $$;
+
+-- Migration: Scope lists, history, meals and menu plans to households
+DO $$
+DECLARE
+    default_household_id INTEGER;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_items' AND column_name = 'household_id') THEN
+        ALTER TABLE grocery_items ADD COLUMN household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_history' AND column_name = 'household_id') THEN
+        ALTER TABLE grocery_history ADD COLUMN household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'meals' AND column_name = 'household_id') THEN
+        ALTER TABLE meals ADD COLUMN household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'menu_plan_items' AND column_name = 'household_id') THEN
+        ALTER TABLE menu_plan_items ADD COLUMN household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+    END IF;
+
+    -- The previous single shared list becomes one household containing every existing user
+    IF NOT EXISTS (SELECT 1 FROM households) AND EXISTS (SELECT 1 FROM users) THEN
+        INSERT INTO households (name) VALUES ('Home') RETURNING id INTO default_household_id;
+        INSERT INTO household_members (household_id, user_id)
+            SELECT default_household_id, id FROM users;
+        UPDATE grocery_items SET household_id = default_household_id WHERE household_id IS NULL;
+        UPDATE grocery_history SET household_id = default_household_id WHERE household_id IS NULL;
+        UPDATE meals SET household_id = default_household_id WHERE household_id IS NULL;
+        UPDATE menu_plan_items SET household_id = default_household_id WHERE household_id IS NULL;
+    END IF;
+
+    -- Member roles (existing members keep full access as owners)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'household_members' AND column_name = 'role') THEN
+        ALTER TABLE household_members ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'owner' 
+            CHECK (role IN ('owner', 'editor', 'shopper'));
+    END IF;
+
+    -- Menu plans are unique per household instead of per user
+    IF EXISTS (SELECT 1 FROM pg_constraint 
+               WHERE conname = 'menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key') THEN
+        ALTER TABLE menu_plan_items DROP CONSTRAINT menu_plan_items_user_id_week_start_day_of_week_meal_type_m_key;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint 
+                   WHERE conname = 'menu_plan_items_household_week_day_meal_key') THEN
+        ALTER TABLE menu_plan_items ADD CONSTRAINT menu_plan_items_household_week_day_meal_key 
+            UNIQUE(household_id, week_start, day_of_week, meal_type, meal_id);
+    END IF;
+
+    -- Quantities with units ("500 g", "1.5 kg"); existing counts become pieces
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_items' AND column_name = 'unit') THEN
+        ALTER TABLE grocery_items ALTER COLUMN quantity TYPE NUMERIC(10, 3);
+        ALTER TABLE grocery_items ADD COLUMN unit VARCHAR(10) NOT NULL DEFAULT 'piece';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_history' AND column_name = 'unit') THEN
+        ALTER TABLE grocery_history ALTER COLUMN quantity TYPE NUMERIC(10, 3);
+        ALTER TABLE grocery_history ADD COLUMN unit VARCHAR(10) NOT NULL DEFAULT 'piece';
+    END IF;
+
+    -- Store a shopping session was done in (name kept if the store is deleted)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_history' AND column_name = 'store_id') THEN
+        ALTER TABLE grocery_history ADD COLUMN store_id INTEGER REFERENCES stores(id) ON DELETE SET NULL;
+        ALTER TABLE grocery_history ADD COLUMN store_name VARCHAR(255);
+    END IF;
+
+    -- Prices entered while shopping (per kg / L for weighed items)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_items' AND column_name = 'unit_price') THEN
+        ALTER TABLE grocery_items ADD COLUMN unit_price NUMERIC(10, 2);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_history' AND column_name = 'unit_price') THEN
+        ALTER TABLE grocery_history ADD COLUMN unit_price NUMERIC(10, 2);
+    END IF;
+
+    -- Recipe amounts: servings per meal, amount per ingredient, servings override when planned
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'meals' AND column_name = 'servings') THEN
+        ALTER TABLE meals ADD COLUMN servings INTEGER NOT NULL DEFAULT 4;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'meal_items' AND column_name = 'quantity') THEN
+        ALTER TABLE meal_items ADD COLUMN quantity NUMERIC(10, 3);
+        ALTER TABLE meal_items ADD COLUMN unit VARCHAR(10) NOT NULL DEFAULT 'piece';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'menu_plan_items' AND column_name = 'servings') THEN
+        ALTER TABLE menu_plan_items ADD COLUMN servings INTEGER;
+    END IF;
+
+    -- Best-before dates, defaulted from a shelf life on the product or its category
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'products' AND column_name = 'shelf_life_days') THEN
+        ALTER TABLE products ADD COLUMN shelf_life_days INTEGER;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'categories' AND column_name = 'shelf_life_days') THEN
+        ALTER TABLE categories ADD COLUMN shelf_life_days INTEGER;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'grocery_items' AND column_name = 'best_before') THEN
+        ALTER TABLE grocery_items ADD COLUMN best_before DATE;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                   WHERE table_name = 'pantry_items' AND column_name = 'best_before') THEN
+        ALTER TABLE pantry_items ADD COLUMN best_before DATE;
+    END IF;
+END $$;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category_id);
+CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
+CREATE INDEX IF NOT EXISTS idx_aliases_product ON product_aliases(product_id);
+CREATE INDEX IF NOT EXISTS idx_aliases_alias ON product_aliases(alias);
+CREATE INDEX IF NOT EXISTS idx_household_members_user ON household_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_items_user ON grocery_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_items_household ON grocery_items(household_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_items_product ON grocery_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_items_status ON grocery_items(status);
+CREATE INDEX IF NOT EXISTS idx_grocery_history_user ON grocery_history(user_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_history_household ON grocery_history(household_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_history_session ON grocery_history(shopping_session_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_history_product ON grocery_history(product_id);
+CREATE INDEX IF NOT EXISTS idx_shopping_sessions_household ON shopping_sessions(household_id);
+CREATE INDEX IF NOT EXISTS idx_stores_household ON stores(household_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_household ON pantry_items(household_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_best_before ON pantry_items(household_id, best_before);
+CREATE INDEX IF NOT EXISTS idx_pantry_events_household ON pantry_events(household_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_staples_household ON staples(household_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_operations_household ON grocery_operations(household_id, state);
+CREATE INDEX IF NOT EXISTS idx_ai_logs_created ON ai_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_logs_success ON ai_logs(success);
+CREATE INDEX IF NOT EXISTS idx_meals_user ON meals(user_id);
+CREATE INDEX IF NOT EXISTS idx_meals_household ON meals(household_id);
+CREATE INDEX IF NOT EXISTS idx_meal_items_meal ON meal_items(meal_id);
+CREATE INDEX IF NOT EXISTS idx_meal_items_product ON meal_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_menu_plan_items_user ON menu_plan_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_menu_plan_items_household ON menu_plan_items(household_id);
+CREATE INDEX IF NOT EXISTS idx_menu_plan_items_week ON menu_plan_items(week_start);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_household_invites_token ON household_invites(token);
+CREATE INDEX IF NOT EXISTS idx_household_invites_household ON household_invites(household_id);
+`;
+
+module.exports = {
+    up: (client) => client.query(schema),
+    // Drops every table, data included
+    down: (client) => client.query(`
+        DROP TABLE IF EXISTS password_reset_tokens CASCADE;
+        DROP TABLE IF EXISTS menu_plan_items CASCADE;
+        DROP TABLE IF EXISTS meal_items CASCADE;
+        DROP TABLE IF EXISTS meals CASCADE;
+        DROP TABLE IF EXISTS ai_logs CASCADE;
+        DROP TABLE IF EXISTS grocery_operations CASCADE;
+        DROP TABLE IF EXISTS suggestion_dismissals CASCADE;
+        DROP TABLE IF EXISTS staples CASCADE;
+        DROP TABLE IF EXISTS pantry_events CASCADE;
+        DROP TABLE IF EXISTS pantry_items CASCADE;
+        DROP TABLE IF EXISTS shopping_sessions CASCADE;
+        DROP TABLE IF EXISTS grocery_history CASCADE;
+        DROP TABLE IF EXISTS store_products CASCADE;
+        DROP TABLE IF EXISTS store_categories CASCADE;
+        DROP TABLE IF EXISTS stores CASCADE;
+        DROP TABLE IF EXISTS grocery_items CASCADE;
+        DROP TABLE IF EXISTS product_aliases CASCADE;
+        DROP TABLE IF EXISTS products CASCADE;
+        DROP TABLE IF EXISTS categories CASCADE;
+        DROP TABLE IF EXISTS household_invites CASCADE;
+        DROP TABLE IF EXISTS household_members CASCADE;
+        DROP TABLE IF EXISTS households CASCADE;
+        DROP TABLE IF EXISTS users CASCADE;
+    `)
+};
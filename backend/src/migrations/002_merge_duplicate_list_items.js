@@ -0,0 +1,36 @@
+// Formerly config/merge-lists.js, run by hand after lists became shared: a
+// household's list holds one active item per product and unit, so duplicates
+// left over from per-user lists are merged into the oldest one (quantities
+// summed, notes joined). Nothing to do on lists that have none.
+
+module.exports = {
+    up: async (client) => {
+        const duplicates = await client.query(`
+            SELECT household_id, product_id, unit,
+                   (ARRAY_AGG(id ORDER BY created_at ASC, id ASC))[1] as keep_id,
+                   SUM(quantity) as total_quantity,
+                   STRING_AGG(DISTINCT note, '; ') as merged_notes
+            FROM grocery_items
+            WHERE status != 'found' AND household_id IS NOT NULL
+            GROUP BY household_id, product_id, unit
+            HAVING COUNT(*) > 1
+        `);
+
+        for (const dup of duplicates.rows) {
+            await client.query(`
+                UPDATE grocery_items
+                SET quantity = $1, note = $2, updated_at = NOW()
+                WHERE id = $3
+            `, [dup.total_quantity, dup.merged_notes, dup.keep_id]);
+
+            await client.query(`
+                DELETE FROM grocery_items
+                WHERE household_id = $1 AND product_id = $2 AND unit = $3
+                  AND status != 'found' AND id != $4
+            `, [dup.household_id, dup.product_id, dup.unit, dup.keep_id]);
+        }
+
+        console.log(`   merged duplicates of ${duplicates.rows.length} list item(s)`);
+    }
+    // No down: merged items can't be split back
+};
@@ -0,0 +1,29 @@
+// Catalog changes learned from AI answers, kept for review: a created product,
+// alias or category, or an existing product moved to another category
+// (previous_category_id is where it was). ai_product / ai_category are what
+// the model answered for original_input, kept when the rows they point to go.
+
+module.exports = {
+    up: (client) => client.query(`
+        CREATE TABLE IF NOT EXISTS ai_reviews (
+            id SERIAL PRIMARY KEY,
+            household_id INTEGER REFERENCES households(id) ON DELETE SET NULL,
+            user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+            kind VARCHAR(20) NOT NULL CHECK (kind IN ('product', 'alias', 'category', 'category_change')),
+            original_input TEXT,
+            ai_product VARCHAR(255),
+            ai_category VARCHAR(100),
+            product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
+            category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+            previous_category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+            alias VARCHAR(255),
+            status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+            reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+            reviewed_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_ai_reviews_status ON ai_reviews(status, created_at);
+    `),
+    down: (client) => client.query('DROP TABLE IF EXISTS ai_reviews')
+};
@@ -0,0 +1,30 @@
+// Product and category names in other languages than the catalog's, and the
+// language each user reads them in (null: the catalog names, untranslated).
+// Names are looked up in lowercase when parsing a list, like aliases.
+
+module.exports = {
+    up: (client) => client.query(`
+        CREATE TABLE IF NOT EXISTS product_names (
+            product_id INTEGER REFERENCES products(id) ON DELETE CASCADE,
+            language VARCHAR(5) NOT NULL,
+            name VARCHAR(255) NOT NULL,
+            PRIMARY KEY (product_id, language)
+        );
+
+        CREATE TABLE IF NOT EXISTS category_names (
+            category_id INTEGER REFERENCES categories(id) ON DELETE CASCADE,
+            language VARCHAR(5) NOT NULL,
+            name VARCHAR(100) NOT NULL,
+            PRIMARY KEY (category_id, language)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_product_names_name ON product_names(LOWER(name));
+
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS language VARCHAR(5);
+    `),
+    down: (client) => client.query(`
+        ALTER TABLE users DROP COLUMN IF EXISTS language;
+        DROP TABLE IF EXISTS category_names;
+        DROP TABLE IF EXISTS product_names;
+    `)
+};
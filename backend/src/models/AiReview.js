@@ -0,0 +1,123 @@
+const db = require('../config/database');
+
+// A product, alias or category created from an AI answer, or a product moved
+// to the category the AI gave it
+const KINDS = ['product', 'alias', 'category', 'category_change'];
+const STATUSES = ['pending', 'approved', 'rejected'];
+
+class AiReview {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.household_id = data.household_id;
+        this.user_id = data.user_id;
+        this.kind = data.kind;
+        // The line typed by the user, and what the AI made of it
+        this.original_input = data.original_input ?? null;
+        this.ai_product = data.ai_product ?? null;
+        this.ai_category = data.ai_category ?? null;
+        // What was created or changed (null once it was deleted)
+        this.product_id = data.product_id ?? null;
+        this.category_id = data.category_id ?? null;
+        this.previous_category_id = data.previous_category_id ?? null;
+        this.alias = data.alias ?? null;
+        this.status = data.status || 'pending';
+        this.reviewed_by = data.reviewed_by ?? null;
+        this.reviewed_at = data.reviewed_at ?? null;
+        this.created_at = data.created_at;
+        // From joins
+        this.product_name = data.product_name ?? null;
+        this.category_name = data.category_name ?? null;
+        this.category_icon = data.category_icon ?? null;
+        this.previous_category_name = data.previous_category_name ?? null;
+        this.user_name = data.user_name ?? null;
+        this.reviewer_name = data.reviewer_name ?? null;
+    }
+
+    static get KINDS() {
+        return KINDS;
+    }
+
+    static get STATUSES() {
+        return STATUSES;
+    }
+
+    // Base query with the current names of what the review points to
+    static get baseQuery() {
+        return `
+            SELECT r.*,
+                   p.name as product_name,
+                   c.name as category_name,
+                   c.icon as category_icon,
+                   pc.name as previous_category_name,
+                   u.name as user_name,
+                   rv.name as reviewer_name
+            FROM ai_reviews r
+            LEFT JOIN products p ON r.product_id = p.id
+            LEFT JOIN categories c ON r.category_id = c.id
+            LEFT JOIN categories pc ON r.previous_category_id = pc.id
+            LEFT JOIN users u ON r.user_id = u.id
+            LEFT JOIN users rv ON r.reviewed_by = rv.id
+        `;
+    }
+
+    // Record a change to review
+    static async create({ householdId = null, userId = null, kind, originalInput = null, aiProduct = null,
+        aiCategory = null, productId = null, categoryId = null, previousCategoryId = null, alias = null }) {
+        const result = await db.query(`
+            INSERT INTO ai_reviews
+            (household_id, user_id, kind, original_input, ai_product, ai_category,
+             product_id, category_id, previous_category_id, alias)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            RETURNING *
+        `, [householdId, userId, kind, originalInput, aiProduct, aiCategory,
+            productId, categoryId, previousCategoryId, alias]);
+        return new AiReview(result.rows[0]);
+    }
+
+    // Reviews in a status, newest first. Pending reviews of something deleted
+    // since (e.g. a product merged away) are left out: there is nothing to review.
+    static async findByStatus(status, limit = 100) {
+        const result = await db.query(`
+            ${AiReview.baseQuery}
+            WHERE r.status = $1
+              AND ($1 != 'pending' OR CASE r.kind
+                    WHEN 'category' THEN r.category_id IS NOT NULL
+                    ELSE r.product_id IS NOT NULL
+                  END)
+            ORDER BY r.created_at DESC, r.id DESC
+            LIMIT $2
+        `, [status, limit]);
+        return result.rows.map(row => new AiReview(row));
+    }
+
+    // Number of reviews still waiting (same rules as findByStatus)
+    static async countPending() {
+        const result = await db.query(`
+            SELECT COUNT(*) as count FROM ai_reviews r
+            WHERE r.status = 'pending'
+              AND CASE r.kind WHEN 'category' THEN r.category_id IS NOT NULL ELSE r.product_id IS NOT NULL END
+        `);
+        return parseInt(result.rows[0].count);
+    }
+
+    // Find by ID, locked when a client is given (reviewing it)
+    static async findById(id, client = db) {
+        const result = await client.query(`
+            ${AiReview.baseQuery}
+            WHERE r.id = $1
+            ${client !== db ? 'FOR UPDATE OF r' : ''}
+        `, [id]);
+        return result.rows[0] ? new AiReview(result.rows[0]) : null;
+    }
+
+    // Close a review as approved or rejected
+    static async setStatus(id, status, reviewerId, client = db) {
+        await client.query(`
+            UPDATE ai_reviews
+            SET status = $2, reviewed_by = $3, reviewed_at = NOW()
+            WHERE id = $1
+        `, [id, status, reviewerId]);
+    }
+}
+
+module.exports = AiReview;
@@ -6,15 +6,24 @@ class Category {
         this.name = data.name;
         this.icon = data.icon || '📦';
         this.sort_order = data.sort_order || 0;
+        // Default shelf life of its products in days (null: no default)
+        this.shelf_life_days = data.shelf_life_days ?? null;
         this.created_at = data.created_at;
     }
 
-    // Get all categories sorted
+    // Get all categories sorted, with their names in other languages
     static async findAll() {
-        const result = await db.query(
-            'SELECT * FROM categories ORDER BY sort_order ASC, name ASC'
-        );
-        return result.rows.map(row => new Category(row));
+        const result = await db.query(`
+            SELECT c.*,
+                   (SELECT json_object_agg(cn.language, cn.name) FROM category_names cn WHERE cn.category_id = c.id) as names
+            FROM categories c
+            ORDER BY c.sort_order ASC, c.name ASC
+        `);
+        return result.rows.map(row => {
+            const category = new Category(row);
+            category.names = row.names || {};
+            return category;
+        });
     }
 
     // Find by ID
@@ -26,18 +35,21 @@ class Category {
         return result.rows[0] ? new Category(result.rows[0]) : null;
     }
 
-    // Find by name
-    static async findByName(name) {
-        const result = await db.query(
-            'SELECT * FROM categories WHERE LOWER(name) = LOWER($1)',
-            [name]
-        );
+    // Find by name, in any language (the catalog name first)
+    static async findByName(name, client = db) {
+        const result = await client.query(`
+            SELECT * FROM categories c
+            WHERE LOWER(c.name) = LOWER($1)
+               OR EXISTS (SELECT 1 FROM category_names cn WHERE cn.category_id = c.id AND LOWER(cn.name) = LOWER($1))
+            ORDER BY (LOWER(c.name) = LOWER($1)) DESC, c.id ASC
+            LIMIT 1
+        `, [name]);
         return result.rows[0] ? new Category(result.rows[0]) : null;
     }
 
     // Create new category
-    static async create(name, icon = '📦', sortOrder = 50) {
-        const result = await db.query(
+    static async create(name, icon = '📦', sortOrder = 50, client = db) {
+        const result = await client.query(
             `INSERT INTO categories (name, icon, sort_order) 
              VALUES ($1, $2, $3) 
              RETURNING *`,
@@ -50,10 +62,10 @@ class Category {
     async save() {
         const result = await db.query(
             `UPDATE categories 
-             SET name = $1, icon = $2, sort_order = $3 
-             WHERE id = $4 
+             SET name = $1, icon = $2, sort_order = $3, shelf_life_days = $4 
+             WHERE id = $5 
              RETURNING *`,
-            [this.name, this.icon, this.sort_order, this.id]
+            [this.name, this.icon, this.sort_order, this.shelf_life_days, this.id]
         );
         return result.rows[0] ? new Category(result.rows[0]) : null;
     }
@@ -67,6 +79,42 @@ class Category {
         return result.rowCount > 0;
     }
 
+    // Names in other languages: { en: 'Bakery', he: 'מאפייה' }
+    async getNames() {
+        const result = await db.query(
+            'SELECT language, name FROM category_names WHERE category_id = $1',
+            [this.id]
+        );
+        return Object.fromEntries(result.rows.map(r => [r.language, r.name]));
+    }
+
+    // Set names by language (an empty name removes that language's)
+    async setNames(names, client = db) {
+        for (const [language, name] of Object.entries(names)) {
+            if (name && name.trim()) {
+                await client.query(`
+                    INSERT INTO category_names (category_id, language, name) VALUES ($1, $2, $3)
+                    ON CONFLICT (category_id, language) DO UPDATE SET name = EXCLUDED.name
+                `, [this.id, language, name.trim()]);
+            } else {
+                await client.query(
+                    'DELETE FROM category_names WHERE category_id = $1 AND language = $2',
+                    [this.id, language]
+                );
+            }
+        }
+    }
+
+    // Names of categories in a language, by category id
+    static async findNames(ids, language) {
+        if (ids.length === 0) return new Map();
+        const result = await db.query(
+            'SELECT category_id, name FROM category_names WHERE language = $1 AND category_id = ANY($2)',
+            [language, ids]
+        );
+        return new Map(result.rows.map(r => [r.category_id, r.name]));
+    }
+
     // Get product count for this category
     async getProductCount() {
         const result = await db.query(
@@ -3,108 +3,136 @@ const db = require('../config/database');
 class GroceryHistory {
     constructor(data = {}) {
         this.id = data.id;
+        this.household_id = data.household_id;
         this.user_id = data.user_id;
         this.product_id = data.product_id;
         this.product_name = data.product_name;
         this.category_name = data.category_name;
         this.quantity = data.quantity || 1;
+        this.unit = data.unit || 'piece';
+        this.unit_price = data.unit_price ?? null;
         this.status = data.status;
         this.completed_at = data.completed_at;
         this.shopping_session_id = data.shopping_session_id;
+        this.store_id = data.store_id;
+        this.store_name = data.store_name;
     }
 
     // Create history entry from a grocery item
     static async createFromItem(item, sessionId) {
         const result = await db.query(`
             INSERT INTO grocery_history 
-            (user_id, product_id, product_name, category_name, quantity, status, shopping_session_id) 
-            VALUES ($1, $2, $3, $4, $5, $6, $7) 
+            (household_id, user_id, product_id, product_name, category_name, quantity, unit, unit_price, status, shopping_session_id) 
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
             RETURNING *
         `, [
+            item.household_id,
             item.user_id, 
             item.product_id, 
             item.product_name,
             item.category_name,
             item.quantity, 
+            item.unit, 
+            item.unit_price, 
             item.status, 
             sessionId
         ]);
         return new GroceryHistory(result.rows[0]);
     }
 
-    // Find all history - SHARED LIST: returns all history
-    static async findAllByUser(userId, limit = 100) {
+    // Find all history of a household
+    static async findAllByHousehold(householdId, limit = 100) {
         const result = await db.query(`
             SELECT * FROM grocery_history 
+            WHERE household_id = $1
             ORDER BY completed_at DESC 
-            LIMIT $1
-        `, [limit]);
+            LIMIT $2
+        `, [householdId, limit]);
         return result.rows.map(row => new GroceryHistory(row));
     }
 
-    // Find by session ID - SHARED LIST
-    static async findBySession(userId, sessionId) {
+    // Find by session ID
+    static async findBySession(householdId, sessionId) {
         const result = await db.query(`
             SELECT * FROM grocery_history 
-            WHERE shopping_session_id = $1 
+            WHERE household_id = $1 AND shopping_session_id = $2 
             ORDER BY completed_at ASC
-        `, [sessionId]);
+        `, [householdId, sessionId]);
         return result.rows.map(row => new GroceryHistory(row));
     }
 
-    // Find by status - SHARED LIST
-    static async findByStatus(userId, status, limit = 50) {
+    // Find by status
+    static async findByStatus(householdId, status, limit = 50) {
         const result = await db.query(`
             SELECT * FROM grocery_history 
-            WHERE status = $1 
+            WHERE household_id = $1 AND status = $2 
             ORDER BY completed_at DESC 
-            LIMIT $2
-        `, [status, limit]);
+            LIMIT $3
+        `, [householdId, status, limit]);
         return result.rows.map(row => new GroceryHistory(row));
     }
 
-    // Get unique shopping sessions - SHARED LIST
-    static async getSessions(userId, limit = 20) {
+    // Get unique shopping sessions (total_spent is null for trips without prices)
+    static async getSessions(householdId, limit = 20) {
         const result = await db.query(`
-            SELECT shopping_session_id, 
-                   MIN(completed_at) as started_at,
-                   MAX(completed_at) as ended_at,
+            SELECT gh.shopping_session_id, 
+                   MIN(gh.completed_at) as started_at,
+                   MAX(gh.completed_at) as ended_at,
                    COUNT(*) as item_count,
-                   COUNT(*) FILTER (WHERE status = 'found') as found_count,
-                   COUNT(*) FILTER (WHERE status = 'not_found') as not_found_count
-            FROM grocery_history 
-            WHERE shopping_session_id IS NOT NULL
-            GROUP BY shopping_session_id 
-            ORDER BY MAX(completed_at) DESC 
-            LIMIT $1
-        `, [limit]);
+                   COUNT(*) FILTER (WHERE gh.status = 'found') as found_count,
+                   COUNT(*) FILTER (WHERE gh.status = 'not_found') as not_found_count,
+                   MAX(gh.store_name) as store_name,
+                   MAX(ss.total_spent) as total_spent
+            FROM grocery_history gh
+            LEFT JOIN shopping_sessions ss ON ss.id = gh.shopping_session_id AND ss.household_id = gh.household_id
+            WHERE gh.household_id = $1 AND gh.shopping_session_id IS NOT NULL
+            GROUP BY gh.shopping_session_id 
+            ORDER BY MAX(gh.completed_at) DESC 
+            LIMIT $2
+        `, [householdId, limit]);
         return result.rows;
     }
 
-    // Find by ID - SHARED LIST
-    static async findById(id, userId) {
+    // Prices paid for a product, newest first, with the store they were paid in
+    static async getPriceHistory(householdId, productId, limit = 50) {
+        const result = await db.query(`
+            SELECT id, unit_price, quantity, unit, store_id, store_name, completed_at
+            FROM grocery_history
+            WHERE household_id = $1 AND product_id = $2 AND unit_price IS NOT NULL
+            ORDER BY completed_at DESC
+            LIMIT $3
+        `, [householdId, productId, limit]);
+        return result.rows;
+    }
+
+    // Find by ID
+    static async findById(id, householdId) {
         const result = await db.query(
-            'SELECT * FROM grocery_history WHERE id = $1',
-            [id]
+            'SELECT * FROM grocery_history WHERE id = $1 AND household_id = $2',
+            [id, householdId]
         );
         return result.rows[0] ? new GroceryHistory(result.rows[0]) : null;
     }
 
-    // Delete history entry - SHARED LIST
+    // Delete history entry
     async delete() {
         const result = await db.query(
-            'DELETE FROM grocery_history WHERE id = $1',
-            [this.id]
+            'DELETE FROM grocery_history WHERE id = $1 AND household_id = $2',
+            [this.id, this.household_id]
         );
         return result.rowCount > 0;
     }
 
-    // Clear all history - SHARED LIST
-    static async clearAll(userId) {
-        const result = await db.query(
-            'DELETE FROM grocery_history'
-        );
-        return result.rowCount;
+    // Clear all history of a household (with the session totals)
+    static async clearAll(householdId) {
+        return db.withTransaction(async (client) => {
+            const result = await client.query(
+                'DELETE FROM grocery_history WHERE household_id = $1',
+                [householdId]
+            );
+            await client.query('DELETE FROM shopping_sessions WHERE household_id = $1', [householdId]);
+            return result.rowCount;
+        });
     }
 }
 
@@ -1,11 +1,23 @@
 const db = require('../config/database');
+const realtimeService = require('../services/realtimeService');
+
+// Quantity units; 'piece' is a plain count
+const UNITS = ['piece', 'g', 'kg', 'ml', 'l', 'pack', 'dozen'];
+// Largest quantity the NUMERIC(10, 3) quantity columns hold
+const MAX_QUANTITY = 9999999.999;
 
 class GroceryItem {
     constructor(data = {}) {
         this.id = data.id;
+        this.household_id = data.household_id;
         this.user_id = data.user_id;
         this.product_id = data.product_id;
         this.quantity = data.quantity || 1;
+        this.unit = data.unit || 'piece';
+        // Price paid, entered when ticking the item off (per kg / L for g and ml)
+        this.unit_price = data.unit_price ?? null;
+        // Best-before date ('YYYY-MM-DD') of what was picked up
+        this.best_before = data.best_before ?? null;
         this.status = data.status || 'pending';
         this.batch_id = data.batch_id;
         this.note = data.note || null;
@@ -16,6 +28,17 @@ class GroceryItem {
         this.category_id = data.category_id;
         this.category_name = data.category_name;
         this.category_icon = data.category_icon;
+        this.category_sort = data.category_sort;
+        // Who put it on the list (for staples, who set the staple up)
+        this.added_by_name = data.added_by_name ?? null;
+    }
+
+    static get UNITS() {
+        return UNITS;
+    }
+
+    static get MAX_QUANTITY() {
+        return MAX_QUANTITY;
     }
 
     // Base query with joins
@@ -26,130 +49,203 @@ class GroceryItem {
                    p.category_id,
                    c.name as category_name, 
                    c.icon as category_icon,
-                   c.sort_order as category_sort
+                   c.sort_order as category_sort,
+                   u.name as added_by_name
             FROM grocery_items gi
             JOIN products p ON gi.product_id = p.id
             LEFT JOIN categories c ON p.category_id = c.id
+            LEFT JOIN users u ON gi.user_id = u.id
         `;
     }
 
-    // Save item (create or update) - SHARED LIST: no user_id check on update
+    // Save item (create or update) - scoped to the item's household
     async save() {
         if (this.id) {
             const result = await db.query(`
                 UPDATE grocery_items 
-                SET product_id = $1, quantity = $2, status = $3, 
-                    batch_id = $4, note = $5, updated_at = NOW() 
-                WHERE id = $6
+                SET product_id = $1, quantity = $2, unit = $3, status = $4, 
+                    batch_id = $5, note = $6, updated_at = NOW() 
+                WHERE id = $7 AND household_id = $8
                 RETURNING *
-            `, [this.product_id, this.quantity, this.status, 
-                this.batch_id, this.note, this.id]);
-            return result.rows[0] ? new GroceryItem(result.rows[0]) : null;
+            `, [this.product_id, this.quantity, this.unit, this.status, 
+                this.batch_id, this.note, this.id, this.household_id]);
+            if (!result.rows[0]) return null;
+            await GroceryItem.publishChange('item.updated', this.id, this.household_id);
+            return new GroceryItem(result.rows[0]);
         } else {
             const result = await db.query(`
-                INSERT INTO grocery_items (user_id, product_id, quantity, status, batch_id, note) 
-                VALUES ($1, $2, $3, $4, $5, $6) 
+                INSERT INTO grocery_items (household_id, user_id, product_id, quantity, unit, status, batch_id, note) 
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
                 RETURNING *
-            `, [this.user_id, this.product_id, this.quantity, 
+            `, [this.household_id, this.user_id, this.product_id, this.quantity, this.unit, 
                 this.status, this.batch_id, this.note]);
+            await GroceryItem.publishChange('item.created', result.rows[0].id, this.household_id);
             return new GroceryItem(result.rows[0]);
         }
     }
 
-    // Find all items - SHARED LIST: returns all items regardless of user
-    static async findAllByUser(userId) {
+    // Notify the household's other devices (event carries the full item with joins)
+    static async publishChange(type, id, householdId) {
+        const item = await GroceryItem.findById(id, householdId);
+        realtimeService.itemChanged(type, item);
+        return item;
+    }
+
+    // Find all items of a household
+    static async findAllByHousehold(householdId) {
         const result = await db.query(`
             ${GroceryItem.baseQuery}
+            WHERE gi.household_id = $1
             ORDER BY c.sort_order ASC, p.name ASC
-        `);
+        `, [householdId]);
         return result.rows.map(row => new GroceryItem(row));
     }
 
-    // Find items by status - SHARED LIST: returns all items with status
-    static async findByStatus(userId, status) {
-        const result = await db.query(`
+    // Find items by status, locked when a client is given (archiving them)
+    static async findByStatus(householdId, status, client = db) {
+        const result = await client.query(`
             ${GroceryItem.baseQuery}
-            WHERE gi.status = $1 
+            WHERE gi.household_id = $1 AND gi.status = $2 
             ORDER BY c.sort_order ASC, p.name ASC
-        `, [status]);
+            ${client !== db ? 'FOR UPDATE OF gi' : ''}
+        `, [householdId, status]);
         return result.rows.map(row => new GroceryItem(row));
     }
 
-    // Find item by ID - SHARED LIST: no user check
-    static async findById(id, userId) {
+    // Find item by ID
+    static async findById(id, householdId) {
         const result = await db.query(`
             ${GroceryItem.baseQuery}
-            WHERE gi.id = $1
-        `, [id]);
+            WHERE gi.id = $1 AND gi.household_id = $2
+        `, [id, householdId]);
         return result.rows[0] ? new GroceryItem(result.rows[0]) : null;
     }
 
-    // Find by product - SHARED LIST: check by product_id only
-    static async findByProduct(userId, productId) {
+    // Find an active (not yet found) item for a product
+    static async findByProduct(householdId, productId) {
         const result = await db.query(`
             ${GroceryItem.baseQuery}
-            WHERE gi.product_id = $1 AND gi.status != 'found'
-        `, [productId]);
+            WHERE gi.household_id = $1 AND gi.product_id = $2 AND gi.status != 'found'
+        `, [householdId, productId]);
         return result.rows[0] ? new GroceryItem(result.rows[0]) : null;
     }
 
-    // Find by batch ID - SHARED LIST
-    static async findByBatchId(userId, batchId) {
+    // Find by batch ID
+    static async findByBatchId(householdId, batchId) {
         const result = await db.query(`
             ${GroceryItem.baseQuery}
-            WHERE gi.batch_id = $1 
+            WHERE gi.household_id = $1 AND gi.batch_id = $2 
             ORDER BY gi.created_at ASC
-        `, [batchId]);
+        `, [householdId, batchId]);
         return result.rows.map(row => new GroceryItem(row));
     }
 
-    // Update status - SHARED LIST: no user check
-    static async updateStatus(id, userId, status) {
+    // Update status, optionally with the price paid and the best-before date
+    // (undefined keeps them, null clears them). An item marked found without a
+    // date gets today plus the shelf life of its product or category.
+    static async updateStatus(id, householdId, status, unitPrice = undefined, bestBefore = undefined) {
         const result = await db.query(`
-            UPDATE grocery_items 
-            SET status = $1, updated_at = NOW() 
-            WHERE id = $2 
-            RETURNING *
-        `, [status, id]);
+            UPDATE grocery_items gi
+            SET status = $1, 
+                unit_price = CASE WHEN $4 THEN $5::numeric ELSE gi.unit_price END,
+                best_before = CASE
+                    WHEN $6 THEN $7::date
+                    WHEN $1 = 'found' AND gi.best_before IS NULL THEN (
+                        SELECT CURRENT_DATE + COALESCE(p.shelf_life_days, c.shelf_life_days)
+                        FROM products p
+                        LEFT JOIN categories c ON p.category_id = c.id
+                        WHERE p.id = gi.product_id
+                    )
+                    ELSE gi.best_before
+                END,
+                updated_at = NOW() 
+            WHERE gi.id = $2 AND gi.household_id = $3 
+            RETURNING gi.*
+        `, [status, id, householdId, unitPrice !== undefined, unitPrice ?? null,
+            bestBefore !== undefined, bestBefore ?? null]);
         
         if (result.rows[0]) {
-            return GroceryItem.findById(id, userId);
+            return GroceryItem.publishChange('item.updated', id, householdId);
         }
         return null;
     }
 
-    // Delete item - SHARED LIST: no user check
+    // Delete item
     async delete() {
         const result = await db.query(
-            'DELETE FROM grocery_items WHERE id = $1',
-            [this.id]
+            'DELETE FROM grocery_items WHERE id = $1 AND household_id = $2',
+            [this.id, this.household_id]
+        );
+        if (result.rowCount > 0) {
+            realtimeService.itemsDeleted(this.household_id, [this.id]);
+        }
+        return result.rowCount > 0;
+    }
+
+    // Rows of the given items as stored (no joins), locked for the transaction
+    static async findRowsForUpdate(householdId, ids, client = db) {
+        const result = await client.query(
+            'SELECT * FROM grocery_items WHERE household_id = $1 AND id = ANY($2::int[]) FOR UPDATE',
+            [householdId, ids]
+        );
+        return result.rows.map(row => new GroceryItem(row));
+    }
+
+    // Put an item back as it was in a snapshot (see operationService), re-creating
+    // it under the same id when it was deleted. Changes are published by the caller.
+    static async restore(householdId, snapshot, client = db) {
+        await client.query(`
+            INSERT INTO grocery_items
+            (id, household_id, user_id, product_id, quantity, unit, unit_price, best_before,
+             status, batch_id, note, created_at, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+            ON CONFLICT (id) DO UPDATE
+            SET product_id = EXCLUDED.product_id, quantity = EXCLUDED.quantity, unit = EXCLUDED.unit,
+                unit_price = EXCLUDED.unit_price, best_before = EXCLUDED.best_before,
+                status = EXCLUDED.status, batch_id = EXCLUDED.batch_id, note = EXCLUDED.note,
+                updated_at = NOW()
+            WHERE grocery_items.household_id = EXCLUDED.household_id
+        `, [snapshot.id, householdId, snapshot.user_id, snapshot.product_id, snapshot.quantity,
+            snapshot.unit, snapshot.unit_price, snapshot.best_before, snapshot.status,
+            snapshot.batch_id, snapshot.note, snapshot.created_at]);
+    }
+
+    // Delete by ID without publishing (the caller publishes once committed)
+    static async deleteById(id, householdId, client = db) {
+        const result = await client.query(
+            'DELETE FROM grocery_items WHERE id = $1 AND household_id = $2',
+            [id, householdId]
         );
         return result.rowCount > 0;
     }
 
-    // Delete by status - SHARED LIST: deletes all with status
-    static async deleteByStatus(userId, status) {
+    // Delete by status
+    static async deleteByStatus(householdId, status) {
         const result = await db.query(
-            'DELETE FROM grocery_items WHERE status = $1',
-            [status]
+            'DELETE FROM grocery_items WHERE household_id = $1 AND status = $2 RETURNING id',
+            [householdId, status]
         );
+        realtimeService.itemsDeleted(householdId, result.rows.map(row => row.id));
         return result.rowCount;
     }
 
-    // Delete batch - SHARED LIST
-    static async deleteBatch(userId, batchId) {
+    // Delete batch
+    static async deleteBatch(householdId, batchId) {
         const result = await db.query(
-            'DELETE FROM grocery_items WHERE batch_id = $1',
-            [batchId]
+            'DELETE FROM grocery_items WHERE household_id = $1 AND batch_id = $2 RETURNING id',
+            [householdId, batchId]
         );
+        realtimeService.itemsDeleted(householdId, result.rows.map(row => row.id));
         return result.rowCount;
     }
 
-    // Clear all items - SHARED LIST: clears everything
-    static async clearAll(userId) {
+    // Clear all items of a household
+    static async clearAll(householdId) {
         const result = await db.query(
-            'DELETE FROM grocery_items'
+            'DELETE FROM grocery_items WHERE household_id = $1 RETURNING id',
+            [householdId]
         );
+        realtimeService.itemsDeleted(householdId, result.rows.map(row => row.id));
         return result.rowCount;
     }
 }
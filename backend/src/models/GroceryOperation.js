@@ -0,0 +1,105 @@
+const db = require('../config/database');
+
+class GroceryOperation {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.household_id = data.household_id;
+        this.user_id = data.user_id;
+        this.type = data.type;
+        // [{ id, before, after }]: item snapshots, null before a create / after a delete
+        this.changes = data.changes || [];
+        this.state = data.state || 'done';
+        this.created_at = data.created_at;
+        this.undone_at = data.undone_at ?? null;
+        // From joins
+        this.user_name = data.user_name ?? null;
+    }
+
+    // Base query with the name of who made the change
+    static get baseQuery() {
+        return `
+            SELECT op.*, u.name as user_name
+            FROM grocery_operations op
+            LEFT JOIN users u ON op.user_id = u.id
+        `;
+    }
+
+    // Log a change. Operations waiting to be redone are dropped: they no longer
+    // apply on top of it.
+    static async create(householdId, userId, type, changes, client = db) {
+        await client.query(
+            "UPDATE grocery_operations SET state = 'discarded' WHERE household_id = $1 AND state = 'undone'",
+            [householdId]
+        );
+        const result = await client.query(`
+            INSERT INTO grocery_operations (household_id, user_id, type, changes)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *
+        `, [householdId, userId, type, JSON.stringify(changes)]);
+        return new GroceryOperation(result.rows[0]);
+    }
+
+    // The operation undo would revert: the latest one still done
+    static async findLastDone(householdId, client = db, { lock = false } = {}) {
+        const result = await client.query(`
+            ${GroceryOperation.baseQuery}
+            WHERE op.household_id = $1 AND op.state = 'done'
+            ORDER BY op.id DESC
+            LIMIT 1
+            ${lock ? 'FOR UPDATE OF op' : ''}
+        `, [householdId]);
+        return result.rows[0] ? new GroceryOperation(result.rows[0]) : null;
+    }
+
+    // The operation redo would apply again: the earliest one undone
+    static async findFirstUndone(householdId, client = db, { lock = false } = {}) {
+        const result = await client.query(`
+            ${GroceryOperation.baseQuery}
+            WHERE op.household_id = $1 AND op.state = 'undone'
+            ORDER BY op.id ASC
+            LIMIT 1
+            ${lock ? 'FOR UPDATE OF op' : ''}
+        `, [householdId]);
+        return result.rows[0] ? new GroceryOperation(result.rows[0]) : null;
+    }
+
+    // Latest operations first, whatever their state; `beforeId` pages further back
+    static async findRecent(householdId, { limit = 50, beforeId = null } = {}) {
+        const result = await db.query(`
+            ${GroceryOperation.baseQuery}
+            WHERE op.household_id = $1 AND ($2::int IS NULL OR op.id < $2)
+            ORDER BY op.id DESC
+            LIMIT $3
+        `, [householdId, beforeId, limit]);
+        return result.rows.map(row => new GroceryOperation(row));
+    }
+
+    // Mark as done, undone or discarded
+    static async setState(id, state, client = db) {
+        await client.query(`
+            UPDATE grocery_operations
+            SET state = $2, undone_at = CASE WHEN $2 = 'undone' THEN NOW() ELSE undone_at END
+            WHERE id = $1
+        `, [id, state]);
+    }
+
+    // Nothing logged so far can be undone or redone anymore
+    static async discardAll(householdId, client = db) {
+        const result = await client.query(
+            "UPDATE grocery_operations SET state = 'discarded' WHERE household_id = $1 AND state != 'discarded'",
+            [householdId]
+        );
+        return result.rowCount;
+    }
+
+    // Delete operations older than the given number of days (all households)
+    static async deleteOlderThan(days) {
+        const result = await db.query(
+            'DELETE FROM grocery_operations WHERE created_at < NOW() - $1 * INTERVAL \'1 day\'',
+            [days]
+        );
+        return result.rowCount;
+    }
+}
+
+module.exports = GroceryOperation;
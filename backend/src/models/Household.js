@@ -0,0 +1,237 @@
+const db = require('../config/database');
+const crypto = require('crypto');
+
+// Member roles, from most to least privileged
+const ROLES = ['owner', 'editor', 'shopper'];
+
+class Household {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.name = data.name;
+        this.created_at = data.created_at;
+        this.updated_at = data.updated_at;
+        // From joins
+        this.member_count = data.member_count;
+        this.role = data.role;
+    }
+
+    static get ROLES() {
+        return ROLES;
+    }
+
+    // Create a household and make the creator its owner
+    static async create(name, userId) {
+        return db.withTransaction(client => Household.insertWithOwner(client, name, userId));
+    }
+
+    // Insert a household and its owner within a transaction
+    static async insertWithOwner(client, name, userId) {
+        const result = await client.query(
+            'INSERT INTO households (name) VALUES ($1) RETURNING *',
+            [name]
+        );
+        const household = result.rows[0];
+        await client.query(
+            `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'owner')`,
+            [household.id, userId]
+        );
+        return new Household({ ...household, role: 'owner', member_count: 1 });
+    }
+
+    // Find by ID
+    static async findById(id) {
+        const result = await db.query(
+            'SELECT * FROM households WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? new Household(result.rows[0]) : null;
+    }
+
+    // Get all households a user belongs to (oldest membership first)
+    static async findAllByUser(userId, client = db) {
+        const result = await client.query(`
+            SELECT h.*, hm.role,
+                   (SELECT COUNT(*) FROM household_members WHERE household_id = h.id) as member_count
+            FROM households h
+            JOIN household_members hm ON hm.household_id = h.id
+            WHERE hm.user_id = $1
+            ORDER BY hm.created_at ASC, h.id ASC
+        `, [userId]);
+        return result.rows.map(row => new Household({
+            ...row,
+            member_count: parseInt(row.member_count) || 0
+        }));
+    }
+
+    // Check whether a user is a member of a household
+    static async isMember(householdId, userId) {
+        const result = await db.query(
+            'SELECT 1 FROM household_members WHERE household_id = $1 AND user_id = $2',
+            [householdId, userId]
+        );
+        return result.rows.length > 0;
+    }
+
+    // Get a user's role in a household (null if not a member)
+    static async getRole(householdId, userId) {
+        const result = await db.query(
+            'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+            [householdId, userId]
+        );
+        return result.rows[0] ? result.rows[0].role : null;
+    }
+
+    // Get the household used when the client doesn't pick one.
+    // Users without any household get a personal one so they always have a list.
+    static async findDefaultForUser(user) {
+        const households = await Household.findAllByUser(user.id);
+        if (households.length > 0) {
+            return households[0];
+        }
+        // Concurrent first requests wait on the user's row, so only one creates the household
+        return db.withTransaction(async (client) => {
+            await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [user.id]);
+            const existing = await Household.findAllByUser(user.id, client);
+            if (existing.length > 0) {
+                return existing[0];
+            }
+            return Household.insertWithOwner(client, user.name ? `${user.name}'s household` : 'Home', user.id);
+        });
+    }
+
+    // Get members of a household
+    static async getMembers(householdId) {
+        const result = await db.query(`
+            SELECT u.id, u.email, u.name, hm.role, hm.created_at as joined_at
+            FROM household_members hm
+            JOIN users u ON hm.user_id = u.id
+            WHERE hm.household_id = $1
+            ORDER BY hm.created_at ASC
+        `, [householdId]);
+        return result.rows;
+    }
+
+    // Add a member (no-op if already a member)
+    static async addMember(householdId, userId, role = 'editor', client = db) {
+        await client.query(`
+            INSERT INTO household_members (household_id, user_id, role)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (household_id, user_id) DO NOTHING
+        `, [householdId, userId, role]);
+    }
+
+    // Change a member's role
+    static async updateMemberRole(householdId, userId, role) {
+        const result = await db.query(
+            `UPDATE household_members SET role = $1 
+             WHERE household_id = $2 AND user_id = $3`,
+            [role, householdId, userId]
+        );
+        return result.rowCount > 0;
+    }
+
+    // Count owners (a household must always keep at least one)
+    static async countOwners(householdId) {
+        const result = await db.query(
+            `SELECT COUNT(*) as count FROM household_members 
+             WHERE household_id = $1 AND role = 'owner'`,
+            [householdId]
+        );
+        return parseInt(result.rows[0].count);
+    }
+
+    // Remove a member
+    static async removeMember(householdId, userId) {
+        const result = await db.query(
+            'DELETE FROM household_members WHERE household_id = $1 AND user_id = $2',
+            [householdId, userId]
+        );
+        return result.rowCount > 0;
+    }
+
+    // Create invite token for a household
+    static async createInvite(householdId, createdBy, role) {
+        // Generate a secure random token
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
+
+        await db.query(
+            `INSERT INTO household_invites (household_id, token, role, created_by, expires_at) 
+             VALUES ($1, $2, $3, $4, $5)`,
+            [householdId, token, role, createdBy, expiresAt]
+        );
+
+        return { token, expiresAt };
+    }
+
+    // Validate invite token and return the invite with its household
+    static async validateInvite(token) {
+        const result = await db.query(
+            `SELECT hi.id, hi.role, hi.household_id, h.name as household_name, u.name as invited_by
+             FROM household_invites hi
+             JOIN households h ON hi.household_id = h.id
+             LEFT JOIN users u ON hi.created_by = u.id
+             WHERE hi.token = $1 
+               AND hi.used = FALSE 
+               AND hi.expires_at > NOW()`,
+            [token]
+        );
+
+        if (!result.rows[0]) {
+            return null;
+        }
+
+        const row = result.rows[0];
+        return {
+            inviteId: row.id,
+            role: row.role,
+            invitedBy: row.invited_by,
+            household: new Household({ id: row.household_id, name: row.household_name })
+        };
+    }
+
+    // Consume an invite and add its member in one transaction. The invite is
+    // claimed first, so only one of concurrent joins gets it; the others get
+    // null before resolveUser(client) runs. An account resolveUser creates on
+    // the client is rolled back with the rest. Returns the member
+    static async joinWithInvite(invite, resolveUser) {
+        return db.withTransaction(async (client) => {
+            const claimed = await client.query(
+                `UPDATE household_invites SET used = TRUE
+                 WHERE id = $1 AND used = FALSE AND expires_at > NOW()
+                 RETURNING id`,
+                [invite.inviteId]
+            );
+            if (!claimed.rows[0]) {
+                return null;
+            }
+            const user = await resolveUser(client);
+            await client.query('UPDATE household_invites SET used_by = $2 WHERE id = $1', [invite.inviteId, user.id]);
+            await Household.addMember(invite.household.id, user.id, invite.role, client);
+            return user;
+        });
+    }
+
+    // Rename household
+    async save() {
+        const result = await db.query(`
+            UPDATE households
+            SET name = $1, updated_at = NOW()
+            WHERE id = $2
+            RETURNING *
+        `, [this.name, this.id]);
+        return result.rows[0] ? new Household(result.rows[0]) : null;
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            name: this.name,
+            member_count: this.member_count,
+            role: this.role,
+            created_at: this.created_at
+        };
+    }
+}
+
+module.exports = Household;
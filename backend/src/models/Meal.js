@@ -3,25 +3,28 @@ const db = require('../config/database');
 class Meal {
     constructor(data = {}) {
         this.id = data.id;
+        this.household_id = data.household_id;
         this.user_id = data.user_id;
         this.name = data.name;
+        // People the ingredient amounts are meant for
+        this.servings = data.servings || 4;
         this.created_at = data.created_at;
         this.updated_at = data.updated_at;
         this.product_count = data.product_count;
         this.products = data.products || [];
     }
 
-    // Get all meals for a user with product counts
-    static async findAllByUser(userId) {
-        const result = await db.query(`
+    // Get all meals of a household with product counts
+    static async findAllByHousehold(householdId, client = db) {
+        const result = await client.query(`
             SELECT m.*, 
                    COUNT(mi.id) as product_count
             FROM meals m
             LEFT JOIN meal_items mi ON m.id = mi.meal_id
-            WHERE m.user_id = $1
+            WHERE m.household_id = $1
             GROUP BY m.id
             ORDER BY m.name ASC
-        `, [userId]);
+        `, [householdId]);
         return result.rows.map(row => new Meal({
             ...row,
             product_count: parseInt(row.product_count) || 0
@@ -29,15 +32,16 @@ class Meal {
     }
 
     // Get meal by ID with its products
-    static async findById(id, userId) {
-        const mealResult = await db.query(`
-            SELECT * FROM meals WHERE id = $1 AND user_id = $2
-        `, [id, userId]);
+    static async findById(id, householdId, client = db) {
+        const mealResult = await client.query(`
+            SELECT * FROM meals WHERE id = $1 AND household_id = $2
+        `, [id, householdId]);
 
         if (!mealResult.rows[0]) return null;
 
-        const productsResult = await db.query(`
-            SELECT p.id, p.name, c.name as category_name, c.icon as category_icon
+        const productsResult = await client.query(`
+            SELECT p.id, p.name, p.category_id, c.name as category_name, c.icon as category_icon,
+                   mi.quantity, mi.unit
             FROM meal_items mi
             JOIN products p ON mi.product_id = p.id
             LEFT JOIN categories c ON p.category_id = c.id
@@ -51,92 +55,88 @@ class Meal {
         });
     }
 
-    // Create meal with products
-    static async create(userId, name, productIds = []) {
-        const client = await db.pool.connect();
-        try {
-            await client.query('BEGIN');
-
-            // Create meal
-            const mealResult = await client.query(`
-                INSERT INTO meals (user_id, name)
-                VALUES ($1, $2)
-                RETURNING *
-            `, [userId, name]);
-
-            const meal = mealResult.rows[0];
-
-            // Add products
-            if (productIds.length > 0) {
-                const values = productIds.map((productId, i) => 
-                    `($1, $${i + 2})`
-                ).join(', ');
-                await client.query(
-                    `INSERT INTO meal_items (meal_id, product_id) VALUES ${values}`,
-                    [meal.id, ...productIds]
-                );
-            }
-
-            await client.query('COMMIT');
-
-            // Fetch full meal with products
-            return await Meal.findById(meal.id, userId);
-        } catch (error) {
-            await client.query('ROLLBACK');
-            throw error;
-        } finally {
-            client.release();
+    // Insert ingredients: [{ product_id, quantity, unit }] (quantity null = unspecified)
+    static async insertItems(client, mealId, items) {
+        if (items.length === 0) return;
+        const values = items.map((item, i) =>
+            `($1, $${i * 3 + 2}, $${i * 3 + 3}, $${i * 3 + 4})`
+        ).join(', ');
+        await client.query(
+            `INSERT INTO meal_items (meal_id, product_id, quantity, unit) VALUES ${values}`,
+            [mealId, ...items.flatMap(item => [item.product_id, item.quantity ?? null, item.unit || 'piece'])]
+        );
+    }
+
+    // Create meal with its ingredients (within the caller's transaction when a client is given)
+    static async create(householdId, userId, name, items = [], servings = 4, client = null) {
+        if (!client) {
+            return db.withTransaction(own => Meal.create(householdId, userId, name, items, servings, own));
         }
+
+        // Create meal
+        const mealResult = await client.query(`
+            INSERT INTO meals (household_id, user_id, name, servings)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *
+        `, [householdId, userId, name, servings]);
+
+        const meal = mealResult.rows[0];
+
+        // Add ingredients
+        await Meal.insertItems(client, meal.id, items);
+
+        // Fetch full meal with products
+        return Meal.findById(meal.id, householdId, client);
     }
 
-    // Update meal name and products
-    static async update(id, userId, name, productIds = []) {
-        const client = await db.pool.connect();
-        try {
-            await client.query('BEGIN');
-
-            // Update meal name
-            const mealResult = await client.query(`
-                UPDATE meals 
-                SET name = $1, updated_at = NOW()
-                WHERE id = $2 AND user_id = $3
-                RETURNING *
-            `, [name, id, userId]);
-
-            if (!mealResult.rows[0]) {
-                throw new Error('Meal not found');
-            }
-
-            // Delete existing products and re-add
-            await client.query('DELETE FROM meal_items WHERE meal_id = $1', [id]);
-
-            if (productIds.length > 0) {
-                const values = productIds.map((productId, i) => 
-                    `($1, $${i + 2})`
-                ).join(', ');
-                await client.query(
-                    `INSERT INTO meal_items (meal_id, product_id) VALUES ${values}`,
-                    [id, ...productIds]
-                );
-            }
-
-            await client.query('COMMIT');
-
-            // Fetch full meal with products
-            return await Meal.findById(id, userId);
-        } catch (error) {
-            await client.query('ROLLBACK');
-            throw error;
-        } finally {
-            client.release();
+    // Update meal name, servings and ingredients (servings kept when not given;
+    // within the caller's transaction when a client is given)
+    static async update(id, householdId, name, items = [], servings = null, client = null) {
+        if (!client) {
+            return db.withTransaction(own => Meal.update(id, householdId, name, items, servings, own));
+        }
+
+        // Update meal name
+        const mealResult = await client.query(`
+            UPDATE meals 
+            SET name = $1, servings = COALESCE($4, servings), updated_at = NOW()
+            WHERE id = $2 AND household_id = $3
+            RETURNING *
+        `, [name, id, householdId, servings]);
+
+        if (!mealResult.rows[0]) {
+            throw new Error('Meal not found');
         }
+
+        // Delete existing ingredients and re-add
+        await client.query('DELETE FROM meal_items WHERE meal_id = $1', [id]);
+        await Meal.insertItems(client, id, items);
+
+        // Fetch full meal with products
+        return Meal.findById(id, householdId, client);
+    }
+
+    // Meals of a household using any of the given products, those using the
+    // most of them first (uses = ids of the matching products)
+    static async findUsingProducts(householdId, productIds) {
+        if (productIds.length === 0) return [];
+        const result = await db.query(`
+            SELECT m.id, m.name, m.servings,
+                   array_agg(mi.product_id ORDER BY mi.product_id) as uses
+            FROM meals m
+            JOIN meal_items mi ON m.id = mi.meal_id
+            WHERE m.household_id = $1 AND mi.product_id = ANY($2::int[])
+            GROUP BY m.id
+            ORDER BY COUNT(*) DESC, m.name ASC
+        `, [householdId, productIds]);
+        return result.rows;
     }
 
     // Delete meal
-    static async delete(id, userId) {
+    static async delete(id, householdId) {
         const result = await db.query(
-            'DELETE FROM meals WHERE id = $1 AND user_id = $2',
-            [id, userId]
+            'DELETE FROM meals WHERE id = $1 AND household_id = $2',
+            [id, householdId]
         );
         return result.rowCount > 0;
     }
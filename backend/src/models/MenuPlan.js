@@ -1,4 +1,5 @@
 const db = require('../config/database');
+const productService = require('../services/productService');
 
 class MenuPlan {
     // Get the start of the current week (Monday)
@@ -12,7 +13,7 @@ class MenuPlan {
     }
 
     // Get menu plan for a week
-    static async getWeekPlan(userId, weekStart) {
+    static async getWeekPlan(householdId, weekStart) {
         const result = await db.query(`
             SELECT 
                 mpi.id,
@@ -20,12 +21,14 @@ class MenuPlan {
                 mpi.meal_type,
                 mpi.meal_id,
                 m.name as meal_name,
+                COALESCE(mpi.servings, m.servings) as servings,
+                m.servings as meal_servings,
                 (SELECT COUNT(*) FROM meal_items WHERE meal_id = m.id) as product_count
             FROM menu_plan_items mpi
             JOIN meals m ON mpi.meal_id = m.id
-            WHERE mpi.user_id = $1 AND mpi.week_start = $2
+            WHERE mpi.household_id = $1 AND mpi.week_start = $2
             ORDER BY mpi.day_of_week, mpi.meal_type, m.name
-        `, [userId, weekStart]);
+        `, [householdId, weekStart]);
 
         // Group by day and meal_type
         const plan = {};
@@ -42,100 +45,132 @@ class MenuPlan {
                 meal_id: row.meal_id,
                 meal_name: row.meal_name,
                 meal_type: mealType,
+                servings: row.servings,
+                meal_servings: row.meal_servings,
                 product_count: parseInt(row.product_count) || 0
             });
         }
         return plan;
     }
 
-    // Add meal to a day
-    static async addMealToDay(userId, weekStart, dayOfWeek, mealType, mealId) {
-        const result = await db.query(`
-            INSERT INTO menu_plan_items (user_id, week_start, day_of_week, meal_type, meal_id)
-            VALUES ($1, $2, $3, $4, $5)
-            ON CONFLICT (user_id, week_start, day_of_week, meal_type, meal_id) DO NOTHING
+    // Add meal to a day (only meals of the same household can be planned).
+    // servings overrides the meal's default; planning it again updates the override.
+    static async addMealToDay(householdId, userId, weekStart, dayOfWeek, mealType, mealId, servings = null, client = db) {
+        const result = await client.query(`
+            INSERT INTO menu_plan_items (household_id, user_id, week_start, day_of_week, meal_type, meal_id, servings)
+            SELECT $1, $2, $3, $4, $5, m.id, $7
+            FROM meals m
+            WHERE m.id = $6 AND m.household_id = $1
+            ON CONFLICT (household_id, week_start, day_of_week, meal_type, meal_id)
+            DO UPDATE SET servings = EXCLUDED.servings
             RETURNING *
-        `, [userId, weekStart, dayOfWeek, mealType, mealId]);
+        `, [householdId, userId, weekStart, dayOfWeek, mealType, mealId, servings]);
         return result.rows[0];
     }
 
     // Remove meal from a day
-    static async removeMealFromDay(userId, planItemId) {
+    static async removeMealFromDay(householdId, planItemId) {
         const result = await db.query(
-            'DELETE FROM menu_plan_items WHERE id = $1 AND user_id = $2',
-            [planItemId, userId]
+            'DELETE FROM menu_plan_items WHERE id = $1 AND household_id = $2',
+            [planItemId, householdId]
         );
         return result.rowCount > 0;
     }
 
     // Clear all meals for a day (optionally for a specific meal type)
-    static async clearDay(userId, weekStart, dayOfWeek, mealType = null) {
+    static async clearDay(householdId, weekStart, dayOfWeek, mealType = null) {
         if (mealType) {
             const result = await db.query(
-                'DELETE FROM menu_plan_items WHERE user_id = $1 AND week_start = $2 AND day_of_week = $3 AND meal_type = $4',
-                [userId, weekStart, dayOfWeek, mealType]
+                'DELETE FROM menu_plan_items WHERE household_id = $1 AND week_start = $2 AND day_of_week = $3 AND meal_type = $4',
+                [householdId, weekStart, dayOfWeek, mealType]
             );
             return result.rowCount;
         }
         const result = await db.query(
-            'DELETE FROM menu_plan_items WHERE user_id = $1 AND week_start = $2 AND day_of_week = $3',
-            [userId, weekStart, dayOfWeek]
+            'DELETE FROM menu_plan_items WHERE household_id = $1 AND week_start = $2 AND day_of_week = $3',
+            [householdId, weekStart, dayOfWeek]
         );
         return result.rowCount;
     }
 
-    // Get all products needed for the week plan
-    static async getWeekProducts(userId, weekStart) {
+    // Get all products needed for the week plan, with ingredient amounts
+    // scaled to the planned servings. amounts has one entry per unit that
+    // can't be converted into another (e.g. 500 g and 2 pieces); it is empty
+    // when no meal gave an amount for the product.
+    static async getWeekProducts(householdId, weekStart) {
         const result = await db.query(`
-            SELECT DISTINCT 
+            SELECT 
                 p.id,
                 p.name,
+                p.category_id,
                 c.name as category_name,
                 c.icon as category_icon,
-                c.sort_order
+                c.sort_order,
+                mi.unit,
+                SUM(mi.quantity * COALESCE(mpi.servings, m.servings) / m.servings) as quantity
             FROM menu_plan_items mpi
+            JOIN meals m ON mpi.meal_id = m.id
             JOIN meal_items mi ON mpi.meal_id = mi.meal_id
             JOIN products p ON mi.product_id = p.id
             LEFT JOIN categories c ON p.category_id = c.id
-            WHERE mpi.user_id = $1 AND mpi.week_start = $2
-            ORDER BY c.sort_order, p.name
-        `, [userId, weekStart]);
-        return result.rows;
+            WHERE mpi.household_id = $1 AND mpi.week_start = $2
+            GROUP BY p.id, p.name, c.name, c.icon, c.sort_order, mi.unit
+            ORDER BY c.sort_order, p.name, p.id
+        `, [householdId, weekStart]);
+
+        // One row per product, merging the per-unit sums
+        const products = [];
+        for (const row of result.rows) {
+            const { unit, quantity, ...product } = row;
+            let entry = products[products.length - 1];
+            if (!entry || entry.id !== product.id) {
+                entry = { ...product, amounts: [] };
+                products.push(entry);
+            }
+            if (quantity !== null) {
+                entry.amounts = productService.sumAmounts([...entry.amounts, { quantity, unit }]);
+            }
+        }
+        return products;
     }
 
     // Get products for a specific meal in the plan
-    static async getMealProducts(mealId) {
+    static async getMealProducts(householdId, mealId) {
         const result = await db.query(`
             SELECT 
                 p.id,
                 p.name,
+                p.category_id,
                 c.name as category_name,
-                c.icon as category_icon
+                c.icon as category_icon,
+                mi.quantity,
+                mi.unit
             FROM meal_items mi
+            JOIN meals m ON mi.meal_id = m.id
             JOIN products p ON mi.product_id = p.id
             LEFT JOIN categories c ON p.category_id = c.id
-            WHERE mi.meal_id = $1
+            WHERE mi.meal_id = $1 AND m.household_id = $2
             ORDER BY c.sort_order, p.name
-        `, [mealId]);
+        `, [mealId, householdId]);
         return result.rows;
     }
 
     // Copy plan from one week to another
-    static async copyWeek(userId, fromWeekStart, toWeekStart) {
+    static async copyWeek(householdId, fromWeekStart, toWeekStart) {
         // First clear the target week
         await db.query(
-            'DELETE FROM menu_plan_items WHERE user_id = $1 AND week_start = $2',
-            [userId, toWeekStart]
+            'DELETE FROM menu_plan_items WHERE household_id = $1 AND week_start = $2',
+            [householdId, toWeekStart]
         );
 
-        // Copy all items including meal_type
+        // Copy all items including meal_type and servings
         const result = await db.query(`
-            INSERT INTO menu_plan_items (user_id, week_start, day_of_week, meal_type, meal_id)
-            SELECT user_id, $2, day_of_week, meal_type, meal_id
+            INSERT INTO menu_plan_items (household_id, user_id, week_start, day_of_week, meal_type, meal_id, servings)
+            SELECT household_id, user_id, $2, day_of_week, meal_type, meal_id, servings
             FROM menu_plan_items
-            WHERE user_id = $1 AND week_start = $3
+            WHERE household_id = $1 AND week_start = $3
             RETURNING *
-        `, [userId, toWeekStart, fromWeekStart]);
+        `, [householdId, toWeekStart, fromWeekStart]);
         return result.rows.length;
     }
 }
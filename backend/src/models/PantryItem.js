@@ -0,0 +1,153 @@
+const db = require('../config/database');
+
+// Why a pantry quantity changed
+const REASONS = ['bought', 'added', 'consumed', 'discarded', 'adjusted'];
+
+class PantryItem {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.household_id = data.household_id;
+        this.product_id = data.product_id;
+        this.quantity = data.quantity ?? 0;
+        this.unit = data.unit || 'piece';
+        // Running low at or below this amount (null: only once used up)
+        this.low_quantity = data.low_quantity ?? null;
+        // Earliest best-before date of the stock ('YYYY-MM-DD'), days_left is relative to today
+        this.best_before = data.best_before ?? null;
+        this.days_left = data.days_left ?? null;
+        this.created_at = data.created_at;
+        this.updated_at = data.updated_at;
+        // From joins
+        this.product_name = data.product_name;
+        this.category_id = data.category_id;
+        this.category_name = data.category_name;
+        this.category_icon = data.category_icon;
+        this.category_sort = data.category_sort;
+        this.is_low = this.quantity <= 0 || (this.low_quantity !== null && this.quantity <= this.low_quantity);
+    }
+
+    static get REASONS() {
+        return REASONS;
+    }
+
+    // Base query with joins
+    static get baseQuery() {
+        return `
+            SELECT pi.*,
+                   pi.best_before - CURRENT_DATE as days_left,
+                   p.name as product_name,
+                   p.category_id,
+                   c.name as category_name,
+                   c.icon as category_icon,
+                   c.sort_order as category_sort
+            FROM pantry_items pi
+            JOIN products p ON pi.product_id = p.id
+            LEFT JOIN categories c ON p.category_id = c.id
+        `;
+    }
+
+    // Get the whole pantry of a household
+    static async findAllByHousehold(householdId) {
+        const result = await db.query(`
+            ${PantryItem.baseQuery}
+            WHERE pi.household_id = $1
+            ORDER BY c.sort_order ASC, p.name ASC
+        `, [householdId]);
+        return result.rows.map(row => new PantryItem(row));
+    }
+
+    // Find item by ID
+    static async findById(id, householdId, client = db) {
+        const result = await client.query(`
+            ${PantryItem.baseQuery}
+            WHERE pi.id = $1 AND pi.household_id = $2
+        `, [id, householdId]);
+        return result.rows[0] ? new PantryItem(result.rows[0]) : null;
+    }
+
+    // All rows of a product (one per unit)
+    static async findByProduct(householdId, productId, client = db) {
+        const result = await client.query(`
+            ${PantryItem.baseQuery}
+            WHERE pi.household_id = $1 AND pi.product_id = $2
+            ORDER BY pi.updated_at DESC
+        `, [householdId, productId]);
+        return result.rows.map(row => new PantryItem(row));
+    }
+
+    // Items at or below their low level, flagged when already back on the list
+    static async findRunningLow(householdId) {
+        const result = await db.query(`
+            SELECT low.*,
+                   EXISTS (
+                       SELECT 1 FROM grocery_items gi
+                       WHERE gi.household_id = low.household_id AND gi.product_id = low.product_id
+                         AND gi.status != 'found'
+                   ) as on_list
+            FROM (${PantryItem.baseQuery}
+                  WHERE pi.household_id = $1
+                    AND (pi.quantity <= 0 OR (pi.low_quantity IS NOT NULL AND pi.quantity <= pi.low_quantity))
+            ) low
+            ORDER BY low.quantity <= 0 DESC, low.category_sort ASC, low.product_name ASC
+        `, [householdId]);
+        return result.rows.map(row => ({ ...new PantryItem(row), on_list: row.on_list }));
+    }
+
+    // Create a row for a product in a unit
+    static async create(householdId, { productId, quantity, unit, lowQuantity = null, bestBefore = null }, client = db) {
+        const result = await client.query(`
+            INSERT INTO pantry_items (household_id, product_id, quantity, unit, low_quantity, best_before)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id
+        `, [householdId, productId, quantity, unit, lowQuantity, bestBefore]);
+        return result.rows[0].id;
+    }
+
+    // Set quantity, low level and/or best-before date (undefined keeps the
+    // current value, null clears low_quantity or best_before)
+    static async update(id, householdId, { quantity, lowQuantity, bestBefore }, client = db) {
+        const result = await client.query(`
+            UPDATE pantry_items
+            SET quantity = COALESCE($3, quantity),
+                low_quantity = CASE WHEN $4 THEN $5::numeric ELSE low_quantity END,
+                best_before = CASE WHEN $6 THEN $7::date ELSE best_before END,
+                updated_at = NOW()
+            WHERE id = $1 AND household_id = $2
+            RETURNING id
+        `, [id, householdId, quantity ?? null, lowQuantity !== undefined, lowQuantity ?? null,
+            bestBefore !== undefined, bestBefore ?? null]);
+        return result.rowCount > 0;
+    }
+
+    // Stock in every household that is past or within `days` of its best-before date
+    static async findExpiring(days, householdId = null) {
+        const result = await db.query(`
+            ${PantryItem.baseQuery}
+            WHERE pi.quantity > 0
+              AND pi.best_before IS NOT NULL
+              AND pi.best_before <= CURRENT_DATE + $1::int
+              AND ($2::int IS NULL OR pi.household_id = $2)
+            ORDER BY pi.household_id, pi.best_before ASC, p.name ASC
+        `, [days, householdId]);
+        return result.rows.map(row => new PantryItem(row));
+    }
+
+    // Delete item
+    static async delete(id, householdId) {
+        const result = await db.query(
+            'DELETE FROM pantry_items WHERE id = $1 AND household_id = $2',
+            [id, householdId]
+        );
+        return result.rowCount > 0;
+    }
+
+    // Record a change (quantity is signed: negative for what was used or thrown away)
+    static async logEvent(householdId, userId, { productId, quantity, unit, reason }, client = db) {
+        await client.query(`
+            INSERT INTO pantry_events (household_id, user_id, product_id, quantity, unit, reason)
+            VALUES ($1, $2, $3, $4, $5, $6)
+        `, [householdId, userId, productId, quantity, unit, reason]);
+    }
+}
+
+module.exports = PantryItem;
@@ -7,6 +7,9 @@ class Product {
         this.category_id = data.category_id;
         this.category_name = data.category_name; // From join
         this.category_icon = data.category_icon; // From join
+        // Days a bought item keeps; null falls back to the category's
+        this.shelf_life_days = data.shelf_life_days ?? null;
+        this.category_shelf_life_days = data.category_shelf_life_days ?? null; // From join
         this.created_at = data.created_at;
         this.updated_at = data.updated_at;
     }
@@ -15,16 +18,19 @@ class Product {
     static async findAll() {
         const result = await db.query(`
             SELECT p.*, c.name as category_name, c.icon as category_icon,
-                   COALESCE(array_agg(pa.alias) FILTER (WHERE pa.alias IS NOT NULL), '{}') as aliases
+                   c.shelf_life_days as category_shelf_life_days,
+                   COALESCE(array_agg(pa.alias) FILTER (WHERE pa.alias IS NOT NULL), '{}') as aliases,
+                   (SELECT json_object_agg(pn.language, pn.name) FROM product_names pn WHERE pn.product_id = p.id) as names
             FROM products p
             LEFT JOIN categories c ON p.category_id = c.id
             LEFT JOIN product_aliases pa ON p.id = pa.product_id
-            GROUP BY p.id, c.name, c.icon, c.sort_order
+            GROUP BY p.id, c.name, c.icon, c.sort_order, c.shelf_life_days
             ORDER BY c.sort_order ASC, p.name ASC
         `);
         return result.rows.map(row => {
             const product = new Product(row);
             product.aliases = row.aliases || [];
+            product.names = row.names || {};
             return product;
         });
     }
@@ -32,7 +38,8 @@ class Product {
     // Find by ID
     static async findById(id) {
         const result = await db.query(`
-            SELECT p.*, c.name as category_name, c.icon as category_icon
+            SELECT p.*, c.name as category_name, c.icon as category_icon,
+                   c.shelf_life_days as category_shelf_life_days
             FROM products p
             LEFT JOIN categories c ON p.category_id = c.id
             WHERE p.id = $1
@@ -40,20 +47,23 @@ class Product {
         return result.rows[0] ? new Product(result.rows[0]) : null;
     }
 
-    // Find by exact name
-    static async findByName(name) {
-        const result = await db.query(`
+    // Find by exact name, in any language (the catalog name first)
+    static async findByName(name, client = db) {
+        const result = await client.query(`
             SELECT p.*, c.name as category_name, c.icon as category_icon
             FROM products p
             LEFT JOIN categories c ON p.category_id = c.id
             WHERE LOWER(p.name) = LOWER($1)
+               OR EXISTS (SELECT 1 FROM product_names pn WHERE pn.product_id = p.id AND LOWER(pn.name) = LOWER($1))
+            ORDER BY (LOWER(p.name) = LOWER($1)) DESC, p.id ASC
+            LIMIT 1
         `, [name]);
         return result.rows[0] ? new Product(result.rows[0]) : null;
     }
 
     // Find by alias
-    static async findByAlias(alias) {
-        const result = await db.query(`
+    static async findByAlias(alias, client = db) {
+        const result = await client.query(`
             SELECT p.*, c.name as category_name, c.icon as category_icon
             FROM products p
             LEFT JOIN categories c ON p.category_id = c.id
@@ -83,18 +93,18 @@ class Product {
     }
 
     // Find by name or alias (main lookup method)
-    static async lookup(term) {
+    static async lookup(term, client = db) {
         const normalized = term.toLowerCase().trim();
         const variants = Product.getPluralVariants(normalized);
         
         // Try each variant
         for (const variant of variants) {
             // Try exact name match first
-            let product = await Product.findByName(variant);
+            let product = await Product.findByName(variant, client);
             if (product) return product;
 
             // Try alias match
-            product = await Product.findByAlias(variant);
+            product = await Product.findByAlias(variant, client);
             if (product) return product;
         }
         
@@ -114,23 +124,23 @@ class Product {
     }
 
     // Create new product
-    static async create(name, categoryId) {
-        const result = await db.query(`
-            INSERT INTO products (name, category_id) 
-            VALUES ($1, $2) 
+    static async create(name, categoryId, shelfLifeDays = null, client = db) {
+        const result = await client.query(`
+            INSERT INTO products (name, category_id, shelf_life_days) 
+            VALUES ($1, $2, $3) 
             RETURNING *
-        `, [name, categoryId]);
+        `, [name, categoryId, shelfLifeDays]);
         return new Product(result.rows[0]);
     }
 
     // Update product
-    async save() {
-        const result = await db.query(`
+    async save(client = db) {
+        const result = await client.query(`
             UPDATE products 
-            SET name = $1, category_id = $2, updated_at = NOW() 
-            WHERE id = $3 
+            SET name = $1, category_id = $2, shelf_life_days = $3, updated_at = NOW() 
+            WHERE id = $4 
             RETURNING *
-        `, [this.name, this.category_id, this.id]);
+        `, [this.name, this.category_id, this.shelf_life_days, this.id]);
         return result.rows[0] ? new Product(result.rows[0]) : null;
     }
 
@@ -144,8 +154,8 @@ class Product {
     }
 
     // Get aliases for this product
-    async getAliases() {
-        const result = await db.query(
+    async getAliases(client = db) {
+        const result = await client.query(
             'SELECT alias FROM product_aliases WHERE product_id = $1 ORDER BY alias',
             [this.id]
         );
@@ -153,12 +163,12 @@ class Product {
     }
 
     // Add alias
-    async addAlias(alias) {
+    async addAlias(alias, client = db) {
         const normalized = alias.toLowerCase().trim();
         if (normalized === this.name.toLowerCase()) return false;
         
         try {
-            await db.query(
+            await client.query(
                 'INSERT INTO product_aliases (product_id, alias) VALUES ($1, $2) ON CONFLICT (alias) DO NOTHING',
                 [this.id, normalized]
             );
@@ -177,13 +187,50 @@ class Product {
         return result.rowCount > 0;
     }
 
-    // Search products by partial name or alias (includes plural/singular variants)
+    // Names in other languages: { en: 'Apples', he: 'תפוחים' }
+    async getNames(client = db) {
+        const result = await client.query(
+            'SELECT language, name FROM product_names WHERE product_id = $1',
+            [this.id]
+        );
+        return Object.fromEntries(result.rows.map(r => [r.language, r.name]));
+    }
+
+    // Set names by language (an empty name removes that language's)
+    async setNames(names, client = db) {
+        for (const [language, name] of Object.entries(names)) {
+            if (name && name.trim()) {
+                await client.query(`
+                    INSERT INTO product_names (product_id, language, name) VALUES ($1, $2, $3)
+                    ON CONFLICT (product_id, language) DO UPDATE SET name = EXCLUDED.name
+                `, [this.id, language, name.trim()]);
+            } else {
+                await client.query(
+                    'DELETE FROM product_names WHERE product_id = $1 AND language = $2',
+                    [this.id, language]
+                );
+            }
+        }
+    }
+
+    // Names of products in a language, by product id
+    static async findNames(ids, language) {
+        if (ids.length === 0) return new Map();
+        const result = await db.query(
+            'SELECT product_id, name FROM product_names WHERE language = $1 AND product_id = ANY($2)',
+            [language, ids]
+        );
+        return new Map(result.rows.map(r => [r.product_id, r.name]));
+    }
+
+    // Search products by partial name (in any language) or alias (includes plural/singular variants)
     static async search(query, limit = 20) {
         const normalized = query.toLowerCase().trim();
         const variants = Product.getPluralVariants(normalized);
         
-        // Build OR conditions for all variants (search both name and aliases)
+        // Build OR conditions for all variants (search names, translations and aliases)
         const nameConditions = variants.map((_, i) => `LOWER(p.name) LIKE LOWER($${i + 1})`).join(' OR ');
+        const translationConditions = variants.map((_, i) => `LOWER(pn.name) LIKE LOWER($${i + 1})`).join(' OR ');
         const aliasConditions = variants.map((_, i) => `LOWER(pa.alias) LIKE LOWER($${i + 1})`).join(' OR ');
         const params = variants.map(v => `%${v}%`);
         params.push(limit);
@@ -193,7 +240,8 @@ class Product {
             FROM products p
             LEFT JOIN categories c ON p.category_id = c.id
             LEFT JOIN product_aliases pa ON p.id = pa.product_id
-            WHERE (${nameConditions}) OR (${aliasConditions})
+            LEFT JOIN product_names pn ON p.id = pn.product_id
+            WHERE (${nameConditions}) OR (${translationConditions}) OR (${aliasConditions})
             ORDER BY p.name ASC
             LIMIT $${params.length}
         `, params);
@@ -0,0 +1,137 @@
+const db = require('../config/database');
+
+// How a staple comes back on the list (see the staples table)
+const RULES = ['interval', 'weekdays', 'since_bought'];
+
+class Staple {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.household_id = data.household_id;
+        this.user_id = data.user_id;
+        this.product_id = data.product_id;
+        this.quantity = data.quantity ?? 1;
+        this.unit = data.unit || 'piece';
+        this.rule = data.rule;
+        this.interval_days = data.interval_days ?? null;
+        this.weekdays = data.weekdays || [];
+        this.active = data.active ?? true;
+        this.last_added_on = data.last_added_on ?? null;
+        this.created_at = data.created_at;
+        this.updated_at = data.updated_at;
+        // From joins
+        this.product_name = data.product_name;
+        this.category_name = data.category_name;
+        this.category_icon = data.category_icon;
+        this.last_bought_on = data.last_bought_on ?? null;
+        // Relative to today in the database's calendar
+        this.today_weekday = data.today_weekday;
+        this.days_since_added = data.days_since_added ?? null;
+        this.days_since_bought = data.days_since_bought ?? null;
+    }
+
+    static get RULES() {
+        return RULES;
+    }
+
+    // Base query with joins and the last time the household bought the product
+    static get baseQuery() {
+        return `
+            SELECT s.*,
+                   p.name as product_name,
+                   c.name as category_name,
+                   c.icon as category_icon,
+                   lb.last_bought_on,
+                   EXTRACT(DOW FROM CURRENT_DATE)::int as today_weekday,
+                   CURRENT_DATE - s.last_added_on as days_since_added,
+                   CURRENT_DATE - lb.last_bought_on as days_since_bought
+            FROM staples s
+            JOIN products p ON s.product_id = p.id
+            LEFT JOIN categories c ON p.category_id = c.id
+            LEFT JOIN LATERAL (
+                SELECT MAX(gh.completed_at)::date as last_bought_on
+                FROM grocery_history gh
+                WHERE gh.household_id = s.household_id AND gh.product_id = s.product_id
+                  AND gh.status = 'found'
+            ) lb ON TRUE
+        `;
+    }
+
+    // Get all staples of a household
+    static async findAllByHousehold(householdId) {
+        const result = await db.query(`
+            ${Staple.baseQuery}
+            WHERE s.household_id = $1
+            ORDER BY c.sort_order ASC, p.name ASC
+        `, [householdId]);
+        return result.rows.map(row => new Staple(row));
+    }
+
+    // Active staples of one household, or of every household
+    static async findActive(householdId = null) {
+        const result = await db.query(`
+            ${Staple.baseQuery}
+            WHERE s.active AND ($1::int IS NULL OR s.household_id = $1)
+            ORDER BY s.household_id, s.id
+        `, [householdId]);
+        return result.rows.map(row => new Staple(row));
+    }
+
+    // Find staple by ID
+    static async findById(id, householdId) {
+        const result = await db.query(`
+            ${Staple.baseQuery}
+            WHERE s.id = $1 AND s.household_id = $2
+        `, [id, householdId]);
+        return result.rows[0] ? new Staple(result.rows[0]) : null;
+    }
+
+    // Find the staple of a product (one per product and household)
+    static async findByProduct(householdId, productId) {
+        const result = await db.query(
+            'SELECT * FROM staples WHERE household_id = $1 AND product_id = $2',
+            [householdId, productId]
+        );
+        return result.rows[0] ? new Staple(result.rows[0]) : null;
+    }
+
+    // Create staple
+    static async create(householdId, userId, { productId, quantity, unit, rule, intervalDays, weekdays }) {
+        const result = await db.query(`
+            INSERT INTO staples (household_id, user_id, product_id, quantity, unit, rule, interval_days, weekdays)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            RETURNING id
+        `, [householdId, userId, productId, quantity, unit, rule, intervalDays, weekdays]);
+        return Staple.findById(result.rows[0].id, householdId);
+    }
+
+    // Replace the amount and schedule
+    static async update(id, householdId, { quantity, unit, rule, intervalDays, weekdays, active }) {
+        const result = await db.query(`
+            UPDATE staples
+            SET quantity = $3, unit = $4, rule = $5, interval_days = $6, weekdays = $7,
+                active = $8, updated_at = NOW()
+            WHERE id = $1 AND household_id = $2
+            RETURNING id
+        `, [id, householdId, quantity, unit, rule, intervalDays, weekdays, active]);
+        return result.rows[0] ? Staple.findById(id, householdId) : null;
+    }
+
+    // Remember that the staple went on the list today
+    static async markAdded(id) {
+        await db.query(
+            'UPDATE staples SET last_added_on = CURRENT_DATE WHERE id = $1',
+            [id]
+        );
+    }
+
+    // Delete staple
+    static async delete(id, householdId) {
+        const result = await db.query(
+            'DELETE FROM staples WHERE id = $1 AND household_id = $2',
+            [id, householdId]
+        );
+        return result.rowCount > 0;
+    }
+}
+
+module.exports = Staple;
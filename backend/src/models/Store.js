@@ -0,0 +1,118 @@
+const db = require('../config/database');
+
+class Store {
+    constructor(data = {}) {
+        this.id = data.id;
+        this.household_id = data.household_id;
+        this.name = data.name;
+        this.created_at = data.created_at;
+        this.updated_at = data.updated_at;
+        // Layout (only loaded by findById)
+        this.categories = data.categories || [];
+        this.products = data.products || [];
+    }
+
+    // Get all stores of a household
+    static async findAllByHousehold(householdId) {
+        const result = await db.query(`
+            SELECT * FROM stores WHERE household_id = $1 ORDER BY name ASC
+        `, [householdId]);
+        return result.rows.map(row => new Store(row));
+    }
+
+    // Get store by ID with its layout (category order and product overrides)
+    static async findById(id, householdId) {
+        const storeResult = await db.query(`
+            SELECT * FROM stores WHERE id = $1 AND household_id = $2
+        `, [id, householdId]);
+
+        if (!storeResult.rows[0]) return null;
+
+        const [categoriesResult, productsResult] = await Promise.all([
+            db.query(`
+                SELECT sc.category_id, sc.position, sc.aisle,
+                       c.name as category_name, c.icon as category_icon
+                FROM store_categories sc
+                JOIN categories c ON sc.category_id = c.id
+                WHERE sc.store_id = $1
+                ORDER BY sc.position ASC
+            `, [id]),
+            db.query(`
+                SELECT sp.product_id, sp.category_id, sp.aisle,
+                       p.name as product_name, c.name as category_name
+                FROM store_products sp
+                JOIN products p ON sp.product_id = p.id
+                LEFT JOIN categories c ON sp.category_id = c.id
+                WHERE sp.store_id = $1
+                ORDER BY p.name ASC
+            `, [id])
+        ]);
+
+        return new Store({
+            ...storeResult.rows[0],
+            categories: categoriesResult.rows,
+            products: productsResult.rows
+        });
+    }
+
+    // Create store
+    static async create(householdId, name) {
+        const result = await db.query(`
+            INSERT INTO stores (household_id, name)
+            VALUES ($1, $2)
+            RETURNING *
+        `, [householdId, name]);
+        return new Store(result.rows[0]);
+    }
+
+    // Update name and replace the layout.
+    // categories: [{ category_id, aisle }] in walking order
+    // products: [{ product_id, category_id, aisle }]
+    static async update(id, householdId, { name, categories, products }) {
+        const updated = await db.withTransaction(async (client) => {
+            const storeResult = await client.query(`
+                UPDATE stores
+                SET name = COALESCE($1, name), updated_at = NOW()
+                WHERE id = $2 AND household_id = $3
+                RETURNING id
+            `, [name, id, householdId]);
+
+            if (!storeResult.rows[0]) return false;
+
+            if (categories) {
+                await client.query('DELETE FROM store_categories WHERE store_id = $1', [id]);
+                for (const [position, category] of categories.entries()) {
+                    await client.query(`
+                        INSERT INTO store_categories (store_id, category_id, position, aisle)
+                        VALUES ($1, $2, $3, $4)
+                    `, [id, category.category_id, position, category.aisle || null]);
+                }
+            }
+
+            if (products) {
+                await client.query('DELETE FROM store_products WHERE store_id = $1', [id]);
+                for (const product of products) {
+                    await client.query(`
+                        INSERT INTO store_products (store_id, product_id, category_id, aisle)
+                        VALUES ($1, $2, $3, $4)
+                    `, [id, product.product_id, product.category_id || null, product.aisle || null]);
+                }
+            }
+
+            return true;
+        });
+
+        return updated ? Store.findById(id, householdId) : null;
+    }
+
+    // Delete store (history keeps the store name)
+    static async delete(id, householdId) {
+        const result = await db.query(
+            'DELETE FROM stores WHERE id = $1 AND household_id = $2',
+            [id, householdId]
+        );
+        return result.rowCount > 0;
+    }
+}
+
+module.exports = Store;
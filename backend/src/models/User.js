@@ -8,14 +8,16 @@ class User {
         this.email = data.email;
         this.password_hash = data.password_hash;
         this.name = data.name;
+        // Language products and categories are shown in (null: catalog names)
+        this.language = data.language ?? null;
         this.created_at = data.created_at;
         this.updated_at = data.updated_at;
     }
 
     // Create a new user
-    static async create(email, password, name) {
+    static async create(email, password, name, client = db) {
         const password_hash = await bcrypt.hash(password, 12);
-        const result = await db.query(
+        const result = await client.query(
             `INSERT INTO users (email, password_hash, name) 
              VALUES ($1, $2, $3) 
              RETURNING *`,
@@ -107,6 +109,16 @@ class User {
         };
     }
 
+    // Set the language names are shown in (null to go back to catalog names)
+    static async updateLanguage(userId, language) {
+        const result = await db.query(
+            `UPDATE users SET language = $1, updated_at = NOW()
+             WHERE id = $2 RETURNING *`,
+            [language, userId]
+        );
+        return result.rows[0] ? new User(result.rows[0]) : null;
+    }
+
     // Mark reset token as used
     static async markTokenUsed(tokenId) {
         await db.query(
@@ -115,12 +127,23 @@ class User {
         );
     }
 
+    // Instance admins are listed by email in ADMIN_EMAILS
+    isAdmin() {
+        const admins = (process.env.ADMIN_EMAILS || '')
+            .split(',')
+            .map(email => email.trim().toLowerCase())
+            .filter(Boolean);
+        return !!this.email && admins.includes(this.email.toLowerCase());
+    }
+
     // Return safe user object (without password)
     toJSON() {
         return {
             id: this.id,
             email: this.email,
             name: this.name,
+            language: this.language,
+            is_admin: this.isAdmin(),
             created_at: this.created_at
         };
     }
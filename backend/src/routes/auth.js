@@ -2,7 +2,10 @@ const express = require('express');
 const jwt = require('jsonwebtoken');
 const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
+const Household = require('../models/Household');
 const authMiddleware = require('../middleware/auth');
+const { clearUserCache } = require('../middleware/auth');
+const { LANGUAGES } = require('../config/languages');
 
 const router = express.Router();
 
@@ -101,9 +104,37 @@ router.post('/login', validateLogin, async (req, res) => {
     }
 });
 
-// Get current user
+// Get current user (with the households they belong to)
 router.get('/me', authMiddleware, async (req, res) => {
-    res.json({ user: req.user.toJSON() });
+    try {
+        let households = await Household.findAllByUser(req.userId);
+        if (households.length === 0) {
+            households = [await Household.findDefaultForUser(req.user)];
+        }
+        res.json({ user: req.user.toJSON(), households });
+    } catch (error) {
+        console.error('Get current user error:', error);
+        res.status(500).json({ error: 'Failed to load user' });
+    }
+});
+
+// Set the language products and categories are shown in
+router.put('/me/language', authMiddleware, [
+    body('language').optional({ nullable: true }).isIn(LANGUAGES)
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const user = await User.updateLanguage(req.userId, req.body.language ?? null);
+        clearUserCache(req.userId);
+        res.json({ user: user.toJSON() });
+    } catch (error) {
+        console.error('Update language error:', error);
+        res.status(500).json({ error: 'Failed to update language' });
+    }
 });
 
 // Admin: Generate password reset token for a user
@@ -177,5 +208,85 @@ router.post('/reset-password', validateResetPassword, async (req, res) => {
     }
 });
 
+// Public: Look up an invite before joining
+router.get('/invite/:token', async (req, res) => {
+    try {
+        const invite = await Household.validateInvite(req.params.token);
+        if (!invite) {
+            return res.status(404).json({ error: 'Invalid or expired invite' });
+        }
+
+        res.json({
+            household: invite.household.name,
+            role: invite.role,
+            invitedBy: invite.invitedBy
+        });
+    } catch (error) {
+        console.error('Get invite error:', error);
+        res.status(500).json({ error: 'Failed to load invite' });
+    }
+});
+
+// Public: Join a household using an invite token.
+// New emails get an account; existing accounts must confirm their password.
+const validateJoin = [
+    body('token').isLength({ min: 64, max: 64 }),
+    body('email').isEmail().normalizeEmail(),
+    body('password').isLength({ min: 6 }),
+    body('name').optional().trim()
+];
+
+router.post('/join', validateJoin, async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { token, email, password, name } = req.body;
+
+        // Validate invite
+        const invite = await Household.validateInvite(token);
+        if (!invite) {
+            return res.status(400).json({ error: 'Invalid or expired invite' });
+        }
+
+        const existing = await User.findByEmail(email);
+        if (existing) {
+            const isValid = await existing.verifyPassword(password);
+            if (!isValid) {
+                return res.status(401).json({ error: 'Email already registered, password does not match' });
+            }
+        } else if (!name) {
+            return res.status(400).json({ error: 'Name is required' });
+        }
+
+        // Consume the invite, create the account when needed and add membership (one transaction)
+        const user = await Household.joinWithInvite(invite, (client) =>
+            existing || User.create(email, password, name, client)
+        );
+        if (!user) {
+            return res.status(400).json({ error: 'Invalid or expired invite' });
+        }
+
+        // Generate token
+        const jwtToken = jwt.sign(
+            { userId: user.id },
+            process.env.JWT_SECRET,
+            { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
+        );
+
+        res.status(201).json({
+            message: 'Joined household',
+            user: user.toJSON(),
+            household: invite.household,
+            token: jwtToken
+        });
+    } catch (error) {
+        console.error('Join household error:', error);
+        res.status(500).json({ error: 'Failed to join household' });
+    }
+});
+
 module.exports = router;
 
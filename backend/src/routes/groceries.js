@@ -1,19 +1,40 @@
 const express = require('express');
-const { body, param, validationResult } = require('express-validator');
+const { body, param, query, validationResult } = require('express-validator');
 const GroceryItem = require('../models/GroceryItem');
 const Product = require('../models/Product');
 const groceryService = require('../services/groceryService');
+const suggestionService = require('../services/suggestionService');
+const operationService = require('../services/operationService');
+const realtimeService = require('../services/realtimeService');
 const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
 
 const router = express.Router();
 
-// All routes require authentication
+// All routes require authentication and household membership
 router.use(authMiddleware);
+router.use(householdMiddleware);
 
-// Get all items (grouped by category)
-router.get('/', async (req, res) => {
+// Shoppers can only tick items off; changing content needs an owner or editor
+const canEdit = requireRole('owner', 'editor');
+
+// Changes queued offline are replayed with the item's updated_at as the device last saw it
+// (base_updated_at). If the item was changed on the server since, the newer server change wins.
+const isStale = (item, baseUpdatedAt) =>
+    !!baseUpdatedAt && new Date(item.updated_at) > new Date(baseUpdatedAt);
+
+// Get all items (grouped by category, in a store's walking order with ?store_id=)
+router.get('/', [
+    query('store_id').optional().isInt().toInt()
+], async (req, res) => {
     try {
-        const result = await groceryService.getAllItemsSorted(req.userId);
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const result = await groceryService.getAllItemsSorted(req.householdId, req.query.store_id, req.user.language);
         res.json(result);
     } catch (error) {
         console.error('Error fetching groceries:', error);
@@ -21,9 +42,117 @@ router.get('/', async (req, res) => {
     }
 });
 
+// Live list changes for the household (Server-Sent Events)
+router.get('/events', (req, res) => {
+    realtimeService.subscribe(req.householdId, req, res);
+});
+
+// Products bought regularly that are probably running out and aren't on the list
+router.get('/suggestions', [
+    query('limit').optional().isInt({ min: 1, max: 20 }).toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const suggestions = await suggestionService.getSuggestions(req.householdId, req.query.limit);
+        res.json(suggestions);
+    } catch (error) {
+        console.error('Error fetching suggestions:', error);
+        res.status(500).json({ error: 'Failed to fetch suggestions' });
+    }
+});
+
+// Stop suggesting a product until it would be due again
+router.post('/suggestions/:productId/dismiss', canEdit, [
+    param('productId').isInt().toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const product = await Product.findById(req.params.productId);
+        if (!product) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+
+        await suggestionService.dismiss(req.householdId, req.userId, product.id);
+        res.json({ message: 'Suggestion dismissed' });
+    } catch (error) {
+        console.error('Error dismissing suggestion:', error);
+        res.status(500).json({ error: 'Failed to dismiss suggestion' });
+    }
+});
+
+// What undo and redo would revert or apply again
+router.get('/operations', async (req, res) => {
+    try {
+        const state = await operationService.getState(req.householdId);
+        res.json(state);
+    } catch (error) {
+        console.error('Error fetching operations:', error);
+        res.status(500).json({ error: 'Failed to fetch undo history' });
+    }
+});
+
+// Who changed what on the list, newest first (`before` is the id to page back from)
+router.get('/activity', [
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('before').optional().isInt().toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const activity = await operationService.getActivity(req.householdId, {
+            limit: req.query.limit,
+            before: req.query.before
+        });
+        res.json(activity);
+    } catch (error) {
+        console.error('Error fetching activity:', error);
+        res.status(500).json({ error: 'Failed to fetch activity' });
+    }
+});
+
+// Undo or redo the household's latest list change. Shoppers can only
+// undo / redo their own kind of change: ticking items off.
+const applyOperation = (direction) => async (req, res) => {
+    try {
+        const operation = await operationService[direction](req.householdId, req.householdRole);
+        if (!operation) {
+            return res.status(400).json({ error: `Nothing to ${direction}` });
+        }
+
+        const state = await operationService.getState(req.householdId);
+        res.json({ operation, ...state });
+    } catch (error) {
+        if (error.message === 'Not allowed') {
+            return res.status(403).json({ error: `Your role in this household does not allow you to ${direction} this change` });
+        }
+        if (error.message === 'List changed') {
+            // The operation was dropped; the state says what comes next
+            const state = await operationService.getState(req.householdId);
+            return res.status(409).json({ error: 'The items were changed since, so this change was dropped', ...state });
+        }
+        console.error(`Error during ${direction}:`, error);
+        res.status(500).json({ error: `Failed to ${direction}` });
+    }
+};
+
+router.post('/operations/undo', applyOperation('undo'));
+router.post('/operations/redo', applyOperation('redo'));
+
 // Parse and add items using AI
-router.post('/parse', [
-    body('text').trim().isLength({ min: 1 })
+router.post('/parse', canEdit, [
+    body('text').trim().isLength({ min: 1 }),
+    body('fuzzy').optional().isBoolean()
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -31,8 +160,8 @@ router.post('/parse', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { text } = req.body;
-        const result = await groceryService.parseAndAddItems(req.userId, text);
+        const { text, fuzzy = true } = req.body;
+        const result = await groceryService.parseAndAddItems(req.householdId, req.userId, text, { fuzzy });
         res.json(result);
     } catch (error) {
         console.error('Error parsing groceries:', error);
@@ -41,9 +170,10 @@ router.post('/parse', [
 });
 
 // Add single item by product_id
-router.post('/', [
+router.post('/', canEdit, [
     body('product_id').isInt(),
-    body('quantity').optional().isInt({ min: 1 }),
+    body('quantity').optional().isFloat({ gt: 0, max: GroceryItem.MAX_QUANTITY }).toFloat(),
+    body('unit').optional().isIn(GroceryItem.UNITS),
     body('note').optional().trim()
 ], async (req, res) => {
     try {
@@ -52,8 +182,8 @@ router.post('/', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { product_id, quantity = 1, note } = req.body;
-        const item = await groceryService.addItemByProduct(req.userId, product_id, quantity, note);
+        const { product_id, quantity = 1, note, unit = 'piece' } = req.body;
+        const item = await groceryService.addItemByProduct(req.householdId, req.userId, product_id, quantity, note, unit);
         res.status(201).json(item);
     } catch (error) {
         console.error('Error adding grocery:', error);
@@ -62,12 +192,14 @@ router.post('/', [
 });
 
 // Update item
-router.put('/:id', [
+router.put('/:id', canEdit, [
     param('id').isInt(),
-    body('product_id').optional().isInt(),
-    body('quantity').optional().isInt({ min: 1 }),
+    body('product_id').optional().isInt().toInt(),
+    body('quantity').optional().isFloat({ gt: 0, max: GroceryItem.MAX_QUANTITY }).toFloat(),
+    body('unit').optional().isIn(GroceryItem.UNITS),
     body('note').optional().trim(),
-    body('status').optional().isIn(['pending', 'selected', 'found', 'not_found'])
+    body('status').optional().isIn(['pending', 'selected', 'found', 'not_found']),
+    body('base_updated_at').optional().isISO8601()
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -75,19 +207,28 @@ router.put('/:id', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const item = await GroceryItem.findById(req.params.id, req.userId);
+        const item = await GroceryItem.findById(req.params.id, req.householdId);
         if (!item) {
             return res.status(404).json({ error: 'Item not found' });
         }
+        if (isStale(item, req.body.base_updated_at)) {
+            return res.status(409).json({ error: 'Item was changed on another device', item });
+        }
+        if (req.body.product_id && !(await Product.findById(req.body.product_id))) {
+            return res.status(400).json({ error: 'Product not found' });
+        }
 
         // Update fields
+        const before = operationService.snapshot(item);
         if (req.body.product_id) item.product_id = req.body.product_id;
         if (req.body.quantity) item.quantity = req.body.quantity;
+        if (req.body.unit) item.unit = req.body.unit;
         if (req.body.note !== undefined) item.note = req.body.note;
         if (req.body.status) item.status = req.body.status;
 
         await item.save();
-        const updatedItem = await GroceryItem.findById(item.id, req.userId);
+        const updatedItem = await GroceryItem.findById(item.id, req.householdId);
+        await operationService.record(req.householdId, req.userId, 'edit', [{ before, after: updatedItem }]);
         res.json(updatedItem);
     } catch (error) {
         console.error('Error updating grocery:', error);
@@ -98,7 +239,10 @@ router.put('/:id', [
 // Update item status (shopping mode)
 router.patch('/:id/status', [
     param('id').isInt(),
-    body('status').isIn(['pending', 'selected', 'found', 'not_found'])
+    body('status').isIn(['pending', 'selected', 'found', 'not_found']),
+    body('unit_price').optional({ nullable: true }).isFloat({ min: 0, max: 99999 }).toFloat(),
+    body('best_before').optional({ nullable: true }).isDate({ format: 'YYYY-MM-DD', strictMode: true }),
+    body('base_updated_at').optional().isISO8601()
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -106,16 +250,24 @@ router.patch('/:id/status', [
             return res.status(400).json({ errors: errors.array() });
         }
 
+        const current = await GroceryItem.findById(req.params.id, req.householdId);
+        if (current && isStale(current, req.body.base_updated_at)) {
+            return res.status(409).json({ error: 'Item was changed on another device', item: current });
+        }
+
         const item = await GroceryItem.updateStatus(
             req.params.id, 
-            req.userId, 
-            req.body.status
+            req.householdId, 
+            req.body.status,
+            req.body.unit_price,
+            req.body.best_before
         );
         
         if (!item) {
             return res.status(404).json({ error: 'Item not found' });
         }
 
+        await operationService.record(req.householdId, req.userId, 'status', [{ before: current, after: item }]);
         res.json(item);
     } catch (error) {
         console.error('Error updating status:', error);
@@ -124,16 +276,26 @@ router.patch('/:id/status', [
 });
 
 // Delete item
-router.delete('/:id', [
-    param('id').isInt()
+router.delete('/:id', canEdit, [
+    param('id').isInt(),
+    query('base_updated_at').optional().isISO8601()
 ], async (req, res) => {
     try {
-        const item = await GroceryItem.findById(req.params.id, req.userId);
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const item = await GroceryItem.findById(req.params.id, req.householdId);
         if (!item) {
             return res.status(404).json({ error: 'Item not found' });
         }
+        if (isStale(item, req.query.base_updated_at)) {
+            return res.status(409).json({ error: 'Item was changed on another device', item });
+        }
 
         await item.delete();
+        await operationService.record(req.householdId, req.userId, 'delete', [{ before: item, after: null }]);
         res.json({ message: 'Item deleted' });
     } catch (error) {
         console.error('Error deleting grocery:', error);
@@ -142,9 +304,12 @@ router.delete('/:id', [
 });
 
 // Cancel batch
-router.delete('/batch/:batchId', async (req, res) => {
+router.delete('/batch/:batchId', canEdit, async (req, res) => {
     try {
-        const count = await GroceryItem.deleteBatch(req.userId, req.params.batchId);
+        const items = await GroceryItem.findByBatchId(req.householdId, req.params.batchId);
+        const count = await GroceryItem.deleteBatch(req.householdId, req.params.batchId);
+        await operationService.record(req.householdId, req.userId, 'delete_batch',
+            items.map(item => ({ before: item, after: null })));
         res.json({ message: `Deleted ${count} items` });
     } catch (error) {
         console.error('Error deleting batch:', error);
@@ -153,9 +318,16 @@ router.delete('/batch/:batchId', async (req, res) => {
 });
 
 // Complete shopping (move found items to history)
-router.post('/complete-shopping', async (req, res) => {
+router.post('/complete-shopping', [
+    body('store_id').optional({ nullable: true }).isInt().toInt()
+], async (req, res) => {
     try {
-        const result = await groceryService.completeShoppingSession(req.userId);
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const result = await groceryService.completeShoppingSession(req.householdId, req.body.store_id, req.userId);
         res.json(result);
     } catch (error) {
         console.error('Error completing shopping:', error);
@@ -164,9 +336,12 @@ router.post('/complete-shopping', async (req, res) => {
 });
 
 // Clear found items
-router.delete('/status/found', async (req, res) => {
+router.delete('/status/found', canEdit, async (req, res) => {
     try {
-        const count = await GroceryItem.deleteByStatus(req.userId, 'found');
+        const items = await GroceryItem.findByStatus(req.householdId, 'found');
+        const count = await GroceryItem.deleteByStatus(req.householdId, 'found');
+        await operationService.record(req.householdId, req.userId, 'clear_found',
+            items.map(item => ({ before: item, after: null })));
         res.json({ message: `Cleared ${count} found items` });
     } catch (error) {
         console.error('Error clearing found items:', error);
@@ -177,12 +352,15 @@ router.delete('/status/found', async (req, res) => {
 // Reset all selected to pending
 router.post('/reset-selection', async (req, res) => {
     try {
-        const items = await GroceryItem.findByStatus(req.userId, 'selected');
+        const items = await GroceryItem.findByStatus(req.householdId, 'selected');
         let count = 0;
+        const changes = [];
         for (const item of items) {
-            await GroceryItem.updateStatus(item.id, req.userId, 'pending');
+            const updated = await GroceryItem.updateStatus(item.id, req.householdId, 'pending');
+            changes.push({ before: item, after: updated });
             count++;
         }
+        await operationService.record(req.householdId, req.userId, 'reset_selection', changes);
         res.json({ message: `Reset ${count} items to pending` });
     } catch (error) {
         console.error('Error resetting selection:', error);
@@ -3,12 +3,20 @@ const { param, query, validationResult } = require('express-validator');
 const GroceryHistory = require('../models/GroceryHistory');
 const GroceryItem = require('../models/GroceryItem');
 const Product = require('../models/Product');
+const groceryService = require('../services/groceryService');
+const operationService = require('../services/operationService');
 const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
 
 const router = express.Router();
 
-// All routes require authentication
+// All routes require authentication and household membership
 router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Restoring puts items back on the list, so it needs an owner or editor
+const canEdit = requireRole('owner', 'editor');
 
 // Get history
 router.get('/', [
@@ -25,9 +33,9 @@ router.get('/', [
         let history;
 
         if (req.query.status) {
-            history = await GroceryHistory.findByStatus(req.userId, req.query.status, limit);
+            history = await GroceryHistory.findByStatus(req.householdId, req.query.status, limit);
         } else {
-            history = await GroceryHistory.findAllByUser(req.userId, limit);
+            history = await GroceryHistory.findAllByHousehold(req.householdId, limit);
         }
 
         res.json(history);
@@ -43,7 +51,7 @@ router.get('/sessions', [
 ], async (req, res) => {
     try {
         const limit = parseInt(req.query.limit) || 20;
-        const sessions = await GroceryHistory.getSessions(req.userId, limit);
+        const sessions = await GroceryHistory.getSessions(req.householdId, limit);
         res.json(sessions);
     } catch (error) {
         console.error('Error fetching sessions:', error);
@@ -54,7 +62,7 @@ router.get('/sessions', [
 // Get items from a specific session
 router.get('/sessions/:sessionId', async (req, res) => {
     try {
-        const items = await GroceryHistory.findBySession(req.userId, req.params.sessionId);
+        const items = await GroceryHistory.findBySession(req.householdId, req.params.sessionId);
         res.json(items);
     } catch (error) {
         console.error('Error fetching session:', error);
@@ -63,7 +71,7 @@ router.get('/sessions/:sessionId', async (req, res) => {
 });
 
 // Restore item from history to active list
-router.post('/:id/restore', [
+router.post('/:id/restore', canEdit, [
     param('id').isInt()
 ], async (req, res) => {
     try {
@@ -73,7 +81,7 @@ router.post('/:id/restore', [
         }
 
         // Find history item
-        const historyItem = await GroceryHistory.findById(req.params.id, req.userId);
+        const historyItem = await GroceryHistory.findById(req.params.id, req.householdId);
         
         if (!historyItem) {
             return res.status(404).json({ error: 'History item not found' });
@@ -96,25 +104,30 @@ router.post('/:id/restore', [
         }
 
         // Check if already in active list
-        const existing = await GroceryItem.findByProduct(req.userId, productId);
+        const existing = await GroceryItem.findByProduct(req.householdId, productId);
         if (existing) {
             // Update quantity
-            existing.quantity += historyItem.quantity;
+            const before = operationService.snapshot(existing);
+            groceryService.mergeQuantity(existing, historyItem.quantity, historyItem.unit);
             await existing.save();
-            const updated = await GroceryItem.findById(existing.id, req.userId);
+            const updated = await GroceryItem.findById(existing.id, req.householdId);
+            await operationService.record(req.householdId, req.userId, 'add', [{ before, after: updated }]);
             return res.json(updated);
         }
 
         // Create new grocery item
         const newItem = new GroceryItem({
+            household_id: req.householdId,
             user_id: req.userId,
             product_id: productId,
             quantity: historyItem.quantity,
+            unit: historyItem.unit,
             status: 'pending'
         });
 
         const savedItem = await newItem.save();
-        const fullItem = await GroceryItem.findById(savedItem.id, req.userId);
+        const fullItem = await GroceryItem.findById(savedItem.id, req.householdId);
+        await operationService.record(req.householdId, req.userId, 'add', [{ before: null, after: fullItem }]);
         res.json(fullItem);
     } catch (error) {
         console.error('Error restoring item:', error);
@@ -123,9 +136,9 @@ router.post('/:id/restore', [
 });
 
 // Clear all history
-router.delete('/', async (req, res) => {
+router.delete('/', requireRole('owner'), async (req, res) => {
     try {
-        const count = await GroceryHistory.clearAll(req.userId);
+        const count = await GroceryHistory.clearAll(req.householdId);
         res.json({ message: `Cleared ${count} history items` });
     } catch (error) {
         console.error('Error clearing history:', error);
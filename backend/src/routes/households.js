@@ -0,0 +1,209 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Household = require('../models/Household');
+const authMiddleware = require('../middleware/auth');
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Owner-only guard for routes addressed by household id
+const requireOwner = async (req, res, next) => {
+    try {
+        const householdId = parseInt(req.params.id);
+        const role = isNaN(householdId) ? null : await Household.getRole(householdId, req.userId);
+        if (!role) {
+            return res.status(404).json({ error: 'Household not found' });
+        }
+        if (role !== 'owner') {
+            return res.status(403).json({ error: 'Only owners can manage this household' });
+        }
+        next();
+    } catch (error) {
+        console.error('Error checking household role:', error);
+        res.status(500).json({ error: 'Failed to check household role' });
+    }
+};
+
+// Get households of the current user
+router.get('/', async (req, res) => {
+    try {
+        const households = await Household.findAllByUser(req.userId);
+        res.json(households);
+    } catch (error) {
+        console.error('Error fetching households:', error);
+        res.status(500).json({ error: 'Failed to fetch households' });
+    }
+});
+
+// Create household (current user becomes its owner)
+router.post('/', [
+    body('name').trim().isLength({ min: 1, max: 100 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const household = await Household.create(req.body.name, req.userId);
+        res.status(201).json(household);
+    } catch (error) {
+        console.error('Error creating household:', error);
+        res.status(500).json({ error: 'Failed to create household' });
+    }
+});
+
+// Get household members
+router.get('/:id/members', [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const isMember = await Household.isMember(req.params.id, req.userId);
+        if (!isMember) {
+            return res.status(404).json({ error: 'Household not found' });
+        }
+
+        const members = await Household.getMembers(req.params.id);
+        res.json(members);
+    } catch (error) {
+        console.error('Error fetching household members:', error);
+        res.status(500).json({ error: 'Failed to fetch members' });
+    }
+});
+
+// Rename household
+router.put('/:id', requireOwner, [
+    body('name').trim().isLength({ min: 1, max: 100 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const household = await Household.findById(req.params.id);
+        household.name = req.body.name;
+        const updated = await household.save();
+        updated.role = 'owner';
+        res.json(updated);
+    } catch (error) {
+        console.error('Error updating household:', error);
+        res.status(500).json({ error: 'Failed to update household' });
+    }
+});
+
+// Create invite link (owners only)
+router.post('/:id/invites', requireOwner, [
+    body('role').isIn(Household.ROLES)
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { token, expiresAt } = await Household.createInvite(req.params.id, req.userId, req.body.role);
+
+        // Build join URL (frontend URL)
+        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+        const joinUrl = `${frontendUrl}/join?token=${token}`;
+
+        res.status(201).json({
+            message: 'Invite created',
+            joinUrl,
+            role: req.body.role,
+            expiresAt: expiresAt.toISOString()
+        });
+    } catch (error) {
+        console.error('Error creating invite:', error);
+        res.status(500).json({ error: 'Failed to create invite' });
+    }
+});
+
+// Leave household
+router.delete('/:id/members/me', [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const role = await Household.getRole(req.params.id, req.userId);
+        if (!role) {
+            return res.status(404).json({ error: 'Household not found' });
+        }
+        if (role === 'owner' && await Household.countOwners(req.params.id) === 1) {
+            return res.status(400).json({ error: 'Make another member owner before leaving' });
+        }
+
+        await Household.removeMember(req.params.id, req.userId);
+        res.json({ message: 'Left household' });
+    } catch (error) {
+        console.error('Error leaving household:', error);
+        res.status(500).json({ error: 'Failed to leave household' });
+    }
+});
+
+// Change a member's role (owners only)
+router.put('/:id/members/:userId', requireOwner, [
+    param('userId').isInt(),
+    body('role').isIn(Household.ROLES)
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const currentRole = await Household.getRole(req.params.id, req.params.userId);
+        if (!currentRole) {
+            return res.status(404).json({ error: 'Member not found' });
+        }
+        if (currentRole === 'owner' && req.body.role !== 'owner' && await Household.countOwners(req.params.id) === 1) {
+            return res.status(400).json({ error: 'A household needs at least one owner' });
+        }
+
+        await Household.updateMemberRole(req.params.id, req.params.userId, req.body.role);
+        const members = await Household.getMembers(req.params.id);
+        res.json(members);
+    } catch (error) {
+        console.error('Error updating member role:', error);
+        res.status(500).json({ error: 'Failed to update member role' });
+    }
+});
+
+// Remove a member (owners only)
+router.delete('/:id/members/:userId', requireOwner, [
+    param('userId').isInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        if (parseInt(req.params.userId) === req.userId) {
+            return res.status(400).json({ error: 'Use leave to remove yourself' });
+        }
+
+        const removed = await Household.removeMember(req.params.id, req.params.userId);
+        if (!removed) {
+            return res.status(404).json({ error: 'Member not found' });
+        }
+        res.json({ message: 'Member removed' });
+    } catch (error) {
+        console.error('Error removing member:', error);
+        res.status(500).json({ error: 'Failed to remove member' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,102 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const insightsService = require('../services/insightsService');
+const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+
+const router = express.Router();
+
+// All routes require authentication and household membership
+router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Every aggregate can be limited to a date range (YYYY-MM-DD, both inclusive)
+const rangeValidators = [
+    query('from').optional().isISO8601({ strict: true }),
+    query('to').optional().isISO8601({ strict: true })
+];
+
+function readRange(req) {
+    return {
+        from: req.query.from || null,
+        to: req.query.to || null
+    };
+}
+
+// Most-bought products with purchase frequency and not-found rate
+router.get('/products', [
+    ...rangeValidators,
+    query('limit').optional().isInt({ min: 1, max: 200 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const products = await insightsService.getProductStats(req.householdId, {
+            ...readRange(req),
+            limit: parseInt(req.query.limit) || 50
+        });
+        res.json(products);
+    } catch (error) {
+        console.error('Error fetching product insights:', error);
+        res.status(500).json({ error: 'Failed to fetch product insights' });
+    }
+});
+
+// Bought / not-found counts per category
+router.get('/categories', rangeValidators, async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const categories = await insightsService.getCategoryStats(req.householdId, readRange(req));
+        res.json(categories);
+    } catch (error) {
+        console.error('Error fetching category insights:', error);
+        res.status(500).json({ error: 'Failed to fetch category insights' });
+    }
+});
+
+// Shopping trips per week
+router.get('/weeks', rangeValidators, async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const weeks = await insightsService.getWeeklySessions(req.householdId, readRange(req));
+        res.json(weeks);
+    } catch (error) {
+        console.error('Error fetching weekly insights:', error);
+        res.status(500).json({ error: 'Failed to fetch weekly insights' });
+    }
+});
+
+// What was bought per category over time
+router.get('/category-mix', [
+    ...rangeValidators,
+    query('interval').optional().isIn(['week', 'month'])
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const periods = await insightsService.getCategoryMix(req.householdId, {
+            ...readRange(req),
+            interval: req.query.interval || 'month'
+        });
+        res.json(periods);
+    } catch (error) {
+        console.error('Error fetching category mix:', error);
+        res.status(500).json({ error: 'Failed to fetch category mix' });
+    }
+});
+
+module.exports = router;
@@ -1,17 +1,42 @@
 const express = require('express');
 const { body, param, validationResult } = require('express-validator');
 const Meal = require('../models/Meal');
+const GroceryItem = require('../models/GroceryItem');
+const recipeService = require('../services/recipeService');
 const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
 
 const router = express.Router();
 
-// All routes require authentication
+// All routes require authentication and household membership
 router.use(authMiddleware);
+router.use(householdMiddleware);
 
-// Get all meals for the user
+// Shoppers can browse meals but only owners and editors change them
+const canEdit = requireRole('owner', 'editor');
+
+// Ingredients come as items [{ product_id, quantity, unit }] (quantity may be
+// null for "to taste"); the older product_ids list is still accepted.
+const mealValidators = [
+    body('name').trim().isLength({ min: 1, max: 255 }),
+    body('servings').optional().isInt({ min: 1, max: 100 }).toInt(),
+    body('product_ids').optional().isArray(),
+    body('items').optional().isArray(),
+    body('items.*.product_id').isInt().toInt(),
+    body('items.*.quantity').optional({ nullable: true }).isFloat({ gt: 0, max: 99999 }).toFloat(),
+    body('items.*.unit').optional().isIn(GroceryItem.UNITS)
+];
+
+function readItems(body) {
+    if (body.items) return body.items;
+    return (body.product_ids || []).map(productId => ({ product_id: productId }));
+}
+
+// Get all meals of the household
 router.get('/', async (req, res) => {
     try {
-        const meals = await Meal.findAllByUser(req.user.id);
+        const meals = await Meal.findAllByHousehold(req.householdId);
         res.json(meals);
     } catch (error) {
         console.error('Error fetching meals:', error);
@@ -29,7 +54,7 @@ router.get('/:id', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const meal = await Meal.findById(req.params.id, req.user.id);
+        const meal = await Meal.findById(req.params.id, req.householdId);
         if (!meal) {
             return res.status(404).json({ error: 'Meal not found' });
         }
@@ -42,18 +67,15 @@ router.get('/:id', [
 });
 
 // Create meal
-router.post('/', [
-    body('name').trim().isLength({ min: 1, max: 255 }),
-    body('product_ids').optional().isArray()
-], async (req, res) => {
+router.post('/', canEdit, mealValidators, async (req, res) => {
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { name, product_ids = [] } = req.body;
-        const meal = await Meal.create(req.user.id, name, product_ids);
+        const { name, servings } = req.body;
+        const meal = await Meal.create(req.householdId, req.userId, name, readItems(req.body), servings);
         res.status(201).json(meal);
     } catch (error) {
         console.error('Error creating meal:', error);
@@ -61,11 +83,34 @@ router.post('/', [
     }
 });
 
+// Turn a pasted recipe (text or page HTML) into a meal draft to confirm.
+// Ingredients are matched like grocery lines; new ones may be learned from AI.
+router.post('/import', canEdit, [
+    body('text').isString().trim().isLength({ min: 1, max: 2000000 }),
+    body('fuzzy').optional().isBoolean()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { text, fuzzy = true } = req.body;
+        const draft = await recipeService.importRecipe(text, { fuzzy, householdId: req.householdId, userId: req.userId });
+        if (draft.ingredients.length === 0) {
+            return res.status(400).json({ error: 'No ingredients found in this recipe' });
+        }
+        res.json(draft);
+    } catch (error) {
+        console.error('Error importing recipe:', error);
+        res.status(500).json({ error: 'Failed to import recipe' });
+    }
+});
+
 // Update meal
-router.put('/:id', [
+router.put('/:id', canEdit, [
     param('id').isInt(),
-    body('name').trim().isLength({ min: 1, max: 255 }),
-    body('product_ids').optional().isArray()
+    ...mealValidators
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -73,8 +118,8 @@ router.put('/:id', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { name, product_ids = [] } = req.body;
-        const meal = await Meal.update(req.params.id, req.user.id, name, product_ids);
+        const { name, servings = null } = req.body;
+        const meal = await Meal.update(req.params.id, req.householdId, name, readItems(req.body), servings);
         res.json(meal);
     } catch (error) {
         if (error.message === 'Meal not found') {
@@ -86,11 +131,11 @@ router.put('/:id', [
 });
 
 // Delete meal
-router.delete('/:id', [
+router.delete('/:id', canEdit, [
     param('id').isInt()
 ], async (req, res) => {
     try {
-        const deleted = await Meal.delete(req.params.id, req.user.id);
+        const deleted = await Meal.delete(req.params.id, req.householdId);
         if (!deleted) {
             return res.status(404).json({ error: 'Meal not found' });
         }
@@ -2,12 +2,18 @@ const express = require('express');
 const { body, param, query, validationResult } = require('express-validator');
 const MenuPlan = require('../models/MenuPlan');
 const authMiddleware = require('../middleware/auth');
-const db = require('../config/database');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
+const menuService = require('../services/menuService');
 
 const router = express.Router();
 
-// All routes require authentication
+// All routes require authentication and household membership
 router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Planning the week is reserved to owners and editors
+const canEdit = requireRole('owner', 'editor');
 
 // Get week plan
 router.get('/', [
@@ -15,7 +21,7 @@ router.get('/', [
 ], async (req, res) => {
     try {
         const weekStart = req.query.week_start || MenuPlan.getWeekStart();
-        const plan = await MenuPlan.getWeekPlan(req.user.id, weekStart);
+        const plan = await MenuPlan.getWeekPlan(req.householdId, weekStart);
         res.json({ weekStart, plan });
     } catch (error) {
         console.error('Error fetching menu plan:', error);
@@ -29,7 +35,7 @@ router.get('/products', [
 ], async (req, res) => {
     try {
         const weekStart = req.query.week_start || MenuPlan.getWeekStart();
-        const products = await MenuPlan.getWeekProducts(req.user.id, weekStart);
+        const products = await MenuPlan.getWeekProducts(req.householdId, weekStart);
         res.json(products);
     } catch (error) {
         console.error('Error fetching week products:', error);
@@ -37,12 +43,31 @@ router.get('/products', [
     }
 });
 
+// What the week's meals need compared with what is already on the list
+router.get('/grocery-diff', [
+    query('week_start').optional().isISO8601()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const weekStart = req.query.week_start || MenuPlan.getWeekStart();
+        const lines = await menuService.getGroceryDiff(req.householdId, weekStart);
+        res.json({ weekStart, lines });
+    } catch (error) {
+        console.error('Error computing grocery diff:', error);
+        res.status(500).json({ error: 'Failed to compute grocery diff' });
+    }
+});
+
 // Get products for a specific meal
 router.get('/meal/:mealId/products', [
     param('mealId').isInt()
 ], async (req, res) => {
     try {
-        const products = await MenuPlan.getMealProducts(req.params.mealId);
+        const products = await MenuPlan.getMealProducts(req.householdId, req.params.mealId);
         res.json(products);
     } catch (error) {
         console.error('Error fetching meal products:', error);
@@ -51,11 +76,12 @@ router.get('/meal/:mealId/products', [
 });
 
 // Add meal to a day
-router.post('/day', [
+router.post('/day', canEdit, [
     body('week_start').isISO8601(),
     body('day_of_week').isInt({ min: 0, max: 6 }),
     body('meal_type').isIn(['lunch', 'dinner']),
-    body('meal_id').isInt()
+    body('meal_id').isInt(),
+    body('servings').optional({ nullable: true }).isInt({ min: 1, max: 100 }).toInt()
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -63,11 +89,11 @@ router.post('/day', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { week_start, day_of_week, meal_type, meal_id } = req.body;
-        const item = await MenuPlan.addMealToDay(req.user.id, week_start, day_of_week, meal_type, meal_id);
+        const { week_start, day_of_week, meal_type, meal_id, servings = null } = req.body;
+        await MenuPlan.addMealToDay(req.householdId, req.userId, week_start, day_of_week, meal_type, meal_id, servings);
         
         // Return updated plan for the day
-        const plan = await MenuPlan.getWeekPlan(req.user.id, week_start);
+        const plan = await MenuPlan.getWeekPlan(req.householdId, week_start);
         res.json({ weekStart: week_start, plan });
     } catch (error) {
         console.error('Error adding meal to day:', error);
@@ -76,11 +102,11 @@ router.post('/day', [
 });
 
 // Remove meal from a day
-router.delete('/item/:id', [
+router.delete('/item/:id', canEdit, [
     param('id').isInt()
 ], async (req, res) => {
     try {
-        const deleted = await MenuPlan.removeMealFromDay(req.user.id, req.params.id);
+        const deleted = await MenuPlan.removeMealFromDay(req.householdId, req.params.id);
         if (!deleted) {
             return res.status(404).json({ error: 'Item not found' });
         }
@@ -92,13 +118,13 @@ router.delete('/item/:id', [
 });
 
 // Clear all meals for a day
-router.delete('/day', [
+router.delete('/day', canEdit, [
     body('week_start').isISO8601(),
     body('day_of_week').isInt({ min: 0, max: 6 })
 ], async (req, res) => {
     try {
         const { week_start, day_of_week } = req.body;
-        await MenuPlan.clearDay(req.user.id, week_start, day_of_week);
+        await MenuPlan.clearDay(req.householdId, week_start, day_of_week);
         res.json({ message: 'Day cleared' });
     } catch (error) {
         console.error('Error clearing day:', error);
@@ -106,9 +132,13 @@ router.delete('/day', [
     }
 });
 
-// Add products to grocery list
-router.post('/add-to-groceries', [
-    body('product_ids').isArray({ min: 1 })
+// Add products to grocery list: the week's diff is applied to them, so missing
+// products are added and short ones increased (see /grocery-diff). Products
+// that aren't in the diff are skipped
+router.post('/add-to-groceries', canEdit, [
+    body('product_ids').isArray({ min: 1 }),
+    body('product_ids.*').isInt().toInt(),
+    body('week_start').isISO8601()
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -116,31 +146,11 @@ router.post('/add-to-groceries', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { product_ids } = req.body;
-        const batchId = `menu-${Date.now()}`;
-        let addedCount = 0;
-
-        for (const productId of product_ids) {
-            // Check if already in grocery list
-            const existing = await db.query(
-                'SELECT id FROM grocery_items WHERE user_id = $1 AND product_id = $2 AND status != $3',
-                [req.user.id, productId, 'found']
-            );
-
-            if (existing.rows.length === 0) {
-                await db.query(
-                    'INSERT INTO grocery_items (user_id, product_id, batch_id) VALUES ($1, $2, $3)',
-                    [req.user.id, productId, batchId]
-                );
-                addedCount++;
-            }
-        }
-
-        res.json({ 
-            message: `Added ${addedCount} products to grocery list`,
-            addedCount,
-            skippedCount: product_ids.length - addedCount,
-            batchId
+        const { product_ids, week_start } = req.body;
+        const result = await menuService.applyGroceryDiff(req.householdId, req.userId, week_start, product_ids);
+        res.json({
+            message: `Added ${result.addedCount} and increased ${result.increasedCount} products on the grocery list`,
+            ...result
         });
     } catch (error) {
         console.error('Error adding to groceries:', error);
@@ -149,7 +159,7 @@ router.post('/add-to-groceries', [
 });
 
 // Copy week plan
-router.post('/copy', [
+router.post('/copy', canEdit, [
     body('from_week_start').isISO8601(),
     body('to_week_start').isISO8601()
 ], async (req, res) => {
@@ -160,7 +170,7 @@ router.post('/copy', [
         }
 
         const { from_week_start, to_week_start } = req.body;
-        const copiedCount = await MenuPlan.copyWeek(req.user.id, from_week_start, to_week_start);
+        const copiedCount = await MenuPlan.copyWeek(req.householdId, from_week_start, to_week_start);
         res.json({ message: `Copied ${copiedCount} items`, copiedCount });
     } catch (error) {
         console.error('Error copying week:', error);
@@ -0,0 +1,165 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const PantryItem = require('../models/PantryItem');
+const GroceryItem = require('../models/GroceryItem');
+const Product = require('../models/Product');
+const pantryService = require('../services/pantryService');
+const productService = require('../services/productService');
+const expiryService = require('../services/expiryService');
+const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
+
+const router = express.Router();
+
+// All routes require authentication and household membership
+router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Shoppers can look at the pantry but only owners and editors change it
+const canEdit = requireRole('owner', 'editor');
+
+// Get the whole pantry
+router.get('/', async (req, res) => {
+    try {
+        const items = await PantryItem.findAllByHousehold(req.householdId);
+        res.json(items);
+    } catch (error) {
+        console.error('Error fetching pantry:', error);
+        res.status(500).json({ error: 'Failed to fetch pantry' });
+    }
+});
+
+// Items at or below their low level
+router.get('/running-low', async (req, res) => {
+    try {
+        const items = await PantryItem.findRunningLow(req.householdId);
+        res.json(items);
+    } catch (error) {
+        console.error('Error fetching running-low items:', error);
+        res.status(500).json({ error: 'Failed to fetch running-low items' });
+    }
+});
+
+// Stock past or near its best-before date, with saved meals that use it
+router.get('/use-soon', async (req, res) => {
+    try {
+        const useSoon = await expiryService.getUseSoon(req.householdId);
+        res.json(useSoon);
+    } catch (error) {
+        console.error('Error fetching use-soon items:', error);
+        res.status(500).json({ error: 'Failed to fetch use-soon items' });
+    }
+});
+
+// Add stock by hand (bought items are added when a trip is completed)
+router.post('/', canEdit, [
+    body('product_id').isInt().toInt(),
+    body('quantity').isFloat({ gt: 0, max: 99999 }).toFloat(),
+    body('unit').optional().isIn(GroceryItem.UNITS),
+    body('best_before').optional({ nullable: true }).isDate({ format: 'YYYY-MM-DD', strictMode: true })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { product_id, quantity, unit = 'piece' } = req.body;
+        const product = await Product.findById(product_id);
+        if (!product) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+
+        // Without a date the product's shelf life applies
+        const bestBefore = req.body.best_before !== undefined
+            ? req.body.best_before
+            : productService.defaultBestBefore(product);
+        const id = await pantryService.addStock(req.householdId, req.userId, {
+            productId: product_id,
+            quantity,
+            unit,
+            bestBefore
+        });
+        const item = await PantryItem.findById(id, req.householdId);
+        res.status(201).json(item);
+    } catch (error) {
+        console.error('Error adding to pantry:', error);
+        res.status(500).json({ error: 'Failed to add to pantry' });
+    }
+});
+
+// Use up or throw away an amount
+router.post('/:id/remove', canEdit, [
+    param('id').isInt(),
+    body('quantity').isFloat({ gt: 0, max: 99999 }).toFloat(),
+    body('unit').optional().isIn(GroceryItem.UNITS),
+    body('reason').isIn(['consumed', 'discarded'])
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { quantity, unit, reason } = req.body;
+        const item = await pantryService.removeStock(req.householdId, req.userId, req.params.id, { quantity, unit, reason });
+        if (!item) {
+            return res.status(404).json({ error: 'Pantry item not found' });
+        }
+        res.json(item);
+    } catch (error) {
+        if (error.message === 'Incompatible unit') {
+            return res.status(400).json({ error: 'This amount cannot be taken from the item in its unit' });
+        }
+        console.error('Error removing from pantry:', error);
+        res.status(500).json({ error: 'Failed to update pantry' });
+    }
+});
+
+// Correct the quantity, set the running-low level or the best-before date (null clears them)
+router.patch('/:id', canEdit, [
+    param('id').isInt(),
+    body('quantity').optional().isFloat({ min: 0, max: 99999 }).toFloat(),
+    body('low_quantity').optional({ nullable: true }).isFloat({ min: 0, max: 99999 }).toFloat(),
+    body('best_before').optional({ nullable: true }).isDate({ format: 'YYYY-MM-DD', strictMode: true })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const item = await pantryService.adjust(req.householdId, req.userId, req.params.id, {
+            quantity: req.body.quantity,
+            lowQuantity: req.body.low_quantity,
+            bestBefore: req.body.best_before
+        });
+        if (!item) {
+            return res.status(404).json({ error: 'Pantry item not found' });
+        }
+        res.json(item);
+    } catch (error) {
+        console.error('Error updating pantry item:', error);
+        res.status(500).json({ error: 'Failed to update pantry' });
+    }
+});
+
+// Stop tracking a product
+router.delete('/:id', canEdit, [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const deleted = await PantryItem.delete(req.params.id, req.householdId);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Pantry item not found' });
+        }
+        expiryService.forget(req.householdId);
+        res.json({ message: 'Pantry item deleted' });
+    } catch (error) {
+        console.error('Error deleting pantry item:', error);
+        res.status(500).json({ error: 'Failed to delete pantry item' });
+    }
+});
+
+module.exports = router;
@@ -2,14 +2,35 @@ const express = require('express');
 const { body, param, query, validationResult } = require('express-validator');
 const Product = require('../models/Product');
 const Category = require('../models/Category');
+const GroceryHistory = require('../models/GroceryHistory');
 const authMiddleware = require('../middleware/auth');
+const { requireAdmin } = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
 const aiService = require('../services/aiService');
 const spellService = require('../services/spellService');
+const productService = require('../services/productService');
+const { LANGUAGES } = require('../config/languages');
 
 const router = express.Router();
 
-// All routes require authentication
+// All routes require authentication and household membership
 router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// The catalog is browsable by everyone and shared by every household. Owners and
+// editors add products; changing or removing them, aliases and categories is left to
+// instance admins, since the role is checked in whichever household the caller picks
+const canEdit = requireRole('owner', 'editor');
+const canChangeCatalog = requireAdmin;
+
+// Names in other languages: { en: 'Apples', he: '' } (an empty name removes one)
+const validateNames = (max) => [
+    body('names').optional().isObject()
+        .custom(names => Object.keys(names).every(language => LANGUAGES.includes(language)))
+        .withMessage(`Languages must be one of ${LANGUAGES.join(', ')}`),
+    body('names.*').optional({ nullable: true }).isString().trim().isLength({ max })
+];
 
 // Spell check suggestions for product name
 router.get('/spell-suggest', [
@@ -53,10 +74,11 @@ router.get('/categories', async (req, res) => {
 });
 
 // Create category
-router.post('/categories', [
+router.post('/categories', canChangeCatalog, [
     body('name').trim().isLength({ min: 1 }),
     body('icon').optional().isLength({ max: 10 }),
-    body('sort_order').optional().isInt()
+    body('sort_order').optional().isInt(),
+    ...validateNames(100)
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -64,10 +86,11 @@ router.post('/categories', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { name, icon, sort_order } = req.body;
+        const { name, icon, sort_order, names } = req.body;
         const category = await Category.create(name, icon || '📦', sort_order || 50);
+        if (names) await category.setNames(names);
         aiService.clearCategoryCache(); // Clear AI cache on category change
-        res.status(201).json(category);
+        res.status(201).json({ ...category, names: await category.getNames() });
     } catch (error) {
         console.error('Error creating category:', error);
         res.status(500).json({ error: 'Failed to create category' });
@@ -75,11 +98,13 @@ router.post('/categories', [
 });
 
 // Update category
-router.put('/categories/:id', [
+router.put('/categories/:id', canChangeCatalog, [
     param('id').isInt(),
     body('name').optional().trim().isLength({ min: 1 }),
     body('icon').optional().isLength({ max: 10 }),
-    body('sort_order').optional().isInt()
+    body('sort_order').optional().isInt(),
+    body('shelf_life_days').optional({ nullable: true }).isInt({ min: 1, max: 3650 }).toInt(),
+    ...validateNames(100)
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -95,10 +120,12 @@ router.put('/categories/:id', [
         if (req.body.name) category.name = req.body.name;
         if (req.body.icon) category.icon = req.body.icon;
         if (req.body.sort_order !== undefined) category.sort_order = req.body.sort_order;
+        if (req.body.shelf_life_days !== undefined) category.shelf_life_days = req.body.shelf_life_days;
 
         const updated = await category.save();
+        if (req.body.names) await updated.setNames(req.body.names);
         aiService.clearCategoryCache(); // Clear AI cache on category change
-        res.json(updated);
+        res.json({ ...updated, names: await updated.getNames() });
     } catch (error) {
         console.error('Error updating category:', error);
         res.status(500).json({ error: 'Failed to update category' });
@@ -106,7 +133,7 @@ router.put('/categories/:id', [
 });
 
 // Delete category
-router.delete('/categories/:id', [
+router.delete('/categories/:id', canChangeCatalog, [
     param('id').isInt()
 ], async (req, res) => {
     try {
@@ -155,6 +182,17 @@ router.get('/', [
     }
 });
 
+// Probable duplicates in the catalog, for the merge tool
+router.get('/duplicates', async (req, res) => {
+    try {
+        const groups = await productService.findDuplicates();
+        res.json(groups);
+    } catch (error) {
+        console.error('Error finding duplicate products:', error);
+        res.status(500).json({ error: 'Failed to find duplicate products' });
+    }
+});
+
 // Get single product with aliases
 router.get('/:id', [
     param('id').isInt()
@@ -165,19 +203,39 @@ router.get('/:id', [
             return res.status(404).json({ error: 'Product not found' });
         }
 
-        const aliases = await product.getAliases();
-        res.json({ ...product, aliases });
+        const [aliases, names] = await Promise.all([product.getAliases(), product.getNames()]);
+        res.json({ ...product, aliases, names });
     } catch (error) {
         console.error('Error fetching product:', error);
         res.status(500).json({ error: 'Failed to fetch product' });
     }
 });
 
+// Prices the household paid for a product, per store
+router.get('/:id/prices', [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const prices = await GroceryHistory.getPriceHistory(req.householdId, req.params.id);
+        res.json(prices);
+    } catch (error) {
+        console.error('Error fetching price history:', error);
+        res.status(500).json({ error: 'Failed to fetch price history' });
+    }
+});
+
 // Create product
-router.post('/', [
+router.post('/', canEdit, [
     body('name').trim().isLength({ min: 1 }),
     body('category_id').isInt(),
-    body('aliases').optional().isArray()
+    body('aliases').optional().isArray(),
+    body('shelf_life_days').optional({ nullable: true }).isInt({ min: 1, max: 3650 }).toInt(),
+    ...validateNames(255)
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -185,15 +243,15 @@ router.post('/', [
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { name, category_id, aliases } = req.body;
+        const { name, category_id, aliases, shelf_life_days, names } = req.body;
         
-        // Check if product exists
+        // Check if product exists (under this name in any language)
         const existing = await Product.findByName(name);
         if (existing) {
             return res.status(400).json({ error: 'Product already exists' });
         }
 
-        const product = await Product.create(name, category_id);
+        const product = await Product.create(name, category_id, shelf_life_days ?? null);
         
         // Add aliases
         if (aliases && aliases.length > 0) {
@@ -201,9 +259,10 @@ router.post('/', [
                 await product.addAlias(alias);
             }
         }
+        if (names) await product.setNames(names);
 
-        const resultAliases = await product.getAliases();
-        res.status(201).json({ ...product, aliases: resultAliases });
+        const [resultAliases, resultNames] = await Promise.all([product.getAliases(), product.getNames()]);
+        res.status(201).json({ ...product, aliases: resultAliases, names: resultNames });
     } catch (error) {
         console.error('Error creating product:', error);
         res.status(500).json({ error: 'Failed to create product' });
@@ -211,10 +270,12 @@ router.post('/', [
 });
 
 // Update product
-router.put('/:id', [
+router.put('/:id', canChangeCatalog, [
     param('id').isInt(),
     body('name').optional().trim().isLength({ min: 1 }),
-    body('category_id').optional().isInt()
+    body('category_id').optional().isInt(),
+    body('shelf_life_days').optional({ nullable: true }).isInt({ min: 1, max: 3650 }).toInt(),
+    ...validateNames(255)
 ], async (req, res) => {
     try {
         const errors = validationResult(req);
@@ -229,12 +290,14 @@ router.put('/:id', [
 
         if (req.body.name) product.name = req.body.name;
         if (req.body.category_id) product.category_id = req.body.category_id;
+        if (req.body.shelf_life_days !== undefined) product.shelf_life_days = req.body.shelf_life_days;
 
         const updated = await product.save();
+        if (req.body.names) await updated.setNames(req.body.names);
         const fullProduct = await Product.findById(updated.id);
-        const aliases = await fullProduct.getAliases();
+        const [aliases, names] = await Promise.all([fullProduct.getAliases(), fullProduct.getNames()]);
         
-        res.json({ ...fullProduct, aliases });
+        res.json({ ...fullProduct, aliases, names });
     } catch (error) {
         console.error('Error updating product:', error);
         res.status(500).json({ error: 'Failed to update product' });
@@ -242,7 +305,7 @@ router.put('/:id', [
 });
 
 // Delete product
-router.delete('/:id', [
+router.delete('/:id', canChangeCatalog, [
     param('id').isInt()
 ], async (req, res) => {
     try {
@@ -259,8 +322,39 @@ router.delete('/:id', [
     }
 });
 
+// Merge products into this one (their list items, history, meals and names
+// move to it and they are deleted)
+router.post('/:id/merge', canChangeCatalog, [
+    param('id').isInt().toInt(),
+    body('source_ids').isArray({ min: 1, max: 50 }),
+    body('source_ids.*').isInt().toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const sourceIds = [...new Set(req.body.source_ids)];
+        if (sourceIds.includes(req.params.id)) {
+            return res.status(400).json({ error: 'A product cannot be merged into itself' });
+        }
+
+        const product = await productService.mergeProducts(req.params.id, sourceIds);
+        if (!product) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+
+        const aliases = await product.getAliases();
+        res.json({ ...product, aliases });
+    } catch (error) {
+        console.error('Error merging products:', error);
+        res.status(500).json({ error: 'Failed to merge products' });
+    }
+});
+
 // Fix product spelling using AI
-router.post('/:id/fix-spelling', [
+router.post('/:id/fix-spelling', canChangeCatalog, [
     param('id').isInt()
 ], async (req, res) => {
     try {
@@ -300,7 +394,7 @@ router.post('/:id/fix-spelling', [
 });
 
 // Add alias to product
-router.post('/:id/aliases', [
+router.post('/:id/aliases', canChangeCatalog, [
     param('id').isInt(),
     body('alias').trim().isLength({ min: 1 })
 ], async (req, res) => {
@@ -325,7 +419,7 @@ router.post('/:id/aliases', [
 });
 
 // Remove alias from product
-router.delete('/:id/aliases/:alias', [
+router.delete('/:id/aliases/:alias', canChangeCatalog, [
     param('id').isInt()
 ], async (req, res) => {
     try {
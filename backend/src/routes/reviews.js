@@ -0,0 +1,107 @@
+const express = require('express');
+const { body, param, query, validationResult } = require('express-validator');
+const AiReview = require('../models/AiReview');
+const reviewService = require('../services/reviewService');
+const authMiddleware = require('../middleware/auth');
+const { requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Reviews come from every household and change the shared catalog: instance admins only
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+// Errors thrown by reviewService, as HTTP statuses
+const REVIEW_ERRORS = {
+    'Review not found': 404,
+    'Product not found': 404,
+    'Category not found': 400,
+    'Already reviewed': 400,
+    'Product already exists': 400,
+    'Alias already exists': 400,
+    'Category already exists': 400,
+    'Cannot merge into itself': 400,
+    'Product in use': 400
+};
+
+// AI-learned catalog changes (pending by default), newest first
+router.get('/', [
+    query('status').optional().isIn(AiReview.STATUSES),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const reviews = await reviewService.getReviews(req.query.status || 'pending', req.query.limit || 100);
+        res.json(reviews);
+    } catch (error) {
+        console.error('Error fetching AI reviews:', error);
+        res.status(500).json({ error: 'Failed to fetch AI reviews' });
+    }
+});
+
+// How many changes are waiting for review
+router.get('/count', async (req, res) => {
+    try {
+        const pending = await reviewService.countPending();
+        res.json({ pending });
+    } catch (error) {
+        console.error('Error counting AI reviews:', error);
+        res.status(500).json({ error: 'Failed to count AI reviews' });
+    }
+});
+
+// Keep a change, with corrections if given
+router.post('/:id/approve', [
+    param('id').isInt().toInt(),
+    body('name').optional().trim().isLength({ min: 1, max: 255 }),
+    body('category_id').optional().isInt().toInt(),
+    body('alias').optional().trim().isLength({ min: 1, max: 255 }),
+    body('icon').optional().trim().isLength({ min: 1, max: 10 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { name, category_id, alias, icon } = req.body;
+        const review = await reviewService.approve(req.params.id, req.userId, { name, category_id, alias, icon });
+        res.json(review);
+    } catch (error) {
+        if (REVIEW_ERRORS[error.message]) {
+            return res.status(REVIEW_ERRORS[error.message]).json({ error: error.message });
+        }
+        console.error('Error approving AI review:', error);
+        res.status(500).json({ error: 'Failed to approve change' });
+    }
+});
+
+// Undo a change (a learned product can be merged into an existing one instead of deleted)
+router.post('/:id/reject', [
+    param('id').isInt().toInt(),
+    body('merge_into_id').optional({ nullable: true }).isInt().toInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const review = await reviewService.reject(req.params.id, req.userId, {
+            mergeIntoId: req.body.merge_into_id ?? null
+        });
+        res.json(review);
+    } catch (error) {
+        if (REVIEW_ERRORS[error.message]) {
+            return res.status(REVIEW_ERRORS[error.message]).json({ error: error.message });
+        }
+        console.error('Error rejecting AI review:', error);
+        res.status(500).json({ error: 'Failed to reject change' });
+    }
+});
+
+module.exports = router;
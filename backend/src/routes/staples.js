@@ -0,0 +1,160 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Staple = require('../models/Staple');
+const GroceryItem = require('../models/GroceryItem');
+const Product = require('../models/Product');
+const stapleService = require('../services/stapleService');
+const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
+
+const router = express.Router();
+
+// All routes require authentication and household membership
+router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Staples change the list on their own, so only owners and editors set them up
+const canEdit = requireRole('owner', 'editor');
+
+// Amount and schedule (all optional on update, checked together by scheduleError)
+const stapleValidators = [
+    body('quantity').optional().isFloat({ gt: 0, max: 99999 }).toFloat(),
+    body('unit').optional().isIn(GroceryItem.UNITS),
+    body('rule').optional().isIn(Staple.RULES),
+    body('interval_days').optional({ nullable: true }).isInt({ min: 1, max: 365 }).toInt(),
+    body('weekdays').optional().isArray({ max: 7 }),
+    body('weekdays.*').isInt({ min: 0, max: 6 }).toInt(),
+    body('active').optional().isBoolean().toBoolean()
+];
+
+// A rule needs its own setting: days for 'interval' and 'since_bought', days of the week for 'weekdays'
+function scheduleError({ rule, intervalDays, weekdays }) {
+    if (!rule) return 'A rule is required';
+    if (rule === 'weekdays' && weekdays.length === 0) return 'Pick at least one day of the week';
+    if (rule !== 'weekdays' && !intervalDays) return 'A number of days is required';
+    return null;
+}
+
+// Get all staples, with `due` when they would be added today
+router.get('/', async (req, res) => {
+    try {
+        const staples = await stapleService.getStaples(req.householdId);
+        res.json(staples);
+    } catch (error) {
+        console.error('Error fetching staples:', error);
+        res.status(500).json({ error: 'Failed to fetch staples' });
+    }
+});
+
+// Create staple
+router.post('/', canEdit, [
+    body('product_id').isInt().toInt(),
+    ...stapleValidators
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { product_id, quantity = 1, unit = 'piece', rule } = req.body;
+        const schedule = {
+            rule,
+            intervalDays: rule === 'weekdays' ? null : req.body.interval_days,
+            weekdays: rule === 'weekdays' ? [...new Set(req.body.weekdays || [])].sort((a, b) => a - b) : []
+        };
+        const invalid = scheduleError(schedule);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const product = await Product.findById(product_id);
+        if (!product) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+        if (await Staple.findByProduct(req.householdId, product_id)) {
+            return res.status(400).json({ error: 'This product is already a staple' });
+        }
+
+        const staple = await Staple.create(req.householdId, req.userId, {
+            productId: product_id,
+            quantity,
+            unit,
+            ...schedule
+        });
+        res.status(201).json(staple);
+    } catch (error) {
+        console.error('Error creating staple:', error);
+        res.status(500).json({ error: 'Failed to create staple' });
+    }
+});
+
+// Put the staples that are due on the list now instead of waiting for the daily run
+router.post('/run', canEdit, async (req, res) => {
+    try {
+        const [result] = await stapleService.addDueStaples(req.householdId);
+        res.json(result || { batchId: null, addedCount: 0, skippedCount: 0 });
+    } catch (error) {
+        console.error('Error adding due staples:', error);
+        res.status(500).json({ error: 'Failed to add staples' });
+    }
+});
+
+// Update amount, schedule or pause it (fields left out keep their value)
+router.put('/:id', canEdit, [
+    param('id').isInt(),
+    ...stapleValidators
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const staple = await Staple.findById(req.params.id, req.householdId);
+        if (!staple) {
+            return res.status(404).json({ error: 'Staple not found' });
+        }
+
+        const rule = req.body.rule ?? staple.rule;
+        const schedule = {
+            rule,
+            intervalDays: rule === 'weekdays' ? null : (req.body.interval_days ?? staple.interval_days),
+            weekdays: rule === 'weekdays' ? [...new Set(req.body.weekdays ?? staple.weekdays)].sort((a, b) => a - b) : []
+        };
+        const invalid = scheduleError(schedule);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const updated = await Staple.update(staple.id, req.householdId, {
+            quantity: req.body.quantity ?? staple.quantity,
+            unit: req.body.unit ?? staple.unit,
+            active: req.body.active ?? staple.active,
+            ...schedule
+        });
+        res.json(updated);
+    } catch (error) {
+        console.error('Error updating staple:', error);
+        res.status(500).json({ error: 'Failed to update staple' });
+    }
+});
+
+// Delete staple
+router.delete('/:id', canEdit, [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const deleted = await Staple.delete(req.params.id, req.householdId);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Staple not found' });
+        }
+        res.json({ message: 'Staple deleted' });
+    } catch (error) {
+        console.error('Error deleting staple:', error);
+        res.status(500).json({ error: 'Failed to delete staple' });
+    }
+});
+
+module.exports = router;
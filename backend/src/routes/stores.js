@@ -0,0 +1,114 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Store = require('../models/Store');
+const authMiddleware = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
+
+const router = express.Router();
+
+// All routes require authentication and household membership
+router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Shoppers pick a store but only owners and editors change layouts
+const canEdit = requireRole('owner', 'editor');
+
+// Get all stores of the household
+router.get('/', async (req, res) => {
+    try {
+        const stores = await Store.findAllByHousehold(req.householdId);
+        res.json(stores);
+    } catch (error) {
+        console.error('Error fetching stores:', error);
+        res.status(500).json({ error: 'Failed to fetch stores' });
+    }
+});
+
+// Get single store with its layout
+router.get('/:id', [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const store = await Store.findById(req.params.id, req.householdId);
+        if (!store) {
+            return res.status(404).json({ error: 'Store not found' });
+        }
+
+        res.json(store);
+    } catch (error) {
+        console.error('Error fetching store:', error);
+        res.status(500).json({ error: 'Failed to fetch store' });
+    }
+});
+
+// Create store
+router.post('/', canEdit, [
+    body('name').trim().isLength({ min: 1, max: 255 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const store = await Store.create(req.householdId, req.body.name);
+        res.status(201).json(await Store.findById(store.id, req.householdId));
+    } catch (error) {
+        console.error('Error creating store:', error);
+        res.status(500).json({ error: 'Failed to create store' });
+    }
+});
+
+// Update store name and/or layout (categories in walking order, product overrides)
+router.put('/:id', canEdit, [
+    param('id').isInt(),
+    body('name').optional().trim().isLength({ min: 1, max: 255 }),
+    body('categories').optional().isArray(),
+    body('categories.*.category_id').isInt(),
+    body('categories.*.aisle').optional({ nullable: true }).trim().isLength({ max: 50 }),
+    body('products').optional().isArray(),
+    body('products.*.product_id').isInt(),
+    body('products.*.category_id').optional({ nullable: true }).isInt(),
+    body('products.*.aisle').optional({ nullable: true }).trim().isLength({ max: 50 })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { name, categories, products } = req.body;
+        const store = await Store.update(req.params.id, req.householdId, { name, categories, products });
+        if (!store) {
+            return res.status(404).json({ error: 'Store not found' });
+        }
+        res.json(store);
+    } catch (error) {
+        console.error('Error updating store:', error);
+        res.status(500).json({ error: 'Failed to update store' });
+    }
+});
+
+// Delete store
+router.delete('/:id', canEdit, [
+    param('id').isInt()
+], async (req, res) => {
+    try {
+        const deleted = await Store.delete(req.params.id, req.householdId);
+        if (!deleted) {
+            return res.status(404).json({ error: 'Store not found' });
+        }
+        res.json({ message: 'Store deleted' });
+    } catch (error) {
+        console.error('Error deleting store:', error);
+        res.status(500).json({ error: 'Failed to delete store' });
+    }
+});
+
+module.exports = router;
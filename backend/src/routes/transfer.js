@@ -0,0 +1,77 @@
+const express = require('express');
+const { body, param, query, validationResult } = require('express-validator');
+const transferService = require('../services/transferService');
+const authMiddleware = require('../middleware/auth');
+const { requireAdmin } = require('../middleware/auth');
+const householdMiddleware = require('../middleware/household');
+const { requireRole } = require('../middleware/household');
+
+const router = express.Router();
+
+// All routes require authentication and household membership
+router.use(authMiddleware);
+router.use(householdMiddleware);
+
+// Imports add products, meals and history, so viewers can only export. The catalog
+// import changes products every household shares: instance admins only
+const canEdit = requireRole('owner', 'editor');
+const canImport = (req, res, next) =>
+    req.params.dataset === 'catalog' ? requireAdmin(req, res, next) : canEdit(req, res, next);
+
+const datasetParam = param('dataset').isIn(transferService.DATASETS);
+
+// Download a dataset (catalog, meals, menu or history) as JSON or CSV
+router.get('/:dataset', [
+    datasetParam,
+    query('format').optional().isIn(['json', 'csv'])
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const { dataset } = req.params;
+        const format = req.query.format || 'json';
+        const filename = `grocery-${dataset}-${new Date().toISOString().split('T')[0]}.${format}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+        if (format === 'csv') {
+            const csv = await transferService.exportCsv(req.householdId, dataset);
+            return res.type('text/csv').send(csv);
+        }
+        res.json(await transferService.exportData(req.householdId, dataset));
+    } catch (error) {
+        console.error('Error exporting data:', error);
+        res.status(500).json({ error: 'Failed to export data' });
+    }
+});
+
+// Import a file made by the export above. Running it again is harmless:
+// what already exists is merged, not duplicated.
+router.post('/:dataset', canImport, [
+    datasetParam,
+    body('format').isIn(['json', 'csv']),
+    body('content').exists({ values: 'null' })
+], async (req, res) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        const counts = await transferService.importData(req.householdId, req.userId, req.params.dataset, req.body);
+        res.json(counts);
+    } catch (error) {
+        if (error instanceof SyntaxError || error.message === 'Invalid import') {
+            return res.status(400).json({ error: 'This file is not an export of this kind of data' });
+        }
+        if (error.message === 'Unsupported version') {
+            return res.status(400).json({ error: 'This file comes from a newer version of the app' });
+        }
+        console.error('Error importing data:', error);
+        res.status(500).json({ error: 'Failed to import data' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,39 @@
+const { GoogleGenerativeAI } = require('@google/generative-ai');
+const LLMProvider = require('./llmProvider');
+
+// Google Gemini through @google/generative-ai
+class GeminiProvider extends LLMProvider {
+    constructor({ apiKey, model }) {
+        super('gemini', model || 'gemini-2.5-flash');
+        this.client = apiKey
+            ? new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.model })
+            : null;
+    }
+
+    isReady() {
+        return !!this.client;
+    }
+
+    // Gemini 2.5 Flash free tier limits (for reference)
+    get rateLimits() {
+        return {
+            requestsPerMinute: 15,
+            requestsPerDay: 1500,
+            tokensPerMinute: 1000000,
+        };
+    }
+
+    async generateText(prompt) {
+        console.log('📤 Sending request to Gemini API...');
+        const result = await this.client.generateContent(prompt);
+        const response = await result.response;
+        const usage = response.usageMetadata || {};
+        return {
+            text: response.text(),
+            inputTokens: usage.promptTokenCount,
+            outputTokens: usage.candidatesTokenCount
+        };
+    }
+}
+
+module.exports = GeminiProvider;
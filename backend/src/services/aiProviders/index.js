@@ -0,0 +1,28 @@
+const GeminiProvider = require('./geminiProvider');
+const OpenAIProvider = require('./openaiProvider');
+const RuleBasedProvider = require('./ruleBasedProvider');
+
+// Build the provider selected by AI_PROVIDER (see config/env.js)
+function createProvider(config) {
+    switch (config.provider) {
+        case 'openai':
+            return new OpenAIProvider({
+                baseUrl: config.openaiBaseUrl,
+                apiKey: config.openaiApiKey,
+                model: config.model
+            });
+        case 'rules':
+            return new RuleBasedProvider();
+        case 'gemini':
+        default:
+            return new GeminiProvider({
+                apiKey: config.googleApiKey,
+                model: config.model
+            });
+    }
+}
+
+module.exports = {
+    createProvider,
+    RuleBasedProvider
+};
@@ -0,0 +1,139 @@
+const GroceryItem = require('../../models/GroceryItem');
+
+/**
+ * Base class for providers backed by a language model.
+ * Subclasses implement generateText(prompt); prompts and response parsing
+ * are shared so every model gets the same instructions.
+ *
+ * Provider interface (also implemented by RuleBasedProvider):
+ *   name, model, rateLimits (or null), isReady()
+ *   parseGroceryItems(text, categoryNames) → { items, inputTokens, outputTokens }
+ *     items: [{ article, quantity, unit, category }]
+ *   correctSpelling(productName) → { text, inputTokens, outputTokens }
+ */
+class LLMProvider {
+    constructor(name, model) {
+        this.name = name;
+        this.model = model;
+    }
+
+    isReady() {
+        return false;
+    }
+
+    // Provider rate limits shown in the stats dialog (null when unknown)
+    get rateLimits() {
+        return null;
+    }
+
+    // Returns { text, inputTokens, outputTokens }; token counts may be undefined
+    async generateText() {
+        throw new Error(`${this.name} provider does not implement generateText`);
+    }
+
+    async parseGroceryItems(groceryText, categoryNames) {
+        const prompt = this.buildGroceryParsingPrompt(groceryText, categoryNames);
+        const { text, inputTokens, outputTokens } = await this.generateText(prompt);
+
+        console.log('🤖 AI Raw Response:', text);
+
+        // Clean the response by removing markdown code blocks
+        const cleanedText = text.replace(/```json\n?|\n?```/g, '').trim();
+        let items;
+        try {
+            items = JSON.parse(cleanedText);
+        } catch (parseError) {
+            throw providerError(`JSON parse failed: ${parseError.message}`, 'JSON_PARSE_ERROR', prompt, text);
+        }
+
+        if (!Array.isArray(items)) {
+            throw providerError('Response was not an array', 'INVALID_RESPONSE_STRUCTURE', prompt, text);
+        }
+
+        return {
+            items,
+            inputTokens: inputTokens ?? estimateTokens(prompt),
+            outputTokens: outputTokens ?? estimateTokens(text)
+        };
+    }
+
+    async correctSpelling(productName) {
+        const prompt = this.buildSpellingPrompt(productName);
+        const { text, inputTokens, outputTokens } = await this.generateText(prompt);
+        const corrected = text.trim();
+
+        return {
+            text: corrected,
+            inputTokens: inputTokens ?? estimateTokens(prompt),
+            outputTokens: outputTokens ?? estimateTokens(corrected)
+        };
+    }
+
+    buildGroceryParsingPrompt(groceryText, categoryNames) {
+        const categoriesList = categoryNames.join(', ');
+        const units = GroceryItem.UNITS.map(unit => `"${unit}"`).join(', ');
+        
+        return `SYSTEM: You are a grocery list parser that corrects spelling and grammar errors in French grocery lists. Each LINE is ONE COMPLETE item name. NEVER split words within a line.
+
+EXAMPLES OF CORRECT PARSING:
+Input line: "Oeuf Dan" → ONE item: {"article": "Oeuf Dan", "quantity": 1, "unit": "piece", "category": "Produits laitiers"}
+Input line: "Pain complet" → ONE item: {"article": "Pain complet", "quantity": 1, "unit": "piece", "category": "Boulangerie"}
+Input line: "2 pommes" → ONE item: {"article": "pommes", "quantity": 2, "unit": "piece", "category": "Fruits et légumes"}
+Input line: "1,5 kg de pommes de terre" → ONE item: {"article": "pommes de terre", "quantity": 1.5, "unit": "kg", "category": "Fruits et légumes"}
+Input line: "Chocolat noir noisettes" → ONE item: {"article": "Chocolat noir noisettes", "quantity": 1, "unit": "piece", "category": "Épicerie"}
+
+WRONG (DO NOT DO THIS):
+Input line: "Oeuf Dan" → DO NOT create two items for "Oeuf" and "Dan"
+Input line: "Pain complet" → DO NOT create two items for "Pain" and "complet"
+
+Categories available: ${categoriesList}
+
+RULES:
+1. FIRST: Correct any spelling and grammar errors in the French text
+2. Each line = exactly ONE item in output JSON
+3. Keep complete item names together (all words on same line = one item name)
+4. Extract quantity and unit if mentioned (e.g., "2 pommes" → quantity: 2, unit: "piece", article: "pommes"; "500g steak haché" → quantity: 500, unit: "g")
+   Allowed units: ${units}. Use "piece" for plain counts
+5. If a word is in Hebrew, keep it in Hebrew and categorize it according to its meaning
+6. If you don't understand a word, return it with "Unknown" category
+7. Use "Unknown" if unsure about category
+8. Do NOT add any items that are not in the input list
+9. Return ONLY valid JSON array, no other text
+
+Parse and correct this French grocery list (each line is one item):
+${groceryText}`;
+    }
+
+    buildSpellingPrompt(productName) {
+        return `You are a spelling correction assistant for grocery product names.
+The input can be in Hebrew, French, or English (or a mix).
+
+RULES:
+1. Fix spelling and grammar errors while preserving the language
+2. Keep proper nouns and brand names as-is if recognizable
+3. If the word is in Hebrew, keep it in Hebrew with correct spelling
+4. If the word is in French, keep it in French with correct spelling
+5. If the word is in English, keep it in English with correct spelling
+6. Preserve capitalization style (if input is lowercase, keep lowercase)
+7. Return ONLY the corrected text, nothing else
+
+Input: "${productName}"
+Corrected:`;
+    }
+}
+
+// Rough estimate when the API doesn't report usage (~4 chars per token)
+function estimateTokens(text) {
+    return Math.ceil((text || '').length / 4);
+}
+
+// Error carrying a type for AI logs, plus token estimates of the failed call
+function providerError(message, type, prompt, response) {
+    const error = new Error(message);
+    error.type = type;
+    error.inputTokens = estimateTokens(prompt);
+    error.outputTokens = estimateTokens(response);
+    return error;
+}
+
+module.exports = LLMProvider;
@@ -0,0 +1,61 @@
+const LLMProvider = require('./llmProvider');
+
+const REQUEST_TIMEOUT = 60 * 1000; // Local models can be slow on first load
+
+// Any OpenAI-compatible chat completions endpoint
+// (OpenAI, llama.cpp server, Ollama, LM Studio, vLLM...)
+class OpenAIProvider extends LLMProvider {
+    constructor({ baseUrl, apiKey, model }) {
+        super('openai', model || 'gpt-4o-mini');
+        this.baseUrl = (baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        this.apiKey = apiKey;
+    }
+
+    // Local servers don't need a key, so only the endpoint is required
+    isReady() {
+        return !!this.baseUrl;
+    }
+
+    async generateText(prompt) {
+        console.log(`📤 Sending request to ${this.baseUrl}...`);
+        const headers = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0
+            }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            const error = new Error(`OpenAI-compatible API returned ${response.status}: ${body.substring(0, 200)}`);
+            if (response.status === 429) error.type = 'RATE_LIMIT';
+            if (response.status === 401 || response.status === 403) error.type = 'API_KEY_ERROR';
+            throw error;
+        }
+
+        const data = await response.json();
+        const text = data.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+            const error = new Error('Response had no message content');
+            error.type = 'INVALID_RESPONSE_STRUCTURE';
+            throw error;
+        }
+
+        return {
+            text,
+            inputTokens: data.usage?.prompt_tokens,
+            outputTokens: data.usage?.completion_tokens
+        };
+    }
+}
+
+module.exports = OpenAIProvider;
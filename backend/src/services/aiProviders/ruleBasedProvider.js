@@ -0,0 +1,88 @@
+const Product = require('../../models/Product');
+const productService = require('../productService');
+const spellService = require('../spellService');
+
+// Minimum similarity to treat a term as a typo of a known product
+const MATCH_THRESHOLD = 0.8;
+
+/**
+ * Deterministic parser used when no language model is configured or reachable.
+ * Each line becomes one item: quantity and unit are extracted, words are spell-checked,
+ * then the term is matched against the product catalog to pick a name and category.
+ */
+class RuleBasedProvider {
+    constructor() {
+        this.name = 'rules';
+        this.model = 'rule-based';
+    }
+
+    // Works without any external service
+    isReady() {
+        return true;
+    }
+
+    get rateLimits() {
+        return null;
+    }
+
+    async parseGroceryItems(groceryText) {
+        const catalog = await Product.findAll();
+        const lines = groceryText.split('\n').filter(line => line.trim().length > 0);
+
+        const items = [];
+        for (const line of lines) {
+            const { quantity, unit, term } = productService.parseLineForProduct(line);
+            items.push({ ...await this.resolveTerm(term, catalog), quantity, unit });
+        }
+
+        return { items, inputTokens: 0, outputTokens: 0 };
+    }
+
+    // Pick a product name and category for a term
+    async resolveTerm(term, catalog) {
+        const corrected = this.correctWords(term);
+
+        // Try the raw term first so known aliases beat dictionary corrections
+        for (const candidate of new Set([term, corrected])) {
+            const { product, score } = await productService.findClosestProduct(candidate, catalog);
+            if (product && score >= MATCH_THRESHOLD) {
+                return { article: product.name, category: product.category_name || 'Autre' };
+            }
+        }
+
+        return {
+            article: capitalize(corrected),
+            category: productService.guessCategory(corrected, catalog) || 'Autre'
+        };
+    }
+
+    // Replace misspelled words with the dictionary's first suggestion
+    correctWords(text) {
+        const { words } = spellService.checkProductName(text);
+        let corrected = text;
+        for (const { word, suggestions } of words) {
+            corrected = corrected.replace(word, suggestions[0]);
+        }
+        return corrected;
+    }
+
+    async correctSpelling(productName) {
+        let text = this.correctWords(productName);
+
+        // Fall back to the closest catalog name when the dictionaries don't help
+        if (text === productName) {
+            const { product, score } = await productService.findClosestProduct(productName);
+            if (product && score >= MATCH_THRESHOLD) {
+                text = product.name;
+            }
+        }
+
+        return { text, inputTokens: 0, outputTokens: 0 };
+    }
+}
+
+function capitalize(text) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+module.exports = RuleBasedProvider;
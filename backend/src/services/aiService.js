@@ -1,11 +1,15 @@
-const { GoogleGenerativeAI } = require('@google/generative-ai');
+const { getAIConfig } = require('../config/env');
+const { createProvider, RuleBasedProvider } = require('./aiProviders');
 const Category = require('../models/Category');
 const AILog = require('../models/AILog');
+const productService = require('./productService');
 
 class AIService {
     constructor() {
-        this.genAI = null;
-        this.model = null;
+        // Active provider, plus the rule-based parser used when it fails
+        this.provider = null;
+        this.fallbackProvider = new RuleBasedProvider();
+        this.configuredProvider = null;
         this.cachedCategories = null;
         this.cacheExpiry = null;
         
@@ -19,13 +23,17 @@ class AIService {
     }
 
     initialize() {
-        if (!process.env.GOOGLE_API_KEY) {
-            console.warn('⚠️ GOOGLE_API_KEY not set - AI parsing will not work');
+        const config = getAIConfig();
+        const provider = createProvider(config);
+        this.configuredProvider = config.provider;
+
+        if (!provider.isReady()) {
+            console.warn(`⚠️ AI provider "${config.provider}" is not configured - using the rule-based parser`);
+            this.provider = this.fallbackProvider;
             return;
         }
-        this.genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-        this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-        console.log('✅ AI Service initialized');
+        this.provider = provider;
+        console.log(`✅ AI Service initialized (${provider.name}, ${provider.model})`);
     }
 
     // Track a request (logs to both in-memory and database)
@@ -88,9 +96,15 @@ class AIService {
         const successfulLastHour = lastHour.filter(r => r.success).length;
         const failedLastHour = lastHour.filter(r => !r.success).length;
         
+        const provider = this.provider || this.fallbackProvider;
+        const rateLimits = provider.rateLimits;
+        
         return {
-            isInitialized: !!this.model,
-            model: 'gemini-2.5-flash',
+            isInitialized: !!this.provider,
+            provider: provider.name,
+            model: provider.model,
+            // Configured provider couldn't be used (e.g. missing API key)
+            usingFallback: !!this.configuredProvider && provider.name !== this.configuredProvider,
             
             // Request counts
             requestsLastMinute: lastMinute.length,
@@ -114,18 +128,14 @@ class AIService {
                 inputPreview: f.inputText
             })),
             
-            // Gemini 2.5 Flash rate limits (for reference)
-            rateLimits: {
-                requestsPerMinute: 15,        // Free tier RPM
-                requestsPerDay: 1500,         // Free tier RPD
-                tokensPerMinute: 1000000,     // Free tier TPM
-            },
+            // Provider rate limits (null for local and rule-based providers)
+            rateLimits,
             
             // Usage percentages
-            usagePercent: {
-                rpm: Math.round((lastMinute.length / 15) * 100),
-                tpm: Math.round((lastMinuteTokens / 1000000) * 100),
-            }
+            usagePercent: rateLimits ? {
+                rpm: Math.round((lastMinute.length / rateLimits.requestsPerMinute) * 100),
+                tpm: Math.round((lastMinuteTokens / rateLimits.tokensPerMinute) * 100),
+            } : null
         };
     }
 
@@ -193,94 +203,46 @@ class AIService {
     }
 
     async parseGroceryItems(groceryText) {
-        const startTime = Date.now();
-        let inputTokens = 0;
-        let outputTokens = 0;
-
-        // Check initialization before proceeding
-        if (!this.model) {
-            const errorMsg = 'AI Service not initialized - GOOGLE_API_KEY may be missing';
-            console.error('❌', errorMsg);
-            this.trackRequest({
-                inputTokens: 0,
-                outputTokens: 0,
-                success: false,
-                inputText: groceryText,
-                errorMessage: errorMsg,
-                errorType: 'NOT_INITIALIZED',
-                responseTimeMs: 0
-            });
-            throw new Error(errorMsg);
-        }
+        console.log('🔍 AI Input Text:', JSON.stringify(groceryText));
+        const categoryNames = await this.getCategoryNames();
 
         try {
-            console.log('🔍 AI Input Text:', JSON.stringify(groceryText));
-            const prompt = await this.buildGroceryParsingPrompt(groceryText);
-            
-            // Estimate input tokens (rough: ~4 chars per token)
-            inputTokens = Math.ceil(prompt.length / 4);
-            
-            console.log('📤 Sending request to Gemini API...');
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-            const responseTimeMs = Date.now() - startTime;
-            
-            // Estimate output tokens
-            outputTokens = Math.ceil(text.length / 4);
-            
-            console.log('🤖 AI Raw Response:', text);
-            console.log(`📊 Estimated tokens - Input: ${inputTokens}, Output: ${outputTokens}, Time: ${responseTimeMs}ms`);
-
-            // Try to parse the JSON response
-            let parsedItems;
+            return await this.parseWith(this.provider, groceryText, categoryNames);
+        } catch (error) {
+            if (this.provider === this.fallbackProvider) {
+                throw new Error(`Failed to parse grocery items: ${error.message}`);
+            }
+            console.warn(`↩️ ${this.provider.name} failed, using the rule-based parser`);
             try {
-                // Clean the response by removing markdown code blocks
-                const cleanedText = text.replace(/```json\n?|\n?```/g, '').trim();
-                console.log('🧹 AI Cleaned Response:', cleanedText);
-                parsedItems = JSON.parse(cleanedText);
-            } catch (parseError) {
-                console.error('Failed to parse AI response as JSON:', text);
-                this.trackRequest({
-                    inputTokens,
-                    outputTokens,
-                    success: false,
-                    inputText: groceryText,
-                    errorMessage: `JSON parse failed: ${parseError.message}`,
-                    errorType: 'JSON_PARSE_ERROR',
-                    responseTimeMs
-                });
-                throw new Error('AI response was not valid JSON');
+                return await this.parseWith(this.fallbackProvider, groceryText, categoryNames);
+            } catch (fallbackError) {
+                throw new Error(`Failed to parse grocery items: ${fallbackError.message}`);
             }
+        }
+    }
 
-            // Validate the response structure
-            if (!Array.isArray(parsedItems)) {
-                this.trackRequest({
-                    inputTokens,
-                    outputTokens,
-                    success: false,
-                    inputText: groceryText,
-                    errorMessage: 'Response was not an array',
-                    errorType: 'INVALID_RESPONSE_STRUCTURE',
-                    responseTimeMs
-                });
-                throw new Error('AI response was not an array');
-            }
+    // Run one provider, validate its items and track the request
+    async parseWith(provider, groceryText, categoryNames) {
+        const startTime = Date.now();
+
+        try {
+            const { items, inputTokens, outputTokens } = await provider.parseGroceryItems(groceryText, categoryNames);
+            const responseTimeMs = Date.now() - startTime;
 
             // Validate each item has required fields
-            const validatedItems = parsedItems.map(item => {
+            const validatedItems = items.map(item => {
                 if (!item.article || !item.category) {
                     throw new Error('AI response missing required fields');
                 }
                 
                 return {
                     article: item.article.trim(),
-                    quantity: parseInt(item.quantity) || 1,
+                    quantity: parseFloat(item.quantity) > 0 ? productService.limitQuantity(parseFloat(item.quantity)) : 1,
+                    unit: productService.normalizeUnit(item.unit) || 'piece',
                     category: item.category.trim()
                 };
             });
 
-            // Track successful request
             this.trackRequest({
                 inputTokens,
                 outputTokens,
@@ -289,115 +251,48 @@ class AIService {
                 responseTimeMs
             });
 
-            console.log(`✅ AI parsed ${validatedItems.length} items from grocery list in ${responseTimeMs}ms`);
+            console.log(`📊 Tokens - Input: ${inputTokens}, Output: ${outputTokens}, Time: ${responseTimeMs}ms`);
+            console.log(`✅ ${provider.name} parsed ${validatedItems.length} items from grocery list in ${responseTimeMs}ms`);
             return validatedItems;
 
         } catch (error) {
-            const responseTimeMs = Date.now() - startTime;
-            
-            // Determine error type for better debugging
-            let errorType = 'UNKNOWN';
-            if (error.message?.includes('API key')) {
-                errorType = 'API_KEY_ERROR';
-            } else if (error.message?.includes('quota') || error.message?.includes('rate')) {
-                errorType = 'RATE_LIMIT';
-            } else if (error.message?.includes('network') || error.message?.includes('fetch')) {
-                errorType = 'NETWORK_ERROR';
-            } else if (error.message?.includes('timeout')) {
-                errorType = 'TIMEOUT';
-            } else if (error.message?.includes('JSON') || error.message?.includes('parse')) {
-                errorType = 'PARSE_ERROR';
-            }
-            
-            // Track failed request (if not already tracked above)
-            if (errorType === 'UNKNOWN' || errorType === 'API_KEY_ERROR' || errorType === 'RATE_LIMIT' || errorType === 'NETWORK_ERROR' || errorType === 'TIMEOUT') {
-                this.trackRequest({
-                    inputTokens,
-                    outputTokens,
-                    success: false,
-                    inputText: groceryText,
-                    errorMessage: error.message,
-                    errorType,
-                    responseTimeMs
-                });
-            }
-            
-            console.error(`❌ Error parsing grocery items with AI (${errorType}):`, error.message);
-            throw new Error(`Failed to parse grocery items: ${error.message}`);
-        }
-    }
+            const errorType = error.type || classifyError(error);
 
-    async buildGroceryParsingPrompt(groceryText) {
-        const categoryNames = await this.getCategoryNames();
-        const categoriesList = categoryNames.join(', ');
-        
-        return `SYSTEM: You are a grocery list parser that corrects spelling and grammar errors in French grocery lists. Each LINE is ONE COMPLETE item name. NEVER split words within a line.
-
-EXAMPLES OF CORRECT PARSING:
-Input line: "Oeuf Dan" → ONE item: {"article": "Oeuf Dan", "quantity": 1, "category": "Produits laitiers"}
-Input line: "Pain complet" → ONE item: {"article": "Pain complet", "quantity": 1, "category": "Boulangerie"}
-Input line: "2 pommes" → ONE item: {"article": "pommes", "quantity": 2, "category": "Fruits et légumes"}
-Input line: "Chocolat noir noisettes" → ONE item: {"article": "Chocolat noir noisettes", "quantity": 1, "category": "Épicerie"}
-
-WRONG (DO NOT DO THIS):
-Input line: "Oeuf Dan" → DO NOT create two items for "Oeuf" and "Dan"
-Input line: "Pain complet" → DO NOT create two items for "Pain" and "complet"
-
-Categories available: ${categoriesList}
-
-RULES:
-1. FIRST: Correct any spelling and grammar errors in the French text
-2. Each line = exactly ONE item in output JSON
-3. Keep complete item names together (all words on same line = one item name)
-4. Extract quantity if mentioned (e.g., "2 pommes" → quantity: 2, article: "pommes")
-5. If a word is in Hebrew, keep it in Hebrew and categorize it according to its meaning
-6. If you don't understand a word, return it with "Unknown" category
-7. Use "Unknown" if unsure about category
-8. Do NOT add any items that are not in the input list
-9. Return ONLY valid JSON array, no other text
+            this.trackRequest({
+                inputTokens: error.inputTokens || 0,
+                outputTokens: error.outputTokens || 0,
+                success: false,
+                inputText: groceryText,
+                errorMessage: `[${provider.name}] ${error.message}`,
+                errorType,
+                responseTimeMs: Date.now() - startTime
+            });
 
-Parse and correct this French grocery list (each line is one item):
-${groceryText}`;
+            console.error(`❌ Error parsing grocery items with ${provider.name} (${errorType}):`, error.message);
+            throw error;
+        }
     }
 
     // Correct spelling for a single product name (multilingual: Hebrew, French, English)
     async correctSpelling(productName) {
-        const startTime = Date.now();
-        let inputTokens = 0;
-        let outputTokens = 0;
-
-        if (!this.model) {
-            const errorMsg = 'AI Service not initialized - GOOGLE_API_KEY may be missing';
-            console.error('❌', errorMsg);
-            throw new Error(errorMsg);
-        }
-
         try {
-            const prompt = `You are a spelling correction assistant for grocery product names.
-The input can be in Hebrew, French, or English (or a mix).
-
-RULES:
-1. Fix spelling and grammar errors while preserving the language
-2. Keep proper nouns and brand names as-is if recognizable
-3. If the word is in Hebrew, keep it in Hebrew with correct spelling
-4. If the word is in French, keep it in French with correct spelling
-5. If the word is in English, keep it in English with correct spelling
-6. Preserve capitalization style (if input is lowercase, keep lowercase)
-7. Return ONLY the corrected text, nothing else
+            return await this.correctSpellingWith(this.provider, productName);
+        } catch (error) {
+            if (this.provider === this.fallbackProvider) {
+                throw new Error(`Failed to correct spelling: ${error.message}`);
+            }
+            return this.correctSpellingWith(this.fallbackProvider, productName);
+        }
+    }
 
-Input: "${productName}"
-Corrected:`;
+    async correctSpellingWith(provider, productName) {
+        const startTime = Date.now();
 
-            inputTokens = Math.ceil(prompt.length / 4);
-            
-            const result = await this.model.generateContent(prompt);
-            const response = await result.response;
-            const correctedName = response.text().trim();
+        try {
+            const { text, inputTokens, outputTokens } = await provider.correctSpelling(productName);
             const responseTimeMs = Date.now() - startTime;
             
-            outputTokens = Math.ceil(correctedName.length / 4);
-            
-            console.log(`🔤 Spelling correction: "${productName}" → "${correctedName}" (${responseTimeMs}ms)`);
+            console.log(`🔤 Spelling correction (${provider.name}): "${productName}" → "${text}" (${responseTimeMs}ms)`);
 
             this.trackRequest({
                 inputTokens,
@@ -407,27 +302,42 @@ Corrected:`;
                 responseTimeMs
             });
 
-            return correctedName;
+            return text;
 
         } catch (error) {
-            const responseTimeMs = Date.now() - startTime;
-            
             this.trackRequest({
-                inputTokens,
-                outputTokens,
+                inputTokens: 0,
+                outputTokens: 0,
                 success: false,
                 inputText: productName,
-                errorMessage: error.message,
+                errorMessage: `[${provider.name}] ${error.message}`,
                 errorType: 'SPELLING_CORRECTION_ERROR',
-                responseTimeMs
+                responseTimeMs: Date.now() - startTime
             });
             
             console.error('❌ Error correcting spelling:', error.message);
-            throw new Error(`Failed to correct spelling: ${error.message}`);
+            throw error;
         }
     }
 }
 
+// Determine error type for better debugging
+function classifyError(error) {
+    const message = error.message || '';
+    if (error.name === 'TimeoutError' || message.includes('timeout')) {
+        return 'TIMEOUT';
+    } else if (message.includes('API key')) {
+        return 'API_KEY_ERROR';
+    } else if (message.includes('quota') || message.includes('rate')) {
+        return 'RATE_LIMIT';
+    } else if (message.includes('network') || message.includes('fetch')) {
+        return 'NETWORK_ERROR';
+    } else if (message.includes('JSON') || message.includes('parse')) {
+        return 'PARSE_ERROR';
+    }
+    return 'UNKNOWN';
+}
+
 // Create singleton instance
 const aiService = new AIService();
 
@@ -0,0 +1,74 @@
+const Meal = require('../models/Meal');
+const PantryItem = require('../models/PantryItem');
+
+// Stock this many days or less from its best-before date should be used soon
+const USE_SOON_DAYS = 3;
+
+// Saved meals suggested for it
+const MAX_MEALS = 5;
+
+class ExpiryService {
+    constructor() {
+        // household_id -> { computedOn, items, meals }, rebuilt by the daily job
+        this.useSoon = new Map();
+    }
+
+    // Pantry items past or near their best-before date, with saved meals that
+    // use them. Served from the daily job; a household whose stock changed
+    // since is computed again.
+    async getUseSoon(householdId) {
+        const today = new Date().toDateString();
+        const cached = this.useSoon.get(householdId);
+        if (!cached || cached.computedOn !== today) {
+            const items = await PantryItem.findExpiring(USE_SOON_DAYS, householdId);
+            await this.store(householdId, items, today);
+        }
+        const { items, meals } = this.useSoon.get(householdId);
+        return { days: USE_SOON_DAYS, items, meals };
+    }
+
+    // Stock of a household changed: recompute on the next read
+    forget(householdId) {
+        this.useSoon.delete(householdId);
+    }
+
+    // Daily job: recompute every household in one pass
+    async refreshAll() {
+        const today = new Date().toDateString();
+        const items = await PantryItem.findExpiring(USE_SOON_DAYS);
+
+        const byHousehold = new Map();
+        for (const item of items) {
+            if (!byHousehold.has(item.household_id)) byHousehold.set(item.household_id, []);
+            byHousehold.get(item.household_id).push(item);
+        }
+
+        this.useSoon.clear();
+        for (const [householdId, householdItems] of byHousehold) {
+            await this.store(householdId, householdItems, today);
+        }
+        console.log(`🥫 Use-soon check: ${items.length} items in ${byHousehold.size} households`);
+    }
+
+    async store(householdId, items, computedOn) {
+        const meals = await suggestMeals(householdId, items);
+        this.useSoon.set(householdId, { computedOn, items, meals });
+    }
+}
+
+// Saved meals using the items, each with the names of the items it uses
+async function suggestMeals(householdId, items) {
+    const names = new Map(items.map(item => [item.product_id, item.product_name]));
+    const meals = await Meal.findUsingProducts(householdId, [...names.keys()]);
+    return meals.slice(0, MAX_MEALS).map(meal => ({
+        id: meal.id,
+        name: meal.name,
+        servings: meal.servings,
+        uses: meal.uses.map(id => names.get(id))
+    }));
+}
+
+// Create singleton instance
+const expiryService = new ExpiryService();
+
+module.exports = expiryService;
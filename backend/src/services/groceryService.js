@@ -3,48 +3,75 @@ const db = require('../config/database');
 const GroceryItem = require('../models/GroceryItem');
 const GroceryHistory = require('../models/GroceryHistory');
 const Product = require('../models/Product');
+const Store = require('../models/Store');
 const aiService = require('./aiService');
 const productService = require('./productService');
+const pantryService = require('./pantryService');
+const expiryService = require('./expiryService');
+const operationService = require('./operationService');
+const realtimeService = require('./realtimeService');
+const localeService = require('./localeService');
+
+// Categories without a place in a store's layout are walked last
+const UNPLACED_POSITION = 1000;
 
 class GroceryService {
-    // Parse and add items (with product lookup + AI fallback)
-    async parseAndAddItems(userId, groceryText) {
-        try {
-            const lines = groceryText.split('\n').filter(line => line.trim().length > 0);
-            
-            // Step 1: Try to find products in our database
-            const { found, notFound } = await productService.parseLines(lines);
+    // Resolve free-text lines to products: catalog lookup (exact, then fuzzy),
+    // then AI for what is left. AI-created products are learned for next time.
+    // Lines the AI couldn't make sense of come back in `unresolved`.
+    // householdId / userId say whose lines they were (for the AI review queue).
+    async resolveLines(lines, { fuzzy = true, householdId = null, userId = null } = {}) {
+        // Step 1: Try to find products in our database (exact, then fuzzy)
+        const { found, suggestions, notFound } = await productService.parseLines(lines, { fuzzy });
+        
+        // Step 2: Use AI for items not found
+        const aiItems = [];
+        const unresolved = [];
+        if (notFound.length > 0) {
+            console.log(`🤖 Sending ${notFound.length} items to AI...`);
+            const unparsedText = notFound.map(item => item.originalInput).join('\n');
+            const aiParsed = await aiService.parseGroceryItems(unparsedText);
             
-            // Step 2: Use AI for items not found
-            let aiItems = [];
-            if (notFound.length > 0) {
-                console.log(`🤖 Sending ${notFound.length} items to AI...`);
-                const unparsedText = notFound.map(item => item.originalInput).join('\n');
-                const aiParsed = await aiService.parseGroceryItems(unparsedText);
+            // Process AI results - learn and create products
+            for (let i = 0; i < notFound.length; i++) {
+                const parsed = aiParsed[i];
+                const original = notFound[i];
                 
-                // Process AI results - learn and create products
-                for (let i = 0; i < aiParsed.length; i++) {
-                    const parsed = aiParsed[i];
-                    const original = notFound[i];
+                if (parsed && parsed.article && parsed.category) {
+                    // Learn from AI (creates product + alias)
+                    const product = await productService.learnFromAI(
+                        parsed.article,
+                        parsed.category,
+                        original.term,
+                        { householdId, userId }
+                    );
                     
-                    if (parsed.article && parsed.category) {
-                        // Learn from AI (creates product + alias)
-                        const product = await productService.learnFromAI(
-                            parsed.article,
-                            parsed.category,
-                            original.term
-                        );
-                        
-                        aiItems.push({
-                            product,
-                            quantity: original.quantity || parsed.quantity || 1,
-                            originalInput: original.originalInput
-                        });
-                    }
+                    // Our own grammar wins; AI fills in amounts it couldn't read
+                    aiItems.push({
+                        product,
+                        quantity: original.hasQuantity ? original.quantity : parsed.quantity,
+                        unit: original.hasQuantity ? original.unit : parsed.unit,
+                        packSize: original.packSize,
+                        originalInput: original.originalInput
+                    });
+                } else {
+                    unresolved.push(original);
                 }
-            } else {
-                console.log('✨ All items found in database, skipping AI!');
             }
+        } else {
+            console.log('✨ No unknown items, skipping AI!');
+        }
+
+        return { found, aiItems, suggestions, unresolved };
+    }
+
+    // Parse and add items (with product lookup + AI fallback).
+    // Uncertain fuzzy matches are not added; they are returned as suggestions
+    // unless `fuzzy` is false, in which case those lines go straight to AI.
+    async parseAndAddItems(householdId, userId, groceryText, { fuzzy = true } = {}) {
+        try {
+            const lines = groceryText.split('\n').filter(line => line.trim().length > 0);
+            const { found, aiItems, suggestions } = await this.resolveLines(lines, { fuzzy, householdId, userId });
             
             // Step 3: Combine found items and AI-processed items
             const allItems = [...found, ...aiItems];
@@ -54,42 +81,64 @@ class GroceryService {
             
             // Step 4: Add items to grocery list
             const addedItems = [];
+            const changes = [];
             for (const item of allItems) {
                 if (!item.product) continue;
                 
                 // Check if product already in list
-                const existing = await GroceryItem.findByProduct(userId, item.product.id);
+                const existing = await GroceryItem.findByProduct(householdId, item.product.id);
                 
                 if (existing) {
                     // Update quantity
-                    existing.quantity += item.quantity;
+                    const before = operationService.snapshot(existing);
+                    this.mergeQuantity(existing, item.quantity, item.unit);
                     existing.batch_id = batchId;
                     await existing.save();
-                    addedItems.push(await GroceryItem.findById(existing.id, userId));
+                    const updated = await GroceryItem.findById(existing.id, householdId);
+                    addedItems.push(updated);
+                    changes.push({ before, after: updated });
                 } else {
                     // Create new item
                     const groceryItem = new GroceryItem({
+                        household_id: householdId,
                         user_id: userId,
                         product_id: item.product.id,
                         quantity: item.quantity,
+                        unit: item.unit,
+                        note: item.packSize ? `${item.packSize} per pack` : null,
                         status: 'pending',
                         batch_id: batchId
                     });
                     const saved = await groceryItem.save();
                     // Fetch with joins to get full data
-                    addedItems.push(await GroceryItem.findById(saved.id, userId));
+                    const created = await GroceryItem.findById(saved.id, householdId);
+                    addedItems.push(created);
+                    changes.push({ before: null, after: created });
                 }
             }
+            await operationService.record(householdId, userId, 'parse', changes);
             
             console.log(`✅ Added batch ${batchId}: ${addedItems.length} items (${found.length} cached, ${aiItems.length} from AI)`);
             
             return { 
                 batchId, 
                 items: addedItems,
+                // "Did you mean" choices for lines that weren't added
+                suggestions: suggestions.map(({ term, quantity, unit, originalInput, candidates }) => ({
+                    term,
+                    quantity,
+                    unit,
+                    originalInput,
+                    candidates: candidates.map(({ product, score }) => ({
+                        ...product,
+                        score: Math.round(score * 100) / 100
+                    }))
+                })),
                 stats: {
                     total: addedItems.length,
                     fromCache: found.length,
-                    fromAI: aiItems.length
+                    fromAI: aiItems.length,
+                    suggested: suggestions.length
                 }
             };
             
@@ -99,10 +148,18 @@ class GroceryService {
         }
     }
 
-    // Get all items sorted by category
-    async getAllItemsSorted(userId) {
+    // Get all items sorted by category, or in a store's walking order when storeId is given.
+    // Names are in language (users.language) when given
+    async getAllItemsSorted(householdId, storeId = null, language = null) {
         try {
-            const allItems = await GroceryItem.findAllByUser(userId);
+            let allItems = await GroceryItem.findAllByHousehold(householdId);
+            let store = storeId ? await Store.findById(storeId, householdId) : null;
+            // Group headings and store sections are category names too, but the response
+            // localizer only translates names next to their id: translate before grouping
+            [allItems, store] = await localeService.localize([allItems, store], language);
+            if (store) {
+                allItems = this.placeInStore(allItems, store);
+            }
             
             // Separate found items
             const foundItems = allItems.filter(item => item.status === 'found');
@@ -118,7 +175,7 @@ class GroceryService {
                     grouped[category] = {
                         items: [],
                         icon: item.category_icon || '📦',
-                        sort_order: item.category_sort || 99
+                        sort_order: store ? item.store_position : (item.category_sort || 99)
                     };
                 }
                 grouped[category].items.push(item);
@@ -136,6 +193,7 @@ class GroceryService {
                 allItems,
                 activeItems,
                 foundItems,
+                store: store ? { id: store.id, name: store.name } : null,
                 grouped: sortedGrouped,
                 categoryInfo: Object.fromEntries(
                     Object.entries(grouped).map(([k, v]) => [k, { icon: v.icon }])
@@ -147,56 +205,127 @@ class GroceryService {
         }
     }
 
-    // Complete shopping session - move found/not_found items to history
+    // Annotate items with their place in a store and sort them in walking order.
+    // store_position: categories laid out in the store come first, in the store's order,
+    // then the rest by global category order. store_section: aisle label, or the
+    // category the product is walked with. Mirrored in the frontend GroceryContext.
+    placeInStore(items, store) {
+        const stops = new Map(store.categories.map(c => [c.category_id, c]));
+        const overrides = new Map(store.products.map(p => [p.product_id, p]));
+
+        return items
+            .map(item => {
+                const override = overrides.get(item.product_id);
+                const categoryId = override?.category_id || item.category_id;
+                const stop = stops.get(categoryId);
+                return Object.assign(item, {
+                    store_position: stop ? stop.position : UNPLACED_POSITION + (item.category_sort ?? 99),
+                    store_section: override?.aisle || stop?.aisle || override?.category_name || item.category_name
+                });
+            })
+            .sort((a, b) =>
+                a.store_position - b.store_position ||
+                a.product_name.localeCompare(b.product_name)
+            );
+    }
+
+    // Complete shopping session - move found/not_found items to history and found ones to the pantry
     // Uses database transaction to ensure atomicity
-    async completeShoppingSession(userId) {
+    async completeShoppingSession(householdId, storeId = null, userId = null) {
         const sessionId = crypto.randomBytes(4).toString('hex');
         
         try {
+            const store = storeId ? await Store.findById(storeId, householdId) : null;
+
             const result = await db.withTransaction(async (client) => {
-                // Get all items that are found or not_found
-                const foundItems = await GroceryItem.findByStatus(userId, 'found');
-                const notFoundItems = await GroceryItem.findByStatus(userId, 'not_found');
+                // Get all items that are found or not_found, locked: a trip completed at the same
+                // time on another device (or replayed from an outbox) waits, then finds them gone
+                const foundItems = await GroceryItem.findByStatus(householdId, 'found', client);
+                const notFoundItems = await GroceryItem.findByStatus(householdId, 'not_found', client);
                 
                 const itemsToArchive = [...foundItems, ...notFoundItems];
                 let archivedCount = 0;
 
+                // Only what was actually bought and priced counts towards the total
+                const costs = foundItems
+                    .map(item => productService.lineCost(item.quantity, item.unit, item.unit_price))
+                    .filter(cost => cost !== null);
+                const totalSpent = costs.length > 0
+                    ? Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 100) / 100
+                    : null;
+
+                await client.query(`
+                    INSERT INTO shopping_sessions (id, household_id, total_spent)
+                    VALUES ($1, $2, $3)
+                `, [sessionId, householdId, totalSpent]);
+
                 for (const item of itemsToArchive) {
                     // Add to history (uses the transaction client)
                     await client.query(`
                         INSERT INTO grocery_history 
-                        (user_id, product_id, product_name, category_name, quantity, status, shopping_session_id) 
-                        VALUES ($1, $2, $3, $4, $5, $6, $7)
+                        (household_id, user_id, product_id, product_name, category_name, quantity, unit, unit_price, status, shopping_session_id, store_id, store_name) 
+                        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                     `, [
+                        householdId,
                         item.user_id, 
                         item.product_id, 
                         item.product_name,
                         item.category_name,
                         item.quantity, 
+                        item.unit, 
+                        item.unit_price,
                         item.status, 
-                        sessionId
+                        sessionId,
+                        store ? store.id : null,
+                        store ? store.name : null
                     ]);
                     
-                    // Delete from active list - SHARED LIST: no user check
+                    // What was bought goes to the pantry
+                    if (item.status === 'found' && item.product_id) {
+                        await pantryService.addStock(householdId, userId, {
+                            productId: item.product_id,
+                            quantity: item.quantity,
+                            unit: item.unit,
+                            bestBefore: item.best_before
+                        }, 'bought', client);
+                    }
+
+                    // Delete from active list
                     await client.query(
-                        'DELETE FROM grocery_items WHERE id = $1',
-                        [item.id]
+                        'DELETE FROM grocery_items WHERE id = $1 AND household_id = $2',
+                        [item.id, householdId]
                     );
                     archivedCount++;
                 }
 
                 return {
                     archivedCount,
+                    archivedItems: itemsToArchive,
                     foundCount: foundItems.length,
-                    notFoundCount: notFoundItems.length
+                    notFoundCount: notFoundItems.length,
+                    totalSpent
                 };
             });
 
             console.log(`🛒 Completed shopping session ${sessionId}: archived ${result.archivedCount} items`);
+            // Logged for the activity feed only: the trip itself can't be undone
+            await operationService.record(householdId, userId, 'complete',
+                result.archivedItems.map(item => ({ before: item, after: null })));
+            await operationService.discardAll(householdId);
+            // Stock read while the trip was being saved may be cached without it
+            expiryService.forget(householdId);
+
+            // Published after commit so other devices never drop items that stayed on the list
+            const { archivedItems, ...summary } = result;
+            realtimeService.publish(householdId, 'session.completed', {
+                sessionId,
+                ids: archivedItems.map(item => item.id),
+                ...summary
+            });
             
             return {
                 sessionId,
-                ...result
+                ...summary
             };
         } catch (error) {
             console.error('Error completing shopping session:', error);
@@ -204,8 +333,22 @@ class GroceryService {
         }
     }
 
+    // Add an amount to an item already on the list (not saved), capped like parsed amounts.
+    // Amounts in units that don't convert (e.g. 2 packs + 500 g) are kept in the note.
+    mergeQuantity(item, quantity, unit = 'piece') {
+        const combined = productService.combineQuantities(item, { quantity, unit });
+        if (combined) {
+            item.quantity = productService.limitQuantity(combined.quantity);
+            item.unit = combined.unit;
+        } else {
+            const extra = `+ ${productService.formatQuantity(quantity, unit)}`;
+            item.note = item.note ? `${item.note} ${extra}` : extra;
+        }
+        return item;
+    }
+
     // Add single item by product ID
-    async addItemByProduct(userId, productId, quantity = 1, note = null) {
+    async addItemByProduct(householdId, userId, productId, quantity = 1, note = null, unit = 'piece') {
         // Check if product exists
         const product = await Product.findById(productId);
         if (!product) {
@@ -213,24 +356,31 @@ class GroceryService {
         }
 
         // Check if already in list
-        const existing = await GroceryItem.findByProduct(userId, productId);
+        const existing = await GroceryItem.findByProduct(householdId, productId);
         if (existing) {
-            existing.quantity += quantity;
+            const before = operationService.snapshot(existing);
+            this.mergeQuantity(existing, quantity, unit);
             if (note) existing.note = note;
             await existing.save();
-            return GroceryItem.findById(existing.id, userId);
+            const updated = await GroceryItem.findById(existing.id, householdId);
+            await operationService.record(householdId, userId, 'add', [{ before, after: updated }]);
+            return updated;
         }
 
         // Create new item
         const item = new GroceryItem({
+            household_id: householdId,
             user_id: userId,
             product_id: productId,
             quantity,
+            unit,
             note,
             status: 'pending'
         });
         const saved = await item.save();
-        return GroceryItem.findById(saved.id, userId);
+        const created = await GroceryItem.findById(saved.id, householdId);
+        await operationService.record(householdId, userId, 'add', [{ before: null, after: created }]);
+        return created;
     }
 }
 
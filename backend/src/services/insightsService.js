@@ -0,0 +1,142 @@
+const db = require('../config/database');
+
+// Products bought fewer times than this get no purchase frequency
+const MIN_PURCHASES_FOR_FREQUENCY = 2;
+const INTERVALS = ['week', 'month'];
+
+// Filter shared by every aggregate: household ($1) and an optional date range ($2, $3).
+// `to` is inclusive (a whole day).
+const RANGE_FILTER = `
+    gh.household_id = $1
+    AND ($2::date IS NULL OR gh.completed_at >= $2::date)
+    AND ($3::date IS NULL OR gh.completed_at < $3::date + 1)
+`;
+
+class InsightsService {
+    // Per product: how often it was bought, how often it was missing,
+    // and the average number of days between two trips where it was found
+    async getProductStats(householdId, { from = null, to = null, limit = 50 } = {}) {
+        const result = await db.query(`
+            WITH purchases AS (
+                SELECT gh.product_id, gh.shopping_session_id, MIN(gh.completed_at) as bought_at
+                FROM grocery_history gh
+                WHERE ${RANGE_FILTER} AND gh.status = 'found' AND gh.product_id IS NOT NULL
+                GROUP BY gh.product_id, gh.shopping_session_id
+            ),
+            gaps AS (
+                SELECT product_id,
+                       bought_at - LAG(bought_at) OVER (PARTITION BY product_id ORDER BY bought_at) as gap
+                FROM purchases
+            ),
+            frequency AS (
+                SELECT product_id, EXTRACT(EPOCH FROM AVG(gap)) / 86400 as avg_days_between
+                FROM gaps
+                WHERE gap IS NOT NULL
+                GROUP BY product_id
+            )
+            SELECT gh.product_id,
+                   COALESCE(p.name, MAX(gh.product_name)) as product_name,
+                   MAX(gh.category_name) as category_name,
+                   COUNT(*)::int as times_listed,
+                   COUNT(*) FILTER (WHERE gh.status = 'found')::int as times_bought,
+                   COUNT(*) FILTER (WHERE gh.status = 'not_found')::int as times_not_found,
+                   MAX(gh.completed_at) FILTER (WHERE gh.status = 'found') as last_bought_at,
+                   f.avg_days_between
+            FROM grocery_history gh
+            LEFT JOIN products p ON gh.product_id = p.id
+            LEFT JOIN frequency f ON gh.product_id = f.product_id
+            WHERE ${RANGE_FILTER} AND gh.product_id IS NOT NULL
+            GROUP BY gh.product_id, p.name, f.avg_days_between
+            ORDER BY times_bought DESC, times_listed DESC, product_name ASC
+            LIMIT $4
+        `, [householdId, from, to, limit]);
+
+        return result.rows.map(row => ({
+            ...row,
+            not_found_rate: rate(row.times_not_found, row.times_listed),
+            avg_days_between: row.times_bought >= MIN_PURCHASES_FOR_FREQUENCY && row.avg_days_between !== null
+                ? Math.round(row.avg_days_between * 10) / 10
+                : null
+        }));
+    }
+
+    // Per category: items listed, bought and missing
+    async getCategoryStats(householdId, { from = null, to = null } = {}) {
+        const result = await db.query(`
+            SELECT COALESCE(gh.category_name, 'Autre') as category_name,
+                   MAX(c.icon) as category_icon,
+                   COUNT(*)::int as times_listed,
+                   COUNT(*) FILTER (WHERE gh.status = 'found')::int as times_bought,
+                   COUNT(*) FILTER (WHERE gh.status = 'not_found')::int as times_not_found
+            FROM grocery_history gh
+            LEFT JOIN categories c ON gh.category_name = c.name
+            WHERE ${RANGE_FILTER}
+            GROUP BY COALESCE(gh.category_name, 'Autre')
+            ORDER BY times_listed DESC
+        `, [householdId, from, to]);
+
+        return result.rows.map(row => ({
+            ...row,
+            not_found_rate: rate(row.times_not_found, row.times_listed)
+        }));
+    }
+
+    // Trips per week (weeks start on Monday), with what they cost when prices were entered
+    async getWeeklySessions(householdId, { from = null, to = null } = {}) {
+        const result = await db.query(`
+            WITH sessions AS (
+                SELECT gh.shopping_session_id, MAX(gh.completed_at) as completed_at
+                FROM grocery_history gh
+                WHERE ${RANGE_FILTER} AND gh.shopping_session_id IS NOT NULL
+                GROUP BY gh.shopping_session_id
+            )
+            SELECT TO_CHAR(DATE_TRUNC('week', s.completed_at), 'YYYY-MM-DD') as week_start,
+                   COUNT(*)::int as session_count,
+                   SUM(ss.total_spent) as total_spent
+            FROM sessions s
+            LEFT JOIN shopping_sessions ss ON ss.id = s.shopping_session_id AND ss.household_id = $1
+            GROUP BY week_start
+            ORDER BY week_start ASC
+        `, [householdId, from, to]);
+        return result.rows;
+    }
+
+    // Items bought per category for each week or month
+    async getCategoryMix(householdId, { from = null, to = null, interval = 'month' } = {}) {
+        if (!INTERVALS.includes(interval)) {
+            throw new Error(`Unknown interval: ${interval}`);
+        }
+
+        const result = await db.query(`
+            SELECT TO_CHAR(DATE_TRUNC('${interval}', gh.completed_at), 'YYYY-MM-DD') as period_start,
+                   COALESCE(gh.category_name, 'Autre') as category_name,
+                   COUNT(*)::int as item_count
+            FROM grocery_history gh
+            WHERE ${RANGE_FILTER} AND gh.status = 'found'
+            GROUP BY period_start, COALESCE(gh.category_name, 'Autre')
+            ORDER BY period_start ASC, item_count DESC
+        `, [householdId, from, to]);
+
+        // One entry per period: { period_start, total, categories: { name: count } }
+        const periods = [];
+        for (const row of result.rows) {
+            let period = periods[periods.length - 1];
+            if (!period || period.period_start !== row.period_start) {
+                period = { period_start: row.period_start, total: 0, categories: {} };
+                periods.push(period);
+            }
+            period.categories[row.category_name] = row.item_count;
+            period.total += row.item_count;
+        }
+        return periods;
+    }
+}
+
+function rate(part, total) {
+    return total > 0 ? Math.round((part / total) * 1000) / 1000 : 0;
+}
+
+// Create singleton instance
+const insightsService = new InsightsService();
+
+module.exports = insightsService;
@@ -0,0 +1,111 @@
+const Product = require('../models/Product');
+const Category = require('../models/Category');
+
+// Fields naming a product or a category next to its id (list items, pantry,
+// staples, history, stores, reviews...)
+const PRODUCT_FIELDS = [['product_id', 'product_name']];
+const CATEGORY_FIELDS = [
+    ['category_id', 'category_name'],
+    ['previous_category_id', 'previous_category_name']
+];
+
+/**
+ * Translates product and category names for the user reading them. Queries
+ * and realtime events carry catalog names (a shared list goes to members
+ * reading different languages); responses are translated last, per user.
+ *
+ * Names are found in the id/name fields above, in products (objects with id,
+ * name and category_id, but no product_id) and in categories (objects with
+ * id, name, icon and sort_order). Products and categories keep their catalog
+ * name as catalog_name, for editing. Names without a translation stay as
+ * they are.
+ */
+class LocaleService {
+    // A copy of a payload with names in a language (the payload itself when
+    // there is nothing to translate)
+    async localize(payload, language) {
+        if (!language) return payload;
+
+        const productIds = new Set();
+        const categoryIds = new Set();
+        collectIds(payload, productIds, categoryIds);
+        if (productIds.size === 0 && categoryIds.size === 0) return payload;
+
+        const [productNames, categoryNames] = await Promise.all([
+            Product.findNames([...productIds], language),
+            Category.findNames([...categoryIds], language)
+        ]);
+        return translate(payload, productNames, categoryNames);
+    }
+}
+
+// A value as it will be serialized (users and dates have their own toJSON)
+function toData(value) {
+    return value && typeof value.toJSON === 'function' ? value.toJSON() : value;
+}
+
+function isProduct(object) {
+    return 'id' in object && 'name' in object && 'category_id' in object && !('product_id' in object);
+}
+
+function isCategory(object) {
+    return 'id' in object && 'name' in object && 'icon' in object && 'sort_order' in object;
+}
+
+function collectIds(value, productIds, categoryIds) {
+    value = toData(value);
+    if (Array.isArray(value)) {
+        for (const child of value) collectIds(child, productIds, categoryIds);
+        return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    for (const [idField, nameField] of PRODUCT_FIELDS) {
+        if (value[idField] && nameField in value) productIds.add(value[idField]);
+    }
+    for (const [idField, nameField] of CATEGORY_FIELDS) {
+        if (value[idField] && nameField in value) categoryIds.add(value[idField]);
+    }
+    if (isProduct(value)) productIds.add(value.id);
+    if (isCategory(value)) categoryIds.add(value.id);
+
+    for (const child of Object.values(value)) collectIds(child, productIds, categoryIds);
+}
+
+function translate(value, productNames, categoryNames) {
+    value = toData(value);
+    if (Array.isArray(value)) {
+        return value.map(child => translate(child, productNames, categoryNames));
+    }
+    if (!value || typeof value !== 'object') return value;
+
+    const result = {};
+    for (const [key, child] of Object.entries(value)) {
+        result[key] = translate(child, productNames, categoryNames);
+    }
+
+    for (const [idField, nameField] of PRODUCT_FIELDS) {
+        if (nameField in result && productNames.has(result[idField])) {
+            result[nameField] = productNames.get(result[idField]);
+        }
+    }
+    for (const [idField, nameField] of CATEGORY_FIELDS) {
+        if (nameField in result && categoryNames.has(result[idField])) {
+            result[nameField] = categoryNames.get(result[idField]);
+        }
+    }
+    if (isProduct(value)) {
+        result.catalog_name = value.name;
+        if (productNames.has(value.id)) result.name = productNames.get(value.id);
+    } else if (isCategory(value)) {
+        result.catalog_name = value.name;
+        if (categoryNames.has(value.id)) result.name = categoryNames.get(value.id);
+    }
+
+    return result;
+}
+
+// Create singleton instance
+const localeService = new LocaleService();
+
+module.exports = localeService;
@@ -0,0 +1,126 @@
+const GroceryItem = require('../models/GroceryItem');
+const MenuPlan = require('../models/MenuPlan');
+const groceryService = require('./groceryService');
+const operationService = require('./operationService');
+const pantryService = require('./pantryService');
+const productService = require('./productService');
+
+class MenuService {
+    // Compare what the week's meals need with what is in the pantry and still on the list.
+    // One line per product:
+    //   action 'add'      - not on the list and short, `missing` is what to add
+    //   action 'increase' - on the list but short, `missing` is what to add on top
+    //   action 'covered'  - stock and list already have enough
+    async getGroceryDiff(householdId, weekStart) {
+        const [products, items, stock] = await Promise.all([
+            MenuPlan.getWeekProducts(householdId, weekStart),
+            GroceryItem.findAllByHousehold(householdId),
+            pantryService.getStock(householdId)
+        ]);
+
+        // Same rule as findByProduct: anything not found yet is still to buy
+        const onList = new Map();
+        for (const item of items) {
+            if (item.status !== 'found') onList.set(item.product_id, item);
+        }
+
+        return products.map(({ amounts, ...product }) => {
+            const item = onList.get(product.id) || null;
+            const inStock = stock.get(product.id) || [];
+            const available = item ? [{ quantity: item.quantity, unit: item.unit }, ...inStock] : inStock;
+            const missing = missingAmounts(amounts, available);
+            return {
+                ...product,
+                needed: amounts,
+                in_stock: inStock,
+                on_list: item ? { id: item.id, quantity: item.quantity, unit: item.unit } : null,
+                missing,
+                action: missing.length === 0 ? 'covered' : item ? 'increase' : 'add'
+            };
+        });
+    }
+
+    // Add the missing amounts of the given products to the list
+    async applyGroceryDiff(householdId, userId, weekStart, productIds) {
+        const batchId = `menu-${Date.now()}`;
+        const wanted = new Set(productIds.map(id => parseInt(id)));
+        const lines = (await this.getGroceryDiff(householdId, weekStart))
+            .filter(line => wanted.has(line.id));
+
+        let addedCount = 0;
+        let increasedCount = 0;
+        const changes = [];
+        for (const line of lines) {
+            if (line.action === 'add') {
+                const [first, ...extra] = line.missing;
+                const item = new GroceryItem({
+                    household_id: householdId,
+                    user_id: userId,
+                    product_id: line.id,
+                    quantity: first.quantity,
+                    unit: first.unit,
+                    note: extraNote(extra),
+                    status: 'pending',
+                    batch_id: batchId
+                });
+                const saved = await item.save();
+                changes.push({ before: null, after: await GroceryItem.findById(saved.id, householdId) });
+                addedCount++;
+            } else if (line.action === 'increase') {
+                const existing = await GroceryItem.findById(line.on_list.id, householdId);
+                const before = operationService.snapshot(existing);
+                for (const amount of line.missing) {
+                    groceryService.mergeQuantity(existing, amount.quantity, amount.unit);
+                }
+                existing.batch_id = batchId;
+                await existing.save();
+                changes.push({ before, after: await GroceryItem.findById(existing.id, householdId) });
+                increasedCount++;
+            }
+        }
+        await operationService.record(householdId, userId, 'menu', changes);
+
+        return {
+            batchId,
+            addedCount,
+            increasedCount,
+            skippedCount: productIds.length - addedCount - increasedCount
+        };
+    }
+}
+
+// What still has to be bought once stock and the list item are taken into
+// account. Each available amount counts against the first need it converts to;
+// needs in other units stay whole. A product with no amount is one piece,
+// or nothing when some is already in stock or on the list.
+function missingAmounts(amounts, available) {
+    if (amounts.length === 0) {
+        return available.length > 0 ? [] : [{ quantity: 1, unit: 'piece' }];
+    }
+
+    const remaining = amounts.map(amount => ({ ...amount }));
+    for (const have of available) {
+        const index = remaining.findIndex(need => productService.combineQuantities(need, have));
+        if (index !== -1) {
+            remaining[index] = productService.combineQuantities(remaining[index], { quantity: -have.quantity, unit: have.unit });
+        }
+    }
+
+    return remaining
+        .filter(need => need.quantity > 0)
+        .map(need => ({
+            quantity: productService.shoppingQuantity(need.quantity, need.unit),
+            unit: need.unit
+        }));
+}
+
+// Amounts that couldn't go into the item's own unit, written like mergeQuantity does
+function extraNote(amounts) {
+    if (amounts.length === 0) return null;
+    return amounts.map(({ quantity, unit }) => `+ ${productService.formatQuantity(quantity, unit)}`).join(' ');
+}
+
+// Create singleton instance
+const menuService = new MenuService();
+
+module.exports = menuService;
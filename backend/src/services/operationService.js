@@ -0,0 +1,208 @@
+const db = require('../config/database');
+const GroceryItem = require('../models/GroceryItem');
+const GroceryOperation = require('../models/GroceryOperation');
+const realtimeService = require('./realtimeService');
+
+// What an item snapshot keeps besides its id; the compared fields decide
+// whether the list still looks the way an operation left it
+const COMPARED_FIELDS = ['product_id', 'quantity', 'unit', 'unit_price', 'best_before', 'status', 'batch_id', 'note'];
+const KEPT_FIELDS = ['user_id', 'product_name', 'created_at'];
+
+// Shoppers only tick items off, so those are the only changes they may undo or redo
+const SHOPPER_TYPES = ['status', 'reset_selection'];
+
+// Older operations are deleted by the daily cleanup
+const RETENTION_DAYS = 30;
+
+class OperationService {
+    // Plain copy of an item as it is now (take it before changing the item)
+    snapshot(item) {
+        if (!item) return null;
+        const snapshot = { id: item.id };
+        for (const field of [...KEPT_FIELDS, ...COMPARED_FIELDS]) {
+            snapshot[field] = item[field] ?? null;
+        }
+        return snapshot;
+    }
+
+    // Log one list change made of item changes [{ before, after }] (items or
+    // snapshots; null before a create and after a delete). Changes that left
+    // an item as it was are dropped, and nothing is logged when none is left.
+    async record(householdId, userId, type, changes) {
+        const logged = changes
+            .map(({ before, after }) => ({
+                id: (after || before).id,
+                before: this.snapshot(before),
+                after: this.snapshot(after)
+            }))
+            .filter(change => !sameItem(change.before, change.after));
+        if (logged.length === 0) return null;
+
+        try {
+            return await db.withTransaction(client =>
+                GroceryOperation.create(householdId, userId, type, logged, client)
+            );
+        } catch (error) {
+            // The change itself went through; only its undo is lost
+            console.error('Error logging list operation:', error);
+            return null;
+        }
+    }
+
+    // What undo and redo would do now
+    async getState(householdId) {
+        const [undo, redo] = await Promise.all([
+            GroceryOperation.findLastDone(householdId),
+            GroceryOperation.findFirstUndone(householdId)
+        ]);
+        return { undo: summarize(undo), redo: summarize(redo) };
+    }
+
+    // Recent list changes, newest first, with who made them and the items
+    // before and after (undone and no longer undoable ones included)
+    async getActivity(householdId, { limit = 50, before = null } = {}) {
+        const operations = await GroceryOperation.findRecent(householdId, { limit, beforeId: before });
+        return operations.map(operation => ({
+            id: operation.id,
+            type: operation.type,
+            state: operation.state,
+            user_id: operation.user_id,
+            user_name: operation.user_name,
+            created_at: operation.created_at,
+            undone_at: operation.undone_at,
+            items: operation.changes.map(change => ({
+                ...change,
+                product_name: (change.after || change.before).product_name
+            }))
+        }));
+    }
+
+    // Revert the latest change
+    async undo(householdId, role) {
+        return this.apply(householdId, role, 'undo');
+    }
+
+    // Make the last undone change again
+    async redo(householdId, role) {
+        return this.apply(householdId, role, 'redo');
+    }
+
+    // Undo puts every item back to its `before` snapshot, redo to its `after`
+    // one. Only when the items still look the way the operation (or its undo)
+    // left them; otherwise something else changed them since, and the operation
+    // is discarded so the next undo can go on past it.
+    async apply(householdId, role, direction) {
+        const result = await db.withTransaction(async (client) => {
+            const operation = direction === 'undo'
+                ? await GroceryOperation.findLastDone(householdId, client, { lock: true })
+                : await GroceryOperation.findFirstUndone(householdId, client, { lock: true });
+            if (!operation) return { operation: null };
+
+            if (role === 'shopper' && !SHOPPER_TYPES.includes(operation.type)) {
+                return { operation, forbidden: true };
+            }
+
+            const [from, to] = direction === 'undo' ? ['after', 'before'] : ['before', 'after'];
+            const current = await GroceryItem.findRowsForUpdate(
+                householdId,
+                operation.changes.map(change => change.id),
+                client
+            );
+            const byId = new Map(current.map(item => [item.id, item]));
+            const unchanged = operation.changes.every(change =>
+                sameItem(change[from], this.snapshot(byId.get(change.id)))
+            );
+
+            if (!unchanged) {
+                await GroceryOperation.setState(operation.id, 'discarded', client);
+                return { operation, conflict: true };
+            }
+
+            for (const change of operation.changes) {
+                if (change[to]) {
+                    await client.query('SAVEPOINT restore_item');
+                    try {
+                        await GroceryItem.restore(householdId, change[to], client);
+                    } catch (error) {
+                        // Its product was deleted in the meantime
+                        if (error.code !== '23503') throw error;
+                        await client.query('ROLLBACK TO SAVEPOINT restore_item');
+                    }
+                } else {
+                    await GroceryItem.deleteById(change.id, householdId, client);
+                }
+            }
+            await GroceryOperation.setState(operation.id, direction === 'undo' ? 'undone' : 'done', client);
+            return { operation };
+        });
+
+        if (result.forbidden) {
+            throw new Error('Not allowed');
+        }
+        if (result.conflict) {
+            throw new Error('List changed');
+        }
+        if (result.operation) {
+            await publishChanges(householdId, result.operation, direction === 'undo' ? 'before' : 'after');
+        }
+        return summarize(result.operation);
+    }
+
+    // A finished trip can't be undone, so neither can anything before it
+    async discardAll(householdId) {
+        return GroceryOperation.discardAll(householdId);
+    }
+
+    // Daily cleanup of the log
+    async deleteOld() {
+        const count = await GroceryOperation.deleteOlderThan(RETENTION_DAYS);
+        if (count > 0) {
+            console.log(`🧹 Deleted ${count} list operations older than ${RETENTION_DAYS} days`);
+        }
+        return count;
+    }
+}
+
+// Same values in the compared fields (null stands for "not on the list")
+function sameItem(a, b) {
+    if (!a || !b) return !a && !b;
+    return COMPARED_FIELDS.every(field => String(a[field] ?? '') === String(b[field] ?? ''));
+}
+
+// Tell the household's other devices what undo / redo changed
+async function publishChanges(householdId, operation, side) {
+    const deletedIds = [];
+    for (const change of operation.changes) {
+        if (!change[side]) {
+            deletedIds.push(change.id);
+            continue;
+        }
+        const type = change[side === 'before' ? 'after' : 'before'] ? 'item.updated' : 'item.created';
+        const item = await GroceryItem.publishChange(type, change.id, householdId);
+        if (!item) deletedIds.push(change.id);
+    }
+    if (deletedIds.length > 0) {
+        realtimeService.itemsDeleted(householdId, deletedIds);
+    }
+}
+
+// What the client shows on the undo / redo buttons
+function summarize(operation) {
+    if (!operation) return null;
+    return {
+        id: operation.id,
+        type: operation.type,
+        user_id: operation.user_id,
+        user_name: operation.user_name,
+        created_at: operation.created_at,
+        item_count: operation.changes.length,
+        product_names: operation.changes
+            .map(change => (change.after || change.before).product_name)
+            .filter(Boolean)
+    };
+}
+
+// Create singleton instance
+const operationService = new OperationService();
+
+module.exports = operationService;
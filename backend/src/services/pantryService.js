@@ -0,0 +1,109 @@
+const db = require('../config/database');
+const PantryItem = require('../models/PantryItem');
+const productService = require('./productService');
+const expiryService = require('./expiryService');
+
+class PantryService {
+    // Put an amount of a product in the pantry, merging it into the row whose
+    // unit it converts to (500 g goes onto "1 kg"); otherwise a new row is made.
+    // A merged row keeps the earlier best-before date.
+    // Pass the transaction client when called while completing a trip.
+    async addStock(householdId, userId, { productId, quantity, unit = 'piece', bestBefore = null }, reason = 'added', client = db) {
+        const rows = await PantryItem.findByProduct(householdId, productId, client);
+        let id = null;
+        for (const row of rows) {
+            const combined = productService.combineQuantities(
+                { quantity: Math.max(row.quantity, 0), unit: row.unit },
+                { quantity, unit }
+            );
+            if (combined) {
+                await PantryItem.update(row.id, householdId, {
+                    quantity: combined.quantity,
+                    bestBefore: row.quantity > 0 ? earliestDate(row.best_before, bestBefore) : bestBefore
+                }, client);
+                id = row.id;
+                break;
+            }
+        }
+        if (id === null) {
+            id = await PantryItem.create(householdId, { productId, quantity, unit, bestBefore }, client);
+        }
+        await PantryItem.logEvent(householdId, userId, { productId, quantity, unit, reason }, client);
+        expiryService.forget(householdId);
+        return id;
+    }
+
+    // Take an amount out (consumed or discarded). The amount may be in any unit
+    // that converts to the row's; the row stays at zero so it shows as running low.
+    async removeStock(householdId, userId, id, { quantity, unit, reason }) {
+        return db.withTransaction(async (client) => {
+            const item = await PantryItem.findById(id, householdId, client);
+            if (!item) return null;
+
+            const taken = unit && unit !== item.unit
+                ? productService.combineQuantities({ quantity: 0, unit: item.unit }, { quantity, unit })
+                : { quantity, unit: item.unit };
+            if (!taken) {
+                throw new Error('Incompatible unit');
+            }
+
+            // Once used up the date no longer applies
+            const left = Math.max(Math.round((item.quantity - taken.quantity) * 1000) / 1000, 0);
+            await PantryItem.update(id, householdId, {
+                quantity: left,
+                bestBefore: left > 0 ? undefined : null
+            }, client);
+            await PantryItem.logEvent(householdId, userId, {
+                productId: item.product_id,
+                quantity: -Math.min(taken.quantity, item.quantity),
+                unit: item.unit,
+                reason
+            }, client);
+            expiryService.forget(householdId);
+            return PantryItem.findById(id, householdId, client);
+        });
+    }
+
+    // Correct the counted quantity, the running-low level and/or the best-before date
+    async adjust(householdId, userId, id, { quantity, lowQuantity, bestBefore }) {
+        return db.withTransaction(async (client) => {
+            const item = await PantryItem.findById(id, householdId, client);
+            if (!item) return null;
+
+            await PantryItem.update(id, householdId, { quantity, lowQuantity, bestBefore }, client);
+            if (quantity !== undefined && quantity !== item.quantity) {
+                await PantryItem.logEvent(householdId, userId, {
+                    productId: item.product_id,
+                    quantity: Math.round((quantity - item.quantity) * 1000) / 1000,
+                    unit: item.unit,
+                    reason: 'adjusted'
+                }, client);
+            }
+            expiryService.forget(householdId);
+            return PantryItem.findById(id, householdId, client);
+        });
+    }
+
+    // Amounts in stock per product: Map of product_id -> [{ quantity, unit }]
+    async getStock(householdId) {
+        const items = await PantryItem.findAllByHousehold(householdId);
+        const stock = new Map();
+        for (const item of items) {
+            if (item.quantity <= 0) continue;
+            if (!stock.has(item.product_id)) stock.set(item.product_id, []);
+            stock.get(item.product_id).push({ quantity: item.quantity, unit: item.unit });
+        }
+        return stock;
+    }
+}
+
+// Earlier of two 'YYYY-MM-DD' dates, ignoring missing ones
+function earliestDate(a, b) {
+    if (!a || !b) return a || b || null;
+    return a < b ? a : b;
+}
+
+// Create singleton instance
+const pantryService = new PantryService();
+
+module.exports = pantryService;
@@ -1,33 +1,211 @@
+const db = require('../config/database');
 const Product = require('../models/Product');
 const Category = require('../models/Category');
+const GroceryItem = require('../models/GroceryItem');
+const AiReview = require('../models/AiReview');
+const realtimeService = require('./realtimeService');
+
+// Similarity thresholds for fuzzy lookups (0..1, see similarity())
+const HIGH_CONFIDENCE = 0.85;   // Use the product without asking
+const MEDIUM_CONFIDENCE = 0.6;  // Offer it as a "did you mean" choice
+const MAX_SUGGESTIONS = 3;
+// Catalog names at least this similar (after normalizing) are flagged as duplicates
+const DUPLICATE_SIMILARITY = 0.85;
+// Shorter names differ too much by a single letter ("Thé" / "Thym") to be compared loosely
+const DUPLICATE_MIN_LENGTH = 5;
+
+// Unit words in French, English and Hebrew. Factor converts to the unit
+// (e.g. "cl" is 10 ml). Lookups are lowercase.
+const UNIT_WORDS = buildUnitWords({
+    g: ['g', 'gr', 'grs', 'gramme', 'grammes', 'gram', 'grams', 'גרם'],
+    kg: ['kg', 'kgs', 'kilo', 'kilos', 'kilogramme', 'kilogrammes', 'kilogram', 'kilograms', 'ק"ג', 'ק״ג', 'קג', 'קילו'],
+    ml: ['ml', 'millilitre', 'millilitres', 'milliliter', 'milliliters', 'מ"ל', 'מ״ל', 'מל'],
+    l: ['l', 'litre', 'litres', 'liter', 'liters', 'ליטר', 'ליטרים'],
+    pack: ['pack', 'packs', 'paquet', 'paquets', 'lot', 'lots', 'pkg', 'חבילה', 'חבילות', 'מארז', 'מארזים'],
+    piece: ['piece', 'pieces', 'pièce', 'pièces', 'pc', 'pcs', 'unité', 'unités', 'יחידה', 'יחידות', 'יח'],
+    dozen: ['dozen', 'dozens', 'douzaine', 'douzaines', 'תריסר', 'תריסרים'],
+}, {
+    cl: { unit: 'ml', factor: 10 },
+    centilitre: { unit: 'ml', factor: 10 },
+    centilitres: { unit: 'ml', factor: 10 },
+});
+
+// Units that can stand alone for one ("douzaine d'oeufs", "pack de bières")
+const COUNTABLE_UNITS = ['pack', 'dozen'];
+
+// Conversion between units of the same kind
+const UNIT_DIMENSIONS = {
+    g: { dimension: 'mass', factor: 1 },
+    kg: { dimension: 'mass', factor: 1000 },
+    ml: { dimension: 'volume', factor: 1 },
+    l: { dimension: 'volume', factor: 1000 },
+    piece: { dimension: 'count', factor: 1 },
+    dozen: { dimension: 'count', factor: 12 },
+    pack: { dimension: 'pack', factor: 1 },
+};
+
+// Small units are priced like shelf labels: per kg / per L
+const PRICE_UNITS = { g: 'kg', ml: 'l' };
+
+// Numbers written as words, only recognized at the start of a line
+const NUMBER_WORDS = {
+    un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9, dix: 10, douze: 12,
+    demi: 0.5, demie: 0.5,
+    one: 1, two: 2, three: 3, four: 4, five: 5, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, half: 0.5,
+    'אחד': 1, 'אחת': 1, 'שני': 2, 'שתי': 2, 'שניים': 2, 'שתיים': 2, 'שלוש': 3, 'שלושה': 3, 'ארבע': 4, 'ארבעה': 4,
+    'חמש': 5, 'חמישה': 5, 'שש': 6, 'שישה': 6, 'שבע': 7, 'שבעה': 7, 'שמונה': 8, 'תשע': 9, 'תשעה': 9,
+    'עשר': 10, 'עשרה': 10, 'חצי': 0.5,
+};
+
+// Words between an amount and the product ("1 kg de pommes", "a pack of beers")
+const CONNECTORS = ['de', 'des', 'du', "d'", 'd’', 'of', 'x', '×', 'של'];
+const MULTIPLY_SIGNS = ['x', '×'];
 
 class ProductService {
-    // Parse a line to extract quantity and product term
+    // Parse a line to extract quantity, unit and product term (French, English, Hebrew).
+    // e.g. "500g steak haché", "1,5 kg de pommes", "2 packs de 6 yaourts",
+    // "une douzaine d'oeufs", "pain x3", "lait 2 L", "2 x 500g riz", "2 ק"ג עגבניות".
+    // hasQuantity is false when the line didn't mention any amount. Amounts are
+    // capped to what the list can hold (see limitQuantity).
     parseLineForProduct(line) {
         const trimmed = line.trim();
-        
-        // Pattern 1: Quantity first (e.g., "2 pommes", "3 apples")
-        const qtyFirstMatch = trimmed.match(/^(\d+)\s+(.+)$/u);
-        if (qtyFirstMatch) {
-            const qty = parseInt(qtyFirstMatch[1]);
-            const product = qtyFirstMatch[2].trim();
-            if (!isNaN(qty) && product.length > 0) {
-                return { quantity: qty, term: product };
+        const tokens = trimmed.split(/\s+/);
+
+        // Quantity first (e.g., "2 pommes", "500g steak haché", "une douzaine d'oeufs")
+        const leading = readQuantity(tokens, 0, { allowWords: true });
+        if (leading) {
+            let { quantity, unit } = leading;
+            let rest = tokens.slice(leading.next);
+
+            // "2 x 500g riz", "2x 1 l lait": so many times an amount
+            const sign = rest.length > 0 && MULTIPLY_SIGNS.includes(rest[0].toLowerCase());
+            const each = unit === 'piece' && (sign || /\d[x×]$/iu.test(tokens[leading.next - 1]))
+                ? readQuantity(rest, sign ? 1 : 0)
+                : null;
+            if (each && each.next < rest.length) {
+                quantity = roundQuantity(quantity * each.quantity);
+                unit = each.unit;
+                rest = rest.slice(each.next);
+            }
+            rest = stripConnector(rest);
+
+            // "2 packs de 6 yaourts": the second number is the pack size
+            let packSize = null;
+            if (unit === 'pack' && rest.length > 1 && /^\d+$/.test(rest[0])) {
+                packSize = parseInt(rest[0]);
+                rest = stripConnector(rest.slice(1));
+            }
+
+            if (rest.length > 0) {
+                return { quantity: this.limitQuantity(quantity), unit, packSize, term: rest.join(' '), hasQuantity: true };
             }
         }
 
-        // Pattern 2: Quantity last (e.g., "pommes 2", "tomate 2")
-        const qtyLastMatch = trimmed.match(/^(.+)\s+(\d+)$/u);
-        if (qtyLastMatch) {
-            const product = qtyLastMatch[1].trim();
-            const qty = parseInt(qtyLastMatch[2]);
-            if (!isNaN(qty) && product.length > 0) {
-                return { quantity: qty, term: product };
+        // Quantity last (e.g., "pommes 2", "lait 2 L", "pain x3", "pain x 3")
+        for (let start = Math.max(tokens.length - 2, 1); start < tokens.length; start++) {
+            const trailing = readQuantity(tokens, start);
+            if (trailing && trailing.next === tokens.length) {
+                const rest = tokens.slice(0, start);
+                if (rest.length > 1 && MULTIPLY_SIGNS.includes(rest[rest.length - 1].toLowerCase())) {
+                    rest.pop();
+                }
+                return { quantity: this.limitQuantity(trailing.quantity), unit: trailing.unit, packSize: null, term: rest.join(' '), hasQuantity: true };
             }
         }
         
         // No quantity found
-        return { quantity: 1, term: trimmed };
+        return { quantity: 1, unit: 'piece', packSize: null, term: trimmed, hasQuantity: false };
+    }
+
+    // An amount capped to what the NUMERIC(10, 3) quantity columns hold
+    limitQuantity(quantity) {
+        return Math.min(quantity, GroceryItem.MAX_QUANTITY);
+    }
+
+    // Map a unit word ("kilos", "ק"ג", "L"...) to one of GroceryItem.UNITS, or null
+    normalizeUnit(unit) {
+        if (!unit) return null;
+        const key = String(unit).toLowerCase().trim();
+        if (GroceryItem.UNITS.includes(key)) return key;
+        const known = UNIT_WORDS[key];
+        return known && known.factor === 1 ? known.unit : null;
+    }
+
+    // Add two amounts, converting between compatible units (g/kg, ml/l, piece/dozen).
+    // The result keeps the first amount's unit; returns null when units can't be mixed.
+    combineQuantities(a, b) {
+        if (a.unit === b.unit) {
+            return { quantity: roundQuantity(a.quantity + b.quantity), unit: a.unit };
+        }
+        const from = UNIT_DIMENSIONS[b.unit];
+        const to = UNIT_DIMENSIONS[a.unit];
+        if (!from || !to || from.dimension !== to.dimension) {
+            return null;
+        }
+        return {
+            quantity: roundQuantity(a.quantity + b.quantity * from.factor / to.factor),
+            unit: a.unit
+        };
+    }
+
+    // Sum a list of amounts, merging the ones whose units can be converted.
+    // Each total keeps the unit it was first seen in: [200 g, 1 kg, 2 pieces] -> [1200 g, 2 pieces]
+    sumAmounts(amounts) {
+        const totals = [];
+        for (const amount of amounts) {
+            const index = totals.findIndex(total => this.combineQuantities(total, amount));
+            if (index === -1) {
+                totals.push({ quantity: roundQuantity(amount.quantity), unit: amount.unit });
+            } else {
+                totals[index] = this.combineQuantities(totals[index], amount);
+            }
+        }
+        return totals;
+    }
+
+    // Amount worth putting on the list: whole pieces, packs and dozens are rounded up
+    shoppingQuantity(quantity, unit = 'piece') {
+        const dimension = UNIT_DIMENSIONS[unit] ? UNIT_DIMENSIONS[unit].dimension : 'count';
+        if (dimension === 'count' || dimension === 'pack') {
+            // Tolerate float noise from scaling (2.0000001 pieces is 2)
+            return Math.max(1, Math.ceil(quantity - 0.001));
+        }
+        return Math.max(roundQuantity(quantity), 0.001);
+    }
+
+    // Unit a price applies to for an amount in `unit` (g is priced per kg, ml per L)
+    priceUnit(unit = 'piece') {
+        return PRICE_UNITS[unit] || unit;
+    }
+
+    // Cost of an amount at a unit price, rounded to cents (null without a price)
+    lineCost(quantity, unit, unitPrice) {
+        if (unitPrice === null || unitPrice === undefined) return null;
+        const from = UNIT_DIMENSIONS[unit];
+        const to = UNIT_DIMENSIONS[this.priceUnit(unit)];
+        const amount = from && to ? quantity * from.factor / to.factor : quantity;
+        return Math.round(amount * unitPrice * 100) / 100;
+    }
+
+    // Human-readable amount, e.g. "x2", "500 g", "1.5 kg", "2 packs"
+    formatQuantity(quantity, unit = 'piece') {
+        switch (unit) {
+            case 'piece': return `x${quantity}`;
+            case 'l': return `${quantity} L`;
+            case 'pack': return `${quantity} ${quantity > 1 ? 'packs' : 'pack'}`;
+            case 'dozen': return `${quantity} dozen`;
+            default: return `${quantity} ${unit}`;
+        }
+    }
+
+    // Best-before date ('YYYY-MM-DD') of the product bought today, from its own
+    // shelf life or its category's (null when neither is set)
+    defaultBestBefore(product) {
+        const days = product.shelf_life_days ?? product.category_shelf_life_days;
+        if (!days) return null;
+        const date = new Date();
+        date.setDate(date.getDate() + days);
+        return localDate(date);
     }
 
     // Lookup a product by name or alias
@@ -35,36 +213,115 @@ class ProductService {
         return Product.lookup(term);
     }
 
-    // Parse multiple lines and return found/unfound items
-    async parseLines(lines) {
+    // Find the catalog product closest to a term (accent-insensitive, typo tolerant).
+    // Pass a preloaded catalog (Product.findAll()) when matching many terms.
+    async findClosestProduct(term, catalog = null) {
+        const products = catalog || await Product.findAll();
+        return this.findSimilarProducts(term, products, 1)[0] || { product: null, score: 0 };
+    }
+
+    // Rank catalog products by similarity to a term, best first.
+    // Each product scores its best name (in any language) or alias against the
+    // term's plural variants.
+    findSimilarProducts(term, catalog, limit = MAX_SUGGESTIONS) {
+        const variants = Product.getPluralVariants(normalizeText(term));
+        const matches = [];
+
+        for (const product of catalog) {
+            let score = 0;
+            const names = [product.name, ...Object.values(product.names || {}), ...(product.aliases || [])];
+            for (const name of names) {
+                const normalizedName = normalizeText(name);
+                for (const variant of variants) {
+                    score = Math.max(score, similarity(variant, normalizedName));
+                }
+            }
+            if (score > 0) {
+                matches.push({ product, score });
+            }
+        }
+
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    // Guess a category from catalog products named inside the term
+    // (e.g. "yaourt fraise" → category of "Yaourt"). Longest product name wins.
+    guessCategory(term, catalog) {
+        const words = ` ${normalizeText(term)} `;
+        let best = null;
+
+        for (const product of catalog) {
+            const name = normalizeText(product.name);
+            if (name.length < 3 || !words.includes(` ${name} `)) continue;
+            if (!best || name.length > normalizeText(best.name).length) {
+                best = product;
+            }
+        }
+
+        return best ? best.category_name : null;
+    }
+
+    // Parse multiple lines and return found/unfound items.
+    // Lines without an exact match are compared to the catalog: close matches
+    // resolve locally, plausible ones come back as suggestions for the user.
+    async parseLines(lines, { fuzzy = true } = {}) {
         const found = [];
+        const suggestions = [];
         const notFound = [];
+        let catalog = null;
 
         for (const line of lines) {
             if (!line.trim()) continue;
             
-            const { quantity, term } = this.parseLineForProduct(line);
+            const { quantity, unit, packSize, hasQuantity, term } = this.parseLineForProduct(line);
+            const amount = { quantity, unit, packSize, hasQuantity };
             const product = await this.lookupProduct(term);
             
             if (product) {
                 found.push({
                     product,
-                    quantity,
+                    ...amount,
                     originalInput: line.trim()
                 });
                 console.log(`✅ Found: "${term}" → ${product.name} [${product.category_name}]`);
+                continue;
+            }
+
+            const matches = [];
+            if (fuzzy) {
+                // Load the catalog once, only when a line needs it
+                catalog = catalog || await Product.findAll();
+                matches.push(...this.findSimilarProducts(term, catalog)
+                    .filter(match => match.score >= MEDIUM_CONFIDENCE));
+            }
+
+            if (matches.length > 0 && matches[0].score >= HIGH_CONFIDENCE) {
+                found.push({
+                    product: matches[0].product,
+                    ...amount,
+                    originalInput: line.trim()
+                });
+                console.log(`🔎 Fuzzy match: "${term}" → ${matches[0].product.name} (${matches[0].score.toFixed(2)})`);
+            } else if (matches.length > 0) {
+                suggestions.push({
+                    term,
+                    ...amount,
+                    originalInput: line.trim(),
+                    candidates: matches
+                });
+                console.log(`🤔 Did you mean: "${term}" → ${matches.map(m => m.product.name).join(', ')}`);
             } else {
                 notFound.push({
                     term,
-                    quantity,
+                    ...amount,
                     originalInput: line.trim()
                 });
                 console.log(`❌ Not found: "${term}"`);
             }
         }
 
-        console.log(`📊 Lookup stats: ${found.length} found, ${notFound.length} need AI`);
-        return { found, notFound };
+        console.log(`📊 Lookup stats: ${found.length} found, ${suggestions.length} to confirm, ${notFound.length} need AI`);
+        return { found, suggestions, notFound };
     }
 
     // Create a new product and optionally add the original term as alias
@@ -88,10 +345,24 @@ class ProductService {
         return category;
     }
 
-    // Learn from AI result: create product and alias
-    async learnFromAI(correctName, categoryName, originalInput) {
+    // Learn from AI result: create product and alias. Every catalog change it
+    // makes (new category, new product, category moved, new alias) is recorded
+    // for review with the input it came from; `source` says whose input it was.
+    async learnFromAI(correctName, categoryName, originalInput, source = {}) {
+        const review = {
+            householdId: source.householdId ?? null,
+            userId: source.userId ?? null,
+            originalInput,
+            aiProduct: correctName,
+            aiCategory: categoryName
+        };
+
         // Get or create category
-        const category = await this.getOrCreateCategory(categoryName);
+        let category = await Category.findByName(categoryName);
+        if (!category) {
+            category = await Category.create(categoryName, '📦', 50);
+            await recordReview({ ...review, kind: 'category', categoryId: category.id });
+        }
         
         // Check if product already exists
         let product = await Product.findByName(correctName);
@@ -99,19 +370,35 @@ class ProductService {
         if (product) {
             // Update category if different
             if (product.category_id !== category.id) {
+                const previousCategoryId = product.category_id;
                 product.category_id = category.id;
                 await product.save();
+                await recordReview({
+                    ...review,
+                    kind: 'category_change',
+                    productId: product.id,
+                    categoryId: category.id,
+                    previousCategoryId
+                });
             }
         } else {
             // Create new product
             product = await Product.create(correctName, category.id);
             console.log(`➕ Created product: ${correctName} [${categoryName}]`);
+            await recordReview({ ...review, kind: 'product', productId: product.id, categoryId: category.id });
         }
         
-        // Add original input as alias if different
-        if (originalInput && originalInput.toLowerCase() !== correctName.toLowerCase()) {
+        // Add original input as alias if different (and not already someone's alias)
+        if (originalInput && originalInput.toLowerCase() !== correctName.toLowerCase() &&
+            !await Product.findByAlias(originalInput)) {
             await product.addAlias(originalInput);
             console.log(`📝 Added alias: "${originalInput}" → "${correctName}"`);
+            await recordReview({
+                ...review,
+                kind: 'alias',
+                productId: product.id,
+                alias: originalInput.toLowerCase().trim()
+            });
         }
         
         return product;
@@ -126,6 +413,207 @@ class ProductService {
         return product.save();
     }
 
+    // Groups of catalog products that are probably the same thing: names equal
+    // once accents, ligatures and plurals are ignored ("Oeufs" / "Œufs"), a name
+    // matching another product's alias, or close spellings. Each group is sorted
+    // with the most used product (the suggested merge target) first.
+    async findDuplicates() {
+        const catalog = await Product.findAll();
+        const usage = await getProductUsage();
+        const keys = catalog.map(product => duplicateKey(product.name));
+
+        // Union-find over catalog indexes
+        const parent = catalog.map((_, i) => i);
+        const find = (i) => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+        const reasons = new Map();
+        const join = (a, b, reason) => {
+            const [rootA, rootB] = [find(a), find(b)];
+            if (rootA !== rootB) parent[rootB] = rootA;
+            const root = find(a);
+            // Keep the strongest reason of everything joined into the group
+            const previous = [reasons.get(rootA), reasons.get(rootB), reason];
+            reasons.set(root, DUPLICATE_REASONS.find(known => previous.includes(known)));
+        };
+
+        const byKey = new Map();
+        catalog.forEach((product, i) => {
+            const key = keys[i];
+            if (byKey.has(key)) join(byKey.get(key), i, 'same_name');
+            else byKey.set(key, i);
+        });
+
+        catalog.forEach((product, i) => {
+            for (const alias of product.aliases) {
+                const other = byKey.get(duplicateKey(alias));
+                if (other !== undefined && find(other) !== find(i)) join(other, i, 'alias');
+            }
+        });
+
+        for (let i = 0; i < catalog.length; i++) {
+            if (keys[i].length < DUPLICATE_MIN_LENGTH) continue;
+            for (let j = i + 1; j < catalog.length; j++) {
+                if (keys[j].length < DUPLICATE_MIN_LENGTH || find(i) === find(j)) continue;
+                if (similarity(keys[i], keys[j]) >= DUPLICATE_SIMILARITY) join(i, j, 'similar');
+            }
+        }
+
+        const groups = new Map();
+        catalog.forEach((product, i) => {
+            const root = find(i);
+            if (!groups.has(root)) groups.set(root, []);
+            groups.get(root).push({ ...product, usage: usage.get(product.id) || 0 });
+        });
+
+        return [...groups.entries()]
+            .filter(([, products]) => products.length > 1)
+            .map(([root, products]) => ({
+                reason: reasons.get(root),
+                products: products.sort((a, b) => b.usage - a.usage || a.id - b.id)
+            }))
+            .sort((a, b) => a.products[0].name.localeCompare(b.products[0].name));
+    }
+
+    // Merge duplicate products into one: list items, history, meals, pantry,
+    // staples and store placements move to the target, the sources' names and
+    // aliases become its aliases, then the sources are deleted, all in one
+    // transaction. Returns the target, or null if a product doesn't exist.
+    async mergeProducts(targetId, sourceIds) {
+        const result = await db.withTransaction(async (client) => {
+            const products = await client.query(
+                'SELECT id, name FROM products WHERE id = ANY($1::int[]) FOR UPDATE',
+                [[targetId, ...sourceIds]]
+            );
+            if (products.rows.length !== sourceIds.length + 1) return null;
+            const target = products.rows.find(row => row.id === targetId);
+
+            // Names and aliases: every source name is kept as a way to find the target
+            await client.query(
+                'UPDATE product_aliases SET product_id = $1 WHERE product_id = ANY($2::int[])',
+                [targetId, sourceIds]
+            );
+            await client.query(`
+                INSERT INTO product_aliases (product_id, alias)
+                SELECT $1, LOWER(TRIM(name)) FROM products WHERE id = ANY($2::int[])
+                ON CONFLICT (alias) DO NOTHING
+            `, [targetId, sourceIds]);
+
+            // Translated names: one per language, the target's wins (then the lowest
+            // source id, like repointUnique); the names that lose become aliases
+            await client.query(`
+                INSERT INTO product_aliases (product_id, alias)
+                SELECT $1, LOWER(TRIM(t.name)) FROM product_names t
+                WHERE t.product_id = ANY($2::int[])
+                  AND EXISTS (
+                      SELECT 1 FROM product_names other
+                      WHERE other.language = t.language
+                        AND (other.product_id = $1
+                             OR (other.product_id = ANY($2::int[]) AND other.product_id < t.product_id))
+                  )
+                ON CONFLICT (alias) DO NOTHING
+            `, [targetId, sourceIds]);
+            await repointUnique(client, 'product_names', ['language'], targetId, sourceIds);
+
+            await client.query(
+                'DELETE FROM product_aliases WHERE product_id = $1 AND alias = LOWER(TRIM($2))',
+                [targetId, target.name]
+            );
+
+            // List items move over; a household then left with two active items
+            // of the product in one unit keeps the oldest with the amounts summed
+            const moved = await client.query(`
+                UPDATE grocery_items SET product_id = $1, updated_at = NOW()
+                WHERE product_id = ANY($2::int[])
+                RETURNING id, household_id
+            `, [targetId, sourceIds]);
+            const duplicates = await client.query(`
+                SELECT household_id,
+                       (ARRAY_AGG(id ORDER BY created_at ASC, id ASC))[1] as keep_id,
+                       SUM(quantity) as total_quantity,
+                       STRING_AGG(DISTINCT note, '; ') as merged_notes
+                FROM grocery_items
+                WHERE product_id = $1 AND status != 'found'
+                GROUP BY household_id, unit
+                HAVING COUNT(*) > 1
+            `, [targetId]);
+            const deleted = [];
+            for (const dup of duplicates.rows) {
+                await client.query(
+                    'UPDATE grocery_items SET quantity = $1, note = $2, updated_at = NOW() WHERE id = $3',
+                    [dup.total_quantity, dup.merged_notes, dup.keep_id]
+                );
+                const removed = await client.query(`
+                    DELETE FROM grocery_items
+                    WHERE household_id = $1 AND product_id = $2 AND status != 'found'
+                      AND unit = (SELECT unit FROM grocery_items WHERE id = $3) AND id != $3
+                    RETURNING id, household_id
+                `, [dup.household_id, targetId, dup.keep_id]);
+                deleted.push(...removed.rows);
+            }
+
+            // Pantry stock adds up per household and unit
+            await client.query(`
+                INSERT INTO pantry_items (household_id, product_id, quantity, unit, low_quantity, best_before)
+                SELECT household_id, $1, SUM(quantity), unit, MAX(low_quantity), MIN(best_before)
+                FROM pantry_items
+                WHERE product_id = ANY($2::int[])
+                GROUP BY household_id, unit
+                ON CONFLICT (household_id, product_id, unit) DO UPDATE
+                SET quantity = pantry_items.quantity + EXCLUDED.quantity,
+                    low_quantity = COALESCE(pantry_items.low_quantity, EXCLUDED.low_quantity),
+                    best_before = LEAST(pantry_items.best_before, EXCLUDED.best_before),
+                    updated_at = NOW()
+            `, [targetId, sourceIds]);
+            await client.query('DELETE FROM pantry_items WHERE product_id = ANY($1::int[])', [sourceIds]);
+
+            // One row per meal / household / store: the target's wins
+            await repointUnique(client, 'meal_items', ['meal_id'], targetId, sourceIds);
+            await repointUnique(client, 'staples', ['household_id'], targetId, sourceIds);
+            await repointUnique(client, 'suggestion_dismissals', ['household_id'], targetId, sourceIds);
+            await repointUnique(client, 'store_products', ['store_id'], targetId, sourceIds);
+
+            for (const table of ['grocery_history', 'pantry_events']) {
+                await client.query(
+                    `UPDATE ${table} SET product_id = $1 WHERE product_id = ANY($2::int[])`,
+                    [targetId, sourceIds]
+                );
+            }
+
+            // Reviews follow the product too. A new merged-away product was folded into an existing
+            // one, so its review is closed: rejecting it later would delete the product that remains
+            await client.query(`
+                UPDATE ai_reviews
+                SET status = 'rejected', reviewed_at = NOW()
+                WHERE kind = 'product' AND status = 'pending' AND product_id = ANY($1::int[])
+            `, [sourceIds]);
+            await client.query(
+                'UPDATE ai_reviews SET product_id = $1 WHERE product_id = ANY($2::int[])',
+                [targetId, sourceIds]
+            );
+
+            await client.query('DELETE FROM products WHERE id = ANY($1::int[])', [sourceIds]);
+            return { moved: moved.rows, deleted };
+        });
+
+        if (!result) return null;
+
+        // Other devices show the new name on the moved list items
+        const deletedIds = new Set(result.deleted.map(row => row.id));
+        for (const row of result.moved) {
+            if (!deletedIds.has(row.id)) {
+                await GroceryItem.publishChange('item.updated', row.id, row.household_id);
+            }
+        }
+        const deletedByHousehold = new Map();
+        for (const row of result.deleted) {
+            deletedByHousehold.set(row.household_id, [...(deletedByHousehold.get(row.household_id) || []), row.id]);
+        }
+        for (const [householdId, ids] of deletedByHousehold) {
+            realtimeService.itemsDeleted(householdId, ids);
+        }
+
+        return Product.findById(targetId);
+    }
+
     // Get all products grouped by category
     async getProductsByCategory() {
         const products = await Product.findAll();
@@ -143,6 +631,181 @@ class ProductService {
     }
 }
 
+function buildUnitWords(synonyms, extra) {
+    const words = { ...extra };
+    for (const [unit, list] of Object.entries(synonyms)) {
+        for (const word of list) {
+            words[word] = { unit, factor: 1 };
+        }
+    }
+    return words;
+}
+
+function roundQuantity(value) {
+    return Math.round(value * 1000) / 1000;
+}
+
+// Read an amount starting at tokens[index]: a number ("2", "1,5", "1/2", "x3", "3x"),
+// optionally glued to or followed by a unit ("500g", "2 L"). With allowWords, number
+// words ("deux", "שלוש") and a bare pack/dozen also count.
+// Returns { quantity, unit, next } where next is the first token after the amount.
+function readQuantity(tokens, index, { allowWords = false } = {}) {
+    const token = (tokens[index] || '').toLowerCase();
+    let quantity = null;
+    let unit = null;
+    let factor = 1;
+
+    const match = token.match(/^[x×]?(\d+\/\d+|\d+(?:[.,]\d+)?)[x×]?(.*)$/u);
+    if (match) {
+        quantity = parseNumber(match[1]);
+        if (match[2]) {
+            const known = UNIT_WORDS[match[2]];
+            if (!known) return null; // e.g. "7up" is a product, not an amount
+            ({ unit, factor } = known);
+        }
+    } else if (allowWords && NUMBER_WORDS[token] !== undefined) {
+        quantity = NUMBER_WORDS[token];
+    } else if (allowWords && UNIT_WORDS[token] && COUNTABLE_UNITS.includes(UNIT_WORDS[token].unit)) {
+        return { quantity: 1, unit: UNIT_WORDS[token].unit, next: index + 1 };
+    } else {
+        return null;
+    }
+
+    if (!quantity || quantity <= 0) return null;
+
+    let next = index + 1;
+    if (!unit && tokens[next]) {
+        const known = UNIT_WORDS[stripElision(tokens[next].toLowerCase())];
+        if (known) {
+            ({ unit, factor } = known);
+            next++;
+        }
+    }
+
+    return { quantity: roundQuantity(quantity * factor), unit: unit || 'piece', next };
+}
+
+function parseNumber(text) {
+    if (text.includes('/')) {
+        const [numerator, denominator] = text.split('/').map(Number);
+        return denominator ? numerator / denominator : null;
+    }
+    return parseFloat(text.replace(',', '.'));
+}
+
+// "kilo d'oranges" → the unit word is "kilo"
+function stripElision(token) {
+    return token.replace(/^d['’]/, '');
+}
+
+// Drop connector words before the product name, including "d'" glued to it
+function stripConnector(tokens) {
+    const rest = [...tokens];
+    while (rest.length > 1 && CONNECTORS.includes(rest[0].toLowerCase())) {
+        rest.shift();
+    }
+    if (rest.length > 0 && /^d['’]./i.test(rest[0])) {
+        rest[0] = rest[0].slice(2);
+    }
+    return rest;
+}
+
+// 'YYYY-MM-DD' in the server's time zone
+function localDate(date) {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Queue an AI-made catalog change for review. A failure is only logged:
+// the item the user asked for still gets added.
+async function recordReview(review) {
+    try {
+        await AiReview.create(review);
+    } catch (error) {
+        console.error('Failed to record AI change for review:', error);
+    }
+}
+
+// Why products were grouped as duplicates, strongest first
+const DUPLICATE_REASONS = ['same_name', 'alias', 'similar'];
+
+// Name reduced to what duplicates share: no accents, ligatures spelled out,
+// punctuation ignored and each word singular ("Œufs" and "oeuf" → "oeuf")
+function duplicateKey(name) {
+    return normalizeText(name)
+        .replace(/œ/g, 'oe')
+        .replace(/æ/g, 'ae')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .map(word => (word.length > 3 && /[sx]$/.test(word) ? word.slice(0, -1) : word))
+        .join(' ');
+}
+
+// How often each product was used: list items, history lines and meal ingredients
+async function getProductUsage() {
+    const result = await db.query(`
+        SELECT product_id, COUNT(*) as uses
+        FROM (
+            SELECT product_id FROM grocery_items
+            UNION ALL SELECT product_id FROM grocery_history
+            UNION ALL SELECT product_id FROM meal_items
+        ) used
+        WHERE product_id IS NOT NULL
+        GROUP BY product_id
+    `);
+    return new Map(result.rows.map(row => [row.product_id, parseInt(row.uses)]));
+}
+
+// Point a table's rows at the target product when it has one row per product
+// and `scope`: rows of a source whose scope already has the target (or an
+// earlier source) are dropped instead
+async function repointUnique(client, table, scope, targetId, sourceIds) {
+    const sameScope = scope.map(column => `other.${column} = t.${column}`).join(' AND ');
+    await client.query(`
+        DELETE FROM ${table} t
+        WHERE t.product_id = ANY($2::int[])
+          AND EXISTS (
+              SELECT 1 FROM ${table} other
+              WHERE ${sameScope}
+                AND (other.product_id = $1
+                     OR (other.product_id = ANY($2::int[]) AND other.product_id < t.product_id))
+          )
+    `, [targetId, sourceIds]);
+    await client.query(
+        `UPDATE ${table} SET product_id = $1 WHERE product_id = ANY($2::int[])`,
+        [targetId, sourceIds]
+    );
+}
+
+// Lowercase and strip accents so "pâtes" and "pates" compare equal
+function normalizeText(text) {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Levenshtein edit distance (single-row dynamic programming)
+function levenshtein(a, b) {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = a[i - 1] === b[j - 1]
+                ? previous
+                : Math.min(previous, row[j - 1], row[j]) + 1;
+            previous = current;
+        }
+    }
+    return row[b.length];
+}
+
+// Similarity between 0 (unrelated) and 1 (identical)
+function similarity(a, b) {
+    if (!a || !b) return 0;
+    return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
 // Create singleton instance
 const productService = new ProductService();
 
@@ -0,0 +1,76 @@
+const EventEmitter = require('events');
+const localeService = require('./localeService');
+
+// Heartbeat keeps idle connections open through proxies
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25 seconds
+
+/**
+ * Publishes grocery list changes to the devices of a household over
+ * Server-Sent Events. Events are kept in memory, which is fine for the
+ * single backend instance we run.
+ */
+class RealtimeService {
+    constructor() {
+        this.emitter = new EventEmitter();
+        // One listener per open connection
+        this.emitter.setMaxListeners(0);
+    }
+
+    // Publish an event to everyone subscribed to a household
+    publish(householdId, type, payload = {}) {
+        if (!householdId) return;
+        this.emitter.emit(`household:${householdId}`, { type, ...payload });
+    }
+
+    // Item created or updated (full item with joins)
+    itemChanged(type, item) {
+        if (!item) return;
+        this.publish(item.household_id, type, { item });
+    }
+
+    // Items removed from the list
+    itemsDeleted(householdId, ids) {
+        if (!ids || ids.length === 0) return;
+        this.publish(householdId, 'item.deleted', { ids });
+    }
+
+    // Open an SSE stream for a household on an Express response. Events are
+    // translated for the subscriber (req.user.language), in order.
+    subscribe(householdId, req, res) {
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no' // Disable nginx buffering
+        });
+        res.flushHeaders();
+        res.write('retry: 3000\n\n');
+
+        const channel = `household:${householdId}`;
+        const language = req.user && req.user.language;
+        let sending = Promise.resolve();
+        const listener = (event) => {
+            sending = sending
+                .then(() => localeService.localize(event, language))
+                .catch(() => event)
+                .then((localized) => {
+                    res.write(`event: ${event.type}\ndata: ${JSON.stringify(localized)}\n\n`);
+                });
+        };
+        const heartbeat = setInterval(() => {
+            res.write(': ping\n\n');
+        }, HEARTBEAT_INTERVAL);
+
+        this.emitter.on(channel, listener);
+
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            this.emitter.off(channel, listener);
+        });
+    }
+}
+
+// Create singleton instance
+const realtimeService = new RealtimeService();
+
+module.exports = realtimeService;
@@ -0,0 +1,217 @@
+const groceryService = require('./groceryService');
+
+// Headings that open / close the ingredient part of a pasted recipe (fr, en, he).
+// Followed by a space, colon or nothing (\b doesn't work after Hebrew letters).
+const INGREDIENT_HEADINGS = /^(ingr[ée]dients?|מצרכים|רכיבים|חומרים)(?=[\s:]|$)/i;
+const STEP_HEADINGS = /^(pr[ée]paration|instructions?|directions?|method|steps?|[ée]tapes?|אופן ההכנה|הוראות הכנה|הכנה)(?=[\s:]|$)/i;
+
+// A line that only gives the servings: "Serves 4", "4 servings", "Pour 6 personnes", "ל-4 מנות"
+const SERVINGS_LINE = /^(?:serves|servings|yield|makes|pour|for|ל-?)?\s*:?\s*\d+\s*(?:servings?|people|persons?|personnes?|parts|portions?|מנות|סועדים)?\.?$/i;
+
+// Pasted recipes hold a few dozen ingredients at most
+const MAX_INGREDIENT_LINES = 60;
+
+class RecipeService {
+    // Read a pasted recipe or the HTML of a recipe page.
+    // Returns { name, servings, lines } where lines are raw ingredient lines.
+    extractRecipe(input) {
+        const recipe = looksLikeHtml(input)
+            ? (readJsonLdRecipe(input) || readText(htmlToText(input), readHtmlTitle(input)))
+            : readText(input);
+        return { ...recipe, lines: recipe.lines.slice(0, MAX_INGREDIENT_LINES) };
+    }
+
+    // Build a meal draft: every ingredient line resolved through the same
+    // catalog + AI pipeline as the grocery list. Nothing is saved as a meal;
+    // the user confirms the draft in the meal dialog.
+    async importRecipe(input, { fuzzy = true, householdId = null, userId = null } = {}) {
+        const { name, servings, lines } = this.extractRecipe(input);
+        if (lines.length === 0) {
+            return { name, servings, ingredients: [] };
+        }
+
+        const { found, aiItems, suggestions, unresolved } = await groceryService.resolveLines(lines, { fuzzy, householdId, userId });
+
+        // Keep the order of the recipe
+        const byLine = new Map();
+        for (const item of found) byLine.set(item.originalInput, matched(item, 'catalog'));
+        for (const item of aiItems) byLine.set(item.originalInput, matched(item, 'ai'));
+        for (const item of suggestions) {
+            byLine.set(item.originalInput, {
+                line: item.originalInput,
+                source: 'suggestion',
+                product: null,
+                quantity: item.hasQuantity ? item.quantity : null,
+                unit: item.unit,
+                term: item.term,
+                candidates: item.candidates.map(({ product }) => productSummary(product))
+            });
+        }
+        for (const item of unresolved) {
+            byLine.set(item.originalInput, {
+                line: item.originalInput,
+                source: 'unmatched',
+                product: null,
+                quantity: item.hasQuantity ? item.quantity : null,
+                unit: item.unit,
+                term: item.term,
+                candidates: []
+            });
+        }
+
+        return {
+            name,
+            servings,
+            ingredients: lines.map(line => byLine.get(line.trim())).filter(Boolean)
+        };
+    }
+}
+
+function matched(item, source) {
+    return {
+        line: item.originalInput,
+        source,
+        product: productSummary(item.product),
+        // No amount in the recipe means "to taste"
+        quantity: item.hasQuantity === false ? null : item.quantity,
+        unit: item.unit || 'piece',
+        candidates: []
+    };
+}
+
+function productSummary(product) {
+    return {
+        id: product.id,
+        name: product.name,
+        category_name: product.category_name,
+        category_icon: product.category_icon
+    };
+}
+
+function looksLikeHtml(input) {
+    return /<(html|body|script|div|p|li|ul|h\d)[\s>]/i.test(input);
+}
+
+// schema.org Recipe in <script type="application/ld+json"> (most recipe sites)
+function readJsonLdRecipe(html) {
+    const scripts = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+    for (const [, body] of scripts) {
+        let data;
+        try {
+            data = JSON.parse(body.trim());
+        } catch {
+            continue;
+        }
+        const recipe = findRecipe(data);
+        if (recipe && Array.isArray(recipe.recipeIngredient)) {
+            return {
+                name: cleanText(recipe.name) || null,
+                servings: readServings(recipe.recipeYield),
+                lines: recipe.recipeIngredient.map(cleanText).filter(Boolean)
+            };
+        }
+    }
+    return null;
+}
+
+// The Recipe node can be the document, in an array or in an @graph
+function findRecipe(node) {
+    if (!node || typeof node !== 'object') return null;
+    if (Array.isArray(node)) {
+        for (const child of node) {
+            const recipe = findRecipe(child);
+            if (recipe) return recipe;
+        }
+        return null;
+    }
+    const types = [].concat(node['@type'] || []);
+    if (types.includes('Recipe')) return node;
+    return findRecipe(node['@graph']);
+}
+
+// Plain text: the ingredient section when there is a heading, otherwise every
+// short line before the steps. The first line is the title when it isn't an ingredient.
+function readText(text, title = null) {
+    const rows = text.split('\n').map(row => row.trim()).filter(Boolean);
+    const servingsRow = rows.find(row => SERVINGS_LINE.test(row) && !/^\d+$/.test(row));
+    const servings = readServings(servingsRow);
+
+    const start = rows.findIndex(row => INGREDIENT_HEADINGS.test(row));
+    let name = title;
+    let section;
+    if (start !== -1) {
+        name = name || (start > 0 ? rows[0] : null);
+        section = rows.slice(start + 1);
+    } else {
+        section = rows;
+    }
+
+    const end = section.findIndex(row => STEP_HEADINGS.test(row));
+    if (end !== -1) section = section.slice(0, end);
+
+    let lines = section
+        .map(stripBullet)
+        .filter(row => row && row !== servingsRow && row.length <= 120);
+
+    if (start === -1 && !name && lines.length > 1 && !/\d/.test(lines[0])) {
+        name = lines[0];
+        lines = lines.slice(1);
+    }
+
+    return { name, servings, lines };
+}
+
+function readHtmlTitle(html) {
+    const match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i) || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    return match ? cleanText(match[1]) || null : null;
+}
+
+function htmlToText(html) {
+    return decodeEntities(html
+        .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|li|div|h\d|tr|ul|ol|section)>/gi, '\n')
+        .replace(/<[^>]+>/g, ' '))
+        .replace(/[ \t]+/g, ' ');
+}
+
+// recipeYield is a number, "4", "4 servings" or an array of those
+function readServings(value) {
+    if (value === null || value === undefined) return null;
+    const text = [].concat(value).join(' ');
+    const match = text.match(/\d+/);
+    const servings = match ? parseInt(match[0]) : null;
+    return servings >= 1 && servings <= 100 ? servings : null;
+}
+
+// "- 2 eggs", "• 200 g flour", "1. salt" (but not "1.5 kg")
+function stripBullet(row) {
+    return row.replace(/^([-–•*·▢□☐]|\d+[.)](?!\d))\s*/, '').trim();
+}
+
+function cleanText(value) {
+    if (typeof value !== 'string') return '';
+    return decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Named entities worth knowing in French and English recipe pages
+const NAMED_ENTITIES = {
+    nbsp: ' ', quot: '"', apos: "'", lt: '<', gt: '>', amp: '&', frac12: '½', frac14: '¼', frac34: '¾',
+    eacute: 'é', egrave: 'è', ecirc: 'ê', euml: 'ë', agrave: 'à', acirc: 'â', ccedil: 'ç',
+    icirc: 'î', iuml: 'ï', ocirc: 'ô', ucirc: 'û', ugrave: 'ù', oelig: 'œ', Eacute: 'É'
+};
+
+function decodeEntities(text) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code) => {
+        if (code[0] === '#') {
+            const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+            return value > 0 && value <= 0x10FFFF ? String.fromCodePoint(value) : entity;
+        }
+        return NAMED_ENTITIES[code] ?? entity;
+    });
+}
+
+// Create singleton instance
+const recipeService = new RecipeService();
+
+module.exports = recipeService;
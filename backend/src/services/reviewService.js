@@ -0,0 +1,174 @@
+const db = require('../config/database');
+const AiReview = require('../models/AiReview');
+const Category = require('../models/Category');
+const productService = require('./productService');
+
+// Products of a rejected category go here
+const DEFAULT_CATEGORY = 'Autre';
+
+// Deleting a product cascades into these, in every household
+const PRODUCT_USES = ['grocery_items', 'meal_items', 'staples', 'pantry_items', 'pantry_events', 'store_products'];
+
+class ReviewService {
+    // Reviews in a status (pending by default), newest first
+    async getReviews(status = 'pending', limit = 100) {
+        return AiReview.findByStatus(status, limit);
+    }
+
+    async countPending() {
+        return AiReview.countPending();
+    }
+
+    // Keep an AI change, optionally corrected first:
+    //   product: { name, category_id }, alias: { alias },
+    //   category: { name, icon }, category_change: { category_id }
+    // Throws 'Review not found', 'Already reviewed', 'Product already exists',
+    // 'Alias already exists', 'Category already exists' or 'Category not found'.
+    async approve(id, reviewerId, edits = {}) {
+        await db.withTransaction(async (client) => {
+            const review = await lockPending(id, client);
+
+            switch (review.kind) {
+                case 'product':
+                    if (edits.name && edits.name !== review.product_name) {
+                        await assertFree(client, 'SELECT 1 FROM products WHERE LOWER(name) = LOWER($1) AND id != $2',
+                            [edits.name, review.product_id], 'Product already exists');
+                        await client.query('UPDATE products SET name = $1, updated_at = NOW() WHERE id = $2',
+                            [edits.name, review.product_id]);
+                    }
+                    if (edits.category_id) {
+                        await assertCategory(client, edits.category_id);
+                        await client.query('UPDATE products SET category_id = $1, updated_at = NOW() WHERE id = $2',
+                            [edits.category_id, review.product_id]);
+                    }
+                    break;
+                case 'alias':
+                    if (edits.alias && edits.alias.toLowerCase().trim() !== review.alias) {
+                        const alias = edits.alias.toLowerCase().trim();
+                        await assertFree(client, 'SELECT 1 FROM product_aliases WHERE alias = $1',
+                            [alias], 'Alias already exists');
+                        await client.query('UPDATE product_aliases SET alias = $1 WHERE product_id = $2 AND alias = $3',
+                            [alias, review.product_id, review.alias]);
+                        await client.query('UPDATE ai_reviews SET alias = $1 WHERE id = $2', [alias, id]);
+                    }
+                    break;
+                case 'category':
+                    if (edits.name && edits.name !== review.category_name) {
+                        await assertFree(client, 'SELECT 1 FROM categories WHERE LOWER(name) = LOWER($1) AND id != $2',
+                            [edits.name, review.category_id], 'Category already exists');
+                        await client.query('UPDATE categories SET name = $1 WHERE id = $2', [edits.name, review.category_id]);
+                    }
+                    if (edits.icon) {
+                        await client.query('UPDATE categories SET icon = $1 WHERE id = $2', [edits.icon, review.category_id]);
+                    }
+                    break;
+                case 'category_change':
+                    if (edits.category_id && edits.category_id !== review.category_id) {
+                        await assertCategory(client, edits.category_id);
+                        await client.query('UPDATE products SET category_id = $1, updated_at = NOW() WHERE id = $2',
+                            [edits.category_id, review.product_id]);
+                    }
+                    break;
+            }
+
+            await AiReview.setStatus(id, 'approved', reviewerId, client);
+        });
+
+        return AiReview.findById(id);
+    }
+
+    // Undo an AI change:
+    //   alias: removed from the product
+    //   category_change: the product goes back to its previous category
+    //   category: its products go back where a pending change moved them from,
+    //     or to the default category, and the category is deleted
+    //   product: merged into `mergeIntoId` when given, otherwise deleted if
+    //     nothing uses it yet (a household's list, meals, staples, stock or stores)
+    // Throws like approve(), plus 'Product not found' for a missing merge target,
+    // 'Cannot merge into itself' and 'Product in use'.
+    async reject(id, reviewerId, { mergeIntoId = null } = {}) {
+        const review = await AiReview.findById(id);
+        if (!review) throw new Error('Review not found');
+
+        // Merging has its own transaction; the review is closed once it went through
+        if (review.kind === 'product' && mergeIntoId) {
+            if (review.status !== 'pending') throw new Error('Already reviewed');
+            if (mergeIntoId === review.product_id) throw new Error('Cannot merge into itself');
+            const merged = await productService.mergeProducts(mergeIntoId, [review.product_id]);
+            if (!merged) throw new Error('Product not found');
+            await AiReview.setStatus(id, 'rejected', reviewerId);
+            return AiReview.findById(id);
+        }
+
+        await db.withTransaction(async (client) => {
+            const locked = await lockPending(id, client);
+
+            switch (locked.kind) {
+                case 'alias':
+                    await client.query('DELETE FROM product_aliases WHERE product_id = $1 AND alias = $2',
+                        [locked.product_id, locked.alias]);
+                    break;
+                case 'category_change':
+                    // Only if nobody moved the product again since
+                    await client.query(`
+                        UPDATE products SET category_id = $1, updated_at = NOW()
+                        WHERE id = $2 AND category_id = $3
+                    `, [locked.previous_category_id, locked.product_id, locked.category_id]);
+                    break;
+                case 'category': {
+                    const fallback = await Category.findByName(DEFAULT_CATEGORY);
+                    const moved = await client.query(`
+                        UPDATE products p SET category_id = r.previous_category_id, updated_at = NOW()
+                        FROM ai_reviews r
+                        WHERE r.kind = 'category_change' AND r.status = 'pending' AND r.category_id = $1
+                          AND p.id = r.product_id AND p.category_id = $1
+                        RETURNING r.id
+                    `, [locked.category_id]);
+                    for (const row of moved.rows) {
+                        await AiReview.setStatus(row.id, 'rejected', reviewerId, client);
+                    }
+                    await client.query('UPDATE products SET category_id = $1, updated_at = NOW() WHERE category_id = $2',
+                        [fallback && fallback.id !== locked.category_id ? fallback.id : null, locked.category_id]);
+                    await client.query('DELETE FROM categories WHERE id = $1', [locked.category_id]);
+                    break;
+                }
+                case 'product':
+                    // Households already using it keep what they have: it can only be merged
+                    await assertFree(client,
+                        PRODUCT_USES.map(table => `SELECT 1 FROM ${table} WHERE product_id = $1`).join(' UNION ALL ') + ' LIMIT 1',
+                        [locked.product_id], 'Product in use');
+                    await client.query('DELETE FROM products WHERE id = $1', [locked.product_id]);
+                    break;
+            }
+
+            await AiReview.setStatus(id, 'rejected', reviewerId, client);
+        });
+
+        return AiReview.findById(id);
+    }
+}
+
+// The review, locked, if it is still waiting and what it points to still exists
+async function lockPending(id, client) {
+    const review = await AiReview.findById(id, client);
+    if (!review) throw new Error('Review not found');
+    if (review.status !== 'pending') throw new Error('Already reviewed');
+    const target = review.kind === 'category' ? review.category_id : review.product_id;
+    if (!target) throw new Error('Review not found');
+    return review;
+}
+
+async function assertFree(client, sql, params, message) {
+    const result = await client.query(sql, params);
+    if (result.rows.length > 0) throw new Error(message);
+}
+
+async function assertCategory(client, categoryId) {
+    const result = await client.query('SELECT 1 FROM categories WHERE id = $1', [categoryId]);
+    if (result.rows.length === 0) throw new Error('Category not found');
+}
+
+// Create singleton instance
+const reviewService = new ReviewService();
+
+module.exports = reviewService;
@@ -0,0 +1,56 @@
+// How often to look for jobs that are due
+const CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Runs background jobs once a day: at startup when they haven't run yet
+ * today, then again after the date changes. Last runs are kept in memory,
+ * so a restart runs the jobs again; jobs must be safe to repeat.
+ */
+class SchedulerService {
+    constructor() {
+        this.jobs = [];
+        this.timer = null;
+    }
+
+    // Register a job (async function) to run once a day
+    daily(name, run) {
+        this.jobs.push({ name, run, lastRunOn: null, running: false });
+    }
+
+    // Start checking for due jobs
+    start() {
+        if (this.timer) return;
+        this.runDue();
+        this.timer = setInterval(() => this.runDue(), CHECK_INTERVAL);
+        // Don't keep the process alive just for the scheduler
+        this.timer.unref();
+    }
+
+    stop() {
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Run every job that hasn't run on today's date, one after the other
+    async runDue() {
+        const today = new Date().toDateString();
+        for (const job of this.jobs) {
+            if (job.running || job.lastRunOn === today) continue;
+            job.running = true;
+            try {
+                await job.run();
+                job.lastRunOn = today;
+            } catch (error) {
+                // Retried on the next check
+                console.error(`❌ Scheduled job ${job.name} failed:`, error.message);
+            } finally {
+                job.running = false;
+            }
+        }
+    }
+}
+
+// Create singleton instance
+const schedulerService = new SchedulerService();
+
+module.exports = schedulerService;
@@ -0,0 +1,89 @@
+const GroceryItem = require('../models/GroceryItem');
+const Staple = require('../models/Staple');
+const operationService = require('./operationService');
+
+// Batches of staples put on the list start with this (like 'menu-' for the menu planner)
+const BATCH_PREFIX = 'staples-';
+
+class StapleService {
+    // Staples of a household with whether each is due today
+    async getStaples(householdId) {
+        const staples = await Staple.findAllByHousehold(householdId);
+        return staples.map(staple => ({ ...staple, due: staple.active && this.isDue(staple) }));
+    }
+
+    // Put every due staple on the list: of one household, or of all of them
+    // for the daily job. One batch per household. A staple already on the
+    // list counts as added so it isn't doubled up.
+    async addDueStaples(householdId = null) {
+        const due = (await Staple.findActive(householdId)).filter(staple => this.isDue(staple));
+
+        const byHousehold = new Map();
+        for (const staple of due) {
+            if (!byHousehold.has(staple.household_id)) byHousehold.set(staple.household_id, []);
+            byHousehold.get(staple.household_id).push(staple);
+        }
+
+        const results = [];
+        for (const [dueHouseholdId, staples] of byHousehold) {
+            results.push(await this.addToList(dueHouseholdId, staples));
+        }
+        return results;
+    }
+
+    async addToList(householdId, staples) {
+        const batchId = `${BATCH_PREFIX}${Date.now()}`;
+        let addedCount = 0;
+        const changes = [];
+        for (const staple of staples) {
+            const existing = await GroceryItem.findByProduct(householdId, staple.product_id);
+            if (!existing) {
+                const item = new GroceryItem({
+                    household_id: householdId,
+                    user_id: staple.user_id,
+                    product_id: staple.product_id,
+                    quantity: staple.quantity,
+                    unit: staple.unit,
+                    status: 'pending',
+                    batch_id: batchId
+                });
+                const saved = await item.save();
+                changes.push({ before: null, after: await GroceryItem.findById(saved.id, householdId) });
+                addedCount++;
+            }
+            await Staple.markAdded(staple.id);
+        }
+        // Logged without a user: the daily run adds them, not a member
+        await operationService.record(householdId, null, 'staples', changes);
+
+        console.log(`🔁 Staples for household ${householdId}: added ${addedCount} of ${staples.length} due`);
+        return {
+            householdId,
+            batchId,
+            addedCount,
+            skippedCount: staples.length - addedCount
+        };
+    }
+
+    // Whether a staple should go on the list today
+    isDue(staple) {
+        const daysSinceAdded = staple.days_since_added;
+        switch (staple.rule) {
+            case 'interval':
+                return daysSinceAdded === null || daysSinceAdded >= staple.interval_days;
+            case 'weekdays':
+                return staple.weekdays.includes(staple.today_weekday) && daysSinceAdded !== 0;
+            case 'since_bought':
+                // Not again right after adding it, in case it was taken off the list unbought
+                return (staple.days_since_bought === null || staple.days_since_bought >= staple.interval_days)
+                    && (daysSinceAdded === null || daysSinceAdded >= staple.interval_days);
+            default:
+                return false;
+        }
+    }
+}
+
+// Create singleton instance
+const stapleService = new StapleService();
+
+module.exports = stapleService;
@@ -0,0 +1,99 @@
+const db = require('../config/database');
+
+// A product needs this many gaps between purchases (three trips) before
+// its repurchase interval is trusted
+const MIN_GAPS = 2;
+// Suggest a little before the interval is up, so it's bought before running out
+const DUE_RATIO = 0.9;
+// Older purchases say little about today's habits
+const HISTORY_DAYS = 365;
+const MAX_SUGGESTIONS = 6;
+
+class SuggestionService {
+    // Products bought regularly whose usual interval since the last purchase
+    // has (almost) passed, most overdue first. Left out: products already on
+    // the list, active staples (they come back by themselves) and suggestions
+    // dismissed less than one interval ago.
+    async getSuggestions(householdId, limit = MAX_SUGGESTIONS) {
+        const result = await db.query(`
+            WITH purchases AS (
+                SELECT gh.product_id, gh.shopping_session_id, MIN(gh.completed_at) as bought_at
+                FROM grocery_history gh
+                WHERE gh.household_id = $1 AND gh.status = 'found' AND gh.product_id IS NOT NULL
+                  AND gh.completed_at >= NOW() - $2 * INTERVAL '1 day'
+                GROUP BY gh.product_id, gh.shopping_session_id
+            ),
+            gaps AS (
+                SELECT product_id, bought_at,
+                       EXTRACT(EPOCH FROM bought_at - LAG(bought_at) OVER (PARTITION BY product_id ORDER BY bought_at)) / 86400 as gap_days
+                FROM purchases
+            ),
+            estimates AS (
+                SELECT product_id,
+                       COUNT(gap_days) as gap_count,
+                       PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY gap_days) as interval_days,
+                       MAX(bought_at) as last_bought_at
+                FROM gaps
+                GROUP BY product_id
+            )
+            SELECT e.product_id,
+                   p.name as product_name,
+                   c.name as category_name,
+                   c.icon as category_icon,
+                   e.interval_days,
+                   e.last_bought_at,
+                   EXTRACT(EPOCH FROM NOW() - e.last_bought_at) / 86400 as days_since,
+                   last.quantity,
+                   last.unit
+            FROM estimates e
+            JOIN products p ON e.product_id = p.id
+            LEFT JOIN categories c ON p.category_id = c.id
+            LEFT JOIN LATERAL (
+                SELECT gh.quantity, gh.unit
+                FROM grocery_history gh
+                WHERE gh.household_id = $1 AND gh.product_id = e.product_id AND gh.status = 'found'
+                ORDER BY gh.completed_at DESC
+                LIMIT 1
+            ) last ON TRUE
+            WHERE e.gap_count >= $3
+              AND e.interval_days >= 1
+              AND NOW() - e.last_bought_at >= e.interval_days * $4 * INTERVAL '1 day'
+              AND NOT EXISTS (
+                  SELECT 1 FROM grocery_items gi
+                  WHERE gi.household_id = $1 AND gi.product_id = e.product_id
+              )
+              AND NOT EXISTS (
+                  SELECT 1 FROM staples s
+                  WHERE s.household_id = $1 AND s.product_id = e.product_id AND s.active
+              )
+              AND NOT EXISTS (
+                  SELECT 1 FROM suggestion_dismissals d
+                  WHERE d.household_id = $1 AND d.product_id = e.product_id
+                    AND d.dismissed_at > NOW() - e.interval_days * INTERVAL '1 day'
+              )
+            ORDER BY (NOW() - e.last_bought_at) / e.interval_days DESC, p.name ASC
+            LIMIT $5
+        `, [householdId, HISTORY_DAYS, MIN_GAPS, DUE_RATIO, limit]);
+
+        return result.rows.map(row => ({
+            ...row,
+            interval_days: Math.round(row.interval_days),
+            days_since: Math.floor(row.days_since)
+        }));
+    }
+
+    // Hide a suggestion for one repurchase interval (dismissing again restarts it)
+    async dismiss(householdId, userId, productId) {
+        await db.query(`
+            INSERT INTO suggestion_dismissals (household_id, user_id, product_id)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (household_id, product_id)
+            DO UPDATE SET user_id = EXCLUDED.user_id, dismissed_at = NOW()
+        `, [householdId, userId, productId]);
+    }
+}
+
+// Create singleton instance
+const suggestionService = new SuggestionService();
+
+module.exports = suggestionService;
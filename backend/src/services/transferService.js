@@ -0,0 +1,615 @@
+const crypto = require('crypto');
+const db = require('../config/database');
+const { LANGUAGES } = require('../config/languages');
+const Category = require('../models/Category');
+const GroceryItem = require('../models/GroceryItem');
+const Meal = require('../models/Meal');
+const MenuPlan = require('../models/MenuPlan');
+const Product = require('../models/Product');
+const productService = require('./productService');
+
+// Bumped when the exported shape changes in a way older imports can't read
+const FORMAT_VERSION = 1;
+const DATASETS = ['catalog', 'meals', 'menu', 'history'];
+// Products without a category go here (same fallback as insights)
+const DEFAULT_CATEGORY = 'Autre';
+const MEAL_TYPES = ['lunch', 'dinner'];
+// Aliases share one CSV cell
+const ALIAS_SEPARATOR = '|';
+// Column sizes and the bounds the app's forms use, checked before importing
+const NAME_LENGTH = 255;
+const CATEGORY_LENGTH = 100;
+const ICON_LENGTH = 10;
+const SESSION_ID_LENGTH = 50;
+const MAX_INT = 2147483647;
+const MAX_SHELF_LIFE = 3650;
+const MAX_SERVINGS = 100;
+const DEFAULT_SERVINGS = 4;
+const MAX_UNIT_PRICE = 99999;
+
+// Columns of each dataset's CSV file, in order
+const CSV_COLUMNS = {
+    catalog: ['name', 'category', 'category_icon', 'category_sort_order', 'shelf_life_days', 'aliases'],
+    meals: ['meal', 'servings', 'product', 'category', 'quantity', 'unit'],
+    menu: ['week_start', 'day_of_week', 'meal_type', 'meal', 'servings'],
+    history: ['completed_at', 'session_id', 'product', 'category', 'quantity', 'unit', 'unit_price', 'status', 'store']
+};
+
+class TransferService {
+    get DATASETS() {
+        return DATASETS;
+    }
+
+    // Export a dataset as { version, dataset, exported_at, rows } where rows
+    // are flat records (CSV_COLUMNS), except meals and catalog products which
+    // keep their ingredients / aliases as arrays
+    async exportData(householdId, dataset) {
+        const exporters = { catalog: exportCatalog, meals: exportMeals, menu: exportMenu, history: exportHistory };
+        const rows = await exporters[dataset](householdId);
+        return { version: FORMAT_VERSION, dataset, exported_at: new Date().toISOString(), rows };
+    }
+
+    // Same export as CSV text (one line per ingredient for meals)
+    async exportCsv(householdId, dataset) {
+        const { rows } = await this.exportData(householdId, dataset);
+        const flat = dataset === 'meals'
+            ? rows.flatMap(meal => (meal.ingredients.length > 0 ? meal.ingredients : [{}]).map(ingredient => ({
+                meal: meal.name,
+                servings: meal.servings,
+                ...ingredient
+            })))
+            : dataset === 'catalog'
+                ? rows.map(product => ({ ...product, aliases: product.aliases.join(ALIAS_SEPARATOR) }))
+                : rows;
+        return toCsv(CSV_COLUMNS[dataset], flat);
+    }
+
+    // Import an export (JSON object or CSV text). Imports merge: what already
+    // exists (by name, products also by alias) is kept or updated, so importing
+    // the same file twice changes nothing the second time. Rows the app's own
+    // forms wouldn't take are skipped (see readRow); the rest is saved in one
+    // transaction.
+    async importData(householdId, userId, dataset, { format, content }) {
+        const rows = format === 'csv'
+            ? fromCsvRows(dataset, parseCsv(content))
+            : readJsonRows(dataset, content);
+        const valid = rows.map(row => this.readRow(dataset, row)).filter(Boolean);
+        const skipped = rows.length - valid.length;
+
+        const counts = await db.withTransaction(async (client) => {
+            switch (dataset) {
+                case 'catalog': return this.importCatalog(valid, client);
+                case 'meals': return this.importMeals(householdId, userId, valid, client);
+                case 'menu': return this.importMenu(householdId, userId, valid, client);
+                default: return this.importHistory(householdId, userId, valid, client);
+            }
+        });
+        return { ...counts, skipped: (counts.skipped || 0) + skipped };
+    }
+
+    // An import row checked like the app's own forms check what they send (text
+    // that fits its column, units from GroceryItem.UNITS, positive quantities
+    // that fit theirs, dates that exist), with defaults filled in; null when it
+    // can't be imported
+    readRow(dataset, row) {
+        if (!row || typeof row !== 'object' || Array.isArray(row)) return null;
+        const readers = { catalog: readCatalogRow, meals: readMealRow, menu: readMenuRow, history: readHistoryRow };
+        return readers[dataset](row);
+    }
+
+    // Products by name or alias (the imported name and each imported alias);
+    // a match gets the missing aliases, category and shelf life
+    async importCatalog(rows, client) {
+        const counts = { created: 0, updated: 0, unchanged: 0 };
+        for (const row of rows) {
+            const { product, created } = await this.resolveProduct(row, client);
+            const changed = await mergeProduct(product, row, client);
+            counts[created ? 'created' : changed ? 'updated' : 'unchanged']++;
+        }
+        return counts;
+    }
+
+    // Meals by name within the household; an existing meal gets the imported
+    // servings and ingredients
+    async importMeals(householdId, userId, rows, client) {
+        const counts = { created: 0, updated: 0, unchanged: 0 };
+        const existing = await Meal.findAllByHousehold(householdId, client);
+        const byName = new Map(existing.map(meal => [meal.name.toLowerCase(), meal]));
+
+        for (const row of rows) {
+            const items = [];
+            for (const ingredient of row.ingredients) {
+                const { product } = await this.resolveProduct({ name: ingredient.product, category: ingredient.category }, client);
+                if (items.some(item => item.product_id === product.id)) continue;
+                items.push({ product_id: product.id, quantity: ingredient.quantity, unit: ingredient.unit });
+            }
+
+            const meal = byName.get(row.name.toLowerCase());
+            if (!meal) {
+                const created = await Meal.create(householdId, userId, row.name, items, row.servings, client);
+                byName.set(row.name.toLowerCase(), created);
+                counts.created++;
+            } else if (await sameMeal(meal, items, row.servings, householdId, client)) {
+                counts.unchanged++;
+            } else {
+                await Meal.update(meal.id, householdId, meal.name, items, row.servings, client);
+                counts.updated++;
+            }
+        }
+        return counts;
+    }
+
+    // Planned meals by week, day, lunch / dinner and meal name; meals that
+    // don't exist in the household are skipped (import meals first)
+    async importMenu(householdId, userId, rows, client) {
+        const counts = { created: 0, unchanged: 0, skipped: 0 };
+        const meals = await Meal.findAllByHousehold(householdId, client);
+        const byName = new Map(meals.map(meal => [meal.name.toLowerCase(), meal]));
+
+        for (const row of rows) {
+            const meal = byName.get(row.meal.toLowerCase());
+            if (!meal) {
+                counts.skipped++;
+                continue;
+            }
+            const result = await client.query(`
+                SELECT 1 FROM menu_plan_items
+                WHERE household_id = $1 AND week_start = $2 AND day_of_week = $3 AND meal_type = $4 AND meal_id = $5
+            `, [householdId, row.week_start, row.day_of_week, row.meal_type, meal.id]);
+            await MenuPlan.addMealToDay(householdId, userId, row.week_start, row.day_of_week, row.meal_type,
+                meal.id, row.servings, client);
+            counts[result.rows.length > 0 ? 'unchanged' : 'created']++;
+        }
+        return counts;
+    }
+
+    // History lines are told apart by trip, product and time, so lines
+    // already imported are left out. Trips get their total from priced lines.
+    async importHistory(householdId, userId, rows, client) {
+        const counts = { created: 0, unchanged: 0 };
+        const stores = await client.query('SELECT id, name FROM stores WHERE household_id = $1', [householdId]);
+        const storeByName = new Map(stores.rows.map(store => [store.name.toLowerCase(), store]));
+
+        const sessions = new Map();
+        const sessionIds = new Map();
+        for (const row of rows) {
+            const product = await Product.lookup(row.product, client);
+            const store = row.store ? storeByName.get(row.store.toLowerCase()) : null;
+            let sessionId = null;
+            if (row.session_id) {
+                if (!sessionIds.has(row.session_id)) {
+                    sessionIds.set(row.session_id, await importedSessionId(client, householdId, row.session_id));
+                }
+                sessionId = sessionIds.get(row.session_id);
+            }
+
+            const inserted = await client.query(`
+                INSERT INTO grocery_history
+                (household_id, user_id, product_id, product_name, category_name, quantity, unit, unit_price,
+                 status, completed_at, shopping_session_id, store_id, store_name)
+                SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM grocery_history
+                    WHERE household_id = $1 AND shopping_session_id IS NOT DISTINCT FROM $11
+                      AND product_name = $4 AND completed_at = $10
+                )
+            `, [householdId, userId, product ? product.id : null, row.product,
+                row.category || (product && product.category_name) || null,
+                row.quantity, row.unit, row.unit_price, row.status, row.completed_at,
+                sessionId, store ? store.id : null, row.store]);
+            counts[inserted.rowCount > 0 ? 'created' : 'unchanged']++;
+
+            if (sessionId) {
+                const session = sessions.get(sessionId) || { completedAt: row.completed_at, costs: [] };
+                const cost = row.status !== 'not_found'
+                    ? productService.lineCost(row.quantity, row.unit, row.unit_price)
+                    : null;
+                if (cost !== null) session.costs.push(cost);
+                if (row.completed_at > session.completedAt) session.completedAt = row.completed_at;
+                sessions.set(sessionId, session);
+            }
+        }
+
+        for (const [sessionId, session] of sessions) {
+            const totalSpent = session.costs.length > 0
+                ? Math.round(session.costs.reduce((sum, cost) => sum + cost, 0) * 100) / 100
+                : null;
+            await client.query(`
+                INSERT INTO shopping_sessions (id, household_id, total_spent, completed_at)
+                VALUES ($1, $2, $3, $4)
+                ON CONFLICT (id) DO NOTHING
+            `, [sessionId, householdId, totalSpent, session.completedAt]);
+        }
+        return counts;
+    }
+
+    // Find a product by its name or one of its aliases, or create it (with
+    // its category, created too when missing)
+    async resolveProduct({ name, category = null, category_icon = null, category_sort_order = null,
+        shelf_life_days = null, aliases = [] }, client = db) {
+        for (const term of [name, ...aliases]) {
+            const product = await Product.findByName(term, client) || await Product.findByAlias(term, client);
+            if (product) return { product, created: false };
+        }
+
+        const categoryRow = await importCategory(category || DEFAULT_CATEGORY, category_icon, category_sort_order, client);
+        const product = await Product.create(name, categoryRow.id, shelf_life_days, client);
+        return { product, created: true };
+    }
+}
+
+async function exportCatalog() {
+    const products = await Product.findAll();
+    const categories = await Category.findAll();
+    const categoryById = new Map(categories.map(category => [category.id, category]));
+    return products.map(product => {
+        const category = categoryById.get(product.category_id);
+        return {
+            name: product.name,
+            category: category ? category.name : null,
+            category_icon: category ? category.icon : null,
+            category_sort_order: category ? category.sort_order : null,
+            shelf_life_days: product.shelf_life_days,
+            aliases: product.aliases,
+            names: product.names
+        };
+    });
+}
+
+async function exportMeals(householdId) {
+    const meals = await Meal.findAllByHousehold(householdId);
+    const rows = [];
+    for (const { id } of meals) {
+        const meal = await Meal.findById(id, householdId);
+        rows.push({
+            name: meal.name,
+            servings: meal.servings,
+            ingredients: meal.products.map(product => ({
+                product: product.name,
+                category: product.category_name,
+                quantity: product.quantity,
+                unit: product.unit
+            }))
+        });
+    }
+    return rows;
+}
+
+async function exportMenu(householdId) {
+    const result = await db.query(`
+        SELECT mpi.week_start, mpi.day_of_week, mpi.meal_type, m.name as meal, mpi.servings
+        FROM menu_plan_items mpi
+        JOIN meals m ON mpi.meal_id = m.id
+        WHERE mpi.household_id = $1
+        ORDER BY mpi.week_start, mpi.day_of_week, mpi.meal_type, m.name
+    `, [householdId]);
+    return result.rows;
+}
+
+async function exportHistory(householdId) {
+    const result = await db.query(`
+        SELECT gh.completed_at, gh.shopping_session_id as session_id, gh.product_name as product,
+               gh.category_name as category, gh.quantity, gh.unit, gh.unit_price, gh.status,
+               gh.store_name as store
+        FROM grocery_history gh
+        WHERE gh.household_id = $1
+        ORDER BY gh.completed_at ASC, gh.id ASC
+    `, [householdId]);
+    return result.rows.map(row => ({ ...row, completed_at: new Date(row.completed_at).toISOString() }));
+}
+
+// Category by name, created with the imported icon and order when missing
+async function importCategory(name, icon, sortOrder, client) {
+    const existing = await Category.findByName(name, client);
+    if (existing) return existing;
+    return Category.create(name, icon || '📦', sortOrder ?? 50, client);
+}
+
+// Add what an imported product brings to a local one: its name and aliases
+// as aliases, its names in languages the local one has none for (JSON only),
+// and its category and shelf life when none is set. Returns whether anything
+// changed.
+async function mergeProduct(product, row, client) {
+    const known = new Set([product.name.toLowerCase(), ...(await product.getAliases(client))]);
+    let changed = false;
+    for (const term of [row.name, ...row.aliases]) {
+        const alias = term.toLowerCase().trim();
+        if (!alias || known.has(alias)) continue;
+        // Taken by another product: left where it is
+        if (await Product.findByAlias(alias, client) || await Product.findByName(alias, client)) continue;
+        await product.addAlias(alias, client);
+        known.add(alias);
+        changed = true;
+    }
+
+    const names = await product.getNames(client);
+    const missing = Object.fromEntries(Object.entries(row.names).filter(([language]) => !names[language]));
+    if (Object.keys(missing).length > 0) {
+        await product.setNames(missing, client);
+        changed = true;
+    }
+
+    const fillShelfLife = product.shelf_life_days === null && row.shelf_life_days;
+    const fillCategory = !product.category_id && row.category;
+    if (fillShelfLife || fillCategory) {
+        if (fillShelfLife) product.shelf_life_days = row.shelf_life_days;
+        if (fillCategory) {
+            product.category_id = (await importCategory(row.category, row.category_icon, row.category_sort_order, client)).id;
+        }
+        await product.save(client);
+        changed = true;
+    }
+    return changed;
+}
+
+// Whether a meal already has these servings and ingredients
+async function sameMeal(meal, items, servings, householdId, client) {
+    const full = await Meal.findById(meal.id, householdId, client);
+    if (full.servings !== servings || full.products.length !== items.length) return false;
+    return items.every(item => full.products.some(product =>
+        product.id === item.product_id &&
+        product.unit === item.unit &&
+        (product.quantity ?? null) === (item.quantity ?? null)
+    ));
+}
+
+// Rows of a JSON export; checks it is an export of the expected dataset
+function readJsonRows(dataset, content) {
+    const data = typeof content === 'string' ? JSON.parse(content) : content;
+    if (!data || data.dataset !== dataset || !Array.isArray(data.rows)) {
+        throw new Error('Invalid import');
+    }
+    if (data.version > FORMAT_VERSION) {
+        throw new Error('Unsupported version');
+    }
+    return data.rows;
+}
+
+// Turn CSV records back into the JSON row shape (meals regrouped by name)
+function fromCsvRows(dataset, records) {
+    if (dataset === 'catalog') {
+        return records.map(record => ({
+            ...record,
+            aliases: (record.aliases || '').split(ALIAS_SEPARATOR).map(alias => alias.trim()).filter(Boolean)
+        }));
+    }
+    if (dataset === 'meals') {
+        const meals = new Map();
+        for (const record of records) {
+            if (!record.meal) continue;
+            const key = record.meal.toLowerCase();
+            if (!meals.has(key)) meals.set(key, { name: record.meal, servings: record.servings, ingredients: [] });
+            if (record.product) {
+                meals.get(key).ingredients.push({
+                    product: record.product,
+                    category: record.category || null,
+                    quantity: record.quantity,
+                    unit: record.unit
+                });
+            }
+        }
+        return [...meals.values()];
+    }
+    return records;
+}
+
+// CSV with a header line; cells holding commas, quotes or line breaks are quoted
+function toCsv(columns, rows) {
+    const cell = (value) => {
+        if (value === null || value === undefined) return '';
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [columns.join(','), ...rows.map(row => columns.map(column => cell(row[column])).join(','))];
+    return lines.join('\r\n') + '\r\n';
+}
+
+// Parse CSV text into records keyed by the header line (empty cells are null)
+function parseCsv(text) {
+    if (typeof text !== 'string') {
+        throw new Error('Invalid import');
+    }
+
+    const lines = [];
+    let line = [];
+    let value = '';
+    let quoted = false;
+    const source = text.replace(/^﻿/, '');
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            line.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            line.push(value);
+            lines.push(line);
+            line = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    if (value || line.length > 0) {
+        line.push(value);
+        lines.push(line);
+    }
+
+    const [header, ...body] = lines.filter(cells => cells.some(cell => cell.trim()));
+    if (!header) return [];
+    const columns = header.map(column => column.trim().toLowerCase());
+    return body.map(cells => Object.fromEntries(
+        columns.map((column, i) => [column, cells[i] !== undefined && cells[i].trim() !== '' ? cells[i].trim() : null])
+    ));
+}
+
+function toNumber(value) {
+    if (value === null || value === undefined || value === '') return null;
+    const number = parseFloat(String(value).replace(',', '.'));
+    return isNaN(number) ? null : number;
+}
+
+function toInt(value) {
+    const number = toNumber(value);
+    return number === null ? null : Math.round(number);
+}
+
+// Trip ids are instance-wide (the shopping_sessions key). An exported id another
+// household already uses gets one of its own, derived from the household so that
+// importing the same file again finds the trip again
+async function importedSessionId(client, householdId, sessionId) {
+    const taken = await client.query(`
+        SELECT 1 FROM shopping_sessions WHERE id = $1 AND household_id IS DISTINCT FROM $2
+        UNION ALL
+        SELECT 1 FROM grocery_history WHERE shopping_session_id = $1 AND household_id IS DISTINCT FROM $2
+        LIMIT 1
+    `, [sessionId, householdId]);
+    if (taken.rows.length === 0) return sessionId;
+    return crypto.createHash('sha256').update(`${householdId}:${sessionId}`).digest('hex').slice(0, 16);
+}
+
+// A YYYY-MM-DD day that exists (not 2024-13-45)
+function isDate(value) {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date) && date.toISOString().startsWith(value);
+}
+
+function isBlank(value) {
+    return value === null || value === undefined || value === '';
+}
+
+// Text that fits a column of maxLength characters: trimmed, null when blank,
+// undefined when it isn't text (numbers are read as text) or is too long
+function readText(value, maxLength) {
+    if (isBlank(value)) return null;
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const text = String(value).trim();
+    if ([...text].length > maxLength) return undefined;
+    return text || null;
+}
+
+// A whole number between min and max: null when blank, undefined when out of range
+function readInt(value, min, max) {
+    if (isBlank(value)) return null;
+    const number = toInt(value);
+    return number !== null && number >= min && number <= max ? number : undefined;
+}
+
+// A positive quantity the quantity columns hold (the item routes' rule)
+function isQuantity(quantity) {
+    return typeof quantity === 'number' && quantity > 0 && quantity <= GroceryItem.MAX_QUANTITY;
+}
+
+function readCatalogRow(row) {
+    const name = readText(row.name, NAME_LENGTH);
+    const category = readText(row.category, CATEGORY_LENGTH);
+    const icon = readText(row.category_icon, ICON_LENGTH);
+    const sortOrder = readInt(row.category_sort_order, -MAX_INT, MAX_INT);
+    const shelfLife = readInt(row.shelf_life_days, 1, MAX_SHELF_LIFE);
+    const aliases = row.aliases ?? [];
+    const names = row.names ?? {};
+    if (!name || [category, icon, sortOrder, shelfLife].includes(undefined) ||
+        !Array.isArray(aliases) || typeof names !== 'object' || Array.isArray(names)) {
+        return null;
+    }
+    const aliasTexts = aliases.map(alias => readText(alias, NAME_LENGTH));
+    if (aliasTexts.includes(undefined)) return null;
+
+    // Names in other languages (JSON only); unknown languages are left out
+    const localized = {};
+    for (const [language, value] of Object.entries(names)) {
+        const text = readText(value, NAME_LENGTH);
+        if (text === undefined) return null;
+        if (text && LANGUAGES.includes(language)) localized[language] = text;
+    }
+
+    return {
+        name,
+        category,
+        category_icon: icon,
+        category_sort_order: sortOrder,
+        shelf_life_days: shelfLife,
+        aliases: aliasTexts.filter(Boolean),
+        names: localized
+    };
+}
+
+function readMealRow(row) {
+    const name = readText(row.name, NAME_LENGTH);
+    const servings = readInt(row.servings, 1, MAX_SERVINGS);
+    const ingredients = row.ingredients ?? [];
+    if (!name || servings === undefined || !Array.isArray(ingredients)) return null;
+
+    const items = [];
+    for (const ingredient of ingredients) {
+        if (!ingredient || typeof ingredient !== 'object') return null;
+        const product = readText(ingredient.product, NAME_LENGTH);
+        const category = readText(ingredient.category, CATEGORY_LENGTH);
+        // No quantity means "some" (e.g. salt)
+        const quantity = isBlank(ingredient.quantity) ? null : toNumber(ingredient.quantity);
+        const unit = isBlank(ingredient.unit) ? 'piece' : ingredient.unit;
+        if (product === undefined || category === undefined ||
+            (quantity !== null && !isQuantity(quantity)) || !GroceryItem.UNITS.includes(unit)) {
+            return null;
+        }
+        if (product) items.push({ product, category, quantity, unit });
+    }
+    return { name, servings: servings ?? DEFAULT_SERVINGS, ingredients: items };
+}
+
+function readMenuRow(row) {
+    const meal = readText(row.meal, NAME_LENGTH);
+    const day = readInt(row.day_of_week, 0, 6);
+    const mealType = isBlank(row.meal_type) ? 'dinner' : row.meal_type;
+    const servings = readInt(row.servings, 1, MAX_SERVINGS);
+    if (!meal || !isDate(row.week_start) || day === null || day === undefined ||
+        !MEAL_TYPES.includes(mealType) || servings === undefined) {
+        return null;
+    }
+    return { week_start: row.week_start, day_of_week: day, meal_type: mealType, meal, servings };
+}
+
+function readHistoryRow(row) {
+    const completedAt = typeof row.completed_at === 'string' ? new Date(row.completed_at) : null;
+    const sessionId = readText(row.session_id, SESSION_ID_LENGTH);
+    const product = readText(row.product, NAME_LENGTH);
+    const category = readText(row.category, CATEGORY_LENGTH);
+    const store = readText(row.store, NAME_LENGTH);
+    const quantity = isBlank(row.quantity) ? 1 : toNumber(row.quantity);
+    const unit = isBlank(row.unit) ? 'piece' : row.unit;
+    const unitPrice = isBlank(row.unit_price) ? null : toNumber(row.unit_price);
+    if (!product || !completedAt || isNaN(completedAt) || completedAt.getFullYear() > 9999 ||
+        [sessionId, category, store].includes(undefined) || !isQuantity(quantity) ||
+        !GroceryItem.UNITS.includes(unit) || (unitPrice !== null && !(unitPrice >= 0 && unitPrice <= MAX_UNIT_PRICE))) {
+        return null;
+    }
+    return {
+        completed_at: completedAt,
+        session_id: sessionId,
+        product,
+        category,
+        quantity,
+        unit,
+        unit_price: unitPrice,
+        status: row.status === 'not_found' ? 'not_found' : 'found',
+        store
+    };
+}
+
+// Create singleton instance
+const transferService = new TransferService();
+
+module.exports = transferService;
@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const productService = require('../src/services/productService');
+
+const parse = (line) => productService.parseLineForProduct(line);
+
+test('reads a leading amount with its unit', () => {
+    assert.deepEqual(parse('500g steak haché'),
+        { quantity: 500, unit: 'g', packSize: null, term: 'steak haché', hasQuantity: true });
+    assert.deepEqual(parse('1,5 kg de pommes'),
+        { quantity: 1.5, unit: 'kg', packSize: null, term: 'pommes', hasQuantity: true });
+    assert.deepEqual(parse('2 ק"ג עגבניות'),
+        { quantity: 2, unit: 'kg', packSize: null, term: 'עגבניות', hasQuantity: true });
+});
+
+test('reads amounts written as words', () => {
+    assert.deepEqual(parse("une douzaine d'oeufs"),
+        { quantity: 1, unit: 'dozen', packSize: null, term: 'oeufs', hasQuantity: true });
+});
+
+test('reads a trailing amount', () => {
+    assert.deepEqual(parse('pain x3'),
+        { quantity: 3, unit: 'piece', packSize: null, term: 'pain', hasQuantity: true });
+    assert.deepEqual(parse('lait 2 L'),
+        { quantity: 2, unit: 'l', packSize: null, term: 'lait', hasQuantity: true });
+});
+
+test('multiplies "so many times an amount"', () => {
+    assert.deepEqual(parse('2 x 500g riz'),
+        { quantity: 1000, unit: 'g', packSize: null, term: 'riz', hasQuantity: true });
+});
+
+test('keeps the pack size apart from the number of packs', () => {
+    assert.deepEqual(parse('2 packs de 6 yaourts'),
+        { quantity: 2, unit: 'pack', packSize: 6, term: 'yaourts', hasQuantity: true });
+});
+
+test('defaults to one piece when no amount is given', () => {
+    assert.deepEqual(parse('  pommes '),
+        { quantity: 1, unit: 'piece', packSize: null, term: 'pommes', hasQuantity: false });
+});
+
+test('caps amounts to what the list can hold', () => {
+    const { quantity, term } = parse('99999999 kg farine');
+    assert.equal(quantity, 9999999.999);
+    assert.equal(term, 'farine');
+});
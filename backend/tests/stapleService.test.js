@@ -0,0 +1,32 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const stapleService = require('../src/services/stapleService');
+
+const isDue = (staple) => stapleService.isDue(staple);
+
+test('interval staples are due once never added or after enough days', () => {
+    const staple = { rule: 'interval', interval_days: 7 };
+    assert.equal(isDue({ ...staple, days_since_added: null }), true);
+    assert.equal(isDue({ ...staple, days_since_added: 6 }), false);
+    assert.equal(isDue({ ...staple, days_since_added: 7 }), true);
+});
+
+test('weekday staples are due on their days, once a day', () => {
+    const staple = { rule: 'weekdays', weekdays: [1, 4], today_weekday: 1 };
+    assert.equal(isDue({ ...staple, days_since_added: null }), true);
+    assert.equal(isDue({ ...staple, days_since_added: 0 }), false);
+    assert.equal(isDue({ ...staple, today_weekday: 2, days_since_added: null }), false);
+});
+
+test('since-bought staples wait both since bought and since added', () => {
+    const staple = { rule: 'since_bought', interval_days: 10 };
+    assert.equal(isDue({ ...staple, days_since_bought: null, days_since_added: null }), true);
+    assert.equal(isDue({ ...staple, days_since_bought: 12, days_since_added: null }), true);
+    assert.equal(isDue({ ...staple, days_since_bought: 3, days_since_added: null }), false);
+    // Taken off the list unbought: not added back right away
+    assert.equal(isDue({ ...staple, days_since_bought: 12, days_since_added: 2 }), false);
+});
+
+test('unknown rules are never due', () => {
+    assert.equal(isDue({ rule: 'monthly', days_since_added: null }), false);
+});
@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const transferService = require('../src/services/transferService');
+
+const read = (dataset, row) => transferService.readRow(dataset, row);
+
+test('skips rows that are not objects', () => {
+    assert.equal(read('history', null), null);
+    assert.equal(read('history', []), null);
+    assert.equal(read('catalog', 'Riz'), null);
+});
+
+test('reads catalog rows, trimming text and dropping unknown languages', () => {
+    assert.deepEqual(
+        read('catalog', { name: ' Riz ', category: 'Épicerie', aliases: ['rice', ''], names: { en: 'Rice', de: 'Reis' }, shelf_life_days: '365' }),
+        { name: 'Riz', category: 'Épicerie', category_icon: null, category_sort_order: null, shelf_life_days: 365, aliases: ['rice'], names: { en: 'Rice' } }
+    );
+    assert.equal(read('catalog', { name: 'Riz', aliases: 'rice' }), null);
+    assert.equal(read('catalog', { name: 'Riz', shelf_life_days: 0 }), null);
+    assert.equal(read('catalog', { name: '' }), null);
+});
+
+test('reads meal rows and their ingredients', () => {
+    assert.deepEqual(
+        read('meals', { name: 'Pâtes', servings: '2', ingredients: [{ product: 'pâtes', quantity: '500', unit: 'g' }, { product: 'sel' }] }),
+        { name: 'Pâtes', servings: 2, ingredients: [
+            { product: 'pâtes', category: null, quantity: 500, unit: 'g' },
+            { product: 'sel', category: null, quantity: null, unit: 'piece' }
+        ] }
+    );
+    assert.equal(read('meals', { name: 'Pâtes' }).servings, 4);
+    assert.equal(read('meals', { name: 'Pâtes', ingredients: [{ product: 'pâtes', unit: 'bogus' }] }), null);
+    assert.equal(read('meals', { name: 'Pâtes', ingredients: [{ product: 'pâtes', quantity: -1 }] }), null);
+});
+
+test('reads menu rows on real dates and days', () => {
+    assert.deepEqual(
+        read('menu', { meal: 'Pâtes', week_start: '2024-03-04', day_of_week: '2' }),
+        { week_start: '2024-03-04', day_of_week: 2, meal_type: 'dinner', meal: 'Pâtes', servings: null }
+    );
+    assert.equal(read('menu', { meal: 'Pâtes', week_start: '2024-13-45', day_of_week: 2 }), null);
+    assert.equal(read('menu', { meal: 'Pâtes', week_start: '2024-03-04', day_of_week: 7 }), null);
+    assert.equal(read('menu', { meal: 'Pâtes', week_start: '2024-03-04', day_of_week: 2, meal_type: 'brunch' }), null);
+});
+
+test('reads history rows like the shopping forms', () => {
+    assert.deepEqual(
+        read('history', { completed_at: '2024-03-04T10:00:00Z', product: 'Lait', quantity: '2', unit: 'l', unit_price: '1.2' }),
+        {
+            completed_at: new Date('2024-03-04T10:00:00Z'),
+            session_id: null,
+            product: 'Lait',
+            category: null,
+            quantity: 2,
+            unit: 'l',
+            unit_price: 1.2,
+            status: 'found',
+            store: null
+        }
+    );
+    assert.equal(read('history', { completed_at: 'not a date', product: 'Lait' }), null);
+    assert.equal(read('history', { completed_at: '2024-03-04T10:00:00Z', product: 'Lait', quantity: -1 }), null);
+    assert.equal(read('history', { completed_at: '2024-03-04T10:00:00Z', product: 'Lait', unit_price: 100000 }), null);
+});
@@ -0,0 +1,102 @@
+// Service worker: keeps the app usable offline (e.g. in a supermarket basement).
+// - App shell: network first for pages, cache first for hashed build assets
+// - GET /api/groceries: network first, falling back to the last response
+// Changes made offline are queued by the API client (src/lib/outbox.ts), not here.
+
+const SHELL_CACHE = 'grocery-shell-v1';
+const API_CACHE = 'grocery-api-v1'; // Must match API_CACHE in src/lib/api.ts
+const SHELL_FILES = ['/', '/index.html', '/manifest.json', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== API_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The list depends on the selected household, so cache one copy per household
+function groceriesCacheKey(request) {
+  const householdId = request.headers.get('X-Household-Id') || 'default';
+  return new Request(`/api/groceries?household=${householdId}`);
+}
+
+async function networkFirstGroceries(request) {
+  const cache = await caches.open(API_CACHE);
+  const key = groceriesCacheKey(request);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(key, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirstAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === '/api/groceries') {
+    event.respondWith(networkFirstGroceries(request));
+    return;
+  }
+
+  // Other API calls (including the live events stream) go straight to the network
+  if (url.pathname.startsWith('/api')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(cacheFirstAsset(request));
+  }
+});
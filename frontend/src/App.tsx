@@ -3,13 +3,20 @@ import { useAuth } from './contexts/AuthContext';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import ResetPassword from './pages/ResetPassword';
+import Join from './pages/Join';
 import AdminResetPassword from './pages/AdminResetPassword';
+import AiReview from './pages/AiReview';
 import Dashboard from './pages/Dashboard';
 import Shopping from './pages/Shopping';
 import History from './pages/History';
 import Products from './pages/Products';
 import Meals from './pages/Meals';
 import MenuPlanner from './pages/MenuPlanner';
+import Household from './pages/Household';
+import Stores from './pages/Stores';
+import Insights from './pages/Insights';
+import Pantry from './pages/Pantry';
+import Activity from './pages/Activity';
 import Layout from './components/Layout';
 import LoadingSpinner from './components/LoadingSpinner';
 
@@ -23,6 +30,13 @@ function PrivateRoute({ children }: { children: React.ReactNode }) {
   return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
 }
 
+// Instance-wide screens, for the admins listed in ADMIN_EMAILS
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+
+  return user?.is_admin ? <>{children}</> : <Navigate to="/" />;
+}
+
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
 
@@ -56,6 +70,10 @@ export default function App() {
         path="/reset-password"
         element={<ResetPassword />}
       />
+      <Route
+        path="/join"
+        element={<Join />}
+      />
       <Route
         path="/"
         element={
@@ -70,7 +88,13 @@ export default function App() {
         <Route path="meals" element={<Meals />} />
         <Route path="products" element={<Products />} />
         <Route path="history" element={<History />} />
+        <Route path="household" element={<Household />} />
+        <Route path="stores" element={<Stores />} />
+        <Route path="insights" element={<Insights />} />
+        <Route path="pantry" element={<Pantry />} />
+        <Route path="activity" element={<Activity />} />
         <Route path="admin/reset-password" element={<AdminResetPassword />} />
+        <Route path="admin/ai-review" element={<AdminRoute><AiReview /></AdminRoute>} />
       </Route>
     </Routes>
   );
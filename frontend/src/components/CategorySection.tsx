@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import type { GroceryItem } from '@/lib/api';
+import { useTranslation } from '@/contexts/LanguageContext';
 import ItemCard from './ItemCard';
 
 interface CategorySectionProps {
@@ -12,6 +13,7 @@ interface CategorySectionProps {
 }
 
 export default function CategorySection({ category, items, icon }: CategorySectionProps) {
+  const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(true);
 
   // Get icon from first item if not provided
@@ -30,13 +32,13 @@ export default function CategorySection({ category, items, icon }: CategorySecti
           <span className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center text-xl">
             {categoryIcon}
           </span>
-          <div className="text-left">
+          <div className="text-start">
             <h3 className="font-heading font-semibold text-foreground">
               {category}
             </h3>
             <p className="text-xs text-muted-foreground">
-              {items.length} item{items.length !== 1 ? 's' : ''}
-              {selectedCount > 0 && ` • ${selectedCount} selected`}
+              {t('category.itemCount', { count: items.length })}
+              {selectedCount > 0 && t('category.selected', { count: selectedCount })}
             </p>
           </div>
         </div>
@@ -49,7 +51,7 @@ export default function CategorySection({ category, items, icon }: CategorySecti
           {isExpanded ? (
             <ChevronDown className="w-5 h-5 text-muted-foreground" />
           ) : (
-            <ChevronRight className="w-5 h-5 text-muted-foreground" />
+            <ChevronRight className="w-5 h-5 text-muted-foreground rtl:rotate-180" />
           )}
         </div>
       </button>
@@ -0,0 +1,149 @@
+import { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { api, ImportResult, TransferDataset, TransferFormat } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { t, type MessageKey } from '@/lib/i18n';
+
+const DATASET_LABELS: Record<TransferDataset, { title: MessageKey; description: MessageKey }> = {
+  catalog: { title: 'transfer.catalog', description: 'transfer.catalogHint' },
+  meals: { title: 'transfer.meals', description: 'transfer.mealsHint' },
+  menu: { title: 'transfer.menu', description: 'transfer.menuHint' },
+  history: { title: 'transfer.history', description: 'transfer.historyHint' },
+};
+
+// e.g. "3 added, 1 updated, 12 already there"
+function describeResult(result: ImportResult) {
+  const parts = [t('transfer.created', { count: result.created })];
+  if (result.updated) parts.push(t('transfer.updated', { count: result.updated }));
+  if (result.unchanged) parts.push(t('transfer.unchanged', { count: result.unchanged }));
+  if (result.skipped) parts.push(t('transfer.skipped', { count: result.skipped }));
+  return parts.join(', ');
+}
+
+interface DataTransferProps {
+  datasets: TransferDataset[];
+  // Called after an import so the page can reload what it shows
+  onImported?: () => void;
+}
+
+// Export datasets as JSON or CSV files and import them back (merged, so a
+// file can be imported more than once)
+export default function DataTransfer({ datasets, onImported }: DataTransferProps) {
+  const { canEdit, isAdmin } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<TransferDataset | null>(null);
+  const [busy, setBusy] = useState<TransferDataset | null>(null);
+
+  const handleExport = async (dataset: TransferDataset, format: TransferFormat) => {
+    setBusy(dataset);
+    try {
+      const { blob, filename } = await api.exportData(dataset, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: t('transfer.exportFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleChooseFile = (dataset: TransferDataset) => {
+    setImportTarget(dataset);
+    fileInput.current?.click();
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again
+    event.target.value = '';
+    if (!file || !importTarget) return;
+
+    const format: TransferFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    setBusy(importTarget);
+    try {
+      const result = await api.importData(importTarget, format, await file.text());
+      toast({
+        title: t('transfer.imported', { dataset: t(DATASET_LABELS[importTarget].title) }),
+        description: describeResult(result),
+        variant: 'success',
+      });
+      onImported?.();
+    } catch (error) {
+      toast({
+        title: t('transfer.importFailed'),
+        description: error instanceof SyntaxError
+          ? t('transfer.invalidJson')
+          : error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{t('transfer.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {datasets.map(dataset => (
+          <div key={dataset} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">{t(DATASET_LABELS[dataset].title)}</p>
+              <p className="text-xs text-muted-foreground">{t(DATASET_LABELS[dataset].description)}</p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              {(['json', 'csv'] as const).map(format => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  disabled={busy !== null}
+                  onClick={() => handleExport(dataset, format)}
+                >
+                  <Download className="w-3 h-3" />
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+              {(dataset === 'catalog' ? isAdmin : canEdit) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  disabled={busy !== null}
+                  onClick={() => handleChooseFile(dataset)}
+                >
+                  <Upload className="w-3 h-3" />
+                  {t('transfer.import')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { HelpCircle, Sparkles } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useGrocery } from '@/contexts/GroceryContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { formatQuantity, hasQuantity } from '@/lib/units';
+import type { ParseSuggestion, Product } from '@/lib/api';
+
+interface DidYouMeanDialogProps {
+  suggestions: ParseSuggestion[];
+  onChange: (suggestions: ParseSuggestion[]) => void;
+}
+
+// Lets the user confirm loose product matches returned by the parser.
+// Open while there are suggestions left; each one is resolved individually.
+export default function DidYouMeanDialog({ suggestions, onChange }: DidYouMeanDialogProps) {
+  const { addItem, parseAndAdd } = useGrocery();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [busyTerm, setBusyTerm] = useState<string | null>(null);
+
+  const resolve = (suggestion: ParseSuggestion) => {
+    onChange(suggestions.filter(s => s !== suggestion));
+  };
+
+  const run = async (suggestion: ParseSuggestion, action: () => Promise<void>) => {
+    setBusyTerm(suggestion.originalInput);
+    try {
+      await action();
+      resolve(suggestion);
+    } catch (error) {
+      toast({
+        title: t('dashboard.addFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyTerm(null);
+    }
+  };
+
+  // Remember the typed term as an alias so it matches exactly next time
+  const handleChoose = (suggestion: ParseSuggestion, product: Product) => run(suggestion, async () => {
+    await api.addProductAlias(product.id, suggestion.term);
+    await addItem(product.id, suggestion.quantity, undefined, suggestion.unit);
+    toast({ title: t('dashboard.added', { name: product.name }) });
+  });
+
+  // None of the candidates: let AI handle the line
+  const handleSomethingElse = (suggestion: ParseSuggestion) => run(suggestion, async () => {
+    const { stats } = await parseAndAdd(suggestion.originalInput, { fuzzy: false });
+    if (stats.total > 0) {
+      toast({ title: t('didYouMean.addedTerm', { term: suggestion.term }), description: t('dashboard.parsedByAi') });
+    }
+  });
+
+  return (
+    <Dialog open={suggestions.length > 0} onOpenChange={(open) => !open && onChange([])}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HelpCircle className="w-5 h-5 text-primary" />
+            {t('didYouMean.title')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('didYouMean.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {suggestions.map((suggestion) => {
+            const isBusy = busyTerm === suggestion.originalInput;
+            return (
+              <div key={suggestion.originalInput} className="space-y-2">
+                <div className="text-sm">
+                  <span className="font-medium">"{suggestion.term}"</span>
+                  {hasQuantity(suggestion.quantity, suggestion.unit) && (
+                    <span className="text-muted-foreground"> ({formatQuantity(suggestion.quantity, suggestion.unit)})</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {suggestion.candidates.map((product) => (
+                    <Button
+                      key={product.id}
+                      variant="outline"
+                      size="sm"
+                      disabled={busyTerm !== null}
+                      onClick={() => handleChoose(suggestion, product)}
+                    >
+                      <span className="me-1">{product.category_icon || '📦'}</span>
+                      {product.name}
+                    </Button>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busyTerm !== null}
+                    onClick={() => handleSomethingElse(suggestion)}
+                  >
+                    {isBusy ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary me-1" />
+                    ) : (
+                      <Sparkles className="w-4 h-4 me-1" />
+                    )}
+                    {t('didYouMean.somethingElse')}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChange([])} disabled={busyTerm !== null}>
+            {t('didYouMean.skip')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
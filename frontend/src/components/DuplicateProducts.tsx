@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CopyCheck, Merge } from 'lucide-react';
+import { api, DuplicateGroup, DuplicateReason } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import type { MessageKey } from '@/lib/i18n';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import LoadingSpinner from './LoadingSpinner';
+
+const REASON_LABELS: Record<DuplicateReason, MessageKey> = {
+  same_name: 'duplicates.sameName',
+  alias: 'duplicates.alias',
+  similar: 'duplicates.similar',
+};
+
+// Per group: the product kept and the products left out of the merge
+interface GroupChoice {
+  keepId: number;
+  skipped: Set<number>;
+}
+
+interface DuplicateProductsProps {
+  // Called after a merge so the page can reload the catalog
+  onMerged: () => void;
+}
+
+// Catalog entries that look like the same product, merged into one on request
+export default function DuplicateProducts({ onMerged }: DuplicateProductsProps) {
+  const { isAdmin: canEdit } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [choices, setChoices] = useState<GroupChoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const data = await api.getDuplicateProducts();
+      setGroups(data);
+      setChoices(data.map(group => ({ keepId: group.products[0].id, skipped: new Set() })));
+    } catch (error) {
+      toast({
+        title: t('duplicates.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast, t]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const updateChoice = (index: number, update: (choice: GroupChoice) => GroupChoice) => {
+    setChoices(prev => prev.map((choice, i) => (i === index ? update(choice) : choice)));
+  };
+
+  const toggleSkipped = (index: number, productId: number) => {
+    updateChoice(index, choice => {
+      const skipped = new Set(choice.skipped);
+      if (skipped.has(productId)) skipped.delete(productId);
+      else skipped.add(productId);
+      return { ...choice, skipped };
+    });
+  };
+
+  const handleMerge = async (index: number) => {
+    const group = groups[index];
+    const { keepId, skipped } = choices[index];
+    const target = group.products.find(product => product.id === keepId)!;
+    const sources = group.products.filter(product => product.id !== keepId && !skipped.has(product.id));
+    if (sources.length === 0) return;
+
+    const names = sources.map(product => `"${product.name}"`).join(', ');
+    if (!confirm(t('duplicates.confirmMerge', { names, target: target.name }))) return;
+
+    setMergingIndex(index);
+    try {
+      await api.mergeProducts(keepId, sources.map(product => product.id));
+      toast({
+        title: t('duplicates.merged', { name: target.name }),
+        description: t('duplicates.mergedDetail', { count: sources.length }),
+        variant: 'success',
+      });
+      await loadGroups();
+      onMerged();
+    } catch (error) {
+      toast({
+        title: t('duplicates.mergeFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <CopyCheck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+        <p>{t('duplicates.empty')}</p>
+        <p className="text-sm">{t('duplicates.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {t('duplicates.hint')}
+      </p>
+
+      {groups.map((group, index) => {
+        const choice = choices[index];
+        const mergeCount = group.products.filter(
+          product => product.id !== choice.keepId && !choice.skipped.has(product.id)
+        ).length;
+        const keepName = group.products.find(product => product.id === choice.keepId)?.name;
+
+        return (
+          <Card key={group.products.map(product => product.id).join('-')} className="p-3 space-y-2">
+            <span className="text-xs bg-muted px-1.5 py-0.5 rounded">{t(REASON_LABELS[group.reason])}</span>
+
+            {group.products.map(product => {
+              const isKept = product.id === choice.keepId;
+              return (
+                <div
+                  key={product.id}
+                  className={cn(
+                    'flex items-center gap-3 rounded-md p-2',
+                    isKept && 'bg-primary/5',
+                    choice.skipped.has(product.id) && 'opacity-50'
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name={`keep-${index}`}
+                    checked={isKept}
+                    onChange={() => updateChoice(index, prev => ({ ...prev, keepId: product.id }))}
+                    aria-label={t('duplicates.keepLabel', { name: product.name })}
+                    disabled={!canEdit}
+                  />
+                  <span className="text-xl">{product.category_icon}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{product.name}</span>
+                      {isKept && (
+                        <span className="text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded">{t('duplicates.keep')}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {t('duplicates.usage', { category: product.category_name, count: product.usage })}
+                      {product.aliases.length > 0 && ` · ${product.aliases.join(', ')}`}
+                    </p>
+                  </div>
+                  {!isKept && canEdit && (
+                    <input
+                      type="checkbox"
+                      checked={!choice.skipped.has(product.id)}
+                      onChange={() => toggleSkipped(index, product.id)}
+                      aria-label={t('duplicates.mergeLabel', { name: product.name })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {canEdit && (
+              <Button
+                size="sm"
+                className="w-full gap-2"
+                disabled={mergeCount === 0 || mergingIndex !== null}
+                onClick={() => handleMerge(index)}
+              >
+                <Merge className="w-4 h-4" />
+                {t('duplicates.mergeInto', { count: mergeCount, name: keepName ?? '' })}
+              </Button>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
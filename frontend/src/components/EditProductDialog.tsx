@@ -18,7 +18,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/contexts/LanguageContext";
 import { api, Product, Category } from "@/lib/api";
+import PriceHistory from "./PriceHistory";
+import ShelfLifeInput from "./ShelfLifeInput";
 
 interface EditProductDialogProps {
   productId: number | null;
@@ -34,6 +37,7 @@ export default function EditProductDialog({
   onSaved,
 }: EditProductDialogProps) {
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [product, setProduct] = useState<(Product & { aliases?: string[] }) | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [newAlias, setNewAlias] = useState("");
@@ -98,12 +102,13 @@ export default function EditProductDialog({
         api.getProduct(productId),
         api.getCategories(),
       ]);
-      setProduct(productData);
+      // The catalog name is edited, not the one shown in the user's language
+      setProduct({ ...productData, name: productData.catalog_name ?? productData.name });
       setCategories(categoriesData);
     } catch (error) {
       toast({
-        title: "Failed to load product",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
       onOpenChange(false);
@@ -118,14 +123,15 @@ export default function EditProductDialog({
       await api.updateProduct(product.id, {
         name: product.name,
         category_id: product.category_id,
+        shelf_life_days: product.shelf_life_days,
       });
-      toast({ title: "Product updated" });
+      toast({ title: t('productDialog.updated') });
       onOpenChange(false);
       onSaved?.();
     } catch (error) {
       toast({
-        title: "Failed to update",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.updateFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
     }
@@ -137,9 +143,9 @@ export default function EditProductDialog({
       const result = await api.addProductAlias(product.id, newAlias.trim());
       setProduct({ ...product, aliases: result.aliases });
       setNewAlias("");
-      toast({ title: "Alias added" });
+      toast({ title: t('productDialog.aliasAdded') });
     } catch (error) {
-      toast({ title: "Failed to add alias", variant: "destructive" });
+      toast({ title: t('productDialog.aliasAddFailed'), variant: "destructive" });
     }
   };
 
@@ -148,9 +154,9 @@ export default function EditProductDialog({
     try {
       const result = await api.removeProductAlias(product.id, alias);
       setProduct({ ...product, aliases: result.aliases });
-      toast({ title: "Alias removed" });
+      toast({ title: t('productDialog.aliasRemoved') });
     } catch (error) {
-      toast({ title: "Failed to remove alias", variant: "destructive" });
+      toast({ title: t('productDialog.aliasRemoveFailed'), variant: "destructive" });
     }
   };
 
@@ -159,21 +165,21 @@ export default function EditProductDialog({
     setIsFixingSpelling(true);
     try {
       const result = await api.fixProductSpelling(product.id);
-      setProduct({ ...product, name: result.name, aliases: result.aliases });
+      setProduct({ ...product, name: result.catalog_name ?? result.name, aliases: result.aliases });
       setSpellSuggestions([]);
       
       if (result.corrected) {
         toast({ 
-          title: "Spelling corrected",
-          description: `"${result.originalName}" → "${result.name}"`,
+          title: t('productDialog.spellingCorrected'),
+          description: t('productDialog.spellingChange', { from: result.originalName ?? '', to: result.name }),
         });
       } else {
-        toast({ title: "No spelling changes needed" });
+        toast({ title: t('productDialog.noSpellingChanges') });
       }
     } catch (error) {
       toast({ 
-        title: "Failed to fix spelling", 
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.fixSpellingFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive" 
       });
     } finally {
@@ -191,7 +197,7 @@ export default function EditProductDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Edit Product</DialogTitle>
+          <DialogTitle>{t('productDialog.editTitle')}</DialogTitle>
         </DialogHeader>
         {isLoading ? (
           <div className="flex items-center justify-center py-8">
@@ -200,7 +206,7 @@ export default function EditProductDialog({
         ) : product ? (
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="product-name">Name</Label>
+              <Label htmlFor="product-name">{t('common.name')}</Label>
               <div className="flex gap-2">
                 <Input
                   id="product-name"
@@ -215,7 +221,7 @@ export default function EditProductDialog({
                   size="icon"
                   onClick={handleFixSpelling}
                   disabled={isFixingSpelling}
-                  title="Fix spelling with AI"
+                  title={t('productDialog.fixSpelling')}
                   className="shrink-0"
                 >
                   {isFixingSpelling ? (
@@ -242,7 +248,7 @@ export default function EditProductDialog({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="product-category">Category</Label>
+              <Label htmlFor="product-category">{t('common.category')}</Label>
               <Select
                 value={product.category_id.toString()}
                 onValueChange={(value) =>
@@ -266,7 +272,18 @@ export default function EditProductDialog({
             </div>
 
             <div className="space-y-2">
-              <Label>Aliases (spelling variants)</Label>
+              <Label htmlFor="product-shelf-life">{t('productDialog.keepsFor')}</Label>
+              <ShelfLifeInput
+                id="product-shelf-life"
+                value={product.shelf_life_days}
+                onChange={(days) => setProduct({ ...product, shelf_life_days: days })}
+                fallback={categories.find(c => c.id === product.category_id)?.shelf_life_days}
+                fallbackLabel={t('shelfLife.category')}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('productDialog.aliases')}</Label>
               <div className="flex flex-wrap gap-2 mb-2">
                 {product.aliases?.map((alias) => (
                   <span
@@ -285,7 +302,7 @@ export default function EditProductDialog({
               </div>
               <div className="flex gap-2">
                 <Input
-                  placeholder="Add alias..."
+                  placeholder={t('productDialog.addAlias')}
                   value={newAlias}
                   onChange={(e) => setNewAlias(e.target.value)}
                   onKeyDown={(e) => e.key === "Enter" && handleAddAlias()}
@@ -295,14 +312,16 @@ export default function EditProductDialog({
                 </Button>
               </div>
             </div>
+
+            <PriceHistory productId={product.id} />
           </div>
         ) : null}
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button onClick={handleUpdateProduct} disabled={isLoading || !product}>
-            Save Changes
+            {t('productDialog.saveChanges')}
           </Button>
         </DialogFooter>
       </DialogContent>
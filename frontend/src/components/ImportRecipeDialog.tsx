@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { api, RecipeDraft } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+
+interface ImportRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (draft: RecipeDraft) => void;
+}
+
+// Paste a recipe (or a recipe page's HTML) to start a meal from it
+export default function ImportRecipeDialog({ open, onOpenChange, onImported }: ImportRecipeDialogProps) {
+  const [text, setText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (open) setText('');
+  }, [open]);
+
+  const handleImport = async () => {
+    if (!text.trim()) return;
+    setIsImporting(true);
+    try {
+      const draft = await api.importRecipe(text);
+      onImported(draft);
+    } catch (error) {
+      toast({
+        title: t('recipe.importFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('recipe.title')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="recipe-text">{t('recipe.label')}</Label>
+          <textarea
+            id="recipe-text"
+            className="flex min-h-[200px] w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
+            placeholder={'Quiche lorraine\nPour 6 personnes\nIngrédients\n200 g de lardons\n3 oeufs\n20 cl de crème'}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('recipe.hint')}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleImport} disabled={!text.trim() || isImporting} className="gap-2">
+            <FileDown className="w-4 h-4" />
+            {isImporting ? t('recipe.reading') : t('recipe.import')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,10 +2,13 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { motion } from "framer-motion";
 import { Trash2, Plus, Minus } from "lucide-react";
 import { useGrocery } from "@/contexts/GroceryContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/contexts/LanguageContext";
 import ProductDialog from "@/components/ProductDialog";
-import type { GroceryItem } from "@/lib/api";
+import { UNITS, unitLabel, formatQuantity, quantityStep } from "@/lib/units";
+import type { GroceryItem, Unit } from "@/lib/api";
 
 interface ItemCardProps {
   item: GroceryItem;
@@ -45,11 +48,15 @@ function useLongPress(callback: () => void, ms = 500) {
 
 export default function ItemCard({ item }: ItemCardProps) {
   const { updateItem, deleteItem, fetchItems } = useGrocery();
+  const { user, isAdmin } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isUpdating, setIsUpdating] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(item.quantity.toString());
+  const [editUnit, setEditUnit] = useState<Unit>(item.unit);
   const inputRef = useRef<HTMLInputElement>(null);
+  const editRef = useRef<HTMLDivElement>(null);
 
   // Product edit dialog state
   const [isProductEditOpen, setIsProductEditOpen] = useState(false);
@@ -61,18 +68,21 @@ export default function ItemCard({ item }: ItemCardProps) {
     }
   }, [isEditing]);
 
+  // Editing the product changes the shared catalog
   const handleLongPress = useCallback(() => {
+    if (!isAdmin) return;
     if (navigator.vibrate) {
       navigator.vibrate(50);
     }
     setIsProductEditOpen(true);
-  }, []);
+  }, [isAdmin]);
 
   const longPressHandlers = useLongPress(handleLongPress, 500);
 
-  const handleQuantityChange = async (delta: number) => {
-    const newQuantity = item.quantity + delta;
-    if (newQuantity < 1) {
+  const handleQuantityChange = async (direction: 1 | -1) => {
+    // Round away float noise from steps like 0.5 kg
+    const newQuantity = Math.round((item.quantity + direction * quantityStep(item.unit)) * 1000) / 1000;
+    if (newQuantity <= 0) {
       handleDelete();
       return;
     }
@@ -82,8 +92,8 @@ export default function ItemCard({ item }: ItemCardProps) {
       await updateItem(item.id, { quantity: newQuantity });
     } catch (error) {
       toast({
-        title: "Failed to update",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('item.updateFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
     } finally {
@@ -91,23 +101,30 @@ export default function ItemCard({ item }: ItemCardProps) {
     }
   };
 
+  const startEditing = () => {
+    setEditValue(item.quantity.toString());
+    setEditUnit(item.unit);
+    setIsEditing(true);
+  };
+
   const handleQuantitySubmit = async () => {
-    const newQuantity = parseInt(editValue) || 1;
+    const parsed = parseFloat(editValue.replace(",", "."));
+    const newQuantity = isNaN(parsed) ? item.quantity : parsed;
     setIsEditing(false);
 
-    if (newQuantity === item.quantity) return;
-    if (newQuantity < 1) {
+    if (newQuantity === item.quantity && editUnit === item.unit) return;
+    if (newQuantity <= 0) {
       handleDelete();
       return;
     }
 
     setIsUpdating(true);
     try {
-      await updateItem(item.id, { quantity: newQuantity });
+      await updateItem(item.id, { quantity: newQuantity, unit: editUnit });
     } catch (error) {
       toast({
-        title: "Failed to update",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('item.updateFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
       setEditValue(item.quantity.toString());
@@ -121,8 +138,8 @@ export default function ItemCard({ item }: ItemCardProps) {
       await deleteItem(item.id);
     } catch (error) {
       toast({
-        title: "Failed to delete",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('item.deleteFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
     }
@@ -145,6 +162,12 @@ export default function ItemCard({ item }: ItemCardProps) {
           <span className="font-medium text-foreground truncate block text-sm">
             {item.product_name}
           </span>
+          {/* Only other members' items are marked; your own need no badge */}
+          {item.user_id !== user?.id && (
+            <span className="text-[11px] text-muted-foreground truncate block">
+              {t('item.addedBy', { name: item.added_by_name || t('item.aMember') })}
+            </span>
+          )}
         </div>
 
         {/* Quantity controls - compact */}
@@ -155,19 +178,21 @@ export default function ItemCard({ item }: ItemCardProps) {
             className="h-7 w-7"
             onClick={() => handleQuantityChange(-1)}
             disabled={isUpdating}
-            aria-label="Decrease quantity"
+            aria-label={t('item.decrease')}
           >
             <Minus className="w-3 h-3" />
           </Button>
 
           {isEditing ? (
-            <input
-              ref={inputRef}
-              type="number"
-              min="1"
-              value={editValue}
-              onChange={(e) => setEditValue(e.target.value)}
-              onBlur={handleQuantitySubmit}
+            // Amount and unit are edited together; leaving both saves
+            <div
+              ref={editRef}
+              className="flex items-center gap-1"
+              onBlur={(e) => {
+                if (!editRef.current?.contains(e.relatedTarget as Node)) {
+                  handleQuantitySubmit();
+                }
+              }}
               onKeyDown={(e) => {
                 if (e.key === "Enter") handleQuantitySubmit();
                 if (e.key === "Escape") {
@@ -175,17 +200,32 @@ export default function ItemCard({ item }: ItemCardProps) {
                   setIsEditing(false);
                 }
               }}
-              className="w-8 h-7 text-center text-sm font-medium border rounded focus:outline-none focus:ring-2 focus:ring-primary"
-            />
+            >
+              <input
+                ref={inputRef}
+                type="text"
+                inputMode="decimal"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                className="w-12 h-7 text-center text-sm font-medium border rounded focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <select
+                value={editUnit}
+                onChange={(e) => setEditUnit(e.target.value as Unit)}
+                aria-label={t('common.unit')}
+                className="h-7 text-xs border rounded bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {UNITS.map((unit) => (
+                  <option key={unit} value={unit}>{unitLabel(unit)}</option>
+                ))}
+              </select>
+            </div>
           ) : (
             <button
-              onClick={() => {
-                setEditValue(item.quantity.toString());
-                setIsEditing(true);
-              }}
-              className="w-8 h-7 text-center text-sm font-medium tabular-nums hover:bg-muted rounded transition-colors"
+              onClick={startEditing}
+              className="min-w-8 h-7 px-1 text-center text-sm font-medium tabular-nums hover:bg-muted rounded transition-colors whitespace-nowrap"
             >
-              {item.quantity}
+              {item.unit === "piece" ? item.quantity : formatQuantity(item.quantity, item.unit)}
             </button>
           )}
 
@@ -195,7 +235,7 @@ export default function ItemCard({ item }: ItemCardProps) {
             className="h-7 w-7"
             onClick={() => handleQuantityChange(1)}
             disabled={isUpdating}
-            aria-label="Increase quantity"
+            aria-label={t('item.increase')}
           >
             <Plus className="w-3 h-3" />
           </Button>
@@ -207,7 +247,7 @@ export default function ItemCard({ item }: ItemCardProps) {
           size="icon"
           className="h-7 w-7 text-muted-foreground hover:text-red-500 hover:bg-red-50 flex-shrink-0"
           onClick={handleDelete}
-          aria-label="Delete item"
+          aria-label={t('item.delete')}
         >
           <Trash2 className="w-4 h-4" />
         </Button>
@@ -1,11 +1,21 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
-import { ShoppingCart, List, History, LogOut, Activity, Zap, Clock, AlertCircle, UtensilsCrossed, CalendarDays, Package } from 'lucide-react';
+import { ShoppingCart, List, History, LogOut, Activity, Zap, Clock, AlertCircle, UtensilsCrossed, CalendarDays, Package, Users, BarChart3, Refrigerator, ScrollText } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { cn } from '@/lib/utils';
-import { api, AIStats } from '@/lib/api';
+import { api, AIStats, Language } from '@/lib/api';
+import { LANGUAGES, LANGUAGE_LABELS } from '@/lib/languages';
+import { formatNumber, type MessageKey } from '@/lib/i18n';
+
+const PROVIDER_LABELS: Record<AIStats['provider'], MessageKey> = {
+  gemini: 'stats.providerGemini',
+  openai: 'stats.providerOpenai',
+  rules: 'stats.providerRules',
+};
 
 // Long press hook
 function useLongPress(callback: () => void, ms = 500) {
@@ -40,7 +50,8 @@ function useLongPress(callback: () => void, ms = 500) {
 }
 
 export default function Layout() {
-  const { user, logout } = useAuth();
+  const { user, households, currentHousehold, switchHousehold, logout, setLanguage } = useAuth();
+  const { t, language, setLanguage: setUiLanguage } = useTranslation();
   const navigate = useNavigate();
   const [isStatsOpen, setIsStatsOpen] = useState(false);
   const [stats, setStats] = useState<AIStats | null>(null);
@@ -68,12 +79,19 @@ export default function Layout() {
 
   const longPressHandlers = useLongPress(handleLongPress, 800);
 
+  // Switches the interface; product names follow it
+  const handleLanguageChange = (value: string) => {
+    const next = value as Language;
+    setUiLanguage(next);
+    setLanguage(next).catch((error) => console.error('Failed to update language:', error));
+  };
+
   const navItems = [
-    { path: '/', icon: List, label: 'List' },
-    { path: '/shopping', icon: ShoppingCart, label: 'Shop' },
-    { path: '/menu', icon: CalendarDays, label: 'Menu' },
-    { path: '/meals', icon: UtensilsCrossed, label: 'Meals' },
-    { path: '/products', icon: Package, label: 'Products' },
+    { path: '/', icon: List, label: t('nav.list') },
+    { path: '/shopping', icon: ShoppingCart, label: t('nav.shop') },
+    { path: '/menu', icon: CalendarDays, label: t('nav.menu') },
+    { path: '/meals', icon: UtensilsCrossed, label: t('nav.meals') },
+    { path: '/products', icon: Package, label: t('nav.products') },
   ];
 
   return (
@@ -90,15 +108,55 @@ export default function Layout() {
               <ShoppingCart className="w-5 h-5 text-white" />
             </div>
             <div>
-              <h1 className="font-heading font-bold text-lg text-foreground">Grocery List</h1>
-              <p className="text-xs text-muted-foreground">Welcome, {user?.name}</p>
+              <h1 className="font-heading font-bold text-lg text-foreground">{t('app.title')}</h1>
+              {households.length > 1 && currentHousehold ? (
+                <Select
+                  value={currentHousehold.id.toString()}
+                  onValueChange={(value) => switchHousehold(parseInt(value))}
+                >
+                  <SelectTrigger className="h-6 px-2 py-0 text-xs border-0 bg-transparent text-muted-foreground gap-1 w-auto">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {households.map((household) => (
+                      <SelectItem key={household.id} value={household.id.toString()}>
+                        {household.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-xs text-muted-foreground">{t('layout.welcome', { name: user?.name ?? '' })}</p>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-1">
-            <Button variant="ghost" size="icon" onClick={() => navigate('/history')} title="History">
+            <Select value={language} onValueChange={handleLanguageChange}>
+              <SelectTrigger className="h-9 w-auto px-2 gap-1 border-0 bg-transparent text-xs font-medium uppercase" title={t('layout.language')}>
+                <SelectValue>{language}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGES.map((option) => (
+                  <SelectItem key={option} value={option}>{LANGUAGE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/household')} title={t('nav.household')}>
+              <Users className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/pantry')} title={t('nav.pantry')}>
+              <Refrigerator className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/activity')} title={t('nav.activity')}>
+              <ScrollText className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/history')} title={t('nav.history')}>
               <History className="w-5 h-5" />
             </Button>
-            <Button variant="ghost" size="icon" onClick={logout} title="Logout">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/insights')} title={t('nav.insights')}>
+              <BarChart3 className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={logout} title={t('nav.logout')}>
               <LogOut className="w-5 h-5" />
             </Button>
           </div>
@@ -107,7 +165,8 @@ export default function Layout() {
 
       {/* Main Content */}
       <main className="flex-1 max-w-4xl mx-auto w-full px-4 py-6 pb-24">
-        <Outlet />
+        {/* Remount pages when switching household or language so they reload their data */}
+        <Outlet key={`${currentHousehold?.id}:${language}:${user?.language}`} />
       </main>
 
       {/* Bottom Navigation */}
@@ -141,7 +200,7 @@ export default function Layout() {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Activity className="w-5 h-5 text-primary" />
-              AI Service Stats
+              {t('stats.title')}
             </DialogTitle>
           </DialogHeader>
           
@@ -158,28 +217,33 @@ export default function Layout() {
                   stats.isInitialized ? "bg-emerald-500" : "bg-red-500"
                 )} />
                 <span className="font-medium">
-                  {stats.isInitialized ? 'Connected' : 'Not Initialized'}
+                  {stats.isInitialized ? t('stats.connected') : t('stats.notInitialized')}
                 </span>
-                <span className="text-sm text-muted-foreground ml-auto">
-                  {stats.model}
+                <span className="text-sm text-muted-foreground ms-auto">
+                  {t(PROVIDER_LABELS[stats.provider])} · {stats.model}
                 </span>
               </div>
+              {stats.usingFallback && (
+                <p className="text-xs text-amber-600">
+                  {t('stats.usingFallback')}
+                </p>
+              )}
 
               {/* Request Stats */}
               <div className="grid grid-cols-2 gap-3">
                 <StatCard
                   icon={<Zap className="w-4 h-4" />}
-                  label="Last Minute"
+                  label={t('stats.lastMinute')}
                   value={stats.requestsLastMinute}
-                  subValue={`${stats.tokensLastMinute.toLocaleString()} tokens`}
+                  subValue={t('stats.tokens', { count: formatNumber(stats.tokensLastMinute) })}
                   color="text-amber-600"
                   bgColor="bg-amber-50"
                 />
                 <StatCard
                   icon={<Clock className="w-4 h-4" />}
-                  label="Last Hour"
+                  label={t('stats.lastHour')}
                   value={stats.requestsLastHour}
-                  subValue={`${stats.tokensLastHour.toLocaleString()} tokens`}
+                  subValue={t('stats.tokens', { count: formatNumber(stats.tokensLastHour) })}
                   color="text-blue-600"
                   bgColor="bg-blue-50"
                 />
@@ -188,59 +252,61 @@ export default function Layout() {
               {/* Success/Failure */}
               <div className="grid grid-cols-2 gap-3">
                 <div className="p-3 rounded-lg bg-emerald-50">
-                  <div className="text-sm text-emerald-600 font-medium">Successful</div>
+                  <div className="text-sm text-emerald-600 font-medium">{t('stats.successful')}</div>
                   <div className="text-2xl font-bold text-emerald-700">{stats.successfulLastHour}</div>
-                  <div className="text-xs text-emerald-600">last hour</div>
+                  <div className="text-xs text-emerald-600">{t('stats.inLastHour')}</div>
                 </div>
                 <div className="p-3 rounded-lg bg-red-50">
-                  <div className="text-sm text-red-600 font-medium">Failed</div>
+                  <div className="text-sm text-red-600 font-medium">{t('stats.failed')}</div>
                   <div className="text-2xl font-bold text-red-700">{stats.failedLastHour}</div>
-                  <div className="text-xs text-red-600">last hour</div>
+                  <div className="text-xs text-red-600">{t('stats.inLastHour')}</div>
                 </div>
               </div>
 
               {/* Rate Limits */}
-              <div className="space-y-2">
-                <div className="text-sm font-medium text-muted-foreground flex items-center gap-1">
-                  <AlertCircle className="w-4 h-4" />
-                  Rate Limits (Free Tier)
-                </div>
+              {stats.rateLimits && stats.usagePercent && (
                 <div className="space-y-2">
-                  <RateLimitBar
-                    label="Requests/min"
-                    current={stats.requestsLastMinute}
-                    max={stats.rateLimits.requestsPerMinute}
-                    percent={stats.usagePercent.rpm}
-                  />
-                  <RateLimitBar
-                    label="Tokens/min"
-                    current={stats.tokensLastMinute}
-                    max={stats.rateLimits.tokensPerMinute}
-                    percent={stats.usagePercent.tpm}
-                  />
+                  <div className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {t('stats.rateLimits')}
+                  </div>
+                  <div className="space-y-2">
+                    <RateLimitBar
+                      label={t('stats.requestsPerMinute')}
+                      current={stats.requestsLastMinute}
+                      max={stats.rateLimits.requestsPerMinute}
+                      percent={stats.usagePercent.rpm}
+                    />
+                    <RateLimitBar
+                      label={t('stats.tokensPerMinute')}
+                      current={stats.tokensLastMinute}
+                      max={stats.rateLimits.tokensPerMinute}
+                      percent={stats.usagePercent.tpm}
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* All-time stats */}
               <div className="text-xs text-muted-foreground border-t pt-3">
                 <div className="flex justify-between">
-                  <span>Total requests (all time):</span>
-                  <span className="font-medium">{stats.totalRequestsAllTime.toLocaleString()}</span>
+                  <span>{t('stats.totalRequests')}</span>
+                  <span className="font-medium">{formatNumber(stats.totalRequestsAllTime)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Total tokens (all time):</span>
-                  <span className="font-medium">{stats.totalTokensAllTime.toLocaleString()}</span>
+                  <span>{t('stats.totalTokens')}</span>
+                  <span className="font-medium">{formatNumber(stats.totalTokensAllTime)}</span>
                 </div>
               </div>
 
               {/* Refresh button */}
               <Button onClick={loadStats} variant="outline" className="w-full">
-                Refresh Stats
+                {t('stats.refresh')}
               </Button>
             </div>
           ) : (
             <div className="text-center py-8 text-muted-foreground">
-              Failed to load stats
+              {t('stats.loadFailed')}
             </div>
           )}
         </DialogContent>
@@ -280,7 +346,7 @@ function RateLimitBar({ label, current, max, percent }: {
     <div>
       <div className="flex justify-between text-xs mb-1">
         <span>{label}</span>
-        <span>{current.toLocaleString()} / {max.toLocaleString()}</span>
+        <span>{formatNumber(current)} / {formatNumber(max)}</span>
       </div>
       <div className="h-2 bg-muted rounded-full overflow-hidden">
         <div
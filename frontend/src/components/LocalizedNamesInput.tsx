@@ -0,0 +1,30 @@
+import { Input } from './ui/input';
+import type { LocalizedNames } from '@/lib/api';
+import { LANGUAGES, LANGUAGE_LABELS } from '@/lib/languages';
+
+interface LocalizedNamesInputProps {
+  value: LocalizedNames;
+  onChange: (value: LocalizedNames) => void;
+  // Shown in empty languages, which fall back to it
+  placeholder?: string;
+}
+
+// A name per language; an empty one shows the catalog name in that language
+export default function LocalizedNamesInput({ value, onChange, placeholder }: LocalizedNamesInputProps) {
+  return (
+    <div className="space-y-2">
+      {LANGUAGES.map((language) => (
+        <div key={language} className="flex items-center gap-2">
+          <span className="w-20 shrink-0 text-sm text-muted-foreground">{LANGUAGE_LABELS[language]}</span>
+          <Input
+            value={value[language] ?? ''}
+            onChange={(e) => onChange({ ...value, [language]: e.target.value })}
+            placeholder={placeholder}
+            dir="auto"
+            className="h-9"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,22 +1,40 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { X, Search, Check, Plus, SpellCheck } from 'lucide-react';
 import { api } from '@/lib/api';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { ScrollArea } from './ui/scroll-area';
 import { cn } from '@/lib/utils';
-import type { Product, MealWithProducts, Category } from '@/lib/api';
+import { UNITS, unitLabel } from '@/lib/units';
+import type { Product, MealWithProducts, MealItemInput, Category, Unit, RecipeDraft, RecipeIngredient } from '@/lib/api';
 import ProductDialog from './ProductDialog';
 
+const DEFAULT_SERVINGS = 4;
+
+// Amount typed for an ingredient; an empty quantity means "to taste"
+interface IngredientAmount {
+  quantity: string;
+  unit: Unit;
+}
+
+const NO_AMOUNT: IngredientAmount = { quantity: '', unit: 'piece' };
+
+function amountOf(ingredient: { quantity: number | null; unit: Unit }): IngredientAmount {
+  return { quantity: ingredient.quantity === null ? '' : String(ingredient.quantity), unit: ingredient.unit };
+}
+
 interface MealDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   meal: MealWithProducts | null;
+  // Imported recipe to start a new meal from (ignored when editing)
+  draft?: RecipeDraft | null;
   products: Product[];
   categories: Category[];
-  onSave: (name: string, productIds: number[]) => Promise<void>;
+  onSave: (name: string, items: MealItemInput[], servings: number) => Promise<void>;
   onProductCreated: (product: Product) => void;
 }
 
@@ -24,13 +42,20 @@ export default function MealDialog({
   open,
   onOpenChange,
   meal,
+  draft = null,
   products,
   categories,
   onSave,
   onProductCreated,
 }: MealDialogProps) {
+  const { t } = useTranslation();
   const [name, setName] = useState('');
-  const [selectedProductIds, setSelectedProductIds] = useState<Set<number>>(new Set());
+  const [servings, setServings] = useState(String(DEFAULT_SERVINGS));
+  // Selected ingredients in the order they were picked
+  const [selected, setSelected] = useState<Map<number, IngredientAmount>>(new Map());
+  // Imported lines without a product yet, and the one being searched for
+  const [toMatch, setToMatch] = useState<RecipeIngredient[]>([]);
+  const [matchingLine, setMatchingLine] = useState<RecipeIngredient | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [spellSuggestions, setSpellSuggestions] = useState<string[]>([]);
@@ -45,17 +70,32 @@ export default function MealDialog({
     if (open) {
       if (meal) {
         setName(meal.name);
-        setSelectedProductIds(new Set(meal.products.map(p => p.id)));
+        setServings(String(meal.servings));
+        setSelected(new Map(meal.products.map(p => [p.id, {
+          quantity: p.quantity === null ? '' : String(p.quantity),
+          unit: p.unit,
+        }])));
+        setToMatch([]);
+      } else if (draft) {
+        setName(draft.name ?? '');
+        setServings(String(draft.servings ?? DEFAULT_SERVINGS));
+        setSelected(new Map(draft.ingredients
+          .filter(ingredient => ingredient.product)
+          .map(ingredient => [ingredient.product!.id, amountOf(ingredient)])));
+        setToMatch(draft.ingredients.filter(ingredient => !ingredient.product));
       } else {
         setName('');
-        setSelectedProductIds(new Set());
+        setServings(String(DEFAULT_SERVINGS));
+        setSelected(new Map());
+        setToMatch([]);
       }
+      setMatchingLine(null);
       setSearchQuery('');
       setShowProductDialog(false);
       setNewProductInitialName('');
       setSpellSuggestions([]);
     }
-  }, [open, meal]);
+  }, [open, meal, draft]);
 
   // Debounced spell check
   const checkSpelling = useCallback(async (text: string) => {
@@ -118,32 +158,68 @@ export default function MealDialog({
   const groupedProducts = useMemo(() => {
     const groups: Record<string, Product[]> = {};
     for (const product of filteredProducts) {
-      const category = product.category_name || 'Other';
+      const category = product.category_name || t('common.otherCategory');
       if (!groups[category]) {
         groups[category] = [];
       }
       groups[category].push(product);
     }
     return groups;
-  }, [filteredProducts]);
+  }, [filteredProducts, t]);
+
+  // Use a product for an imported line, keeping the line's amount
+  const matchLine = (ingredient: RecipeIngredient, productId: number) => {
+    setSelected(prev => new Map(prev).set(productId, amountOf(ingredient)));
+    setToMatch(prev => prev.filter(line => line !== ingredient));
+    setMatchingLine(null);
+    setSearchQuery('');
+  };
+
+  const searchForLine = (ingredient: RecipeIngredient) => {
+    setMatchingLine(ingredient);
+    setSearchQuery(ingredient.term ?? ingredient.line);
+  };
 
   const toggleProduct = (productId: number) => {
-    setSelectedProductIds(prev => {
-      const next = new Set(prev);
+    if (matchingLine && !selected.has(productId)) {
+      matchLine(matchingLine, productId);
+      return;
+    }
+    setSelected(prev => {
+      const next = new Map(prev);
       if (next.has(productId)) {
         next.delete(productId);
       } else {
-        next.add(productId);
+        next.set(productId, NO_AMOUNT);
       }
       return next;
     });
   };
 
+  const setAmount = (productId: number, changes: Partial<IngredientAmount>) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      next.set(productId, { ...(prev.get(productId) ?? NO_AMOUNT), ...changes });
+      return next;
+    });
+  };
+
+  const servingsCount = parseInt(servings);
+  const isServingsValid = servingsCount >= 1 && servingsCount <= 100;
+
   const handleSave = async () => {
-    if (!name.trim()) return;
+    if (!name.trim() || !isServingsValid) return;
+    const items = Array.from(selected, ([productId, amount]) => {
+      const quantity = parseFloat(amount.quantity.replace(',', '.'));
+      return {
+        product_id: productId,
+        quantity: quantity > 0 ? quantity : null,
+        unit: amount.unit,
+      };
+    });
     setIsSaving(true);
     try {
-      await onSave(name.trim(), Array.from(selectedProductIds));
+      await onSave(name.trim(), items, servingsCount);
     } finally {
       setIsSaving(false);
     }
@@ -156,33 +232,55 @@ export default function MealDialog({
 
   const handleProductCreated = (product: Product) => {
     // Add the new product to selected products
-    setSelectedProductIds(prev => new Set([...prev, product.id]));
+    if (matchingLine) {
+      matchLine(matchingLine, product.id);
+    } else {
+      setSelected(prev => new Map(prev).set(product.id, NO_AMOUNT));
+    }
     // Notify parent to refresh products list
     onProductCreated(product);
     // Clear search
     setSearchQuery('');
   };
 
-  const selectedProducts = products.filter(p => selectedProductIds.has(p.id));
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const selectedProducts = Array.from(selected.keys())
+    .map(id => productsById.get(id))
+    .filter((p): p is Product => p !== undefined);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>{meal ? 'Edit Meal' : 'Add Meal'}</DialogTitle>
+          <DialogTitle>{meal ? t('mealDialog.editTitle') : draft ? t('mealDialog.reviewTitle') : t('meals.addMeal')}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 flex-1 min-h-0 flex flex-col">
           {/* Meal Name */}
           <div className="space-y-2">
-            <Label htmlFor="meal-name">Name</Label>
-            <Input
-              id="meal-name"
-              placeholder="e.g., Pasta Carbonara"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              autoFocus
-            />
+            <div className="flex gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="meal-name">{t('common.name')}</Label>
+                <Input
+                  id="meal-name"
+                  placeholder={t('mealDialog.namePlaceholder')}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div className="w-24 space-y-2">
+                <Label htmlFor="meal-servings">{t('mealDialog.servings')}</Label>
+                <Input
+                  id="meal-servings"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={servings}
+                  onChange={(e) => setServings(e.target.value)}
+                />
+              </div>
+            </div>
             {/* Spell suggestions */}
             {spellSuggestions.length > 0 && (
               <div className="flex flex-wrap gap-1.5 pt-1">
@@ -203,18 +301,88 @@ export default function MealDialog({
           {/* Selected Products */}
           {selectedProducts.length > 0 && (
             <div className="space-y-2">
-              <Label>Selected Products ({selectedProducts.length})</Label>
-              <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
-                {selectedProducts.map(product => (
-                  <button
-                    key={product.id}
-                    onClick={() => toggleProduct(product.id)}
-                    className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-primary/10 text-primary text-sm hover:bg-primary/20 transition-colors"
+              <Label>{t('mealDialog.ingredientsFor', { servings: isServingsValid ? servingsCount : '…', count: selectedProducts.length })}</Label>
+              <div className="space-y-1 max-h-36 overflow-y-auto">
+                {selectedProducts.map(product => {
+                  const amount = selected.get(product.id) ?? NO_AMOUNT;
+                  return (
+                    <div key={product.id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-primary/10 text-sm">
+                      <span>{product.category_icon}</span>
+                      <span className="flex-1 truncate text-primary">{product.name}</span>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder={t('mealDialog.toTaste')}
+                        value={amount.quantity}
+                        onChange={(e) => setAmount(product.id, { quantity: e.target.value })}
+                        aria-label={t('mealDialog.quantityOf', { name: product.name })}
+                        className="w-16 h-7 px-1 text-center text-sm border rounded bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                      <select
+                        value={amount.unit}
+                        onChange={(e) => setAmount(product.id, { unit: e.target.value as Unit })}
+                        aria-label={t('mealDialog.unitOf', { name: product.name })}
+                        className="h-7 text-xs border rounded bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        {UNITS.map((unit) => (
+                          <option key={unit} value={unit}>{unitLabel(unit)}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => toggleProduct(product.id)}
+                        aria-label={t('mealDialog.remove', { name: product.name })}
+                        className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-primary/20 transition-colors"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Imported lines still to match */}
+          {toMatch.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('mealDialog.toMatch', { count: toMatch.length })}</Label>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {toMatch.map((ingredient, index) => (
+                  <div
+                    key={`${ingredient.line}-${index}`}
+                    className={cn(
+                      "flex flex-wrap items-center gap-1.5 px-2 py-1 rounded-md text-sm bg-amber-50 dark:bg-amber-950",
+                      matchingLine === ingredient && "ring-2 ring-amber-400"
+                    )}
                   >
-                    <span>{product.category_icon}</span>
-                    <span>{product.name}</span>
-                    <X className="w-3 h-3" />
-                  </button>
+                    <span className="flex-1 min-w-0 truncate italic">{ingredient.line}</span>
+                    {ingredient.candidates.map(candidate => (
+                      <button
+                        key={candidate.id}
+                        onClick={() => matchLine(ingredient, candidate.id)}
+                        className="px-2 py-0.5 text-xs bg-background rounded border border-amber-200 dark:border-amber-800 hover:bg-amber-100 dark:hover:bg-amber-900 transition-colors"
+                      >
+                        {candidate.category_icon} {candidate.name}?
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => searchForLine(ingredient)}
+                      aria-label={t('mealDialog.searchFor', { line: ingredient.line })}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-amber-100 dark:hover:bg-amber-900 transition-colors"
+                    >
+                      <Search className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setToMatch(prev => prev.filter(line => line !== ingredient));
+                        if (matchingLine === ingredient) setMatchingLine(null);
+                      }}
+                      aria-label={t('mealDialog.skip', { line: ingredient.line })}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-amber-100 dark:hover:bg-amber-900 transition-colors"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
                 ))}
               </div>
             </div>
@@ -223,7 +391,7 @@ export default function MealDialog({
           {/* Product Search */}
           <div className="space-y-2 flex-1 min-h-0 flex flex-col">
             <div className="flex items-center justify-between">
-              <Label>Add Products</Label>
+              <Label>{matchingLine ? t('mealDialog.productFor', { line: matchingLine.line }) : t('mealDialog.addProducts')}</Label>
               <Button
                 type="button"
                 variant="ghost"
@@ -232,17 +400,17 @@ export default function MealDialog({
                 onClick={openNewProductDialog}
               >
                 <Plus className="w-3 h-3" />
-                New Product
+                {t('mealDialog.newProduct')}
               </Button>
             </div>
 
             <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
-                placeholder="Search products..."
+                placeholder={t('mealDialog.searchProducts')}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
 
@@ -256,13 +424,13 @@ export default function MealDialog({
                     </div>
                     <div className="space-y-0.5">
                       {categoryProducts.map(product => {
-                        const isSelected = selectedProductIds.has(product.id);
+                        const isSelected = selected.has(product.id);
                         return (
                           <button
                             key={product.id}
                             onClick={() => toggleProduct(product.id)}
                             className={cn(
-                              "w-full flex items-center justify-between px-3 py-2 rounded-md text-left transition-colors",
+                              "w-full flex items-center justify-between px-3 py-2 rounded-md text-start transition-colors",
                               isSelected
                                 ? "bg-primary/10 text-primary"
                                 : "hover:bg-muted"
@@ -278,7 +446,7 @@ export default function MealDialog({
                 ))}
                 {Object.keys(groupedProducts).length === 0 && (
                   <div className="text-center py-6 text-muted-foreground">
-                    <p>No products found</p>
+                    <p>{t('mealDialog.noProducts')}</p>
                     <Button
                       type="button"
                       variant="link"
@@ -286,7 +454,7 @@ export default function MealDialog({
                       className="mt-1"
                       onClick={openNewProductDialog}
                     >
-                      Create "{searchQuery.trim()}"
+                      {t('mealDialog.createNamed', { name: searchQuery.trim() })}
                     </Button>
                   </div>
                 )}
@@ -297,13 +465,13 @@ export default function MealDialog({
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button 
             onClick={handleSave} 
-            disabled={!name.trim() || isSaving}
+            disabled={!name.trim() || !isServingsValid || isSaving}
           >
-            {isSaving ? 'Saving...' : meal ? 'Save Changes' : 'Create Meal'}
+            {isSaving ? t('common.saving') : meal ? t('mealDialog.saveChanges') : t('mealDialog.createMeal')}
           </Button>
         </DialogFooter>
       </DialogContent>
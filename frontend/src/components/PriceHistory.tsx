@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { api, PricePoint } from '@/lib/api';
+import { formatPrice, priceUnit, unitLabel } from '@/lib/units';
+import { formatDate } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Label } from './ui/label';
+
+interface PriceHistoryProps {
+  productId: number;
+}
+
+interface StorePrices {
+  storeName: string;
+  // Newest first
+  prices: PricePoint[];
+}
+
+// Prices come back newest first; keep that order inside each store
+function groupByStore(prices: PricePoint[], noStore: string): StorePrices[] {
+  const groups = new Map<string, StorePrices>();
+  for (const price of prices) {
+    const storeName = price.store_name || noStore;
+    if (!groups.has(storeName)) {
+      groups.set(storeName, { storeName, prices: [] });
+    }
+    groups.get(storeName)!.prices.push(price);
+  }
+  return [...groups.values()];
+}
+
+function perUnit(price: PricePoint) {
+  const unit = priceUnit(price.unit);
+  return unit === 'piece' ? '' : ` / ${unitLabel(unit)}`;
+}
+
+// Prices paid for a product on past trips, grouped by store
+export default function PriceHistory({ productId }: PriceHistoryProps) {
+  const { t } = useTranslation();
+  const [prices, setPrices] = useState<PricePoint[] | null>(null);
+
+  useEffect(() => {
+    api.getProductPrices(productId)
+      .then(setPrices)
+      .catch(() => setPrices([]));
+  }, [productId]);
+
+  if (prices === null) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('priceHistory.title')}</Label>
+      {prices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('priceHistory.empty')}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {groupByStore(prices, t('priceHistory.noStore')).map(({ storeName, prices: storePrices }) => {
+            const [latest, previous] = storePrices;
+            const lowest = Math.min(...storePrices.map(p => p.unit_price));
+            return (
+              <div key={storeName} className="p-2 rounded-lg bg-muted/50 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{storeName}</span>
+                  <span className="flex items-center gap-1 tabular-nums">
+                    {previous && latest.unit_price > previous.unit_price && (
+                      <TrendingUp className="w-3.5 h-3.5 text-red-500" />
+                    )}
+                    {previous && latest.unit_price < previous.unit_price && (
+                      <TrendingDown className="w-3.5 h-3.5 text-emerald-600" />
+                    )}
+                    {formatPrice(latest.unit_price)}{perUnit(latest)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{formatDate(latest.completed_at)}</span>
+                  {storePrices.length > 1 && (
+                    <span>{t('priceHistory.lowest', { price: formatPrice(lowest), count: storePrices.length })}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
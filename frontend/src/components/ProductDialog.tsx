@@ -18,7 +18,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { api, Product, Category } from "@/lib/api";
+import { useTranslation } from "@/contexts/LanguageContext";
+import { api, Product, Category, LocalizedNames } from "@/lib/api";
+import PriceHistory from "./PriceHistory";
+import ShelfLifeInput from "./ShelfLifeInput";
+import LocalizedNamesInput from "./LocalizedNamesInput";
 
 interface ProductDialogProps {
   mode: 'create' | 'edit';
@@ -42,9 +46,12 @@ export default function ProductDialog({
   categories: propCategories,
 }: ProductDialogProps) {
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [name, setName] = useState("");
   const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [shelfLife, setShelfLife] = useState<number | null>(null);
   const [aliases, setAliases] = useState<string[]>([]);
+  const [names, setNames] = useState<LocalizedNames>({});
   const [newAlias, setNewAlias] = useState("");
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -67,7 +74,9 @@ export default function ProductDialog({
         // Create mode - initialize with props or empty
         setName(initialName);
         setCategoryId(initialCategoryId ?? null);
+        setShelfLife(null);
         setAliases([]);
+        setNames({});
         setIsLoading(false);
         
         // Load categories if not provided
@@ -127,8 +136,8 @@ export default function ProductDialog({
       setCategories(categoriesData);
     } catch (error) {
       toast({
-        title: "Failed to load categories",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.loadCategoriesFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
     }
@@ -145,14 +154,17 @@ export default function ProductDialog({
         fetchCategories ? api.getCategories() : Promise.resolve(propCategories!),
       ]);
       
-      setName(productData.name);
+      // The catalog name is edited; translations are below
+      setName(productData.catalog_name ?? productData.name);
       setCategoryId(productData.category_id);
+      setShelfLife(productData.shelf_life_days);
       setAliases(productData.aliases || []);
+      setNames(productData.names || {});
       setCategories(categoriesData);
     } catch (error) {
       toast({
-        title: "Failed to load product",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
       onOpenChange(false);
@@ -173,20 +185,22 @@ export default function ProductDialog({
         savedProduct = await api.updateProduct(productId, {
           name: name.trim(),
           category_id: categoryId,
+          shelf_life_days: shelfLife,
+          names,
         });
-        toast({ title: "Product updated" });
+        toast({ title: t('productDialog.updated') });
       } else {
         // Create new product (include aliases if any were added)
-        savedProduct = await api.createProduct(name.trim(), categoryId, aliases.length > 0 ? aliases : undefined);
-        toast({ title: "Product created" });
+        savedProduct = await api.createProduct(name.trim(), categoryId, aliases.length > 0 ? aliases : undefined, shelfLife, names);
+        toast({ title: t('productDialog.created') });
       }
       
       onOpenChange(false);
       onSaved?.(savedProduct);
     } catch (error) {
       toast({
-        title: isEditMode ? "Failed to update" : "Failed to create",
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: isEditMode ? t('productDialog.updateFailed') : t('productDialog.createFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive",
       });
     } finally {
@@ -201,7 +215,7 @@ export default function ProductDialog({
     
     // Check for duplicates
     if (aliases.some(a => a.toLowerCase() === trimmedAlias.toLowerCase())) {
-      toast({ title: "Alias already exists", variant: "destructive" });
+      toast({ title: t('productDialog.aliasExists'), variant: "destructive" });
       return;
     }
     
@@ -211,9 +225,9 @@ export default function ProductDialog({
         const result = await api.addProductAlias(productId, trimmedAlias);
         setAliases(result.aliases);
         setNewAlias("");
-        toast({ title: "Alias added" });
+        toast({ title: t('productDialog.aliasAdded') });
       } catch {
-        toast({ title: "Failed to add alias", variant: "destructive" });
+        toast({ title: t('productDialog.aliasAddFailed'), variant: "destructive" });
       }
     } else {
       // Create mode: just update local state
@@ -228,9 +242,9 @@ export default function ProductDialog({
       try {
         const result = await api.removeProductAlias(productId, alias);
         setAliases(result.aliases);
-        toast({ title: "Alias removed" });
+        toast({ title: t('productDialog.aliasRemoved') });
       } catch {
-        toast({ title: "Failed to remove alias", variant: "destructive" });
+        toast({ title: t('productDialog.aliasRemoveFailed'), variant: "destructive" });
       }
     } else {
       // Create mode: just update local state
@@ -243,22 +257,22 @@ export default function ProductDialog({
     setIsFixingSpelling(true);
     try {
       const result = await api.fixProductSpelling(productId);
-      setName(result.name);
+      setName(result.catalog_name ?? result.name);
       setAliases(result.aliases);
       setSpellSuggestions([]);
       
       if (result.corrected) {
         toast({ 
-          title: "Spelling corrected",
-          description: `"${result.originalName}" → "${result.name}"`,
+          title: t('productDialog.spellingCorrected'),
+          description: t('productDialog.spellingChange', { from: result.originalName ?? '', to: result.name }),
         });
       } else {
-        toast({ title: "No spelling changes needed" });
+        toast({ title: t('productDialog.noSpellingChanges') });
       }
     } catch (error) {
       toast({ 
-        title: "Failed to fix spelling", 
-        description: error instanceof Error ? error.message : "Something went wrong",
+        title: t('productDialog.fixSpellingFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: "destructive" 
       });
     } finally {
@@ -277,8 +291,8 @@ export default function ProductDialog({
         const result = await api.addProductAlias(productId, oldName.trim());
         setAliases(result.aliases);
         toast({ 
-          title: "Spelling corrected",
-          description: `"${oldName}" added as alias`,
+          title: t('productDialog.spellingCorrected'),
+          description: t('productDialog.addedAsAlias', { name: oldName }),
         });
       } catch {
         // Silently fail - alias addition is optional
@@ -292,7 +306,7 @@ export default function ProductDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>{isEditMode ? "Edit Product" : "Add Product"}</DialogTitle>
+          <DialogTitle>{isEditMode ? t('productDialog.editTitle') : t('productDialog.addTitle')}</DialogTitle>
         </DialogHeader>
         {isLoading ? (
           <div className="flex items-center justify-center py-8">
@@ -302,13 +316,13 @@ export default function ProductDialog({
           <div className="space-y-4">
             {/* Name field with spell suggestions */}
             <div className="space-y-2">
-              <Label htmlFor="product-name">Name</Label>
+              <Label htmlFor="product-name">{t('common.name')}</Label>
               <div className="flex gap-2">
                 <Input
                   id="product-name"
                   value={name}
                   onChange={(e) => setName(e.target.value)}
-                  placeholder="e.g., Milk"
+                  placeholder={t('productDialog.namePlaceholder')}
                   className="flex-1"
                   autoFocus={!isEditMode}
                 />
@@ -318,7 +332,7 @@ export default function ProductDialog({
                   size="icon"
                   onClick={handleFixSpelling}
                   disabled={isFixingSpelling}
-                  title="Fix spelling with AI"
+                  title={t('productDialog.fixSpelling')}
                   className="shrink-0"
                 >
                   {isFixingSpelling ? (
@@ -345,15 +359,21 @@ export default function ProductDialog({
               )}
             </div>
 
+            {/* Names shown to users reading another language */}
+            <div className="space-y-2">
+              <Label>{t('productDialog.translations')}</Label>
+              <LocalizedNamesInput value={names} onChange={setNames} placeholder={name || undefined} />
+            </div>
+
             {/* Category selector */}
             <div className="space-y-2">
-              <Label htmlFor="product-category">Category</Label>
+              <Label htmlFor="product-category">{t('common.category')}</Label>
               <Select
                 value={categoryId?.toString() ?? ""}
                 onValueChange={(value) => setCategoryId(parseInt(value))}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select a category..." />
+                  <SelectValue placeholder={t('productDialog.selectCategory')} />
                 </SelectTrigger>
                 <SelectContent>
                   {categories.map((cat) => (
@@ -365,9 +385,21 @@ export default function ProductDialog({
               </Select>
             </div>
 
+            {/* Shelf life (empty: the category's) */}
+            <div className="space-y-2">
+              <Label htmlFor="product-shelf-life">{t('productDialog.keepsFor')}</Label>
+              <ShelfLifeInput
+                id="product-shelf-life"
+                value={shelfLife}
+                onChange={setShelfLife}
+                fallback={categories.find(c => c.id === categoryId)?.shelf_life_days}
+                fallbackLabel={t('shelfLife.category')}
+              />
+            </div>
+
             {/* Aliases section - only in edit mode */}
               <div className="space-y-2">
-                <Label>Aliases (spelling variants)</Label>
+                <Label>{t('productDialog.aliases')}</Label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {aliases.map((alias) => (
                     <span
@@ -386,7 +418,7 @@ export default function ProductDialog({
                 </div>
                 <div className="flex gap-2">
                   <Input
-                    placeholder="Add alias..."
+                    placeholder={t('productDialog.addAlias')}
                     value={newAlias}
                     onChange={(e) => setNewAlias(e.target.value)}
                     onKeyDown={(e) => e.key === "Enter" && handleAddAlias()}
@@ -396,20 +428,22 @@ export default function ProductDialog({
                   </Button>
                 </div>
               </div>
+
+            {isEditMode && productId && <PriceHistory productId={productId} />}
           </div>
         )}
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button onClick={handleSave} disabled={isLoading || isSaving || !canSave}>
             {isSaving ? (
               <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                {isEditMode ? "Saving..." : "Creating..."}
+                <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                {isEditMode ? t('common.saving') : t('common.creating')}
               </>
             ) : (
-              isEditMode ? "Save Changes" : "Create Product"
+              isEditMode ? t('productDialog.saveChanges') : t('productDialog.createProduct')
             )}
           </Button>
         </DialogFooter>
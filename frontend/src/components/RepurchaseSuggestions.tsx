@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { api, RepurchaseSuggestion } from '@/lib/api';
+import { useGrocery } from '@/contexts/GroceryContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+
+// One-tap chips for products that are usually bought again by now
+export default function RepurchaseSuggestions() {
+  const [suggestions, setSuggestions] = useState<RepurchaseSuggestion[]>([]);
+  const { addItem } = useGrocery();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    api.getRepurchaseSuggestions()
+      .then(setSuggestions)
+      .catch(() => setSuggestions([]));
+  }, []);
+
+  const remove = (productId: number) => {
+    setSuggestions(prev => prev.filter(s => s.product_id !== productId));
+  };
+
+  const handleAdd = async (suggestion: RepurchaseSuggestion) => {
+    try {
+      await addItem(suggestion.product_id, suggestion.quantity, undefined, suggestion.unit);
+      remove(suggestion.product_id);
+      toast({ title: t('dashboard.added', { name: suggestion.product_name }) });
+    } catch (error) {
+      toast({
+        title: t('dashboard.addFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDismiss = async (suggestion: RepurchaseSuggestion) => {
+    remove(suggestion.product_id);
+    try {
+      await api.dismissRepurchaseSuggestion(suggestion.product_id);
+    } catch (error) {
+      console.error('Failed to dismiss suggestion:', error);
+    }
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-muted-foreground me-1">{t('repurchase.title')}</span>
+      {suggestions.map(suggestion => (
+        <div
+          key={suggestion.product_id}
+          className="flex items-center rounded-full border bg-background text-sm"
+          title={t('repurchase.why', { interval: suggestion.interval_days, since: suggestion.days_since })}
+        >
+          <button
+            onClick={() => handleAdd(suggestion)}
+            className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-s-full hover:bg-muted transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5 text-primary" />
+            {suggestion.category_icon} {suggestion.product_name}
+          </button>
+          <button
+            onClick={() => handleDismiss(suggestion)}
+            className="ps-1 pe-2 py-1 rounded-e-full text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            aria-label={t('repurchase.dismiss', { name: suggestion.product_name })}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Check, Plus } from 'lucide-react';
+import { api, RunningLowItem } from '@/lib/api';
+import { useGrocery } from '@/contexts/GroceryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatQuantity } from '@/lib/units';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+
+// Pantry items at or below their low level, with a shortcut to put them back on the list
+export default function RunningLow() {
+  const [items, setItems] = useState<RunningLowItem[]>([]);
+  const { addItem } = useGrocery();
+  const { canEdit } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    api.getRunningLow()
+      .then(setItems)
+      .catch(() => setItems([]));
+  }, []);
+
+  const handleAdd = async (item: RunningLowItem) => {
+    try {
+      await addItem(item.product_id);
+      setItems(prev => prev.map(i => i.product_id === item.product_id ? { ...i, on_list: true } : i));
+    } catch (error) {
+      toast({
+        title: t('dashboard.addFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="bg-amber-50 border-amber-200">
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <h3 className="font-heading font-semibold text-amber-900">
+              {t('runningLow.title', { count: items.length })}
+            </h3>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/pantry')}
+            className="text-amber-700 hover:text-amber-900 hover:bg-amber-100"
+          >
+            {t('nav.pantry')}
+          </Button>
+        </div>
+        <div className="space-y-1.5">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-amber-100/50">
+              <span className="flex-1 min-w-0 truncate text-amber-900">
+                {item.category_icon} {item.product_name}
+              </span>
+              <span className="text-xs tabular-nums text-amber-700">
+                {item.quantity <= 0 ? t('runningLow.out') : t('runningLow.left', { amount: formatQuantity(item.quantity, item.unit) })}
+              </span>
+              {item.on_list ? (
+                <span className="flex items-center gap-1 text-xs text-emerald-700">
+                  <Check className="w-3.5 h-3.5" />
+                  {t('runningLow.onList')}
+                </span>
+              ) : canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-amber-700 hover:bg-amber-200"
+                  onClick={() => handleAdd(item)}
+                  aria-label={t('runningLow.add', { name: item.product_name })}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
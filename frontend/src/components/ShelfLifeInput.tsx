@@ -0,0 +1,35 @@
+import { Input } from './ui/input';
+import { useTranslation } from '@/contexts/LanguageContext';
+
+interface ShelfLifeInputProps {
+  id?: string;
+  // Days, null when not set
+  value: number | null;
+  onChange: (value: number | null) => void;
+  // Shelf life used when this one is empty (e.g. the category's)
+  fallback?: number | null;
+  fallbackLabel?: string;
+}
+
+// Number of days a bought item keeps; best-before dates default to today plus this
+export default function ShelfLifeInput({ id, value, onChange, fallback, fallbackLabel }: ShelfLifeInputProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        max={3650}
+        value={value ?? ''}
+        onChange={(e) => {
+          const days = parseInt(e.target.value);
+          onChange(days > 0 ? days : null);
+        }}
+        placeholder={fallback ? `${fallback} (${fallbackLabel ?? t('shelfLife.default')})` : t('common.none')}
+        className="w-36"
+      />
+      <span className="text-sm text-muted-foreground">{t('shelfLife.days')}</span>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Edit2, Pause, Play, Plus, Repeat, ShoppingCart, Trash2 } from 'lucide-react';
+import { api, Product, Staple, StapleInput, StapleRule, Unit } from '@/lib/api';
+import { UNITS, unitLabel, formatQuantity } from '@/lib/units';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatDay, t, weekdayName, type MessageKey } from '@/lib/i18n';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+
+// Sunday first, as stored
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const RULE_LABELS: Record<StapleRule, MessageKey> = {
+  interval: 'staples.ruleInterval',
+  weekdays: 'staples.ruleWeekdays',
+  since_bought: 'staples.ruleSinceBought',
+};
+
+const MAX_SEARCH_RESULTS = 8;
+
+const EMPTY_FORM: StapleInput = { quantity: 1, unit: 'piece', rule: 'interval', interval_days: 7, weekdays: [] };
+
+function describeRule(staple: StapleInput) {
+  switch (staple.rule) {
+    case 'interval':
+      return staple.interval_days === 1 ? t('staples.everyDay') : t('staples.everyDays', { count: staple.interval_days ?? 0 });
+    case 'weekdays':
+      return t('staples.everyWeekdays', { days: staple.weekdays.map(day => weekdayName(day)).join(', ') });
+    case 'since_bought':
+      return t('staples.afterBought', { count: staple.interval_days ?? 0 });
+  }
+}
+
+interface StaplesManagerProps {
+  products: Product[];
+}
+
+// Products put back on the list on a schedule by the daily run
+export default function StaplesManager({ products }: StaplesManagerProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [staples, setStaples] = useState<Staple[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Create / edit dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Staple | null>(null);
+  const [product, setProduct] = useState<Product | null>(null);
+  const [search, setSearch] = useState('');
+  const [form, setForm] = useState<StapleInput>(EMPTY_FORM);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : t('common.somethingWrong'),
+      variant: 'destructive',
+    });
+  }, [toast, t]);
+
+  const loadStaples = useCallback(async () => {
+    try {
+      setStaples(await api.getStaples());
+    } catch (error) {
+      showError(t('staples.loadFailed'), error);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    loadStaples();
+  }, [loadStaples]);
+
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query || product) return [];
+    const taken = new Set(staples.map(s => s.product_id));
+    return products
+      .filter(p => !taken.has(p.id))
+      .filter(p => p.name.toLowerCase().includes(query) || p.aliases?.some(a => a.toLowerCase().includes(query)))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [products, staples, search, product]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setProduct(null);
+    setSearch('');
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (staple: Staple) => {
+    setEditing(staple);
+    setForm({
+      quantity: staple.quantity,
+      unit: staple.unit,
+      rule: staple.rule,
+      interval_days: staple.interval_days ?? 7,
+      weekdays: staple.weekdays,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter(d => d !== day)
+        : [...prev.weekdays, day].sort((a, b) => a - b),
+    }));
+  };
+
+  const isFormValid = form.quantity > 0 && (form.rule === 'weekdays'
+    ? form.weekdays.length > 0
+    : (form.interval_days ?? 0) >= 1);
+
+  const handleSave = async () => {
+    if (!isFormValid) return;
+    try {
+      if (editing) {
+        await api.updateStaple(editing.id, form);
+        toast({ title: t('staples.updated'), variant: 'success' });
+      } else {
+        if (!product) return;
+        await api.createStaple(product.id, form);
+        toast({ title: t('staples.created', { name: product.name }), variant: 'success' });
+      }
+      setIsDialogOpen(false);
+      loadStaples();
+    } catch (error) {
+      showError(t('staples.saveFailed'), error);
+    }
+  };
+
+  const handleToggleActive = async (staple: Staple) => {
+    try {
+      await api.updateStaple(staple.id, { active: !staple.active });
+      loadStaples();
+    } catch (error) {
+      showError(t('staples.updateFailed'), error);
+    }
+  };
+
+  const handleDelete = async (staple: Staple) => {
+    if (!confirm(t('staples.confirmDelete', { name: staple.product_name }))) return;
+    try {
+      await api.deleteStaple(staple.id);
+      setStaples(prev => prev.filter(s => s.id !== staple.id));
+    } catch (error) {
+      showError(t('staples.deleteFailed'), error);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const result = await api.runStaples();
+      toast({
+        title: result.addedCount > 0
+          ? t('staples.addedToList', { count: result.addedCount })
+          : t('staples.nothingToAdd'),
+        description: result.skippedCount > 0 ? t('staples.alreadyOnList', { count: result.skippedCount }) : undefined,
+        variant: 'success',
+      });
+      loadStaples();
+    } catch (error) {
+      showError(t('staples.addFailed'), error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const dueCount = staples.filter(s => s.due).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button onClick={openCreate} className="flex-1 gap-2">
+          <Plus className="w-4 h-4" />
+          {t('staples.add')}
+        </Button>
+        <Button variant="outline" onClick={handleRunNow} disabled={isRunning || dueCount === 0} className="gap-2">
+          <ShoppingCart className="w-4 h-4" />
+          {t('staples.addDueNow')}{dueCount > 0 && ` (${dueCount})`}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t('staples.hint')}
+      </p>
+
+      {staples.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Repeat className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>{t('staples.empty')}</p>
+          <p className="text-sm">{t('staples.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {staples.map(staple => (
+            <Card key={staple.id} className={cn("p-3", !staple.active && "opacity-60")}>
+              <div className="flex items-center gap-3">
+                <span className="text-xl">{staple.category_icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{staple.product_name}</span>
+                    <span className="text-sm text-muted-foreground tabular-nums">
+                      {formatQuantity(staple.quantity, staple.unit)}
+                    </span>
+                    {staple.due && (
+                      <span className="text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded">{t('staples.due')}</span>
+                    )}
+                    {!staple.active && (
+                      <span className="text-xs bg-muted px-1.5 py-0.5 rounded">{t('staples.paused')}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeRule(staple)}
+                    {staple.last_added_on && t('staples.lastAdded', { date: formatDay(staple.last_added_on) })}
+                    {staple.rule === 'since_bought' && staple.last_bought_on && t('staples.lastBought', { date: formatDay(staple.last_bought_on) })}
+                  </p>
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9"
+                    onClick={() => handleToggleActive(staple)}
+                    aria-label={staple.active ? t('staples.pause') : t('staples.resume')}
+                  >
+                    {staple.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9"
+                    onClick={() => openEdit(staple)}
+                    aria-label={t('staples.edit')}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-9 w-9 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(staple)}
+                    aria-label={t('staples.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? t('staples.editTitle', { name: editing.product_name }) : t('staples.add')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editing && (
+              <div className="space-y-2">
+                <Label htmlFor="staple-product">{t('staples.product')}</Label>
+                <div className="relative">
+                  <Input
+                    id="staple-product"
+                    placeholder={t('staples.searchProduct')}
+                    value={product ? product.name : search}
+                    onChange={(e) => {
+                      setProduct(null);
+                      setSearch(e.target.value);
+                    }}
+                  />
+                  {searchResults.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full rounded-lg border bg-background shadow-lg">
+                      {searchResults.map(result => (
+                        <button
+                          key={result.id}
+                          onClick={() => setProduct(result)}
+                          className="w-full px-3 py-2 text-start text-sm hover:bg-muted"
+                        >
+                          {result.category_icon} {result.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="staple-quantity">{t('staples.amount')}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="staple-quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: parseFloat(e.target.value) || 0 })}
+                  className="w-24"
+                />
+                <select
+                  value={form.unit}
+                  onChange={(e) => setForm({ ...form, unit: e.target.value as Unit })}
+                  aria-label={t('common.unit')}
+                  className="h-10 px-2 text-sm border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {UNITS.map((unit) => (
+                    <option key={unit} value={unit}>{unitLabel(unit)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="staple-rule">{t('staples.addIt')}</Label>
+              <select
+                id="staple-rule"
+                value={form.rule}
+                onChange={(e) => setForm({ ...form, rule: e.target.value as StapleRule })}
+                className="w-full h-10 px-2 text-sm border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {(Object.keys(RULE_LABELS) as StapleRule[]).map(rule => (
+                  <option key={rule} value={rule}>{t(RULE_LABELS[rule])}</option>
+                ))}
+              </select>
+              {form.rule === 'weekdays' ? (
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((day) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      size="sm"
+                      variant={form.weekdays.includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleWeekday(day)}
+                      className="flex-1 px-0"
+                    >
+                      {weekdayName(day)}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form.interval_days ?? ''}
+                    onChange={(e) => setForm({ ...form, interval_days: parseInt(e.target.value) || null })}
+                    aria-label={t('staples.days')}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">{t('shelfLife.days')}</span>
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={!isFormValid || (!editing && !product)}>
+              {editing ? t('productDialog.saveChanges') : t('staples.add')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import { api, ListOperation, OperationState, OperationType } from '@/lib/api';
+import { t, type MessageKey } from '@/lib/i18n';
+import { useGrocery } from '@/contexts/GroceryContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Button } from './ui/button';
+
+const OPERATION_VERBS: Record<OperationType, MessageKey> = {
+  add: 'undo.add',
+  parse: 'undo.add',
+  menu: 'undo.menu',
+  staples: 'undo.staples',
+  edit: 'undo.edit',
+  status: 'undo.status',
+  delete: 'undo.delete',
+  delete_batch: 'undo.delete',
+  clear_found: 'undo.clearFound',
+  reset_selection: 'undo.resetSelection',
+  complete: 'undo.complete',
+};
+
+// e.g. "deleting Milk" or "adding Milk and 3 more"
+function describe(operation: ListOperation) {
+  const [first] = operation.product_names;
+  const others = operation.item_count - 1;
+  const items = !first
+    ? t('undo.items', { count: operation.item_count })
+    : others > 0 ? t('undo.andMore', { first, count: others }) : first;
+  return t(OPERATION_VERBS[operation.type], { items });
+}
+
+// Undo / redo of the household's list changes, kept on the server so they
+// survive a reload and cover every device
+export default function UndoControls() {
+  const { items, fetchItems } = useGrocery();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [state, setState] = useState<OperationState>({ undo: null, redo: null });
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      setState(await api.getOperations());
+    } catch {
+      setState({ undo: null, redo: null });
+    }
+  }, []);
+
+  // Any list change (here or on another device) may move the undo history
+  useEffect(() => {
+    const timeout = setTimeout(loadState, 300);
+    return () => clearTimeout(timeout);
+  }, [items, loadState]);
+
+  const handleApply = async (direction: 'undo' | 'redo') => {
+    setIsApplying(true);
+    try {
+      const result = direction === 'undo' ? await api.undoOperation() : await api.redoOperation();
+      setState({ undo: result.undo, redo: result.redo });
+      await fetchItems();
+      toast({ title: t(direction === 'undo' ? 'undo.undid' : 'undo.redid', { action: describe(result.operation) }) });
+    } catch (error) {
+      toast({
+        title: t(direction === 'undo' ? 'undo.undoFailed' : 'undo.redoFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+      loadState();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => handleApply('undo')}
+        disabled={!state.undo || isApplying}
+        title={state.undo ? t('undo.undo', { action: describe(state.undo) }) : undefined}
+        aria-label={t('undo.undoLabel')}
+      >
+        <Undo2 className="w-5 h-5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => handleApply('redo')}
+        disabled={!state.redo || isApplying}
+        title={state.redo ? t('undo.redo', { action: describe(state.redo) }) : undefined}
+        aria-label={t('undo.redoLabel')}
+      >
+        <Redo2 className="w-5 h-5" />
+      </Button>
+    </div>
+  );
+}
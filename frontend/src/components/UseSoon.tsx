@@ -0,0 +1,83 @@
+import { useNavigate } from 'react-router-dom';
+import { Clock, UtensilsCrossed } from 'lucide-react';
+import { UseSoon as UseSoonData } from '@/lib/api';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { formatQuantity } from '@/lib/units';
+import { cn, formatDaysLeft } from '@/lib/utils';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+
+interface UseSoonProps {
+  useSoon: UseSoonData | null;
+  // Where the suggested meals lead (hidden when already on the menu)
+  showMenuLink?: boolean;
+}
+
+// Pantry stock nearing its best-before date and saved meals that would use it
+export default function UseSoon({ useSoon, showMenuLink = true }: UseSoonProps) {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  if (!useSoon || useSoon.items.length === 0) return null;
+
+  return (
+    <Card className="bg-orange-50 border-orange-200">
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-orange-600" />
+            <h3 className="font-heading font-semibold text-orange-900">
+              {t('useSoon.title', { count: useSoon.items.length })}
+            </h3>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/pantry')}
+            className="text-orange-700 hover:text-orange-900 hover:bg-orange-100"
+          >
+            {t('nav.pantry')}
+          </Button>
+        </div>
+        <div className="space-y-1.5">
+          {useSoon.items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-orange-100/50">
+              <span className="flex-1 min-w-0 truncate text-orange-900">
+                {item.category_icon} {item.product_name}
+              </span>
+              <span className="text-xs tabular-nums text-orange-700">
+                {formatQuantity(item.quantity, item.unit)}
+              </span>
+              <span className={cn(
+                "text-xs px-1.5 py-0.5 rounded",
+                item.days_left !== null && item.days_left < 0 ? "bg-red-100 text-red-700" : "bg-orange-200/60 text-orange-800"
+              )}>
+                {item.days_left !== null && formatDaysLeft(item.days_left)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {useSoon.meals.length > 0 && (
+          <div className="mt-4">
+            <div className="text-xs font-medium text-orange-800 mb-1.5">{t('useSoon.meals')}</div>
+            <div className="space-y-1">
+              {useSoon.meals.map(meal => (
+                <button
+                  key={meal.id}
+                  onClick={() => showMenuLink && navigate('/menu')}
+                  disabled={!showMenuLink}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-start text-sm text-orange-900 enabled:hover:bg-orange-100"
+                >
+                  <UtensilsCrossed className="w-4 h-4 shrink-0 text-orange-600" />
+                  <span className="font-medium truncate">{meal.name}</span>
+                  <span className="text-xs text-orange-700 truncate">{meal.uses.join(', ')}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
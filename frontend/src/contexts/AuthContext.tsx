@@ -1,28 +1,59 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { api, User } from '@/lib/api';
+import { api, User, Household, Language } from '@/lib/api';
 
 interface AuthContextType {
   user: User | null;
+  households: Household[];
+  currentHousehold: Household | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  // Owners and editors can change the list, catalog and meals; shoppers only shop
+  canEdit: boolean;
+  isOwner: boolean;
+  // Instance admins (ADMIN_EMAILS) change the catalog every household shares
+  isAdmin: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
+  join: (token: string, email: string, password: string, name?: string) => Promise<void>;
   logout: () => void;
+  switchHousehold: (householdId: number) => void;
+  refreshHouseholds: () => Promise<void>;
+  // Language product and category names are shown in (null: catalog names)
+  setLanguage: (language: Language | null) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Pick the remembered household if the user still belongs to it, else the first one
+function pickHousehold(households: Household[]): Household | null {
+  const storedId = parseInt(localStorage.getItem('householdId') || '');
+  return households.find(h => h.id === storedId) || households[0] || null;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [currentHousehold, setCurrentHousehold] = useState<Household | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const applyHouseholds = useCallback((list: Household[]) => {
+    const selected = pickHousehold(list);
+    setHouseholds(list);
+    setCurrentHousehold(selected);
+    api.setHousehold(selected?.id ?? null);
+    if (selected) {
+      localStorage.setItem('householdId', selected.id.toString());
+    }
+  }, []);
+
   // Check for existing token on mount
   useEffect(() => {
     const token = localStorage.getItem('token');
     if (token) {
       api.setToken(token);
       api.getMe()
-        .then(({ user }) => {
+        .then(({ user, households }) => {
+          applyHouseholds(households);
           setUser(user);
         })
         .catch(() => {
@@ -35,37 +66,83 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } else {
       setIsLoading(false);
     }
-  }, []);
+  }, [applyHouseholds]);
 
   const login = useCallback(async (email: string, password: string) => {
-    const { user, token } = await api.login(email, password);
+    const { token } = await api.login(email, password);
     localStorage.setItem('token', token);
     api.setToken(token);
+    const { user, households } = await api.getMe();
+    applyHouseholds(households);
     setUser(user);
-  }, []);
+  }, [applyHouseholds]);
 
   const register = useCallback(async (email: string, password: string, name: string) => {
-    const { user, token } = await api.register(email, password, name);
+    const { token } = await api.register(email, password, name);
     localStorage.setItem('token', token);
     api.setToken(token);
+    const { user, households } = await api.getMe();
+    applyHouseholds(households);
     setUser(user);
-  }, []);
+  }, [applyHouseholds]);
+
+  const join = useCallback(async (token: string, email: string, password: string, name?: string) => {
+    const { token: authToken, household } = await api.joinHousehold(token, email, password, name);
+    localStorage.setItem('token', authToken);
+    localStorage.setItem('householdId', household.id.toString());
+    api.setToken(authToken);
+    const { user, households } = await api.getMe();
+    applyHouseholds(households);
+    setUser(user);
+  }, [applyHouseholds]);
 
   const logout = useCallback(() => {
     localStorage.removeItem('token');
+    localStorage.removeItem('householdId');
+    api.clearOfflineData();
     api.setToken(null);
+    api.setHousehold(null);
     setUser(null);
+    setHouseholds([]);
+    setCurrentHousehold(null);
+  }, []);
+
+  const switchHousehold = useCallback((householdId: number) => {
+    const household = households.find(h => h.id === householdId);
+    if (!household) return;
+    localStorage.setItem('householdId', household.id.toString());
+    api.setHousehold(household.id);
+    setCurrentHousehold(household);
+  }, [households]);
+
+  const refreshHouseholds = useCallback(async () => {
+    const list = await api.getHouseholds();
+    applyHouseholds(list);
+  }, [applyHouseholds]);
+
+  const setLanguage = useCallback(async (language: Language | null) => {
+    const { user } = await api.updateLanguage(language);
+    setUser(user);
   }, []);
 
   return (
     <AuthContext.Provider
       value={{
         user,
+        households,
+        currentHousehold,
         isLoading,
         isAuthenticated: !!user,
+        canEdit: currentHousehold?.role === 'owner' || currentHousehold?.role === 'editor',
+        isOwner: currentHousehold?.role === 'owner',
+        isAdmin: !!user?.is_admin,
         login,
         register,
+        join,
         logout,
+        switchHousehold,
+        refreshHouseholds,
+        setLanguage,
       }}
     >
       {children}
@@ -80,4 +157,3 @@ export function useAuth() {
   }
   return context;
 }
-
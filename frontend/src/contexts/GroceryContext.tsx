@@ -1,5 +1,9 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
-import { api, GroceryItem, GroceryListResponse, ItemStatus, Category } from '@/lib/api';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { api, GroceryItem, GroceryListResponse, ItemStatus, Category, ListEvent, QueuedChange, ParseResult, Unit, StoreWithLayout } from '@/lib/api';
+import type { OutboxEntry } from '@/lib/outbox';
+import { useAuth } from '@/contexts/AuthContext';
+import { lineCost } from '@/lib/units';
+import { t } from '@/lib/i18n';
 
 interface GroceryContextType {
   items: GroceryItem[];
@@ -10,19 +14,139 @@ interface GroceryContextType {
   categories: Category[];
   isLoading: boolean;
   error: string | null;
+  // Changes made offline that are waiting to be sent
+  pendingChanges: number;
+  // Store whose walking order the list follows (null = category order)
+  store: StoreWithLayout | null;
+  selectStore: (storeId: number | null) => Promise<void>;
+  // Cost of the priced items found so far (null when none has a price)
+  basketTotal: number | null;
   fetchItems: () => Promise<void>;
   fetchCategories: () => Promise<void>;
-  parseAndAdd: (text: string) => Promise<{ total: number; fromCache: number; fromAI: number }>;
-  addItem: (productId: number, quantity?: number, note?: string) => Promise<void>;
-  updateItem: (id: number, updates: { product_id?: number; quantity?: number; note?: string; status?: ItemStatus }) => Promise<void>;
-  updateStatus: (id: number, status: ItemStatus) => Promise<void>;
+  parseAndAdd: (text: string, options?: { fuzzy?: boolean }) => Promise<Pick<ParseResult, 'stats' | 'suggestions'>>;
+  addItem: (productId: number, quantity?: number, note?: string, unit?: Unit) => Promise<void>;
+  updateItem: (id: number, updates: { product_id?: number; quantity?: number; unit?: Unit; note?: string; status?: ItemStatus }) => Promise<void>;
+  updateStatus: (id: number, status: ItemStatus, unitPrice?: number | null, bestBefore?: string | null) => Promise<void>;
   deleteItem: (id: number) => Promise<void>;
-  completeShopping: () => Promise<{ foundCount: number; notFoundCount: number }>;
+  completeShopping: () => Promise<{ foundCount: number; notFoundCount: number; totalSpent: number | null }>;
   clearFound: () => Promise<void>;
 }
 
 const GroceryContext = createContext<GroceryContextType | undefined>(undefined);
 
+// Categories without a place in a store's layout are walked last (see groceryService.placeInStore)
+const UNPLACED_POSITION = 1000;
+
+function placeInStore(item: GroceryItem, store: StoreWithLayout): GroceryItem {
+  const override = store.products.find(p => p.product_id === item.product_id);
+  const stop = store.categories.find(c => c.category_id === (override?.category_id || item.category_id));
+  return {
+    ...item,
+    store_position: stop ? stop.position : UNPLACED_POSITION + (item.category_sort ?? 99),
+    store_section: override?.aisle || stop?.aisle || override?.category_name || item.category_name,
+  };
+}
+
+// Status change, with the price paid and best-before date when given (undefined keeps the current value)
+function withStatus(item: GroceryItem, status: ItemStatus, unitPrice?: number | null, bestBefore?: string | null): GroceryItem {
+  return {
+    ...item,
+    status,
+    ...(unitPrice !== undefined && { unit_price: unitPrice }),
+    ...(bestBefore !== undefined && { best_before: bestBefore }),
+  };
+}
+
+// Same total as groceryService.completeShoppingSession stores for the trip
+function basketTotalOf(foundItems: GroceryItem[]): number | null {
+  const costs = foundItems
+    .map(item => lineCost(item.quantity, item.unit, item.unit_price))
+    .filter((cost): cost is number => cost !== null);
+  return costs.length > 0 ? Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 100) / 100 : null;
+}
+
+// Rebuild the derived lists the same way the backend does (see groceryService.getAllItemsSorted)
+function buildListState(allItems: GroceryItem[], prev: GroceryListResponse, store: StoreWithLayout | null): GroceryListResponse {
+  const placed = store ? allItems.map(item => placeInStore(item, store)) : allItems;
+  const position = (item: GroceryItem) => store ? item.store_position! : (item.category_sort ?? 99);
+  const sorted = [...placed].sort((a, b) =>
+    position(a) - position(b) ||
+    a.product_name.localeCompare(b.product_name)
+  );
+  const activeItems = sorted.filter(item => item.status !== 'found');
+  const foundItems = sorted.filter(item => item.status === 'found');
+
+  const grouped: Record<string, GroceryItem[]> = {};
+  const categoryInfo = { ...prev.categoryInfo };
+  for (const item of activeItems) {
+    const category = item.category_name || 'Autre';
+    if (!grouped[category]) grouped[category] = [];
+    grouped[category].push(item);
+    if (!categoryInfo[category]) {
+      categoryInfo[category] = { icon: item.category_icon || '📦' };
+    }
+  }
+
+  return { allItems: sorted, activeItems, foundItems, grouped, categoryInfo, store: store && { id: store.id, name: store.name } };
+}
+
+const isQueued = (result: object): result is QueuedChange => 'queued' in result;
+
+// Re-apply changes still waiting in the outbox on top of a (possibly cached) list
+function applyQueuedChanges(data: GroceryListResponse, entries: OutboxEntry[], store: StoreWithLayout | null): GroceryListResponse {
+  if (entries.length === 0) return data;
+
+  let allItems = data.allItems;
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'updateItemStatus':
+        allItems = allItems.map(item => item.id === entry.itemId ? withStatus(item, entry.status as ItemStatus, entry.unitPrice, entry.bestBefore) : item);
+        break;
+      case 'updateItem':
+        allItems = allItems.map(item => item.id === entry.itemId ? { ...item, ...entry.updates } : item);
+        break;
+      case 'deleteItem':
+        allItems = allItems.filter(item => item.id !== entry.itemId);
+        break;
+      case 'completeShopping':
+        allItems = allItems.filter(item => item.status !== 'found' && item.status !== 'not_found');
+        break;
+    }
+  }
+  return buildListState(allItems, data, store);
+}
+
+// Fetch the list (the service worker serves the last copy when offline, which may
+// have been sorted for another store, so it is re-sorted here)
+async function loadList(store: StoreWithLayout | null): Promise<GroceryListResponse> {
+  const [result, queued] = await Promise.all([api.getGroceries(store?.id), api.getQueuedChanges()]);
+  if (queued.length === 0 && result.store?.id === store?.id) return result;
+  return buildListState(applyQueuedChanges(result, queued, store).allItems, result, store);
+}
+
+const storeKey = (householdId: number) => `shopping-store:${householdId}`;
+
+// Apply a change published by another device (or echoed back for our own action)
+function applyListEvent(prev: GroceryListResponse, event: ListEvent, store: StoreWithLayout | null): GroceryListResponse {
+  switch (event.type) {
+    case 'item.created':
+    case 'item.updated': {
+      const exists = prev.allItems.some(item => item.id === event.item.id);
+      const allItems = exists
+        ? prev.allItems.map(item => item.id === event.item.id ? event.item : item)
+        : [...prev.allItems, event.item];
+      return buildListState(allItems, prev, store);
+    }
+    case 'item.deleted':
+    case 'session.completed': {
+      const removed = new Set(event.ids);
+      return buildListState(prev.allItems.filter(item => !removed.has(item.id)), prev, store);
+    }
+    default:
+      return prev;
+  }
+}
+
 export function GroceryProvider({ children }: { children: React.ReactNode }) {
   const [data, setData] = useState<GroceryListResponse>({
     allItems: [],
@@ -34,20 +158,88 @@ export function GroceryProvider({ children }: { children: React.ReactNode }) {
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const previousPending = useRef(0);
+  const [store, setStore] = useState<StoreWithLayout | null>(null);
+  // Read inside state updaters and event handlers without re-subscribing
+  const storeRef = useRef<StoreWithLayout | null>(null);
+  const { isAuthenticated, currentHousehold } = useAuth();
+
+  const applyStore = useCallback((layout: StoreWithLayout | null) => {
+    storeRef.current = layout;
+    setStore(layout);
+  }, []);
+
+  // Restore the store last picked in this household
+  useEffect(() => {
+    applyStore(null);
+    if (!isAuthenticated || !currentHousehold) return;
+
+    const savedId = localStorage.getItem(storeKey(currentHousehold.id));
+    if (!savedId) return;
+    api.getStore(parseInt(savedId))
+      .then(layout => {
+        applyStore(layout);
+        return loadList(layout).then(setData);
+      })
+      .catch(() => localStorage.removeItem(storeKey(currentHousehold.id)));
+  }, [isAuthenticated, currentHousehold, applyStore]);
+
+  // Follow list changes made on other devices of the household
+  useEffect(() => {
+    if (!isAuthenticated || !currentHousehold) return;
+
+    let hasConnected = false;
+    return api.subscribeToListEvents(
+      (event) => setData(prev => applyListEvent(prev, event, storeRef.current)),
+      async () => {
+        // Back online: send what was queued, then resync quietly in case events were missed
+        await api.flushOutbox();
+        if (hasConnected) {
+          loadList(storeRef.current).then(setData).catch(() => {});
+        }
+        hasConnected = true;
+      }
+    );
+  }, [isAuthenticated, currentHousehold]);
+
+  // Track the offline outbox; once it drains, reload the list as the server now sees it
+  useEffect(() => {
+    return api.onOutboxChange((pending) => {
+      if (previousPending.current > 0 && pending === 0) {
+        loadList(storeRef.current).then(setData).catch(() => {});
+      }
+      previousPending.current = pending;
+      setPendingChanges(pending);
+    });
+  }, []);
 
   const fetchItems = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const result = await api.getGroceries();
+      const result = await loadList(storeRef.current);
       setData(result);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch items');
+      setError(err instanceof Error ? err.message : t('grocery.fetchFailed'));
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  const selectStore = useCallback(async (storeId: number | null) => {
+    const layout = storeId ? await api.getStore(storeId) : null;
+    if (currentHousehold) {
+      if (storeId) {
+        localStorage.setItem(storeKey(currentHousehold.id), storeId.toString());
+      } else {
+        localStorage.removeItem(storeKey(currentHousehold.id));
+      }
+    }
+    applyStore(layout);
+    setData(prev => buildListState(prev.allItems, prev, layout));
+  }, [currentHousehold, applyStore]);
+
   const fetchCategories = useCallback(async () => {
     try {
       const result = await api.getCategories();
@@ -57,70 +249,70 @@ export function GroceryProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const parseAndAdd = useCallback(async (text: string) => {
-    const result = await api.parseAndAddItems(text);
+  const parseAndAdd = useCallback(async (text: string, options?: { fuzzy?: boolean }) => {
+    const result = await api.parseAndAddItems(text, options);
     await fetchItems();
-    return result.stats;
+    return { stats: result.stats, suggestions: result.suggestions };
   }, [fetchItems]);
 
-  const addItem = useCallback(async (productId: number, quantity?: number, note?: string) => {
-    await api.addItem(productId, quantity, note);
+  const addItem = useCallback(async (productId: number, quantity?: number, note?: string, unit?: Unit) => {
+    await api.addItem(productId, quantity, note, unit);
     await fetchItems();
   }, [fetchItems]);
 
-  const updateItem = useCallback(async (id: number, updates: { product_id?: number; quantity?: number; note?: string; status?: ItemStatus }) => {
-    await api.updateItem(id, updates);
+  const updateItem = useCallback(async (id: number, updates: { product_id?: number; quantity?: number; unit?: Unit; note?: string; status?: ItemStatus }) => {
+    const result = await api.updateItem(id, updates);
+    if (isQueued(result)) {
+      setData(prev => buildListState(
+        prev.allItems.map(item => item.id === id ? { ...item, ...updates } : item),
+        prev,
+        storeRef.current
+      ));
+      return;
+    }
     await fetchItems();
   }, [fetchItems]);
 
-  const updateStatus = useCallback(async (id: number, status: ItemStatus) => {
-    await api.updateItemStatus(id, status);
+  const updateStatus = useCallback(async (id: number, status: ItemStatus, unitPrice?: number | null, bestBefore?: string | null) => {
+    await api.updateItemStatus(id, status, unitPrice, bestBefore);
     // Optimistic update - properly move items between lists
-    setData(prev => {
-      const updatedAllItems = prev.allItems.map(item => 
-        item.id === id ? { ...item, status } : item
-      );
-      
-      // Rebuild activeItems and foundItems based on new status
-      const newActiveItems = updatedAllItems.filter(item => 
-        item.status === 'pending' || item.status === 'selected' || item.status === 'not_found'
-      );
-      const newFoundItems = updatedAllItems.filter(item => item.status === 'found');
-      
-      // Rebuild grouped (for active items only, excluding found)
-      const pendingAndSelected = updatedAllItems.filter(item => 
-        item.status === 'pending' || item.status === 'selected'
-      );
-      const newGrouped = pendingAndSelected.reduce((acc, item) => {
-        const cat = item.category_name;
-        if (!acc[cat]) acc[cat] = [];
-        acc[cat].push(item);
-        return acc;
-      }, {} as Record<string, GroceryItem[]>);
-      
-      return {
-        ...prev,
-        allItems: updatedAllItems,
-        activeItems: newActiveItems,
-        foundItems: newFoundItems,
-        grouped: newGrouped,
-      };
-    });
+    setData(prev => buildListState(
+      prev.allItems.map(item => item.id === id ? withStatus(item, status, unitPrice, bestBefore) : item),
+      prev,
+      storeRef.current
+    ));
   }, []);
 
   const deleteItem = useCallback(async (id: number) => {
-    await api.deleteItem(id);
+    const result = await api.deleteItem(id);
+    if (isQueued(result)) {
+      setData(prev => buildListState(prev.allItems.filter(item => item.id !== id), prev, storeRef.current));
+      return;
+    }
     await fetchItems();
   }, [fetchItems]);
 
   const completeShopping = useCallback(async () => {
-    const result = await api.completeShopping();
+    const result = await api.completeShopping(storeRef.current?.id);
+    if (isQueued(result)) {
+      // Archive locally; the server does the same when the queue is replayed
+      const foundCount = data.allItems.filter(item => item.status === 'found').length;
+      const notFoundCount = data.allItems.filter(item => item.status === 'not_found').length;
+      const totalSpent = basketTotalOf(data.foundItems);
+      setData(prev => buildListState(
+        prev.allItems.filter(item => item.status !== 'found' && item.status !== 'not_found'),
+        prev,
+        storeRef.current
+      ));
+      return { foundCount, notFoundCount, totalSpent };
+    }
     await fetchItems();
     return {
       foundCount: result.foundCount,
       notFoundCount: result.notFoundCount,
+      totalSpent: result.totalSpent,
     };
-  }, [fetchItems]);
+  }, [data.allItems, data.foundItems, fetchItems]);
 
   const clearFound = useCallback(async () => {
     await api.clearFoundItems();
@@ -138,6 +330,10 @@ export function GroceryProvider({ children }: { children: React.ReactNode }) {
         categories,
         isLoading,
         error,
+        pendingChanges,
+        store,
+        selectStore,
+        basketTotal: basketTotalOf(data.foundItems),
         fetchItems,
         fetchCategories,
         parseAndAdd,
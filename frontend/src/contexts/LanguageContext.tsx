@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import type { Language } from '@/lib/api';
+import { applyLanguage, getLanguage, isRtl, translate, LOCALES, type MessageKey, type TranslationParams } from '@/lib/i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  dir: 'ltr' | 'rtl';
+  // BCP 47 locale for dates and numbers
+  locale: string;
+  t: (key: MessageKey, params?: TranslationParams) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+
+  const setLanguage = useCallback((next: Language) => {
+    applyLanguage(next);
+    setLanguageState(next);
+  }, []);
+
+  // A new t per language so memoized components re-render with it
+  const t = useCallback(
+    (key: MessageKey, params?: TranslationParams) => translate(language, key, params),
+    [language]
+  );
+
+  const value = useMemo(() => ({
+    language,
+    setLanguage,
+    dir: isRtl(language) ? 'rtl' as const : 'ltr' as const,
+    locale: LOCALES[language],
+    t,
+  }), [language, setLanguage, t]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+}
+
+export function useTranslation() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+}
@@ -1,12 +1,196 @@
+import { outbox, OutboxEntry } from './outbox';
+
 const API_BASE = '/api';
+const EVENTS_RECONNECT_DELAY = 3000;
+// Must match API_CACHE in public/sw.js
+const API_CACHE = 'grocery-api-v1';
 
 class ApiClient {
   private token: string | null = null;
+  private householdId: number | null = null;
+  private pendingChanges = 0;
+  private isFlushing = false;
+  private outboxListeners = new Set<(pending: number) => void>();
+  // updated_at of each list item as this device last saw it, sent with queued changes
+  private itemVersions = new Map<number, string>();
+
+  constructor() {
+    // Replay changes queued while offline as soon as the connection is back
+    window.addEventListener('online', () => {
+      this.flushOutbox();
+    });
+    this.refreshPendingCount();
+  }
 
   setToken(token: string | null) {
     this.token = token;
   }
 
+  setHousehold(householdId: number | null) {
+    this.householdId = householdId;
+  }
+
+  private authHeaders(householdId = this.householdId): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    if (householdId) {
+      headers['X-Household-Id'] = householdId.toString();
+    }
+
+    return headers;
+  }
+
+  private noteItemVersions(items: GroceryItem[]) {
+    for (const item of items) {
+      this.itemVersions.set(item.id, item.updated_at);
+    }
+  }
+
+  // Offline outbox
+  // Map a queued change to its request. Replays carry the item's updated_at the change was
+  // based on, so the server can keep a newer change from another device (conflicts by updated_at).
+  private outboxRequest(entry: OutboxEntry): { endpoint: string; options: RequestInit } {
+    switch (entry.kind) {
+      case 'updateItemStatus':
+        return {
+          endpoint: `/groceries/${entry.itemId}/status`,
+          options: {
+            method: 'PATCH',
+            body: JSON.stringify({ status: entry.status, unit_price: entry.unitPrice, best_before: entry.bestBefore, base_updated_at: entry.baseUpdatedAt }),
+          },
+        };
+      case 'updateItem':
+        return {
+          endpoint: `/groceries/${entry.itemId}`,
+          options: { method: 'PUT', body: JSON.stringify({ ...entry.updates, base_updated_at: entry.baseUpdatedAt }) },
+        };
+      case 'deleteItem':
+        return {
+          endpoint: `/groceries/${entry.itemId}${entry.baseUpdatedAt ? `?base_updated_at=${encodeURIComponent(entry.baseUpdatedAt)}` : ''}`,
+          options: { method: 'DELETE' },
+        };
+      case 'completeShopping':
+        return {
+          endpoint: '/groceries/complete-shopping',
+          options: { method: 'POST', body: JSON.stringify({ store_id: entry.storeId ?? null }) },
+        };
+    }
+  }
+
+  // Send a list change, or queue it when the network is unreachable
+  private async sendOrQueue<T>(change: OutboxEntry, endpoint: string, options: RequestInit): Promise<T | QueuedChange> {
+    // Once something is queued, later changes wait behind it to keep the order
+    if (this.pendingChanges === 0) {
+      try {
+        return await this.request<T>(endpoint, options);
+      } catch (err) {
+        // fetch only throws TypeError for network failures; HTTP errors are real errors
+        if (!(err instanceof TypeError)) throw err;
+      }
+    }
+
+    await outbox.add(change);
+    await this.refreshPendingCount();
+    if (navigator.onLine) {
+      this.flushOutbox();
+    }
+    return { queued: true };
+  }
+
+  private async refreshPendingCount() {
+    try {
+      this.pendingChanges = (await outbox.getAll()).length;
+    } catch {
+      this.pendingChanges = 0;
+    }
+    this.outboxListeners.forEach(listener => listener(this.pendingChanges));
+  }
+
+  onOutboxChange(listener: (pending: number) => void) {
+    this.outboxListeners.add(listener);
+    listener(this.pendingChanges);
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  async getQueuedChanges(): Promise<OutboxEntry[]> {
+    try {
+      return await outbox.getAll();
+    } catch {
+      return [];
+    }
+  }
+
+  // Replay queued changes in order. Returns how many were sent.
+  async flushOutbox() {
+    if (this.isFlushing || !this.token) return 0;
+    this.isFlushing = true;
+    let replayed = 0;
+
+    try {
+      const entries = await outbox.getAll();
+      for (const [index, entry] of entries.entries()) {
+        const { endpoint, options } = this.outboxRequest(entry);
+        let response: Response;
+        try {
+          response = await fetch(`${API_BASE}${endpoint}`, {
+            ...options,
+            headers: { 'Content-Type': 'application/json', ...this.authHeaders(entry.householdId) },
+          });
+        } catch {
+          break; // Still offline, try again later
+        }
+
+        // Retry later on server errors or an expired session; anything else is final
+        // (409 means another device changed the item more recently, so its change wins)
+        if (response.status >= 500 || response.status === 401) break;
+        await outbox.remove(entry.id!);
+        replayed++;
+        if (response.ok && entry.kind !== 'completeShopping') {
+          await this.rebaseQueued(entries.slice(index + 1), entry.itemId, response);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to replay offline changes:', err);
+    } finally {
+      this.isFlushing = false;
+      await this.refreshPendingCount();
+    }
+
+    return replayed;
+  }
+
+  // A replayed change moves the item's updated_at on; later changes this device queued
+  // for the same item build on it, so they must not be taken for another device's
+  private async rebaseQueued(rest: OutboxEntry[], itemId: number, response: Response) {
+    const item: Partial<GroceryItem> | null = await response.json().catch(() => null);
+    if (!item?.updated_at) return;
+    this.itemVersions.set(itemId, item.updated_at);
+    for (const later of rest) {
+      if (later.kind === 'completeShopping' || later.itemId !== itemId) continue;
+      later.baseUpdatedAt = item.updated_at;
+      await outbox.update(later);
+    }
+  }
+
+  // Forget queued changes and cached responses (on logout)
+  async clearOfflineData() {
+    try {
+      await outbox.clear();
+      if ('caches' in window) {
+        await caches.delete(API_CACHE);
+      }
+    } catch (err) {
+      console.error('Failed to clear offline data:', err);
+    }
+    await this.refreshPendingCount();
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -14,12 +198,9 @@ class ApiClient {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       ...(options.headers as Record<string, string>),
+      ...this.authHeaders(),
     };
 
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
     const response = await fetch(`${API_BASE}${endpoint}`, {
       ...options,
       headers,
@@ -49,7 +230,68 @@ class ApiClient {
   }
 
   async getMe() {
-    return this.request<{ user: User }>('/auth/me');
+    return this.request<{ user: User; households: Household[] }>('/auth/me');
+  }
+
+  async updateLanguage(language: Language | null) {
+    return this.request<{ user: User }>('/auth/me/language', {
+      method: 'PUT',
+      body: JSON.stringify({ language }),
+    });
+  }
+
+  // Households
+  async getHouseholds() {
+    return this.request<Household[]>('/households');
+  }
+
+  async createHousehold(name: string) {
+    return this.request<Household>('/households', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async getHouseholdMembers(householdId: number) {
+    return this.request<HouseholdMember[]>(`/households/${householdId}/members`);
+  }
+
+  async updateMemberRole(householdId: number, userId: number, role: HouseholdRole) {
+    return this.request<HouseholdMember[]>(`/households/${householdId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeMember(householdId: number, userId: number) {
+    return this.request<{ message: string }>(`/households/${householdId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async leaveHousehold(householdId: number) {
+    return this.request<{ message: string }>(`/households/${householdId}/members/me`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Invites
+  async createInvite(householdId: number, role: HouseholdRole) {
+    return this.request<{ message: string; joinUrl: string; role: HouseholdRole; expiresAt: string }>(`/households/${householdId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async getInvite(token: string) {
+    return this.request<InviteInfo>(`/auth/invite/${token}`);
+  }
+
+  async joinHousehold(token: string, email: string, password: string, name?: string) {
+    return this.request<{ user: User; household: Household; token: string }>('/auth/join', {
+      method: 'POST',
+      body: JSON.stringify({ token, email, password, name }),
+    });
   }
 
   // Password Reset
@@ -72,10 +314,10 @@ class ApiClient {
     return this.request<Category[]>('/products/categories');
   }
 
-  async createCategory(name: string, icon?: string, sortOrder?: number) {
+  async createCategory(name: string, icon?: string, sortOrder?: number, names?: LocalizedNames) {
     return this.request<Category>('/products/categories', {
       method: 'POST',
-      body: JSON.stringify({ name, icon, sort_order: sortOrder }),
+      body: JSON.stringify({ name, icon, sort_order: sortOrder, names }),
     });
   }
 
@@ -102,17 +344,21 @@ class ApiClient {
   }
 
   async getProduct(id: number) {
-    return this.request<Product & { aliases: string[] }>(`/products/${id}`);
+    return this.request<Product & { aliases: string[]; names: LocalizedNames }>(`/products/${id}`);
+  }
+
+  async getProductPrices(id: number) {
+    return this.request<PricePoint[]>(`/products/${id}/prices`);
   }
 
-  async createProduct(name: string, categoryId: number, aliases?: string[]) {
+  async createProduct(name: string, categoryId: number, aliases?: string[], shelfLifeDays?: number | null, names?: LocalizedNames) {
     return this.request<Product & { aliases: string[] }>('/products', {
       method: 'POST',
-      body: JSON.stringify({ name, category_id: categoryId, aliases }),
+      body: JSON.stringify({ name, category_id: categoryId, aliases, shelf_life_days: shelfLifeDays, names }),
     });
   }
 
-  async updateProduct(id: number, updates: { name?: string; category_id?: number }) {
+  async updateProduct(id: number, updates: { name?: string; category_id?: number; shelf_life_days?: number | null; names?: LocalizedNames }) {
     return this.request<Product & { aliases: string[] }>(`/products/${id}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
@@ -145,49 +391,109 @@ class ApiClient {
     );
   }
 
+  // Probable duplicates, each group with the suggested product to keep first
+  async getDuplicateProducts() {
+    return this.request<DuplicateGroup[]>('/products/duplicates');
+  }
+
+  // The sources' list items, history, meals and names move to the target, then they are deleted
+  async mergeProducts(targetId: number, sourceIds: number[]) {
+    return this.request<Product & { aliases: string[] }>(`/products/${targetId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ source_ids: sourceIds }),
+    });
+  }
+
   async getSpellSuggestions(text: string) {
     return this.request<SpellSuggestResponse>(
       `/products/spell-suggest?text=${encodeURIComponent(text)}`
     );
   }
 
+  // AI review queue (catalog changes learned from AI answers)
+  async getAiReviews(status: AiReviewStatus = 'pending') {
+    return this.request<AiReview[]>(`/reviews?status=${status}`);
+  }
+
+  async getAiReviewCount() {
+    return this.request<{ pending: number }>('/reviews/count');
+  }
+
+  // Keep a change, corrected with the edits that apply to its kind
+  async approveAiReview(id: number, edits: AiReviewEdits = {}) {
+    return this.request<AiReview>(`/reviews/${id}/approve`, {
+      method: 'POST',
+      body: JSON.stringify(edits),
+    });
+  }
+
+  // Undo a change; a learned product can be merged into another instead of deleted
+  async rejectAiReview(id: number, mergeIntoId?: number) {
+    return this.request<AiReview>(`/reviews/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ merge_into_id: mergeIntoId ?? null }),
+    });
+  }
+
   // Groceries
-  async getGroceries() {
-    return this.request<GroceryListResponse>('/groceries');
+  // With a store, items come back in that store's walking order
+  async getGroceries(storeId?: number | null) {
+    const query = storeId ? `?store_id=${storeId}` : '';
+    const list = await this.request<GroceryListResponse>(`/groceries${query}`);
+    this.noteItemVersions(list.allItems);
+    return list;
   }
 
-  async parseAndAddItems(text: string) {
+  // fuzzy: false skips "did you mean" matching and sends unknown lines to AI
+  async parseAndAddItems(text: string, options: { fuzzy?: boolean } = {}) {
     return this.request<ParseResult>('/groceries/parse', {
       method: 'POST',
-      body: JSON.stringify({ text }),
+      body: JSON.stringify({ text, ...options }),
     });
   }
 
-  async addItem(productId: number, quantity?: number, note?: string) {
+  async addItem(productId: number, quantity?: number, note?: string, unit?: Unit) {
     return this.request<GroceryItem>('/groceries', {
       method: 'POST',
-      body: JSON.stringify({ product_id: productId, quantity, note }),
+      body: JSON.stringify({ product_id: productId, quantity, note, unit }),
     });
   }
 
-  async updateItem(id: number, updates: { product_id?: number; quantity?: number; note?: string; status?: ItemStatus }) {
-    return this.request<GroceryItem>(`/groceries/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(updates),
-    });
+  async updateItem(id: number, updates: { product_id?: number; quantity?: number; unit?: Unit; note?: string; status?: ItemStatus }) {
+    const result = await this.sendOrQueue<GroceryItem>(
+      { kind: 'updateItem', itemId: id, updates, householdId: this.householdId, queuedAt: new Date().toISOString(), baseUpdatedAt: this.itemVersions.get(id) },
+      `/groceries/${id}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      }
+    );
+    if (!('queued' in result)) this.noteItemVersions([result]);
+    return result;
   }
 
-  async updateItemStatus(id: number, status: ItemStatus) {
-    return this.request<GroceryItem>(`/groceries/${id}/status`, {
-      method: 'PATCH',
-      body: JSON.stringify({ status }),
-    });
+  // unitPrice is what was paid (per kg / L for g and ml); leave it out to keep the current one
+  async updateItemStatus(id: number, status: ItemStatus, unitPrice?: number | null, bestBefore?: string | null) {
+    const result = await this.sendOrQueue<GroceryItem>(
+      { kind: 'updateItemStatus', itemId: id, status, unitPrice, bestBefore, householdId: this.householdId, queuedAt: new Date().toISOString(), baseUpdatedAt: this.itemVersions.get(id) },
+      `/groceries/${id}/status`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ status, unit_price: unitPrice, best_before: bestBefore }),
+      }
+    );
+    if (!('queued' in result)) this.noteItemVersions([result]);
+    return result;
   }
 
   async deleteItem(id: number) {
-    return this.request<{ message: string }>(`/groceries/${id}`, {
-      method: 'DELETE',
-    });
+    return this.sendOrQueue<{ message: string }>(
+      { kind: 'deleteItem', itemId: id, householdId: this.householdId, queuedAt: new Date().toISOString(), baseUpdatedAt: this.itemVersions.get(id) },
+      `/groceries/${id}`,
+      {
+        method: 'DELETE',
+      }
+    );
   }
 
   async deleteBatch(batchId: string) {
@@ -196,10 +502,16 @@ class ApiClient {
     });
   }
 
-  async completeShopping() {
-    return this.request<ShoppingResult>('/groceries/complete-shopping', {
-      method: 'POST',
-    });
+  // The store (if any) is recorded on the history session
+  async completeShopping(storeId?: number | null) {
+    return this.sendOrQueue<ShoppingResult>(
+      { kind: 'completeShopping', storeId: storeId ?? null, householdId: this.householdId, queuedAt: new Date().toISOString() },
+      '/groceries/complete-shopping',
+      {
+        method: 'POST',
+        body: JSON.stringify({ store_id: storeId ?? null }),
+      }
+    );
   }
 
   async clearFoundItems() {
@@ -214,6 +526,96 @@ class ApiClient {
     });
   }
 
+  // Server-side undo / redo of list changes (shared by the household)
+  async getOperations() {
+    return this.request<OperationState>('/groceries/operations');
+  }
+
+  // Newest first; pass the last id seen to load older entries
+  async getActivity(before?: number) {
+    const query = before ? `?before=${before}` : '';
+    return this.request<ActivityEntry[]>(`/groceries/activity${query}`);
+  }
+
+  async undoOperation() {
+    return this.request<OperationState & { operation: ListOperation }>('/groceries/operations/undo', {
+      method: 'POST',
+    });
+  }
+
+  async redoOperation() {
+    return this.request<OperationState & { operation: ListOperation }>('/groceries/operations/redo', {
+      method: 'POST',
+    });
+  }
+
+  // "You probably need": products due for a repurchase that aren't on the list
+  async getRepurchaseSuggestions() {
+    return this.request<RepurchaseSuggestion[]>('/groceries/suggestions');
+  }
+
+  async dismissRepurchaseSuggestion(productId: number) {
+    return this.request<{ message: string }>(`/groceries/suggestions/${productId}/dismiss`, {
+      method: 'POST',
+    });
+  }
+
+  // Live list changes (Server-Sent Events read through fetch so auth headers are sent).
+  // Reconnects until the returned function is called; onConnect fires on every (re)connection.
+  subscribeToListEvents(onEvent: (event: ListEvent) => void, onConnect?: () => void) {
+    const controller = new AbortController();
+    const headers = this.authHeaders();
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch(`${API_BASE}/groceries/events`, {
+            headers,
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          onConnect?.();
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            // Messages are separated by a blank line; keep the trailing partial one
+            const messages = buffer.split('\n\n');
+            buffer = messages.pop() || '';
+            for (const message of messages) {
+              const data = message
+                .split('\n')
+                .filter(line => line.startsWith('data: '))
+                .map(line => line.slice(6))
+                .join('\n');
+              if (data) {
+                const event: ListEvent = JSON.parse(data);
+                if (event.type === 'item.created' || event.type === 'item.updated') {
+                  this.noteItemVersions([event.item]);
+                }
+                onEvent(event);
+              }
+            }
+          }
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error('List events connection lost:', err);
+        }
+        await new Promise(resolve => setTimeout(resolve, EVENTS_RECONNECT_DELAY));
+      }
+    };
+
+    connect();
+    return () => controller.abort();
+  }
+
   // History
   async getHistory(limit?: number, status?: string) {
     const params = new URLSearchParams();
@@ -252,17 +654,25 @@ class ApiClient {
     return this.request<MealWithProducts>(`/meals/${id}`);
   }
 
-  async createMeal(name: string, productIds: number[]) {
+  async createMeal(name: string, items: MealItemInput[], servings?: number) {
     return this.request<MealWithProducts>('/meals', {
       method: 'POST',
-      body: JSON.stringify({ name, product_ids: productIds }),
+      body: JSON.stringify({ name, items, servings }),
     });
   }
 
-  async updateMeal(id: number, name: string, productIds: number[]) {
+  async updateMeal(id: number, name: string, items: MealItemInput[], servings?: number) {
     return this.request<MealWithProducts>(`/meals/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, product_ids: productIds }),
+      body: JSON.stringify({ name, items, servings }),
+    });
+  }
+
+  // Pasted recipe text or page HTML -> meal draft (nothing is saved)
+  async importRecipe(text: string) {
+    return this.request<RecipeDraft>('/meals/import', {
+      method: 'POST',
+      body: JSON.stringify({ text }),
     });
   }
 
@@ -283,14 +693,19 @@ class ApiClient {
     return this.request<MenuProduct[]>(`/menu/products${query}`);
   }
 
+  async getMenuGroceryDiff(weekStart?: string) {
+    const query = weekStart ? `?week_start=${weekStart}` : '';
+    return this.request<MenuGroceryDiff>(`/menu/grocery-diff${query}`);
+  }
+
   async getMealProducts(mealId: number) {
     return this.request<MenuProduct[]>(`/menu/meal/${mealId}/products`);
   }
 
-  async addMealToDay(weekStart: string, dayOfWeek: number, mealType: 'lunch' | 'dinner', mealId: number) {
+  async addMealToDay(weekStart: string, dayOfWeek: number, mealType: 'lunch' | 'dinner', mealId: number, servings?: number) {
     return this.request<MenuPlanResponse>('/menu/day', {
       method: 'POST',
-      body: JSON.stringify({ week_start: weekStart, day_of_week: dayOfWeek, meal_type: mealType, meal_id: mealId }),
+      body: JSON.stringify({ week_start: weekStart, day_of_week: dayOfWeek, meal_type: mealType, meal_id: mealId, servings }),
     });
   }
 
@@ -300,27 +715,219 @@ class ApiClient {
     });
   }
 
-  async addProductsToGroceries(productIds: number[]) {
-    return this.request<{ message: string; addedCount: number; skippedCount: number; batchId: string }>('/menu/add-to-groceries', {
+  // The week's grocery diff is applied to these products
+  async addProductsToGroceries(productIds: number[], weekStart: string) {
+    return this.request<{ message: string; addedCount: number; increasedCount: number; skippedCount: number; batchId: string }>('/menu/add-to-groceries', {
+      method: 'POST',
+      body: JSON.stringify({ product_ids: productIds, week_start: weekStart }),
+    });
+  }
+
+  // Pantry
+  async getPantry() {
+    return this.request<PantryItem[]>('/pantry');
+  }
+
+  async getRunningLow() {
+    return this.request<RunningLowItem[]>('/pantry/running-low');
+  }
+
+  async getUseSoon() {
+    return this.request<UseSoon>('/pantry/use-soon');
+  }
+
+  // Without a best-before date the product's shelf life is used
+  async addToPantry(productId: number, quantity: number, unit: Unit = 'piece', bestBefore?: string | null) {
+    return this.request<PantryItem>('/pantry', {
+      method: 'POST',
+      body: JSON.stringify({ product_id: productId, quantity, unit, best_before: bestBefore }),
+    });
+  }
+
+  async removeFromPantry(id: number, quantity: number, reason: 'consumed' | 'discarded', unit?: Unit) {
+    return this.request<PantryItem>(`/pantry/${id}/remove`, {
       method: 'POST',
-      body: JSON.stringify({ product_ids: productIds }),
+      body: JSON.stringify({ quantity, unit, reason }),
+    });
+  }
+
+  // low_quantity: null clears the running-low level
+  async updatePantryItem(id: number, updates: { quantity?: number; low_quantity?: number | null; best_before?: string | null }) {
+    return this.request<PantryItem>(`/pantry/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deletePantryItem(id: number) {
+    return this.request<{ message: string }>(`/pantry/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Staples
+  async getStaples() {
+    return this.request<Staple[]>('/staples');
+  }
+
+  async createStaple(productId: number, staple: StapleInput) {
+    return this.request<Staple>('/staples', {
+      method: 'POST',
+      body: JSON.stringify({ product_id: productId, ...staple }),
+    });
+  }
+
+  async updateStaple(id: number, updates: Partial<StapleInput> & { active?: boolean }) {
+    return this.request<Staple>(`/staples/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteStaple(id: number) {
+    return this.request<{ message: string }>(`/staples/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Put the staples that are due on the list now
+  async runStaples() {
+    return this.request<{ batchId: string | null; addedCount: number; skippedCount: number }>('/staples/run', {
+      method: 'POST',
+    });
+  }
+
+  // Insights (all aggregates accept an inclusive YYYY-MM-DD range)
+  private insightsQuery(range: DateRange, extra: Record<string, string> = {}) {
+    const params = new URLSearchParams(extra);
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    return params.toString() ? `?${params.toString()}` : '';
+  }
+
+  async getProductInsights(range: DateRange, limit?: number) {
+    const extra: Record<string, string> = limit ? { limit: limit.toString() } : {};
+    return this.request<ProductInsight[]>(`/insights/products${this.insightsQuery(range, extra)}`);
+  }
+
+  async getCategoryInsights(range: DateRange) {
+    return this.request<CategoryInsight[]>(`/insights/categories${this.insightsQuery(range)}`);
+  }
+
+  async getWeeklyInsights(range: DateRange) {
+    return this.request<WeekInsight[]>(`/insights/weeks${this.insightsQuery(range)}`);
+  }
+
+  async getCategoryMix(range: DateRange, interval: 'week' | 'month' = 'month') {
+    return this.request<CategoryMixPeriod[]>(`/insights/category-mix${this.insightsQuery(range, { interval })}`);
+  }
+
+  // Stores
+  async getStores() {
+    return this.request<Store[]>('/stores');
+  }
+
+  async getStore(id: number) {
+    return this.request<StoreWithLayout>(`/stores/${id}`);
+  }
+
+  async createStore(name: string) {
+    return this.request<StoreWithLayout>('/stores', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async updateStore(id: number, updates: StoreUpdate) {
+    return this.request<StoreWithLayout>(`/stores/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteStore(id: number) {
+    return this.request<{ message: string }>(`/stores/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Import / Export
+  // The file as the server names it, ready to be saved
+  async exportData(dataset: TransferDataset, format: TransferFormat) {
+    const response = await fetch(`${API_BASE}/transfer/${dataset}?format=${format}`, {
+      headers: this.authHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `grocery-${dataset}.${format}`;
+    return { blob: await response.blob(), filename };
+  }
+
+  // content: the file's text (JSON is sent parsed). Importing the same file twice changes nothing.
+  async importData(dataset: TransferDataset, format: TransferFormat, content: string) {
+    return this.request<ImportResult>(`/transfer/${dataset}`, {
+      method: 'POST',
+      body: JSON.stringify({ format, content: format === 'json' ? JSON.parse(content) : content }),
     });
   }
 }
 
 // Types
+// Languages product and category names can be shown in
+export type Language = 'fr' | 'en' | 'he';
+// Names by language, besides the catalog name
+export type LocalizedNames = Partial<Record<Language, string>>;
+
 export interface User {
   id: number;
   email: string;
   name: string;
+  // Language product and category names are shown in (null: catalog names)
+  language: Language | null;
+  // Listed in ADMIN_EMAILS: may review the AI-learned catalog changes of every household
+  is_admin: boolean;
   created_at: string;
 }
 
+export type HouseholdRole = 'owner' | 'editor' | 'shopper';
+
+export interface Household {
+  id: number;
+  name: string;
+  member_count: number;
+  role: HouseholdRole;
+  created_at: string;
+}
+
+export interface HouseholdMember {
+  id: number;
+  email: string;
+  name: string;
+  role: HouseholdRole;
+  joined_at: string;
+}
+
+export interface InviteInfo {
+  household: string;
+  role: HouseholdRole;
+  invitedBy: string | null;
+}
+
 export interface Category {
   id: number;
   name: string;
   icon: string;
   sort_order: number;
+  // Default shelf life of its products in days
+  shelf_life_days: number | null;
+  names?: LocalizedNames;
+  // Untranslated name, when name is shown in the user's language
+  catalog_name?: string;
 }
 
 export interface Product {
@@ -329,22 +936,52 @@ export interface Product {
   category_id: number;
   category_name: string;
   category_icon: string;
+  // Days a bought item keeps (null: the category's applies)
+  shelf_life_days: number | null;
+  category_shelf_life_days: number | null;
   created_at: string;
   updated_at: string;
   aliases?: string[];
+  names?: LocalizedNames;
+  // Untranslated name, when name is shown in the user's language
+  catalog_name?: string;
+}
+
+// same_name: equal without accents, ligatures or plurals; alias: a name is
+// another product's alias; similar: close spellings
+export type DuplicateReason = 'same_name' | 'alias' | 'similar';
+
+export interface DuplicateGroup {
+  reason: DuplicateReason;
+  // Most used first; usage counts list items, history lines and meal ingredients
+  products: (Product & { aliases: string[]; usage: number })[];
 }
 
 export type ItemStatus = 'pending' | 'selected' | 'found' | 'not_found';
 
+// 'piece' is a plain count
+export type Unit = 'piece' | 'g' | 'kg' | 'ml' | 'l' | 'pack' | 'dozen';
+
 export interface GroceryItem {
   id: number;
+  household_id: number;
   user_id: number;
+  // Who put it on the list (for staples, who set the staple up)
+  added_by_name?: string | null;
   product_id: number;
   product_name: string;
   category_id: number;
   category_name: string;
   category_icon: string;
+  category_sort?: number;
+  // Set when the list is sorted for a store
+  store_position?: number;
+  store_section?: string;
   quantity: number;
+  unit: Unit;
+  unit_price: number | null;
+  // 'YYYY-MM-DD', set when found (defaults from the shelf life)
+  best_before: string | null;
   status: ItemStatus;
   batch_id: string | null;
   note: string | null;
@@ -352,21 +989,105 @@ export interface GroceryItem {
   updated_at: string;
 }
 
+// Returned instead of the server response when a change was queued offline
+export interface QueuedChange {
+  queued: true;
+}
+
+export type ListEvent =
+  | { type: 'item.created' | 'item.updated'; item: GroceryItem }
+  | { type: 'item.deleted'; ids: number[] }
+  | { type: 'session.completed'; sessionId: string; ids: number[]; archivedCount: number; foundCount: number; notFoundCount: number };
+
 export interface GroceryListResponse {
   allItems: GroceryItem[];
   activeItems: GroceryItem[];
   foundItems: GroceryItem[];
+  store?: { id: number; name: string } | null;
   grouped: Record<string, GroceryItem[]>;
   categoryInfo: Record<string, { icon: string }>;
 }
 
+// A line that loosely matched some products and wasn't added
+export interface ParseSuggestion {
+  term: string;
+  quantity: number;
+  unit: Unit;
+  originalInput: string;
+  candidates: (Product & { score: number })[];
+}
+
+export type OperationType =
+  | 'add' | 'parse' | 'menu' | 'staples' | 'edit' | 'status'
+  | 'delete' | 'delete_batch' | 'clear_found' | 'reset_selection' | 'complete';
+
+// A logged list change, as shown on the undo / redo buttons
+export interface ListOperation {
+  id: number;
+  type: OperationType;
+  // Null for changes made by the daily staples run
+  user_id: number | null;
+  user_name: string | null;
+  created_at: string;
+  item_count: number;
+  product_names: string[];
+}
+
+// An item as a logged change left it (null: not on the list)
+export interface ItemSnapshot {
+  id: number;
+  user_id: number | null;
+  product_name: string;
+  product_id: number;
+  quantity: number;
+  unit: Unit;
+  unit_price: number | null;
+  best_before: string | null;
+  status: ItemStatus;
+  batch_id: string | null;
+  note: string | null;
+}
+
+export interface ActivityEntry {
+  id: number;
+  type: OperationType;
+  // undone: reverted (and may be redone); discarded: no longer undoable
+  state: 'done' | 'undone' | 'discarded';
+  user_id: number | null;
+  user_name: string | null;
+  created_at: string;
+  undone_at: string | null;
+  items: { id: number; product_name: string; before: ItemSnapshot | null; after: ItemSnapshot | null }[];
+}
+
+export interface OperationState {
+  undo: ListOperation | null;
+  redo: ListOperation | null;
+}
+
+export interface RepurchaseSuggestion {
+  product_id: number;
+  product_name: string;
+  category_name: string | null;
+  category_icon: string | null;
+  // Usual days between two purchases
+  interval_days: number;
+  days_since: number;
+  last_bought_at: string;
+  // Amount bought last time
+  quantity: number;
+  unit: Unit;
+}
+
 export interface ParseResult {
   batchId: string;
   items: GroceryItem[];
+  suggestions: ParseSuggestion[];
   stats: {
     total: number;
     fromCache: number;
     fromAI: number;
+    suggested: number;
   };
 }
 
@@ -375,20 +1096,35 @@ export interface ShoppingResult {
   archivedCount: number;
   foundCount: number;
   notFoundCount: number;
+  totalSpent: number | null;
 }
 
 export interface HistoryItem {
   id: number;
+  household_id: number;
   user_id: number;
   product_id: number | null;
   product_name: string;
   category_name: string;
   quantity: number;
+  unit: Unit;
+  unit_price: number | null;
   status: string;
   completed_at: string;
   shopping_session_id: string;
 }
 
+// A price paid for a product on a past trip
+export interface PricePoint {
+  id: number;
+  unit_price: number;
+  quantity: number;
+  unit: Unit;
+  store_id: number | null;
+  store_name: string | null;
+  completed_at: string;
+}
+
 export interface ShoppingSession {
   shopping_session_id: string;
   started_at: string;
@@ -396,11 +1132,18 @@ export interface ShoppingSession {
   item_count: number;
   found_count: number;
   not_found_count: number;
+  store_name: string | null;
+  // Null when nothing was priced
+  total_spent: number | null;
 }
 
+export type AIProvider = 'gemini' | 'openai' | 'rules';
+
 export interface AIStats {
   isInitialized: boolean;
+  provider: AIProvider;
   model: string;
+  usingFallback: boolean;
   requestsLastMinute: number;
   requestsLastHour: number;
   totalRequestsAllTime: number;
@@ -409,21 +1152,103 @@ export interface AIStats {
   totalTokensAllTime: number;
   successfulLastHour: number;
   failedLastHour: number;
+  // Null for providers without published limits (local servers, rule-based)
   rateLimits: {
     requestsPerMinute: number;
     requestsPerDay: number;
     tokensPerMinute: number;
-  };
+  } | null;
   usagePercent: {
     rpm: number;
     tpm: number;
-  };
+  } | null;
+}
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface ProductInsight {
+  product_id: number;
+  product_name: string;
+  category_name: string | null;
+  times_listed: number;
+  times_bought: number;
+  times_not_found: number;
+  // Share of trips where it was on the list but not found (0-1)
+  not_found_rate: number;
+  last_bought_at: string | null;
+  // Average days between two trips where it was bought (null if bought less than twice)
+  avg_days_between: number | null;
+}
+
+export interface CategoryInsight {
+  category_name: string;
+  category_icon: string | null;
+  times_listed: number;
+  times_bought: number;
+  times_not_found: number;
+  not_found_rate: number;
+}
+
+export interface WeekInsight {
+  week_start: string;
+  session_count: number;
+  total_spent: number | null;
+}
+
+export interface CategoryMixPeriod {
+  period_start: string;
+  total: number;
+  // Items bought per category name
+  categories: Record<string, number>;
+}
+
+export interface Store {
+  id: number;
+  household_id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A category's place in a store; position is the walking order
+export interface StoreCategory {
+  category_id: number;
+  category_name: string;
+  category_icon: string;
+  position: number;
+  aisle: string | null;
+}
+
+// A product shelved somewhere else than its category in this store
+export interface StoreProduct {
+  product_id: number;
+  product_name: string;
+  category_id: number | null;
+  category_name: string | null;
+  aisle: string | null;
+}
+
+export interface StoreWithLayout extends Store {
+  categories: StoreCategory[];
+  products: StoreProduct[];
+}
+
+export interface StoreUpdate {
+  name?: string;
+  // In walking order
+  categories?: { category_id: number; aisle?: string | null }[];
+  products?: { product_id: number; category_id?: number | null; aisle?: string | null }[];
 }
 
 export interface Meal {
   id: number;
+  household_id: number;
   user_id: number;
   name: string;
+  servings: number;
   product_count: number;
   created_at: string;
   updated_at: string;
@@ -434,17 +1259,48 @@ export interface MealProduct {
   name: string;
   category_name: string;
   category_icon: string;
+  // For the meal's servings; null when no amount was given ("salt, to taste")
+  quantity: number | null;
+  unit: Unit;
+}
+
+export interface MealItemInput {
+  product_id: number;
+  quantity: number | null;
+  unit: Unit;
 }
 
 export interface MealWithProducts extends Meal {
   products: MealProduct[];
 }
 
+export type RecipeProduct = Pick<Product, 'id' | 'name' | 'category_name' | 'category_icon'>;
+
+export interface RecipeIngredient {
+  line: string;
+  // catalog / ai: matched; suggestion: pick one of the candidates; unmatched: nothing found
+  source: 'catalog' | 'ai' | 'suggestion' | 'unmatched';
+  product: RecipeProduct | null;
+  quantity: number | null;
+  unit: Unit;
+  term?: string;
+  candidates: RecipeProduct[];
+}
+
+export interface RecipeDraft {
+  name: string | null;
+  servings: number | null;
+  ingredients: RecipeIngredient[];
+}
+
 export interface MenuPlanItem {
   id: number;
   meal_id: number;
   meal_name: string;
   meal_type: 'lunch' | 'dinner';
+  // Planned servings (the meal's default unless overridden)
+  servings: number;
+  meal_servings: number;
   product_count: number;
 }
 
@@ -464,6 +1320,95 @@ export interface MenuProduct {
   category_name: string;
   category_icon: string;
   sort_order?: number;
+  // Week products: total needed per unit, scaled to the planned servings
+  amounts?: { quantity: number; unit: Unit }[];
+  // Meal products: amount for the meal's servings
+  quantity?: number | null;
+  unit?: Unit;
+}
+
+export interface PantryItem {
+  id: number;
+  product_id: number;
+  product_name: string;
+  category_name: string;
+  category_icon: string;
+  quantity: number;
+  unit: Unit;
+  // Running low at or below this (null: only once used up)
+  low_quantity: number | null;
+  is_low: boolean;
+  // Earliest best-before date of the stock ('YYYY-MM-DD') and days until then
+  best_before: string | null;
+  days_left: number | null;
+  updated_at: string;
+}
+
+export interface RunningLowItem extends PantryItem {
+  // Already back on the grocery list
+  on_list: boolean;
+}
+
+export interface UseSoonMeal {
+  id: number;
+  name: string;
+  servings: number;
+  // Names of the use-soon products it uses
+  uses: string[];
+}
+
+export interface UseSoon {
+  // Items within this many days of their best-before date are included
+  days: number;
+  items: PantryItem[];
+  meals: UseSoonMeal[];
+}
+
+// 'interval': every interval_days, 'weekdays': on those days (0 = Sunday),
+// 'since_bought': once last bought interval_days ago or more
+export type StapleRule = 'interval' | 'weekdays' | 'since_bought';
+
+export interface StapleInput {
+  quantity: number;
+  unit: Unit;
+  rule: StapleRule;
+  interval_days: number | null;
+  weekdays: number[];
+}
+
+export interface Staple extends StapleInput {
+  id: number;
+  product_id: number;
+  product_name: string;
+  category_name: string;
+  category_icon: string;
+  active: boolean;
+  last_added_on: string | null;
+  last_bought_on: string | null;
+  // Would be added by today's run
+  due?: boolean;
+}
+
+export type MenuGroceryAction = 'add' | 'increase' | 'covered';
+
+export interface MenuGroceryLine {
+  id: number;
+  name: string;
+  category_name: string;
+  category_icon: string;
+  sort_order?: number;
+  needed: { quantity: number; unit: Unit }[];
+  in_stock: { quantity: number; unit: Unit }[];
+  // Pending item for the product, if any
+  on_list: { id: number; quantity: number; unit: Unit } | null;
+  // What applying the line adds (on top of on_list for 'increase')
+  missing: { quantity: number; unit: Unit }[];
+  action: MenuGroceryAction;
+}
+
+export interface MenuGroceryDiff {
+  weekStart: string;
+  lines: MenuGroceryLine[];
 }
 
 export interface SpellWordSuggestion {
@@ -479,4 +1424,52 @@ export interface SpellSuggestResponse {
   combinedSuggestions: string[];
 }
 
+// category_change: an existing product moved to the category the AI gave it
+export type AiReviewKind = 'product' | 'alias' | 'category' | 'category_change';
+
+export type AiReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AiReview {
+  id: number;
+  kind: AiReviewKind;
+  status: AiReviewStatus;
+  // The line typed, and what the AI answered for it
+  original_input: string | null;
+  ai_product: string | null;
+  ai_category: string | null;
+  // What was created or changed (null once deleted)
+  product_id: number | null;
+  product_name: string | null;
+  category_id: number | null;
+  category_name: string | null;
+  category_icon: string | null;
+  previous_category_id: number | null;
+  previous_category_name: string | null;
+  alias: string | null;
+  user_name: string | null;
+  reviewer_name: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// product: name, category_id; alias: alias; category: name, icon; category_change: category_id
+export interface AiReviewEdits {
+  name?: string;
+  category_id?: number;
+  alias?: string;
+  icon?: string;
+}
+
+export type TransferDataset = 'catalog' | 'meals' | 'menu' | 'history';
+
+export type TransferFormat = 'json' | 'csv';
+
+// Rows per outcome; skipped rows are incomplete or point to something missing
+export interface ImportResult {
+  created: number;
+  updated?: number;
+  unchanged: number;
+  skipped?: number;
+}
+
 export const api = new ApiClient();
@@ -0,0 +1,99 @@
+import type { Language } from './api';
+import { LANGUAGES } from './languages';
+import en, { type Message, type MessageKey } from '@/locales/en';
+import fr from '@/locales/fr';
+import he from '@/locales/he';
+
+export type { MessageKey };
+export type TranslationParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Record<MessageKey, Message>> = { en, fr, he };
+
+// Locale dates and numbers are formatted in, per language
+export const LOCALES: Record<Language, string> = {
+  fr: 'fr-FR',
+  en: 'en-US',
+  he: 'he-IL',
+};
+
+const RTL_LANGUAGES: Language[] = ['he'];
+
+// The chosen language, else the browser's first supported one, else English
+function detectLanguage(): Language {
+  const stored = localStorage.getItem('language') as Language | null;
+  if (stored && LANGUAGES.includes(stored)) return stored;
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const language = tag.slice(0, 2).toLowerCase() as Language;
+    if (LANGUAGES.includes(language)) return language;
+  }
+  return 'en';
+}
+
+// Module-level so helpers outside components (units, dates) translate too;
+// LanguageContext re-renders the app when it changes
+let current: Language = detectLanguage();
+
+export function getLanguage() {
+  return current;
+}
+
+export function isRtl(language: Language = current) {
+  return RTL_LANGUAGES.includes(language);
+}
+
+// Switch language and remember it; the document direction follows
+export function applyLanguage(language: Language) {
+  current = language;
+  localStorage.setItem('language', language);
+  document.documentElement.lang = language;
+  document.documentElement.dir = isRtl(language) ? 'rtl' : 'ltr';
+}
+
+// A message in a language (English when missing), with its {placeholders}
+// filled in; plural messages pick their form from params.count
+export function translate(language: Language, key: MessageKey, params?: TranslationParams): string {
+  const message = CATALOGS[language][key] ?? en[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const form = new Intl.PluralRules(LOCALES[language]).select(Number(params?.count ?? 0));
+    text = (form === 'one' || form === 'two' ? message[form] : undefined) ?? message.other;
+  }
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// A message in the current language
+export function t(key: MessageKey, params?: TranslationParams) {
+  return translate(current, key, params);
+}
+
+export function formatDate(date: Date | string, options?: Intl.DateTimeFormatOptions) {
+  return new Date(date).toLocaleDateString(LOCALES[current], options);
+}
+
+// A calendar day ("2024-03-15"), read at local noon so no time zone shifts it
+export function formatDay(day: string, options?: Intl.DateTimeFormatOptions) {
+  return formatDate(`${day}T12:00:00`, options);
+}
+
+export function formatTime(date: Date | string, options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' }) {
+  return new Date(date).toLocaleTimeString(LOCALES[current], options);
+}
+
+export function formatDateTime(date: Date | string) {
+  return new Date(date).toLocaleString(LOCALES[current]);
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions) {
+  return value.toLocaleString(LOCALES[current], options);
+}
+
+// Name of a day of the week (0 = Sunday)
+export function weekdayName(day: number, width: 'long' | 'short' = 'short') {
+  // 2023-01-01 was a Sunday
+  return new Date(2023, 0, 1 + day).toLocaleDateString(LOCALES[current], { weekday: width });
+}
+
+applyLanguage(current);
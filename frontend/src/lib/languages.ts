@@ -0,0 +1,11 @@
+import type { Language } from './api';
+
+// Same order as LANGUAGES on the backend
+export const LANGUAGES: Language[] = ['fr', 'en', 'he'];
+
+// Each language in itself
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  fr: 'Français',
+  en: 'English',
+  he: 'עברית',
+};
@@ -0,0 +1,65 @@
+// IndexedDB-backed queue of list changes made while offline.
+// Entries are replayed in insertion order by ApiClient.flushOutbox().
+
+const DB_NAME = 'grocery-offline';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+// Item changes keep the item's updated_at as the device last saw it (baseUpdatedAt)
+export type OutboxEntry =
+  | { id?: number; kind: 'updateItemStatus'; itemId: number; status: string; unitPrice?: number | null; bestBefore?: string | null; householdId: number | null; queuedAt: string; baseUpdatedAt?: string }
+  | { id?: number; kind: 'updateItem'; itemId: number; updates: Record<string, unknown>; householdId: number | null; queuedAt: string; baseUpdatedAt?: string }
+  | { id?: number; kind: 'deleteItem'; itemId: number; householdId: number | null; queuedAt: string; baseUpdatedAt?: string }
+  | { id?: number; kind: 'completeShopping'; storeId?: number | null; householdId: number | null; queuedAt: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against the outbox store
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const outbox = {
+  add(entry: OutboxEntry) {
+    return withStore('readwrite', store => store.add(entry));
+  },
+
+  // Keys are auto-incremented, so getAll() returns entries in the order they were queued
+  getAll() {
+    return withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  },
+
+  update(entry: OutboxEntry) {
+    return withStore('readwrite', store => store.put(entry));
+  },
+
+  remove(id: number) {
+    return withStore('readwrite', store => store.delete(id));
+  },
+
+  clear() {
+    return withStore('readwrite', store => store.clear());
+  },
+};
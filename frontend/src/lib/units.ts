@@ -0,0 +1,65 @@
+import type { Unit } from './api';
+import { formatNumber, t } from './i18n';
+
+// Same order as GroceryItem.UNITS on the backend
+export const UNITS: Unit[] = ['piece', 'g', 'kg', 'ml', 'l', 'pack', 'dozen'];
+
+// Short name of a unit in the current language
+export function unitLabel(unit: Unit) {
+  return t(`unit.${unit}`);
+}
+
+// Drop float noise (0.1 + 0.2) without showing trailing zeros
+function formatAmount(value: number) {
+  return formatNumber(value, { maximumFractionDigits: 3 });
+}
+
+// Amount as shown on the list, e.g. "x2", "500 g", "1.5 kg", "2 packs"
+export function formatQuantity(quantity: number, unit: Unit = 'piece') {
+  const value = formatAmount(quantity);
+  switch (unit) {
+    case 'piece':
+      return `x${value}`;
+    case 'pack':
+      return t('unit.packs', { count: value });
+    default:
+      return `${value} ${unitLabel(unit)}`;
+  }
+}
+
+// Whether an amount is worth showing next to a product name (plain "x1" isn't)
+export function hasQuantity(quantity: number, unit: Unit = 'piece') {
+  return unit !== 'piece' || quantity !== 1;
+}
+
+// Increment used by the +/- buttons
+export function quantityStep(unit: Unit) {
+  switch (unit) {
+    case 'g':
+    case 'ml':
+      return 100;
+    case 'kg':
+    case 'l':
+      return 0.5;
+    default:
+      return 1;
+  }
+}
+
+// Unit a price applies to (see productService.priceUnit): g is priced per kg, ml per L
+export function priceUnit(unit: Unit): Unit {
+  if (unit === 'g') return 'kg';
+  if (unit === 'ml') return 'l';
+  return unit;
+}
+
+// Cost of an item at its unit price (null when it has no price)
+export function lineCost(quantity: number, unit: Unit, unitPrice: number | null) {
+  if (unitPrice === null || unitPrice === undefined) return null;
+  const amount = unit === 'g' || unit === 'ml' ? quantity / 1000 : quantity;
+  return Math.round(amount * unitPrice * 100) / 100;
+}
+
+export function formatPrice(value: number) {
+  return formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
@@ -1,7 +1,16 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { t } from "./i18n"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+
+// How far off a best-before date is, from the days left until it
+export function formatDaysLeft(daysLeft: number) {
+  if (daysLeft < 0) return daysLeft === -1 ? t('daysLeft.expiredYesterday') : t('daysLeft.expiredAgo', { count: -daysLeft });
+  if (daysLeft === 0) return t('daysLeft.today');
+  if (daysLeft === 1) return t('daysLeft.tomorrow');
+  return t('daysLeft.within', { count: daysLeft });
+}
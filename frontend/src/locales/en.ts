@@ -0,0 +1,696 @@
+// English messages; the keys of this catalog are the ones every language has.
+// A message is a string with {placeholders}, or plural forms picked by {count}.
+export type Message = string | { one: string; other: string; two?: string };
+
+const en = {
+  // Layout
+  'app.title': 'Grocery List',
+  'layout.welcome': 'Welcome, {name}',
+  'layout.language': 'Language',
+  'nav.list': 'List',
+  'nav.shop': 'Shop',
+  'nav.menu': 'Menu',
+  'nav.meals': 'Meals',
+  'nav.products': 'Products',
+  'nav.household': 'Household',
+  'nav.pantry': 'Pantry',
+  'nav.activity': 'Activity',
+  'nav.history': 'History',
+  'nav.insights': 'Insights',
+  'nav.logout': 'Logout',
+  'stats.title': 'AI Service Stats',
+  'stats.providerGemini': 'Gemini',
+  'stats.providerOpenai': 'OpenAI-compatible',
+  'stats.providerRules': 'Rule-based',
+  'stats.connected': 'Connected',
+  'stats.notInitialized': 'Not Initialized',
+  'stats.usingFallback': 'The configured AI provider is unavailable - using the rule-based parser.',
+  'stats.lastMinute': 'Last Minute',
+  'stats.lastHour': 'Last Hour',
+  'stats.tokens': '{count} tokens',
+  'stats.successful': 'Successful',
+  'stats.failed': 'Failed',
+  'stats.inLastHour': 'last hour',
+  'stats.rateLimits': 'Rate Limits (Free Tier)',
+  'stats.requestsPerMinute': 'Requests/min',
+  'stats.tokensPerMinute': 'Tokens/min',
+  'stats.totalRequests': 'Total requests (all time):',
+  'stats.totalTokens': 'Total tokens (all time):',
+  'stats.refresh': 'Refresh Stats',
+  'stats.loadFailed': 'Failed to load stats',
+
+  // Common
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.add': 'Add',
+  'common.adding': 'Adding...',
+  'common.create': 'Create',
+  'common.creating': 'Creating...',
+  'common.clear': 'Clear',
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.loading': 'Loading...',
+  'common.search': 'Search...',
+  'common.name': 'Name',
+  'common.category': 'Category',
+  'common.quantity': 'Quantity',
+  'common.unit': 'Unit',
+  'common.notes': 'Notes',
+  'common.optional': 'optional',
+  'common.somethingWrong': 'Something went wrong',
+  'common.none': 'None',
+  'common.today': 'Today',
+  'common.yesterday': 'Yesterday',
+  'common.tomorrow': 'Tomorrow',
+
+  // Dashboard
+  'dashboard.title': 'Your List',
+  'dashboard.noItems': 'No items yet',
+  'dashboard.itemsToGet': { one: '{count} item to get', other: '{count} items to get' },
+  'dashboard.aiAdd': 'AI Add',
+  'dashboard.quickAdd': 'Quick add item...',
+  'dashboard.addWithAi': 'Add "{text}" with AI',
+  'dashboard.added': 'Added {name}',
+  'dashboard.addFailed': 'Failed to add item',
+  'dashboard.itemAdded': 'Item added!',
+  'dashboard.parsedByAi': 'Parsed by AI',
+  'dashboard.fromDatabase': 'Added from database',
+  'dashboard.itemsAdded': 'Items added!',
+  'dashboard.itemsAddedDetail': 'Added {total} items ({cached} from database, {ai} parsed by AI)',
+  'dashboard.addItemsFailed': 'Failed to add items',
+  'dashboard.cleared': 'Cleared',
+  'dashboard.foundRemoved': 'Found items have been removed',
+  'dashboard.clearFailed': 'Failed to clear',
+  'dashboard.emptyTitle': 'Your list is empty',
+  'dashboard.emptyHint': 'Add items by typing them naturally. Our AI will understand and categorize them for you.',
+  'dashboard.addFirst': 'Add Your First Items',
+  'dashboard.foundItems': 'Found Items ({count})',
+  'dashboard.addItems': 'Add Items',
+  'dashboard.addItemsHint': 'Type your grocery items naturally. Our AI will parse and categorize them.',
+  'dashboard.itemsLabel': 'Items (one per line)',
+  'dashboard.itemsPlaceholder': '2 apples\nWholemeal bread\nMilk\nGrated cheese',
+  'dashboard.tip': 'Tip: You can include quantities like "2 apples" or "bread x3"',
+  'dashboard.parsing': 'Parsing...',
+  'dashboard.parseAndAdd': 'Parse & Add',
+
+  // Units and dates
+  'unit.piece': 'pcs',
+  'unit.g': 'g',
+  'unit.kg': 'kg',
+  'unit.ml': 'ml',
+  'unit.l': 'L',
+  'unit.pack': 'pack',
+  'unit.dozen': 'dozen',
+  'unit.packs': { one: '{count} pack', other: '{count} packs' },
+  'daysLeft.expiredYesterday': 'expired yesterday',
+  'daysLeft.expiredAgo': { one: 'expired {count} day ago', other: 'expired {count} days ago' },
+  'daysLeft.today': 'use today',
+  'daysLeft.tomorrow': 'use by tomorrow',
+  'daysLeft.within': { one: 'use within {count} day', other: 'use within {count} days' },
+
+  // Shopping
+  'shopping.loadStoreFailed': 'Failed to load store',
+  'shopping.restored': 'Restored',
+  'shopping.restoredDetail': '{name} moved back to list',
+  'shopping.restoreFailed': 'Failed to restore',
+  'shopping.complete': 'Shopping complete!',
+  'shopping.completeDetail': 'Found {found} items, {notFound} not found',
+  'shopping.spent': ' · spent {amount}',
+  'shopping.completeFailed': 'Failed to complete',
+  'shopping.readyTitle': 'Ready to shop?',
+  'shopping.readyHint': 'Add items to your list first, then come back here for shopping mode.',
+  'shopping.title': 'Shopping Mode',
+  'shopping.swipeHint': 'Swipe right for found, left for not found',
+  'shopping.noStore': 'No store (by category)',
+  'shopping.manageStores': 'Manage stores',
+  'shopping.setUpStore': 'Set up a store layout',
+  'shopping.pendingChanges': { one: '{count} change waiting for connection', other: '{count} changes waiting for connection' },
+  'shopping.foundCount': '{count} found',
+  'shopping.remaining': '{count} remaining',
+  'shopping.basket': 'Basket: {amount}',
+  'shopping.notFound': 'Not Found',
+  'shopping.found': 'Found',
+  'shopping.notFoundSection': 'Not Found ({count})',
+  'shopping.foundSection': 'Found ({count})',
+  'shopping.restoreToList': 'Restore to list',
+  'shopping.completing': 'Completing...',
+  'shopping.completeShopping': 'Complete Shopping',
+  'shopping.enterDetails': 'Enter price or best-before date',
+  'shopping.price': 'Price',
+  'shopping.perItem': 'item',
+  'shopping.bestBefore': 'Best before',
+
+  // Menu planner
+  'menu.lineAdd': 'add {amounts}',
+  'menu.lineCovered': 'covered',
+  'menu.loadFailed': 'Failed to load menu plan',
+  'menu.addMealFailed': 'Failed to add meal',
+  'menu.removeMealFailed': 'Failed to remove meal',
+  'menu.diffFailed': 'Failed to compare with the grocery list',
+  'menu.listUpdated': 'Grocery list updated',
+  'menu.listUpdatedDetail': '{added} added, {increased} increased',
+  'menu.addProductsFailed': 'Failed to add products',
+  'common.otherCategory': 'Other',
+  'menu.title': 'Menu Planner',
+  'menu.subtitle': 'Plan your meals and add ingredients to your grocery list',
+  'menu.previousWeek': 'Previous week',
+  'menu.nextWeek': 'Next week',
+  'menu.lunch': 'Lunch',
+  'menu.dinner': 'Dinner',
+  'menu.servingsCount': { one: '{count} serving', other: '{count} servings' },
+  'menu.productsNeeded': 'Products Needed ({count})',
+  'menu.actionCounts': '{add} to add · {increase} to increase · {covered} already covered',
+  'menu.selectNeeded': 'Select Needed',
+  'menu.needs': 'needs {amounts}',
+  'menu.inStock': '{amounts} in stock',
+  'menu.updating': 'Updating...',
+  'menu.apply': 'Apply {count} to Grocery List',
+  'menu.addLunch': 'Add Lunch - {day}',
+  'menu.addDinner': 'Add Dinner - {day}',
+  'menu.servings': 'Servings',
+  'menu.mealDefault': 'Meal default',
+  'menu.mealSummary': '{count} products · serves {servings}',
+  'menu.usesUp': 'Uses up {names}',
+  'menu.noMeals': 'No meals created yet.',
+  'menu.noMealsHint': 'Go to Meals tab to create some!',
+
+  // Meals
+  'meals.loadFailed': 'Failed to load meals',
+  'meals.productCreated': 'Product "{name}" created',
+  'meals.loadMealFailed': 'Failed to load meal',
+  'meals.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+  'meals.deleted': 'Meal deleted',
+  'meals.deleteFailed': 'Failed to delete meal',
+  'meals.updated': 'Meal updated',
+  'meals.created': 'Meal created',
+  'meals.updateFailed': 'Failed to update meal',
+  'meals.createFailed': 'Failed to create meal',
+  'meals.title': 'Meals',
+  'meals.subtitle': 'Create and manage your meals with their ingredients',
+  'meals.addMeal': 'Add Meal',
+  'meals.importRecipe': 'Import Recipe',
+  'meals.productCount': { one: '{count} product', other: '{count} products' },
+  'meals.edit': 'Edit meal',
+  'meals.delete': 'Delete meal',
+  'meals.empty': 'No meals yet. Add one to get started.',
+  'mealDialog.editTitle': 'Edit Meal',
+  'mealDialog.reviewTitle': 'Review Imported Meal',
+  'mealDialog.namePlaceholder': 'e.g., Pasta Carbonara',
+  'mealDialog.servings': 'Servings',
+  'mealDialog.ingredientsFor': 'Ingredients for {servings} ({count})',
+  'mealDialog.toTaste': 'to taste',
+  'mealDialog.quantityOf': '{name} quantity',
+  'mealDialog.unitOf': '{name} unit',
+  'mealDialog.remove': 'Remove {name}',
+  'mealDialog.toMatch': 'To match ({count})',
+  'mealDialog.searchFor': 'Search a product for {line}',
+  'mealDialog.skip': 'Skip {line}',
+  'mealDialog.productFor': 'Product for "{line}"',
+  'mealDialog.addProducts': 'Add Products',
+  'mealDialog.newProduct': 'New Product',
+  'mealDialog.searchProducts': 'Search products...',
+  'mealDialog.noProducts': 'No products found',
+  'mealDialog.createNamed': 'Create "{name}"',
+  'mealDialog.saveChanges': 'Save Changes',
+  'mealDialog.createMeal': 'Create Meal',
+
+  // Product dialogs
+  'productDialog.editTitle': 'Edit Product',
+  'productDialog.addTitle': 'Add Product',
+  'productDialog.loadCategoriesFailed': 'Failed to load categories',
+  'productDialog.loadFailed': 'Failed to load product',
+  'productDialog.updated': 'Product updated',
+  'productDialog.created': 'Product created',
+  'productDialog.updateFailed': 'Failed to update',
+  'productDialog.createFailed': 'Failed to create',
+  'productDialog.aliasExists': 'Alias already exists',
+  'productDialog.aliasAdded': 'Alias added',
+  'productDialog.aliasAddFailed': 'Failed to add alias',
+  'productDialog.aliasRemoved': 'Alias removed',
+  'productDialog.aliasRemoveFailed': 'Failed to remove alias',
+  'productDialog.spellingCorrected': 'Spelling corrected',
+  'productDialog.spellingChange': '"{from}" → "{to}"',
+  'productDialog.addedAsAlias': '"{name}" added as alias',
+  'productDialog.noSpellingChanges': 'No spelling changes needed',
+  'productDialog.fixSpellingFailed': 'Failed to fix spelling',
+  'productDialog.namePlaceholder': 'e.g., Milk',
+  'productDialog.fixSpelling': 'Fix spelling with AI',
+  'productDialog.translations': 'Translations',
+  'productDialog.selectCategory': 'Select a category...',
+  'productDialog.keepsFor': 'Keeps for',
+  'productDialog.aliases': 'Aliases (spelling variants)',
+  'productDialog.addAlias': 'Add alias...',
+  'productDialog.saveChanges': 'Save Changes',
+  'productDialog.createProduct': 'Create Product',
+  'shelfLife.days': 'days',
+  'shelfLife.default': 'default',
+  'shelfLife.category': 'category',
+  'priceHistory.title': 'Price history',
+  'priceHistory.noStore': 'No store',
+  'priceHistory.empty': 'No prices yet. Tap the tag on an item in shopping mode to record what you paid.',
+  'priceHistory.lowest': 'lowest {price} · {count} trips',
+
+  // Products
+  'products.loadFailed': 'Failed to load data',
+  'products.searchFailed': 'Search failed',
+  'products.confirmDelete': 'Delete this product? This will also remove it from any grocery lists.',
+  'products.deleted': 'Product deleted',
+  'products.deleteFailed': 'Failed to delete',
+  'products.categoryCreated': 'Category created',
+  'products.categoryCreateFailed': 'Failed to create category',
+  'products.categoryUpdated': 'Category updated',
+  'products.cannotDelete': 'Cannot delete',
+  'products.categoryHasProducts': { one: 'This category has {count} product. Move it first.', other: 'This category has {count} products. Move them first.' },
+  'products.confirmDeleteCategory': 'Delete category "{name}"?',
+  'products.categoryDeleted': 'Category deleted',
+  'products.title': 'Product Management',
+  'products.subtitle': 'Manage products, categories, staples and duplicates',
+  'products.reviewAi': 'Review AI ({count})',
+  'products.tabProducts': 'Products ({count})',
+  'products.tabCategories': 'Categories ({count})',
+  'products.tabStaples': 'Staples',
+  'products.tabDuplicates': 'Duplicates',
+  'products.searchButton': 'Search',
+  'products.editProduct': 'Edit product',
+  'products.deleteProduct': 'Delete product',
+  'products.addCategory': 'Add Category',
+  'products.keepsDays': { one: ' · keeps {count} day', other: ' · keeps {count} days' },
+  'products.editCategory': 'Edit category',
+  'products.deleteCategory': 'Delete category',
+  'products.noCategories': 'No categories yet. Add one to get started.',
+  'products.categoryPlaceholder': 'e.g., Fruit and vegetables',
+  'products.icon': 'Icon (emoji)',
+  'products.sortOrder': 'Sort Order',
+  'products.sortOrderHint': 'Lower sort order = appears first in the list',
+  'products.editCategoryTitle': 'Edit Category',
+  'products.productsKeepFor': 'Products keep for',
+  'products.shelfLifeHint': 'Used for best-before dates unless the product sets its own',
+
+  // Staples
+  'staples.ruleInterval': 'Every N days',
+  'staples.ruleWeekdays': 'On days of the week',
+  'staples.ruleSinceBought': 'When last bought N days ago',
+  'staples.everyDay': 'every day',
+  'staples.everyDays': 'every {count} days',
+  'staples.everyWeekdays': 'every {days}',
+  'staples.afterBought': { one: '{count} day after last bought', other: '{count} days after last bought' },
+  'staples.loadFailed': 'Failed to load staples',
+  'staples.updated': 'Staple updated',
+  'staples.created': '{name} is now a staple',
+  'staples.saveFailed': 'Failed to save staple',
+  'staples.updateFailed': 'Failed to update staple',
+  'staples.confirmDelete': 'Stop adding {name} automatically?',
+  'staples.deleteFailed': 'Failed to delete staple',
+  'staples.addedToList': { one: 'Added {count} staple to the list', other: 'Added {count} staples to the list' },
+  'staples.nothingToAdd': 'Nothing new to add',
+  'staples.alreadyOnList': '{count} already on the list',
+  'staples.addFailed': 'Failed to add staples',
+  'staples.add': 'Add Staple',
+  'staples.addDueNow': 'Add Due Now',
+  'staples.hint': 'Staples are put on the list once a day when they are due. Items already on the list are left as they are.',
+  'staples.empty': 'No staples yet.',
+  'staples.emptyHint': 'Add the things you buy all the time, like milk or bread.',
+  'staples.due': 'due',
+  'staples.paused': 'paused',
+  'staples.lastAdded': ' · last added {date}',
+  'staples.lastBought': ' · bought {date}',
+  'staples.pause': 'Pause staple',
+  'staples.resume': 'Resume staple',
+  'staples.edit': 'Edit staple',
+  'staples.delete': 'Delete staple',
+  'staples.editTitle': 'Edit {name}',
+  'staples.product': 'Product',
+  'staples.searchProduct': 'Search a product...',
+  'staples.amount': 'Amount',
+  'staples.addIt': 'Add it',
+  'staples.days': 'Days',
+
+  // Import / export and duplicates
+  'transfer.catalog': 'Product catalog',
+  'transfer.catalogHint': 'Products with their categories and aliases',
+  'transfer.meals': 'Meals',
+  'transfer.mealsHint': 'Meals with their ingredients',
+  'transfer.menu': 'Menu plans',
+  'transfer.menuHint': 'Planned lunches and dinners (import meals first)',
+  'transfer.history': 'Shopping history',
+  'transfer.historyHint': 'Everything bought or not found, by trip',
+  'transfer.created': '{count} added',
+  'transfer.updated': '{count} updated',
+  'transfer.unchanged': '{count} already there',
+  'transfer.skipped': '{count} skipped',
+  'transfer.exportFailed': 'Failed to export',
+  'transfer.imported': '{dataset} imported',
+  'transfer.importFailed': 'Failed to import',
+  'transfer.invalidJson': 'This file is not valid JSON',
+  'transfer.title': 'Import / Export',
+  'transfer.import': 'Import',
+  'duplicates.sameName': 'Same name',
+  'duplicates.alias': 'Name used as an alias',
+  'duplicates.similar': 'Similar spelling',
+  'duplicates.loadFailed': 'Failed to find duplicates',
+  'duplicates.confirmMerge': 'Merge {names} into "{target}"? Their list items, history and meals move to "{target}" and they are deleted.',
+  'duplicates.merged': 'Merged into {name}',
+  'duplicates.mergedDetail': { one: '{count} product merged; its name is now an alias', other: '{count} products merged; their names are now aliases' },
+  'duplicates.mergeFailed': 'Failed to merge',
+  'duplicates.empty': 'No duplicates found.',
+  'duplicates.emptyHint': 'Products that look like the same thing will show up here.',
+  'duplicates.hint': 'Pick the product to keep; the others are merged into it. Untick a product to leave it out.',
+  'duplicates.keepLabel': 'Keep {name}',
+  'duplicates.keep': 'keep',
+  'duplicates.usage': '{category} · used {count}×',
+  'duplicates.mergeLabel': 'Merge {name}',
+  'duplicates.mergeInto': 'Merge {count} into {name}',
+
+  // List items
+  'item.updateFailed': 'Failed to update',
+  'item.deleteFailed': 'Failed to delete',
+  'item.addedBy': 'added by {name}',
+  'item.aMember': 'a member',
+  'item.decrease': 'Decrease quantity',
+  'item.increase': 'Increase quantity',
+  'item.delete': 'Delete item',
+  'category.itemCount': { one: '{count} item', other: '{count} items' },
+  'category.selected': ' • {count} selected',
+
+  // List helpers
+  'didYouMean.title': 'Did you mean?',
+  'didYouMean.description': 'These items look like products you already have. Pick the right one.',
+  'didYouMean.addedTerm': 'Added "{term}"',
+  'didYouMean.somethingElse': 'Something else',
+  'didYouMean.skip': 'Skip',
+  'repurchase.title': 'You probably need',
+  'repurchase.why': 'Usually every {interval} days, last bought {since} days ago',
+  'repurchase.dismiss': 'Don\'t suggest {name}',
+  'runningLow.title': 'Running Low ({count})',
+  'runningLow.out': 'out',
+  'runningLow.left': '{amount} left',
+  'runningLow.onList': 'on list',
+  'runningLow.add': 'Add {name} to the list',
+  'useSoon.title': 'Use Soon ({count})',
+  'useSoon.meals': 'Meals that use them',
+  'undo.add': 'adding {items}',
+  'undo.menu': 'adding {items} from the menu',
+  'undo.staples': 'adding staples {items}',
+  'undo.edit': 'editing {items}',
+  'undo.status': 'marking {items}',
+  'undo.delete': 'deleting {items}',
+  'undo.clearFound': 'clearing {items}',
+  'undo.resetSelection': 'resetting {items}',
+  'undo.complete': 'completing the trip with {items}',
+  'undo.items': { one: '{count} item', other: '{count} items' },
+  'undo.andMore': '{first} and {count} more',
+  'undo.undid': 'Undid {action}',
+  'undo.redid': 'Redid {action}',
+  'undo.undoFailed': 'Failed to undo',
+  'undo.redoFailed': 'Failed to redo',
+  'undo.undo': 'Undo {action}',
+  'undo.redo': 'Redo {action}',
+  'undo.undoLabel': 'Undo last change',
+  'undo.redoLabel': 'Redo last undone change',
+
+  // Pantry
+  'pantry.loadFailed': 'Failed to load pantry',
+  'pantry.added': '{name} added to the pantry',
+  'pantry.addFailed': 'Failed to add to pantry',
+  'pantry.updateFailed': 'Failed to update pantry',
+  'pantry.confirmDelete': 'Stop tracking {name}?',
+  'pantry.deleteFailed': 'Failed to delete pantry item',
+  'pantry.subtitle': 'What you have at home. Items found while shopping are added when the trip is completed.',
+  'pantry.runningLow': '{count} running low',
+  'pantry.useSoon': '{count} to use soon',
+  'pantry.addTitle': 'Add to pantry',
+  'pantry.searchProduct': 'Search a product...',
+  'pantry.bestBefore': 'Best before',
+  'pantry.bestBeforeHint': 'Best before (empty: the product\'s shelf life)',
+  'pantry.bestBeforeDate': 'Best before {date}',
+  'pantry.empty': 'Nothing in the pantry yet.',
+  'pantry.emptyHint': 'Complete a shopping trip or add what you have at home.',
+  'pantry.low': 'low',
+  'pantry.used': 'Used',
+  'pantry.thrownAway': 'Thrown away',
+  'pantry.settings': 'Correct amount, low level or best-before date',
+  'pantry.stopTracking': 'Stop tracking',
+  'pantry.amount': 'Amount',
+  'pantry.have': 'Have',
+  'pantry.amountInStock': 'Amount in stock',
+  'pantry.lowAt': 'Low at',
+  'pantry.lowLevel': 'Running low level',
+
+  // History
+  'history.loadFailed': 'Failed to load history',
+  'history.loadSessionFailed': 'Failed to load session',
+  'history.restored': 'Item restored',
+  'history.restoredHint': 'Item has been added back to your list',
+  'history.restoreFailed': 'Failed to restore',
+  'history.empty': 'No history yet',
+  'history.emptyHint': 'Complete a shopping session to see your history here.',
+  'history.sessionCount': { one: '{count} shopping session', other: '{count} shopping sessions' },
+  'history.all': 'All',
+  'history.restore': 'Restore',
+  'history.recentlyFound': 'Recently Found',
+  'history.recentlyNotFound': 'Recently Not Found',
+
+  // Household
+  'common.error': 'An error occurred',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied',
+  'role.owner': 'Owner',
+  'role.editor': 'Editor',
+  'role.shopper': 'Shopper',
+  'role.ownerHint': 'Full access, manages members and invites',
+  'role.editorHint': 'Edits the list, products, meals and menu',
+  'role.shopperHint': 'Views the list and ticks items off while shopping',
+  'household.inviteCreated': 'Invite link generated',
+  'household.inviteRole': 'New members will join as {role}',
+  'household.inviteFailed': 'Failed to generate invite',
+  'household.copiedTitle': 'Copied!',
+  'household.copiedHint': 'Invite link copied to clipboard',
+  'household.copyFailed': 'Failed to copy',
+  'household.copyManually': 'Please select and copy the link manually',
+  'household.roleFailed': 'Failed to change role',
+  'household.confirmRemove': 'Remove {name} from {household}?',
+  'household.removeFailed': 'Failed to remove member',
+  'household.confirmLeave': 'Leave {household}?',
+  'household.leaveFailed': 'Failed to leave household',
+  'household.languageUpdated': 'Language updated',
+  'household.languageFailed': 'Failed to update language',
+  'household.yourRole': 'You are {role} of this household',
+  'household.you': '(you)',
+  'household.leave': 'Leave Household',
+  'household.productNames': 'Product Names',
+  'household.productNamesHint': 'The language you read products and categories in; the list is shared as usual',
+  'household.asEntered': 'As entered',
+  'household.invite': 'Invite Someone',
+  'household.inviteHint': 'Generate a join link for this household',
+  'household.role': 'Role',
+  'household.generateLink': 'Generate Invite Link',
+  'household.inviteLink': 'Invite Link',
+  'household.expires': 'Expires: {date}',
+  'household.linkOnce': 'The link works once and expires in 7 days.',
+
+  // Stores
+  'stores.loadFailed': 'Failed to load stores',
+  'stores.loadOneFailed': 'Failed to load store',
+  'stores.createFailed': 'Failed to create store',
+  'stores.confirmDelete': 'Delete {name}? Past shopping trips keep its name.',
+  'stores.deleteFailed': 'Failed to delete store',
+  'stores.saved': 'Store saved',
+  'stores.saveFailed': 'Failed to save store',
+  'stores.title': 'Stores',
+  'stores.subtitle': 'Shopping mode follows the aisle order of the store you pick',
+  'stores.empty': 'No stores yet.',
+  'stores.newName': 'New store name',
+  'stores.aisleOrder': 'Aisle order',
+  'stores.aisleOrderHint': 'Put categories in the order you walk past them',
+  'stores.aisle': 'Aisle',
+  'stores.moveUp': 'Move up',
+  'stores.moveDown': 'Move down',
+  'stores.misplaced': 'Misplaced products',
+  'stores.misplacedHint': 'Products this store keeps somewhere other than their category',
+  'stores.withOwnCategory': 'With its category',
+  'stores.withCategory': 'With {category}',
+  'stores.remove': 'Remove',
+  'stores.searchProduct': 'Search a product to place...',
+  'stores.saveLayout': 'Save Layout',
+
+  // Insights
+  'insights.preset30d': '30 days',
+  'insights.preset90d': '3 months',
+  'insights.preset1y': '12 months',
+  'insights.presetAll': 'All time',
+  'insights.loadFailed': 'Failed to load insights',
+  'insights.subtitle': 'What the household buys, how often, and what\'s usually missing',
+  'insights.from': 'From',
+  'insights.to': 'To',
+  'insights.toSeparator': 'to',
+  'insights.trips': 'trips',
+  'insights.itemsBought': 'items bought',
+  'insights.spent': 'spent',
+  'insights.empty': 'No shopping trips in this period.',
+  'insights.mostBought': 'Most bought',
+  'insights.everyDays': { one: 'Every day', other: 'Every {count} days' },
+  'insights.missingShare': 'missing {percent} of the time',
+  'insights.oftenMissing': 'Often out of stock',
+  'insights.categories': 'Categories',
+  'insights.categoriesHint': 'Items listed per category; red is the part that wasn\'t found',
+  'insights.missingPercent': '{percent} missing',
+  'insights.tripsPerWeek': 'Trips per week',
+  'insights.weekTrips': { one: '{week}: {count} trip', other: '{week}: {count} trips' },
+  'insights.categoryMix': 'Category mix',
+  'insights.weekly': 'Weekly',
+  'insights.monthly': 'Monthly',
+
+  // Activity
+  'activity.add': 'added',
+  'activity.menu': 'added from the menu',
+  'activity.edit': 'edited',
+  'activity.status': 'marked',
+  'activity.delete': 'removed',
+  'activity.deleteBatch': 'removed a batch:',
+  'activity.clearFound': 'cleared found items:',
+  'activity.resetSelection': 'unselected',
+  'activity.complete': 'completed the trip with',
+  'activity.statusPending': 'to get',
+  'activity.statusSelected': 'selected',
+  'activity.statusFound': 'found',
+  'activity.statusNotFound': 'not found',
+  'activity.loadFailed': 'Failed to load activity',
+  'activity.staples': 'Staples',
+  'activity.someone': 'Someone',
+  'activity.you': 'You',
+  'activity.member': 'A member',
+  'activity.subtitle': 'Who changed what on the list',
+  'activity.empty': 'Nothing has happened on the list yet.',
+  'activity.undone': 'undone',
+  'activity.loadOlder': 'Load older activity',
+
+  // AI review
+  'aiReview.kindProduct': 'New product',
+  'aiReview.kindAlias': 'New alias',
+  'aiReview.kindCategory': 'New category',
+  'aiReview.kindCategoryChange': 'Category changed',
+  'aiReview.pending': 'To review',
+  'aiReview.approved': 'Approved',
+  'aiReview.rejected': 'Rejected',
+  'aiReview.rejectProduct': 'The product is merged into another product, or deleted if no household uses it yet.',
+  'aiReview.rejectAlias': 'The alias is removed from the product.',
+  'aiReview.rejectCategory': 'Its products go back to their previous category (or to "Autre") and the category is deleted.',
+  'aiReview.rejectCategoryChange': 'The product goes back to its previous category.',
+  'aiReview.productIn': '{product} in {category}',
+  'aiReview.noCategory': 'no category',
+  'aiReview.loadFailed': 'Failed to load AI changes',
+  'aiReview.reviewFailed': 'Failed to review change',
+  'aiReview.approvedToast': 'Change approved',
+  'aiReview.correctedToast': 'Change corrected and approved',
+  'aiReview.confirmReject': 'Reject this change? {hint}',
+  'aiReview.rolledBack': 'Change rolled back',
+  'aiReview.productMerged': 'Product merged',
+  'aiReview.productDeleted': 'Product deleted',
+  'aiReview.title': 'AI Review',
+  'aiReview.subtitle': 'Products, aliases and categories learned from AI answers',
+  'aiReview.emptyPending': 'Nothing to review.',
+  'aiReview.emptyApproved': 'No approved changes yet.',
+  'aiReview.emptyRejected': 'No rejected changes yet.',
+  'aiReview.from': 'From “{input}”',
+  'aiReview.typedBy': 'typed by {name}',
+  'aiReview.aiAnswered': 'AI answered {product} ({category})',
+  'aiReview.reviewedBy': 'by {name}',
+  'aiReview.reviewedOn': 'on {date}',
+  'aiReview.approve': 'Approve',
+  'aiReview.correctAndApprove': 'Correct and approve',
+  'aiReview.reject': 'Reject',
+  'aiReview.correctTitle': 'Correct {kind}',
+  'aiReview.icon': 'Icon',
+  'aiReview.aliasOf': 'Alias of {name}',
+  'aiReview.saveApprove': 'Save & Approve',
+  'aiReview.rejectTitle': 'Reject {name}',
+  'aiReview.mergeInto': 'Merge into',
+  'aiReview.deleteInstead': 'Nothing: delete the product',
+  'aiReview.mergeHint': 'Merging keeps its list items, history and meals under the chosen product, with its name as an alias. Deleting also removes it from the lists.',
+  'aiReview.merge': 'Merge',
+
+  // Sign-in, invites and password resets
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.backToLogin': 'Back to Login',
+  'auth.passwordTooShort': 'Password too short',
+  'auth.passwordMinLength': 'Password must be at least 6 characters.',
+  'login.welcomeToast': 'Welcome back!',
+  'login.success': 'You have been logged in successfully.',
+  'login.failed': 'Login failed',
+  'login.invalidCredentials': 'Invalid credentials',
+  'login.title': 'Welcome Back',
+  'login.subtitle': 'Sign in to your grocery list',
+  'login.signIn': 'Sign In',
+  'login.noAccount': 'Don\'t have an account?',
+  'login.createOne': 'Create one',
+  'register.title': 'Registration Closed',
+  'register.subtitle': 'New accounts are not available at this time',
+  'register.disabled': 'Registration is currently disabled. If you already have an account, please sign in below.',
+  'register.goToLogin': 'Go to Login',
+  'reset.noToken': 'No reset token provided. Please use the link from your password reset email.',
+  'reset.invalidToken': 'Invalid reset token format.',
+  'reset.mismatch': 'Passwords do not match',
+  'reset.mismatchHint': 'Please make sure both passwords are the same.',
+  'reset.success': 'Password reset successful',
+  'reset.successHint': 'You can now log in with your new password.',
+  'reset.failed': 'Reset failed',
+  'reset.failedHint': 'Failed to reset password',
+  'reset.title': 'Reset Password',
+  'reset.done': 'Your password has been reset',
+  'reset.enterNew': 'Enter your new password',
+  'reset.redirecting': 'Redirecting to login...',
+  'reset.goToLoginNow': 'Go to Login Now',
+  'reset.newPassword': 'New Password',
+  'reset.newPasswordPlaceholder': 'Enter new password',
+  'reset.confirmPassword': 'Confirm Password',
+  'reset.confirmPlaceholder': 'Confirm new password',
+  'reset.remember': 'Remember your password?',
+  'reset.signIn': 'Sign in',
+  'join.noToken': 'No invite token provided. Please use the link you were sent.',
+  'join.invalidLink': 'Invalid invite link.',
+  'join.invalidOrExpired': 'Invalid or expired invite',
+  'join.welcome': 'Welcome to {household}!',
+  'join.joined': 'You have joined the household.',
+  'join.failed': 'Could not join',
+  'join.failedHint': 'Failed to join household',
+  'join.title': 'Join {household}',
+  'join.joinHousehold': 'Join Household',
+  'join.invitedBy': '{name} invited you as {role}',
+  'join.invited': 'You are invited as {role}',
+  'join.checking': 'Checking your invite...',
+  'join.yourName': 'Your name',
+  'join.choosePassword': 'Choose a Password',
+  'join.yourPassword': 'Your password',
+  'join.atLeast6': 'At least 6 characters',
+  'join.newHere': 'New here?',
+  'join.haveAccount': 'Already have an account?',
+  'join.createAccount': 'Create an account',
+  'join.useIt': 'Use it instead',
+  'adminReset.generated': 'Reset link generated',
+  'adminReset.generatedFor': 'Reset link created for {email}',
+  'adminReset.failed': 'Failed to generate reset link',
+  'adminReset.copiedHint': 'Reset link copied to clipboard',
+  'adminReset.title': 'Password Reset',
+  'adminReset.subtitle': 'Generate a password reset link for a user',
+  'adminReset.userEmail': 'User Email',
+  'adminReset.generate': 'Generate Reset Link',
+  'adminReset.link': 'Reset Link',
+  'adminReset.share': 'Share this link with the user. They can use it to set a new password. The link expires in 1 hour.',
+
+  // Recipe import
+  'recipe.importFailed': 'Failed to import recipe',
+  'recipe.title': 'Import Recipe',
+  'recipe.label': 'Recipe',
+  'recipe.hint': 'Paste the recipe text, or the source of a recipe page (its ingredient list is read from the page). You review the ingredients before the meal is created.',
+  'recipe.reading': 'Reading...',
+  'recipe.import': 'Import',
+  'grocery.fetchFailed': 'Failed to fetch items',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,692 @@
+import type { Message, MessageKey } from './en';
+
+const fr: Record<MessageKey, Message> = {
+  // Layout
+  'app.title': 'Liste de courses',
+  'layout.welcome': 'Bonjour, {name}',
+  'layout.language': 'Langue',
+  'nav.list': 'Liste',
+  'nav.shop': 'Courses',
+  'nav.menu': 'Menu',
+  'nav.meals': 'Repas',
+  'nav.products': 'Produits',
+  'nav.household': 'Foyer',
+  'nav.pantry': 'Garde-manger',
+  'nav.activity': 'Activité',
+  'nav.history': 'Historique',
+  'nav.insights': 'Statistiques',
+  'nav.logout': 'Déconnexion',
+  'stats.title': 'Statistiques du service IA',
+  'stats.providerGemini': 'Gemini',
+  'stats.providerOpenai': 'Compatible OpenAI',
+  'stats.providerRules': 'Par règles',
+  'stats.connected': 'Connecté',
+  'stats.notInitialized': 'Non initialisé',
+  'stats.usingFallback': 'Le fournisseur d\'IA configuré est indisponible - l\'analyse par règles est utilisée.',
+  'stats.lastMinute': 'Dernière minute',
+  'stats.lastHour': 'Dernière heure',
+  'stats.tokens': '{count} jetons',
+  'stats.successful': 'Réussies',
+  'stats.failed': 'Échouées',
+  'stats.inLastHour': 'dernière heure',
+  'stats.rateLimits': 'Limites de débit (offre gratuite)',
+  'stats.requestsPerMinute': 'Requêtes/min',
+  'stats.tokensPerMinute': 'Jetons/min',
+  'stats.totalRequests': 'Requêtes au total :',
+  'stats.totalTokens': 'Jetons au total :',
+  'stats.refresh': 'Actualiser',
+  'stats.loadFailed': 'Impossible de charger les statistiques',
+
+  // Common
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.saving': 'Enregistrement...',
+  'common.delete': 'Supprimer',
+  'common.edit': 'Modifier',
+  'common.add': 'Ajouter',
+  'common.adding': 'Ajout...',
+  'common.create': 'Créer',
+  'common.creating': 'Création...',
+  'common.clear': 'Vider',
+  'common.close': 'Fermer',
+  'common.back': 'Retour',
+  'common.loading': 'Chargement...',
+  'common.search': 'Rechercher...',
+  'common.name': 'Nom',
+  'common.category': 'Catégorie',
+  'common.quantity': 'Quantité',
+  'common.unit': 'Unité',
+  'common.notes': 'Notes',
+  'common.optional': 'facultatif',
+  'common.somethingWrong': 'Une erreur est survenue',
+  'common.none': 'Aucun',
+  'common.today': 'Aujourd\'hui',
+  'common.yesterday': 'Hier',
+  'common.tomorrow': 'Demain',
+
+  // Dashboard
+  'dashboard.title': 'Votre liste',
+  'dashboard.noItems': 'Aucun article pour l\'instant',
+  'dashboard.itemsToGet': { one: '{count} article à acheter', other: '{count} articles à acheter' },
+  'dashboard.aiAdd': 'Ajout IA',
+  'dashboard.quickAdd': 'Ajout rapide...',
+  'dashboard.addWithAi': 'Ajouter « {text} » avec l\'IA',
+  'dashboard.added': '{name} ajouté',
+  'dashboard.addFailed': 'Impossible d\'ajouter l\'article',
+  'dashboard.itemAdded': 'Article ajouté !',
+  'dashboard.parsedByAi': 'Analysé par l\'IA',
+  'dashboard.fromDatabase': 'Ajouté depuis le catalogue',
+  'dashboard.itemsAdded': 'Articles ajoutés !',
+  'dashboard.itemsAddedDetail': '{total} articles ajoutés ({cached} depuis le catalogue, {ai} analysés par l\'IA)',
+  'dashboard.addItemsFailed': 'Impossible d\'ajouter les articles',
+  'dashboard.cleared': 'Vidé',
+  'dashboard.foundRemoved': 'Les articles trouvés ont été retirés',
+  'dashboard.clearFailed': 'Impossible de vider',
+  'dashboard.emptyTitle': 'Votre liste est vide',
+  'dashboard.emptyHint': 'Ajoutez des articles en les écrivant naturellement. Notre IA les comprendra et les classera pour vous.',
+  'dashboard.addFirst': 'Ajouter vos premiers articles',
+  'dashboard.foundItems': 'Articles trouvés ({count})',
+  'dashboard.addItems': 'Ajouter des articles',
+  'dashboard.addItemsHint': 'Écrivez vos articles naturellement. Notre IA les analysera et les classera.',
+  'dashboard.itemsLabel': 'Articles (un par ligne)',
+  'dashboard.itemsPlaceholder': '2 pommes\nPain complet\nLait\nFromage râpé',
+  'dashboard.tip': 'Astuce : vous pouvez indiquer des quantités comme « 2 pommes » ou « pain x3 »',
+  'dashboard.parsing': 'Analyse...',
+  'dashboard.parseAndAdd': 'Analyser et ajouter',
+
+  // Units and dates
+  'unit.piece': 'pcs',
+  'unit.g': 'g',
+  'unit.kg': 'kg',
+  'unit.ml': 'ml',
+  'unit.l': 'L',
+  'unit.pack': 'paquet',
+  'unit.dozen': 'douzaine',
+  'unit.packs': { one: '{count} paquet', other: '{count} paquets' },
+  'daysLeft.expiredYesterday': 'périmé depuis hier',
+  'daysLeft.expiredAgo': { one: 'périmé depuis {count} jour', other: 'périmé depuis {count} jours' },
+  'daysLeft.today': 'à consommer aujourd\'hui',
+  'daysLeft.tomorrow': 'à consommer d\'ici demain',
+  'daysLeft.within': { one: 'à consommer sous {count} jour', other: 'à consommer sous {count} jours' },
+
+  // Shopping
+  'shopping.loadStoreFailed': 'Impossible de charger le magasin',
+  'shopping.restored': 'Remis sur la liste',
+  'shopping.restoredDetail': '{name} est de retour sur la liste',
+  'shopping.restoreFailed': 'Impossible de remettre l\'article',
+  'shopping.complete': 'Courses terminées !',
+  'shopping.completeDetail': '{found} articles trouvés, {notFound} introuvables',
+  'shopping.spent': ' · dépensé {amount}',
+  'shopping.completeFailed': 'Impossible de terminer',
+  'shopping.readyTitle': 'Prêt pour les courses ?',
+  'shopping.readyHint': 'Ajoutez d\'abord des articles à votre liste, puis revenez ici pour le mode courses.',
+  'shopping.title': 'Mode courses',
+  'shopping.swipeHint': 'Glissez à droite si trouvé, à gauche si introuvable',
+  'shopping.noStore': 'Aucun magasin (par catégorie)',
+  'shopping.manageStores': 'Gérer les magasins',
+  'shopping.setUpStore': 'Configurer un magasin',
+  'shopping.pendingChanges': { one: '{count} modification en attente de connexion', other: '{count} modifications en attente de connexion' },
+  'shopping.foundCount': '{count} trouvés',
+  'shopping.remaining': '{count} restants',
+  'shopping.basket': 'Panier : {amount}',
+  'shopping.notFound': 'Introuvable',
+  'shopping.found': 'Trouvé',
+  'shopping.notFoundSection': 'Introuvables ({count})',
+  'shopping.foundSection': 'Trouvés ({count})',
+  'shopping.restoreToList': 'Remettre sur la liste',
+  'shopping.completing': 'Finalisation...',
+  'shopping.completeShopping': 'Terminer les courses',
+  'shopping.enterDetails': 'Saisir le prix ou la date de péremption',
+  'shopping.price': 'Prix',
+  'shopping.perItem': 'article',
+  'shopping.bestBefore': 'À consommer avant',
+
+  // Menu planner
+  'menu.lineAdd': 'ajouter {amounts}',
+  'menu.lineCovered': 'couvert',
+  'menu.loadFailed': 'Impossible de charger le menu',
+  'menu.addMealFailed': 'Impossible d\'ajouter le repas',
+  'menu.removeMealFailed': 'Impossible de retirer le repas',
+  'menu.diffFailed': 'Impossible de comparer avec la liste de courses',
+  'menu.listUpdated': 'Liste de courses mise à jour',
+  'menu.listUpdatedDetail': '{added} ajoutés, {increased} augmentés',
+  'menu.addProductsFailed': 'Impossible d\'ajouter les produits',
+  'common.otherCategory': 'Autre',
+  'menu.title': 'Planificateur de menus',
+  'menu.subtitle': 'Planifiez vos repas et ajoutez les ingrédients à votre liste de courses',
+  'menu.previousWeek': 'Semaine précédente',
+  'menu.nextWeek': 'Semaine suivante',
+  'menu.lunch': 'Déjeuner',
+  'menu.dinner': 'Dîner',
+  'menu.servingsCount': { one: '{count} portion', other: '{count} portions' },
+  'menu.productsNeeded': 'Produits nécessaires ({count})',
+  'menu.actionCounts': '{add} à ajouter · {increase} à augmenter · {covered} déjà couverts',
+  'menu.selectNeeded': 'Sélectionner le nécessaire',
+  'menu.needs': 'besoin : {amounts}',
+  'menu.inStock': '{amounts} en stock',
+  'menu.updating': 'Mise à jour...',
+  'menu.apply': 'Appliquer {count} à la liste de courses',
+  'menu.addLunch': 'Ajouter un déjeuner - {day}',
+  'menu.addDinner': 'Ajouter un dîner - {day}',
+  'menu.servings': 'Portions',
+  'menu.mealDefault': 'Par défaut du repas',
+  'menu.mealSummary': '{count} produits · pour {servings}',
+  'menu.usesUp': 'Utilise {names}',
+  'menu.noMeals': 'Aucun repas créé pour l\'instant.',
+  'menu.noMealsHint': 'Allez dans l\'onglet Repas pour en créer !',
+
+  // Meals
+  'meals.loadFailed': 'Impossible de charger les repas',
+  'meals.productCreated': 'Produit « {name} » créé',
+  'meals.loadMealFailed': 'Impossible de charger le repas',
+  'meals.confirmDelete': 'Supprimer « {name} » ? Cette action est irréversible.',
+  'meals.deleted': 'Repas supprimé',
+  'meals.deleteFailed': 'Impossible de supprimer le repas',
+  'meals.updated': 'Repas mis à jour',
+  'meals.created': 'Repas créé',
+  'meals.updateFailed': 'Impossible de mettre à jour le repas',
+  'meals.createFailed': 'Impossible de créer le repas',
+  'meals.title': 'Repas',
+  'meals.subtitle': 'Créez et gérez vos repas et leurs ingrédients',
+  'meals.addMeal': 'Ajouter un repas',
+  'meals.importRecipe': 'Importer une recette',
+  'meals.productCount': { one: '{count} produit', other: '{count} produits' },
+  'meals.edit': 'Modifier le repas',
+  'meals.delete': 'Supprimer le repas',
+  'meals.empty': 'Aucun repas pour l\'instant. Ajoutez-en un pour commencer.',
+  'mealDialog.editTitle': 'Modifier le repas',
+  'mealDialog.reviewTitle': 'Vérifier le repas importé',
+  'mealDialog.namePlaceholder': 'ex. : Pâtes carbonara',
+  'mealDialog.servings': 'Portions',
+  'mealDialog.ingredientsFor': 'Ingrédients pour {servings} ({count})',
+  'mealDialog.toTaste': 'selon le goût',
+  'mealDialog.quantityOf': 'Quantité de {name}',
+  'mealDialog.unitOf': 'Unité de {name}',
+  'mealDialog.remove': 'Retirer {name}',
+  'mealDialog.toMatch': 'À associer ({count})',
+  'mealDialog.searchFor': 'Chercher un produit pour {line}',
+  'mealDialog.skip': 'Ignorer {line}',
+  'mealDialog.productFor': 'Produit pour « {line} »',
+  'mealDialog.addProducts': 'Ajouter des produits',
+  'mealDialog.newProduct': 'Nouveau produit',
+  'mealDialog.searchProducts': 'Rechercher des produits...',
+  'mealDialog.noProducts': 'Aucun produit trouvé',
+  'mealDialog.createNamed': 'Créer « {name} »',
+  'mealDialog.saveChanges': 'Enregistrer',
+  'mealDialog.createMeal': 'Créer le repas',
+
+  // Product dialogs
+  'productDialog.editTitle': 'Modifier le produit',
+  'productDialog.addTitle': 'Ajouter un produit',
+  'productDialog.loadCategoriesFailed': 'Impossible de charger les catégories',
+  'productDialog.loadFailed': 'Impossible de charger le produit',
+  'productDialog.updated': 'Produit mis à jour',
+  'productDialog.created': 'Produit créé',
+  'productDialog.updateFailed': 'Impossible de mettre à jour',
+  'productDialog.createFailed': 'Impossible de créer',
+  'productDialog.aliasExists': 'Cet alias existe déjà',
+  'productDialog.aliasAdded': 'Alias ajouté',
+  'productDialog.aliasAddFailed': 'Impossible d\'ajouter l\'alias',
+  'productDialog.aliasRemoved': 'Alias supprimé',
+  'productDialog.aliasRemoveFailed': 'Impossible de supprimer l\'alias',
+  'productDialog.spellingCorrected': 'Orthographe corrigée',
+  'productDialog.spellingChange': '« {from} » → « {to} »',
+  'productDialog.addedAsAlias': '« {name} » ajouté comme alias',
+  'productDialog.noSpellingChanges': 'Aucune correction nécessaire',
+  'productDialog.fixSpellingFailed': 'Impossible de corriger l\'orthographe',
+  'productDialog.namePlaceholder': 'ex. : Lait',
+  'productDialog.fixSpelling': 'Corriger l\'orthographe avec l\'IA',
+  'productDialog.translations': 'Traductions',
+  'productDialog.selectCategory': 'Choisir une catégorie...',
+  'productDialog.keepsFor': 'Se conserve',
+  'productDialog.aliases': 'Alias (variantes d\'orthographe)',
+  'productDialog.addAlias': 'Ajouter un alias...',
+  'productDialog.saveChanges': 'Enregistrer',
+  'productDialog.createProduct': 'Créer le produit',
+  'shelfLife.days': 'jours',
+  'shelfLife.default': 'par défaut',
+  'shelfLife.category': 'catégorie',
+  'priceHistory.title': 'Historique des prix',
+  'priceHistory.noStore': 'Sans magasin',
+  'priceHistory.empty': 'Aucun prix pour l\'instant. Touchez l\'étiquette d\'un article en mode courses pour noter le prix payé.',
+  'priceHistory.lowest': 'minimum {price} · {count} courses',
+
+  // Products
+  'products.loadFailed': 'Impossible de charger les données',
+  'products.searchFailed': 'La recherche a échoué',
+  'products.confirmDelete': 'Supprimer ce produit ? Il sera aussi retiré de toutes les listes de courses.',
+  'products.deleted': 'Produit supprimé',
+  'products.deleteFailed': 'Impossible de supprimer',
+  'products.categoryCreated': 'Catégorie créée',
+  'products.categoryCreateFailed': 'Impossible de créer la catégorie',
+  'products.categoryUpdated': 'Catégorie mise à jour',
+  'products.cannotDelete': 'Suppression impossible',
+  'products.categoryHasProducts': { one: 'Cette catégorie contient {count} produit. Déplacez-le d\'abord.', other: 'Cette catégorie contient {count} produits. Déplacez-les d\'abord.' },
+  'products.confirmDeleteCategory': 'Supprimer la catégorie « {name} » ?',
+  'products.categoryDeleted': 'Catégorie supprimée',
+  'products.title': 'Gestion des produits',
+  'products.subtitle': 'Gérez les produits, catégories, essentiels et doublons',
+  'products.reviewAi': 'Vérifier l\'IA ({count})',
+  'products.tabProducts': 'Produits ({count})',
+  'products.tabCategories': 'Catégories ({count})',
+  'products.tabStaples': 'Essentiels',
+  'products.tabDuplicates': 'Doublons',
+  'products.searchButton': 'Rechercher',
+  'products.editProduct': 'Modifier le produit',
+  'products.deleteProduct': 'Supprimer le produit',
+  'products.addCategory': 'Ajouter une catégorie',
+  'products.keepsDays': { one: ' · se conserve {count} jour', other: ' · se conserve {count} jours' },
+  'products.editCategory': 'Modifier la catégorie',
+  'products.deleteCategory': 'Supprimer la catégorie',
+  'products.noCategories': 'Aucune catégorie pour l\'instant. Ajoutez-en une pour commencer.',
+  'products.categoryPlaceholder': 'ex. : Fruits et légumes',
+  'products.icon': 'Icône (emoji)',
+  'products.sortOrder': 'Ordre',
+  'products.sortOrderHint': 'Plus l\'ordre est bas, plus la catégorie apparaît tôt dans la liste',
+  'products.editCategoryTitle': 'Modifier la catégorie',
+  'products.productsKeepFor': 'Les produits se conservent',
+  'products.shelfLifeHint': 'Sert aux dates de péremption, sauf si le produit a la sienne',
+
+  // Staples
+  'staples.ruleInterval': 'Tous les N jours',
+  'staples.ruleWeekdays': 'Certains jours de la semaine',
+  'staples.ruleSinceBought': 'N jours après le dernier achat',
+  'staples.everyDay': 'tous les jours',
+  'staples.everyDays': 'tous les {count} jours',
+  'staples.everyWeekdays': 'chaque {days}',
+  'staples.afterBought': { one: '{count} jour après le dernier achat', other: '{count} jours après le dernier achat' },
+  'staples.loadFailed': 'Impossible de charger les essentiels',
+  'staples.updated': 'Essentiel mis à jour',
+  'staples.created': '{name} est maintenant un essentiel',
+  'staples.saveFailed': 'Impossible d\'enregistrer l\'essentiel',
+  'staples.updateFailed': 'Impossible de mettre à jour l\'essentiel',
+  'staples.confirmDelete': 'Arrêter d\'ajouter {name} automatiquement ?',
+  'staples.deleteFailed': 'Impossible de supprimer l\'essentiel',
+  'staples.addedToList': { one: '{count} essentiel ajouté à la liste', other: '{count} essentiels ajoutés à la liste' },
+  'staples.nothingToAdd': 'Rien de nouveau à ajouter',
+  'staples.alreadyOnList': '{count} déjà sur la liste',
+  'staples.addFailed': 'Impossible d\'ajouter les essentiels',
+  'staples.add': 'Ajouter un essentiel',
+  'staples.addDueNow': 'Ajouter maintenant',
+  'staples.hint': 'Les essentiels sont ajoutés à la liste une fois par jour quand ils sont dus. Les articles déjà sur la liste ne sont pas modifiés.',
+  'staples.empty': 'Aucun essentiel pour l\'instant.',
+  'staples.emptyHint': 'Ajoutez ce que vous achetez tout le temps, comme le lait ou le pain.',
+  'staples.due': 'dû',
+  'staples.paused': 'en pause',
+  'staples.lastAdded': ' · ajouté le {date}',
+  'staples.lastBought': ' · acheté le {date}',
+  'staples.pause': 'Mettre en pause',
+  'staples.resume': 'Reprendre',
+  'staples.edit': 'Modifier l\'essentiel',
+  'staples.delete': 'Supprimer l\'essentiel',
+  'staples.editTitle': 'Modifier {name}',
+  'staples.product': 'Produit',
+  'staples.searchProduct': 'Chercher un produit...',
+  'staples.amount': 'Quantité',
+  'staples.addIt': 'L\'ajouter',
+  'staples.days': 'Jours',
+
+  // Import / export and duplicates
+  'transfer.catalog': 'Catalogue de produits',
+  'transfer.catalogHint': 'Produits avec leurs catégories et alias',
+  'transfer.meals': 'Repas',
+  'transfer.mealsHint': 'Repas avec leurs ingrédients',
+  'transfer.menu': 'Menus',
+  'transfer.menuHint': 'Déjeuners et dîners planifiés (importez d\'abord les repas)',
+  'transfer.history': 'Historique des courses',
+  'transfer.historyHint': 'Tout ce qui a été acheté ou introuvable, par course',
+  'transfer.created': '{count} ajoutés',
+  'transfer.updated': '{count} mis à jour',
+  'transfer.unchanged': '{count} déjà présents',
+  'transfer.skipped': '{count} ignorés',
+  'transfer.exportFailed': 'Impossible d\'exporter',
+  'transfer.imported': '{dataset} importé',
+  'transfer.importFailed': 'Impossible d\'importer',
+  'transfer.invalidJson': 'Ce fichier n\'est pas un JSON valide',
+  'transfer.title': 'Import / Export',
+  'transfer.import': 'Importer',
+  'duplicates.sameName': 'Même nom',
+  'duplicates.alias': 'Nom utilisé comme alias',
+  'duplicates.similar': 'Orthographe proche',
+  'duplicates.loadFailed': 'Impossible de chercher les doublons',
+  'duplicates.confirmMerge': 'Fusionner {names} dans « {target} » ? Leurs articles, historique et repas passent à « {target} » et ils sont supprimés.',
+  'duplicates.merged': 'Fusionné dans {name}',
+  'duplicates.mergedDetail': { one: '{count} produit fusionné ; son nom est maintenant un alias', other: '{count} produits fusionnés ; leurs noms sont maintenant des alias' },
+  'duplicates.mergeFailed': 'Impossible de fusionner',
+  'duplicates.empty': 'Aucun doublon trouvé.',
+  'duplicates.emptyHint': 'Les produits qui semblent identiques apparaîtront ici.',
+  'duplicates.hint': 'Choisissez le produit à garder ; les autres y sont fusionnés. Décochez un produit pour l\'exclure.',
+  'duplicates.keepLabel': 'Garder {name}',
+  'duplicates.keep': 'garder',
+  'duplicates.usage': '{category} · utilisé {count}×',
+  'duplicates.mergeLabel': 'Fusionner {name}',
+  'duplicates.mergeInto': 'Fusionner {count} dans {name}',
+
+  // List items
+  'item.updateFailed': 'Impossible de mettre à jour',
+  'item.deleteFailed': 'Impossible de supprimer',
+  'item.addedBy': 'ajouté par {name}',
+  'item.aMember': 'un membre',
+  'item.decrease': 'Diminuer la quantité',
+  'item.increase': 'Augmenter la quantité',
+  'item.delete': 'Supprimer l\'article',
+  'category.itemCount': { one: '{count} article', other: '{count} articles' },
+  'category.selected': ' • {count} sélectionnés',
+
+  // List helpers
+  'didYouMean.title': 'Vouliez-vous dire ?',
+  'didYouMean.description': 'Ces articles ressemblent à des produits existants. Choisissez le bon.',
+  'didYouMean.addedTerm': '« {term} » ajouté',
+  'didYouMean.somethingElse': 'Autre chose',
+  'didYouMean.skip': 'Passer',
+  'repurchase.title': 'Il vous faut sans doute',
+  'repurchase.why': 'En général tous les {interval} jours, dernier achat il y a {since} jours',
+  'repurchase.dismiss': 'Ne plus suggérer {name}',
+  'runningLow.title': 'Bientôt épuisé ({count})',
+  'runningLow.out': 'épuisé',
+  'runningLow.left': 'reste {amount}',
+  'runningLow.onList': 'sur la liste',
+  'runningLow.add': 'Ajouter {name} à la liste',
+  'useSoon.title': 'À consommer bientôt ({count})',
+  'useSoon.meals': 'Repas qui les utilisent',
+  'undo.add': 'ajout de {items}',
+  'undo.menu': 'ajout de {items} depuis le menu',
+  'undo.staples': 'ajout des essentiels {items}',
+  'undo.edit': 'modification de {items}',
+  'undo.status': 'marquage de {items}',
+  'undo.delete': 'suppression de {items}',
+  'undo.clearFound': 'retrait de {items}',
+  'undo.resetSelection': 'réinitialisation de {items}',
+  'undo.complete': 'fin des courses avec {items}',
+  'undo.items': { one: '{count} article', other: '{count} articles' },
+  'undo.andMore': '{first} et {count} autres',
+  'undo.undid': 'Annulé : {action}',
+  'undo.redid': 'Rétabli : {action}',
+  'undo.undoFailed': 'Impossible d\'annuler',
+  'undo.redoFailed': 'Impossible de rétablir',
+  'undo.undo': 'Annuler : {action}',
+  'undo.redo': 'Rétablir : {action}',
+  'undo.undoLabel': 'Annuler la dernière modification',
+  'undo.redoLabel': 'Rétablir la dernière modification annulée',
+
+  // Pantry
+  'pantry.loadFailed': 'Impossible de charger le garde-manger',
+  'pantry.added': '{name} ajouté au garde-manger',
+  'pantry.addFailed': 'Impossible d\'ajouter au garde-manger',
+  'pantry.updateFailed': 'Impossible de mettre à jour le garde-manger',
+  'pantry.confirmDelete': 'Ne plus suivre {name} ?',
+  'pantry.deleteFailed': 'Impossible de supprimer l\'article',
+  'pantry.subtitle': 'Ce que vous avez à la maison. Les articles trouvés en faisant les courses sont ajoutés à la fin des courses.',
+  'pantry.runningLow': { one: '{count} bientôt épuisé', other: '{count} bientôt épuisés' },
+  'pantry.useSoon': '{count} à consommer bientôt',
+  'pantry.addTitle': 'Ajouter au garde-manger',
+  'pantry.searchProduct': 'Rechercher un produit...',
+  'pantry.bestBefore': 'À consommer avant',
+  'pantry.bestBeforeHint': 'À consommer avant (vide : durée de conservation du produit)',
+  'pantry.bestBeforeDate': 'À consommer avant le {date}',
+  'pantry.empty': 'Rien dans le garde-manger pour l\'instant.',
+  'pantry.emptyHint': 'Terminez des courses ou ajoutez ce que vous avez à la maison.',
+  'pantry.low': 'bas',
+  'pantry.used': 'Consommé',
+  'pantry.thrownAway': 'Jeté',
+  'pantry.settings': 'Corriger la quantité, le seuil bas ou la date limite',
+  'pantry.stopTracking': 'Ne plus suivre',
+  'pantry.amount': 'Quantité',
+  'pantry.have': 'En stock',
+  'pantry.amountInStock': 'Quantité en stock',
+  'pantry.lowAt': 'Bas à',
+  'pantry.lowLevel': 'Seuil bas',
+
+  // History
+  'history.loadFailed': 'Impossible de charger l\'historique',
+  'history.loadSessionFailed': 'Impossible de charger les courses',
+  'history.restored': 'Article restauré',
+  'history.restoredHint': 'L\'article a été remis sur votre liste',
+  'history.restoreFailed': 'Impossible de restaurer',
+  'history.empty': 'Pas encore d\'historique',
+  'history.emptyHint': 'Terminez des courses pour voir votre historique ici.',
+  'history.sessionCount': { one: '{count} session de courses', other: '{count} sessions de courses' },
+  'history.all': 'Tout',
+  'history.restore': 'Restaurer',
+  'history.recentlyFound': 'Trouvés récemment',
+  'history.recentlyNotFound': 'Introuvables récemment',
+
+  // Household
+  'common.error': 'Une erreur est survenue',
+  'common.copy': 'Copier',
+  'common.copied': 'Copié',
+  'role.owner': 'Propriétaire',
+  'role.editor': 'Éditeur',
+  'role.shopper': 'Acheteur',
+  'role.ownerHint': 'Accès complet, gère les membres et les invitations',
+  'role.editorHint': 'Modifie la liste, les produits, les repas et le menu',
+  'role.shopperHint': 'Consulte la liste et coche les articles pendant les courses',
+  'household.inviteCreated': 'Lien d\'invitation créé',
+  'household.inviteRole': 'Les nouveaux membres rejoindront en tant que {role}',
+  'household.inviteFailed': 'Impossible de créer l\'invitation',
+  'household.copiedTitle': 'Copié !',
+  'household.copiedHint': 'Lien d\'invitation copié dans le presse-papiers',
+  'household.copyFailed': 'Impossible de copier',
+  'household.copyManually': 'Sélectionnez et copiez le lien manuellement',
+  'household.roleFailed': 'Impossible de changer le rôle',
+  'household.confirmRemove': 'Retirer {name} de {household} ?',
+  'household.removeFailed': 'Impossible de retirer le membre',
+  'household.confirmLeave': 'Quitter {household} ?',
+  'household.leaveFailed': 'Impossible de quitter le foyer',
+  'household.languageUpdated': 'Langue mise à jour',
+  'household.languageFailed': 'Impossible de changer la langue',
+  'household.yourRole': 'Vous êtes {role} de ce foyer',
+  'household.you': '(vous)',
+  'household.leave': 'Quitter le foyer',
+  'household.productNames': 'Noms des produits',
+  'household.productNamesHint': 'La langue dans laquelle vous lisez les produits et catégories ; la liste reste partagée',
+  'household.asEntered': 'Telle que saisie',
+  'household.invite': 'Inviter quelqu\'un',
+  'household.inviteHint': 'Créer un lien pour rejoindre ce foyer',
+  'household.role': 'Rôle',
+  'household.generateLink': 'Créer un lien d\'invitation',
+  'household.inviteLink': 'Lien d\'invitation',
+  'household.expires': 'Expire : {date}',
+  'household.linkOnce': 'Le lien fonctionne une seule fois et expire dans 7 jours.',
+
+  // Stores
+  'stores.loadFailed': 'Impossible de charger les magasins',
+  'stores.loadOneFailed': 'Impossible de charger le magasin',
+  'stores.createFailed': 'Impossible de créer le magasin',
+  'stores.confirmDelete': 'Supprimer {name} ? Les courses passées gardent son nom.',
+  'stores.deleteFailed': 'Impossible de supprimer le magasin',
+  'stores.saved': 'Magasin enregistré',
+  'stores.saveFailed': 'Impossible d\'enregistrer le magasin',
+  'stores.title': 'Magasins',
+  'stores.subtitle': 'Le mode courses suit l\'ordre des rayons du magasin choisi',
+  'stores.empty': 'Aucun magasin pour l\'instant.',
+  'stores.newName': 'Nom du nouveau magasin',
+  'stores.aisleOrder': 'Ordre des rayons',
+  'stores.aisleOrderHint': 'Placez les catégories dans l\'ordre où vous les croisez',
+  'stores.aisle': 'Rayon',
+  'stores.moveUp': 'Monter',
+  'stores.moveDown': 'Descendre',
+  'stores.misplaced': 'Produits déplacés',
+  'stores.misplacedHint': 'Produits que ce magasin range ailleurs que dans leur catégorie',
+  'stores.withOwnCategory': 'Avec sa catégorie',
+  'stores.withCategory': 'Avec {category}',
+  'stores.remove': 'Retirer',
+  'stores.searchProduct': 'Rechercher un produit à placer...',
+  'stores.saveLayout': 'Enregistrer l\'agencement',
+
+  // Insights
+  'insights.preset30d': '30 jours',
+  'insights.preset90d': '3 mois',
+  'insights.preset1y': '12 mois',
+  'insights.presetAll': 'Depuis le début',
+  'insights.loadFailed': 'Impossible de charger les statistiques',
+  'insights.subtitle': 'Ce que le foyer achète, à quelle fréquence, et ce qui manque souvent',
+  'insights.from': 'Du',
+  'insights.to': 'Au',
+  'insights.toSeparator': 'au',
+  'insights.trips': 'courses',
+  'insights.itemsBought': 'articles achetés',
+  'insights.spent': 'dépensés',
+  'insights.empty': 'Aucune course sur cette période.',
+  'insights.mostBought': 'Les plus achetés',
+  'insights.everyDays': { one: 'Tous les jours', other: 'Tous les {count} jours' },
+  'insights.missingShare': 'manquant {percent} du temps',
+  'insights.oftenMissing': 'Souvent en rupture',
+  'insights.categories': 'Catégories',
+  'insights.categoriesHint': 'Articles listés par catégorie ; le rouge est la part introuvable',
+  'insights.missingPercent': '{percent} manquant',
+  'insights.tripsPerWeek': 'Courses par semaine',
+  'insights.weekTrips': { one: '{week} : {count} course', other: '{week} : {count} courses' },
+  'insights.categoryMix': 'Répartition par catégorie',
+  'insights.weekly': 'Par semaine',
+  'insights.monthly': 'Par mois',
+
+  // Activity
+  'activity.add': ': ajout de',
+  'activity.menu': ': ajout depuis le menu de',
+  'activity.edit': ': modification de',
+  'activity.status': ': marquage de',
+  'activity.delete': ': retrait de',
+  'activity.deleteBatch': ': retrait groupé de',
+  'activity.clearFound': ': retrait des articles trouvés',
+  'activity.resetSelection': ': désélection de',
+  'activity.complete': ': fin des courses avec',
+  'activity.statusPending': 'à acheter',
+  'activity.statusSelected': 'sélectionné',
+  'activity.statusFound': 'trouvé',
+  'activity.statusNotFound': 'introuvable',
+  'activity.loadFailed': 'Impossible de charger l\'activité',
+  'activity.staples': 'Essentiels',
+  'activity.someone': 'Quelqu\'un',
+  'activity.you': 'Vous',
+  'activity.member': 'Un membre',
+  'activity.subtitle': 'Qui a modifié quoi sur la liste',
+  'activity.empty': 'Rien ne s\'est encore passé sur la liste.',
+  'activity.undone': 'annulé',
+  'activity.loadOlder': 'Charger l\'activité plus ancienne',
+
+  // AI review
+  'aiReview.kindProduct': 'Nouveau produit',
+  'aiReview.kindAlias': 'Nouvel alias',
+  'aiReview.kindCategory': 'Nouvelle catégorie',
+  'aiReview.kindCategoryChange': 'Catégorie modifiée',
+  'aiReview.pending': 'À vérifier',
+  'aiReview.approved': 'Approuvées',
+  'aiReview.rejected': 'Rejetées',
+  'aiReview.rejectProduct': 'Le produit est fusionné dans un autre produit, ou supprimé si aucun foyer ne l\'utilise encore.',
+  'aiReview.rejectAlias': 'L\'alias est retiré du produit.',
+  'aiReview.rejectCategory': 'Ses produits retournent dans leur catégorie précédente (ou dans « Autre ») et la catégorie est supprimée.',
+  'aiReview.rejectCategoryChange': 'Le produit retourne dans sa catégorie précédente.',
+  'aiReview.productIn': '{product} dans {category}',
+  'aiReview.noCategory': 'sans catégorie',
+  'aiReview.loadFailed': 'Impossible de charger les modifications de l\'IA',
+  'aiReview.reviewFailed': 'Impossible de traiter la modification',
+  'aiReview.approvedToast': 'Modification approuvée',
+  'aiReview.correctedToast': 'Modification corrigée et approuvée',
+  'aiReview.confirmReject': 'Rejeter cette modification ? {hint}',
+  'aiReview.rolledBack': 'Modification annulée',
+  'aiReview.productMerged': 'Produit fusionné',
+  'aiReview.productDeleted': 'Produit supprimé',
+  'aiReview.title': 'Vérification de l\'IA',
+  'aiReview.subtitle': 'Produits, alias et catégories appris des réponses de l\'IA',
+  'aiReview.emptyPending': 'Rien à vérifier.',
+  'aiReview.emptyApproved': 'Aucune modification approuvée pour l\'instant.',
+  'aiReview.emptyRejected': 'Aucune modification rejetée pour l\'instant.',
+  'aiReview.from': 'Depuis « {input} »',
+  'aiReview.typedBy': 'saisi par {name}',
+  'aiReview.aiAnswered': 'L\'IA a répondu {product} ({category})',
+  'aiReview.reviewedBy': 'par {name}',
+  'aiReview.reviewedOn': 'le {date}',
+  'aiReview.approve': 'Approuver',
+  'aiReview.correctAndApprove': 'Corriger et approuver',
+  'aiReview.reject': 'Rejeter',
+  'aiReview.correctTitle': 'Corriger : {kind}',
+  'aiReview.icon': 'Icône',
+  'aiReview.aliasOf': 'Alias de {name}',
+  'aiReview.saveApprove': 'Enregistrer et approuver',
+  'aiReview.rejectTitle': 'Rejeter {name}',
+  'aiReview.mergeInto': 'Fusionner dans',
+  'aiReview.deleteInstead': 'Rien : supprimer le produit',
+  'aiReview.mergeHint': 'La fusion conserve ses articles de liste, son historique et ses repas sous le produit choisi, avec son nom comme alias. La suppression le retire aussi des listes.',
+  'aiReview.merge': 'Fusionner',
+
+  // Sign-in, invites and password resets
+  'auth.email': 'E-mail',
+  'auth.password': 'Mot de passe',
+  'auth.backToLogin': 'Retour à la connexion',
+  'auth.passwordTooShort': 'Mot de passe trop court',
+  'auth.passwordMinLength': 'Le mot de passe doit contenir au moins 6 caractères.',
+  'login.welcomeToast': 'Bon retour !',
+  'login.success': 'Vous êtes connecté.',
+  'login.failed': 'Échec de la connexion',
+  'login.invalidCredentials': 'Identifiants invalides',
+  'login.title': 'Bon retour',
+  'login.subtitle': 'Connectez-vous à votre liste de courses',
+  'login.signIn': 'Se connecter',
+  'login.noAccount': 'Pas de compte ?',
+  'login.createOne': 'En créer un',
+  'register.title': 'Inscriptions fermées',
+  'register.subtitle': 'La création de comptes n\'est pas disponible pour le moment',
+  'register.disabled': 'Les inscriptions sont désactivées. Si vous avez déjà un compte, connectez-vous ci-dessous.',
+  'register.goToLogin': 'Aller à la connexion',
+  'reset.noToken': 'Aucun jeton de réinitialisation. Utilisez le lien reçu par e-mail.',
+  'reset.invalidToken': 'Format de jeton invalide.',
+  'reset.mismatch': 'Les mots de passe ne correspondent pas',
+  'reset.mismatchHint': 'Vérifiez que les deux mots de passe sont identiques.',
+  'reset.success': 'Mot de passe réinitialisé',
+  'reset.successHint': 'Vous pouvez vous connecter avec votre nouveau mot de passe.',
+  'reset.failed': 'Échec de la réinitialisation',
+  'reset.failedHint': 'Impossible de réinitialiser le mot de passe',
+  'reset.title': 'Réinitialiser le mot de passe',
+  'reset.done': 'Votre mot de passe a été réinitialisé',
+  'reset.enterNew': 'Saisissez votre nouveau mot de passe',
+  'reset.redirecting': 'Redirection vers la connexion...',
+  'reset.goToLoginNow': 'Aller à la connexion maintenant',
+  'reset.newPassword': 'Nouveau mot de passe',
+  'reset.newPasswordPlaceholder': 'Nouveau mot de passe',
+  'reset.confirmPassword': 'Confirmer le mot de passe',
+  'reset.confirmPlaceholder': 'Confirmez le nouveau mot de passe',
+  'reset.remember': 'Vous vous souvenez de votre mot de passe ?',
+  'reset.signIn': 'Se connecter',
+  'join.noToken': 'Aucun jeton d\'invitation. Utilisez le lien qui vous a été envoyé.',
+  'join.invalidLink': 'Lien d\'invitation invalide.',
+  'join.invalidOrExpired': 'Invitation invalide ou expirée',
+  'join.welcome': 'Bienvenue dans {household} !',
+  'join.joined': 'Vous avez rejoint le foyer.',
+  'join.failed': 'Impossible de rejoindre',
+  'join.failedHint': 'Impossible de rejoindre le foyer',
+  'join.title': 'Rejoindre {household}',
+  'join.joinHousehold': 'Rejoindre le foyer',
+  'join.invitedBy': '{name} vous invite en tant que {role}',
+  'join.invited': 'Vous êtes invité en tant que {role}',
+  'join.checking': 'Vérification de l\'invitation...',
+  'join.yourName': 'Votre nom',
+  'join.choosePassword': 'Choisissez un mot de passe',
+  'join.yourPassword': 'Votre mot de passe',
+  'join.atLeast6': 'Au moins 6 caractères',
+  'join.newHere': 'Nouveau ici ?',
+  'join.haveAccount': 'Vous avez déjà un compte ?',
+  'join.createAccount': 'Créer un compte',
+  'join.useIt': 'L\'utiliser',
+  'adminReset.generated': 'Lien de réinitialisation créé',
+  'adminReset.generatedFor': 'Lien de réinitialisation créé pour {email}',
+  'adminReset.failed': 'Impossible de créer le lien de réinitialisation',
+  'adminReset.copiedHint': 'Lien de réinitialisation copié dans le presse-papiers',
+  'adminReset.title': 'Réinitialisation du mot de passe',
+  'adminReset.subtitle': 'Créer un lien de réinitialisation pour un utilisateur',
+  'adminReset.userEmail': 'E-mail de l\'utilisateur',
+  'adminReset.generate': 'Créer le lien de réinitialisation',
+  'adminReset.link': 'Lien de réinitialisation',
+  'adminReset.share': 'Partagez ce lien avec l\'utilisateur pour qu\'il choisisse un nouveau mot de passe. Le lien expire dans 1 heure.',
+
+  // Recipe import
+  'recipe.importFailed': 'Impossible d\'importer la recette',
+  'recipe.title': 'Importer une recette',
+  'recipe.label': 'Recette',
+  'recipe.hint': 'Collez le texte de la recette ou le code source d\'une page de recette (la liste des ingrédients y est lue). Vous vérifiez les ingrédients avant la création du repas.',
+  'recipe.reading': 'Lecture...',
+  'recipe.import': 'Importer',
+  'grocery.fetchFailed': 'Impossible de récupérer les articles',
+};
+
+export default fr;
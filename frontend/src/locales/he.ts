@@ -0,0 +1,692 @@
+import type { Message, MessageKey } from './en';
+
+const he: Record<MessageKey, Message> = {
+  // Layout
+  'app.title': 'רשימת קניות',
+  'layout.welcome': 'שלום, {name}',
+  'layout.language': 'שפה',
+  'nav.list': 'רשימה',
+  'nav.shop': 'קניות',
+  'nav.menu': 'תפריט',
+  'nav.meals': 'ארוחות',
+  'nav.products': 'מוצרים',
+  'nav.household': 'משק בית',
+  'nav.pantry': 'מזווה',
+  'nav.activity': 'פעילות',
+  'nav.history': 'היסטוריה',
+  'nav.insights': 'תובנות',
+  'nav.logout': 'התנתקות',
+  'stats.title': 'סטטיסטיקות שירות ה-AI',
+  'stats.providerGemini': 'Gemini',
+  'stats.providerOpenai': 'תואם OpenAI',
+  'stats.providerRules': 'מבוסס כללים',
+  'stats.connected': 'מחובר',
+  'stats.notInitialized': 'לא מאותחל',
+  'stats.usingFallback': 'ספק ה-AI המוגדר אינו זמין - נעשה שימוש במנתח מבוסס הכללים.',
+  'stats.lastMinute': 'הדקה האחרונה',
+  'stats.lastHour': 'השעה האחרונה',
+  'stats.tokens': '{count} טוקנים',
+  'stats.successful': 'הצליחו',
+  'stats.failed': 'נכשלו',
+  'stats.inLastHour': 'בשעה האחרונה',
+  'stats.rateLimits': 'מגבלות קצב (חינמי)',
+  'stats.requestsPerMinute': 'בקשות לדקה',
+  'stats.tokensPerMinute': 'טוקנים לדקה',
+  'stats.totalRequests': 'סך כל הבקשות:',
+  'stats.totalTokens': 'סך כל הטוקנים:',
+  'stats.refresh': 'רענון',
+  'stats.loadFailed': 'טעינת הסטטיסטיקות נכשלה',
+
+  // Common
+  'common.cancel': 'ביטול',
+  'common.save': 'שמירה',
+  'common.saving': 'שומר...',
+  'common.delete': 'מחיקה',
+  'common.edit': 'עריכה',
+  'common.add': 'הוספה',
+  'common.adding': 'מוסיף...',
+  'common.create': 'יצירה',
+  'common.creating': 'יוצר...',
+  'common.clear': 'ניקוי',
+  'common.close': 'סגירה',
+  'common.back': 'חזרה',
+  'common.loading': 'טוען...',
+  'common.search': 'חיפוש...',
+  'common.name': 'שם',
+  'common.category': 'קטגוריה',
+  'common.quantity': 'כמות',
+  'common.unit': 'יחידה',
+  'common.notes': 'הערות',
+  'common.optional': 'אופציונלי',
+  'common.somethingWrong': 'משהו השתבש',
+  'common.none': 'ללא',
+  'common.today': 'היום',
+  'common.yesterday': 'אתמול',
+  'common.tomorrow': 'מחר',
+
+  // Dashboard
+  'dashboard.title': 'הרשימה שלך',
+  'dashboard.noItems': 'אין עדיין פריטים',
+  'dashboard.itemsToGet': { one: 'פריט אחד לקנות', other: '{count} פריטים לקנות' },
+  'dashboard.aiAdd': 'הוספה עם AI',
+  'dashboard.quickAdd': 'הוספה מהירה...',
+  'dashboard.addWithAi': 'הוספת "{text}" עם AI',
+  'dashboard.added': '{name} נוסף',
+  'dashboard.addFailed': 'הוספת הפריט נכשלה',
+  'dashboard.itemAdded': 'הפריט נוסף!',
+  'dashboard.parsedByAi': 'נותח על ידי AI',
+  'dashboard.fromDatabase': 'נוסף מהקטלוג',
+  'dashboard.itemsAdded': 'הפריטים נוספו!',
+  'dashboard.itemsAddedDetail': 'נוספו {total} פריטים ({cached} מהקטלוג, {ai} נותחו על ידי AI)',
+  'dashboard.addItemsFailed': 'הוספת הפריטים נכשלה',
+  'dashboard.cleared': 'נוקה',
+  'dashboard.foundRemoved': 'הפריטים שנמצאו הוסרו',
+  'dashboard.clearFailed': 'הניקוי נכשל',
+  'dashboard.emptyTitle': 'הרשימה שלך ריקה',
+  'dashboard.emptyHint': 'הוסיפו פריטים בכתיבה חופשית. ה-AI יבין ויסווג אותם עבורכם.',
+  'dashboard.addFirst': 'הוספת הפריטים הראשונים',
+  'dashboard.foundItems': 'פריטים שנמצאו ({count})',
+  'dashboard.addItems': 'הוספת פריטים',
+  'dashboard.addItemsHint': 'כתבו את הפריטים בכתיבה חופשית. ה-AI ינתח ויסווג אותם.',
+  'dashboard.itemsLabel': 'פריטים (אחד בכל שורה)',
+  'dashboard.itemsPlaceholder': '2 תפוחים\nלחם מלא\nחלב\nגבינה מגוררת',
+  'dashboard.tip': 'טיפ: אפשר לציין כמויות כמו "2 תפוחים" או "לחם x3"',
+  'dashboard.parsing': 'מנתח...',
+  'dashboard.parseAndAdd': 'ניתוח והוספה',
+
+  // Units and dates
+  'unit.piece': 'יח\'',
+  'unit.g': 'גרם',
+  'unit.kg': 'ק"ג',
+  'unit.ml': 'מ"ל',
+  'unit.l': 'ליטר',
+  'unit.pack': 'חבילה',
+  'unit.dozen': 'תריסר',
+  'unit.packs': { one: 'חבילה {count}', other: '{count} חבילות' },
+  'daysLeft.expiredYesterday': 'פג תוקף אתמול',
+  'daysLeft.expiredAgo': { one: 'פג תוקף לפני יום', other: 'פג תוקף לפני {count} ימים' },
+  'daysLeft.today': 'לצרוך היום',
+  'daysLeft.tomorrow': 'לצרוך עד מחר',
+  'daysLeft.within': { one: 'לצרוך תוך יום', other: 'לצרוך תוך {count} ימים' },
+
+  // Shopping
+  'shopping.loadStoreFailed': 'טעינת החנות נכשלה',
+  'shopping.restored': 'שוחזר',
+  'shopping.restoredDetail': '{name} הוחזר לרשימה',
+  'shopping.restoreFailed': 'השחזור נכשל',
+  'shopping.complete': 'הקניות הסתיימו!',
+  'shopping.completeDetail': 'נמצאו {found} פריטים, {notFound} לא נמצאו',
+  'shopping.spent': ' · הוצאה {amount}',
+  'shopping.completeFailed': 'הסיום נכשל',
+  'shopping.readyTitle': 'מוכנים לקניות?',
+  'shopping.readyHint': 'הוסיפו קודם פריטים לרשימה, ואז חזרו לכאן למצב קניות.',
+  'shopping.title': 'מצב קניות',
+  'shopping.swipeHint': 'החליקו שמאלה אם נמצא, ימינה אם לא נמצא',
+  'shopping.noStore': 'ללא חנות (לפי קטגוריה)',
+  'shopping.manageStores': 'ניהול חנויות',
+  'shopping.setUpStore': 'הגדרת מבנה חנות',
+  'shopping.pendingChanges': { one: 'שינוי אחד ממתין לחיבור', other: '{count} שינויים ממתינים לחיבור' },
+  'shopping.foundCount': '{count} נמצאו',
+  'shopping.remaining': '{count} נותרו',
+  'shopping.basket': 'סל: {amount}',
+  'shopping.notFound': 'לא נמצא',
+  'shopping.found': 'נמצא',
+  'shopping.notFoundSection': 'לא נמצאו ({count})',
+  'shopping.foundSection': 'נמצאו ({count})',
+  'shopping.restoreToList': 'החזרה לרשימה',
+  'shopping.completing': 'מסיים...',
+  'shopping.completeShopping': 'סיום הקניות',
+  'shopping.enterDetails': 'הזנת מחיר או תאריך תפוגה',
+  'shopping.price': 'מחיר',
+  'shopping.perItem': 'יחידה',
+  'shopping.bestBefore': 'בתוקף עד',
+
+  // Menu planner
+  'menu.lineAdd': 'להוסיף {amounts}',
+  'menu.lineCovered': 'מכוסה',
+  'menu.loadFailed': 'טעינת התפריט נכשלה',
+  'menu.addMealFailed': 'הוספת הארוחה נכשלה',
+  'menu.removeMealFailed': 'הסרת הארוחה נכשלה',
+  'menu.diffFailed': 'ההשוואה לרשימת הקניות נכשלה',
+  'menu.listUpdated': 'רשימת הקניות עודכנה',
+  'menu.listUpdatedDetail': '{added} נוספו, {increased} הוגדלו',
+  'menu.addProductsFailed': 'הוספת המוצרים נכשלה',
+  'common.otherCategory': 'אחר',
+  'menu.title': 'מתכנן תפריט',
+  'menu.subtitle': 'תכננו ארוחות והוסיפו את המרכיבים לרשימת הקניות',
+  'menu.previousWeek': 'השבוע הקודם',
+  'menu.nextWeek': 'השבוע הבא',
+  'menu.lunch': 'צהריים',
+  'menu.dinner': 'ערב',
+  'menu.servingsCount': { one: 'מנה אחת', other: '{count} מנות' },
+  'menu.productsNeeded': 'מוצרים נדרשים ({count})',
+  'menu.actionCounts': '{add} להוספה · {increase} להגדלה · {covered} כבר מכוסים',
+  'menu.selectNeeded': 'בחירת הנדרש',
+  'menu.needs': 'נדרש {amounts}',
+  'menu.inStock': '{amounts} במלאי',
+  'menu.updating': 'מעדכן...',
+  'menu.apply': 'החלת {count} על רשימת הקניות',
+  'menu.addLunch': 'הוספת ארוחת צהריים - {day}',
+  'menu.addDinner': 'הוספת ארוחת ערב - {day}',
+  'menu.servings': 'מנות',
+  'menu.mealDefault': 'ברירת המחדל של הארוחה',
+  'menu.mealSummary': '{count} מוצרים · ל-{servings} סועדים',
+  'menu.usesUp': 'מנצל את {names}',
+  'menu.noMeals': 'עדיין לא נוצרו ארוחות.',
+  'menu.noMealsHint': 'עברו ללשונית הארוחות כדי ליצור!',
+
+  // Meals
+  'meals.loadFailed': 'טעינת הארוחות נכשלה',
+  'meals.productCreated': 'המוצר "{name}" נוצר',
+  'meals.loadMealFailed': 'טעינת הארוחה נכשלה',
+  'meals.confirmDelete': 'למחוק את "{name}"? לא ניתן לבטל פעולה זו.',
+  'meals.deleted': 'הארוחה נמחקה',
+  'meals.deleteFailed': 'מחיקת הארוחה נכשלה',
+  'meals.updated': 'הארוחה עודכנה',
+  'meals.created': 'הארוחה נוצרה',
+  'meals.updateFailed': 'עדכון הארוחה נכשל',
+  'meals.createFailed': 'יצירת הארוחה נכשלה',
+  'meals.title': 'ארוחות',
+  'meals.subtitle': 'יצירה וניהול של ארוחות והמרכיבים שלהן',
+  'meals.addMeal': 'הוספת ארוחה',
+  'meals.importRecipe': 'ייבוא מתכון',
+  'meals.productCount': { one: 'מוצר אחד', other: '{count} מוצרים' },
+  'meals.edit': 'עריכת ארוחה',
+  'meals.delete': 'מחיקת ארוחה',
+  'meals.empty': 'אין עדיין ארוחות. הוסיפו אחת כדי להתחיל.',
+  'mealDialog.editTitle': 'עריכת ארוחה',
+  'mealDialog.reviewTitle': 'בדיקת הארוחה המיובאת',
+  'mealDialog.namePlaceholder': 'לדוגמה: פסטה קרבונרה',
+  'mealDialog.servings': 'מנות',
+  'mealDialog.ingredientsFor': 'מרכיבים ל-{servings} ({count})',
+  'mealDialog.toTaste': 'לפי הטעם',
+  'mealDialog.quantityOf': 'כמות של {name}',
+  'mealDialog.unitOf': 'יחידה של {name}',
+  'mealDialog.remove': 'הסרת {name}',
+  'mealDialog.toMatch': 'להתאמה ({count})',
+  'mealDialog.searchFor': 'חיפוש מוצר עבור {line}',
+  'mealDialog.skip': 'דילוג על {line}',
+  'mealDialog.productFor': 'מוצר עבור "{line}"',
+  'mealDialog.addProducts': 'הוספת מוצרים',
+  'mealDialog.newProduct': 'מוצר חדש',
+  'mealDialog.searchProducts': 'חיפוש מוצרים...',
+  'mealDialog.noProducts': 'לא נמצאו מוצרים',
+  'mealDialog.createNamed': 'יצירת "{name}"',
+  'mealDialog.saveChanges': 'שמירת השינויים',
+  'mealDialog.createMeal': 'יצירת ארוחה',
+
+  // Product dialogs
+  'productDialog.editTitle': 'עריכת מוצר',
+  'productDialog.addTitle': 'הוספת מוצר',
+  'productDialog.loadCategoriesFailed': 'טעינת הקטגוריות נכשלה',
+  'productDialog.loadFailed': 'טעינת המוצר נכשלה',
+  'productDialog.updated': 'המוצר עודכן',
+  'productDialog.created': 'המוצר נוצר',
+  'productDialog.updateFailed': 'העדכון נכשל',
+  'productDialog.createFailed': 'היצירה נכשלה',
+  'productDialog.aliasExists': 'הכינוי כבר קיים',
+  'productDialog.aliasAdded': 'הכינוי נוסף',
+  'productDialog.aliasAddFailed': 'הוספת הכינוי נכשלה',
+  'productDialog.aliasRemoved': 'הכינוי הוסר',
+  'productDialog.aliasRemoveFailed': 'הסרת הכינוי נכשלה',
+  'productDialog.spellingCorrected': 'האיות תוקן',
+  'productDialog.spellingChange': '"{from}" ← "{to}"',
+  'productDialog.addedAsAlias': '"{name}" נוסף ככינוי',
+  'productDialog.noSpellingChanges': 'אין צורך בתיקוני איות',
+  'productDialog.fixSpellingFailed': 'תיקון האיות נכשל',
+  'productDialog.namePlaceholder': 'לדוגמה: חלב',
+  'productDialog.fixSpelling': 'תיקון איות עם AI',
+  'productDialog.translations': 'תרגומים',
+  'productDialog.selectCategory': 'בחירת קטגוריה...',
+  'productDialog.keepsFor': 'נשמר למשך',
+  'productDialog.aliases': 'כינויים (וריאציות איות)',
+  'productDialog.addAlias': 'הוספת כינוי...',
+  'productDialog.saveChanges': 'שמירת השינויים',
+  'productDialog.createProduct': 'יצירת מוצר',
+  'shelfLife.days': 'ימים',
+  'shelfLife.default': 'ברירת מחדל',
+  'shelfLife.category': 'קטגוריה',
+  'priceHistory.title': 'היסטוריית מחירים',
+  'priceHistory.noStore': 'ללא חנות',
+  'priceHistory.empty': 'אין עדיין מחירים. הקישו על התגית של פריט במצב קניות כדי לתעד כמה שילמתם.',
+  'priceHistory.lowest': 'הנמוך ביותר {price} · {count} קניות',
+
+  // Products
+  'products.loadFailed': 'טעינת הנתונים נכשלה',
+  'products.searchFailed': 'החיפוש נכשל',
+  'products.confirmDelete': 'למחוק את המוצר? הוא יוסר גם מכל רשימות הקניות.',
+  'products.deleted': 'המוצר נמחק',
+  'products.deleteFailed': 'המחיקה נכשלה',
+  'products.categoryCreated': 'הקטגוריה נוצרה',
+  'products.categoryCreateFailed': 'יצירת הקטגוריה נכשלה',
+  'products.categoryUpdated': 'הקטגוריה עודכנה',
+  'products.cannotDelete': 'לא ניתן למחוק',
+  'products.categoryHasProducts': { one: 'בקטגוריה יש מוצר אחד. העבירו אותו קודם.', other: 'בקטגוריה יש {count} מוצרים. העבירו אותם קודם.' },
+  'products.confirmDeleteCategory': 'למחוק את הקטגוריה "{name}"?',
+  'products.categoryDeleted': 'הקטגוריה נמחקה',
+  'products.title': 'ניהול מוצרים',
+  'products.subtitle': 'ניהול מוצרים, קטגוריות, מוצרי יסוד וכפילויות',
+  'products.reviewAi': 'בדיקת AI ({count})',
+  'products.tabProducts': 'מוצרים ({count})',
+  'products.tabCategories': 'קטגוריות ({count})',
+  'products.tabStaples': 'מוצרי יסוד',
+  'products.tabDuplicates': 'כפילויות',
+  'products.searchButton': 'חיפוש',
+  'products.editProduct': 'עריכת מוצר',
+  'products.deleteProduct': 'מחיקת מוצר',
+  'products.addCategory': 'הוספת קטגוריה',
+  'products.keepsDays': { one: ' · נשמר יום אחד', other: ' · נשמר {count} ימים' },
+  'products.editCategory': 'עריכת קטגוריה',
+  'products.deleteCategory': 'מחיקת קטגוריה',
+  'products.noCategories': 'אין עדיין קטגוריות. הוסיפו אחת כדי להתחיל.',
+  'products.categoryPlaceholder': 'לדוגמה: פירות וירקות',
+  'products.icon': 'סמל (אימוג\'י)',
+  'products.sortOrder': 'סדר מיון',
+  'products.sortOrderHint': 'סדר מיון נמוך יותר = מופיע מוקדם יותר ברשימה',
+  'products.editCategoryTitle': 'עריכת קטגוריה',
+  'products.productsKeepFor': 'המוצרים נשמרים למשך',
+  'products.shelfLifeHint': 'משמש לתאריכי תפוגה אלא אם למוצר יש משלו',
+
+  // Staples
+  'staples.ruleInterval': 'כל N ימים',
+  'staples.ruleWeekdays': 'בימים מסוימים בשבוע',
+  'staples.ruleSinceBought': 'N ימים אחרי הקנייה האחרונה',
+  'staples.everyDay': 'כל יום',
+  'staples.everyDays': 'כל {count} ימים',
+  'staples.everyWeekdays': 'בכל {days}',
+  'staples.afterBought': { one: 'יום אחרי הקנייה האחרונה', other: '{count} ימים אחרי הקנייה האחרונה' },
+  'staples.loadFailed': 'טעינת מוצרי היסוד נכשלה',
+  'staples.updated': 'מוצר היסוד עודכן',
+  'staples.created': '{name} הוא עכשיו מוצר יסוד',
+  'staples.saveFailed': 'שמירת מוצר היסוד נכשלה',
+  'staples.updateFailed': 'עדכון מוצר היסוד נכשל',
+  'staples.confirmDelete': 'להפסיק להוסיף את {name} אוטומטית?',
+  'staples.deleteFailed': 'מחיקת מוצר היסוד נכשלה',
+  'staples.addedToList': { one: 'מוצר יסוד אחד נוסף לרשימה', other: '{count} מוצרי יסוד נוספו לרשימה' },
+  'staples.nothingToAdd': 'אין מה להוסיף',
+  'staples.alreadyOnList': '{count} כבר ברשימה',
+  'staples.addFailed': 'הוספת מוצרי היסוד נכשלה',
+  'staples.add': 'הוספת מוצר יסוד',
+  'staples.addDueNow': 'הוספת הנדרשים עכשיו',
+  'staples.hint': 'מוצרי יסוד מתווספים לרשימה פעם ביום כשמגיע זמנם. פריטים שכבר ברשימה נשארים כפי שהם.',
+  'staples.empty': 'אין עדיין מוצרי יסוד.',
+  'staples.emptyHint': 'הוסיפו את מה שאתם קונים כל הזמן, כמו חלב או לחם.',
+  'staples.due': 'נדרש',
+  'staples.paused': 'מושהה',
+  'staples.lastAdded': ' · נוסף לאחרונה {date}',
+  'staples.lastBought': ' · נקנה {date}',
+  'staples.pause': 'השהיית מוצר היסוד',
+  'staples.resume': 'חידוש מוצר היסוד',
+  'staples.edit': 'עריכת מוצר יסוד',
+  'staples.delete': 'מחיקת מוצר יסוד',
+  'staples.editTitle': 'עריכת {name}',
+  'staples.product': 'מוצר',
+  'staples.searchProduct': 'חיפוש מוצר...',
+  'staples.amount': 'כמות',
+  'staples.addIt': 'להוסיף',
+  'staples.days': 'ימים',
+
+  // Import / export and duplicates
+  'transfer.catalog': 'קטלוג המוצרים',
+  'transfer.catalogHint': 'מוצרים עם הקטגוריות והכינויים שלהם',
+  'transfer.meals': 'ארוחות',
+  'transfer.mealsHint': 'ארוחות עם המרכיבים שלהן',
+  'transfer.menu': 'תפריטים',
+  'transfer.menuHint': 'ארוחות צהריים וערב מתוכננות (יש לייבא ארוחות קודם)',
+  'transfer.history': 'היסטוריית קניות',
+  'transfer.historyHint': 'כל מה שנקנה או לא נמצא, לפי קנייה',
+  'transfer.created': '{count} נוספו',
+  'transfer.updated': '{count} עודכנו',
+  'transfer.unchanged': '{count} כבר קיימים',
+  'transfer.skipped': '{count} דולגו',
+  'transfer.exportFailed': 'הייצוא נכשל',
+  'transfer.imported': '{dataset} יובא',
+  'transfer.importFailed': 'הייבוא נכשל',
+  'transfer.invalidJson': 'הקובץ אינו JSON תקין',
+  'transfer.title': 'ייבוא / ייצוא',
+  'transfer.import': 'ייבוא',
+  'duplicates.sameName': 'אותו שם',
+  'duplicates.alias': 'שם שמשמש ככינוי',
+  'duplicates.similar': 'איות דומה',
+  'duplicates.loadFailed': 'חיפוש הכפילויות נכשל',
+  'duplicates.confirmMerge': 'למזג את {names} לתוך "{target}"? פריטי הרשימה, ההיסטוריה והארוחות שלהם יעברו אל "{target}" והם יימחקו.',
+  'duplicates.merged': 'מוזג לתוך {name}',
+  'duplicates.mergedDetail': { one: 'מוצר אחד מוזג; שמו הוא עכשיו כינוי', other: '{count} מוצרים מוזגו; שמותיהם הם עכשיו כינויים' },
+  'duplicates.mergeFailed': 'המיזוג נכשל',
+  'duplicates.empty': 'לא נמצאו כפילויות.',
+  'duplicates.emptyHint': 'מוצרים שנראים כמו אותו דבר יופיעו כאן.',
+  'duplicates.hint': 'בחרו את המוצר שיישאר; האחרים ימוזגו לתוכו. בטלו סימון של מוצר כדי להשאיר אותו בחוץ.',
+  'duplicates.keepLabel': 'השארת {name}',
+  'duplicates.keep': 'להשאיר',
+  'duplicates.usage': '{category} · שימוש {count}×',
+  'duplicates.mergeLabel': 'מיזוג {name}',
+  'duplicates.mergeInto': 'מיזוג {count} לתוך {name}',
+
+  // List items
+  'item.updateFailed': 'העדכון נכשל',
+  'item.deleteFailed': 'המחיקה נכשלה',
+  'item.addedBy': 'נוסף על ידי {name}',
+  'item.aMember': 'חבר/ה',
+  'item.decrease': 'הקטנת הכמות',
+  'item.increase': 'הגדלת הכמות',
+  'item.delete': 'מחיקת פריט',
+  'category.itemCount': { one: 'פריט אחד', other: '{count} פריטים' },
+  'category.selected': ' • {count} נבחרו',
+
+  // List helpers
+  'didYouMean.title': 'האם התכוונת ל...',
+  'didYouMean.description': 'הפריטים האלה דומים למוצרים שכבר קיימים. בחרו את הנכון.',
+  'didYouMean.addedTerm': '"{term}" נוסף',
+  'didYouMean.somethingElse': 'משהו אחר',
+  'didYouMean.skip': 'דילוג',
+  'repurchase.title': 'כנראה שצריך',
+  'repurchase.why': 'בדרך כלל כל {interval} ימים, נקנה לאחרונה לפני {since} ימים',
+  'repurchase.dismiss': 'לא להציע את {name}',
+  'runningLow.title': 'עומד להיגמר ({count})',
+  'runningLow.out': 'נגמר',
+  'runningLow.left': 'נותרו {amount}',
+  'runningLow.onList': 'ברשימה',
+  'runningLow.add': 'הוספת {name} לרשימה',
+  'useSoon.title': 'לצרוך בקרוב ({count})',
+  'useSoon.meals': 'ארוחות שמשתמשות בהם',
+  'undo.add': 'הוספת {items}',
+  'undo.menu': 'הוספת {items} מהתפריט',
+  'undo.staples': 'הוספת מוצרי היסוד {items}',
+  'undo.edit': 'עריכת {items}',
+  'undo.status': 'סימון {items}',
+  'undo.delete': 'מחיקת {items}',
+  'undo.clearFound': 'ניקוי {items}',
+  'undo.resetSelection': 'איפוס {items}',
+  'undo.complete': 'סיום הקניות עם {items}',
+  'undo.items': { one: 'פריט אחד', other: '{count} פריטים' },
+  'undo.andMore': '{first} ועוד {count}',
+  'undo.undid': 'בוטל: {action}',
+  'undo.redid': 'שוחזר: {action}',
+  'undo.undoFailed': 'הביטול נכשל',
+  'undo.redoFailed': 'השחזור נכשל',
+  'undo.undo': 'ביטול: {action}',
+  'undo.redo': 'שחזור: {action}',
+  'undo.undoLabel': 'ביטול השינוי האחרון',
+  'undo.redoLabel': 'שחזור השינוי האחרון שבוטל',
+
+  // Pantry
+  'pantry.loadFailed': 'טעינת המזווה נכשלה',
+  'pantry.added': '{name} נוסף למזווה',
+  'pantry.addFailed': 'ההוספה למזווה נכשלה',
+  'pantry.updateFailed': 'עדכון המזווה נכשל',
+  'pantry.confirmDelete': 'להפסיק לעקוב אחרי {name}?',
+  'pantry.deleteFailed': 'מחיקת הפריט מהמזווה נכשלה',
+  'pantry.subtitle': 'מה שיש בבית. פריטים שנמצאו בקניות נוספים כשהקנייה מסתיימת.',
+  'pantry.runningLow': '{count} עומדים להיגמר',
+  'pantry.useSoon': '{count} לצרוך בקרוב',
+  'pantry.addTitle': 'הוספה למזווה',
+  'pantry.searchProduct': 'חיפוש מוצר...',
+  'pantry.bestBefore': 'בתוקף עד',
+  'pantry.bestBeforeHint': 'בתוקף עד (ריק: חיי המדף של המוצר)',
+  'pantry.bestBeforeDate': 'בתוקף עד {date}',
+  'pantry.empty': 'אין עדיין כלום במזווה.',
+  'pantry.emptyHint': 'סיימו קנייה או הוסיפו את מה שיש בבית.',
+  'pantry.low': 'נמוך',
+  'pantry.used': 'נוצל',
+  'pantry.thrownAway': 'נזרק',
+  'pantry.settings': 'תיקון כמות, רמה נמוכה או תאריך תפוגה',
+  'pantry.stopTracking': 'הפסקת מעקב',
+  'pantry.amount': 'כמות',
+  'pantry.have': 'יש',
+  'pantry.amountInStock': 'כמות במלאי',
+  'pantry.lowAt': 'נמוך ב-',
+  'pantry.lowLevel': 'רמת מלאי נמוכה',
+
+  // History
+  'history.loadFailed': 'טעינת ההיסטוריה נכשלה',
+  'history.loadSessionFailed': 'טעינת הקנייה נכשלה',
+  'history.restored': 'הפריט שוחזר',
+  'history.restoredHint': 'הפריט הוחזר לרשימה',
+  'history.restoreFailed': 'השחזור נכשל',
+  'history.empty': 'אין עדיין היסטוריה',
+  'history.emptyHint': 'סיימו קנייה כדי לראות כאן את ההיסטוריה.',
+  'history.sessionCount': { one: 'קנייה אחת', other: '{count} קניות' },
+  'history.all': 'הכול',
+  'history.restore': 'שחזור',
+  'history.recentlyFound': 'נמצאו לאחרונה',
+  'history.recentlyNotFound': 'לא נמצאו לאחרונה',
+
+  // Household
+  'common.error': 'אירעה שגיאה',
+  'common.copy': 'העתקה',
+  'common.copied': 'הועתק',
+  'role.owner': 'בעלים',
+  'role.editor': 'עורך',
+  'role.shopper': 'קונה',
+  'role.ownerHint': 'גישה מלאה, ניהול חברים והזמנות',
+  'role.editorHint': 'עריכת הרשימה, המוצרים, הארוחות והתפריט',
+  'role.shopperHint': 'צפייה ברשימה וסימון פריטים בזמן הקניות',
+  'household.inviteCreated': 'קישור ההזמנה נוצר',
+  'household.inviteRole': 'חברים חדשים יצטרפו בתור {role}',
+  'household.inviteFailed': 'יצירת ההזמנה נכשלה',
+  'household.copiedTitle': 'הועתק!',
+  'household.copiedHint': 'קישור ההזמנה הועתק',
+  'household.copyFailed': 'ההעתקה נכשלה',
+  'household.copyManually': 'נא לבחור ולהעתיק את הקישור ידנית',
+  'household.roleFailed': 'שינוי התפקיד נכשל',
+  'household.confirmRemove': 'להסיר את {name} מ{household}?',
+  'household.removeFailed': 'הסרת החבר נכשלה',
+  'household.confirmLeave': 'לעזוב את {household}?',
+  'household.leaveFailed': 'העזיבה נכשלה',
+  'household.languageUpdated': 'השפה עודכנה',
+  'household.languageFailed': 'עדכון השפה נכשל',
+  'household.yourRole': 'התפקיד שלך: {role}',
+  'household.you': '(את/ה)',
+  'household.leave': 'עזיבת משק הבית',
+  'household.productNames': 'שמות מוצרים',
+  'household.productNamesHint': 'השפה שבה מוצגים לך מוצרים וקטגוריות; הרשימה משותפת כרגיל',
+  'household.asEntered': 'כפי שהוזנו',
+  'household.invite': 'הזמנת מישהו',
+  'household.inviteHint': 'יצירת קישור הצטרפות למשק הבית',
+  'household.role': 'תפקיד',
+  'household.generateLink': 'יצירת קישור הזמנה',
+  'household.inviteLink': 'קישור הזמנה',
+  'household.expires': 'תוקף עד: {date}',
+  'household.linkOnce': 'הקישור פועל פעם אחת ותוקפו פג בעוד 7 ימים.',
+
+  // Stores
+  'stores.loadFailed': 'טעינת החנויות נכשלה',
+  'stores.loadOneFailed': 'טעינת החנות נכשלה',
+  'stores.createFailed': 'יצירת החנות נכשלה',
+  'stores.confirmDelete': 'למחוק את {name}? קניות קודמות ישמרו את שמה.',
+  'stores.deleteFailed': 'מחיקת החנות נכשלה',
+  'stores.saved': 'החנות נשמרה',
+  'stores.saveFailed': 'שמירת החנות נכשלה',
+  'stores.title': 'חנויות',
+  'stores.subtitle': 'מצב קניות עוקב אחרי סדר המעברים בחנות שבחרת',
+  'stores.empty': 'אין עדיין חנויות.',
+  'stores.newName': 'שם חנות חדשה',
+  'stores.aisleOrder': 'סדר המעברים',
+  'stores.aisleOrderHint': 'סדרו את הקטגוריות לפי הסדר שבו עוברים לידן',
+  'stores.aisle': 'מעבר',
+  'stores.moveUp': 'הזזה למעלה',
+  'stores.moveDown': 'הזזה למטה',
+  'stores.misplaced': 'מוצרים במיקום אחר',
+  'stores.misplacedHint': 'מוצרים שהחנות מחזיקה מחוץ לקטגוריה שלהם',
+  'stores.withOwnCategory': 'עם הקטגוריה שלו',
+  'stores.withCategory': 'עם {category}',
+  'stores.remove': 'הסרה',
+  'stores.searchProduct': 'חיפוש מוצר למיקום...',
+  'stores.saveLayout': 'שמירת הסידור',
+
+  // Insights
+  'insights.preset30d': '30 ימים',
+  'insights.preset90d': '3 חודשים',
+  'insights.preset1y': '12 חודשים',
+  'insights.presetAll': 'כל הזמן',
+  'insights.loadFailed': 'טעינת התובנות נכשלה',
+  'insights.subtitle': 'מה משק הבית קונה, באיזו תדירות ומה בדרך כלל חסר',
+  'insights.from': 'מתאריך',
+  'insights.to': 'עד תאריך',
+  'insights.toSeparator': 'עד',
+  'insights.trips': 'קניות',
+  'insights.itemsBought': 'פריטים שנקנו',
+  'insights.spent': 'הוצאה',
+  'insights.empty': 'אין קניות בתקופה הזו.',
+  'insights.mostBought': 'הנקנים ביותר',
+  'insights.everyDays': { one: 'כל יום', other: 'כל {count} ימים' },
+  'insights.missingShare': 'חסר ב-{percent} מהפעמים',
+  'insights.oftenMissing': 'לעיתים קרובות חסר במלאי',
+  'insights.categories': 'קטגוריות',
+  'insights.categoriesHint': 'פריטים ברשימה לפי קטגוריה; באדום החלק שלא נמצא',
+  'insights.missingPercent': '{percent} חסר',
+  'insights.tripsPerWeek': 'קניות בשבוע',
+  'insights.weekTrips': { one: '{week}: קנייה אחת', other: '{week}: {count} קניות' },
+  'insights.categoryMix': 'תמהיל קטגוריות',
+  'insights.weekly': 'שבועי',
+  'insights.monthly': 'חודשי',
+
+  // Activity
+  'activity.add': ': הוספת',
+  'activity.menu': ': הוספה מהתפריט של',
+  'activity.edit': ': עריכת',
+  'activity.status': ': סימון',
+  'activity.delete': ': הסרת',
+  'activity.deleteBatch': ': הסרה מרוכזת של',
+  'activity.clearFound': ': ניקוי הפריטים שנמצאו',
+  'activity.resetSelection': ': ביטול הבחירה של',
+  'activity.complete': ': סיום הקנייה עם',
+  'activity.statusPending': 'לקנייה',
+  'activity.statusSelected': 'נבחר',
+  'activity.statusFound': 'נמצא',
+  'activity.statusNotFound': 'לא נמצא',
+  'activity.loadFailed': 'טעינת הפעילות נכשלה',
+  'activity.staples': 'מוצרי יסוד',
+  'activity.someone': 'מישהו',
+  'activity.you': 'את/ה',
+  'activity.member': 'חבר/ה',
+  'activity.subtitle': 'מי שינה מה ברשימה',
+  'activity.empty': 'עדיין לא קרה כלום ברשימה.',
+  'activity.undone': 'בוטל',
+  'activity.loadOlder': 'טעינת פעילות קודמת',
+
+  // AI review
+  'aiReview.kindProduct': 'מוצר חדש',
+  'aiReview.kindAlias': 'כינוי חדש',
+  'aiReview.kindCategory': 'קטגוריה חדשה',
+  'aiReview.kindCategoryChange': 'הקטגוריה שונתה',
+  'aiReview.pending': 'לבדיקה',
+  'aiReview.approved': 'אושרו',
+  'aiReview.rejected': 'נדחו',
+  'aiReview.rejectProduct': 'המוצר מתמזג למוצר אחר, או נמחק אם אף משק בית עדיין לא משתמש בו.',
+  'aiReview.rejectAlias': 'הכינוי מוסר מהמוצר.',
+  'aiReview.rejectCategory': 'המוצרים שלה חוזרים לקטגוריה הקודמת (או ל-"Autre") והקטגוריה נמחקת.',
+  'aiReview.rejectCategoryChange': 'המוצר חוזר לקטגוריה הקודמת שלו.',
+  'aiReview.productIn': '{product} ב{category}',
+  'aiReview.noCategory': 'ללא קטגוריה',
+  'aiReview.loadFailed': 'טעינת השינויים של הבינה המלאכותית נכשלה',
+  'aiReview.reviewFailed': 'הטיפול בשינוי נכשל',
+  'aiReview.approvedToast': 'השינוי אושר',
+  'aiReview.correctedToast': 'השינוי תוקן ואושר',
+  'aiReview.confirmReject': 'לדחות את השינוי? {hint}',
+  'aiReview.rolledBack': 'השינוי בוטל',
+  'aiReview.productMerged': 'המוצר מוזג',
+  'aiReview.productDeleted': 'המוצר נמחק',
+  'aiReview.title': 'בדיקת בינה מלאכותית',
+  'aiReview.subtitle': 'מוצרים, כינויים וקטגוריות שנלמדו מתשובות הבינה המלאכותית',
+  'aiReview.emptyPending': 'אין מה לבדוק.',
+  'aiReview.emptyApproved': 'אין עדיין שינויים שאושרו.',
+  'aiReview.emptyRejected': 'אין עדיין שינויים שנדחו.',
+  'aiReview.from': 'מתוך "{input}"',
+  'aiReview.typedBy': 'שהוקלד על ידי {name}',
+  'aiReview.aiAnswered': 'הבינה המלאכותית ענתה {product} ({category})',
+  'aiReview.reviewedBy': 'על ידי {name}',
+  'aiReview.reviewedOn': 'ב-{date}',
+  'aiReview.approve': 'אישור',
+  'aiReview.correctAndApprove': 'תיקון ואישור',
+  'aiReview.reject': 'דחייה',
+  'aiReview.correctTitle': 'תיקון: {kind}',
+  'aiReview.icon': 'סמל',
+  'aiReview.aliasOf': 'כינוי של {name}',
+  'aiReview.saveApprove': 'שמירה ואישור',
+  'aiReview.rejectTitle': 'דחיית {name}',
+  'aiReview.mergeInto': 'מיזוג לתוך',
+  'aiReview.deleteInstead': 'כלום: מחיקת המוצר',
+  'aiReview.mergeHint': 'מיזוג שומר את פריטי הרשימה, ההיסטוריה והארוחות שלו תחת המוצר שנבחר, ושמו נשמר ככינוי. מחיקה מסירה אותו גם מהרשימות.',
+  'aiReview.merge': 'מיזוג',
+
+  // Sign-in, invites and password resets
+  'auth.email': 'אימייל',
+  'auth.password': 'סיסמה',
+  'auth.backToLogin': 'חזרה להתחברות',
+  'auth.passwordTooShort': 'הסיסמה קצרה מדי',
+  'auth.passwordMinLength': 'הסיסמה חייבת להכיל לפחות 6 תווים.',
+  'login.welcomeToast': 'ברוך שובך!',
+  'login.success': 'התחברת בהצלחה.',
+  'login.failed': 'ההתחברות נכשלה',
+  'login.invalidCredentials': 'פרטי התחברות שגויים',
+  'login.title': 'ברוך שובך',
+  'login.subtitle': 'התחברות לרשימת הקניות',
+  'login.signIn': 'התחברות',
+  'login.noAccount': 'אין לך חשבון?',
+  'login.createOne': 'יצירת חשבון',
+  'register.title': 'ההרשמה סגורה',
+  'register.subtitle': 'לא ניתן ליצור חשבונות חדשים כרגע',
+  'register.disabled': 'ההרשמה מושבתת כרגע. אם כבר יש לך חשבון, אפשר להתחבר למטה.',
+  'register.goToLogin': 'מעבר להתחברות',
+  'reset.noToken': 'לא סופק אסימון איפוס. נא להשתמש בקישור מהאימייל לאיפוס הסיסמה.',
+  'reset.invalidToken': 'פורמט אסימון האיפוס שגוי.',
+  'reset.mismatch': 'הסיסמאות אינן תואמות',
+  'reset.mismatchHint': 'נא לוודא ששתי הסיסמאות זהות.',
+  'reset.success': 'הסיסמה אופסה בהצלחה',
+  'reset.successHint': 'אפשר להתחבר עכשיו עם הסיסמה החדשה.',
+  'reset.failed': 'האיפוס נכשל',
+  'reset.failedHint': 'איפוס הסיסמה נכשל',
+  'reset.title': 'איפוס סיסמה',
+  'reset.done': 'הסיסמה שלך אופסה',
+  'reset.enterNew': 'נא להזין סיסמה חדשה',
+  'reset.redirecting': 'מעבר להתחברות...',
+  'reset.goToLoginNow': 'מעבר להתחברות עכשיו',
+  'reset.newPassword': 'סיסמה חדשה',
+  'reset.newPasswordPlaceholder': 'סיסמה חדשה',
+  'reset.confirmPassword': 'אימות סיסמה',
+  'reset.confirmPlaceholder': 'אימות הסיסמה החדשה',
+  'reset.remember': 'נזכרת בסיסמה?',
+  'reset.signIn': 'התחברות',
+  'join.noToken': 'לא סופק אסימון הזמנה. נא להשתמש בקישור שנשלח אליך.',
+  'join.invalidLink': 'קישור ההזמנה שגוי.',
+  'join.invalidOrExpired': 'ההזמנה שגויה או שפג תוקפה',
+  'join.welcome': 'ברוכים הבאים ל{household}!',
+  'join.joined': 'הצטרפת למשק הבית.',
+  'join.failed': 'ההצטרפות נכשלה',
+  'join.failedHint': 'ההצטרפות למשק הבית נכשלה',
+  'join.title': 'הצטרפות ל{household}',
+  'join.joinHousehold': 'הצטרפות למשק הבית',
+  'join.invitedBy': '{name} הזמין/ה אותך בתור {role}',
+  'join.invited': 'הוזמנת בתור {role}',
+  'join.checking': 'בודקים את ההזמנה...',
+  'join.yourName': 'השם שלך',
+  'join.choosePassword': 'בחירת סיסמה',
+  'join.yourPassword': 'הסיסמה שלך',
+  'join.atLeast6': 'לפחות 6 תווים',
+  'join.newHere': 'חדש/ה כאן?',
+  'join.haveAccount': 'כבר יש לך חשבון?',
+  'join.createAccount': 'יצירת חשבון',
+  'join.useIt': 'שימוש בו',
+  'adminReset.generated': 'קישור האיפוס נוצר',
+  'adminReset.generatedFor': 'נוצר קישור איפוס עבור {email}',
+  'adminReset.failed': 'יצירת קישור האיפוס נכשלה',
+  'adminReset.copiedHint': 'קישור האיפוס הועתק',
+  'adminReset.title': 'איפוס סיסמה',
+  'adminReset.subtitle': 'יצירת קישור לאיפוס סיסמה עבור משתמש',
+  'adminReset.userEmail': 'אימייל המשתמש',
+  'adminReset.generate': 'יצירת קישור איפוס',
+  'adminReset.link': 'קישור איפוס',
+  'adminReset.share': 'שתפו את הקישור עם המשתמש כדי שיגדיר סיסמה חדשה. תוקף הקישור פג בעוד שעה.',
+
+  // Recipe import
+  'recipe.importFailed': 'ייבוא המתכון נכשל',
+  'recipe.title': 'ייבוא מתכון',
+  'recipe.label': 'מתכון',
+  'recipe.hint': 'הדביקו את טקסט המתכון או את קוד המקור של דף מתכון (רשימת המרכיבים נקראת מהדף). המרכיבים נבדקים לפני יצירת הארוחה.',
+  'recipe.reading': 'קורא...',
+  'recipe.import': 'ייבוא',
+  'grocery.fetchFailed': 'טעינת הפריטים נכשלה',
+};
+
+export default he;
@@ -3,19 +3,31 @@ import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App'
 import { AuthProvider } from './contexts/AuthContext'
+import { LanguageProvider } from './contexts/LanguageContext'
 import { GroceryProvider } from './contexts/GroceryContext'
 import { Toaster } from './components/ui/toaster'
 import './index.css'
 
+// Offline support (app shell + last grocery list); dev server stays uncached
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error)
+    })
+  })
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <BrowserRouter>
-      <AuthProvider>
-        <GroceryProvider>
-          <App />
-          <Toaster />
-        </GroceryProvider>
-      </AuthProvider>
+      <LanguageProvider>
+        <AuthProvider>
+          <GroceryProvider>
+            <App />
+            <Toaster />
+          </GroceryProvider>
+        </AuthProvider>
+      </LanguageProvider>
     </BrowserRouter>
   </React.StrictMode>,
 )
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ScrollText } from 'lucide-react';
+import { api, ActivityEntry, ItemStatus, OperationType } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { formatQuantity } from '@/lib/units';
+import { formatDate, formatTime, t, type MessageKey } from '@/lib/i18n';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+// Entries per request (see GET /groceries/activity)
+const PAGE_SIZE = 50;
+
+const VERBS: Record<OperationType, MessageKey> = {
+  add: 'activity.add',
+  parse: 'activity.add',
+  menu: 'activity.menu',
+  staples: 'activity.add',
+  edit: 'activity.edit',
+  status: 'activity.status',
+  delete: 'activity.delete',
+  delete_batch: 'activity.deleteBatch',
+  clear_found: 'activity.clearFound',
+  reset_selection: 'activity.resetSelection',
+  complete: 'activity.complete',
+};
+
+const STATUS_LABELS: Record<ItemStatus, MessageKey> = {
+  pending: 'activity.statusPending',
+  selected: 'activity.statusSelected',
+  found: 'activity.statusFound',
+  not_found: 'activity.statusNotFound',
+};
+
+type ActivityItem = ActivityEntry['items'][number];
+
+// What happened to one item, e.g. "Milk 1 L → 2 L" or "Eggs not found"
+function describeItem(type: OperationType, { product_name, before, after }: ActivityItem) {
+  if (type === 'status' && after) {
+    return `${product_name} ${t(STATUS_LABELS[after.status])}`;
+  }
+  if (before && after) {
+    const from = formatQuantity(before.quantity, before.unit);
+    const to = formatQuantity(after.quantity, after.unit);
+    return from !== to ? `${product_name} ${from} → ${to}` : product_name;
+  }
+  const snapshot = after ?? before;
+  return snapshot ? `${product_name} (${formatQuantity(snapshot.quantity, snapshot.unit)})` : product_name;
+}
+
+function formatDayHeading(dateString: string) {
+  return formatDate(dateString, { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+// Who changed what on the shared list
+export default function Activity() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+
+  const loadPage = useCallback(async (before?: number) => {
+    try {
+      const page = await api.getActivity(before);
+      setEntries(prev => before ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      toast({
+        title: t('activity.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast, t]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const actorName = (entry: ActivityEntry) => {
+    if (entry.user_id === null) return entry.type === 'staples' ? t('activity.staples') : t('activity.someone');
+    if (entry.user_id === user?.id) return t('activity.you');
+    return entry.user_name || t('activity.member');
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  // Entries come newest first, so each day starts where the date changes
+  const days: { day: string; entries: ActivityEntry[] }[] = [];
+  for (const entry of entries) {
+    const day = formatDayHeading(entry.created_at);
+    if (days[days.length - 1]?.day !== day) days.push({ day, entries: [] });
+    days[days.length - 1].entries.push(entry);
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h2 className="text-2xl font-heading font-bold text-foreground">{t('nav.activity')}</h2>
+        <p className="text-muted-foreground">{t('activity.subtitle')}</p>
+      </motion.div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <ScrollText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>{t('activity.empty')}</p>
+        </div>
+      ) : (
+        days.map(({ day, entries: dayEntries }) => (
+          <div key={day} className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">{day}</h3>
+            <Card>
+              <CardContent className="p-0 divide-y">
+                {dayEntries.map(entry => (
+                  <div key={entry.id} className="flex gap-3 px-4 py-3">
+                    <span className="text-xs text-muted-foreground tabular-nums pt-0.5 w-12 shrink-0">
+                      {formatTime(entry.created_at)}
+                    </span>
+                    <div className="flex-1 min-w-0 text-sm">
+                      <span className="font-medium">{actorName(entry)}</span>
+                      {' '}{t(VERBS[entry.type])}{' '}
+                      <span className="text-muted-foreground">
+                        {entry.items.map(item => describeItem(entry.type, item)).join(', ')}
+                      </span>
+                      {entry.state === 'undone' && (
+                        <span className="ms-2 text-xs bg-muted px-1.5 py-0.5 rounded">{t('activity.undone')}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        ))
+      )}
+
+      {hasMore && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => loadPage(entries[entries.length - 1].id)}
+        >
+          {t('activity.loadOlder')}
+        </Button>
+      )}
+    </div>
+  );
+}
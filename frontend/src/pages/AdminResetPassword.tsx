@@ -6,10 +6,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
+import { formatDateTime } from '@/lib/i18n';
 
 export default function AdminResetPassword() {
   const { toast } = useToast();
+  const { t } = useTranslation();
   
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -27,14 +30,14 @@ export default function AdminResetPassword() {
       setResetLink(response.resetUrl);
       setExpiresAt(response.expiresAt);
       toast({
-        title: 'Reset link generated',
-        description: `Reset link created for ${response.userEmail}`,
+        title: t('adminReset.generated'),
+        description: t('adminReset.generatedFor', { email: response.userEmail }),
         variant: 'success',
       });
     } catch (err) {
       toast({
-        title: 'Failed to generate reset link',
-        description: err instanceof Error ? err.message : 'An error occurred',
+        title: t('adminReset.failed'),
+        description: err instanceof Error ? err.message : t('common.error'),
         variant: 'destructive',
       });
     } finally {
@@ -49,25 +52,20 @@ export default function AdminResetPassword() {
       await navigator.clipboard.writeText(resetLink);
       setCopied(true);
       toast({
-        title: 'Copied!',
-        description: 'Reset link copied to clipboard',
+        title: t('household.copiedTitle'),
+        description: t('adminReset.copiedHint'),
         variant: 'success',
       });
       setTimeout(() => setCopied(false), 2000);
     } catch {
       toast({
-        title: 'Failed to copy',
-        description: 'Please select and copy the link manually',
+        title: t('household.copyFailed'),
+        description: t('household.copyManually'),
         variant: 'destructive',
       });
     }
   };
 
-  const formatExpiry = (isoDate: string) => {
-    const date = new Date(isoDate);
-    return date.toLocaleString();
-  };
-
   return (
     <div className="container max-w-2xl py-8">
       <motion.div
@@ -82,24 +80,24 @@ export default function AdminResetPassword() {
                 <KeyRound className="w-5 h-5 text-white" />
               </div>
               <div>
-                <CardTitle>Password Reset</CardTitle>
-                <CardDescription>Generate a password reset link for a user</CardDescription>
+                <CardTitle>{t('adminReset.title')}</CardTitle>
+                <CardDescription>{t('adminReset.subtitle')}</CardDescription>
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="email">User Email</Label>
+                <Label htmlFor="email">{t('adminReset.userEmail')}</Label>
                 <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Mail className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                   <Input
                     id="email"
                     type="email"
                     placeholder="user@example.com"
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
-                    className="pl-10"
+                    className="ps-10"
                     required
                   />
                 </div>
@@ -109,8 +107,8 @@ export default function AdminResetPassword() {
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
                 ) : (
                   <>
-                    Generate Reset Link
-                    <ArrowRight className="ml-2 w-4 h-4" />
+                    {t('adminReset.generate')}
+                    <ArrowRight className="ms-2 w-4 h-4 rtl:rotate-180" />
                   </>
                 )}
               </Button>
@@ -124,7 +122,7 @@ export default function AdminResetPassword() {
               >
                 <div className="p-4 bg-muted rounded-lg space-y-3">
                   <div className="flex items-center justify-between">
-                    <Label className="text-sm font-medium">Reset Link</Label>
+                    <Label className="text-sm font-medium">{t('adminReset.link')}</Label>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -133,13 +131,13 @@ export default function AdminResetPassword() {
                     >
                       {copied ? (
                         <>
-                          <Check className="w-4 h-4 mr-1 text-green-600" />
-                          Copied
+                          <Check className="w-4 h-4 me-1 text-green-600" />
+                          {t('common.copied')}
                         </>
                       ) : (
                         <>
-                          <Copy className="w-4 h-4 mr-1" />
-                          Copy
+                          <Copy className="w-4 h-4 me-1" />
+                          {t('common.copy')}
                         </>
                       )}
                     </Button>
@@ -149,13 +147,12 @@ export default function AdminResetPassword() {
                   </div>
                   {expiresAt && (
                     <p className="text-xs text-muted-foreground">
-                      Expires: {formatExpiry(expiresAt)}
+                      {t('household.expires', { date: formatDateTime(expiresAt) })}
                     </p>
                   )}
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Share this link with the user. They can use it to set a new password.
-                  The link expires in 1 hour.
+                  {t('adminReset.share')}
                 </p>
               </motion.div>
             )}
@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Edit2, Sparkles, X } from 'lucide-react';
+import { api, AiReview as Review, AiReviewEdits, AiReviewKind, AiReviewStatus, Category, Product } from '@/lib/api';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate, t, type MessageKey } from '@/lib/i18n';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+const KIND_LABELS: Record<AiReviewKind, MessageKey> = {
+  product: 'aiReview.kindProduct',
+  alias: 'aiReview.kindAlias',
+  category: 'aiReview.kindCategory',
+  category_change: 'aiReview.kindCategoryChange',
+};
+
+const STATUS_LABELS: Record<AiReviewStatus, MessageKey> = {
+  pending: 'aiReview.pending',
+  approved: 'aiReview.approved',
+  rejected: 'aiReview.rejected',
+};
+
+const EMPTY_MESSAGES: Record<AiReviewStatus, MessageKey> = {
+  pending: 'aiReview.emptyPending',
+  approved: 'aiReview.emptyApproved',
+  rejected: 'aiReview.emptyRejected',
+};
+
+// What rejecting a change undoes
+const REJECT_HINTS: Record<AiReviewKind, MessageKey> = {
+  product: 'aiReview.rejectProduct',
+  alias: 'aiReview.rejectAlias',
+  category: 'aiReview.rejectCategory',
+  category_change: 'aiReview.rejectCategoryChange',
+};
+
+const selectClassName = 'w-full h-10 px-2 text-sm border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary';
+
+// What the change did, e.g. "“lait demi” → Lait demi-écrémé"
+function describe(review: Review) {
+  switch (review.kind) {
+    case 'product':
+      return t('aiReview.productIn', {
+        product: review.product_name ?? '',
+        category: `${review.category_icon ?? ''} ${review.category_name ?? t('aiReview.noCategory')}`,
+      });
+    case 'alias':
+      return `“${review.alias}” → ${review.product_name}`;
+    case 'category':
+      return `${review.category_icon ?? ''} ${review.category_name ?? review.ai_category}`;
+    case 'category_change':
+      return `${review.product_name}: ${review.previous_category_name ?? t('aiReview.noCategory')} → ${review.category_name ?? review.ai_category}`;
+  }
+}
+
+// The edit form starts from the change as it is
+function initialEdits(review: Review): AiReviewEdits {
+  switch (review.kind) {
+    case 'product':
+      return { name: review.product_name ?? '', category_id: review.category_id ?? undefined };
+    case 'alias':
+      return { alias: review.alias ?? '' };
+    case 'category':
+      return { name: review.category_name ?? '', icon: review.category_icon ?? '' };
+    case 'category_change':
+      return { category_id: review.category_id ?? undefined };
+  }
+}
+
+// Products, aliases and categories the AI added to the catalog, approved,
+// corrected or rolled back one by one
+export default function AiReview() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<AiReviewStatus>('pending');
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ review: Review; edits: AiReviewEdits } | null>(null);
+  const [rejecting, setRejecting] = useState<Review | null>(null);
+  const [mergeIntoId, setMergeIntoId] = useState('');
+
+  const loadReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReviews(await api.getAiReviews(status));
+    } catch (error) {
+      toast({
+        title: t('aiReview.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, toast, t]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  useEffect(() => {
+    Promise.all([api.getCategories(), api.getProducts()])
+      .then(([categoriesData, productsData]) => {
+        setCategories(categoriesData);
+        setProducts([...productsData].sort((a, b) => a.name.localeCompare(b.name)));
+      })
+      .catch(() => {});
+  }, []);
+
+  const closeReview = async (review: Review, action: () => Promise<Review>, title: string) => {
+    setBusyId(review.id);
+    try {
+      await action();
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+      toast({ title, variant: 'success' });
+      return true;
+    } catch (error) {
+      toast({
+        title: t('aiReview.reviewFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (review: Review) => closeReview(review, () => api.approveAiReview(review.id), t('aiReview.approvedToast'));
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const done = await closeReview(
+      editing.review,
+      () => api.approveAiReview(editing.review.id, editing.edits),
+      t('aiReview.correctedToast')
+    );
+    if (done) setEditing(null);
+  };
+
+  const handleReject = async (review: Review) => {
+    if (review.kind === 'product') {
+      setMergeIntoId('');
+      setRejecting(review);
+      return;
+    }
+    if (!confirm(t('aiReview.confirmReject', { hint: t(REJECT_HINTS[review.kind]) }))) return;
+    await closeReview(review, () => api.rejectAiReview(review.id), t('aiReview.rolledBack'));
+  };
+
+  const handleConfirmRejectProduct = async () => {
+    if (!rejecting) return;
+    const target = mergeIntoId ? parseInt(mergeIntoId) : undefined;
+    const done = await closeReview(
+      rejecting,
+      () => api.rejectAiReview(rejecting.id, target),
+      target ? t('aiReview.productMerged') : t('aiReview.productDeleted')
+    );
+    if (done) setRejecting(null);
+  };
+
+  const categorySelect = (value: number | undefined, onChange: (id: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      aria-label={t('common.category')}
+      className={selectClassName}
+    >
+      {categories.map(category => (
+        <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h2 className="text-2xl font-heading font-bold text-foreground">{t('aiReview.title')}</h2>
+        <p className="text-muted-foreground">{t('aiReview.subtitle')}</p>
+      </motion.div>
+
+      <div className="flex gap-1 bg-muted p-1 rounded-lg">
+        {(Object.keys(STATUS_LABELS) as AiReviewStatus[]).map(s => (
+          <Button
+            key={s}
+            variant={status === s ? 'default' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            onClick={() => setStatus(s)}
+          >
+            {t(STATUS_LABELS[s])}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : reviews.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <Sparkles className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>{t(EMPTY_MESSAGES[status])}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {reviews.map(review => (
+            <Card key={review.id} className="p-3 space-y-2">
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <span className="text-xs bg-muted px-1.5 py-0.5 rounded">{t(KIND_LABELS[review.kind])}</span>
+                  <p className="font-medium mt-1">{describe(review)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('aiReview.from', { input: review.original_input ?? '' })}
+                    {review.user_name && ` ${t('aiReview.typedBy', { name: review.user_name })}`}
+                    {' · '}{t('aiReview.aiAnswered', { product: review.ai_product ?? '', category: review.ai_category ?? '' })}
+                    {' · '}{formatDate(review.created_at)}
+                  </p>
+                  {review.reviewed_at && (
+                    <p className="text-xs text-muted-foreground">
+                      {t(STATUS_LABELS[review.status])}
+                      {review.reviewer_name && ` ${t('aiReview.reviewedBy', { name: review.reviewer_name })}`}
+                      {' '}{t('aiReview.reviewedOn', { date: formatDate(review.reviewed_at) })}
+                    </p>
+                  )}
+                </div>
+                {review.status === 'pending' && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleApprove(review)}
+                      disabled={busyId !== null}
+                      title={t('aiReview.approve')}
+                    >
+                      <Check className="w-4 h-4 text-emerald-600" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditing({ review, edits: initialEdits(review) })}
+                      disabled={busyId !== null}
+                      title={t('aiReview.correctAndApprove')}
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleReject(review)}
+                      disabled={busyId !== null}
+                      title={t('aiReview.reject')}
+                    >
+                      <X className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Correct and approve */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing && t('aiReview.correctTitle', { kind: t(KIND_LABELS[editing.review.kind]).toLowerCase() })}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4 py-2">
+              {(editing.review.kind === 'product' || editing.review.kind === 'category') && (
+                <div className="space-y-2">
+                  <Label htmlFor="review-name">{t('common.name')}</Label>
+                  <Input
+                    id="review-name"
+                    value={editing.edits.name ?? ''}
+                    onChange={(e) => setEditing({ ...editing, edits: { ...editing.edits, name: e.target.value } })}
+                  />
+                </div>
+              )}
+              {editing.review.kind === 'category' && (
+                <div className="space-y-2">
+                  <Label htmlFor="review-icon">{t('aiReview.icon')}</Label>
+                  <Input
+                    id="review-icon"
+                    value={editing.edits.icon ?? ''}
+                    onChange={(e) => setEditing({ ...editing, edits: { ...editing.edits, icon: e.target.value } })}
+                  />
+                </div>
+              )}
+              {editing.review.kind === 'alias' && (
+                <div className="space-y-2">
+                  <Label htmlFor="review-alias">{t('aiReview.aliasOf', { name: editing.review.product_name ?? '' })}</Label>
+                  <Input
+                    id="review-alias"
+                    value={editing.edits.alias ?? ''}
+                    onChange={(e) => setEditing({ ...editing, edits: { ...editing.edits, alias: e.target.value } })}
+                  />
+                </div>
+              )}
+              {(editing.review.kind === 'product' || editing.review.kind === 'category_change') && (
+                <div className="space-y-2">
+                  <Label>{t('common.category')}</Label>
+                  {categorySelect(editing.edits.category_id, (id) =>
+                    setEditing({ ...editing, edits: { ...editing.edits, category_id: id } })
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={busyId !== null}>
+              {t('aiReview.saveApprove')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject a learned product: delete it or merge it into an existing one */}
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('aiReview.rejectTitle', { name: rejecting?.product_name ?? '' })}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="review-merge">{t('aiReview.mergeInto')}</Label>
+            <select
+              id="review-merge"
+              value={mergeIntoId}
+              onChange={(e) => setMergeIntoId(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">{t('aiReview.deleteInstead')}</option>
+              {products
+                .filter(product => product.id !== rejecting?.product_id)
+                .map(product => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              {t('aiReview.mergeHint')}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmRejectProduct} disabled={busyId !== null}>
+              {mergeIntoId ? t('aiReview.merge') : t('common.delete')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
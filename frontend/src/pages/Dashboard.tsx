@@ -2,22 +2,34 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sparkles, Check, Trash2, Package, Search } from 'lucide-react';
 import { useGrocery } from '@/contexts/GroceryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { api, Product } from '@/lib/api';
+import { api, Product, ParseSuggestion, UseSoon as UseSoonData } from '@/lib/api';
 import CategorySection from '@/components/CategorySection';
+import DidYouMeanDialog from '@/components/DidYouMeanDialog';
+import RepurchaseSuggestions from '@/components/RepurchaseSuggestions';
+import RunningLow from '@/components/RunningLow';
+import UseSoon from '@/components/UseSoon';
+import UndoControls from '@/components/UndoControls';
+import { formatQuantity, hasQuantity } from '@/lib/units';
 import LoadingSpinner from '@/components/LoadingSpinner';
 
 export default function Dashboard() {
   const { grouped, categoryInfo, foundItems, isLoading, fetchItems, parseAndAdd, addItem, clearFound } = useGrocery();
+  const { canEdit } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [inputText, setInputText] = useState('');
   const [isParsing, setIsParsing] = useState(false);
+  const [parseSuggestions, setParseSuggestions] = useState<ParseSuggestion[]>([]);
+  const [useSoon, setUseSoon] = useState<UseSoonData | null>(null);
   
   // Quick add with autocomplete
   const [quickAddText, setQuickAddText] = useState('');
@@ -65,15 +77,15 @@ export default function Dashboard() {
   const handleSelectProduct = async (product: Product) => {
     try {
       await addItem(product.id, 1);
-      toast({ title: `Added ${product.name}` });
+      toast({ title: t('dashboard.added', { name: product.name }) });
       setQuickAddText('');
       setSuggestions([]);
       setShowSuggestions(false);
       inputRef.current?.focus();
     } catch (error) {
       toast({
-        title: 'Failed to add item',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('dashboard.addFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -84,18 +96,21 @@ export default function Dashboard() {
     
     setIsSearching(true);
     try {
-      const stats = await parseAndAdd(quickAddText);
-      toast({
-        title: 'Item added!',
-        description: stats.fromAI > 0 ? 'Parsed by AI' : 'Added from database',
-      });
+      const { stats, suggestions } = await parseAndAdd(quickAddText);
+      if (stats.total > 0) {
+        toast({
+          title: t('dashboard.itemAdded'),
+          description: stats.fromAI > 0 ? t('dashboard.parsedByAi') : t('dashboard.fromDatabase'),
+        });
+      }
+      setParseSuggestions(suggestions);
       setQuickAddText('');
       setSuggestions([]);
       setShowSuggestions(false);
     } catch (error) {
       toast({
-        title: 'Failed to add item',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('dashboard.addFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -138,23 +153,32 @@ export default function Dashboard() {
     fetchItems();
   }, [fetchItems]);
 
+  useEffect(() => {
+    api.getUseSoon()
+      .then(setUseSoon)
+      .catch(() => setUseSoon(null));
+  }, []);
+
   const handleAddItems = async () => {
     if (!inputText.trim()) return;
     
     setIsParsing(true);
     try {
-      const stats = await parseAndAdd(inputText);
-      toast({
-        title: 'Items added!',
-        description: `Added ${stats.total} items (${stats.fromCache} from database, ${stats.fromAI} parsed by AI)`,
-        variant: 'success',
-      });
+      const { stats, suggestions } = await parseAndAdd(inputText);
+      if (stats.total > 0) {
+        toast({
+          title: t('dashboard.itemsAdded'),
+          description: t('dashboard.itemsAddedDetail', { total: stats.total, cached: stats.fromCache, ai: stats.fromAI }),
+          variant: 'success',
+        });
+      }
+      setParseSuggestions(suggestions);
       setInputText('');
       setIsAddDialogOpen(false);
     } catch (error) {
       toast({
-        title: 'Failed to add items',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('dashboard.addItemsFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -166,13 +190,13 @@ export default function Dashboard() {
     try {
       await clearFound();
       toast({
-        title: 'Cleared',
-        description: 'Found items have been removed',
+        title: t('dashboard.cleared'),
+        description: t('dashboard.foundRemoved'),
       });
     } catch (error) {
       toast({
-        title: 'Failed to clear',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('dashboard.clearFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -194,88 +218,98 @@ export default function Dashboard() {
         className="flex items-center justify-between"
       >
         <div>
-          <h2 className="text-2xl font-heading font-bold text-foreground">Your List</h2>
+          <h2 className="text-2xl font-heading font-bold text-foreground">{t('dashboard.title')}</h2>
           <p className="text-muted-foreground">
-            {totalItems === 0 ? 'No items yet' : `${totalItems} item${totalItems !== 1 ? 's' : ''} to get`}
+            {totalItems === 0 ? t('dashboard.noItems') : t('dashboard.itemsToGet', { count: totalItems })}
           </p>
         </div>
-        <Button onClick={() => setIsAddDialogOpen(true)} size="lg" className="gap-2">
-          <Sparkles className="w-5 h-5" />
-          AI Add
-        </Button>
-      </motion.div>
-
-      {/* Quick Add with Autocomplete */}
-      <motion.div
-        initial={{ opacity: 0, y: -10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.1 }}
-        ref={quickAddRef}
-        className="relative"
-      >
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            ref={inputRef}
-            type="text"
-            placeholder="Quick add item..."
-            value={quickAddText}
-            onChange={(e) => handleQuickAddChange(e.target.value)}
-            onKeyDown={handleQuickAddKeyDown}
-            onFocus={() => suggestions.length > 0 && setShowSuggestions(true)}
-            className="pl-9 pr-4"
-          />
-          {isSearching && (
-            <div className="absolute right-3 top-1/2 -translate-y-1/2">
-              <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent" />
-            </div>
+        <div className="flex items-center gap-2">
+          <UndoControls />
+          {canEdit && (
+            <Button onClick={() => setIsAddDialogOpen(true)} size="lg" className="gap-2">
+              <Sparkles className="w-5 h-5" />
+              {t('dashboard.aiAdd')}
+            </Button>
           )}
         </div>
+      </motion.div>
+
+      {/* Quick Add with Autocomplete (shoppers can't add items) */}
+      {canEdit && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          ref={quickAddRef}
+          className="relative"
+        >
+          <div className="relative">
+            <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              ref={inputRef}
+              type="text"
+              placeholder={t('dashboard.quickAdd')}
+              value={quickAddText}
+              onChange={(e) => handleQuickAddChange(e.target.value)}
+              onKeyDown={handleQuickAddKeyDown}
+              onFocus={() => suggestions.length > 0 && setShowSuggestions(true)}
+              className="ps-9 pe-4"
+            />
+            {isSearching && (
+              <div className="absolute end-3 top-1/2 -translate-y-1/2">
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent" />
+              </div>
+            )}
+          </div>
         
-        {/* Suggestions dropdown */}
-        <AnimatePresence>
-          {showSuggestions && suggestions.length > 0 && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="absolute z-50 w-full mt-1 bg-background border rounded-lg shadow-lg overflow-hidden"
-            >
-              {suggestions.map((product, index) => (
+          {/* Suggestions dropdown */}
+          <AnimatePresence>
+            {showSuggestions && suggestions.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="absolute z-50 w-full mt-1 bg-background border rounded-lg shadow-lg overflow-hidden"
+              >
+                {suggestions.map((product, index) => (
+                  <button
+                    key={product.id}
+                    onClick={() => handleSelectProduct(product)}
+                    className={`w-full px-3 py-2 text-start flex items-center justify-between hover:bg-muted transition-colors ${
+                      index === selectedIndex ? 'bg-muted' : ''
+                    }`}
+                  >
+                    <span className="font-medium">{product.name}</span>
+                    <span className="text-xs text-muted-foreground flex items-center gap-1">
+                      <span>{product.category_icon}</span>
+                      {product.category_name}
+                    </span>
+                  </button>
+                ))}
+              </motion.div>
+            )}
+            {quickAddText.length >= 2 && !isSearching && suggestions.length === 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="absolute z-50 w-full mt-1 bg-background border rounded-lg shadow-lg overflow-hidden"
+              >
                 <button
-                  key={product.id}
-                  onClick={() => handleSelectProduct(product)}
-                  className={`w-full px-3 py-2 text-left flex items-center justify-between hover:bg-muted transition-colors ${
-                    index === selectedIndex ? 'bg-muted' : ''
-                  }`}
+                  onClick={handleQuickAddSubmit}
+                  className="w-full px-3 py-2 text-start flex items-center gap-2 hover:bg-muted transition-colors"
                 >
-                  <span className="font-medium">{product.name}</span>
-                  <span className="text-xs text-muted-foreground flex items-center gap-1">
-                    <span>{product.category_icon}</span>
-                    {product.category_name}
-                  </span>
+                  <Sparkles className="w-4 h-4 text-primary" />
+                  <span>{t('dashboard.addWithAi', { text: quickAddText })}</span>
                 </button>
-              ))}
-            </motion.div>
-          )}
-          {quickAddText.length >= 2 && !isSearching && suggestions.length === 0 && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="absolute z-50 w-full mt-1 bg-background border rounded-lg shadow-lg overflow-hidden"
-            >
-              <button
-                onClick={handleQuickAddSubmit}
-                className="w-full px-3 py-2 text-left flex items-center gap-2 hover:bg-muted transition-colors"
-              >
-                <Sparkles className="w-4 h-4 text-primary" />
-                <span>Add "<strong>{quickAddText}</strong>" with AI</span>
-              </button>
-            </motion.div>
-          )}
-        </AnimatePresence>
-      </motion.div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Products usually bought again by now */}
+          <RepurchaseSuggestions />
+        </motion.div>
+      )}
 
       {/* Empty State */}
       {totalItems === 0 && foundItems.length === 0 && (
@@ -287,17 +321,23 @@ export default function Dashboard() {
           <div className="w-20 h-20 mx-auto mb-6 rounded-3xl bg-gradient-to-br from-teal-100 to-teal-200 flex items-center justify-center">
             <Package className="w-10 h-10 text-teal-600" />
           </div>
-          <h3 className="text-xl font-heading font-semibold mb-2">Your list is empty</h3>
+          <h3 className="text-xl font-heading font-semibold mb-2">{t('dashboard.emptyTitle')}</h3>
           <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
-            Add items by typing them naturally. Our AI will understand and categorize them for you.
+            {t('dashboard.emptyHint')}
           </p>
-          <Button onClick={() => setIsAddDialogOpen(true)} size="lg" className="gap-2">
-            <Sparkles className="w-5 h-5" />
-            Add Your First Items
-          </Button>
+          {canEdit && (
+            <Button onClick={() => setIsAddDialogOpen(true)} size="lg" className="gap-2">
+              <Sparkles className="w-5 h-5" />
+              {t('dashboard.addFirst')}
+            </Button>
+          )}
         </motion.div>
       )}
 
+      {/* Pantry items to use before they go off, then items to buy again */}
+      <UseSoon useSoon={useSoon} />
+      <RunningLow />
+
       {/* Category Sections */}
       <div className="space-y-4">
         <AnimatePresence mode="popLayout">
@@ -331,7 +371,7 @@ export default function Dashboard() {
                 <div className="flex items-center gap-2">
                   <Check className="w-5 h-5 text-emerald-600" />
                   <h3 className="font-heading font-semibold text-emerald-900">
-                    Found Items ({foundItems.length})
+                    {t('dashboard.foundItems', { count: foundItems.length })}
                   </h3>
                 </div>
                 <Button
@@ -340,8 +380,8 @@ export default function Dashboard() {
                   onClick={handleClearFound}
                   className="text-emerald-700 hover:text-emerald-900 hover:bg-emerald-100"
                 >
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Clear
+                  <Trash2 className="w-4 h-4 me-1" />
+                  {t('common.clear')}
                 </Button>
               </div>
               <div className="space-y-2">
@@ -352,7 +392,7 @@ export default function Dashboard() {
                   >
                     <Check className="w-4 h-4 text-emerald-600" />
                     <span className="line-through text-emerald-700">
-                      {item.product_name} {item.quantity > 1 && `(x${item.quantity})`}
+                      {item.product_name} {hasQuantity(item.quantity, item.unit) && `(${formatQuantity(item.quantity, item.unit)})`}
                     </span>
                   </div>
                 ))}
@@ -368,47 +408,50 @@ export default function Dashboard() {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Sparkles className="w-5 h-5 text-primary" />
-              Add Items
+              {t('dashboard.addItems')}
             </DialogTitle>
             <DialogDescription>
-              Type your grocery items naturally. Our AI will parse and categorize them.
+              {t('dashboard.addItemsHint')}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="items">Items (one per line)</Label>
+              <Label htmlFor="items">{t('dashboard.itemsLabel')}</Label>
               <textarea
                 id="items"
                 className="flex min-h-[150px] w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none"
-                placeholder="2 pommes&#10;Pain complet&#10;Lait&#10;Fromage râpé"
+                placeholder={t('dashboard.itemsPlaceholder')}
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
               />
             </div>
             <p className="text-xs text-muted-foreground">
-              Tip: You can include quantities like "2 pommes" or "pain x3"
+              {t('dashboard.tip')}
             </p>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button onClick={handleAddItems} disabled={isParsing || !inputText.trim()}>
               {isParsing ? (
                 <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                  Parsing...
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white me-2" />
+                  {t('dashboard.parsing')}
                 </>
               ) : (
                 <>
-                  <Sparkles className="w-4 h-4 mr-2" />
-                  Parse & Add
+                  <Sparkles className="w-4 h-4 me-2" />
+                  {t('dashboard.parseAndAdd')}
                 </>
               )}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Loose matches waiting for confirmation */}
+      <DidYouMeanDialog suggestions={parseSuggestions} onChange={setParseSuggestions} />
     </div>
   );
 }
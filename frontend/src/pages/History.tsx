@@ -6,8 +6,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useGrocery } from '@/contexts/GroceryContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/i18n';
+import { formatQuantity, formatPrice, hasQuantity, lineCost } from '@/lib/units';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import DataTransfer from '@/components/DataTransfer';
 
 export default function History() {
   const [sessions, setSessions] = useState<ShoppingSession[]>([]);
@@ -18,6 +22,7 @@ export default function History() {
   const [filter, setFilter] = useState<'all' | 'found' | 'not_found'>('all');
   const { toast } = useToast();
   const { fetchItems } = useGrocery();
+  const { t } = useTranslation();
 
   useEffect(() => {
     loadHistory();
@@ -34,8 +39,8 @@ export default function History() {
       setHistoryItems(itemsData);
     } catch (error) {
       toast({
-        title: 'Failed to load history',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('history.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -51,8 +56,8 @@ export default function History() {
       setSessionItems(prev => ({ ...prev, [sessionId]: items }));
     } catch (error) {
       toast({
-        title: 'Failed to load session',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('history.loadSessionFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -73,29 +78,26 @@ export default function History() {
       await fetchItems();
       await loadHistory();
       toast({
-        title: 'Item restored',
-        description: 'Item has been added back to your list',
+        title: t('history.restored'),
+        description: t('history.restoredHint'),
         variant: 'success',
       });
     } catch (error) {
       toast({
-        title: 'Failed to restore',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('history.restoreFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
+  const formatSessionDate = (dateString: string) => formatDate(dateString, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
 
   if (isLoading) {
     return <LoadingSpinner />;
@@ -107,10 +109,13 @@ export default function History() {
         <div className="w-20 h-20 mx-auto mb-6 rounded-3xl bg-gradient-to-br from-purple-100 to-purple-200 flex items-center justify-center">
           <HistoryIcon className="w-10 h-10 text-purple-600" />
         </div>
-        <h3 className="text-xl font-heading font-semibold mb-2">No history yet</h3>
+        <h3 className="text-xl font-heading font-semibold mb-2">{t('history.empty')}</h3>
         <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
-          Complete a shopping session to see your history here.
+          {t('history.emptyHint')}
         </p>
+        <div className="max-w-lg mx-auto text-start">
+          <DataTransfer datasets={['history']} onImported={loadHistory} />
+        </div>
       </div>
     );
   }
@@ -124,9 +129,9 @@ export default function History() {
         className="flex items-center justify-between"
       >
         <div>
-          <h2 className="text-2xl font-heading font-bold text-foreground">History</h2>
+          <h2 className="text-2xl font-heading font-bold text-foreground">{t('nav.history')}</h2>
           <p className="text-muted-foreground">
-            {sessions.length} shopping session{sessions.length !== 1 ? 's' : ''}
+            {t('history.sessionCount', { count: sessions.length })}
           </p>
         </div>
         
@@ -144,9 +149,9 @@ export default function History() {
                 filter === f && f === 'not_found' && 'bg-red-500 hover:bg-red-600'
               )}
             >
-              {f === 'all' && 'All'}
-              {f === 'found' && <><Check className="w-3 h-3 mr-1" /> Found</>}
-              {f === 'not_found' && <><X className="w-3 h-3 mr-1" /> Not Found</>}
+              {f === 'all' && t('history.all')}
+              {f === 'found' && <><Check className="w-3 h-3 me-1" /> {t('shopping.found')}</>}
+              {f === 'not_found' && <><X className="w-3 h-3 me-1" /> {t('shopping.notFound')}</>}
             </Button>
           ))}
         </div>
@@ -166,7 +171,7 @@ export default function History() {
               <Card className="overflow-hidden">
                 <button
                   onClick={() => handleExpandSession(session.shopping_session_id)}
-                  className="w-full p-4 flex items-center justify-between hover:bg-muted/50 transition-colors text-left"
+                  className="w-full p-4 flex items-center justify-between hover:bg-muted/50 transition-colors text-start"
                 >
                   <div className="flex items-center gap-3">
                     <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-purple-100 to-purple-200 flex items-center justify-center">
@@ -174,15 +179,21 @@ export default function History() {
                     </div>
                     <div>
                       <p className="font-medium text-foreground">
-                        {formatDate(session.ended_at)}
+                        {formatSessionDate(session.ended_at)}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {session.item_count} item{session.item_count !== 1 ? 's' : ''}
+                        {t('category.itemCount', { count: session.item_count })}
+                        {session.store_name && ` · ${session.store_name}`}
                       </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
                     <div className="flex items-center gap-2 text-sm">
+                      {session.total_spent !== null && (
+                        <span className="font-medium text-foreground tabular-nums">
+                          {formatPrice(session.total_spent)}
+                        </span>
+                      )}
                       <span className="flex items-center gap-1 text-emerald-600">
                         <Check className="w-4 h-4" />
                         {session.found_count}
@@ -195,7 +206,7 @@ export default function History() {
                     {expandedSession === session.shopping_session_id ? (
                       <ChevronDown className="w-5 h-5 text-muted-foreground" />
                     ) : (
-                      <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                      <ChevronRight className="w-5 h-5 text-muted-foreground rtl:rotate-180" />
                     )}
                   </div>
                 </button>
@@ -237,9 +248,14 @@ export default function History() {
                                   >
                                     {item.product_name}
                                   </span>
-                                  {item.quantity > 1 && (
-                                    <span className="text-sm text-muted-foreground ml-2">
-                                      x{item.quantity}
+                                  {hasQuantity(item.quantity, item.unit) && (
+                                    <span className="text-sm text-muted-foreground ms-2">
+                                      {formatQuantity(item.quantity, item.unit)}
+                                    </span>
+                                  )}
+                                  {item.unit_price !== null && (
+                                    <span className="text-sm text-muted-foreground ms-2 tabular-nums">
+                                      {formatPrice(lineCost(item.quantity, item.unit, item.unit_price)!)}
                                     </span>
                                   )}
                                 </div>
@@ -251,12 +267,12 @@ export default function History() {
                                 className="gap-1"
                               >
                                 <RotateCcw className="w-4 h-4" />
-                                Restore
+                                {t('history.restore')}
                               </Button>
                             </div>
                           )) || (
                             <div className="text-center py-4 text-muted-foreground">
-                              Loading...
+                              {t('common.loading')}
                             </div>
                           )}
                         </div>
@@ -275,7 +291,7 @@ export default function History() {
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">
-              {filter === 'found' ? 'Recently Found' : 'Recently Not Found'}
+              {filter === 'found' ? t('history.recentlyFound') : t('history.recentlyNotFound')}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -310,7 +326,7 @@ export default function History() {
                     className="gap-1"
                   >
                     <RotateCcw className="w-4 h-4" />
-                    Restore
+                    {t('history.restore')}
                   </Button>
                 </div>
               ))}
@@ -318,6 +334,8 @@ export default function History() {
           </CardContent>
         </Card>
       )}
+
+      <DataTransfer datasets={['history']} onImported={loadHistory} />
     </div>
   );
 }
@@ -0,0 +1,350 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Users, UserPlus, Copy, Check, ArrowRight, Trash2, LogOut, Languages } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { api, HouseholdMember, HouseholdRole, Language } from '@/lib/api';
+import { LANGUAGES, LANGUAGE_LABELS } from '@/lib/languages';
+import { formatDateTime, type MessageKey } from '@/lib/i18n';
+
+const ROLE_LABELS: Record<HouseholdRole, MessageKey> = {
+  owner: 'role.owner',
+  editor: 'role.editor',
+  shopper: 'role.shopper',
+};
+
+const ROLE_DESCRIPTIONS: Record<HouseholdRole, MessageKey> = {
+  owner: 'role.ownerHint',
+  editor: 'role.editorHint',
+  shopper: 'role.shopperHint',
+};
+
+export default function Household() {
+  const { toast } = useToast();
+  const { user, currentHousehold, isOwner, refreshHouseholds, setLanguage } = useAuth();
+  const { t } = useTranslation();
+
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('editor');
+  const [isLoading, setIsLoading] = useState(false);
+  const [joinLink, setJoinLink] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadMembers = useCallback(async () => {
+    if (!currentHousehold) return;
+    try {
+      const data = await api.getHouseholdMembers(currentHousehold.id);
+      setMembers(data);
+    } catch (error) {
+      console.error('Failed to load members:', error);
+    }
+  }, [currentHousehold]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentHousehold) return;
+    setIsLoading(true);
+    setJoinLink(null);
+
+    try {
+      const response = await api.createInvite(currentHousehold.id, inviteRole);
+      setJoinLink(response.joinUrl);
+      setExpiresAt(response.expiresAt);
+      toast({
+        title: t('household.inviteCreated'),
+        description: t('household.inviteRole', { role: t(ROLE_LABELS[response.role]).toLowerCase() }),
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: t('household.inviteFailed'),
+        description: err instanceof Error ? err.message : t('common.error'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyToClipboard = async () => {
+    if (!joinLink) return;
+
+    try {
+      await navigator.clipboard.writeText(joinLink);
+      setCopied(true);
+      toast({
+        title: t('household.copiedTitle'),
+        description: t('household.copiedHint'),
+        variant: 'success',
+      });
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast({
+        title: t('household.copyFailed'),
+        description: t('household.copyManually'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRoleChange = async (member: HouseholdMember, role: HouseholdRole) => {
+    if (!currentHousehold) return;
+    try {
+      const data = await api.updateMemberRole(currentHousehold.id, member.id, role);
+      setMembers(data);
+      if (member.id === user?.id) {
+        await refreshHouseholds();
+      }
+    } catch (err) {
+      toast({
+        title: t('household.roleFailed'),
+        description: err instanceof Error ? err.message : t('common.error'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemove = async (member: HouseholdMember) => {
+    if (!currentHousehold) return;
+    if (!confirm(t('household.confirmRemove', { name: member.name, household: currentHousehold.name }))) return;
+    try {
+      await api.removeMember(currentHousehold.id, member.id);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (err) {
+      toast({
+        title: t('household.removeFailed'),
+        description: err instanceof Error ? err.message : t('common.error'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentHousehold) return;
+    if (!confirm(t('household.confirmLeave', { household: currentHousehold.name }))) return;
+    try {
+      await api.leaveHousehold(currentHousehold.id);
+      await refreshHouseholds();
+    } catch (err) {
+      toast({
+        title: t('household.leaveFailed'),
+        description: err instanceof Error ? err.message : t('common.error'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleLanguageChange = async (value: string) => {
+    try {
+      await setLanguage(value === 'catalog' ? null : value as Language);
+      toast({ title: t('household.languageUpdated') });
+    } catch (error) {
+      toast({
+        title: t('household.languageFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center">
+                <Users className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <CardTitle>{currentHousehold?.name}</CardTitle>
+                <CardDescription>
+                  {t('household.yourRole', { role: currentHousehold ? t(ROLE_LABELS[currentHousehold.role]).toLowerCase() : '' })}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">
+                    {member.name}
+                    {member.id === user?.id && <span className="text-muted-foreground font-normal"> {t('household.you')}</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                </div>
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member, value as HouseholdRole)}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as HouseholdRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>{t(ROLE_LABELS[role])}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-sm text-muted-foreground">{t(ROLE_LABELS[member.role])}</span>
+                )}
+                {isOwner && member.id !== user?.id && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemove(member)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" className="w-full" onClick={handleLeave}>
+              <LogOut className="w-4 h-4 me-2" />
+              {t('household.leave')}
+            </Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.05 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center">
+                <Languages className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <CardTitle>{t('household.productNames')}</CardTitle>
+                <CardDescription>{t('household.productNamesHint')}</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Select value={user?.language ?? 'catalog'} onValueChange={handleLanguageChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="catalog">{t('household.asEntered')}</SelectItem>
+                {LANGUAGES.map((language) => (
+                  <SelectItem key={language} value={language}>{LANGUAGE_LABELS[language]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {isOwner && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: 0.1 }}
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center">
+                  <UserPlus className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <CardTitle>{t('household.invite')}</CardTitle>
+                  <CardDescription>{t('household.inviteHint')}</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={handleCreateInvite} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>{t('household.role')}</Label>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as HouseholdRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as HouseholdRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>{t(ROLE_LABELS[role])}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{t(ROLE_DESCRIPTIONS[inviteRole])}</p>
+                </div>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
+                  ) : (
+                    <>
+                      {t('household.generateLink')}
+                      <ArrowRight className="ms-2 w-4 h-4 rtl:rotate-180" />
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              {joinLink && (
+                <motion.div
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  className="space-y-3"
+                >
+                  <div className="p-4 bg-muted rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">{t('household.inviteLink')}</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={copyToClipboard}
+                        className="h-8"
+                      >
+                        {copied ? (
+                          <>
+                            <Check className="w-4 h-4 me-1 text-green-600" />
+                            {t('common.copied')}
+                          </>
+                        ) : (
+                          <>
+                            <Copy className="w-4 h-4 me-1" />
+                            {t('common.copy')}
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                    <div className="p-3 bg-background rounded border text-sm font-mono break-all">
+                      {joinLink}
+                    </div>
+                    {expiresAt && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('household.expires', { date: formatDateTime(expiresAt) })}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t('household.linkOnce')}
+                  </p>
+                </motion.div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart3, Repeat, AlertTriangle, LayoutGrid, CalendarRange, PieChart } from 'lucide-react';
+import { api, CategoryInsight, CategoryMixPeriod, DateRange, ProductInsight, WeekInsight } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/lib/units';
+import { formatDay, formatNumber, type MessageKey } from '@/lib/i18n';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+type Preset = '30d' | '90d' | '1y' | 'all' | 'custom';
+type Interval = 'week' | 'month';
+
+const PRESETS: { value: Exclude<Preset, 'custom'>; label: MessageKey; days: number | null }[] = [
+  { value: '30d', label: 'insights.preset30d', days: 30 },
+  { value: '90d', label: 'insights.preset90d', days: 90 },
+  { value: '1y', label: 'insights.preset1y', days: 365 },
+  { value: 'all', label: 'insights.presetAll', days: null },
+];
+
+// Categories beyond this many are merged into "Other" in the mix chart
+const MIX_CATEGORIES = 6;
+const MIX_COLORS = ['bg-teal-500', 'bg-amber-400', 'bg-sky-500', 'bg-rose-400', 'bg-violet-500', 'bg-lime-500'];
+const OTHER_COLOR = 'bg-gray-300';
+
+const MIN_LISTED_FOR_MISSING = 2;
+
+// Local calendar date as YYYY-MM-DD
+function toDateString(date: Date) {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function presetRange(days: number | null): DateRange {
+  if (days === null) return {};
+  const from = new Date();
+  from.setDate(from.getDate() - days);
+  return { from: toDateString(from) };
+}
+
+function formatPercent(rate: number) {
+  return formatNumber(rate, { style: 'percent', maximumFractionDigits: 0 });
+}
+
+function formatPeriod(periodStart: string, interval: Interval) {
+  return interval === 'month'
+    ? formatDay(periodStart, { month: 'short', year: '2-digit' })
+    : formatDay(periodStart, { day: 'numeric', month: 'short' });
+}
+
+export default function Insights() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [preset, setPreset] = useState<Preset>('90d');
+  const [range, setRange] = useState<DateRange>(presetRange(90));
+  const [mixInterval, setMixInterval] = useState<Interval>('month');
+
+  const [products, setProducts] = useState<ProductInsight[]>([]);
+  const [categories, setCategories] = useState<CategoryInsight[]>([]);
+  const [weeks, setWeeks] = useState<WeekInsight[]>([]);
+  const [mix, setMix] = useState<CategoryMixPeriod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadInsights = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [productsData, categoriesData, weeksData] = await Promise.all([
+        api.getProductInsights(range),
+        api.getCategoryInsights(range),
+        api.getWeeklyInsights(range),
+      ]);
+      setProducts(productsData);
+      setCategories(categoriesData);
+      setWeeks(weeksData);
+    } catch (error) {
+      toast({
+        title: t('insights.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, toast, t]);
+
+  useEffect(() => {
+    loadInsights();
+  }, [loadInsights]);
+
+  useEffect(() => {
+    api.getCategoryMix(range, mixInterval).then(setMix).catch(() => setMix([]));
+  }, [range, mixInterval]);
+
+  const handlePreset = (value: Exclude<Preset, 'custom'>, days: number | null) => {
+    setPreset(value);
+    setRange(presetRange(days));
+  };
+
+  const handleCustomDate = (field: keyof DateRange, value: string) => {
+    setPreset('custom');
+    setRange(prev => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const tripCount = weeks.reduce((sum, week) => sum + week.session_count, 0);
+  const pricedWeeks = weeks.filter(week => week.total_spent !== null);
+  const totalSpent = pricedWeeks.length > 0
+    ? pricedWeeks.reduce((sum, week) => sum + (week.total_spent ?? 0), 0)
+    : null;
+  const itemsBought = categories.reduce((sum, category) => sum + category.times_bought, 0);
+
+  const mostBought = products.filter(p => p.times_bought > 0).slice(0, 10);
+  const oftenMissing = products
+    .filter(p => p.times_not_found > 0 && p.times_listed >= MIN_LISTED_FOR_MISSING)
+    .sort((a, b) => b.not_found_rate - a.not_found_rate || b.times_not_found - a.times_not_found)
+    .slice(0, 8);
+  const maxCategoryListed = Math.max(1, ...categories.map(c => c.times_listed));
+  const maxWeekSessions = Math.max(1, ...weeks.map(w => w.session_count));
+
+  // Biggest categories over the whole range get a color, the rest is "Other"
+  const mixTotals: Record<string, number> = {};
+  for (const period of mix) {
+    for (const [name, count] of Object.entries(period.categories)) {
+      mixTotals[name] = (mixTotals[name] || 0) + count;
+    }
+  }
+  const mixCategories = Object.entries(mixTotals)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MIX_CATEGORIES)
+    .map(([name]) => name);
+
+  return (
+    <div className="space-y-6 pb-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center">
+                <BarChart3 className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <CardTitle>{t('nav.insights')}</CardTitle>
+                <CardDescription>{t('insights.subtitle')}</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map(({ value, label, days }) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={preset === value ? 'default' : 'outline'}
+                  onClick={() => handlePreset(value, days)}
+                >
+                  {t(label)}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <CalendarRange className="w-4 h-4 text-muted-foreground" />
+              <Input
+                type="date"
+                value={range.from ?? ''}
+                onChange={(e) => handleCustomDate('from', e.target.value)}
+                className="h-8 w-auto"
+                aria-label={t('insights.from')}
+              />
+              <span className="text-muted-foreground">{t('insights.toSeparator')}</span>
+              <Input
+                type="date"
+                value={range.to ?? ''}
+                onChange={(e) => handleCustomDate('to', e.target.value)}
+                className="h-8 w-auto"
+                aria-label={t('insights.to')}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2 pt-2 text-center">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <div className="text-xl font-heading font-bold">{tripCount}</div>
+                <div className="text-xs text-muted-foreground">{t('insights.trips')}</div>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <div className="text-xl font-heading font-bold">{itemsBought}</div>
+                <div className="text-xs text-muted-foreground">{t('insights.itemsBought')}</div>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <div className="text-xl font-heading font-bold tabular-nums">
+                  {totalSpent !== null ? formatPrice(totalSpent) : '–'}
+                </div>
+                <div className="text-xs text-muted-foreground">{t('insights.spent')}</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : tripCount === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {t('insights.empty')}
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Repeat className="w-5 h-5 text-teal-600" />
+                {t('insights.mostBought')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {mostBought.map((product) => (
+                <div key={product.product_id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{product.product_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {product.avg_days_between !== null
+                        ? t('insights.everyDays', { count: product.avg_days_between })
+                        : product.category_name}
+                      {product.times_not_found > 0 && (
+                        <span className="text-red-500"> · {t('insights.missingShare', { percent: formatPercent(product.not_found_rate) })}</span>
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-sm font-medium tabular-nums">{product.times_bought}×</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {oftenMissing.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <AlertTriangle className="w-5 h-5 text-amber-500" />
+                  {t('insights.oftenMissing')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {oftenMissing.map((product) => (
+                  <div key={product.product_id} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium truncate">{product.product_name}</span>
+                      <span className="text-muted-foreground tabular-nums">
+                        {product.times_not_found} / {product.times_listed} · {formatPercent(product.not_found_rate)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                      <div className="h-full bg-red-400" style={{ width: formatPercent(product.not_found_rate) }} />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <LayoutGrid className="w-5 h-5 text-teal-600" />
+                {t('insights.categories')}
+              </CardTitle>
+              <CardDescription>{t('insights.categoriesHint')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {categories.map((category) => (
+                <div key={category.category_name} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <span>{category.category_icon || '📦'}</span>
+                      <span className="font-medium">{category.category_name}</span>
+                    </span>
+                    <span className="text-muted-foreground tabular-nums">
+                      {category.times_listed}
+                      {category.times_not_found > 0 && ` · ${t('insights.missingPercent', { percent: formatPercent(category.not_found_rate) })}`}
+                    </span>
+                  </div>
+                  <div
+                    className="h-2 rounded-full overflow-hidden flex bg-muted"
+                    style={{ width: `${(category.times_listed / maxCategoryListed) * 100}%` }}
+                  >
+                    <div className="h-full bg-teal-500" style={{ width: `${(1 - category.not_found_rate) * 100}%` }} />
+                    <div className="h-full bg-red-400" style={{ width: formatPercent(category.not_found_rate) }} />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CalendarRange className="w-5 h-5 text-teal-600" />
+                {t('insights.tripsPerWeek')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-end gap-1 h-32 overflow-x-auto">
+                {weeks.map((week) => (
+                  <div
+                    key={week.week_start}
+                    className="flex-1 min-w-[14px] flex flex-col items-center justify-end h-full"
+                    title={t('insights.weekTrips', { week: formatPeriod(week.week_start, 'week'), count: week.session_count }) +
+                      (week.total_spent !== null ? `, ${formatPrice(week.total_spent)}` : '')}
+                  >
+                    <div
+                      className="w-full rounded-t bg-teal-500"
+                      style={{ height: `${(week.session_count / maxWeekSessions) * 100}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between mt-1 text-xs text-muted-foreground">
+                <span>{weeks.length > 0 && formatPeriod(weeks[0].week_start, 'week')}</span>
+                <span>{weeks.length > 1 && formatPeriod(weeks[weeks.length - 1].week_start, 'week')}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <PieChart className="w-5 h-5 text-teal-600" />
+                  {t('insights.categoryMix')}
+                </CardTitle>
+                <div className="flex gap-1">
+                  {(['week', 'month'] as Interval[]).map((value) => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={mixInterval === value ? 'default' : 'ghost'}
+                      onClick={() => setMixInterval(value)}
+                    >
+                      {value === 'week' ? t('insights.weekly') : t('insights.monthly')}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {mixCategories.map((name, index) => (
+                  <span key={name} className="flex items-center gap-1">
+                    <span className={cn('w-2.5 h-2.5 rounded-sm', MIX_COLORS[index])} />
+                    {name}
+                  </span>
+                ))}
+                {Object.keys(mixTotals).length > mixCategories.length && (
+                  <span className="flex items-center gap-1">
+                    <span className={cn('w-2.5 h-2.5 rounded-sm', OTHER_COLOR)} />
+                    {t('common.otherCategory')}
+                  </span>
+                )}
+              </div>
+              <div className="space-y-1.5">
+                {mix.map((period) => {
+                  const other = period.total - mixCategories.reduce((sum, name) => sum + (period.categories[name] || 0), 0);
+                  return (
+                    <div key={period.period_start} className="flex items-center gap-2">
+                      <span className="w-16 shrink-0 text-xs text-muted-foreground">
+                        {formatPeriod(period.period_start, mixInterval)}
+                      </span>
+                      <div className="flex-1 h-3 rounded-full overflow-hidden flex bg-muted">
+                        {mixCategories.map((name, index) => (
+                          <div
+                            key={name}
+                            className={cn('h-full', MIX_COLORS[index])}
+                            style={{ width: `${((period.categories[name] || 0) / period.total) * 100}%` }}
+                            title={`${name}: ${period.categories[name] || 0}`}
+                          />
+                        ))}
+                        {other > 0 && (
+                          <div
+                            className={cn('h-full', OTHER_COLOR)}
+                            style={{ width: `${(other / period.total) * 100}%` }}
+                            title={`${t('common.otherCategory')}: ${other}`}
+                          />
+                        )}
+                      </div>
+                      <span className="w-8 shrink-0 text-end text-xs tabular-nums">{period.total}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ShoppingCart, Lock, Mail, User, ArrowRight, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, InviteInfo } from '@/lib/api';
+
+export default function Join() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { join } = useAuth();
+  const { t } = useTranslation();
+
+  const [invite, setInvite] = useState<InviteInfo | null>(null);
+  const [hasAccount, setHasAccount] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (!token) {
+      setError(t('join.noToken'));
+      return;
+    }
+    if (token.length !== 64) {
+      setError(t('join.invalidLink'));
+      return;
+    }
+    api.getInvite(token)
+      .then(setInvite)
+      .catch((err) => setError(err instanceof Error ? err.message : t('join.invalidOrExpired')));
+  }, [token, t]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      toast({
+        title: t('auth.passwordTooShort'),
+        description: t('auth.passwordMinLength'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await join(token!, email, password, hasAccount ? undefined : name);
+      toast({
+        title: t('join.welcome', { household: invite?.household ?? '' }),
+        description: t('join.joined'),
+        variant: 'success',
+      });
+      navigate('/');
+    } catch (err) {
+      toast({
+        title: t('join.failed'),
+        description: err instanceof Error ? err.message : t('join.failedHint'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-stone-100 via-stone-50 to-teal-50">
+      {/* Decorative elements */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-teal-200/30 rounded-full blur-3xl" />
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-amber-200/30 rounded-full blur-3xl" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md relative"
+      >
+        <Card className="border-0 shadow-2xl shadow-stone-900/10 bg-white/80 backdrop-blur-xl">
+          <CardHeader className="text-center pb-2">
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              transition={{ delay: 0.2, type: 'spring', stiffness: 200 }}
+              className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center shadow-xl shadow-teal-500/40"
+            >
+              <ShoppingCart className="w-8 h-8 text-white" />
+            </motion.div>
+            <CardTitle className="text-2xl font-heading">
+              {invite ? t('join.title', { household: invite.household }) : t('join.joinHousehold')}
+            </CardTitle>
+            <CardDescription>
+              {!invite
+                ? t('join.checking')
+                : invite.invitedBy
+                  ? t('join.invitedBy', { name: invite.invitedBy, role: t(`role.${invite.role}`).toLowerCase() })
+                  : t('join.invited', { role: t(`role.${invite.role}`).toLowerCase() })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="text-center space-y-4">
+                <div className="w-16 h-16 mx-auto rounded-full bg-red-100 flex items-center justify-center">
+                  <AlertCircle className="w-8 h-8 text-red-600" />
+                </div>
+                <p className="text-muted-foreground">{error}</p>
+                <Link to="/login">
+                  <Button variant="outline" className="mt-4">
+                    {t('auth.backToLogin')}
+                  </Button>
+                </Link>
+              </div>
+            ) : !invite ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {!hasAccount && (
+                  <div className="space-y-2">
+                    <Label htmlFor="name">{t('common.name')}</Label>
+                    <div className="relative">
+                      <User className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="name"
+                        placeholder={t('join.yourName')}
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="ps-10"
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="email">{t('auth.email')}</Label>
+                  <div className="relative">
+                    <Mail className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="ps-10"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">{hasAccount ? t('auth.password') : t('join.choosePassword')}</Label>
+                  <div className="relative">
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder={hasAccount ? t('join.yourPassword') : t('join.atLeast6')}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="ps-10"
+                      required
+                      minLength={6}
+                    />
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
+                  {isLoading ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
+                  ) : (
+                    <>
+                      {t('join.joinHousehold')}
+                      <ArrowRight className="ms-2 w-4 h-4 rtl:rotate-180" />
+                    </>
+                  )}
+                </Button>
+              </form>
+            )}
+            {invite && !error && (
+              <div className="mt-6 text-center text-sm text-muted-foreground">
+                {hasAccount ? t('join.newHere') : t('join.haveAccount')}{' '}
+                <button
+                  type="button"
+                  onClick={() => setHasAccount(!hasAccount)}
+                  className="text-primary font-medium hover:underline"
+                >
+                  {hasAccount ? t('join.createAccount') : t('join.useIt')}
+                </button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { UtensilsCrossed, Plus, Edit2, Trash2, Package } from 'lucide-react';
-import { api, Meal, MealWithProducts, Product, Category } from '@/lib/api';
+import { UtensilsCrossed, Plus, Edit2, Trash2, Package, Users, FileDown } from 'lucide-react';
+import { api, Meal, MealWithProducts, MealItemInput, Product, Category, RecipeDraft } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import MealDialog from '@/components/MealDialog';
+import ImportRecipeDialog from '@/components/ImportRecipeDialog';
 
 export default function Meals() {
   const [meals, setMeals] = useState<Meal[]>([]);
@@ -15,7 +17,10 @@ export default function Meals() {
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingMeal, setEditingMeal] = useState<MealWithProducts | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   useEffect(() => {
     loadData();
@@ -33,8 +38,8 @@ export default function Meals() {
       setCategories(categoriesData);
     } catch (error) {
       toast({
-        title: 'Failed to load meals',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('meals.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -45,11 +50,25 @@ export default function Meals() {
   const handleProductCreated = (newProduct: Product) => {
     // Add the new product to the list
     setProducts(prev => [...prev, newProduct].sort((a, b) => a.name.localeCompare(b.name)));
-    toast({ title: `Product "${newProduct.name}" created` });
+    toast({ title: t('meals.productCreated', { name: newProduct.name }) });
   };
 
   const handleCreateMeal = () => {
     setEditingMeal(null);
+    setDraft(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleRecipeImported = async (imported: RecipeDraft) => {
+    // Ingredients read by AI may have created products
+    try {
+      setProducts(await api.getProducts());
+    } catch {
+      // The draft still works with the products we have
+    }
+    setIsImportOpen(false);
+    setEditingMeal(null);
+    setDraft(imported);
     setIsDialogOpen(true);
   };
 
@@ -57,45 +76,46 @@ export default function Meals() {
     try {
       const meal = await api.getMeal(mealId);
       setEditingMeal(meal);
+      setDraft(null);
       setIsDialogOpen(true);
     } catch (error) {
       toast({
-        title: 'Failed to load meal',
+        title: t('meals.loadMealFailed'),
         variant: 'destructive',
       });
     }
   };
 
   const handleDeleteMeal = async (mealId: number, mealName: string) => {
-    if (!confirm(`Delete "${mealName}"? This cannot be undone.`)) return;
+    if (!confirm(t('meals.confirmDelete', { name: mealName }))) return;
     
     try {
       await api.deleteMeal(mealId);
-      toast({ title: 'Meal deleted' });
+      toast({ title: t('meals.deleted') });
       loadData();
     } catch (error) {
       toast({
-        title: 'Failed to delete meal',
+        title: t('meals.deleteFailed'),
         variant: 'destructive',
       });
     }
   };
 
-  const handleSaveMeal = async (name: string, productIds: number[]) => {
+  const handleSaveMeal = async (name: string, items: MealItemInput[], servings: number) => {
     try {
       if (editingMeal) {
-        await api.updateMeal(editingMeal.id, name, productIds);
-        toast({ title: 'Meal updated' });
+        await api.updateMeal(editingMeal.id, name, items, servings);
+        toast({ title: t('meals.updated') });
       } else {
-        await api.createMeal(name, productIds);
-        toast({ title: 'Meal created' });
+        await api.createMeal(name, items, servings);
+        toast({ title: t('meals.created') });
       }
       setIsDialogOpen(false);
       loadData();
     } catch (error) {
       toast({
-        title: editingMeal ? 'Failed to update meal' : 'Failed to create meal',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: editingMeal ? t('meals.updateFailed') : t('meals.createFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -112,17 +132,23 @@ export default function Meals() {
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        <h2 className="text-2xl font-heading font-bold text-foreground">Meals</h2>
+        <h2 className="text-2xl font-heading font-bold text-foreground">{t('meals.title')}</h2>
         <p className="text-muted-foreground">
-          Create and manage your meals with their ingredients
+          {t('meals.subtitle')}
         </p>
       </motion.div>
 
-      {/* Add Meal Button */}
-      <Button onClick={handleCreateMeal} className="w-full gap-2">
-        <Plus className="w-4 h-4" />
-        Add Meal
-      </Button>
+      {/* Add Meal Buttons */}
+      <div className="flex gap-2">
+        <Button onClick={handleCreateMeal} className="flex-1 gap-2">
+          <Plus className="w-4 h-4" />
+          {t('meals.addMeal')}
+        </Button>
+        <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+          <FileDown className="w-4 h-4" />
+          {t('meals.importRecipe')}
+        </Button>
+      </div>
 
       {/* Meals List */}
       <div className="space-y-3">
@@ -142,7 +168,10 @@ export default function Meals() {
                     <h3 className="font-heading font-semibold">{meal.name}</h3>
                     <p className="text-xs text-muted-foreground flex items-center gap-1">
                       <Package className="w-3 h-3" />
-                      {meal.product_count} product{meal.product_count !== 1 ? 's' : ''}
+                      {t('meals.productCount', { count: meal.product_count })}
+                      <span>·</span>
+                      <Users className="w-3 h-3" />
+                      {meal.servings}
                     </p>
                   </div>
                 </div>
@@ -152,7 +181,7 @@ export default function Meals() {
                     size="icon"
                     className="h-9 w-9 active:scale-95"
                     onClick={() => handleEditMeal(meal.id)}
-                    aria-label="Edit meal"
+                    aria-label={t('meals.edit')}
                   >
                     <Edit2 className="w-4 h-4" />
                   </Button>
@@ -161,7 +190,7 @@ export default function Meals() {
                     size="icon"
                     className="h-9 w-9 active:scale-95 active:bg-red-100"
                     onClick={() => handleDeleteMeal(meal.id, meal.name)}
-                    aria-label="Delete meal"
+                    aria-label={t('meals.delete')}
                   >
                     <Trash2 className="w-4 h-4 text-red-500" />
                   </Button>
@@ -174,7 +203,7 @@ export default function Meals() {
         {meals.length === 0 && (
           <div className="text-center py-12 text-muted-foreground">
             <UtensilsCrossed className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>No meals yet. Add one to get started.</p>
+            <p>{t('meals.empty')}</p>
           </div>
         )}
       </div>
@@ -184,11 +213,18 @@ export default function Meals() {
         open={isDialogOpen}
         onOpenChange={setIsDialogOpen}
         meal={editingMeal}
+        draft={draft}
         products={products}
         categories={categories}
         onSave={handleSaveMeal}
         onProductCreated={handleProductCreated}
       />
+
+      <ImportRecipeDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={handleRecipeImported}
+      />
     </div>
   );
 }
@@ -1,14 +1,41 @@
 import { useEffect, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, ChevronLeft, ChevronRight, Plus, X, ShoppingCart, Check, UtensilsCrossed } from 'lucide-react';
-import { api, Meal, DayPlan, MenuProduct, GroceryItem } from '@/lib/api';
+import { Calendar, ChevronLeft, ChevronRight, Plus, X, ShoppingCart, Check, UtensilsCrossed, Users } from 'lucide-react';
+import { api, Meal, DayPlan, MenuProduct, MenuGroceryLine, MenuGroceryAction, Unit, UseSoon as UseSoonData } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import UseSoon from '@/components/UseSoon';
 import { cn } from '@/lib/utils';
+import { formatQuantity } from '@/lib/units';
+import { formatDate, t } from '@/lib/i18n';
+
+const ACTION_STYLES: Record<MenuGroceryAction, string> = {
+  add: 'bg-primary/10 text-primary',
+  increase: 'bg-amber-100 text-amber-800',
+  covered: 'bg-emerald-100 text-emerald-700',
+};
+
+function formatAmounts(amounts: { quantity: number; unit: Unit }[]) {
+  return amounts.map(a => formatQuantity(a.quantity, a.unit)).join(' + ');
+}
+
+// What applying a diff line does, e.g. "add 500 g" or "x1 → +x2"
+function describeLine(line: MenuGroceryLine) {
+  switch (line.action) {
+    case 'add':
+      return t('menu.lineAdd', { amounts: formatAmounts(line.missing) });
+    case 'increase':
+      return `${formatQuantity(line.on_list!.quantity, line.on_list!.unit)} → +${formatAmounts(line.missing)}`;
+    case 'covered':
+      return t('menu.lineCovered');
+  }
+}
 
 function formatLocalDate(date: Date): string {
   const year = date.getFullYear();
@@ -26,14 +53,14 @@ function formatDateRange(startDate: string): string {
   const end = new Date(start);
   end.setDate(end.getDate() + 6);
   const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
-  return `${start.toLocaleDateString('en-US', options)} - ${end.toLocaleDateString('en-US', options)}`;
+  return `${formatDate(start, options)} - ${formatDate(end, options)}`;
 }
 
 function getDayInfo(startDate: string, dayOffset: number): { dayName: string; dateStr: string; fullDate: string } {
   const date = new Date(startDate + 'T12:00:00');
   date.setDate(date.getDate() + dayOffset);
-  const dayName = date.toLocaleDateString('en-US', { weekday: 'long' });
-  const dateStr = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const dayName = formatDate(date, { weekday: 'long' });
+  const dateStr = formatDate(date, { month: 'short', day: 'numeric' });
   const fullDate = formatLocalDate(date);
   return { dayName, dateStr, fullDate };
 }
@@ -49,33 +76,48 @@ export default function MenuPlanner() {
   const [isProductsDialogOpen, setIsProductsDialogOpen] = useState(false);
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
   const [selectedMealType, setSelectedMealType] = useState<'lunch' | 'dinner'>('dinner');
+  // Servings for the meal being planned; null keeps each meal's own default
+  const [servings, setServings] = useState<number | null>(null);
   const [isAddingToGroceries, setIsAddingToGroceries] = useState(false);
-  const [groceryProductIds, setGroceryProductIds] = useState<Set<number>>(new Set());
+  // Week needs compared with the list, loaded when the products dialog opens
+  const [diff, setDiff] = useState<MenuGroceryLine[]>([]);
+  const [useSoon, setUseSoon] = useState<UseSoonData | null>(null);
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   useEffect(() => {
     loadData();
   }, [startDate]);
 
+  useEffect(() => {
+    api.getUseSoon()
+      .then(setUseSoon)
+      .catch(() => setUseSoon(null));
+  }, []);
+
+  // Meals using stock that should go first, listed at the top of the picker
+  const pickerMeals = useMemo(() => {
+    const uses = new Map(useSoon?.meals.map(meal => [meal.id, meal.uses]) ?? []);
+    return meals
+      .map(meal => ({ ...meal, usesSoon: uses.get(meal.id) ?? [] }))
+      .sort((a, b) => b.usesSoon.length - a.usesSoon.length);
+  }, [meals, useSoon]);
+
   const loadData = async () => {
     try {
-      const [planData, mealsData, productsData, groceriesData] = await Promise.all([
+      const [planData, mealsData, productsData] = await Promise.all([
         api.getMenuPlan(startDate),
         api.getMeals(),
         api.getMenuProducts(startDate),
-        api.getGroceries(),
       ]);
       setPlan(planData.plan);
       setMeals(mealsData);
       setProducts(productsData);
       // Don't select any by default
       setSelectedProducts(new Set());
-      // Track which products are already in grocery list
-      const groceryIds = new Set(groceriesData.allItems.map((item: GroceryItem) => item.product_id));
-      setGroceryProductIds(groceryIds);
     } catch (error) {
       toast({
-        title: 'Failed to load menu plan',
+        title: t('menu.loadFailed'),
         variant: 'destructive',
       });
     } finally {
@@ -104,20 +146,21 @@ export default function MenuPlanner() {
   const handleOpenMealDialog = (dayIndex: number, mealType: 'lunch' | 'dinner') => {
     setSelectedDay(dayIndex);
     setSelectedMealType(mealType);
+    setServings(null);
     setIsMealDialogOpen(true);
   };
 
   const handleAddMeal = async (mealId: number) => {
     if (selectedDay === null) return;
     try {
-      const result = await api.addMealToDay(startDate, selectedDay, selectedMealType, mealId);
+      const result = await api.addMealToDay(startDate, selectedDay, selectedMealType, mealId, servings ?? undefined);
       setPlan(result.plan);
       // Refresh products
       const productsData = await api.getMenuProducts(startDate);
       setProducts(productsData);
       setIsMealDialogOpen(false);
     } catch (error) {
-      toast({ title: 'Failed to add meal', variant: 'destructive' });
+      toast({ title: t('menu.addMealFailed'), variant: 'destructive' });
     }
   };
 
@@ -131,7 +174,7 @@ export default function MenuPlanner() {
       const productsData = await api.getMenuProducts(startDate);
       setProducts(productsData);
     } catch (error) {
-      toast({ title: 'Failed to remove meal', variant: 'destructive' });
+      toast({ title: t('menu.removeMealFailed'), variant: 'destructive' });
     }
   };
 
@@ -147,62 +190,67 @@ export default function MenuPlanner() {
     });
   };
 
-  const handleSelectAll = () => {
-    setSelectedProducts(new Set(products.map(p => p.id)));
-  };
-
-  const handleSelectNotInList = () => {
-    setSelectedProducts(new Set(products.filter(p => !groceryProductIds.has(p.id)).map(p => p.id)));
+  // Everything that would change the list
+  const handleSelectNeeded = (lines: MenuGroceryLine[] = diff) => {
+    setSelectedProducts(new Set(lines.filter(l => l.action !== 'covered').map(l => l.id)));
   };
 
   const handleDeselectAll = () => {
     setSelectedProducts(new Set());
   };
 
+  const loadDiff = async () => {
+    const result = await api.getMenuGroceryDiff(startDate);
+    setDiff(result.lines);
+    return result.lines;
+  };
+
   const handleOpenProductsDialog = async () => {
-    // Refresh grocery list when opening
     try {
-      const groceriesData = await api.getGroceries();
-      setGroceryProductIds(new Set(groceriesData.allItems.map((item: GroceryItem) => item.product_id)));
+      handleSelectNeeded(await loadDiff());
+      setIsProductsDialogOpen(true);
     } catch (error) {
-      // Continue even if refresh fails
+      toast({ title: t('menu.diffFailed'), variant: 'destructive' });
     }
-    setIsProductsDialogOpen(true);
   };
 
   const handleAddToGroceries = async () => {
     if (selectedProducts.size === 0) return;
     setIsAddingToGroceries(true);
     try {
-      const result = await api.addProductsToGroceries(Array.from(selectedProducts));
+      const result = await api.addProductsToGroceries(Array.from(selectedProducts), startDate);
       toast({
-        title: 'Added to grocery list',
-        description: `${result.addedCount} added, ${result.skippedCount} already in list`,
+        title: t('menu.listUpdated'),
+        description: t('menu.listUpdatedDetail', { added: result.addedCount, increased: result.increasedCount }),
+        variant: 'success',
       });
-      // Clear selection and refresh grocery list status
       setSelectedProducts(new Set());
-      const groceriesData = await api.getGroceries();
-      setGroceryProductIds(new Set(groceriesData.allItems.map((item: GroceryItem) => item.product_id)));
       setIsProductsDialogOpen(false);
     } catch (error) {
-      toast({ title: 'Failed to add products', variant: 'destructive' });
+      toast({ title: t('menu.addProductsFailed'), variant: 'destructive' });
     } finally {
       setIsAddingToGroceries(false);
     }
   };
 
   // Group products by category
-  const groupedProducts = useMemo(() => {
-    const groups: Record<string, MenuProduct[]> = {};
-    for (const product of products) {
-      const category = product.category_name || 'Other';
+  const groupedLines = useMemo(() => {
+    const groups: Record<string, MenuGroceryLine[]> = {};
+    for (const product of diff) {
+      const category = product.category_name || t('common.otherCategory');
       if (!groups[category]) {
         groups[category] = [];
       }
       groups[category].push(product);
     }
     return groups;
-  }, [products]);
+  }, [diff, t]);
+
+  const actionCounts = useMemo(() => {
+    const counts: Record<MenuGroceryAction, number> = { add: 0, increase: 0, covered: 0 };
+    for (const line of diff) counts[line.action]++;
+    return counts;
+  }, [diff]);
 
   if (isLoading) {
     return <LoadingSpinner />;
@@ -215,16 +263,16 @@ export default function MenuPlanner() {
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        <h2 className="text-2xl font-heading font-bold text-foreground">Menu Planner</h2>
+        <h2 className="text-2xl font-heading font-bold text-foreground">{t('menu.title')}</h2>
         <p className="text-muted-foreground">
-          Plan your meals and add ingredients to your grocery list
+          {t('menu.subtitle')}
         </p>
       </motion.div>
 
       {/* Week Navigation */}
       <div className="flex items-center justify-between gap-2">
-        <Button variant="outline" size="icon" onClick={handlePrevWeek}>
-          <ChevronLeft className="w-4 h-4" />
+        <Button variant="outline" size="icon" onClick={handlePrevWeek} title={t('menu.previousWeek')}>
+          <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
         </Button>
         <div className="flex items-center gap-2">
           <Calendar className="w-4 h-4 text-muted-foreground" />
@@ -236,11 +284,14 @@ export default function MenuPlanner() {
             className="text-sm border rounded px-2 py-1 bg-background"
           />
         </div>
-        <Button variant="outline" size="icon" onClick={handleNextWeek}>
-          <ChevronRight className="w-4 h-4" />
+        <Button variant="outline" size="icon" onClick={handleNextWeek} title={t('menu.nextWeek')}>
+          <ChevronRight className="w-4 h-4 rtl:rotate-180" />
         </Button>
       </div>
 
+      {/* Stock to use up, with meals to plan for it */}
+      <UseSoon useSoon={useSoon} showMenuLink={false} />
+
       {/* Week Grid */}
       <div className="grid gap-3">
         {[0, 1, 2, 3, 4, 5, 6].map((dayOffset) => {
@@ -256,7 +307,7 @@ export default function MenuPlanner() {
                 {/* Lunch */}
                 <div className="space-y-1">
                   <div className="flex items-center justify-between">
-                    <span className="text-xs font-medium text-muted-foreground">Lunch</span>
+                    <span className="text-xs font-medium text-muted-foreground">{t('menu.lunch')}</span>
                     <button
                       onClick={() => handleOpenMealDialog(dayOffset, 'lunch')}
                       className="text-muted-foreground hover:text-primary"
@@ -271,6 +322,12 @@ export default function MenuPlanner() {
                     >
                       <UtensilsCrossed className="w-3 h-3 shrink-0" />
                       <span className="truncate flex-1">{item.meal_name}</span>
+                      {item.servings !== item.meal_servings && (
+                        <span className="flex items-center gap-0.5 shrink-0 tabular-nums" title={t('menu.servingsCount', { count: item.servings })}>
+                          <Users className="w-3 h-3" />
+                          {item.servings}
+                        </span>
+                      )}
                       <button
                         onClick={() => handleRemoveMeal(item.id)}
                         className="text-amber-600 hover:text-red-600 shrink-0"
@@ -286,7 +343,7 @@ export default function MenuPlanner() {
                 {/* Dinner */}
                 <div className="space-y-1">
                   <div className="flex items-center justify-between">
-                    <span className="text-xs font-medium text-muted-foreground">Dinner</span>
+                    <span className="text-xs font-medium text-muted-foreground">{t('menu.dinner')}</span>
                     <button
                       onClick={() => handleOpenMealDialog(dayOffset, 'dinner')}
                       className="text-muted-foreground hover:text-primary"
@@ -301,6 +358,12 @@ export default function MenuPlanner() {
                     >
                       <UtensilsCrossed className="w-3 h-3 shrink-0" />
                       <span className="truncate flex-1">{item.meal_name}</span>
+                      {item.servings !== item.meal_servings && (
+                        <span className="flex items-center gap-0.5 shrink-0 tabular-nums" title={t('menu.servingsCount', { count: item.servings })}>
+                          <Users className="w-3 h-3" />
+                          {item.servings}
+                        </span>
+                      )}
                       <button
                         onClick={() => handleRemoveMeal(item.id)}
                         className="text-primary/70 hover:text-red-600 shrink-0"
@@ -323,70 +386,80 @@ export default function MenuPlanner() {
       {products.length > 0 && (
         <button
           onClick={handleOpenProductsDialog}
-          className="fixed bottom-24 right-4 z-30 w-14 h-14 bg-primary text-primary-foreground rounded-full shadow-lg flex items-center justify-center hover:bg-primary/90 transition-colors"
+          className="fixed bottom-24 end-4 z-30 w-14 h-14 bg-primary text-primary-foreground rounded-full shadow-lg flex items-center justify-center hover:bg-primary/90 transition-colors"
         >
           <ShoppingCart className="w-6 h-6" />
-          <span className="absolute -top-1 -right-1 w-6 h-6 bg-amber-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+          <span className="absolute -top-1 -end-1 w-6 h-6 bg-amber-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
             {products.length}
           </span>
         </button>
       )}
 
-      {/* Products Dialog */}
+      {/* Products Dialog: review what the week needs against the list */}
       <Dialog open={isProductsDialogOpen} onOpenChange={setIsProductsDialogOpen}>
         <DialogContent className="sm:max-w-md max-h-[85vh] flex flex-col">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <ShoppingCart className="w-5 h-5" />
-              Products Needed ({products.length})
+              {t('menu.productsNeeded', { count: diff.length })}
             </DialogTitle>
           </DialogHeader>
 
+          <p className="text-sm text-muted-foreground">
+            {t('menu.actionCounts', { ...actionCounts })}
+          </p>
+
           <div className="flex gap-2 flex-wrap">
-            <Button variant="outline" size="sm" onClick={handleSelectNotInList}>
-              Select New
-            </Button>
-            <Button variant="ghost" size="sm" onClick={handleSelectAll}>
-              Select All
+            <Button variant="outline" size="sm" onClick={() => handleSelectNeeded()}>
+              {t('menu.selectNeeded')}
             </Button>
             <Button variant="ghost" size="sm" onClick={handleDeselectAll}>
-              Clear
+              {t('common.clear')}
             </Button>
           </div>
 
           <ScrollArea className="flex-1 min-h-0">
-            <div className="space-y-3 pr-4">
-              {Object.entries(groupedProducts).map(([category, categoryProducts]) => (
+            <div className="space-y-3 pe-4">
+              {Object.entries(groupedLines).map(([category, categoryLines]) => (
                 <div key={category}>
                   <div className="text-xs font-medium text-muted-foreground px-1 py-1 sticky top-0 bg-background">
-                    {categoryProducts[0]?.category_icon} {category}
+                    {categoryLines[0]?.category_icon} {category}
                   </div>
                   <div className="space-y-0.5">
-                    {categoryProducts.map(product => {
-                      const isSelected = selectedProducts.has(product.id);
-                      const isInList = groceryProductIds.has(product.id);
+                    {categoryLines.map(line => {
+                      const isSelected = selectedProducts.has(line.id);
+                      const isCovered = line.action === 'covered';
                       return (
                         <button
-                          key={product.id}
-                          onClick={() => toggleProduct(product.id)}
+                          key={line.id}
+                          onClick={() => toggleProduct(line.id)}
+                          disabled={isCovered}
                           className={cn(
-                            "w-full flex items-center justify-between px-3 py-2 rounded-md text-left transition-colors text-sm",
+                            "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-md text-start transition-colors text-sm",
                             isSelected
                               ? "bg-primary/10 text-primary"
-                              : isInList
+                              : isCovered
                               ? "bg-muted/50 text-muted-foreground"
                               : "hover:bg-muted"
                           )}
                         >
-                          <div className="flex items-center gap-2">
-                            <span className={cn("font-medium", isInList && !isSelected && "line-through")}>{product.name}</span>
-                            {isInList && (
-                              <span className="text-xs bg-emerald-100 text-emerald-700 px-1.5 py-0.5 rounded">
-                                in list
-                              </span>
+                          <div className="min-w-0">
+                            <div className={cn("font-medium truncate", isCovered && "line-through")}>{line.name}</div>
+                            {(line.needed.length > 0 || line.in_stock.length > 0) && (
+                              <div className="text-xs text-muted-foreground tabular-nums">
+                                {[
+                                  line.needed.length > 0 && t('menu.needs', { amounts: formatAmounts(line.needed) }),
+                                  line.in_stock.length > 0 && t('menu.inStock', { amounts: formatAmounts(line.in_stock) }),
+                                ].filter(Boolean).join(' · ')}
+                              </div>
                             )}
                           </div>
-                          {isSelected && <Check className="w-4 h-4" />}
+                          <div className="flex items-center gap-2 shrink-0">
+                            <span className={cn("text-xs px-1.5 py-0.5 rounded tabular-nums", ACTION_STYLES[line.action])}>
+                              {describeLine(line)}
+                            </span>
+                            {isSelected && <Check className="w-4 h-4" />}
+                          </div>
                         </button>
                       );
                     })}
@@ -403,7 +476,7 @@ export default function MenuPlanner() {
               disabled={selectedProducts.size === 0 || isAddingToGroceries}
             >
               <ShoppingCart className="w-4 h-4" />
-              {isAddingToGroceries ? 'Adding...' : `Add ${selectedProducts.size} to Grocery List`}
+              {isAddingToGroceries ? t('menu.updating') : t('menu.apply', { count: selectedProducts.size })}
             </Button>
           </div>
         </DialogContent>
@@ -414,21 +487,42 @@ export default function MenuPlanner() {
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>
-              Add {selectedMealType === 'lunch' ? 'Lunch' : 'Dinner'} - {selectedDay !== null ? (() => {
-                const { dayName, dateStr } = getDayInfo(startDate, selectedDay);
-                return `${dayName}, ${dateStr}`;
-              })() : ''}
+              {t(selectedMealType === 'lunch' ? 'menu.addLunch' : 'menu.addDinner', {
+                day: selectedDay !== null ? (() => {
+                  const { dayName, dateStr } = getDayInfo(startDate, selectedDay);
+                  return `${dayName}, ${dateStr}`;
+                })() : '',
+              })}
             </DialogTitle>
           </DialogHeader>
-          
+
+          {meals.length > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{t('menu.servings')}</span>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                placeholder={t('menu.mealDefault')}
+                value={servings ?? ''}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  setServings(value >= 1 && value <= 100 ? value : null);
+                }}
+                aria-label={t('menu.servings')}
+                className="w-32 h-8"
+              />
+            </div>
+          )}
+
           {meals.length > 0 ? (
             <ScrollArea className="h-[300px]">
               <div className="space-y-1 p-1">
-                {meals.map(meal => (
+                {pickerMeals.map(meal => (
                   <button
                     key={meal.id}
                     onClick={() => handleAddMeal(meal.id)}
-                    className="w-full flex items-center gap-3 px-3 py-2 rounded-md text-left hover:bg-muted transition-colors"
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded-md text-start hover:bg-muted transition-colors"
                   >
                     <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
                       <UtensilsCrossed className="w-4 h-4 text-primary" />
@@ -436,8 +530,13 @@ export default function MenuPlanner() {
                     <div className="flex-1 min-w-0">
                       <div className="font-medium truncate">{meal.name}</div>
                       <div className="text-xs text-muted-foreground">
-                        {meal.product_count} products
+                        {t('menu.mealSummary', { count: meal.product_count, servings: servings ?? meal.servings })}
                       </div>
+                      {meal.usesSoon.length > 0 && (
+                        <div className="text-xs text-orange-700 truncate">
+                          {t('menu.usesUp', { names: meal.usesSoon.join(', ') })}
+                        </div>
+                      )}
                     </div>
                   </button>
                 ))}
@@ -446,14 +545,14 @@ export default function MenuPlanner() {
           ) : (
             <div className="text-center py-8 text-muted-foreground">
               <UtensilsCrossed className="w-12 h-12 mx-auto mb-2 opacity-50" />
-              <p>No meals created yet.</p>
-              <p className="text-sm">Go to Meals tab to create some!</p>
+              <p>{t('menu.noMeals')}</p>
+              <p className="text-sm">{t('menu.noMealsHint')}</p>
             </div>
           )}
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsMealDialogOpen(false)}>
-              Cancel
+              {t('common.cancel')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,413 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Refrigerator, Plus, UtensilsCrossed, Trash2, SlidersHorizontal, X, AlertTriangle, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { api, PantryItem, Product, Unit } from '@/lib/api';
+import { UNITS, unitLabel, formatQuantity, quantityStep } from '@/lib/units';
+import { cn, formatDaysLeft } from '@/lib/utils';
+import { formatDay } from '@/lib/i18n';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+// Inline form open on a row
+type RowAction = 'consumed' | 'discarded' | 'settings';
+
+const MAX_SEARCH_RESULTS = 8;
+
+// Best-before dates this close are highlighted (same window as the use-soon list)
+const USE_SOON_DAYS = 3;
+
+function isUseSoon(item: PantryItem) {
+  return item.quantity > 0 && item.days_left !== null && item.days_left <= USE_SOON_DAYS;
+}
+
+function parseAmount(value: string) {
+  const amount = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(amount) ? amount : NaN;
+}
+
+export default function Pantry() {
+  const { toast } = useToast();
+  const { canEdit } = useAuth();
+  const { t } = useTranslation();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Add form
+  const [search, setSearch] = useState('');
+  const [newProduct, setNewProduct] = useState<Product | null>(null);
+  const [newQuantity, setNewQuantity] = useState('1');
+  const [newUnit, setNewUnit] = useState<Unit>('piece');
+  const [newBestBefore, setNewBestBefore] = useState('');
+
+  // Row being edited
+  const [openRow, setOpenRow] = useState<{ id: number; action: RowAction } | null>(null);
+  const [amount, setAmount] = useState('');
+  const [lowLevel, setLowLevel] = useState('');
+  const [bestBefore, setBestBefore] = useState('');
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : t('common.somethingWrong'),
+      variant: 'destructive',
+    });
+  }, [toast, t]);
+
+  const loadPantry = useCallback(async () => {
+    try {
+      const [pantryData, productsData] = await Promise.all([
+        api.getPantry(),
+        api.getProducts(),
+      ]);
+      setItems(pantryData);
+      setProducts(productsData);
+    } catch (error) {
+      showError(t('pantry.loadFailed'), error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    loadPantry();
+  }, [loadPantry]);
+
+  const replaceItem = (updated: PantryItem) => {
+    setItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query || newProduct) return [];
+    return products
+      .filter(p => p.name.toLowerCase().includes(query) || p.aliases?.some(a => a.toLowerCase().includes(query)))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [products, search, newProduct]);
+
+  const groupedItems = useMemo(() => {
+    const groups: Record<string, PantryItem[]> = {};
+    for (const item of items) {
+      const category = item.category_name || t('common.otherCategory');
+      if (!groups[category]) groups[category] = [];
+      groups[category].push(item);
+    }
+    return groups;
+  }, [items, t]);
+
+  const lowCount = items.filter(item => item.is_low).length;
+  const useSoonCount = items.filter(item => isUseSoon(item)).length;
+
+  const handleAdd = async () => {
+    const quantity = parseAmount(newQuantity);
+    if (!newProduct || !(quantity > 0)) return;
+    try {
+      await api.addToPantry(newProduct.id, quantity, newUnit, newBestBefore || undefined);
+      toast({ title: t('pantry.added', { name: newProduct.name }), variant: 'success' });
+      setSearch('');
+      setNewProduct(null);
+      setNewQuantity('1');
+      setNewUnit('piece');
+      setNewBestBefore('');
+      // Stock may have merged into an existing row
+      setItems(await api.getPantry());
+    } catch (error) {
+      showError(t('pantry.addFailed'), error);
+    }
+  };
+
+  const openAction = (item: PantryItem, action: RowAction) => {
+    if (openRow?.id === item.id && openRow.action === action) {
+      setOpenRow(null);
+      return;
+    }
+    setOpenRow({ id: item.id, action });
+    if (action === 'settings') {
+      setAmount(String(item.quantity));
+      setLowLevel(item.low_quantity === null ? '' : String(item.low_quantity));
+      setBestBefore(item.best_before ?? '');
+    } else {
+      setAmount(String(Math.min(quantityStep(item.unit), item.quantity)));
+    }
+  };
+
+  const handleRemove = async (item: PantryItem, reason: 'consumed' | 'discarded') => {
+    const quantity = parseAmount(amount);
+    if (!(quantity > 0)) return;
+    try {
+      replaceItem(await api.removeFromPantry(item.id, quantity, reason));
+      setOpenRow(null);
+    } catch (error) {
+      showError(t('pantry.updateFailed'), error);
+    }
+  };
+
+  const handleSaveSettings = async (item: PantryItem) => {
+    const quantity = parseAmount(amount);
+    const low = lowLevel.trim() === '' ? null : parseAmount(lowLevel);
+    if (!(quantity >= 0) || (low !== null && !(low >= 0))) return;
+    try {
+      replaceItem(await api.updatePantryItem(item.id, { quantity, low_quantity: low, best_before: bestBefore || null }));
+      setOpenRow(null);
+    } catch (error) {
+      showError(t('pantry.updateFailed'), error);
+    }
+  };
+
+  const handleDelete = async (item: PantryItem) => {
+    if (!confirm(t('pantry.confirmDelete', { name: item.product_name }))) return;
+    try {
+      await api.deletePantryItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      showError(t('pantry.deleteFailed'), error);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h2 className="text-2xl font-heading font-bold text-foreground">{t('nav.pantry')}</h2>
+        <p className="text-muted-foreground">
+          {t('pantry.subtitle')}
+        </p>
+        {lowCount > 0 && (
+          <p className="mt-1 text-sm text-amber-700 flex items-center gap-1">
+            <AlertTriangle className="w-4 h-4" />
+            {t('pantry.runningLow', { count: lowCount })}
+          </p>
+        )}
+        {useSoonCount > 0 && (
+          <p className="mt-1 text-sm text-orange-700 flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {t('pantry.useSoon', { count: useSoonCount })}
+          </p>
+        )}
+      </motion.div>
+
+      {/* Add stock */}
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t('pantry.addTitle')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="relative">
+              <Input
+                placeholder={t('pantry.searchProduct')}
+                value={newProduct ? newProduct.name : search}
+                onChange={(e) => {
+                  setNewProduct(null);
+                  setSearch(e.target.value);
+                }}
+              />
+              {searchResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-lg border bg-background shadow-lg">
+                  {searchResults.map(product => (
+                    <button
+                      key={product.id}
+                      onClick={() => setNewProduct(product)}
+                      className="w-full px-3 py-2 text-start text-sm hover:bg-muted"
+                    >
+                      {product.category_icon} {product.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                inputMode="decimal"
+                value={newQuantity}
+                onChange={(e) => setNewQuantity(e.target.value)}
+                aria-label={t('common.quantity')}
+                className="w-24"
+              />
+              <select
+                value={newUnit}
+                onChange={(e) => setNewUnit(e.target.value as Unit)}
+                aria-label={t('common.unit')}
+                className="h-10 px-2 text-sm border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {UNITS.map((unit) => (
+                  <option key={unit} value={unit}>{unitLabel(unit)}</option>
+                ))}
+              </select>
+              <Input
+                type="date"
+                value={newBestBefore}
+                onChange={(e) => setNewBestBefore(e.target.value)}
+                aria-label={t('pantry.bestBefore')}
+                title={t('pantry.bestBeforeHint')}
+                className="w-36"
+              />
+              <Button onClick={handleAdd} disabled={!newProduct || !(parseAmount(newQuantity) > 0)} className="flex-1 gap-2">
+                <Plus className="w-4 h-4" />
+                {t('common.add')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stock by category */}
+      {items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Refrigerator className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>{t('pantry.empty')}</p>
+          <p className="text-sm">{t('pantry.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {Object.entries(groupedItems).map(([category, categoryItems]) => (
+            <Card key={category}>
+              <CardContent className="pt-4 space-y-1">
+                <div className="text-xs font-medium text-muted-foreground px-1 pb-1">
+                  {categoryItems[0]?.category_icon} {category}
+                </div>
+                {categoryItems.map(item => {
+                  const action = openRow?.id === item.id ? openRow.action : null;
+                  return (
+                    <div key={item.id} className={cn("rounded-lg px-2 py-1.5", item.is_low && "bg-amber-50")}>
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 min-w-0 truncate font-medium">{item.product_name}</span>
+                        {item.is_low && (
+                          <span className="text-xs bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded">
+                            {item.quantity <= 0 ? t('runningLow.out') : t('pantry.low')}
+                          </span>
+                        )}
+                        {item.best_before && item.quantity > 0 && (
+                          <span
+                            className={cn(
+                              "text-xs px-1.5 py-0.5 rounded",
+                              isUseSoon(item) ? "bg-orange-100 text-orange-800" : "text-muted-foreground"
+                            )}
+                            title={t('pantry.bestBeforeDate', { date: formatDay(item.best_before) })}
+                          >
+                            {isUseSoon(item) ? formatDaysLeft(item.days_left!) : formatDay(item.best_before)}
+                          </span>
+                        )}
+                        <span className="text-sm tabular-nums text-muted-foreground">
+                          {formatQuantity(item.quantity, item.unit)}
+                        </span>
+                        {canEdit && (
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openAction(item, 'consumed')}
+                              disabled={item.quantity <= 0}
+                              title={t('pantry.used')}
+                            >
+                              <UtensilsCrossed className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openAction(item, 'discarded')}
+                              disabled={item.quantity <= 0}
+                              title={t('pantry.thrownAway')}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openAction(item, 'settings')}
+                              title={t('pantry.settings')}
+                            >
+                              <SlidersHorizontal className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleDelete(item)}
+                              title={t('pantry.stopTracking')}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      {(action === 'consumed' || action === 'discarded') && (
+                        <div className="flex items-center gap-2 pt-2">
+                          <span className="text-sm text-muted-foreground">
+                            {action === 'consumed' ? t('pantry.used') : t('pantry.thrownAway')}
+                          </span>
+                          <Input
+                            inputMode="decimal"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            aria-label={t('pantry.amount')}
+                            className="w-24 h-8"
+                            autoFocus
+                          />
+                          <span className="text-sm">{unitLabel(item.unit)}</span>
+                          <Button size="sm" className="ms-auto" onClick={() => handleRemove(item, action)}>
+                            {t('common.save')}
+                          </Button>
+                        </div>
+                      )}
+
+                      {action === 'settings' && (
+                        <div className="flex flex-wrap items-center gap-2 pt-2">
+                          <span className="text-sm text-muted-foreground">{t('pantry.have')}</span>
+                          <Input
+                            inputMode="decimal"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            aria-label={t('pantry.amountInStock')}
+                            className="w-20 h-8"
+                          />
+                          <span className="text-sm text-muted-foreground">{t('pantry.lowAt')}</span>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="0"
+                            value={lowLevel}
+                            onChange={(e) => setLowLevel(e.target.value)}
+                            aria-label={t('pantry.lowLevel')}
+                            className="w-20 h-8"
+                          />
+                          <span className="text-sm">{unitLabel(item.unit)}</span>
+                          <span className="text-sm text-muted-foreground">{t('pantry.bestBefore')}</span>
+                          <Input
+                            type="date"
+                            value={bestBefore}
+                            onChange={(e) => setBestBefore(e.target.value)}
+                            aria-label={t('pantry.bestBefore')}
+                            className="w-36 h-8"
+                          />
+                          <Button size="sm" className="ms-auto" onClick={() => handleSaveSettings(item)}>
+                            {t('common.save')}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
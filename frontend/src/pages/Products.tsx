@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Package, Search, Edit2, Trash2, Tag, ChevronDown, ChevronRight, Plus, GripVertical } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Package, Search, Edit2, Trash2, Tag, ChevronDown, ChevronRight, Plus, GripVertical, Repeat, Copy, Sparkles } from 'lucide-react';
 import { api, Product, Category } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,10 +9,17 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import ProductDialog from '@/components/ProductDialog';
+import LocalizedNamesInput from '@/components/LocalizedNamesInput';
+import ShelfLifeInput from '@/components/ShelfLifeInput';
+import StaplesManager from '@/components/StaplesManager';
+import DataTransfer from '@/components/DataTransfer';
+import DuplicateProducts from '@/components/DuplicateProducts';
 
-type Tab = 'products' | 'categories';
+type Tab = 'products' | 'categories' | 'staples' | 'duplicates';
 
 export default function Products() {
   const [activeTab, setActiveTab] = useState<Tab>('products');
@@ -34,12 +42,25 @@ export default function Products() {
   const [newCategoryIcon, setNewCategoryIcon] = useState('📦');
   const [newCategorySortOrder, setNewCategorySortOrder] = useState('50');
   
+  // AI-learned catalog changes waiting for review
+  const [pendingReviews, setPendingReviews] = useState(0);
+  
   const { toast } = useToast();
+  const { t } = useTranslation();
+  const { canEdit, isAdmin } = useAuth();
+  const navigate = useNavigate();
 
   useEffect(() => {
     loadData(true);
   }, []);
 
+  useEffect(() => {
+    if (!isAdmin) return;
+    api.getAiReviewCount()
+      .then(({ pending }) => setPendingReviews(pending))
+      .catch(() => {});
+  }, [isAdmin]);
+
   const loadData = async (showLoading = false) => {
     if (showLoading) setIsLoading(true);
     try {
@@ -55,8 +76,8 @@ export default function Products() {
       }
     } catch (error) {
       toast({
-        title: 'Failed to load data',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('products.loadFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -73,7 +94,7 @@ export default function Products() {
       const results = await api.getProducts(undefined, searchQuery);
       setProducts(results);
     } catch (error) {
-      toast({ title: 'Search failed', variant: 'destructive' });
+      toast({ title: t('products.searchFailed'), variant: 'destructive' });
     }
   };
 
@@ -91,13 +112,13 @@ export default function Products() {
   };
 
   const handleDeleteProduct = async (id: number) => {
-    if (!confirm('Delete this product? This will also remove it from any grocery lists.')) return;
+    if (!confirm(t('products.confirmDelete'))) return;
     try {
       await api.deleteProduct(id);
-      toast({ title: 'Product deleted' });
+      toast({ title: t('products.deleted') });
       loadData();
     } catch (error) {
-      toast({ title: 'Failed to delete', variant: 'destructive' });
+      toast({ title: t('products.deleteFailed'), variant: 'destructive' });
     }
   };
 
@@ -110,7 +131,7 @@ export default function Products() {
         newCategoryIcon || '📦',
         parseInt(newCategorySortOrder) || 50
       );
-      toast({ title: 'Category created' });
+      toast({ title: t('products.categoryCreated') });
       setIsAddCategoryOpen(false);
       setNewCategoryName('');
       setNewCategoryIcon('📦');
@@ -118,8 +139,8 @@ export default function Products() {
       loadData();
     } catch (error) {
       toast({
-        title: 'Failed to create category',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('products.categoryCreateFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -132,14 +153,16 @@ export default function Products() {
         name: editCategory.name,
         icon: editCategory.icon,
         sort_order: editCategory.sort_order,
+        shelf_life_days: editCategory.shelf_life_days,
+        names: editCategory.names,
       });
-      toast({ title: 'Category updated' });
+      toast({ title: t('products.categoryUpdated') });
       setIsCategoryEditOpen(false);
       loadData();
     } catch (error) {
       toast({
-        title: 'Failed to update',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('productDialog.updateFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -148,21 +171,21 @@ export default function Products() {
   const handleDeleteCategory = async (id: number, name: string, productCount: number) => {
     if (productCount > 0) {
       toast({
-        title: 'Cannot delete',
-        description: `This category has ${productCount} products. Move them first.`,
+        title: t('products.cannotDelete'),
+        description: t('products.categoryHasProducts', { count: productCount }),
         variant: 'destructive',
       });
       return;
     }
-    if (!confirm(`Delete category "${name}"?`)) return;
+    if (!confirm(t('products.confirmDeleteCategory', { name }))) return;
     try {
       await api.deleteCategory(id);
-      toast({ title: 'Category deleted' });
+      toast({ title: t('products.categoryDeleted') });
       loadData();
     } catch (error) {
       toast({
-        title: 'Failed to delete',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('products.deleteFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
@@ -187,7 +210,7 @@ export default function Products() {
 
   const groupedProducts: Record<string, Product[]> = {};
   for (const product of filteredProducts) {
-    const cat = product.category_name || 'Autre';
+    const cat = product.category_name || t('common.otherCategory');
     if (!groupedProducts[cat]) {
       groupedProducts[cat] = [];
     }
@@ -210,10 +233,20 @@ export default function Products() {
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        <h2 className="text-2xl font-heading font-bold text-foreground">Product Management</h2>
-        <p className="text-muted-foreground">
-          Manage products and categories
-        </p>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h2 className="text-2xl font-heading font-bold text-foreground">{t('products.title')}</h2>
+            <p className="text-muted-foreground">
+              {t('products.subtitle')}
+            </p>
+          </div>
+          {isAdmin && pendingReviews > 0 && (
+            <Button variant="outline" size="sm" className="gap-2 shrink-0" onClick={() => navigate('/admin/ai-review')}>
+              <Sparkles className="w-4 h-4" />
+              {t('products.reviewAi', { count: pendingReviews })}
+            </Button>
+          )}
+        </div>
       </motion.div>
 
       {/* Tabs */}
@@ -224,7 +257,7 @@ export default function Products() {
           onClick={() => setActiveTab('products')}
         >
           <Package className="w-4 h-4" />
-          Products ({products.length})
+          {t('products.tabProducts', { count: products.length })}
         </Button>
         <Button
           variant={activeTab === 'categories' ? 'default' : 'ghost'}
@@ -232,7 +265,23 @@ export default function Products() {
           onClick={() => setActiveTab('categories')}
         >
           <Tag className="w-4 h-4" />
-          Categories ({categories.length})
+          {t('products.tabCategories', { count: categories.length })}
+        </Button>
+        <Button
+          variant={activeTab === 'staples' ? 'default' : 'ghost'}
+          className="flex-1 gap-2"
+          onClick={() => setActiveTab('staples')}
+        >
+          <Repeat className="w-4 h-4" />
+          {t('products.tabStaples')}
+        </Button>
+        <Button
+          variant={activeTab === 'duplicates' ? 'default' : 'ghost'}
+          className="flex-1 gap-2"
+          onClick={() => setActiveTab('duplicates')}
+        >
+          <Copy className="w-4 h-4" />
+          {t('products.tabDuplicates')}
         </Button>
       </div>
 
@@ -240,25 +289,27 @@ export default function Products() {
       {activeTab === 'products' && (
         <>
           {/* Add Product Button */}
-          <Button onClick={openAddProduct} className="w-full gap-2">
-            <Plus className="w-4 h-4" />
-            Add Product
-          </Button>
+          {canEdit && (
+            <Button onClick={openAddProduct} className="w-full gap-2">
+              <Plus className="w-4 h-4" />
+              {t('productDialog.addTitle')}
+            </Button>
+          )}
 
           {/* Search */}
           <div className="flex gap-2">
             <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
-                placeholder="Search products..."
+                placeholder={t('mealDialog.searchProducts')}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
             <Button onClick={handleSearch} variant="secondary">
-              Search
+              {t('products.searchButton')}
             </Button>
           </div>
 
@@ -278,17 +329,17 @@ export default function Products() {
                       <span className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center text-xl">
                         {categoryData?.icon || '📦'}
                       </span>
-                      <div className="text-left">
+                      <div className="text-start">
                         <h3 className="font-heading font-semibold">{category}</h3>
                         <p className="text-xs text-muted-foreground">
-                          {categoryProducts.length} product{categoryProducts.length !== 1 ? 's' : ''}
+                          {t('meals.productCount', { count: categoryProducts.length })}
                         </p>
                       </div>
                     </div>
                     {isExpanded ? (
                       <ChevronDown className="w-5 h-5 text-muted-foreground" />
                     ) : (
-                      <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                      <ChevronRight className="w-5 h-5 text-muted-foreground rtl:rotate-180" />
                     )}
                   </button>
                   
@@ -308,26 +359,28 @@ export default function Products() {
                                 className="flex items-center justify-between p-3 rounded-lg hover:bg-muted/50 active:bg-muted group"
                               >
                                 <span className="font-medium">{product.name}</span>
-                                <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-9 w-9 active:scale-95"
-                                    onClick={() => openEditProduct(product)}
-                                    aria-label="Edit product"
-                                  >
-                                    <Edit2 className="w-4 h-4" />
-                                  </Button>
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-9 w-9 active:scale-95 active:bg-red-100"
-                                    onClick={() => handleDeleteProduct(product.id)}
-                                    aria-label="Delete product"
-                                  >
-                                    <Trash2 className="w-4 h-4 text-red-500" />
-                                  </Button>
-                                </div>
+                                {isAdmin && (
+                                  <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-9 w-9 active:scale-95"
+                                      onClick={() => openEditProduct(product)}
+                                      aria-label={t('products.editProduct')}
+                                    >
+                                      <Edit2 className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-9 w-9 active:scale-95 active:bg-red-100"
+                                      onClick={() => handleDeleteProduct(product.id)}
+                                      aria-label={t('products.deleteProduct')}
+                                    >
+                                      <Trash2 className="w-4 h-4 text-red-500" />
+                                    </Button>
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -346,10 +399,12 @@ export default function Products() {
       {activeTab === 'categories' && (
         <>
           {/* Add Category Button */}
-          <Button onClick={() => setIsAddCategoryOpen(true)} className="w-full gap-2">
-            <Plus className="w-4 h-4" />
-            Add Category
-          </Button>
+          {isAdmin && (
+            <Button onClick={() => setIsAddCategoryOpen(true)} className="w-full gap-2">
+              <Plus className="w-4 h-4" />
+              {t('products.addCategory')}
+            </Button>
+          )}
 
           {/* Categories List */}
           <div className="space-y-2">
@@ -371,34 +426,37 @@ export default function Products() {
                         <div>
                           <h3 className="font-heading font-semibold">{category.name}</h3>
                           <p className="text-xs text-muted-foreground">
-                            {productCount} product{productCount !== 1 ? 's' : ''}
+                            {t('meals.productCount', { count: productCount })}
+                            {category.shelf_life_days && t('products.keepsDays', { count: category.shelf_life_days })}
                           </p>
                         </div>
                       </div>
-                      <div className="flex items-center gap-1">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-9 w-9 active:scale-95"
-                          onClick={() => {
-                            setEditCategory(category);
-                            setIsCategoryEditOpen(true);
-                          }}
-                          aria-label="Edit category"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-9 w-9 active:scale-95 active:bg-red-100"
-                          onClick={() => handleDeleteCategory(category.id, category.name, productCount)}
-                          aria-label="Delete category"
-                          disabled={productCount > 0}
-                        >
-                          <Trash2 className={`w-4 h-4 ${productCount > 0 ? 'text-gray-300' : 'text-red-500'}`} />
-                        </Button>
-                      </div>
+                      {isAdmin && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9 active:scale-95"
+                            onClick={() => {
+                              setEditCategory({ ...category, name: category.catalog_name ?? category.name });
+                              setIsCategoryEditOpen(true);
+                            }}
+                            aria-label={t('products.editCategory')}
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9 active:scale-95 active:bg-red-100"
+                            onClick={() => handleDeleteCategory(category.id, category.name, productCount)}
+                            aria-label={t('products.deleteCategory')}
+                            disabled={productCount > 0}
+                          >
+                            <Trash2 className={`w-4 h-4 ${productCount > 0 ? 'text-gray-300' : 'text-red-500'}`} />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </Card>
                 );
@@ -408,12 +466,23 @@ export default function Products() {
           {categories.length === 0 && (
             <div className="text-center py-12 text-muted-foreground">
               <Tag className="w-12 h-12 mx-auto mb-4 opacity-50" />
-              <p>No categories yet. Add one to get started.</p>
+              <p>{t('products.noCategories')}</p>
             </div>
           )}
         </>
       )}
 
+      {/* Staples Tab */}
+      {activeTab === 'staples' && <StaplesManager products={products} />}
+
+      {/* Duplicates Tab */}
+      {activeTab === 'duplicates' && <DuplicateProducts onMerged={() => loadData()} />}
+
+      {/* Import / Export (under the product list) */}
+      {activeTab === 'products' && (
+        <DataTransfer datasets={['catalog', 'meals', 'menu']} onImported={() => loadData()} />
+      )}
+
       {/* Product Dialog (unified for create/edit) */}
       <ProductDialog
         mode={productDialogMode}
@@ -428,21 +497,21 @@ export default function Products() {
       <Dialog open={isAddCategoryOpen} onOpenChange={setIsAddCategoryOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Add Category</DialogTitle>
+            <DialogTitle>{t('products.addCategory')}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="cat-name">Name</Label>
+              <Label htmlFor="cat-name">{t('common.name')}</Label>
               <Input
                 id="cat-name"
-                placeholder="e.g., Fruits et légumes"
+                placeholder={t('products.categoryPlaceholder')}
                 value={newCategoryName}
                 onChange={(e) => setNewCategoryName(e.target.value)}
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="cat-icon">Icon (emoji)</Label>
+                <Label htmlFor="cat-icon">{t('products.icon')}</Label>
                 <Input
                   id="cat-icon"
                   placeholder="📦"
@@ -452,7 +521,7 @@ export default function Products() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="cat-order">Sort Order</Label>
+                <Label htmlFor="cat-order">{t('products.sortOrder')}</Label>
                 <Input
                   id="cat-order"
                   type="number"
@@ -463,15 +532,15 @@ export default function Products() {
               </div>
             </div>
             <p className="text-xs text-muted-foreground">
-              Lower sort order = appears first in the list
+              {t('products.sortOrderHint')}
             </p>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddCategoryOpen(false)}>
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button onClick={handleAddCategory} disabled={!newCategoryName.trim()}>
-              Add Category
+              {t('products.addCategory')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -481,21 +550,29 @@ export default function Products() {
       <Dialog open={isCategoryEditOpen} onOpenChange={setIsCategoryEditOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Edit Category</DialogTitle>
+            <DialogTitle>{t('products.editCategoryTitle')}</DialogTitle>
           </DialogHeader>
           {editCategory && (
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="edit-cat-name">Name</Label>
+                <Label htmlFor="edit-cat-name">{t('common.name')}</Label>
                 <Input
                   id="edit-cat-name"
                   value={editCategory.name}
                   onChange={(e) => setEditCategory({ ...editCategory, name: e.target.value })}
                 />
               </div>
+              <div className="space-y-2">
+                <Label>{t('productDialog.translations')}</Label>
+                <LocalizedNamesInput
+                  value={editCategory.names ?? {}}
+                  onChange={(names) => setEditCategory({ ...editCategory, names })}
+                  placeholder={editCategory.name || undefined}
+                />
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="edit-cat-icon">Icon (emoji)</Label>
+                  <Label htmlFor="edit-cat-icon">{t('products.icon')}</Label>
                   <Input
                     id="edit-cat-icon"
                     value={editCategory.icon}
@@ -504,7 +581,7 @@ export default function Products() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="edit-cat-order">Sort Order</Label>
+                  <Label htmlFor="edit-cat-order">{t('products.sortOrder')}</Label>
                   <Input
                     id="edit-cat-order"
                     type="number"
@@ -513,14 +590,25 @@ export default function Products() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-cat-shelf-life">{t('products.productsKeepFor')}</Label>
+                <ShelfLifeInput
+                  id="edit-cat-shelf-life"
+                  value={editCategory.shelf_life_days}
+                  onChange={(days) => setEditCategory({ ...editCategory, shelf_life_days: days })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {t('products.shelfLifeHint')}
+                </p>
+              </div>
             </div>
           )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsCategoryEditOpen(false)}>
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button onClick={handleUpdateCategory}>
-              Save Changes
+              {t('productDialog.saveChanges')}
             </Button>
           </DialogFooter>
         </DialogContent>
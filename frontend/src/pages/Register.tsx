@@ -3,8 +3,11 @@ import { motion } from 'framer-motion';
 import { Lock, ArrowRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTranslation } from '@/contexts/LanguageContext';
 
 export default function Register() {
+  const { t } = useTranslation();
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-stone-100 via-stone-50 to-teal-50">
       {/* Decorative elements */}
@@ -29,17 +32,17 @@ export default function Register() {
             >
               <Lock className="w-8 h-8 text-white" />
             </motion.div>
-            <CardTitle className="text-2xl font-heading">Registration Closed</CardTitle>
-            <CardDescription>New accounts are not available at this time</CardDescription>
+            <CardTitle className="text-2xl font-heading">{t('register.title')}</CardTitle>
+            <CardDescription>{t('register.subtitle')}</CardDescription>
           </CardHeader>
           <CardContent className="text-center">
             <p className="text-muted-foreground mb-6">
-              Registration is currently disabled. If you already have an account, please sign in below.
+              {t('register.disabled')}
             </p>
             <Link to="/login">
               <Button className="w-full" size="lg">
-                Go to Login
-                <ArrowRight className="ml-2 w-4 h-4" />
+                {t('register.goToLogin')}
+                <ArrowRight className="ms-2 w-4 h-4 rtl:rotate-180" />
               </Button>
             </Link>
           </CardContent>
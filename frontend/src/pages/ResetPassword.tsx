@@ -7,12 +7,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
 
 export default function ResetPassword() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useTranslation();
   
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -24,19 +26,19 @@ export default function ResetPassword() {
 
   useEffect(() => {
     if (!token) {
-      setError('No reset token provided. Please use the link from your password reset email.');
+      setError(t('reset.noToken'));
     } else if (token.length !== 64) {
-      setError('Invalid reset token format.');
+      setError(t('reset.invalidToken'));
     }
-  }, [token]);
+  }, [token, t]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (password !== confirmPassword) {
       toast({
-        title: 'Passwords do not match',
-        description: 'Please make sure both passwords are the same.',
+        title: t('reset.mismatch'),
+        description: t('reset.mismatchHint'),
         variant: 'destructive',
       });
       return;
@@ -44,8 +46,8 @@ export default function ResetPassword() {
 
     if (password.length < 6) {
       toast({
-        title: 'Password too short',
-        description: 'Password must be at least 6 characters.',
+        title: t('auth.passwordTooShort'),
+        description: t('auth.passwordMinLength'),
         variant: 'destructive',
       });
       return;
@@ -57,16 +59,16 @@ export default function ResetPassword() {
       await api.resetPassword(token!, password);
       setIsSuccess(true);
       toast({
-        title: 'Password reset successful',
-        description: 'You can now log in with your new password.',
+        title: t('reset.success'),
+        description: t('reset.successHint'),
         variant: 'success',
       });
       // Redirect to login after 3 seconds
       setTimeout(() => navigate('/login'), 3000);
     } catch (err) {
       toast({
-        title: 'Reset failed',
-        description: err instanceof Error ? err.message : 'Failed to reset password',
+        title: t('reset.failed'),
+        description: err instanceof Error ? err.message : t('reset.failedHint'),
         variant: 'destructive',
       });
     } finally {
@@ -98,9 +100,9 @@ export default function ResetPassword() {
             >
               <ShoppingCart className="w-8 h-8 text-white" />
             </motion.div>
-            <CardTitle className="text-2xl font-heading">Reset Password</CardTitle>
+            <CardTitle className="text-2xl font-heading">{t('reset.title')}</CardTitle>
             <CardDescription>
-              {isSuccess ? 'Your password has been reset' : 'Enter your new password'}
+              {isSuccess ? t('reset.done') : t('reset.enterNew')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -112,7 +114,7 @@ export default function ResetPassword() {
                 <p className="text-muted-foreground">{error}</p>
                 <Link to="/login">
                   <Button variant="outline" className="mt-4">
-                    Back to Login
+                    {t('auth.backToLogin')}
                   </Button>
                 </Link>
               </div>
@@ -127,43 +129,43 @@ export default function ResetPassword() {
                   <CheckCircle className="w-8 h-8 text-green-600" />
                 </motion.div>
                 <p className="text-muted-foreground">
-                  Redirecting to login...
+                  {t('reset.redirecting')}
                 </p>
                 <Link to="/login">
                   <Button variant="outline">
-                    Go to Login Now
+                    {t('reset.goToLoginNow')}
                   </Button>
                 </Link>
               </div>
             ) : (
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="password">New Password</Label>
+                  <Label htmlFor="password">{t('reset.newPassword')}</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                     <Input
                       id="password"
                       type="password"
-                      placeholder="Enter new password"
+                      placeholder={t('reset.newPasswordPlaceholder')}
                       value={password}
                       onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10"
+                      className="ps-10"
                       required
                       minLength={6}
                     />
                   </div>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Label htmlFor="confirmPassword">{t('reset.confirmPassword')}</Label>
                   <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Lock className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                     <Input
                       id="confirmPassword"
                       type="password"
-                      placeholder="Confirm new password"
+                      placeholder={t('reset.confirmPlaceholder')}
                       value={confirmPassword}
                       onChange={(e) => setConfirmPassword(e.target.value)}
-                      className="pl-10"
+                      className="ps-10"
                       required
                       minLength={6}
                     />
@@ -174,8 +176,8 @@ export default function ResetPassword() {
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
                   ) : (
                     <>
-                      Reset Password
-                      <ArrowRight className="ml-2 w-4 h-4" />
+                      {t('reset.title')}
+                      <ArrowRight className="ms-2 w-4 h-4 rtl:rotate-180" />
                     </>
                   )}
                 </Button>
@@ -183,9 +185,9 @@ export default function ResetPassword() {
             )}
             {!error && !isSuccess && (
               <div className="mt-6 text-center text-sm text-muted-foreground">
-                Remember your password?{' '}
+                {t('reset.remember')}{' '}
                 <Link to="/login" className="text-primary font-medium hover:underline">
-                  Sign in
+                  {t('reset.signIn')}
                 </Link>
               </div>
             )}
@@ -1,23 +1,27 @@
 import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence, PanInfo, useMotionValue, useTransform } from 'framer-motion';
-import { ShoppingCart, Check, Ban, ArrowLeft, ArrowRight, CheckCircle2, XCircle, RotateCcw, Undo2, ChevronDown } from 'lucide-react';
+import { ShoppingCart, Check, Ban, ArrowLeft, ArrowRight, CheckCircle2, XCircle, RotateCcw, ChevronDown, CloudOff, Store as StoreIcon, Tag } from 'lucide-react';
 import { useGrocery } from '@/contexts/GroceryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import type { GroceryItem, ItemStatus } from '@/lib/api';
+import { api } from '@/lib/api';
+import type { GroceryItem, ItemStatus, Store } from '@/lib/api';
+import { formatQuantity, formatPrice, lineCost, priceUnit, unitLabel } from '@/lib/units';
+import UndoControls from '@/components/UndoControls';
 
-interface UndoAction {
-  itemId: number;
-  previousStatus: ItemStatus;
-  productName: string;
-}
+const NO_STORE = 'none';
 
-// Helper to group items by category
+// Helper to group items by category (or by aisle when walking a store)
 function groupByCategory(items: GroceryItem[]): Record<string, { icon: string; items: GroceryItem[] }> {
   return items.reduce((acc, item) => {
-    const cat = item.category_name;
+    const cat = item.store_section ?? item.category_name;
     if (!acc[cat]) {
       acc[cat] = { icon: item.category_icon, items: [] };
     }
@@ -27,15 +31,37 @@ function groupByCategory(items: GroceryItem[]): Record<string, { icon: string; i
 }
 
 export default function Shopping() {
-  const { activeItems, foundItems, fetchItems, updateStatus, completeShopping } = useGrocery();
+  const {
+    activeItems, foundItems, pendingChanges, store, basketTotal,
+    fetchItems, updateStatus, completeShopping, selectStore,
+  } = useGrocery();
+  const { canEdit, currentHousehold } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isCompleting, setIsCompleting] = useState(false);
-  const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
 
   useEffect(() => {
     fetchItems();
   }, [fetchItems]);
 
+  useEffect(() => {
+    if (!currentHousehold) return;
+    api.getStores().then(setStores).catch(() => setStores([]));
+  }, [currentHousehold]);
+
+  const handleStoreChange = async (value: string) => {
+    try {
+      await selectStore(value === NO_STORE ? null : parseInt(value));
+    } catch (error) {
+      toast({
+        title: t('shopping.loadStoreFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Filter items by status
   const shoppingItems = activeItems.filter(
     item => item.status === 'pending' || item.status === 'selected'
@@ -50,70 +76,41 @@ export default function Shopping() {
   const totalItems = shoppingItems.length;
   const foundCount = foundItems.length;
 
-  const handleStatusChange = useCallback(async (item: GroceryItem, newStatus: ItemStatus) => {
-    // Save to undo stack
-    setUndoStack(prev => [...prev, {
-      itemId: item.id,
-      previousStatus: item.status,
-      productName: item.product_name,
-    }]);
-    
-    await updateStatus(item.id, newStatus);
+  const handleStatusChange = useCallback(async (item: GroceryItem, newStatus: ItemStatus, details: FoundDetails = {}) => {
+    await updateStatus(item.id, newStatus, details.unitPrice, details.bestBefore);
   }, [updateStatus]);
 
-  const handleUndo = useCallback(async () => {
-    if (undoStack.length === 0) return;
-    
-    const lastAction = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1));
-    
-    try {
-      await updateStatus(lastAction.itemId, lastAction.previousStatus);
-      await fetchItems(); // Refresh to get updated state
-      toast({
-        title: 'Undone',
-        description: `Restored ${lastAction.productName}`,
-      });
-    } catch (error) {
-      toast({
-        title: 'Failed to undo',
-        description: error instanceof Error ? error.message : 'Something went wrong',
-        variant: 'destructive',
-      });
-    }
-  }, [undoStack, updateStatus, fetchItems, toast]);
-
   const handleRestore = useCallback(async (item: GroceryItem) => {
     try {
       await updateStatus(item.id, 'pending');
       await fetchItems(); // Refresh to update the list immediately
       toast({
-        title: 'Restored',
-        description: `${item.product_name} moved back to list`,
+        title: t('shopping.restored'),
+        description: t('shopping.restoredDetail', { name: item.product_name }),
       });
     } catch (error) {
       toast({
-        title: 'Failed to restore',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('shopping.restoreFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     }
-  }, [updateStatus, fetchItems, toast]);
+  }, [updateStatus, fetchItems, toast, t]);
 
   const handleComplete = async () => {
     setIsCompleting(true);
     try {
       const result = await completeShopping();
-      setUndoStack([]); // Clear undo stack on complete
       toast({
-        title: 'Shopping complete!',
-        description: `Found ${result.foundCount} items, ${result.notFoundCount} not found`,
+        title: t('shopping.complete'),
+        description: t('shopping.completeDetail', { found: result.foundCount, notFound: result.notFoundCount }) +
+          (result.totalSpent !== null ? t('shopping.spent', { amount: formatPrice(result.totalSpent) }) : ''),
         variant: 'success',
       });
     } catch (error) {
       toast({
-        title: 'Failed to complete',
-        description: error instanceof Error ? error.message : 'Something went wrong',
+        title: t('shopping.completeFailed'),
+        description: error instanceof Error ? error.message : t('common.somethingWrong'),
         variant: 'destructive',
       });
     } finally {
@@ -127,9 +124,9 @@ export default function Shopping() {
         <div className="w-20 h-20 mx-auto mb-6 rounded-3xl bg-gradient-to-br from-teal-100 to-teal-200 flex items-center justify-center">
           <ShoppingCart className="w-10 h-10 text-teal-600" />
         </div>
-        <h3 className="text-xl font-heading font-semibold mb-2">Ready to shop?</h3>
+        <h3 className="text-xl font-heading font-semibold mb-2">{t('shopping.readyTitle')}</h3>
         <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
-          Add items to your list first, then come back here for shopping mode.
+          {t('shopping.readyHint')}
         </p>
       </div>
     );
@@ -144,34 +141,48 @@ export default function Shopping() {
         className="text-center"
       >
         <div className="flex items-center justify-between mb-2">
-          <div className="w-10" /> {/* Spacer */}
-          <h2 className="text-2xl font-heading font-bold text-foreground">Shopping Mode</h2>
-          {/* Undo Button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleUndo}
-            disabled={undoStack.length === 0}
-            className="relative"
-            aria-label="Undo last action"
-          >
-            <Undo2 className="w-5 h-5" />
-            {undoStack.length > 0 && (
-              <span className="absolute -top-1 -right-1 w-4 h-4 text-xs bg-primary text-primary-foreground rounded-full flex items-center justify-center">
-                {undoStack.length}
-              </span>
-            )}
-          </Button>
+          <div className="w-20" /> {/* Spacer */}
+          <h2 className="text-2xl font-heading font-bold text-foreground">{t('shopping.title')}</h2>
+          <UndoControls />
         </div>
         <p className="text-muted-foreground">
-          Swipe right for found, left for not found
+          {t('shopping.swipeHint')}
         </p>
+        {(stores.length > 0 || canEdit) && (
+          <div className="mt-3 flex items-center justify-center gap-2">
+            <StoreIcon className="w-4 h-4 text-muted-foreground" />
+            {stores.length > 0 && (
+              <Select value={store ? store.id.toString() : NO_STORE} onValueChange={handleStoreChange}>
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STORE}>{t('shopping.noStore')}</SelectItem>
+                  {stores.map((s) => (
+                    <SelectItem key={s.id} value={s.id.toString()}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {canEdit && (
+              <Link to="/stores" className="text-xs text-primary hover:underline">
+                {stores.length > 0 ? t('shopping.manageStores') : t('shopping.setUpStore')}
+              </Link>
+            )}
+          </div>
+        )}
+        {pendingChanges > 0 && (
+          <p className="mt-1 text-xs text-amber-600 flex items-center justify-center gap-1">
+            <CloudOff className="w-3 h-3" />
+            {t('shopping.pendingChanges', { count: pendingChanges })}
+          </p>
+        )}
         
         {/* Progress bar */}
         <div className="mt-4 max-w-xs mx-auto">
           <div className="flex justify-between text-sm mb-1">
-            <span className="text-muted-foreground">{foundCount} found</span>
-            <span className="text-muted-foreground">{totalItems} remaining</span>
+            <span className="text-muted-foreground">{t('shopping.foundCount', { count: foundCount })}</span>
+            <span className="text-muted-foreground">{t('shopping.remaining', { count: totalItems })}</span>
           </div>
           <div className="h-2 bg-muted rounded-full overflow-hidden">
             <motion.div
@@ -181,18 +192,23 @@ export default function Shopping() {
               transition={{ duration: 0.5 }}
             />
           </div>
+          {basketTotal !== null && (
+            <p className="mt-2 text-sm font-medium text-foreground tabular-nums">
+              {t('shopping.basket', { amount: formatPrice(basketTotal) })}
+            </p>
+          )}
         </div>
       </motion.div>
 
       {/* Swipe Instructions */}
       <div className="flex justify-center gap-8 text-sm text-muted-foreground">
         <div className="flex items-center gap-2">
-          <ArrowLeft className="w-4 h-4 text-red-500" />
-          <span>Not Found</span>
+          <ArrowLeft className="w-4 h-4 text-red-500 rtl:rotate-180" />
+          <span>{t('shopping.notFound')}</span>
         </div>
         <div className="flex items-center gap-2">
-          <span>Found</span>
-          <ArrowRight className="w-4 h-4 text-emerald-500" />
+          <span>{t('shopping.found')}</span>
+          <ArrowRight className="w-4 h-4 text-emerald-500 rtl:rotate-180" />
         </div>
       </div>
 
@@ -214,8 +230,9 @@ export default function Shopping() {
                   <SwipeableItem
                     key={item.id}
                     item={item}
-                    onSwipeLeft={() => handleStatusChange(item, 'not_found')}
-                    onSwipeRight={() => handleStatusChange(item, 'found')}
+                    onSwipeStart={() => handleStatusChange(item, 'not_found')}
+                    onSwipeEnd={() => handleStatusChange(item, 'found')}
+                    onFoundWith={(details) => handleStatusChange(item, 'found', details)}
                     index={index}
                   />
                 ))}
@@ -236,7 +253,7 @@ export default function Shopping() {
               <div className="flex items-center gap-2 mb-4">
                 <XCircle className="w-5 h-5 text-red-600" />
                 <h3 className="font-heading font-semibold text-red-900">
-                  Not Found ({notFoundItems.length})
+                  {t('shopping.notFoundSection', { count: notFoundItems.length })}
                 </h3>
               </div>
               <div className="space-y-3">
@@ -255,21 +272,21 @@ export default function Shopping() {
                       </div>
                     </CollapsibleTrigger>
                     <CollapsibleContent>
-                      <div className="mt-2 space-y-1 pl-8">
+                      <div className="mt-2 space-y-1 ps-8">
                         {items.map((item) => (
                           <div
                             key={item.id}
                             className="flex items-center justify-between p-2 rounded-lg hover:bg-red-100/50"
                           >
                             <span className="text-red-700">
-                              {item.product_name} (x{item.quantity})
+                              {item.product_name} ({formatQuantity(item.quantity, item.unit)})
                             </span>
                             <Button
                               variant="ghost"
                               size="sm"
                               onClick={() => handleRestore(item)}
                               className="text-red-600 hover:text-red-800 hover:bg-red-100"
-                              title="Restore to list"
+                              title={t('shopping.restoreToList')}
                             >
                               <RotateCcw className="w-4 h-4" />
                             </Button>
@@ -296,7 +313,7 @@ export default function Shopping() {
               <div className="flex items-center gap-2 mb-4">
                 <Check className="w-5 h-5 text-emerald-600" />
                 <h3 className="font-heading font-semibold text-emerald-900">
-                  Found ({foundItems.length})
+                  {t('shopping.foundSection', { count: foundItems.length })}
                 </h3>
               </div>
               <div className="space-y-3">
@@ -315,21 +332,28 @@ export default function Shopping() {
                       </div>
                     </CollapsibleTrigger>
                     <CollapsibleContent>
-                      <div className="mt-2 space-y-1 pl-8">
+                      <div className="mt-2 space-y-1 ps-8">
                         {items.map((item) => (
                           <div
                             key={item.id}
                             className="flex items-center justify-between p-2 rounded-lg hover:bg-emerald-100/50"
                           >
-                            <span className="text-emerald-700 line-through">
-                              {item.product_name} (x{item.quantity})
+                            <span className="text-emerald-700">
+                              <span className="line-through">
+                                {item.product_name} ({formatQuantity(item.quantity, item.unit)})
+                              </span>
+                              {item.unit_price !== null && (
+                                <span className="ms-2 text-sm tabular-nums">
+                                  {formatPrice(lineCost(item.quantity, item.unit, item.unit_price)!)}
+                                </span>
+                              )}
                             </span>
                             <Button
                               variant="ghost"
                               size="sm"
                               onClick={() => handleRestore(item)}
                               className="text-emerald-600 hover:text-emerald-800 hover:bg-emerald-100"
-                              title="Restore to list"
+                              title={t('shopping.restoreToList')}
                             >
                               <RotateCcw className="w-4 h-4" />
                             </Button>
@@ -350,7 +374,7 @@ export default function Shopping() {
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          className="fixed bottom-20 left-4 right-4 max-w-lg mx-auto"
+          className="fixed bottom-20 start-4 end-4 max-w-lg mx-auto"
         >
           <Button
             onClick={handleComplete}
@@ -362,12 +386,12 @@ export default function Shopping() {
             {isCompleting ? (
               <>
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
-                Completing...
+                {t('shopping.completing')}
               </>
             ) : (
               <>
                 <CheckCircle2 className="w-5 h-5" />
-                Complete Shopping
+                {t('shopping.completeShopping')}
               </>
             )}
           </Button>
@@ -377,48 +401,78 @@ export default function Shopping() {
   );
 }
 
+// Entered when ticking an item off; left out, the price stays unset and the
+// best-before date comes from the product's shelf life
+interface FoundDetails {
+  unitPrice?: number;
+  bestBefore?: string;
+}
+
 // Swipeable Item Component
 interface SwipeableItemProps {
   item: GroceryItem;
-  onSwipeLeft: () => void;
-  onSwipeRight: () => void;
+  // Towards the start of the line (left, or right in RTL) and towards its end
+  onSwipeStart: () => void;
+  onSwipeEnd: () => void;
+  // Marks the item found with the price paid and/or its best-before date
+  onFoundWith: (details: FoundDetails) => void;
   index: number;
 }
 
-function SwipeableItem({ item, onSwipeLeft, onSwipeRight, index }: SwipeableItemProps) {
+function SwipeableItem({ item, onSwipeStart, onSwipeEnd, onFoundWith, index }: SwipeableItemProps) {
+  const { t, dir } = useTranslation();
+  const [isPricing, setIsPricing] = useState(false);
+  const [price, setPrice] = useState(item.unit_price?.toString() ?? '');
+  const [bestBefore, setBestBefore] = useState(item.best_before ?? '');
   const x = useMotionValue(0);
+  // Drag distance towards the end of the line, so swipes mirror in RTL
+  const sign = dir === 'rtl' ? -1 : 1;
+  const towardsEnd = useTransform(x, (value) => value * sign);
   const background = useTransform(
-    x,
+    towardsEnd,
     [-100, 0, 100],
     ['rgb(254 202 202)', 'rgb(255 255 255)', 'rgb(209 250 229)']
   );
-  const leftOpacity = useTransform(x, [-100, -50, 0], [1, 0.5, 0]);
-  const rightOpacity = useTransform(x, [0, 50, 100], [0, 0.5, 1]);
+  const startOpacity = useTransform(towardsEnd, [-100, -50, 0], [1, 0.5, 0]);
+  const endOpacity = useTransform(towardsEnd, [0, 50, 100], [0, 0.5, 1]);
 
   const handleDragEnd = (_: unknown, info: PanInfo) => {
-    if (info.offset.x < -100) {
-      onSwipeLeft();
-    } else if (info.offset.x > 100) {
-      onSwipeRight();
+    const offset = info.offset.x * sign;
+    if (offset < -100) {
+      onSwipeStart();
+    } else if (offset > 100) {
+      onSwipeEnd();
+    }
+  };
+
+  const handleDetailsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const details: FoundDetails = {};
+    if (price.trim()) {
+      const value = parseFloat(price.replace(',', '.'));
+      if (isNaN(value) || value < 0) return;
+      details.unitPrice = value;
     }
+    if (bestBefore) details.bestBefore = bestBefore;
+    onFoundWith(details);
   };
 
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
-      exit={{ opacity: 0, x: 200 }}
+      exit={{ opacity: 0, x: 200 * sign }}
       transition={{ delay: index * 0.02 }}
       className="relative"
     >
       {/* Background indicators */}
       <div className="absolute inset-0 flex items-center justify-between px-6 pointer-events-none">
-        <motion.div style={{ opacity: leftOpacity }} className="flex items-center gap-2 text-red-500">
+        <motion.div style={{ opacity: startOpacity }} className="flex items-center gap-2 text-red-500">
           <Ban className="w-6 h-6" />
-          <span className="font-medium">Not Found</span>
+          <span className="font-medium">{t('shopping.notFound')}</span>
         </motion.div>
-        <motion.div style={{ opacity: rightOpacity }} className="flex items-center gap-2 text-emerald-500">
-          <span className="font-medium">Found</span>
+        <motion.div style={{ opacity: endOpacity }} className="flex items-center gap-2 text-emerald-500">
+          <span className="font-medium">{t('shopping.found')}</span>
           <Check className="w-6 h-6" />
         </motion.div>
       </div>
@@ -426,6 +480,7 @@ function SwipeableItem({ item, onSwipeLeft, onSwipeRight, index }: SwipeableItem
       {/* Swipeable card */}
       <motion.div
         drag="x"
+        dragListener={!isPricing}
         dragConstraints={{ left: 0, right: 0 }}
         dragElastic={0.7}
         onDragEnd={handleDragEnd}
@@ -434,8 +489,43 @@ function SwipeableItem({ item, onSwipeLeft, onSwipeRight, index }: SwipeableItem
       >
         <div className="flex items-center gap-3">
           <h3 className="flex-1 font-medium text-foreground">{item.product_name}</h3>
-          <span className="text-sm text-muted-foreground tabular-nums">x{item.quantity}</span>
+          <span className="text-sm text-muted-foreground tabular-nums">{formatQuantity(item.quantity, item.unit)}</span>
+          <button
+            onClick={() => setIsPricing(!isPricing)}
+            className={`p-1 rounded-md transition-colors ${isPricing ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+            aria-label={t('shopping.enterDetails')}
+          >
+            <Tag className="w-4 h-4" />
+          </button>
         </div>
+        {isPricing && (
+          <form onSubmit={handleDetailsSubmit} className="mt-2 flex flex-wrap items-center gap-2">
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder={t('shopping.price')}
+              className="h-8 w-24"
+              autoFocus
+            />
+            <span className="text-sm text-muted-foreground">
+              / {priceUnit(item.unit) === 'piece' ? t('shopping.perItem') : unitLabel(priceUnit(item.unit))}
+            </span>
+            <Input
+              type="date"
+              value={bestBefore}
+              onChange={(e) => setBestBefore(e.target.value)}
+              aria-label={t('shopping.bestBefore')}
+              title={t('shopping.bestBefore')}
+              className="h-8 w-36"
+            />
+            <Button type="submit" size="sm" variant="success" className="ms-auto h-8">
+              <Check className="w-4 h-4 me-1" />
+              {t('shopping.found')}
+            </Button>
+          </form>
+        )}
       </motion.div>
     </motion.div>
   );
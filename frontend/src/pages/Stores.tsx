@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Store as StoreIcon, Plus, Trash2, ArrowUp, ArrowDown, Save, MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGrocery } from '@/contexts/GroceryContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { api, Category, Product, Store, StoreWithLayout } from '@/lib/api';
+
+// A category in the walking order being edited
+interface LayoutRow {
+  category: Category;
+  aisle: string;
+}
+
+// A product shelved away from its category in this store
+interface OverrideRow {
+  product_id: number;
+  product_name: string;
+  category_id: number | null;
+  aisle: string;
+}
+
+const OWN_CATEGORY = 'own';
+
+// Categories already placed in the store come first, in walking order,
+// followed by the others in their default order
+function buildLayout(store: StoreWithLayout, categories: Category[]): LayoutRow[] {
+  const placed = store.categories
+    .map(sc => {
+      const category = categories.find(c => c.id === sc.category_id);
+      return category && { category, aisle: sc.aisle || '' };
+    })
+    .filter((row): row is LayoutRow => !!row);
+  const rest = categories
+    .filter(c => !store.categories.some(sc => sc.category_id === c.id))
+    .map(category => ({ category, aisle: '' }));
+  return [...placed, ...rest];
+}
+
+export default function Stores() {
+  const { toast } = useToast();
+  const { canEdit } = useAuth();
+  const { t } = useTranslation();
+  const { store: shoppingStore, selectStore } = useGrocery();
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selected, setSelected] = useState<StoreWithLayout | null>(null);
+  const [newStoreName, setNewStoreName] = useState('');
+
+  // Draft of the selected store
+  const [name, setName] = useState('');
+  const [layout, setLayout] = useState<LayoutRow[]>([]);
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : t('common.somethingWrong'),
+      variant: 'destructive',
+    });
+  }, [toast, t]);
+
+  const loadStores = useCallback(async () => {
+    try {
+      const [storesData, categoriesData, productsData] = await Promise.all([
+        api.getStores(),
+        api.getCategories(),
+        api.getProducts(),
+      ]);
+      setStores(storesData);
+      setCategories(categoriesData);
+      setProducts(productsData);
+    } catch (error) {
+      showError(t('stores.loadFailed'), error);
+    }
+  }, [showError, t]);
+
+  useEffect(() => {
+    loadStores();
+  }, [loadStores]);
+
+  const openStore = useCallback((store: StoreWithLayout) => {
+    setSelected(store);
+    setName(store.name);
+    setLayout(buildLayout(store, categories));
+    setOverrides(store.products.map(p => ({
+      product_id: p.product_id,
+      product_name: p.product_name,
+      category_id: p.category_id,
+      aisle: p.aisle || '',
+    })));
+    setProductSearch('');
+  }, [categories]);
+
+  const handleSelect = async (storeId: number) => {
+    try {
+      openStore(await api.getStore(storeId));
+    } catch (error) {
+      showError(t('stores.loadOneFailed'), error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStoreName.trim()) return;
+    try {
+      const store = await api.createStore(newStoreName.trim());
+      setStores(prev => [...prev, store].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewStoreName('');
+      openStore(store);
+    } catch (error) {
+      showError(t('stores.createFailed'), error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm(t('stores.confirmDelete', { name: selected.name }))) return;
+    try {
+      await api.deleteStore(selected.id);
+      setStores(prev => prev.filter(s => s.id !== selected.id));
+      if (shoppingStore?.id === selected.id) {
+        await selectStore(null);
+      }
+      setSelected(null);
+    } catch (error) {
+      showError(t('stores.deleteFailed'), error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected || !name.trim()) return;
+    setIsSaving(true);
+    try {
+      const store = await api.updateStore(selected.id, {
+        name: name.trim(),
+        categories: layout.map(row => ({ category_id: row.category.id, aisle: row.aisle.trim() || null })),
+        products: overrides.map(row => ({
+          product_id: row.product_id,
+          category_id: row.category_id,
+          aisle: row.aisle.trim() || null,
+        })),
+      });
+      setStores(prev => prev.map(s => s.id === store.id ? store : s));
+      openStore(store);
+      // Re-sort the shopping list if this is the store being walked
+      if (shoppingStore?.id === store.id) {
+        await selectStore(store.id);
+      }
+      toast({ title: t('stores.saved'), variant: 'success' });
+    } catch (error) {
+      showError(t('stores.saveFailed'), error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const moveCategory = (index: number, offset: number) => {
+    setLayout(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setCategoryAisle = (index: number, aisle: string) => {
+    setLayout(prev => prev.map((row, i) => i === index ? { ...row, aisle } : row));
+  };
+
+  const addOverride = (product: Product) => {
+    setOverrides(prev => [...prev, {
+      product_id: product.id,
+      product_name: product.name,
+      category_id: null,
+      aisle: '',
+    }]);
+    setProductSearch('');
+  };
+
+  const updateOverride = (productId: number, changes: Partial<OverrideRow>) => {
+    setOverrides(prev => prev.map(row => row.product_id === productId ? { ...row, ...changes } : row));
+  };
+
+  const removeOverride = (productId: number) => {
+    setOverrides(prev => prev.filter(row => row.product_id !== productId));
+  };
+
+  const searchTerm = productSearch.trim().toLowerCase();
+  const productMatches = searchTerm
+    ? products
+        .filter(p => p.name.toLowerCase().includes(searchTerm))
+        .filter(p => !overrides.some(row => row.product_id === p.id))
+        .slice(0, 5)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-teal-700 flex items-center justify-center">
+                <StoreIcon className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <CardTitle>{t('stores.title')}</CardTitle>
+                <CardDescription>{t('stores.subtitle')}</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stores.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('stores.empty')}</p>
+            )}
+            {stores.map((store) => (
+              <button
+                key={store.id}
+                onClick={() => handleSelect(store.id)}
+                className={`w-full text-start p-3 rounded-lg transition-colors ${
+                  selected?.id === store.id ? 'bg-primary/10 text-primary' : 'bg-muted/50 hover:bg-muted'
+                }`}
+              >
+                <span className="font-medium">{store.name}</span>
+              </button>
+            ))}
+            {canEdit && (
+              <form onSubmit={handleCreate} className="flex gap-2 pt-2">
+                <Input
+                  value={newStoreName}
+                  onChange={(e) => setNewStoreName(e.target.value)}
+                  placeholder={t('stores.newName')}
+                  maxLength={100}
+                />
+                <Button type="submit" disabled={!newStoreName.trim()}>
+                  <Plus className="w-4 h-4 me-1" />
+                  {t('common.add')}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {selected && (
+        <motion.div
+          key={selected.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="space-y-6"
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stores.aisleOrder')}</CardTitle>
+              <CardDescription>{t('stores.aisleOrderHint')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="store-name">{t('common.name')}</Label>
+                <Input
+                  id="store-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!canEdit}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-1">
+                {layout.map((row, index) => (
+                  <div key={row.category.id} className="flex items-center gap-2 p-2 rounded-lg bg-muted/50">
+                    <span className="w-6 text-xs text-muted-foreground text-end">{index + 1}</span>
+                    <span className="text-lg">{row.category.icon || '📦'}</span>
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium">{row.category.name}</span>
+                    <Input
+                      value={row.aisle}
+                      onChange={(e) => setCategoryAisle(index, e.target.value)}
+                      placeholder={t('stores.aisle')}
+                      className="w-24 h-8"
+                      disabled={!canEdit}
+                      maxLength={50}
+                    />
+                    {canEdit && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveCategory(index, -1)}
+                          disabled={index === 0}
+                          aria-label={t('stores.moveUp')}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveCategory(index, 1)}
+                          disabled={index === layout.length - 1}
+                          aria-label={t('stores.moveDown')}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('stores.misplaced')}</CardTitle>
+              <CardDescription>{t('stores.misplacedHint')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {overrides.map((row) => (
+                <div key={row.product_id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-muted/50">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span className="flex-1 min-w-0 truncate text-sm font-medium">{row.product_name}</span>
+                  <Select
+                    value={row.category_id ? row.category_id.toString() : OWN_CATEGORY}
+                    onValueChange={(value) => updateOverride(row.product_id, {
+                      category_id: value === OWN_CATEGORY ? null : parseInt(value),
+                    })}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger className="w-40 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={OWN_CATEGORY}>{t('stores.withOwnCategory')}</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id.toString()}>
+                          {t('stores.withCategory', { category: category.name })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={row.aisle}
+                    onChange={(e) => updateOverride(row.product_id, { aisle: e.target.value })}
+                    placeholder={t('stores.aisle')}
+                    className="w-24 h-8"
+                    disabled={!canEdit}
+                    maxLength={50}
+                  />
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeOverride(row.product_id)}
+                      aria-label={t('stores.remove')}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <div className="space-y-1">
+                  <Input
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                    placeholder={t('stores.searchProduct')}
+                  />
+                  {productMatches.map((product) => (
+                    <button
+                      key={product.id}
+                      onClick={() => addOverride(product)}
+                      className="w-full text-start flex items-center gap-2 p-2 rounded-lg hover:bg-muted text-sm"
+                    >
+                      <span>{product.category_icon || '📦'}</span>
+                      {product.name}
+                      <span className="text-muted-foreground">({product.category_name})</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={handleSave} disabled={isSaving || !name.trim()}>
+                {isSaving ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 me-2" />
+                    {t('stores.saveLayout')}
+                  </>
+                )}
+              </Button>
+              <Button variant="outline" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4 me-2 text-destructive" />
+                {t('common.delete')}
+              </Button>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+}